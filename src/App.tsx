@@ -6,6 +6,11 @@ import { Button } from "@heroui/react";
 import { ThemeSwitcher } from "./components/theme-switcher";
 import { useTheme } from "@heroui/use-theme";
 import { TruePortfolioProvider } from "./utils/TruePortfolioContext";
+import { AccountProvider } from "./context/AccountContext";
+import { AccountSwitcher } from "./components/AccountSwitcher";
+import { SyncStatusIndicator } from "./components/SyncStatusIndicator";
+import { useSyncStatus } from "./hooks/use-sync-status";
+import { useRealtimeUpdates } from "./hooks/use-realtime-updates";
 import { TruePortfolioSetupManager } from "./components/TruePortfolioSetupManager";
 import { ProfileSettingsModal } from "./components/ProfileSettingsModal";
 import { GlobalFilterProvider } from "./context/GlobalFilterContext";
@@ -75,7 +80,7 @@ const preloadComponents = () => {
 // Authentication - Pure cloud-based
 import { AuthProvider, useAuth, useUser } from "./context/AuthContext";
 import { AuthGuard } from "./components/auth/AuthGuard";
-import { SupabaseService } from "./services/supabaseService";
+import { StorageService } from "./services/storageBackend";
 // ✅ REMOVED: Imperative AppInitializer conflicts with TanStack Query
 // import { AppInitializer } from "./services/appInitializer";
 // import { useAppInitializer } from "./hooks/useAppInitializer";
@@ -90,6 +95,8 @@ function AppContent() {
   const location = useLocation();
   const { theme } = useTheme();
   const { user, signOut } = useAuth();
+  const isLocalOnly = useSyncStatus().mode === 'local';
+  useRealtimeUpdates(queryClient);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
   const [isProfileOpen, setIsProfileOpen] = React.useState(false);
   const [userName, setUserName] = React.useState('');
@@ -116,7 +123,7 @@ function AppContent() {
   // Memoize Supabase helper functions to prevent re-creation on every render
   const fetchUserPreferences = useCallback(async () => {
     try {
-      const prefs = await SupabaseService.getUserPreferences();
+      const prefs = await StorageService.backend.preferences.get();
       return prefs;
     } catch (error) {
       return null;
@@ -127,7 +134,7 @@ function AppContent() {
     try {
       const existing = await fetchUserPreferences() || {};
       const updated = { ...existing, ...prefs };
-      await SupabaseService.saveUserPreferences(updated);
+      await StorageService.backend.preferences.save(updated);
     } catch (error) {
       // Debug logging removed for production
     }
@@ -185,7 +192,7 @@ function AppContent() {
   React.useEffect(() => {
     if (!loadingPrefs) {
       // Use immediate save for critical layout preferences
-      SupabaseService.saveUserPreferencesImmediate({ is_full_width_enabled: isFullWidthEnabled })
+      StorageService.backend.preferences.save({ is_full_width_enabled: isFullWidthEnabled })
         .then((success) => {
           if (!success) {
             // Fallback to regular debounced save
@@ -256,6 +263,7 @@ function AppContent() {
 
   return (
     <QueryClientProvider client={queryClient}>
+      <AccountProvider>
       <TruePortfolioProvider>
         <AccountingMethodProvider initialAccountingMethod={null}>
           <TerminologyProvider initialTerminology={null}>
@@ -343,6 +351,8 @@ function AppContent() {
 
                 {/* Right Side Actions */}
                 <div className="flex items-center gap-3">
+                  {(user || isLocalOnly) && <AccountSwitcher />}
+                  {(user || isLocalOnly) && <SyncStatusIndicator />}
                   <ThemeSwitcher />
                   {user ? (
                     <>
@@ -533,6 +543,7 @@ function AppContent() {
         </TerminologyProvider>
       </AccountingMethodProvider>
     </TruePortfolioProvider>
+      </AccountProvider>
     <ReactQueryDevtools initialIsOpen={false} />
     </QueryClientProvider>
   );
@@ -0,0 +1,307 @@
+import React from "react";
+import {
+  Button,
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+  DropdownSection,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Input,
+  Select,
+  SelectItem
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useAccounts } from "../context/AccountContext";
+import { ALL_ACCOUNTS, DEFAULT_ACCOUNT_ID, BrokerAccount, FeePlanSettings, FeePlanPreset } from "../types/account";
+import { FEE_PLAN_PRESETS, inferFeePlanPreset, resolveFeePlan } from "../lib/calculations";
+
+const MANAGE_KEY = '__manage__';
+
+/**
+ * AccountSwitcher - Header dropdown for choosing the broker account / sub-portfolio
+ *
+ * Features:
+ * - Switch between accounts or the consolidated "All accounts" view
+ * - Add, rename and remove accounts (removed accounts hand their trades to the default account)
+ * - Pick each account's brokerage fee plan for the charges engine
+ */
+export const AccountSwitcher: React.FC = () => {
+  const { accounts, activeAccountId, setActiveAccountId, getAccountName } = useAccounts();
+  const [isManageOpen, setIsManageOpen] = React.useState(false);
+
+  const handleSelection = (key: React.Key) => {
+    if (key === MANAGE_KEY) {
+      setIsManageOpen(true);
+    } else {
+      setActiveAccountId(String(key));
+    }
+  };
+
+  return (
+    <>
+      <Dropdown placement="bottom-end">
+        <DropdownTrigger>
+          <Button
+            variant="flat"
+            size="sm"
+            className="rounded-full min-h-0 max-w-[180px]"
+            startContent={<Icon icon={activeAccountId === ALL_ACCOUNTS ? "lucide:layers" : "lucide:wallet"} className="h-4 w-4 shrink-0" />}
+            endContent={<Icon icon="lucide:chevron-down" className="h-3.5 w-3.5 shrink-0" />}
+          >
+            <span className="truncate text-sm">{getAccountName(activeAccountId)}</span>
+          </Button>
+        </DropdownTrigger>
+        <DropdownMenu
+          aria-label="Account selection"
+          selectionMode="single"
+          selectedKeys={new Set([activeAccountId])}
+          onAction={handleSelection}
+        >
+          <DropdownSection showDivider>
+            <DropdownItem key={ALL_ACCOUNTS} startContent={<Icon icon="lucide:layers" />} description="Consolidated view">
+              All accounts
+            </DropdownItem>
+          </DropdownSection>
+          <DropdownSection showDivider>
+            {accounts.map(account => (
+              <DropdownItem key={account.id} startContent={<Icon icon="lucide:wallet" />} description={account.broker}>
+                {account.name}
+              </DropdownItem>
+            ))}
+          </DropdownSection>
+          <DropdownSection>
+            <DropdownItem key={MANAGE_KEY} startContent={<Icon icon="lucide:settings-2" />}>
+              Manage accounts
+            </DropdownItem>
+          </DropdownSection>
+        </DropdownMenu>
+      </Dropdown>
+
+      <AccountManagerModal isOpen={isManageOpen} onOpenChange={setIsManageOpen} />
+    </>
+  );
+};
+
+interface AccountManagerModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+
+const AccountManagerModal: React.FC<AccountManagerModalProps> = ({ isOpen, onOpenChange }) => {
+  const { accounts, addAccount, updateAccount, removeAccount } = useAccounts();
+  const [drafts, setDrafts] = React.useState<Record<string, BrokerAccount>>({});
+  const [newName, setNewName] = React.useState('');
+  const [newBroker, setNewBroker] = React.useState('');
+  const [pendingRemoval, setPendingRemoval] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setDrafts(Object.fromEntries(accounts.map(account => [account.id, account])));
+      setPendingRemoval(null);
+    }
+  }, [isOpen, accounts]);
+
+  const updateDraft = (id: string, changes: Partial<BrokerAccount>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const saveDraft = async (id: string) => {
+    const draft = drafts[id];
+    const original = accounts.find(account => account.id === id);
+    if (!draft || !original || (draft.name === original.name && draft.broker === original.broker)) return;
+    await updateAccount({ ...original, name: draft.name.trim() || original.name, broker: draft.broker });
+  };
+
+  const saveFeePlan = async (account: BrokerAccount, feePlan: FeePlanSettings) => {
+    await updateAccount({ ...account, feePlan });
+  };
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    setIsBusy(true);
+    await addAccount(newName, newBroker);
+    setNewName('');
+    setNewBroker('');
+    setIsBusy(false);
+  };
+
+  const handleRemove = async (id: string) => {
+    if (pendingRemoval !== id) {
+      setPendingRemoval(id);
+      return;
+    }
+    setIsBusy(true);
+    await removeAccount(id);
+    setPendingRemoval(null);
+    setIsBusy(false);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange} size="lg" backdrop="blur">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex items-center gap-2">
+              <Icon icon="lucide:wallet" className="text-primary" />
+              Broker Accounts
+            </ModalHeader>
+            <ModalBody>
+              <div className="flex flex-col gap-2">
+                {accounts.map(account => (
+                  <div key={account.id} className="flex flex-col gap-1.5 pb-2 border-b border-divider last:border-b-0">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        size="sm"
+                        aria-label="Account name"
+                        value={drafts[account.id]?.name ?? account.name}
+                        onValueChange={value => updateDraft(account.id, { name: value })}
+                        onBlur={() => saveDraft(account.id)}
+                      />
+                      <Input
+                        size="sm"
+                        aria-label="Broker"
+                        placeholder="Broker"
+                        value={drafts[account.id]?.broker ?? account.broker ?? ''}
+                        onValueChange={value => updateDraft(account.id, { broker: value || undefined })}
+                        onBlur={() => saveDraft(account.id)}
+                        className="max-w-[140px]"
+                      />
+                      {account.id === DEFAULT_ACCOUNT_ID ? (
+                        <span className="w-[88px] text-xs text-default-500 text-center">Default</span>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant={pendingRemoval === account.id ? "solid" : "light"}
+                          color="danger"
+                          className="w-[88px]"
+                          isDisabled={isBusy}
+                          onPress={() => handleRemove(account.id)}
+                        >
+                          {pendingRemoval === account.id ? 'Confirm' : 'Remove'}
+                        </Button>
+                      )}
+                    </div>
+                    <FeePlanEditor account={account} onSave={feePlan => saveFeePlan(account, feePlan)} />
+                  </div>
+                ))}
+              </div>
+              {pendingRemoval && (
+                <p className="text-xs text-warning-600">
+                  Trades and capital entries of this account will move to the default account.
+                </p>
+              )}
+              <div className="flex items-center gap-2 pt-3 border-t border-divider">
+                <Input size="sm" aria-label="New account name" placeholder="New account name" value={newName} onValueChange={setNewName} />
+                <Input size="sm" aria-label="New account broker" placeholder="Broker" value={newBroker} onValueChange={setNewBroker} className="max-w-[140px]" />
+                <Button size="sm" color="primary" className="w-[88px]" isDisabled={!newName.trim() || isBusy} onPress={handleAdd}>
+                  Add
+                </Button>
+              </div>
+            </ModalBody>
+            <ModalFooter>
+              <Button size="sm" variant="flat" onPress={onClose}>
+                Done
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+};
+
+interface FeePlanEditorProps {
+  account: BrokerAccount;
+  onSave: (feePlan: FeePlanSettings) => void;
+}
+
+// Accounts without a saved plan show the preset guessed from their broker name
+const FeePlanEditor: React.FC<FeePlanEditorProps> = ({ account, onSave }) => {
+  const stored = account.feePlan || { preset: inferFeePlanPreset(account.broker) };
+  const effective = resolveFeePlan(stored);
+  const [draft, setDraft] = React.useState<FeePlanSettings>(stored);
+
+  React.useEffect(() => {
+    setDraft(account.feePlan || { preset: inferFeePlanPreset(account.broker) });
+  }, [account.feePlan, account.broker]);
+
+  const parseAmount = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value) || 0));
+  const commit = () => onSave(draft);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        size="sm"
+        aria-label="Fee plan"
+        className="max-w-[200px]"
+        startContent={<Icon icon="lucide:receipt" className="h-3.5 w-3.5 text-default-400 shrink-0" />}
+        selectedKeys={[draft.preset]}
+        disallowEmptySelection
+        onSelectionChange={(keys) => {
+          const preset = Array.from(keys)[0] as FeePlanPreset;
+          if (preset && preset !== draft.preset) onSave({ preset });
+        }}
+      >
+        {Object.values(FEE_PLAN_PRESETS).map(plan => (
+          <SelectItem key={plan.preset}>{plan.name}</SelectItem>
+        ))}
+      </Select>
+      {draft.preset === 'flat' && (
+        <Input
+          size="sm"
+          type="number"
+          aria-label="Brokerage per order"
+          placeholder={String(effective.brokerage.delivery.flat)}
+          startContent={<span className="text-default-400 text-xs">₹/order</span>}
+          value={draft.flatFee?.toString() ?? ''}
+          onValueChange={value => setDraft(prev => ({ ...prev, flatFee: parseAmount(value) }))}
+          onBlur={commit}
+          className="max-w-[120px]"
+        />
+      )}
+      {draft.preset === 'percentage' && (
+        <>
+          <Input
+            size="sm"
+            type="number"
+            aria-label="Brokerage percentage"
+            placeholder={String(effective.brokerage.delivery.percent)}
+            endContent={<span className="text-default-400 text-xs">%</span>}
+            value={draft.percentage?.toString() ?? ''}
+            onValueChange={value => setDraft(prev => ({ ...prev, percentage: parseAmount(value) }))}
+            onBlur={commit}
+            className="max-w-[90px]"
+          />
+          <Input
+            size="sm"
+            type="number"
+            aria-label="Maximum brokerage per order"
+            placeholder="No cap"
+            startContent={<span className="text-default-400 text-xs">max ₹</span>}
+            value={draft.maxPerOrder?.toString() ?? ''}
+            onValueChange={value => setDraft(prev => ({ ...prev, maxPerOrder: parseAmount(value) }))}
+            onBlur={commit}
+            className="max-w-[110px]"
+          />
+        </>
+      )}
+      <Input
+        size="sm"
+        type="number"
+        aria-label="DP charge per sell day"
+        placeholder={String(effective.dpCharge)}
+        startContent={<span className="text-default-400 text-xs">DP ₹</span>}
+        value={draft.dpCharge?.toString() ?? ''}
+        onValueChange={value => setDraft(prev => ({ ...prev, dpCharge: parseAmount(value) }))}
+        onBlur={commit}
+        className="max-w-[100px]"
+      />
+    </div>
+  );
+};
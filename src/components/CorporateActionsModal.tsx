@@ -0,0 +1,417 @@
+import React from "react";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  ScrollShadow
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { v4 as uuidv4 } from "uuid";
+import { Trade, CorporateAction, CorporateActionType } from "../types/trade";
+import {
+  CORPORATE_ACTION_LABELS,
+  isAffectedByCorporateAction,
+  hasCorporateAction,
+  calcAvgEntry,
+  getEntryLegs
+} from "../lib/calculations";
+import {
+  getCorporateActions,
+  saveCorporateAction,
+  deleteCorporateAction,
+  validateCorporateAction,
+  applyCorporateActionToTrades,
+  revertCorporateActionOnTrades
+} from "../utils/corporateActions";
+import { useTruePortfolio } from "../utils/TruePortfolioContext";
+
+interface CorporateActionsModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  trades: Trade[];
+  /** Trade number a position opened for demerged shares gets */
+  nextTradeNo: string;
+  onSaveTrade: (trade: Trade) => void;
+  /** Removes the position a demerger opened when the demerger is undone */
+  onDeleteTrade: (id: string) => Promise<void> | void;
+}
+
+const TYPE_COLORS: Record<CorporateActionType, 'primary' | 'secondary' | 'success' | 'warning'> = {
+  split: 'primary',
+  bonus: 'secondary',
+  dividend: 'success',
+  demerger: 'warning'
+};
+
+// Labels for the two ratio inputs - [held, received]
+const RATIO_LABELS: Partial<Record<CorporateActionType, [string, string]>> = {
+  split: ['Old shares', 'New shares'],
+  bonus: ['For every (held)', 'Bonus shares'],
+  demerger: ['For every (held)', 'New company shares']
+};
+
+const EMPTY_DRAFT: Partial<CorporateAction> = { type: 'split', symbol: '', exDate: '' };
+
+const describeAction = (action: CorporateAction) => {
+  switch (action.type) {
+    case 'split':
+      return `${action.ratioFrom} → ${action.ratioTo} shares`;
+    case 'bonus':
+      return `${action.ratioTo} for every ${action.ratioFrom}`;
+    case 'dividend':
+      return `₹${action.dividendPerShare}/share`;
+    case 'demerger':
+      return `${action.ratioTo} ${action.newSymbol} for every ${action.ratioFrom}, ${Math.round((action.costRetained ?? 1) * 100)}% of cost retained`;
+  }
+};
+
+const avgEntryOf = (trade: Pick<Trade, 'legs' | 'buySell'>) =>
+  calcAvgEntry(getEntryLegs(trade).map(leg => ({ price: leg.price, qty: leg.qty })));
+
+/**
+ * CorporateActionsModal - The corporate actions register
+ *
+ * Actions are recorded once per symbol and applied to every trade held into the ex-date. Each
+ * adjusted trade keeps the legs and prices it had before, shown here and restorable with Undo.
+ * Dividends are credited to capital; a demerger opens a position in the new company. Undo takes
+ * both back out.
+ */
+export const CorporateActionsModal: React.FC<CorporateActionsModalProps> = ({
+  isOpen,
+  onOpenChange,
+  trades,
+  nextTradeNo,
+  onSaveTrade,
+  onDeleteTrade
+}) => {
+  const { capitalChanges: recordedCapitalChanges, addCapitalChange, deleteCapitalChange } = useTruePortfolio();
+  const [actions, setActions] = React.useState<CorporateAction[]>([]);
+  const [draft, setDraft] = React.useState<Partial<CorporateAction>>(EMPTY_DRAFT);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setDraft(EMPTY_DRAFT);
+    setSelectedId(null);
+    setMessage(null);
+    setError(null);
+    getCorporateActions().then(setActions).catch(() => setActions([]));
+  }, [isOpen]);
+
+  const updateDraft = (changes: Partial<CorporateAction>) => setDraft(current => ({ ...current, ...changes }));
+  const ratioLabels = draft.type ? RATIO_LABELS[draft.type] : undefined;
+
+  const handleAdd = async () => {
+    const problem = validateCorporateAction(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    try {
+      const action: CorporateAction = {
+        ...(draft as CorporateAction),
+        id: uuidv4(),
+        symbol: draft.symbol!.trim().toUpperCase(),
+        ...(draft.newSymbol ? { newSymbol: draft.newSymbol.trim().toUpperCase() } : {})
+      };
+      setActions(await saveCorporateAction(action));
+      setDraft(EMPTY_DRAFT);
+      setSelectedId(action.id);
+      setError(null);
+    } catch (saveError) {
+      setError(saveError.message);
+    }
+  };
+
+  const handleApply = async (action: CorporateAction) => {
+    const { trades: changed, capitalChanges } = applyCorporateActionToTrades(action, trades, nextTradeNo);
+    changed.forEach(onSaveTrade);
+    for (const change of capitalChanges) {
+      await addCapitalChange(change);
+    }
+    setSelectedId(action.id);
+    setMessage(
+      `${CORPORATE_ACTION_LABELS[action.type]} applied to ${changed.filter(trade => hasCorporateAction(trade, action.id)).length} trade(s)` +
+      (capitalChanges.length > 0 ? `, ₹${capitalChanges.reduce((sum, change) => sum + change.amount, 0).toFixed(2)} credited to capital` : '')
+    );
+  };
+
+  const handleUndo = async (action: CorporateAction) => {
+    const reversal = revertCorporateActionOnTrades(action, trades);
+    reversal.trades.forEach(onSaveTrade);
+
+    const removedTradeIds = reversal.removedTradeIds.filter(id => trades.some(trade => trade.id === id));
+    for (const id of removedTradeIds) {
+      await onDeleteTrade(id);
+    }
+    // Dividends are found by the description they were credited with - one the user edited stays
+    const credited = reversal.capitalChanges
+      .map(change => recordedCapitalChanges.find(recorded =>
+        recorded.description === change.description &&
+        recorded.amount === change.amount &&
+        recorded.date.slice(0, 10) === change.date.slice(0, 10)))
+      .filter((change): change is NonNullable<typeof change> => Boolean(change));
+    for (const change of credited) {
+      await deleteCapitalChange(change.id);
+    }
+
+    const missingDividends = reversal.capitalChanges.length - credited.length;
+    setMessage(
+      `Undid ${CORPORATE_ACTION_LABELS[action.type].toLowerCase()} on ${reversal.trades.length} trade(s)` +
+      (credited.length > 0 ? `, removed ${credited.length} dividend credit(s)` : '') +
+      (removedTradeIds.length > 0 ? `, deleted ${removedTradeIds.length} ${action.newSymbol} position(s)` : '') +
+      (missingDividends > 0 ? ` - ${missingDividends} dividend credit(s) were changed since and need removing from capital changes by hand` : '')
+    );
+  };
+
+  const handleDelete = async (action: CorporateAction) => {
+    try {
+      setActions(await deleteCorporateAction(action.id));
+      if (selectedId === action.id) setSelectedId(null);
+    } catch (deleteError) {
+      setError(deleteError.message);
+    }
+  };
+
+  const selected = actions.find(action => action.id === selectedId);
+  const adjustedTrades = selected ? trades.filter(trade => hasCorporateAction(trade, selected.id)) : [];
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange} size="4xl" scrollBehavior="inside">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex items-center gap-2">
+              <Icon icon="lucide:split" />
+              Corporate Actions
+            </ModalHeader>
+            <ModalBody className="space-y-3">
+              <p className="text-sm text-default-500">
+                Record splits, bonuses, dividends and demergers, then apply them to the trades that held the stock going
+                into the ex-date. Entries and exits before the ex-date are restated in post-action shares, so P&L is unchanged.
+              </p>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <Input
+                  size="sm"
+                  label="Symbol"
+                  value={draft.symbol || ''}
+                  onValueChange={symbol => updateDraft({ symbol })}
+                />
+                <Select
+                  size="sm"
+                  label="Action"
+                  selectedKeys={draft.type ? [draft.type] : []}
+                  onSelectionChange={keys => updateDraft({ type: Array.from(keys)[0] as CorporateActionType })}
+                >
+                  {(Object.keys(CORPORATE_ACTION_LABELS) as CorporateActionType[]).map(type => (
+                    <SelectItem key={type}>{CORPORATE_ACTION_LABELS[type]}</SelectItem>
+                  ))}
+                </Select>
+                <Input
+                  size="sm"
+                  type="date"
+                  label="Ex-date"
+                  value={draft.exDate || ''}
+                  onValueChange={exDate => updateDraft({ exDate })}
+                />
+                {draft.type === 'dividend' && (
+                  <Input
+                    size="sm"
+                    type="number"
+                    label="Dividend per share"
+                    startContent={<span className="text-default-400 text-small">₹</span>}
+                    value={draft.dividendPerShare?.toString() || ''}
+                    onValueChange={value => updateDraft({ dividendPerShare: Number(value) || undefined })}
+                  />
+                )}
+                {ratioLabels && (
+                  <>
+                    <Input
+                      size="sm"
+                      type="number"
+                      label={ratioLabels[0]}
+                      value={draft.ratioFrom?.toString() || ''}
+                      onValueChange={value => updateDraft({ ratioFrom: Number(value) || undefined })}
+                    />
+                    <Input
+                      size="sm"
+                      type="number"
+                      label={ratioLabels[1]}
+                      value={draft.ratioTo?.toString() || ''}
+                      onValueChange={value => updateDraft({ ratioTo: Number(value) || undefined })}
+                    />
+                  </>
+                )}
+                {draft.type === 'demerger' && (
+                  <>
+                    <Input
+                      size="sm"
+                      label="New company symbol"
+                      value={draft.newSymbol || ''}
+                      onValueChange={newSymbol => updateDraft({ newSymbol })}
+                    />
+                    <Input
+                      size="sm"
+                      type="number"
+                      label="Cost retained by parent"
+                      endContent={<span className="text-default-400 text-small">%</span>}
+                      value={draft.costRetained !== undefined ? String(Math.round(draft.costRetained * 10000) / 100) : ''}
+                      onValueChange={value => updateDraft({ costRetained: value === '' ? undefined : Number(value) / 100 })}
+                    />
+                  </>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  color="primary"
+                  variant="flat"
+                  onPress={handleAdd}
+                  startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
+                >
+                  Add to register
+                </Button>
+                {error && <span className="text-sm text-danger">{error}</span>}
+                {message && !error && <span className="text-sm text-success">{message}</span>}
+              </div>
+
+              <ScrollShadow className="max-h-72">
+                <Table
+                  aria-label="Corporate actions register"
+                  removeWrapper
+                  selectionMode="single"
+                  selectedKeys={selectedId ? [selectedId] : []}
+                  onSelectionChange={keys => setSelectedId((Array.from(keys)[0] as string) || null)}
+                >
+                  <TableHeader>
+                    <TableColumn>Ex-date</TableColumn>
+                    <TableColumn>Symbol</TableColumn>
+                    <TableColumn>Action</TableColumn>
+                    <TableColumn>Trades</TableColumn>
+                    <TableColumn>{' '}</TableColumn>
+                  </TableHeader>
+                  <TableBody emptyContent="No corporate actions recorded">
+                    {actions.map(action => {
+                      const pending = trades.filter(trade => isAffectedByCorporateAction(trade, action)).length;
+                      const applied = trades.filter(trade => hasCorporateAction(trade, action.id)).length;
+                      const undoable = trades.some(trade => trade.corporateActions?.[trade.corporateActions.length - 1]?.actionId === action.id);
+                      return (
+                        <TableRow key={action.id}>
+                          <TableCell>{action.exDate}</TableCell>
+                          <TableCell>{action.symbol}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Chip size="sm" variant="flat" color={TYPE_COLORS[action.type]}>
+                                {CORPORATE_ACTION_LABELS[action.type]}
+                              </Chip>
+                              <span className="text-xs text-default-500">{describeAction(action)}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <span className="text-xs">
+                              {applied > 0 && `${applied} adjusted`}
+                              {applied > 0 && pending > 0 && ', '}
+                              {pending > 0 && <span className="text-warning">{pending} pending</span>}
+                              {applied === 0 && pending === 0 && <span className="text-default-400">None held</span>}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              {pending > 0 && (
+                                <Button size="sm" variant="flat" color="primary" onPress={() => handleApply(action)}>
+                                  Apply
+                                </Button>
+                              )}
+                              {undoable && (
+                                <Button size="sm" variant="light" onPress={() => handleUndo(action)}>
+                                  Undo
+                                </Button>
+                              )}
+                              <Button
+                                isIconOnly
+                                size="sm"
+                                variant="light"
+                                color="danger"
+                                aria-label={`Delete ${action.symbol} ${CORPORATE_ACTION_LABELS[action.type]}`}
+                                onPress={() => handleDelete(action)}
+                              >
+                                <Icon icon="lucide:trash-2" className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </ScrollShadow>
+
+              {selected && adjustedTrades.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {selected.symbol} {CORPORATE_ACTION_LABELS[selected.type].toLowerCase()} - values before and after
+                  </p>
+                  <Table aria-label="Adjusted trades" removeWrapper>
+                    <TableHeader>
+                      <TableColumn>Trade</TableColumn>
+                      <TableColumn>Held on ex-date</TableColumn>
+                      <TableColumn>Avg entry</TableColumn>
+                      <TableColumn>SL</TableColumn>
+                      <TableColumn>Applied</TableColumn>
+                    </TableHeader>
+                    <TableBody>
+                      {adjustedTrades.map(trade => {
+                        const record = trade.corporateActions!.find(applied => applied.actionId === selected.id)!;
+                        const before = avgEntryOf({ legs: record.original.legs, buySell: trade.buySell });
+                        return (
+                          <TableRow key={trade.id}>
+                            <TableCell>#{trade.tradeNo}</TableCell>
+                            <TableCell>
+                              {record.heldQty}
+                              {record.qtyFactor !== 1 && ` → ${Math.round(record.heldQty * record.qtyFactor * 1000) / 1000}`}
+                            </TableCell>
+                            <TableCell>
+                              ₹{before.toFixed(2)}
+                              {record.priceFactor !== 1 && ` → ₹${(before * record.priceFactor).toFixed(2)}`}
+                            </TableCell>
+                            <TableCell>
+                              {record.original.sl ? `₹${record.original.sl}` : '-'}
+                              {record.original.sl && record.priceFactor !== 1 ? ` → ₹${(record.original.sl * record.priceFactor).toFixed(2)}` : ''}
+                            </TableCell>
+                            <TableCell className="text-xs text-default-500">
+                              {new Date(record.appliedAt).toLocaleDateString()}
+                              {record.dividendAmount ? ` · ₹${record.dividendAmount} credited` : ''}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={onClose}>Close</Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardBody, Input, Select, SelectItem, Button, Chip } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import { CalendarEntry, CalendarEntryType, getBundledCalendarEntries, REGULAR_SESSION } from '../lib/calculations';
+import { getCalendarOverrideEntries, saveCalendarOverride, deleteCalendarOverride } from '../utils/exchangeCalendarOverrides';
+
+const ENTRY_TYPE_LABELS: Record<CalendarEntryType, string> = {
+  holiday: 'Holiday',
+  special_session: 'Special session',
+  half_day: 'Half day',
+  regular: 'Regular session'
+};
+
+const ENTRY_TYPE_COLORS: Record<CalendarEntryType, 'danger' | 'secondary' | 'warning' | 'success'> = {
+  holiday: 'danger',
+  special_session: 'secondary',
+  half_day: 'warning',
+  regular: 'success'
+};
+
+const EMPTY_ENTRY: CalendarEntry = { date: '', type: 'holiday', name: '' };
+
+export const ExchangeCalendarSettingsCompact: React.FC = () => {
+  const [overrides, setOverrides] = useState<CalendarEntry[]>([]);
+  const [draft, setDraft] = useState<CalendarEntry>(EMPTY_ENTRY);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCalendarOverrideEntries().then(setOverrides).catch(() => setOverrides([]));
+  }, []);
+
+  const hasHours = draft.type === 'special_session' || draft.type === 'half_day';
+  const bundledEntry = draft.date ? getBundledCalendarEntries().find(entry => entry.date === draft.date) : undefined;
+
+  const handleAdd = async () => {
+    if (!draft.date || !draft.name.trim()) return;
+    const entry: CalendarEntry = {
+      date: draft.date,
+      type: draft.type,
+      name: draft.name.trim(),
+      ...(hasHours ? { open: draft.open || REGULAR_SESSION.open, close: draft.close || REGULAR_SESSION.close } : {})
+    };
+    try {
+      setOverrides(await saveCalendarOverride(entry));
+      setDraft(EMPTY_ENTRY);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save calendar override');
+    }
+  };
+
+  const handleDelete = async (entry: CalendarEntry) => {
+    try {
+      setOverrides(await deleteCalendarOverride(entry));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete calendar override');
+    }
+  };
+
+  return (
+    <Card className="bg-default-50 dark:bg-default-100">
+      <CardBody className="p-4">
+        <div className="flex items-start gap-3">
+          <Icon icon="lucide:calendar-x" className="w-5 h-5 text-primary mt-0.5" />
+          <div className="flex-1">
+            <div className="mb-2">
+              <h4 className="text-sm font-semibold">Exchange Calendar</h4>
+            </div>
+            <p className="text-xs text-default-500 mb-3">
+              NSE/BSE holidays and special sessions through {getBundledCalendarEntries().slice(-1)[0]?.date.slice(0, 4)} are built in.
+              Add ones announced since - they apply to trading days, daily returns and market-hours polling.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+              <Input
+                size="sm"
+                type="date"
+                label="Date"
+                value={draft.date}
+                onValueChange={date => setDraft(current => ({ ...current, date }))}
+              />
+              <Select
+                size="sm"
+                label="Type"
+                selectedKeys={[draft.type]}
+                onSelectionChange={keys => setDraft(current => ({ ...current, type: Array.from(keys)[0] as CalendarEntryType }))}
+              >
+                {(Object.keys(ENTRY_TYPE_LABELS) as CalendarEntryType[]).map(type => (
+                  <SelectItem key={type}>{ENTRY_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </Select>
+              <Input
+                size="sm"
+                label="Name"
+                className="sm:col-span-2"
+                value={draft.name}
+                onValueChange={name => setDraft(current => ({ ...current, name }))}
+              />
+              {hasHours && (
+                <>
+                  <Input
+                    size="sm"
+                    type="time"
+                    label="Opens"
+                    value={draft.open || REGULAR_SESSION.open}
+                    onValueChange={open => setDraft(current => ({ ...current, open }))}
+                  />
+                  <Input
+                    size="sm"
+                    type="time"
+                    label="Closes"
+                    value={draft.close || REGULAR_SESSION.close}
+                    onValueChange={close => setDraft(current => ({ ...current, close }))}
+                  />
+                </>
+              )}
+            </div>
+            {bundledEntry && (
+              <p className="text-xs text-warning mt-2">
+                Replaces the built-in {ENTRY_TYPE_LABELS[bundledEntry.type].toLowerCase()}: {bundledEntry.name}
+              </p>
+            )}
+            <Button
+              size="sm"
+              color="primary"
+              variant="flat"
+              className="mt-2"
+              onPress={handleAdd}
+              isDisabled={!draft.date || !draft.name.trim()}
+              startContent={<Icon icon="lucide:plus" className="w-3 h-3" />}
+            >
+              Add to calendar
+            </Button>
+
+            {error && <p className="text-xs text-danger mt-2">{error}</p>}
+
+            {overrides.length > 0 && (
+              <div className="mt-3 space-y-1">
+                {overrides.map(entry => (
+                  <div key={`${entry.date}-${(entry.exchanges || []).join(',')}`} className="flex items-center gap-2 text-sm">
+                    <span className="font-mono text-xs w-24">{entry.date}</span>
+                    <Chip size="sm" variant="flat" color={ENTRY_TYPE_COLORS[entry.type]}>
+                      {ENTRY_TYPE_LABELS[entry.type]}
+                    </Chip>
+                    <span className="flex-1 truncate">
+                      {entry.name}
+                      {entry.open && entry.close && <span className="text-default-400 text-xs"> ({entry.open}-{entry.close})</span>}
+                    </span>
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      variant="light"
+                      color="danger"
+                      aria-label={`Remove ${entry.name}`}
+                      onPress={() => handleDelete(entry)}
+                    >
+                      <Icon icon="lucide:trash-2" className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
@@ -25,6 +25,7 @@ import { formatCurrency, formatPercentage } from '../utils/formatters';
 import {
   calcPortfolioGapDownAnalysis,
   getGapDownScenarios,
+  getGapDirection,
   PortfolioGapDownAnalysis,
   GapDownScenario
 } from "../utils/tradeCalculations";
@@ -70,6 +71,14 @@ export default function GapDownAnalysisModal({
     ), [trades]
   );
 
+  // Longs are stressed with a gap down, shorts with a gap up
+  const gapPhrase = useMemo(() => {
+    const hasShorts = riskyOpenTrades.some(t => getGapDirection(t.buySell) === 'up');
+    const hasLongs = riskyOpenTrades.some(t => getGapDirection(t.buySell) === 'down');
+    if (hasShorts && hasLongs) return 'gaps against me';
+    return hasShorts ? 'gaps up' : 'gaps down';
+  }, [riskyOpenTrades]);
+
   // Count protected positions for display
   const protectedPositions = useMemo(() => 
     trades.filter(t => 
@@ -113,7 +122,7 @@ export default function GapDownAnalysisModal({
                   <Icon icon="lucide:trending-down" className="w-5 h-5 text-gray-600 dark:text-gray-400" />
                 </div>
                 <div>
-                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white">PORTFOLIO LEVEL RISK ASSESSMENT IN GAP DOWN SCENARIOS</h2>
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white">PORTFOLIO LEVEL RISK ASSESSMENT IN ADVERSE GAP SCENARIOS</h2>
                 </div>
               </div>
             </ModalHeader>
@@ -199,18 +208,18 @@ export default function GapDownAnalysisModal({
                       <span className="px-2 py-1 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-md font-medium border border-blue-200 dark:border-blue-800">
                         {riskyOpenTrades.length}
                       </span>
-                      <span>risky position{riskyOpenTrades.length !== 1 ? 's' : ''} gaps down</span>
+                      <span>risky position{riskyOpenTrades.length !== 1 ? 's' : ''} {gapPhrase}</span>
                       <Select
                         selectedKeys={[selectedScenario]}
                         onSelectionChange={(keys) => setSelectedScenario(Array.from(keys)[0] as string)}
                         className="w-20"
                         variant="bordered"
                         size="sm"
-                        aria-label="Gap down percentage"
+                        aria-label="Gap percentage"
                         renderValue={(items) => {
                           return items.map((item) => (
                             <span key={item.key} className="font-semibold">
-                              {item.data?.gapDownPercentage || selectedScenario}%
+                              {String(item.key ?? selectedScenario)}%
                             </span>
                           ));
                         }}
@@ -221,11 +230,10 @@ export default function GapDownAnalysisModal({
                       >
                         {scenarios.map((scenario) => (
                           <SelectItem
-                            key={scenario.gapDownPercentage.toString()}
-                            value={scenario.gapDownPercentage.toString()}
-                            textValue={`${scenario.gapDownPercentage}%`}
+                            key={scenario.percentage.toString()}
+                            textValue={`${scenario.percentage}%`}
                           >
-                            {scenario.gapDownPercentage}%
+                            {scenario.percentage}%
                           </SelectItem>
                         ))}
                       </Select>
@@ -233,7 +241,7 @@ export default function GapDownAnalysisModal({
                       <span>?</span>
                     </div>
                     <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-                      Analyze portfolio impact in sudden market decline scenarios
+                      Analyze portfolio impact when prices gap through your stops (down for longs, up for shorts)
                     </p>
                   </div>
 
@@ -255,10 +263,10 @@ export default function GapDownAnalysisModal({
                       </div>
                     </div>
 
-                    {/* Gap Down Risk */}
+                    {/* Gap Risk */}
                     <div className="text-center">
                       <div className="text-xs font-bold text-gray-700 dark:text-gray-300 mb-1">
-                        GAP DOWN RISK
+                        GAP RISK
                       </div>
                       <div className="text-2xl font-bold text-red-600 dark:text-red-400 mb-1">
                         {formatPercentage(analysis.gapDownPfImpact)}
@@ -362,7 +370,8 @@ export default function GapDownAnalysisModal({
                                     </div>
                                   </TableCell>
                                   <TableCell>
-                                    <div className="font-mono text-sm text-red-600 dark:text-red-400">
+                                    <div className="flex items-center gap-1 font-mono text-sm text-red-600 dark:text-red-400">
+                                      <Icon icon={trade.gapDirection === 'up' ? "lucide:arrow-up" : "lucide:arrow-down"} className="w-3 h-3" />
                                       ₹{trade.gapDownPrice.toFixed(2)}
                                     </div>
                                   </TableCell>
@@ -0,0 +1,233 @@
+import React from "react";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Switch,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  ScrollShadow
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import Papa from "papaparse";
+import { Trade } from "../types/trade";
+import {
+  detectHoldings,
+  getHoldingsFormats,
+  reconcileHoldings,
+  closeJournalPosition,
+  matchJournalQuantity,
+  holdingToTrade,
+  readWorkbookSheets,
+  RECONCILIATION_STATUS_LABELS,
+  BrokerSheet,
+  DetectedHoldings,
+  ReconciliationItem,
+  ReconciliationStatus
+} from "../utils/brokers";
+
+interface HoldingsReconciliationModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  /** Journal trades with their open quantities calculated */
+  trades: Trade[];
+  /** Trade number a holding added to the journal gets */
+  nextTradeNo: string;
+  onSaveTrade: (trade: Trade) => void;
+}
+
+const STATUS_COLORS: Record<ReconciliationStatus, 'danger' | 'warning' | 'primary' | 'secondary' | 'success'> = {
+  missing: 'danger',
+  not_held: 'warning',
+  quantity: 'primary',
+  price: 'secondary',
+  matched: 'success'
+};
+
+const formatPrice = (price: number) => price ? `₹${price.toFixed(2)}` : '-';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const readHoldingsFile = async (file: File): Promise<BrokerSheet[]> => {
+  if (/\.xlsx?$/i.test(file.name)) {
+    return readWorkbookSheets(await file.arrayBuffer(), file.name);
+  }
+  const { data } = Papa.parse<any[]>(await file.text(), { skipEmptyLines: true });
+  return [{ fileName: file.name, rows: data }];
+};
+
+/**
+ * HoldingsReconciliationModal - Journal open positions against a broker holdings statement
+ *
+ * Only long equity positions are compared, since that is all a holdings statement lists. Each
+ * discrepancy has a fix: add the holding, close the position, or match the broker's quantity.
+ * Fixes are dated today and can be edited in the journal afterwards.
+ */
+export const HoldingsReconciliationModal: React.FC<HoldingsReconciliationModalProps> = ({
+  isOpen,
+  onOpenChange,
+  trades,
+  nextTradeNo,
+  onSaveTrade
+}) => {
+  const [detected, setDetected] = React.useState<DetectedHoldings | null>(null);
+  const [showMatched, setShowMatched] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setDetected(null);
+    setShowMatched(false);
+    setError(null);
+  }, [isOpen]);
+
+  // Recomputed as fixes are saved, so a fixed symbol moves to matched
+  const items = React.useMemo(
+    () => detected ? reconcileHoldings(detected.holdings, trades) : [],
+    [detected, trades]
+  );
+  const matchedCount = items.filter(item => item.status === 'matched').length;
+  const visibleItems = showMatched ? items : items.filter(item => item.status !== 'matched');
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const result = detectHoldings(await readHoldingsFile(file));
+      if (!result) {
+        setError(`Not a holdings statement we recognise. Supported: ${getHoldingsFormats().map(format => format.name).join(', ')}.`);
+        return;
+      }
+      setDetected(result);
+    } catch (parseError) {
+      setError(`Failed to read the holdings statement: ${parseError.message}`);
+    }
+  };
+
+  const applyFix = (item: ReconciliationItem) => {
+    if (!detected) return;
+    if (item.status === 'missing') {
+      onSaveTrade(holdingToTrade(item.holding!, (parseInt(nextTradeNo) || 1) - 1, detected.format, today()));
+    } else if (item.status === 'not_held') {
+      closeJournalPosition(item, today()).forEach(onSaveTrade);
+    } else if (item.status === 'quantity') {
+      matchJournalQuantity(item, today()).forEach(onSaveTrade);
+    }
+  };
+
+  const renderFix = (item: ReconciliationItem) => {
+    switch (item.status) {
+      case 'missing':
+        return <Button size="sm" variant="flat" color="danger" onPress={() => applyFix(item)}>Add to journal</Button>;
+      case 'not_held':
+        return <Button size="sm" variant="flat" color="warning" onPress={() => applyFix(item)}>Close at CMP</Button>;
+      case 'quantity':
+        return <Button size="sm" variant="flat" color="primary" onPress={() => applyFix(item)}>Match {item.holding?.qty}</Button>;
+      case 'price':
+        // Usually charges folded into the broker's average - nothing to change automatically
+        return <span className="text-xs text-default-400">Review entries</span>;
+      default:
+        return <Icon icon="lucide:check" className="text-success" />;
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange} size="4xl" scrollBehavior="inside">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex items-center gap-2">
+              <Icon icon="lucide:scale" />
+              Reconcile Holdings
+            </ModalHeader>
+            <ModalBody className="space-y-3">
+              <p className="text-sm text-default-500">
+                Upload the holdings statement from {getHoldingsFormats().map(format => format.name).join(', ')} to
+                check your open positions against what the broker holds.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="text-sm"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) handleFile(file);
+                  event.target.value = '';
+                }}
+              />
+
+              {error && <p className="text-sm text-danger">{error}</p>}
+
+              {detected && (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Chip size="sm" variant="flat" color="primary">{detected.format.name} holdings</Chip>
+                      <Chip size="sm" variant="flat" color={items.length === matchedCount ? 'success' : 'warning'}>
+                        {items.length - matchedCount} discrepanc{items.length - matchedCount === 1 ? 'y' : 'ies'}
+                      </Chip>
+                      <Chip size="sm" variant="flat" color="success">{matchedCount} matched</Chip>
+                    </div>
+                    <Switch size="sm" isSelected={showMatched} onValueChange={setShowMatched}>
+                      Show matched
+                    </Switch>
+                  </div>
+
+                  <ScrollShadow className="max-h-96">
+                    <Table aria-label="Holdings reconciliation" removeWrapper className="min-w-full">
+                      <TableHeader>
+                        <TableColumn>Symbol</TableColumn>
+                        <TableColumn>Status</TableColumn>
+                        <TableColumn>Broker Qty</TableColumn>
+                        <TableColumn>Journal Qty</TableColumn>
+                        <TableColumn>Broker Avg</TableColumn>
+                        <TableColumn>Journal Avg</TableColumn>
+                        <TableColumn>Fix</TableColumn>
+                      </TableHeader>
+                      <TableBody emptyContent="Every open position matches the broker">
+                        {visibleItems.map(item => (
+                          <TableRow key={item.symbol}>
+                            <TableCell>{item.symbol}</TableCell>
+                            <TableCell>
+                              <Chip size="sm" variant="flat" color={STATUS_COLORS[item.status]}>
+                                {RECONCILIATION_STATUS_LABELS[item.status]}
+                              </Chip>
+                            </TableCell>
+                            <TableCell>{item.holding?.qty ?? 0}</TableCell>
+                            <TableCell>
+                              {item.journalQty}
+                              {item.trades.length > 1 && (
+                                <span className="text-xs text-default-400"> ({item.trades.length} trades)</span>
+                              )}
+                            </TableCell>
+                            <TableCell>{formatPrice(item.holding?.avgPrice ?? 0)}</TableCell>
+                            <TableCell>{formatPrice(item.journalAvgPrice)}</TableCell>
+                            <TableCell>{renderFix(item)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollShadow>
+                  <p className="text-xs text-default-400">
+                    Exits are recorded at the position's CMP and added quantity at the broker's average price, both dated today.
+                    Short positions and F&O are not part of holdings statements and are left out.
+                  </p>
+                </div>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={onClose}>Close</Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+};
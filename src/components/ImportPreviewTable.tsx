@@ -0,0 +1,279 @@
+import React from "react";
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Checkbox,
+  Chip,
+  Tooltip,
+  Input,
+  Button,
+  Select,
+  SelectItem,
+  ScrollShadow
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { Trade } from "../types/trade";
+import { ImportPreviewRow, ImportRowKind, hasImportErrors } from "../utils/importDiff";
+
+interface ImportPreviewTableProps {
+  rows: ImportPreviewRow[];
+  onToggleRow: (index: number) => void;
+  onEditRow: (index: number, changes: Partial<Trade>) => void;
+}
+
+type RowFilter = 'all' | ImportRowKind | 'issues';
+
+// Fields that can be corrected in the preview - everything else is recalculated from them
+type EditableFields = Pick<Trade, 'name' | 'date' | 'buySell' | 'entry' | 'initialQty' | 'sl'>;
+
+const KIND_CHIPS: Record<ImportRowKind, { label: string; color: 'success' | 'primary' | 'warning' }> = {
+  new: { label: "New", color: "success" },
+  modified: { label: "Modified", color: "primary" },
+  duplicate: { label: "Duplicate?", color: "warning" }
+};
+
+const FILTERS: { key: RowFilter; label: string }[] = [
+  { key: 'all', label: "All rows" },
+  { key: 'new', label: "New" },
+  { key: 'modified', label: "Modified" },
+  { key: 'duplicate', label: "Suspected duplicates" },
+  { key: 'issues', label: "With issues" }
+];
+
+const PAGE_SIZE = 100;
+
+const formatDate = (date: string) => {
+  if (!date) return '-';
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString();
+};
+
+const toDraft = (trade: Trade): EditableFields => ({
+  name: trade.name,
+  date: String(trade.date || '').slice(0, 10),
+  buySell: trade.buySell,
+  entry: trade.entry,
+  initialQty: trade.initialQty,
+  sl: trade.sl
+});
+
+/**
+ * ImportPreviewTable - Dry run of an import, one row per trade
+ *
+ * Rows are marked new, modified or suspected duplicate, with their validation issues inline.
+ * Rows can be excluded, or corrected before anything is written to the journal.
+ */
+export const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({ rows, onToggleRow, onEditRow }) => {
+  const [filter, setFilter] = React.useState<RowFilter>('all');
+  const [visibleCount, setVisibleCount] = React.useState(PAGE_SIZE);
+  const [editingIndex, setEditingIndex] = React.useState<number | null>(null);
+  const [draft, setDraft] = React.useState<EditableFields | null>(null);
+
+  const counts = React.useMemo(() => ({
+    new: rows.filter(row => row.kind === 'new').length,
+    modified: rows.filter(row => row.kind === 'modified').length,
+    duplicate: rows.filter(row => row.kind === 'duplicate').length,
+    errors: rows.filter(hasImportErrors).length
+  }), [rows]);
+
+  // Keep each row's position in `rows` - that is what the callbacks refer to
+  const filtered = React.useMemo(() => rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => {
+      if (filter === 'all') return true;
+      if (filter === 'issues') return row.issues.length > 0;
+      return row.kind === filter;
+    }), [rows, filter]);
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(toDraft(rows[index].trade));
+  };
+
+  const stopEditing = () => {
+    setEditingIndex(null);
+    setDraft(null);
+  };
+
+  const saveEdit = () => {
+    if (editingIndex === null || !draft) return;
+    onEditRow(editingIndex, draft);
+    stopEditing();
+  };
+
+  const updateDraft = (changes: Partial<EditableFields>) => setDraft(current => current && { ...current, ...changes });
+
+  const renderIssues = (row: ImportPreviewRow) => {
+    if (row.issues.length === 0) {
+      return <Icon icon="lucide:check" className="text-success" />;
+    }
+    const isError = hasImportErrors(row);
+    return (
+      <Tooltip
+        content={
+          <ul className="text-xs space-y-1 max-w-xs py-1">
+            {row.issues.map((issue, index) => (
+              <li key={index} className={issue.type === 'error' ? 'text-danger' : 'text-warning'}>{issue.message}</li>
+            ))}
+          </ul>
+        }
+      >
+        <Chip size="sm" variant="flat" color={isError ? 'danger' : 'warning'} startContent={<Icon icon={isError ? "lucide:circle-x" : "lucide:triangle-alert"} />}>
+          {row.issues.length}
+        </Chip>
+      </Tooltip>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          <Chip size="sm" variant="flat" color="success">{counts.new} new</Chip>
+          <Chip size="sm" variant="flat" color="primary">{counts.modified} modified</Chip>
+          <Chip size="sm" variant="flat" color="warning">{counts.duplicate} suspected duplicate{counts.duplicate === 1 ? '' : 's'}</Chip>
+          {counts.errors > 0 && (
+            <Chip size="sm" variant="flat" color="danger">{counts.errors} with errors</Chip>
+          )}
+        </div>
+        <Select
+          size="sm"
+          aria-label="Filter rows"
+          className="max-w-[200px]"
+          selectedKeys={[filter]}
+          disallowEmptySelection
+          onSelectionChange={(keys) => {
+            setFilter(Array.from(keys)[0] as RowFilter);
+            setVisibleCount(PAGE_SIZE);
+          }}
+        >
+          {FILTERS.map(option => (
+            <SelectItem key={option.key}>{option.label}</SelectItem>
+          ))}
+        </Select>
+      </div>
+
+      <ScrollShadow className="max-h-96">
+        <Table aria-label="Import preview" removeWrapper className="min-w-full">
+          <TableHeader>
+            <TableColumn>Import</TableColumn>
+            <TableColumn>Change</TableColumn>
+            <TableColumn>Name</TableColumn>
+            <TableColumn>Date</TableColumn>
+            <TableColumn>Side</TableColumn>
+            <TableColumn>Entry</TableColumn>
+            <TableColumn>Qty</TableColumn>
+            <TableColumn>SL</TableColumn>
+            <TableColumn>Status</TableColumn>
+            <TableColumn>P/L</TableColumn>
+            <TableColumn>Issues</TableColumn>
+            <TableColumn>Edit</TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="No rows match this filter">
+            {filtered.slice(0, visibleCount).map(({ row, index }) => {
+              const { trade } = row;
+              const isEditing = editingIndex === index && draft !== null;
+              const kind = KIND_CHIPS[row.kind];
+
+              return (
+                <TableRow key={trade.id} className={row.excluded ? 'opacity-50' : ''}>
+                  <TableCell>
+                    <Checkbox size="sm" aria-label="Include row" isSelected={!row.excluded} onValueChange={() => onToggleRow(index)} />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip
+                      isDisabled={!row.match}
+                      content={
+                        <div className="text-xs max-w-xs py-1">
+                          {row.kind === 'modified'
+                            ? `Updates trade #${row.match?.tradeNo}: ${row.changedFields.join(', ') || 'no field changes'}`
+                            : `Looks like trade #${row.match?.tradeNo} already in your journal`}
+                        </div>
+                      }
+                    >
+                      <Chip size="sm" variant="flat" color={kind.color}>{kind.label}</Chip>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    {isEditing
+                      ? <Input size="sm" aria-label="Name" value={draft.name} onValueChange={name => updateDraft({ name })} className="min-w-[110px]" />
+                      : trade.name || '-'}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing
+                      ? <Input size="sm" type="date" aria-label="Date" value={draft.date} onValueChange={date => updateDraft({ date })} />
+                      : formatDate(trade.date)}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Button size="sm" variant="flat" onPress={() => updateDraft({ buySell: draft.buySell === 'Buy' ? 'Sell' : 'Buy' })}>
+                        {draft.buySell}
+                      </Button>
+                    ) : trade.buySell}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing
+                      ? <Input size="sm" type="number" aria-label="Entry" value={String(draft.entry)} onValueChange={value => updateDraft({ entry: Number(value) || 0 })} className="min-w-[90px]" />
+                      : `₹${trade.entry?.toFixed(2) || '0.00'}`}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing
+                      ? <Input size="sm" type="number" aria-label="Quantity" value={String(draft.initialQty)} onValueChange={value => updateDraft({ initialQty: Number(value) || 0 })} className="min-w-[70px]" />
+                      : trade.initialQty || 0}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing
+                      ? <Input size="sm" type="number" aria-label="Stop loss" value={String(draft.sl)} onValueChange={value => updateDraft({ sl: Number(value) || 0 })} className="min-w-[80px]" />
+                      : trade.sl ? `₹${trade.sl.toFixed(2)}` : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="sm" variant="flat" color={
+                      trade.positionStatus === 'Open' ? 'warning' :
+                      trade.positionStatus === 'Closed' ? 'success' : 'primary'
+                    }>
+                      {trade.positionStatus}
+                    </Chip>
+                  </TableCell>
+                  <TableCell>
+                    <span className={trade.plRs >= 0 ? 'text-success' : 'text-danger'}>
+                      ₹{trade.plRs?.toFixed(2) || '0.00'}
+                    </span>
+                  </TableCell>
+                  <TableCell>{renderIssues(row)}</TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <div className="flex gap-1">
+                        <Button isIconOnly size="sm" variant="light" color="success" aria-label="Save changes" onPress={saveEdit}>
+                          <Icon icon="lucide:check" />
+                        </Button>
+                        <Button isIconOnly size="sm" variant="light" aria-label="Discard changes" onPress={stopEditing}>
+                          <Icon icon="lucide:x" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button isIconOnly size="sm" variant="light" aria-label="Edit row" onPress={() => startEditing(index)}>
+                        <Icon icon="lucide:pencil" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </ScrollShadow>
+
+      {filtered.length > visibleCount && (
+        <div className="flex justify-center">
+          <Button size="sm" variant="light" onPress={() => setVisibleCount(count => count + PAGE_SIZE)}>
+            Show more ({filtered.length - visibleCount} hidden)
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
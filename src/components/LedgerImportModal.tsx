@@ -0,0 +1,188 @@
+import React from "react";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Chip,
+  Switch
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import Papa from "papaparse";
+import type { CapitalChange } from "../utils/TruePortfolioContext";
+import {
+  detectLedger,
+  getLedgerFormats,
+  readWorkbookSheets,
+  removeRecordedLedgerEntries,
+  ledgerEntryToCapitalChange,
+  LEDGER_CATEGORY_LABELS,
+  BrokerSheet,
+  LedgerCategory,
+  LedgerEntry
+} from "../utils/brokers";
+
+interface LedgerImportModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  /** Capital changes already recorded - ledger entries matching one are skipped */
+  existingChanges: CapitalChange[];
+  onImport: (changes: Omit<CapitalChange, 'id'>[]) => Promise<void>;
+}
+
+interface LedgerPreview {
+  brokerName: string;
+  entries: LedgerEntry[];
+  duplicates: number;
+}
+
+const CATEGORIES: LedgerCategory[] = ['payin', 'payout', 'charges', 'dp_charges', 'interest'];
+
+// Pay-ins and payouts are the capital flows; costs are left for the user to opt into
+const DEFAULT_CATEGORIES: Record<LedgerCategory, boolean> = {
+  payin: true,
+  payout: true,
+  charges: false,
+  dp_charges: false,
+  interest: false
+};
+
+const formatAmount = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+const readLedgerFile = async (file: File): Promise<BrokerSheet[]> => {
+  if (/\.xlsx?$/i.test(file.name)) {
+    return readWorkbookSheets(await file.arrayBuffer(), file.name);
+  }
+  const { data } = Papa.parse<any[]>(await file.text(), { skipEmptyLines: true });
+  return [{ fileName: file.name, rows: data }];
+};
+
+/**
+ * LedgerImportModal - Capital changes from a broker's funds ledger
+ *
+ * Pay-ins and payouts are selected by default; charges, DP fees and interest are listed
+ * under their own categories. Entries already recorded (same date and amount) are skipped.
+ */
+export const LedgerImportModal: React.FC<LedgerImportModalProps> = ({ isOpen, onOpenChange, existingChanges, onImport }) => {
+  const [preview, setPreview] = React.useState<LedgerPreview | null>(null);
+  const [selected, setSelected] = React.useState<Record<LedgerCategory, boolean>>(DEFAULT_CATEGORIES);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setPreview(null);
+    setSelected(DEFAULT_CATEGORIES);
+    setError(null);
+  }, [isOpen]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const detected = detectLedger(await readLedgerFile(file));
+      if (!detected) {
+        setError(`Not a funds ledger we recognise. Supported: ${getLedgerFormats().map(format => format.name).join(', ')}.`);
+        return;
+      }
+      const { entries, duplicates } = removeRecordedLedgerEntries(detected.entries, existingChanges);
+      setPreview({ brokerName: detected.format.name, entries, duplicates });
+    } catch (parseError) {
+      setError(`Failed to read the ledger: ${parseError.message}`);
+    }
+  };
+
+  const chosenEntries = preview ? preview.entries.filter(entry => selected[entry.category]) : [];
+
+  const handleImport = async () => {
+    if (!preview || chosenEntries.length === 0) return;
+    setIsSaving(true);
+    try {
+      await onImport(chosenEntries.map(entry => ledgerEntryToCapitalChange(entry, preview.brokerName)));
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange} size="lg">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex items-center gap-2">
+              <Icon icon="lucide:landmark" />
+              Import Funds Ledger
+            </ModalHeader>
+            <ModalBody className="space-y-3">
+              <p className="text-sm text-default-500">
+                Upload the ledger statement from {getLedgerFormats().map(format => format.name).join(', ')} to record
+                pay-ins and payouts as capital changes.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="text-sm"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) handleFile(file);
+                  event.target.value = '';
+                }}
+              />
+
+              {error && <p className="text-sm text-danger">{error}</p>}
+
+              {preview && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Chip size="sm" variant="flat" color="primary">{preview.brokerName} ledger</Chip>
+                    {preview.duplicates > 0 && (
+                      <span className="text-default-500">
+                        {preview.duplicates} entr{preview.duplicates === 1 ? 'y is' : 'ies are'} already recorded and will be skipped
+                      </span>
+                    )}
+                  </div>
+                  {CATEGORIES.map(category => {
+                    const entries = preview.entries.filter(entry => entry.category === category);
+                    const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+                    return (
+                      <div key={category} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-divider">
+                        <Switch
+                          size="sm"
+                          isSelected={selected[category]}
+                          isDisabled={entries.length === 0}
+                          onValueChange={(value) => setSelected(current => ({ ...current, [category]: value }))}
+                        >
+                          {LEDGER_CATEGORY_LABELS[category]}
+                        </Switch>
+                        <span className="text-sm text-default-600">
+                          {entries.length} entr{entries.length === 1 ? 'y' : 'ies'} • {formatAmount(total)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                  <p className="text-xs text-default-400">
+                    Charges, DP fees and interest are costs rather than money you moved - include them only if your trade P/L is recorded before charges.
+                  </p>
+                </div>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={onClose}>Cancel</Button>
+              <Button
+                color="primary"
+                onPress={handleImport}
+                isLoading={isSaving}
+                isDisabled={chosenEntries.length === 0}
+              >
+                Add {chosenEntries.length} Capital Change{chosenEntries.length === 1 ? '' : 's'}
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardBody, RadioGroup, Radio, Input, Button } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import {
+  MARKET_DATA_PROVIDER_OPTIONS,
+  DEFAULT_MARKET_DATA_SETTINGS,
+  MarketDataSettings,
+  getMarketDataSettings,
+  saveMarketDataSettings,
+  clearMarketDataCache,
+  getMarketDataProvider
+} from '../utils/marketData';
+
+export const MarketDataSettingsCompact: React.FC = () => {
+  const [settings, setSettings] = useState<MarketDataSettings>(DEFAULT_MARKET_DATA_SETTINGS);
+  const [filePath, setFilePath] = useState(DEFAULT_MARKET_DATA_SETTINGS.filePath);
+  const [testSymbol, setTestSymbol] = useState('NIFTYBEES');
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    getMarketDataSettings().then(saved => {
+      setSettings(saved);
+      setFilePath(saved.filePath);
+    });
+  }, []);
+
+  const save = async (updated: MarketDataSettings) => {
+    setSettings(updated);
+    setTestResult(null);
+    try {
+      await saveMarketDataSettings(updated);
+    } catch (error) {
+      setTestResult({ ok: false, message: 'Could not save the provider setting' });
+    }
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearMarketDataCache();
+      setTestResult({ ok: true, message: 'Cached prices cleared' });
+    } catch (error) {
+      setTestResult({ ok: false, message: 'Could not clear cached prices' });
+    }
+  };
+
+  const handleTest = async () => {
+    if (!testSymbol.trim()) return;
+    setIsTesting(true);
+    try {
+      const quote = await (await getMarketDataProvider()).getQuote(testSymbol.trim());
+      setTestResult(quote
+        ? { ok: true, message: `${quote.symbol}: ₹${quote.price.toLocaleString('en-IN')} (${quote.time})` }
+        : { ok: false, message: `No prices for ${testSymbol.trim().toUpperCase()}` });
+    } catch (error) {
+      setTestResult({ ok: false, message: error instanceof Error ? error.message : 'Price lookup failed' });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-default-50 dark:bg-default-100">
+      <CardBody className="p-4">
+        <div className="flex items-start gap-3">
+          <Icon icon="lucide:candlestick-chart" className="w-5 h-5 text-primary mt-0.5" />
+          <div className="flex-1">
+            <div className="mb-2">
+              <h4 className="text-sm font-semibold">Market Data</h4>
+            </div>
+            <p className="text-xs text-default-500 mb-3">
+              Where CMP, the price ticker and the index comparison get their prices
+            </p>
+
+            <RadioGroup
+              value={settings.provider}
+              onValueChange={value => save({ ...settings, provider: value as MarketDataSettings['provider'] })}
+              orientation="horizontal"
+              className="gap-4"
+              size="sm"
+            >
+              {MARKET_DATA_PROVIDER_OPTIONS.map(option => (
+                <Radio key={option.id} value={option.id} description={option.description} className="flex-1">
+                  <span className="text-sm font-medium">{option.name}</span>
+                </Radio>
+              ))}
+            </RadioGroup>
+
+            {settings.provider === 'file' && (
+              <Input
+                className="mt-3"
+                size="sm"
+                label="Candle files folder"
+                description="One SYMBOL.json or SYMBOL.csv per symbol, served with the app (e.g. public/market-data)"
+                value={filePath}
+                onValueChange={setFilePath}
+                onBlur={() => filePath !== settings.filePath && save({ ...settings, filePath: filePath.trim() || DEFAULT_MARKET_DATA_SETTINGS.filePath })}
+              />
+            )}
+
+            <div className="flex items-center gap-2 mt-3">
+              <Input
+                size="sm"
+                aria-label="Symbol to test"
+                value={testSymbol}
+                onValueChange={setTestSymbol}
+                className="max-w-[160px]"
+              />
+              <Button
+                size="sm"
+                variant="flat"
+                onPress={handleTest}
+                isLoading={isTesting}
+                startContent={!isTesting && <Icon icon="lucide:plug-zap" className="w-3 h-3" />}
+              >
+                Test
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                onPress={handleClearCache}
+                startContent={<Icon icon="lucide:database-zap" className="w-3 h-3" />}
+              >
+                Clear cached prices
+              </Button>
+              {testResult && (
+                <span className={`text-xs ${testResult.ok ? 'text-success' : 'text-danger'}`}>
+                  {testResult.message}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
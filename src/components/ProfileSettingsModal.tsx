@@ -28,14 +28,19 @@ import { Icon } from "@iconify/react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useTruePortfolio } from "../utils/TruePortfolioContext";
 import { YearlyStartingCapitalModal } from "./YearlyStartingCapitalModal";
+import { LedgerImportModal } from "./LedgerImportModal";
 import { DuplicateCleanupTool } from "./DuplicateCleanupTool";
 import { v4 as uuidv4 } from 'uuid';
-import { SupabaseService } from "../services/supabaseService";
+import { StorageService } from "../services/storageBackend";
+import { RealtimeService } from "../services/realtimeService";
 // REMOVED: import { useMilestones } from "../hooks/use-milestones";
 import { useAccountingMethod } from "../context/AccountingMethodContext";
 import { useQuery } from '@tanstack/react-query';
 import * as tradeService from '../services/tradeService';
 import { TerminologySettingsCompact } from "./TerminologySettingsCompact";
+import { MarketDataSettingsCompact } from "./MarketDataSettingsCompact";
+import { ExchangeCalendarSettingsCompact } from "./ExchangeCalendarSettingsCompact";
+import { SecurityMasterSettingsCompact } from "./SecurityMasterSettingsCompact";
 
 import "../styles/smooth-animations.css";
 
@@ -84,6 +89,12 @@ const DEFAULT_GROWTH_AREAS = [
   'Too Early Entry', 'Too Tight SL'
 ];
 
+// Misc keys the tag lists are read from
+const TAG_OPTION_KEYS = [
+  'active_setup_options', 'active_exit_trigger_options', 'active_growth_areas_options',
+  'custom_setup_options', 'custom_exit_trigger_options', 'custom_growth_areas_options'
+];
+
 export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOpen, onOpenChange, userName, setUserName, isFullWidthEnabled, setIsFullWidthEnabled }) => {
   const {
     yearlyStartingCapitals,
@@ -113,6 +124,7 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
 
   const [selectedTab, setSelectedTab] = useState('yearly');
   const [isYearlyCapitalModalOpen, setIsYearlyCapitalModalOpen] = useState(false);
+  const [isLedgerImportOpen, setIsLedgerImportOpen] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState(months[new Date().getMonth()]);
   const [selectedYear, setSelectedYear] = useState(currentYear);
   const [editingCell, setEditingCell] = useState<{month: string, year: number} | null>(null);
@@ -257,36 +269,15 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
     }
   }, [isOpen]);
 
-  // Listen for updates from dropdown components and refresh the modal
-  useEffect(() => {
-    if (!isOpen) return;
-
-    const handleTagPreferencesUpdate = () => {
-
-      loadTagPreferences();
-    };
-
-    window.addEventListener('tagPreferencesUpdated', handleTagPreferencesUpdate);
-
-    return () => {
-      window.removeEventListener('tagPreferencesUpdated', handleTagPreferencesUpdate);
-    };
-  }, [isOpen]);
-
-  // Listen for updates from dropdown components
+  // Refresh when tag options change in the journal dropdowns, another tab or another device
   useEffect(() => {
     if (!isOpen) return;
 
-    const handleTagPreferencesUpdate = () => {
-
-      loadTagPreferences();
-    };
-
-    window.addEventListener('tagPreferencesUpdated', handleTagPreferencesUpdate);
-
-    return () => {
-      window.removeEventListener('tagPreferencesUpdated', handleTagPreferencesUpdate);
-    };
+    return RealtimeService.onChange(change => {
+      if (change.entity === 'misc' && (change.op === 'reload' || TAG_OPTION_KEYS.includes(change.key))) {
+        loadTagPreferences();
+      }
+    });
   }, [isOpen]);
 
   const loadTagPreferences = async () => {
@@ -294,9 +285,9 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
 
 
       // Try to load the complete active tag lists first
-      const activeSetupTags = await SupabaseService.getMiscData('active_setup_options');
-      const activeExitTriggerTags = await SupabaseService.getMiscData('active_exit_trigger_options');
-      const activeGrowthAreaTags = await SupabaseService.getMiscData('active_growth_areas_options');
+      const activeSetupTags = await StorageService.backend.misc.get('active_setup_options');
+      const activeExitTriggerTags = await StorageService.backend.misc.get('active_exit_trigger_options');
+      const activeGrowthAreaTags = await StorageService.backend.misc.get('active_growth_areas_options');
 
 
 
@@ -307,7 +298,7 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
         setupTags = activeSetupTags;
       } else {
         // Legacy fallback: load custom tags and merge with defaults
-        const customSetupTags = await SupabaseService.getMiscData('custom_setup_options') || [];
+        const customSetupTags = await StorageService.backend.misc.get('custom_setup_options') || [];
         setupTags = [...DEFAULT_SETUP_OPTIONS, ...customSetupTags];
       }
 
@@ -315,7 +306,7 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
         exitTriggerTags = activeExitTriggerTags;
       } else {
         // Legacy fallback: load custom tags and merge with defaults
-        const customExitTriggerTags = await SupabaseService.getMiscData('custom_exit_trigger_options') || [];
+        const customExitTriggerTags = await StorageService.backend.misc.get('custom_exit_trigger_options') || [];
         exitTriggerTags = [...DEFAULT_EXIT_TRIGGER_OPTIONS, ...customExitTriggerTags];
       }
 
@@ -323,7 +314,7 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
         growthAreaTags = activeGrowthAreaTags;
       } else {
         // Legacy fallback: load custom tags and merge with defaults
-        const customGrowthAreaTags = await SupabaseService.getMiscData('custom_growth_areas_options') || [];
+        const customGrowthAreaTags = await StorageService.backend.misc.get('custom_growth_areas_options') || [];
         growthAreaTags = [...DEFAULT_GROWTH_AREAS, ...customGrowthAreaTags];
       }
 
@@ -360,14 +351,11 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
 
       // Save the complete list of active tags (including modified defaults)
       await Promise.all([
-        SupabaseService.setMiscData('active_setup_options', preferences.setup),
-        SupabaseService.setMiscData('active_exit_trigger_options', preferences.exitTrigger),
-        SupabaseService.setMiscData('active_growth_areas_options', preferences.growthAreas)
+        StorageService.backend.misc.save('active_setup_options', preferences.setup),
+        StorageService.backend.misc.save('active_exit_trigger_options', preferences.exitTrigger),
+        StorageService.backend.misc.save('active_growth_areas_options', preferences.growthAreas)
       ]);
 
-      // Force dropdown components to refresh
-      window.dispatchEvent(new CustomEvent('tagPreferencesUpdated'));
-
 
     } catch (error) {
       console.error('❌ Failed to auto-save trading preferences:', error);
@@ -641,6 +629,21 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
                 <TerminologySettingsCompact />
               </div>
 
+              {/* Market Data Provider - Standalone Section */}
+              <div className="mb-6">
+                <MarketDataSettingsCompact />
+              </div>
+
+              {/* Exchange Calendar Overrides - Standalone Section */}
+              <div className="mb-6">
+                <ExchangeCalendarSettingsCompact />
+              </div>
+
+              {/* Security Master - Standalone Section */}
+              <div className="mb-6">
+                <SecurityMasterSettingsCompact />
+              </div>
+
               {/* Trading Preferences - Standalone Section */}
               <div className="mb-6">
                 <div className="bg-content1/50 rounded-xl p-4 border border-divider/30">
@@ -1003,10 +1006,20 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
 
                           {/* Add New Capital Change */}
                           <div className="border border-divider/50 rounded-lg p-3 bg-background/50">
-                            <h4 className="font-medium text-sm mb-3 flex items-center gap-2">
-                              <Icon icon="lucide:plus-circle" className="w-4 h-4 text-primary" />
-                              Add Capital Change
-                            </h4>
+                            <div className="flex items-center justify-between mb-3">
+                              <h4 className="font-medium text-sm flex items-center gap-2">
+                                <Icon icon="lucide:plus-circle" className="w-4 h-4 text-primary" />
+                                Add Capital Change
+                              </h4>
+                              <Button
+                                size="sm"
+                                variant="flat"
+                                onPress={() => setIsLedgerImportOpen(true)}
+                                startContent={<Icon icon="lucide:file-up" className="w-3.5 h-3.5" />}
+                              >
+                                Import Ledger
+                              </Button>
+                            </div>
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                               <Select
                                 label="Month"
@@ -1300,6 +1313,17 @@ export const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOp
               isOpen={isYearlyCapitalModalOpen}
               onOpenChange={setIsYearlyCapitalModalOpen}
             />
+
+            <LedgerImportModal
+              isOpen={isLedgerImportOpen}
+              onOpenChange={setIsLedgerImportOpen}
+              existingChanges={capitalChanges}
+              onImport={async (changes) => {
+                for (const change of changes) {
+                  await addCapitalChange(change);
+                }
+              }}
+            />
           </>
         )}
       </ModalContent>
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardBody, Button, Chip } from '@heroui/react';
+import { Icon } from '@iconify/react';
+import Papa from 'papaparse';
+import { readWorkbookSheets } from '../utils/brokers';
+import {
+  SECURITY_FILE_LABELS,
+  SecurityIndex,
+  SecurityFileImport,
+  importSecurityFiles,
+  loadSecurityMaster,
+  resetSecurityMaster
+} from '../utils/securityMaster';
+
+async function readFileRows(file: File): Promise<any[][]> {
+  if (/\.xlsx?$/i.test(file.name)) {
+    return readWorkbookSheets(await file.arrayBuffer(), file.name)[0]?.rows || [];
+  }
+  const { data } = Papa.parse<any[]>(await file.text(), { skipEmptyLines: true });
+  return data;
+}
+
+export const SecurityMasterSettingsCompact: React.FC = () => {
+  const [master, setMaster] = useState<SecurityIndex | null>(null);
+  const [results, setResults] = useState<SecurityFileImport[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSecurityMaster().then(setMaster).catch(() => setMaster(null));
+  }, []);
+
+  const handleFiles = async (files: File[]) => {
+    setIsBusy(true);
+    try {
+      const read = await Promise.all(files.map(async file => ({ fileName: file.name, rows: await readFileRows(file) })));
+      setResults(await importSecurityFiles(read));
+      setMaster(await loadSecurityMaster());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update security master');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsBusy(true);
+    try {
+      setMaster(await resetSecurityMaster());
+      setResults([]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset security master');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const snapshot = master?.snapshot;
+  const securities = snapshot?.securities || [];
+  const count = (predicate: (status: string) => boolean) => securities.filter(security => predicate(security.status)).length;
+
+  return (
+    <Card className="bg-default-50 dark:bg-default-100">
+      <CardBody className="p-4">
+        <div className="flex items-start gap-3">
+          <Icon icon="lucide:library" className="w-5 h-5 text-primary mt-0.5" />
+          <div className="flex-1">
+            <div className="mb-2">
+              <h4 className="text-sm font-semibold">Security Master</h4>
+            </div>
+            <p className="text-xs text-default-500 mb-3">
+              Listed companies by ISIN with their NSE and BSE symbols, sector and listing status. Imports match
+              tradebook fills by ISIN and follow symbol changes. Refresh it by uploading the NSE equity list,
+              BSE list of scrips, NSE symbol changes, delisted securities or sector files.
+            </p>
+
+            {snapshot && (
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <Chip size="sm" variant="flat" color="success">{count(status => status === 'active')} active</Chip>
+                <Chip size="sm" variant="flat" color="warning">{count(status => status === 'suspended')} suspended</Chip>
+                <Chip size="sm" variant="flat" color="default">{count(status => status === 'delisted')} delisted</Chip>
+                <Chip size="sm" variant="flat" color="secondary">{snapshot.symbolChanges.length} symbol changes</Chip>
+                <span className="text-xs text-default-400">
+                  {snapshot.updatedAt ? `Updated ${new Date(snapshot.updatedAt).toLocaleDateString()}` : 'Bundled lists'}
+                </span>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                multiple
+                className="text-sm"
+                disabled={isBusy}
+                onChange={(event) => {
+                  const files = Array.from(event.target.files || []);
+                  if (files.length > 0) handleFiles(files);
+                  event.target.value = '';
+                }}
+              />
+              {snapshot?.sources.length ? (
+                <Button
+                  size="sm"
+                  variant="flat"
+                  color="danger"
+                  onPress={handleReset}
+                  isDisabled={isBusy}
+                  startContent={<Icon icon="lucide:rotate-ccw" className="w-3 h-3" />}
+                >
+                  Back to bundled lists
+                </Button>
+              ) : null}
+            </div>
+
+            {error && <p className="text-xs text-danger mt-2">{error}</p>}
+
+            {results.length > 0 && (
+              <div className="mt-3 space-y-1">
+                {results.map((result, index) => (
+                  <div key={`${result.fileName}-${index}`} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate">{result.fileName}</span>
+                    {result.kind ? (
+                      <Chip size="sm" variant="flat" color="success">
+                        {SECURITY_FILE_LABELS[result.kind]} - {result.rows} rows
+                      </Chip>
+                    ) : (
+                      <Chip size="sm" variant="flat" color="danger">Not an exchange file</Chip>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {snapshot && snapshot.sources.length > 0 && results.length === 0 && (
+              <div className="mt-3 space-y-1">
+                {snapshot.sources.slice(-5).reverse().map((source, index) => (
+                  <div key={`${source.fileName}-${index}`} className="flex items-center gap-2 text-xs text-default-500">
+                    <span className="font-mono w-24">{source.importedAt.slice(0, 10)}</span>
+                    <span className="flex-1 truncate">{source.fileName}</span>
+                    <span>{SECURITY_FILE_LABELS[source.kind]}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,168 @@
+import React from "react";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  ButtonGroup,
+  Chip
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useQueryClient } from "@tanstack/react-query";
+import { SyncService } from "../services/syncService";
+import type { SyncConflict } from "../services/localStore";
+import { ConflictChoice, mergeRecordFields, toFieldMap } from "../utils/syncConflicts";
+
+interface SyncConflictDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  conflictCount: number;
+}
+
+const ENTITY_LABELS: Record<SyncConflict['entity'], string> = {
+  trade: "Trade",
+  misc: "Setting",
+  portfolio: "Capital entry"
+};
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+  }
+  return String(value);
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+
+/**
+ * SyncConflictDialog - Field-by-field merge of records edited on two devices
+ *
+ * Each differing field can keep this device's value or the other device's;
+ * the merged record is saved against the other device's version.
+ */
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ isOpen, onOpenChange, conflictCount }) => {
+  const queryClient = useQueryClient();
+  const [conflicts, setConflicts] = React.useState<SyncConflict[]>([]);
+  const [choices, setChoices] = React.useState<Record<string, ConflictChoice>>({});
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const conflict = conflicts[0];
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    SyncService.getConflicts().then(setConflicts).catch(() => setConflicts([]));
+  }, [isOpen, conflictCount]);
+
+  // Default every field to this device's edit
+  React.useEffect(() => {
+    setChoices(conflict ? Object.fromEntries(conflict.fields.map(field => [field, 'local' as ConflictChoice])) : {});
+  }, [conflict?.id, conflict?.detectedAt]);
+
+  const chooseAll = (choice: ConflictChoice) => {
+    if (!conflict) return;
+    setChoices(Object.fromEntries(conflict.fields.map(field => [field, choice])));
+  };
+
+  const handleSave = async () => {
+    if (!conflict) return;
+    setIsSaving(true);
+    try {
+      await SyncService.resolveConflict(conflict, mergeRecordFields(conflict.local, conflict.remote, choices));
+      if (conflict.entity === 'trade') {
+        queryClient.invalidateQueries({ queryKey: ['trades'] });
+      }
+
+      const remaining = conflicts.slice(1);
+      setConflicts(remaining);
+      if (remaining.length === 0) onOpenChange(false);
+    } catch (error) {
+      console.error('❌ Failed to resolve sync conflict:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const localFields = conflict ? toFieldMap(conflict.local) : {};
+  const remoteFields = conflict ? toFieldMap(conflict.remote) : {};
+
+  return (
+    <Modal isOpen={isOpen} onOpenChange={onOpenChange} size="2xl" scrollBehavior="inside">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <Icon icon="lucide:git-merge" className="text-warning" />
+                <span>Edited on another device</span>
+                {conflicts.length > 1 && (
+                  <Chip size="sm" variant="flat">1 of {conflicts.length}</Chip>
+                )}
+              </div>
+              {conflict && (
+                <p className="text-xs font-normal text-default-500">
+                  {ENTITY_LABELS[conflict.entity]} · {conflict.label} · other copy saved {formatTime(conflict.remoteVersion)}
+                </p>
+              )}
+            </ModalHeader>
+            <ModalBody>
+              {!conflict ? (
+                <p className="text-sm text-default-500">No conflicting changes left.</p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 text-xs font-medium text-default-500 px-1">
+                    <span>Field</span>
+                    <span>This device</span>
+                    <span>Other device</span>
+                  </div>
+                  {conflict.fields.map(field => (
+                    <div key={field} className="grid grid-cols-[1fr_1fr_1fr] gap-2 items-center p-1 rounded-lg border border-divider">
+                      <span className="text-sm font-mono truncate" title={field}>{field}</span>
+                      {(['local', 'remote'] as ConflictChoice[]).map(side => {
+                        const value = side === 'local' ? localFields[field] : remoteFields[field];
+                        const isChosen = choices[field] === side;
+                        return (
+                          <Button
+                            key={side}
+                            size="sm"
+                            variant={isChosen ? "flat" : "light"}
+                            color={isChosen ? "primary" : "default"}
+                            className="justify-start h-auto min-h-8 py-1 text-left whitespace-normal break-all"
+                            onPress={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                          >
+                            {formatValue(value)}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                  {conflict.entity === 'misc' && (
+                    <p className="text-xs text-default-400">The merged setting takes effect the next time the journal loads.</p>
+                  )}
+                </div>
+              )}
+            </ModalBody>
+            <ModalFooter className="flex justify-between">
+              <ButtonGroup size="sm" variant="flat" isDisabled={!conflict}>
+                <Button onPress={() => chooseAll('local')}>Keep all mine</Button>
+                <Button onPress={() => chooseAll('remote')}>Keep all theirs</Button>
+              </ButtonGroup>
+              <div className="flex gap-2">
+                <Button variant="light" size="sm" onPress={onClose}>
+                  Later
+                </Button>
+                <Button color="primary" size="sm" onPress={handleSave} isLoading={isSaving} isDisabled={!conflict}>
+                  Save merge
+                </Button>
+              </div>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,77 @@
+import React from "react";
+import { Button, Tooltip } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { useSyncStatus } from "../hooks/use-sync-status";
+import { SyncService, SyncState } from "../services/syncService";
+import { SyncConflictDialog } from "./SyncConflictDialog";
+
+const STATE_DISPLAY: Record<SyncState, { icon: string; label: string; className: string }> = {
+  synced: { icon: "lucide:cloud-check", label: "Synced", className: "text-success" },
+  pending: { icon: "lucide:cloud-upload", label: "Pending", className: "text-warning" },
+  syncing: { icon: "lucide:refresh-cw", label: "Syncing", className: "text-primary animate-spin" },
+  offline: { icon: "lucide:cloud-off", label: "Offline", className: "text-warning" },
+  error: { icon: "lucide:alert-triangle", label: "Sync error", className: "text-danger" },
+  conflict: { icon: "lucide:git-merge", label: "Needs review", className: "text-warning" },
+  local: { icon: "lucide:hard-drive", label: "Local only", className: "text-default-500" }
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * SyncStatusIndicator - Header badge for the local store's sync state
+ *
+ * Shows queued changes while offline or syncing; pressing it retries the queue,
+ * or opens the merge dialog when edits from another device are waiting for review.
+ */
+export const SyncStatusIndicator: React.FC = () => {
+  const status = useSyncStatus();
+  const display = STATE_DISPLAY[status.state];
+  const queued = status.pending + status.failed;
+  const [isMergeOpen, setIsMergeOpen] = React.useState(false);
+  const previousConflicts = React.useRef(status.conflicts);
+
+  // Newly detected conflicts open the merge dialog; dismissed ones stay reachable from the badge
+  React.useEffect(() => {
+    if (status.conflicts > previousConflicts.current) setIsMergeOpen(true);
+    previousConflicts.current = status.conflicts;
+  }, [status.conflicts]);
+
+  const details = [
+    status.state === 'local'
+      ? "Data is stored in this browser only"
+      : status.lastSyncedAt ? `Last synced at ${formatTime(status.lastSyncedAt)}` : "Not synced yet this session",
+    status.pending > 0 ? `${status.pending} change${status.pending === 1 ? '' : 's'} waiting to sync` : null,
+    status.failed > 0 ? `${status.failed} change${status.failed === 1 ? '' : 's'} failed repeatedly` : null,
+    status.conflicts > 0 ? `${status.conflicts} record${status.conflicts === 1 ? '' : 's'} also changed on another device - click to merge` : null,
+    status.lastError && status.state === 'error' ? status.lastError : null
+  ].filter(Boolean);
+
+  return (
+    <>
+      <Tooltip
+        placement="bottom"
+        content={
+          <div className="text-xs space-y-0.5 max-w-[240px]">
+            {details.map(line => <p key={line}>{line}</p>)}
+          </div>
+        }
+      >
+        <Button
+          variant="light"
+          size="sm"
+          className="rounded-full min-h-0 min-w-0 px-2 gap-1.5"
+          aria-label={`Sync status: ${display.label}`}
+          isDisabled={status.state === 'local'}
+          onPress={() => status.conflicts > 0 ? setIsMergeOpen(true) : void SyncService.flush()}
+        >
+          <Icon icon={display.icon} className={`h-4 w-4 shrink-0 ${display.className}`} />
+          <span className="hidden md:inline text-xs text-default-600">
+            {display.label}{queued > 0 && status.state !== 'local' ? ` · ${queued}` : ''}
+          </span>
+        </Button>
+      </Tooltip>
+      <SyncConflictDialog isOpen={isMergeOpen} onOpenChange={setIsMergeOpen} conflictCount={status.conflicts} />
+    </>
+  );
+};
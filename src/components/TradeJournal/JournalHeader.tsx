@@ -27,6 +27,8 @@ interface JournalHeaderProps {
   // Action handlers - match original exactly (no Gap Analysis)
   onAddTrade: () => void;
   onImportTrades: () => void;
+  onReconcileHoldings: () => void;
+  onCorporateActions: () => void;
   onExportCSV: () => void;
   onExportExcel: () => void;
 
@@ -65,6 +67,8 @@ export const JournalHeader: React.FC<JournalHeaderProps> = ({
   setVisibleColumns,
   onAddTrade,
   onImportTrades,
+  onReconcileHoldings,
+  onCorporateActions,
   onExportCSV,
   onExportExcel,
   isStatsMasked,
@@ -104,6 +108,7 @@ export const JournalHeader: React.FC<JournalHeaderProps> = ({
     { key: "exit3Price", label: "Exit 3 Price" },
     { key: "exit3Qty", label: "Exit 3 Qty" },
     { key: "exit3Date", label: "Exit 3 Date" },
+    { key: "legs", label: "All Legs" },
     { key: "openQty", label: "Open Qty" },
     { key: "exitedQty", label: "Exited Qty" },
     { key: "avgExitPrice", label: "Avg Exit Price" },
@@ -114,6 +119,7 @@ export const JournalHeader: React.FC<JournalHeaderProps> = ({
     { key: "positionStatus", label: "Position Status" },
     { key: "realisedAmount", label: "Realised Amount" },
     { key: "plRs", label: "P/L ₹" },
+    { key: "netPlRs", label: "Net P/L ₹" },
     { key: "pfImpact", label: "PF Impact" },
     { key: "cummPf", label: "Cumm PF" },
     { key: "planFollowed", label: "Plan Followed" },
@@ -321,6 +327,30 @@ export const JournalHeader: React.FC<JournalHeaderProps> = ({
               </Button>
             </Tooltip>
 
+            {/* Holdings Reconciliation */}
+            <Tooltip content="Reconcile with broker holdings">
+              <Button
+                isIconOnly
+                variant="light"
+                className="w-6 h-6 min-w-6 rounded p-0.5 hover:bg-primary/10 transition"
+                onPress={onReconcileHoldings}
+              >
+                <Icon icon="lucide:scale" className="w-3 h-3" />
+              </Button>
+            </Tooltip>
+
+            {/* Corporate Actions */}
+            <Tooltip content="Splits, bonuses, dividends and demergers">
+              <Button
+                isIconOnly
+                variant="light"
+                className="w-6 h-6 min-w-6 rounded p-0.5 hover:bg-primary/10 transition"
+                onPress={onCorporateActions}
+              >
+                <Icon icon="lucide:split" className="w-3 h-3" />
+              </Button>
+            </Tooltip>
+
             {/* Export Dropdown */}
             <Dropdown>
               <DropdownTrigger>
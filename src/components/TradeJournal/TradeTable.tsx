@@ -21,6 +21,7 @@ import { Icon } from "@iconify/react";
 import clsx from "clsx";
 import { Trade } from "../../types/trade";
 import { SortDescriptor } from "../../hooks/use-trades";
+import type { QuoteRefreshStatus } from "../../utils/marketData";
 import MobileTooltip from "../ui/MobileTooltip";
 import {
   NameCell,
@@ -32,8 +33,10 @@ import {
   CMPCell,
   ExitTriggerCell,
   ProficiencyGrowthAreasCell,
-  PlanFollowedCell
+  PlanFollowedCell,
+  LegsCell
 } from "./cells";
+import { getTradeLegs, calcSLPercent, isDerivativeTrade, formatInstrumentLabel, formatLots } from "../../lib/calculations";
 
 // ✅ SOLUTION 4: Import Virtual Scrolling for large datasets
 import { FixedSizeList as List } from 'react-window';
@@ -75,6 +78,9 @@ interface TradeTableProps {
 
   // Row-level actions
   onInlineEditSave: (tradeId: string, field: keyof Trade, value: any) => void;
+
+  // CMP refresh status per symbol, for the "last updated" indicator
+  quoteStatus?: Record<string, QuoteRefreshStatus>;
   onEditTrade: (trade: Trade) => void;
   onDeleteTrade: (trade: Trade) => void;
 
@@ -132,6 +138,7 @@ export const TradeTable: React.FC<TradeTableProps> = React.memo(function TradeTa
   onNotesWrapChange,
   renderCell,
   onInlineEditSave,
+  quoteStatus = {},
   onEditTrade,
   onDeleteTrade,
   onViewChart,
@@ -185,6 +192,11 @@ export const TradeTable: React.FC<TradeTableProps> = React.memo(function TradeTa
               value={trade.name}
               onSave={(value) => onInlineEditSave(trade.id, 'name', value)}
             />
+            {isDerivativeTrade(trade) && (
+              <div className="px-2 text-[10px] text-default-500 truncate">
+                {formatInstrumentLabel(trade.instrument)}
+              </div>
+            )}
           </div>
         );
 
@@ -324,10 +336,24 @@ export const TradeTable: React.FC<TradeTableProps> = React.memo(function TradeTa
             key={`${trade.id}-cmp`}
             value={trade.cmp}
             isAutoFetched={trade._cmpAutoFetched}
+            refreshStatus={trade.name ? quoteStatus[trade.name.toUpperCase()] : undefined}
             onSave={(value) => onInlineEditSave(trade.id, 'cmp', value)}
           />
         );
 
+      case 'legs':
+        return (
+          <div data-trade-id={trade.id} data-field="legs" tabIndex={0}>
+            <LegsCell
+              key={`${trade.id}-legs`}
+              legs={getTradeLegs(trade)}
+              buySell={trade.buySell}
+              tradeDate={trade.date}
+              onSave={(value) => onInlineEditSave(trade.id, 'legs', value)}
+            />
+          </div>
+        );
+
       // Trade number with upload button
       case "tradeNo":
         return (
@@ -677,9 +703,12 @@ export const TradeTable: React.FC<TradeTableProps> = React.memo(function TradeTa
 
       // Special handling for accounting-aware fields
       case "plRs":
+      case "netPlRs":
       case "realisedAmount":
         const accountingValues = getAccountingAwareValues(trade);
-        const displayValue = columnKey === "realisedAmount" ? accountingValues.realisedAmount : accountingValues.plRs;
+        const displayValue = columnKey === "realisedAmount"
+          ? accountingValues.realisedAmount
+          : columnKey === "netPlRs" ? accountingValues.netPlRs : accountingValues.plRs;
         return (
           <div className={`py-1 px-2 text-right whitespace-nowrap ${getValueColor(displayValue, columnKey)}`}>
             {formatCellValue(displayValue, columnKey)}
@@ -712,11 +741,20 @@ export const TradeTable: React.FC<TradeTableProps> = React.memo(function TradeTa
 
       // Non-editable calculated quantity fields
       case "positionSize":
+        return (
+          <div className="py-1 px-2 text-right whitespace-nowrap rounded-sm bg-default-50/50 dark:bg-gray-800/30 border-l-2 border-default-200 dark:border-gray-700">
+            {formatCellValue(cellValue, columnKey)}
+          </div>
+        );
+
+      // F&O quantities are in units, with the lots they make underneath
       case "openQty":
       case "exitedQty":
+        const lots = formatLots(trade, cellValue as number);
         return (
           <div className="py-1 px-2 text-right whitespace-nowrap rounded-sm bg-default-50/50 dark:bg-gray-800/30 border-l-2 border-default-200 dark:border-gray-700">
             {formatCellValue(cellValue, columnKey)}
+            {lots && <div className="text-[10px] text-default-500">{lots}</div>}
           </div>
         );
 
@@ -730,8 +768,7 @@ export const TradeTable: React.FC<TradeTableProps> = React.memo(function TradeTa
 
       case "slPercent":
         // Use calculated SL percent if available, otherwise calculate it
-        const slPercent = cellValue || ((trade.sl && trade.entry) ?
-          Math.abs((trade.sl - trade.entry) / trade.entry * 100) : 0);
+        const slPercent = cellValue || calcSLPercent(trade.sl, trade.entry, trade.buySell);
         return (
           <div className="text-right font-medium text-small whitespace-nowrap">
             {slPercent > 0 ? `${slPercent.toFixed(2)}%` : "-"}
@@ -784,7 +821,7 @@ export const TradeTable: React.FC<TradeTableProps> = React.memo(function TradeTa
           </div>
         );
     }
-  }, [onInlineEditSave]);
+  }, [onInlineEditSave, quoteStatus]);
 
   // Get column class names with indicators - FIXED: Add proper widths for virtual table
   const getColumnClassName = useCallback((key: string) => {
@@ -322,9 +322,12 @@ export const TradeTableRow: React.FC<TradeTableRowProps> = React.memo(function T
 
       // Calculated fields with accounting awareness
       case "plRs":
+      case "netPlRs":
       case "realisedAmount":
         const accountingValues = getAccountingAwareValues(trade);
-        const displayValue = columnKey === "realisedAmount" ? accountingValues.realisedAmount : accountingValues.plRs;
+        const displayValue = columnKey === "realisedAmount"
+          ? accountingValues.realisedAmount
+          : columnKey === "netPlRs" ? accountingValues.netPlRs : accountingValues.plRs;
         return (
           <div className={`py-1 px-2 text-right whitespace-nowrap ${getValueColor(displayValue, columnKey)}`}>
             {formatCellValue(displayValue, columnKey)}
@@ -2,10 +2,14 @@ import React from 'react';
 import { Input, Tooltip } from "@heroui/react";
 import { Icon } from "@iconify/react";
 import { motion, AnimatePresence } from "framer-motion";
+import { formatDistanceToNowStrict } from "date-fns";
+import type { QuoteRefreshStatus } from "../../../utils/marketData";
 
 export interface CMPCellProps {
   value: number;
   isAutoFetched?: boolean;
+  /** Scheduler status of the trade's symbol - drives the "last updated" indicator */
+  refreshStatus?: QuoteRefreshStatus;
   onSave: (value: number) => void;
 }
 
@@ -18,12 +22,14 @@ export interface CMPCellProps {
  * Features:
  * - Price input with currency formatting
  * - Auto-fetch indicator (robot icon)
+ * - Last refresh time, and the error when the latest refresh failed
  * - Manual override capability
  * - Keyboard navigation support
  */
 export const CMPCell: React.FC<CMPCellProps> = React.memo(function CMPCell({
   value,
   isAutoFetched = false,
+  refreshStatus,
   onSave
 }) {
   const [isEditing, setIsEditing] = React.useState(false);
@@ -71,6 +77,12 @@ export const CMPCell: React.FC<CMPCellProps> = React.memo(function CMPCell({
     }
   };
 
+  const lastUpdatedLabel = refreshStatus?.lastUpdated
+    ? formatDistanceToNowStrict(new Date(refreshStatus.lastUpdated), { addSuffix: true })
+    : null;
+  // Manual CMPs are never refreshed, so their status doesn't apply
+  const showRefreshStatus = isAutoFetched !== false && (lastUpdatedLabel || refreshStatus?.error);
+
   // Helper function for currency formatting
   const formatCurrency = (val: number) => {
     if (val === 0) return '0';
@@ -126,6 +138,12 @@ export const CMPCell: React.FC<CMPCellProps> = React.memo(function CMPCell({
                       : "Click to enter manually"
                   }
                 </div>
+                {showRefreshStatus && lastUpdatedLabel && (
+                  <div className="text-default-400">Updated {lastUpdatedLabel}</div>
+                )}
+                {showRefreshStatus && refreshStatus?.error && (
+                  <div className="text-danger">Last refresh failed: {refreshStatus.error}</div>
+                )}
               </div>
             }
             placement="top"
@@ -159,6 +177,14 @@ export const CMPCell: React.FC<CMPCellProps> = React.memo(function CMPCell({
                   className="w-3 h-3 text-success opacity-60"
                 />
               )}
+              {showRefreshStatus && (
+                <span
+                  className={`text-[10px] ${refreshStatus?.error ? 'text-danger' : 'text-default-400'}`}
+                  aria-label={refreshStatus?.error ? 'Last refresh failed' : `Updated ${lastUpdatedLabel}`}
+                >
+                  {refreshStatus?.error ? <Icon icon="lucide:alert-circle" className="w-3 h-3" /> : lastUpdatedLabel}
+                </span>
+              )}
             </div>
           </Tooltip>
         )}
@@ -1,7 +1,8 @@
 import React from 'react';
 import { Dropdown, DropdownTrigger, DropdownMenu, DropdownItem, Button } from "@heroui/react";
 import { Icon } from "@iconify/react";
-import { SupabaseService } from "../../../services/supabaseService";
+import { clearOptionFromTrades } from "../../../services/tradeService";
+import { StorageService } from "../../../services/storageBackend";
 
 export interface ExitTriggerCellProps {
   value: string;
@@ -28,81 +29,12 @@ const EXIT_TRIGGER_LOCAL_KEY = 'custom_exit_trigger_options';
 // Helper functions
 async function saveMiscData(key: string, value: any): Promise<boolean> {
   try {
-    return await SupabaseService.saveMiscData(`misc_${key}`, value);
+    return await StorageService.backend.misc.save(`misc_${key}`, value);
   } catch (error) {
     return false;
   }
 }
 
-// Clear option from all trades function
-async function clearOptionFromAllTrades(field: string, optionToDelete: string): Promise<void> {
-  try {
-    // Get all trades from Supabase
-    const { data: trades, error } = await SupabaseService.supabase
-      .from('trades')
-      .select('*');
-
-    if (error) {
-      console.error('Error fetching trades for cleanup:', error);
-      return;
-    }
-
-    if (!trades || trades.length === 0) {
-      return;
-    }
-
-    // Find trades that have the option to be deleted
-    const tradesToUpdate = trades.filter(trade => {
-      const fieldValue = trade[field];
-      if (!fieldValue) return false;
-
-      // Handle both single values and comma-separated values
-      if (typeof fieldValue === 'string') {
-        if (fieldValue === optionToDelete) return true;
-        if (fieldValue.includes(', ')) {
-          return fieldValue.split(', ').includes(optionToDelete);
-        }
-      }
-      return false;
-    });
-
-    if (tradesToUpdate.length === 0) {
-      return;
-    }
-
-    // Update each trade to remove the deleted option
-    const updatePromises = tradesToUpdate.map(async (trade) => {
-      const fieldValue = trade[field];
-      let newValue = '';
-
-      if (fieldValue === optionToDelete) {
-        // If the field only contains the deleted option, clear it
-        newValue = '';
-      } else if (fieldValue.includes(', ')) {
-        // If it's a comma-separated list, remove the option
-        const values = fieldValue.split(', ').filter((v: string) => v !== optionToDelete);
-        newValue = values.join(', ');
-      }
-
-      // Update the trade in Supabase
-      const { error: updateError } = await SupabaseService.supabase
-        .from('trades')
-        .update({ [field]: newValue })
-        .eq('id', trade.id);
-
-      if (updateError) {
-        console.error(`Error updating trade ${trade.id}:`, updateError);
-      }
-    });
-
-    await Promise.all(updatePromises);
-
-    console.log(`Successfully cleared "${optionToDelete}" from ${tradesToUpdate.length} trades`);
-  } catch (error) {
-    console.error('Error in clearOptionFromAllTrades:', error);
-  }
-}
-
 /**
  * ExitTriggerCell - Exit trigger dropdown cell with custom options (extracted from original)
  *
@@ -146,19 +78,16 @@ export const ExitTriggerCell: React.FC<ExitTriggerCellProps> = React.memo(functi
 
     try {
       // Get current active preferences
-      const currentActiveOptions = await SupabaseService.getMiscData('active_exit_trigger_options');
+      const currentActiveOptions = await StorageService.backend.misc.get('active_exit_trigger_options');
 
       if (currentActiveOptions && Array.isArray(currentActiveOptions)) {
         // Add to active preferences and save
         const updatedActiveOptions = [...currentActiveOptions, trimmedValue];
-        await SupabaseService.setMiscData('active_exit_trigger_options', updatedActiveOptions);
+        await StorageService.backend.misc.save('active_exit_trigger_options', updatedActiveOptions);
 
         // Update local state to match
         setAvailableDefaultOptions(updatedActiveOptions);
         setCustomOptions([]);
-
-        // Notify other components to refresh
-        window.dispatchEvent(new CustomEvent('tagPreferencesUpdated'));
       } else {
         // Legacy fallback
         const newCustomOptions = [...customOptions, trimmedValue];
@@ -180,22 +109,19 @@ export const ExitTriggerCell: React.FC<ExitTriggerCellProps> = React.memo(functi
     if (window.confirm(confirmMessage)) {
       try {
         // Get current active preferences
-        const currentActiveOptions = await SupabaseService.getMiscData('active_exit_trigger_options');
+        const currentActiveOptions = await StorageService.backend.misc.get('active_exit_trigger_options');
 
         if (currentActiveOptions && Array.isArray(currentActiveOptions)) {
           // Remove from active preferences and save
           const updatedActiveOptions = currentActiveOptions.filter(o => o !== optionToDelete);
-          await SupabaseService.setMiscData('active_exit_trigger_options', updatedActiveOptions);
+          await StorageService.backend.misc.save('active_exit_trigger_options', updatedActiveOptions);
 
           // Update local state to match
           setAvailableDefaultOptions(updatedActiveOptions);
           setCustomOptions([]);
 
           // GLOBAL CLEANUP: Clear this option from ALL trades
-          await clearOptionFromAllTrades('exitTrigger', optionToDelete);
-
-          // Notify other components to refresh
-          window.dispatchEvent(new CustomEvent('tagPreferencesUpdated'));
+          await clearOptionFromTrades('exitTrigger', optionToDelete);
         } else {
           // Legacy fallback
           const isDefaultOption = EXIT_TRIGGER_OPTIONS.includes(optionToDelete);
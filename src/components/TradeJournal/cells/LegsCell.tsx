@@ -0,0 +1,137 @@
+import React from 'react';
+import { Input, Button, Popover, PopoverTrigger, PopoverContent, useDisclosure } from "@heroui/react";
+import { Icon } from "@iconify/react";
+import { TradeLeg } from "../../../types/trade";
+import { createTradeLeg, getEntryAction, getExitAction, sortLegs } from "../../../lib/calculations";
+
+export interface LegsCellProps {
+  legs: TradeLeg[];
+  buySell: 'Buy' | 'Sell';
+  tradeDate: string;
+  onSave: (legs: TradeLeg[]) => void;
+}
+
+/**
+ * LegsCell - Popover editor for every entry/exit fill of a trade
+ *
+ * Features:
+ * - Unlimited entry and exit legs (no P2/E3 ceiling)
+ * - Add, edit and remove fills in one place
+ * - Legs are saved sorted by date; the legacy slot columns follow automatically
+ */
+export const LegsCell: React.FC<LegsCellProps> = React.memo(function LegsCell({ legs, buySell, tradeDate, onSave }) {
+  const {isOpen, onOpenChange, onClose, onOpen} = useDisclosure();
+  const [editLegs, setEditLegs] = React.useState<TradeLeg[]>(legs);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setEditLegs(legs);
+    }
+  }, [isOpen, legs]);
+
+  const entryAction = getEntryAction(buySell);
+  const entryCount = legs.filter(leg => leg.action === entryAction).length;
+  const exitCount = legs.length - entryCount;
+
+  const updateLeg = (id: string, changes: Partial<TradeLeg>) => {
+    setEditLegs(prev => prev.map(leg => leg.id === id ? { ...leg, ...changes } : leg));
+  };
+
+  const addLeg = (action: TradeLeg['action']) => {
+    const lastDate = editLegs.length > 0 ? editLegs[editLegs.length - 1].date : tradeDate;
+    setEditLegs(prev => [...prev, createTradeLeg(action, lastDate || tradeDate, 0, 0)]);
+  };
+
+  const removeLeg = (id: string) => {
+    setEditLegs(prev => prev.filter(leg => leg.id !== id));
+  };
+
+  const handleSave = () => {
+    onSave(sortLegs(editLegs.filter(leg => leg.price > 0 && leg.qty > 0)));
+    onClose();
+  };
+
+  const handleCancel = () => {
+    setEditLegs(legs);
+    onClose();
+  };
+
+  return (
+    <Popover placement="bottom-start" isOpen={isOpen} onOpenChange={onOpenChange}>
+      <PopoverTrigger>
+        <div
+          onClick={onOpen}
+          className="px-2 py-1 text-sm rounded-md cursor-pointer hover:bg-default-100 dark:hover:bg-default-900/40 transition-colors whitespace-nowrap"
+        >
+          {legs.length > 0 ? (
+            <span>{entryCount} in / {exitCount} out</span>
+          ) : (
+            <span className="text-default-500">Add fills...</span>
+          )}
+        </div>
+      </PopoverTrigger>
+      <PopoverContent className="p-0">
+        <div className="w-[460px] p-4">
+          <h4 className="font-bold text-lg mb-3">Entries & Exits</h4>
+          <div className="flex flex-col gap-2 max-h-[320px] overflow-y-auto">
+            {editLegs.length === 0 && (
+              <span className="text-default-500 text-sm">No fills recorded yet</span>
+            )}
+            {editLegs.map(leg => (
+              <div key={leg.id} className="flex items-center gap-2">
+                <span className={`w-10 text-xs font-medium ${leg.action === entryAction ? 'text-success' : 'text-danger'}`}>
+                  {leg.action}
+                </span>
+                <Input
+                  size="sm"
+                  type="date"
+                  aria-label="Date"
+                  value={leg.date ? leg.date.slice(0, 10) : ''}
+                  onValueChange={value => updateLeg(leg.id, { date: value })}
+                  className="w-[140px]"
+                />
+                <Input
+                  size="sm"
+                  type="number"
+                  aria-label="Price"
+                  placeholder="Price"
+                  value={leg.price ? String(leg.price) : ''}
+                  onValueChange={value => updateLeg(leg.id, { price: Number(value) || 0 })}
+                />
+                <Input
+                  size="sm"
+                  type="number"
+                  aria-label="Qty"
+                  placeholder="Qty"
+                  value={leg.qty ? String(leg.qty) : ''}
+                  onValueChange={value => updateLeg(leg.id, { qty: Number(value) || 0 })}
+                />
+                <Button isIconOnly size="sm" variant="light" color="danger" onPress={() => removeLeg(leg.id)}>
+                  <Icon icon="lucide:trash-2" className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between items-center gap-2 mt-4">
+            <div className="flex gap-2">
+              <Button size="sm" variant="flat" color="success" onPress={() => addLeg(entryAction)}>
+                Add {entryAction}
+              </Button>
+              <Button size="sm" variant="flat" color="danger" onPress={() => addLeg(getExitAction(buySell))}>
+                Add {getExitAction(buySell)}
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="flat" onPress={handleCancel}>
+                Cancel
+              </Button>
+              <Button size="sm" color="primary" onPress={handleSave}>
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+});
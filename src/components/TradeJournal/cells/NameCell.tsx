@@ -1,14 +1,12 @@
 import React from 'react';
 import { createPortal } from 'react-dom';
+import { loadSecurityMaster } from '../../../utils/securityMaster';
 
 export interface NameCellProps {
   value: string;
   onSave: (value: string) => void;
 }
 
-// CSV URL for stock names
-const csvUrl = '/name_sector_industry.csv';
-
 /**
  * NameCell - Stock name cell with autocomplete functionality (extracted from original)
  *
@@ -16,7 +14,7 @@ const csvUrl = '/name_sector_industry.csv';
  * to ensure 100% compatibility and functionality preservation.
  *
  * Features:
- * - Autocomplete with stock names from CSV
+ * - Autocomplete with symbols from the security master
  * - Fuzzy matching and suggestions
  * - Keyboard navigation (Arrow keys, Enter, Escape, Tab)
  * - Click outside to close
@@ -41,19 +39,9 @@ export const NameCell: React.FC<NameCellProps> = React.memo(function NameCell({
   // Move stockNames state and effect here
   const [stockNames, setStockNames] = React.useState<string[]>([]);
   React.useEffect(() => {
-    async function loadStockNames() {
-      const response = await fetch(csvUrl);
-      const csvText = await response.text();
-      const Papa = (await import('papaparse')).default;
-      Papa.parse(csvText, {
-        header: true,
-        complete: (results) => {
-          const names = (results.data as any[]).map(row => row['Stock Name']).filter(Boolean);
-          setStockNames(names);
-        }
-      });
-    }
-    loadStockNames();
+    loadSecurityMaster()
+      .then(master => setStockNames(master.getSymbols()))
+      .catch(() => setStockNames([]));
   }, []);
 
   // Function to find closest matching stock name
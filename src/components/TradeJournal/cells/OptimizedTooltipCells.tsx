@@ -9,7 +9,9 @@ import {
   formatPercentage,
   formatStockMove,
   formatHoldingDays,
-  formatPrice
+  formatPrice,
+  getEntryLegs,
+  getExitLegs
 } from "../../../lib/calculations";
 
 interface OptimizedTooltipCellProps {
@@ -45,11 +47,7 @@ export const RewardRiskCell = React.memo<{ trade: Trade; formatCellValue: (value
     const cmp = Number(trade.cmp) || 0;
     const avgExit = Number(trade.avgExitPrice) || 0;
 
-    const entryExitAllocations = [
-      { label: 'Initial Entry', price: Number(trade.entry), qty: Number(trade.initialQty) },
-      { label: 'Pyramid 1', price: Number(trade.pyramid1Price), qty: Number(trade.pyramid1Qty) },
-      { label: 'Pyramid 2', price: Number(trade.pyramid2Price), qty: Number(trade.pyramid2Qty) }
-    ].filter(e => e.price > 0 && e.qty > 0);
+    const entryExitAllocations = getEntryLegs(trade);
 
     const entryBreakdown = entryExitAllocations.map(e => {
       let stop;
@@ -157,17 +155,13 @@ export const HoldingDaysCell = React.memo<{ trade: Trade; formatCellValue: (valu
     const isOpenPosition = trade.positionStatus === 'Open';
     const isPartialPosition = trade.positionStatus === 'Partial';
     
-    const entryLots = [
-      { label: 'Initial Entry', date: trade.date, qty: Number(trade.initialQty) },
-      { label: 'Pyramid 1', date: trade.pyramid1Date, qty: Number(trade.pyramid1Qty) },
-      { label: 'Pyramid 2', date: trade.pyramid2Date, qty: Number(trade.pyramid2Qty) }
-    ].filter(e => e.date && e.qty > 0);
+    const entryLots = getEntryLegs(trade)
+      .filter(e => e.date)
+      .map(e => ({ label: e.label, date: e.date, qty: e.qty }));
 
-    const exitLots = [
-      { date: trade.exit1Date, qty: Number(trade.exit1Qty) },
-      { date: trade.exit2Date, qty: Number(trade.exit2Qty) },
-      { date: trade.exit3Date, qty: Number(trade.exit3Qty) }
-    ].filter(e => e.date && e.qty > 0);
+    const exitLots = getExitLegs(trade)
+      .filter(e => e.date)
+      .map(e => ({ date: e.date, qty: e.qty }));
 
     let remainingExits = exitLots.map(e => ({ ...e }));
     const today = new Date();
@@ -273,11 +267,8 @@ export const StockMoveCell = React.memo<{ trade: Trade; formatCellValue: (value:
   const tooltipContent = useMemo(() => {
     if (!isTooltipOpen) return null;
     
-    const stockMoveEntries = [
-      { description: 'Initial Entry', price: Number(trade.entry), qty: Number(trade.initialQty) },
-      { description: 'Pyramid 1', price: Number(trade.pyramid1Price), qty: Number(trade.pyramid1Qty) },
-      { description: 'Pyramid 2', price: Number(trade.pyramid2Price), qty: Number(trade.pyramid2Qty) }
-    ].filter(e => e.price > 0 && e.qty > 0);
+    const stockMoveEntries = getEntryLegs(trade)
+      .map(e => ({ description: e.label, price: e.price, qty: e.qty }));
 
     const individualMoves = calcIndividualMoves(
       stockMoveEntries,
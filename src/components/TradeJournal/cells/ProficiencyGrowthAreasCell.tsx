@@ -1,7 +1,8 @@
 import React from 'react';
 import { Dropdown, DropdownTrigger, DropdownMenu, DropdownItem, Button } from "@heroui/react";
 import { Icon } from "@iconify/react";
-import { SupabaseService } from "../../../services/supabaseService";
+import { clearOptionFromTrades } from "../../../services/tradeService";
+import { StorageService } from "../../../services/storageBackend";
 
 export interface ProficiencyGrowthAreasCellProps {
   value: string;
@@ -34,81 +35,12 @@ const GROWTH_AREAS_LOCAL_KEY = 'custom_growth_areas_options';
 // Helper functions for backward compatibility
 async function saveMiscData(key: string, value: any): Promise<boolean> {
   try {
-    return await SupabaseService.saveMiscData(`misc_${key}`, value);
+    return await StorageService.backend.misc.save(`misc_${key}`, value);
   } catch (error) {
     return false;
   }
 }
 
-// Clear option from all trades function
-async function clearOptionFromAllTrades(field: string, optionToDelete: string): Promise<void> {
-  try {
-    // Get all trades from Supabase
-    const { data: trades, error } = await SupabaseService.supabase
-      .from('trades')
-      .select('*');
-
-    if (error) {
-      console.error('Error fetching trades for cleanup:', error);
-      return;
-    }
-
-    if (!trades || trades.length === 0) {
-      return;
-    }
-
-    // Find trades that have the option to be deleted
-    const tradesToUpdate = trades.filter(trade => {
-      const fieldValue = trade[field];
-      if (!fieldValue) return false;
-
-      // Handle both single values and comma-separated values
-      if (typeof fieldValue === 'string') {
-        if (fieldValue === optionToDelete) return true;
-        if (fieldValue.includes(', ')) {
-          return fieldValue.split(', ').includes(optionToDelete);
-        }
-      }
-      return false;
-    });
-
-    if (tradesToUpdate.length === 0) {
-      return;
-    }
-
-    // Update each trade to remove the deleted option
-    const updatePromises = tradesToUpdate.map(async (trade) => {
-      const fieldValue = trade[field];
-      let newValue = '';
-
-      if (fieldValue === optionToDelete) {
-        // If the field only contains the deleted option, clear it
-        newValue = '';
-      } else if (fieldValue.includes(', ')) {
-        // If it's a comma-separated list, remove the option
-        const values = fieldValue.split(', ').filter((v: string) => v !== optionToDelete);
-        newValue = values.join(', ');
-      }
-
-      // Update the trade in Supabase
-      const { error: updateError } = await SupabaseService.supabase
-        .from('trades')
-        .update({ [field]: newValue })
-        .eq('id', trade.id);
-
-      if (updateError) {
-        console.error(`Error updating trade ${trade.id}:`, updateError);
-      }
-    });
-
-    await Promise.all(updatePromises);
-
-    console.log(`Successfully cleared "${optionToDelete}" from ${tradesToUpdate.length} trades`);
-  } catch (error) {
-    console.error('Error in clearOptionFromAllTrades:', error);
-  }
-}
-
 /**
  * ProficiencyGrowthAreasCell - Growth areas dropdown cell with custom options (extracted from original)
  *
@@ -160,19 +92,16 @@ export const ProficiencyGrowthAreasCell: React.FC<ProficiencyGrowthAreasCellProp
 
     try {
       // Get current active preferences
-      const currentActiveOptions = await SupabaseService.getMiscData('active_growth_areas_options');
+      const currentActiveOptions = await StorageService.backend.misc.get('active_growth_areas_options');
 
       if (currentActiveOptions && Array.isArray(currentActiveOptions)) {
         // Add to active preferences and save
         const updatedActiveOptions = [...currentActiveOptions, trimmedValue];
-        await SupabaseService.setMiscData('active_growth_areas_options', updatedActiveOptions);
+        await StorageService.backend.misc.save('active_growth_areas_options', updatedActiveOptions);
 
         // Update local state to match
         setAvailableDefaultOptions(updatedActiveOptions);
         setCustomOptions([]);
-
-        // Notify other components to refresh
-        window.dispatchEvent(new CustomEvent('tagPreferencesUpdated'));
       } else {
         // Legacy fallback
         const newCustomOptions = [...customOptions, trimmedValue];
@@ -196,22 +125,19 @@ export const ProficiencyGrowthAreasCell: React.FC<ProficiencyGrowthAreasCellProp
     if (window.confirm(confirmMessage)) {
       try {
         // Get current active preferences
-        const currentActiveOptions = await SupabaseService.getMiscData('active_growth_areas_options');
+        const currentActiveOptions = await StorageService.backend.misc.get('active_growth_areas_options');
 
         if (currentActiveOptions && Array.isArray(currentActiveOptions)) {
           // Remove from active preferences and save
           const updatedActiveOptions = currentActiveOptions.filter(o => o !== optionToDelete);
-          await SupabaseService.setMiscData('active_growth_areas_options', updatedActiveOptions);
+          await StorageService.backend.misc.save('active_growth_areas_options', updatedActiveOptions);
 
           // Update local state to match
           setAvailableDefaultOptions(updatedActiveOptions);
           setCustomOptions([]);
 
           // GLOBAL CLEANUP: Clear this option from ALL trades
-          await clearOptionFromAllTrades('proficiencyGrowthAreas', optionToDelete);
-
-          // Notify other components to refresh
-          window.dispatchEvent(new CustomEvent('tagPreferencesUpdated'));
+          await clearOptionFromTrades('proficiencyGrowthAreas', optionToDelete);
         } else {
           // Legacy fallback
           const isDefaultOption = GROWTH_AREAS_OPTIONS.includes(optionToDelete);
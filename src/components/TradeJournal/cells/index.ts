@@ -29,6 +29,7 @@ export { ProficiencyGrowthAreasCell } from './ProficiencyGrowthAreasCell';
 // Special purpose cells
 export { CMPCell } from './CMPCell';
 export { StockCell } from './StockCell';
+export { LegsCell } from './LegsCell';
 
 // Type exports for external usage
 export type { EditableCellProps } from './EditableCell';
@@ -42,3 +43,4 @@ export type { ExitTriggerCellProps } from './ExitTriggerCell';
 export type { ProficiencyGrowthAreasCellProps } from './ProficiencyGrowthAreasCell';
 export type { CMPCellProps } from './CMPCell';
 export type { StockCellProps } from './StockCell';
+export type { LegsCellProps } from './LegsCell';
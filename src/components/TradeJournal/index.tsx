@@ -10,7 +10,7 @@ import clsx from "clsx";
 import { format } from 'date-fns';
 
 import { isRiskyPosition } from "../../lib/calculations";
-import { fetchPriceTicks, fetchPriceTicksWithFallback, fetchPriceTicksWithHistoricalFallback, fetchPriceTicksSmart } from '../../utils/priceTickApi';
+import { getMarketDataProvider } from '../../utils/marketData';
 import { calculateTradePL } from "../../utils/accountingUtils";
 import { getFromSupabase, setToSupabase } from "../../utils/helpers";
 import { formatCurrency as standardFormatCurrency, formatDate as standardFormatDate } from "../../utils/formatters";
@@ -23,12 +23,14 @@ import { useTrades, SortDescriptor } from "../../hooks/use-trades";
 import { useTruePortfolioWithTrades } from "../../hooks/use-true-portfolio-with-trades";
 import { useAccountingMethod } from "../../context/AccountingMethodContext";
 import { useAccountingCalculations } from "../../hooks/use-accounting-calculations";
+import { useQuoteRefresh } from "../../hooks/use-quote-refresh";
 import { usePortfolioCalculations } from "../../hooks/calculations/usePortfolioCalculations";
 
 
 // Import calculation functions from original
 import {
   calcSLPercent,
+  calcCapitalAtWork,
   calcHoldingDays,
   calcUnrealizedPL,
   calcRealizedPL_FIFO,
@@ -49,7 +51,13 @@ import {
   formatPrice,
   getPLColorClass,
   getPercentageColorClass,
-  safeCalculation
+  safeCalculation,
+  getEntryLegs,
+  getExitLegs,
+  getTradeLegs,
+  withSyncedLegs,
+  LEGACY_LEG_FIELDS,
+  formatLegsForExport
 } from "../../lib/calculations";
 
 // Import extracted components
@@ -69,6 +77,8 @@ import { UniversalChartViewer } from "../UniversalChartViewer";
 import { TradeModal } from "../trade-modal";
 import { DeleteConfirmModal } from "../delete-confirm-modal";
 import { TradeUploadModal } from "../TradeUploadModal";
+import { HoldingsReconciliationModal } from "../HoldingsReconciliationModal";
+import { CorporateActionsModal } from "../CorporateActionsModal";
 
 
 // Import types
@@ -79,11 +89,11 @@ import * as XLSX from 'xlsx';
 import Papa from 'papaparse';
 
 // Supabase helpers for misc data (from original)
-import { SupabaseService } from '../../services/supabaseService';
+import { StorageService } from '../../services/storageBackend';
 
 async function fetchMiscData(key: string) {
   try {
-    return await SupabaseService.getMiscData(`misc_${key}`);
+    return await StorageService.backend.misc.get(`misc_${key}`);
   } catch (error) {
     return null;
   }
@@ -91,7 +101,7 @@ async function fetchMiscData(key: string) {
 
 async function saveMiscData(key: string, value: any): Promise<boolean> {
   try {
-    return await SupabaseService.saveMiscData(`misc_${key}`, value);
+    return await StorageService.backend.misc.save(`misc_${key}`, value);
   } catch (error) {
     return false;
   }
@@ -150,6 +160,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
   const {
     trades,
     originalTrades,
+    allAccountTrades,
     addTrade,
     updateTrade,
     deleteTrade,
@@ -232,6 +243,8 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
   const { isOpen: isTradeModalOpen, onOpen: onTradeModalOpen, onClose: onTradeModalClose } = useDisclosure();
   const { isOpen: isDeleteModalOpen, onOpen: onDeleteModalOpen, onClose: onDeleteModalClose } = useDisclosure();
   const { isOpen: isUploadModalOpen, onOpen: onUploadModalOpen, onClose: onUploadModalClose } = useDisclosure();
+  const { isOpen: isHoldingsModalOpen, onOpen: onHoldingsModalOpen, onClose: onHoldingsModalClose } = useDisclosure();
+  const { isOpen: isCorporateActionsOpen, onOpen: onCorporateActionsOpen, onClose: onCorporateActionsClose } = useDisclosure();
 
 
   const [selectedTrade, setSelectedTrade] = useState<Trade | null>(null);
@@ -276,6 +289,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
     { key: "exit3Price", label: getColumnLabel("exit3Price"), sortable: true, editable: true },
     { key: "exit3Qty", label: getColumnLabel("exit3Qty"), sortable: true, editable: true },
     { key: "exit3Date", label: getColumnLabel("exit3Date"), sortable: true, editable: true },
+    { key: "legs", label: getColumnLabel("legs"), sortable: false, editable: true },
     { key: "openQty", label: getColumnLabel("openQty"), sortable: true, editable: false },
     { key: "exitedQty", label: getColumnLabel("exitedQty"), sortable: true, editable: false },
     { key: "avgExitPrice", label: getColumnLabel("avgExitPrice"), sortable: true, editable: false },
@@ -286,6 +300,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
     { key: "positionStatus", label: getColumnLabel("positionStatus"), sortable: true, editable: true },
     { key: "realisedAmount", label: getColumnLabel("realisedAmount"), sortable: true, editable: false },
     { key: "plRs", label: getColumnLabel("plRs"), sortable: true, editable: false },
+    { key: "netPlRs", label: getColumnLabel("netPlRs"), sortable: true, editable: false },
     { key: "pfImpact", label: getColumnLabel("pfImpact"), sortable: true, editable: false },
     { key: "cummPf", label: getColumnLabel("cummPf"), sortable: true, editable: false },
     { key: "planFollowed", label: getColumnLabel("planFollowed"), sortable: true, editable: true },
@@ -307,7 +322,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
     // Calculated fields
     'avgEntry', 'positionSize', 'allocation', 'openQty', 'exitedQty',
     'avgExitPrice', 'stockMove', 'slPercent', 'openHeat', 'rewardRisk',
-    'holdingDays', 'realisedAmount', 'plRs', 'pfImpact', 'cummPf'
+    'holdingDays', 'realisedAmount', 'plRs', 'netPlRs', 'pfImpact', 'cummPf'
     // 'cmp' REMOVED to allow manual editing when auto-fetch fails
     // 'initialQty' REMOVED to allow inline editing
   ];
@@ -396,11 +411,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
     tradesToCalculate.forEach(trade => {
       try {
         // Manual calculation without hooks to avoid Rules of Hooks violations
-        const entries = [
-          { price: trade.entry || 0, qty: trade.initialQty || 0 },
-          ...(trade.pyramid1Price && trade.pyramid1Qty ? [{ price: trade.pyramid1Price, qty: trade.pyramid1Qty }] : []),
-          ...(trade.pyramid2Price && trade.pyramid2Qty ? [{ price: trade.pyramid2Price, qty: trade.pyramid2Qty }] : [])
-        ].filter(e => e.price > 0 && e.qty > 0);
+        const entries = getEntryLegs(trade).map(e => ({ price: e.price, qty: e.qty }));
 
         if (entries.length > 0) {
           const avgEntry = calcAvgEntry(entries);
@@ -422,16 +433,11 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
             }
           }
 
-          const allocation = calcAllocation(positionSize, effectivePortfolioSize);
-          const slPercent = calcSLPercent(trade.sl || trade.tsl || 0, avgEntry);
-          const exitedQty = calcExitedQty(trade.exit1Qty || 0, trade.exit2Qty || 0, trade.exit3Qty || 0);
-          const openQty = calcOpenQty(trade.initialQty || 0, trade.pyramid1Qty || 0, trade.pyramid2Qty || 0, exitedQty);
-
-          const exits = [
-            ...(trade.exit1Price && trade.exit1Qty ? [{ price: trade.exit1Price, qty: trade.exit1Qty }] : []),
-            ...(trade.exit2Price && trade.exit2Qty ? [{ price: trade.exit2Price, qty: trade.exit2Qty }] : []),
-            ...(trade.exit3Price && trade.exit3Qty ? [{ price: trade.exit3Price, qty: trade.exit3Qty }] : [])
-          ].filter(e => e.price > 0 && e.qty > 0);
+          const allocation = calcAllocation(calcCapitalAtWork(trade, positionSize), effectivePortfolioSize);
+          const slPercent = calcSLPercent(trade.sl || trade.tsl || 0, avgEntry, trade.buySell);
+          const exits = getExitLegs(trade).map(e => ({ price: e.price, qty: e.qty }));
+          const exitedQty = calcExitedQty(...exits.map(e => e.qty));
+          const openQty = Math.max(0, totalQty - exitedQty);
 
           const avgExitPrice = exits.length > 0 ? calcAvgExitPrice(exits) : 0;
           const unrealizedPL = calcUnrealizedPL(avgEntry, trade.cmp || 0, openQty, trade.buySell as 'Buy' | 'Sell');
@@ -493,7 +499,8 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       // For cash basis accounting, use the exit date's portfolio size if available
       if (useCashBasis && exitedQty > 0) {
         // Use the latest exit date for portfolio size calculation
-        const exitDates = [trade.exit1Date, trade.exit2Date, trade.exit3Date]
+        const exitDates = getExitLegs(trade)
+          .map(exit => exit.date)
           .filter(date => date)
           .sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
 
@@ -539,17 +546,13 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       // Pre-compute holding days tooltip
       const isOpenPosition = trade.positionStatus === 'Open';
       const isPartialPosition = trade.positionStatus === 'Partial';
-      const entryLots = [
-        { label: 'Initial Entry', date: trade.date, qty: Number(trade.initialQty) },
-        { label: 'Pyramid 1', date: trade.pyramid1Date, qty: Number(trade.pyramid1Qty) },
-        { label: 'Pyramid 2', date: trade.pyramid2Date, qty: Number(trade.pyramid2Qty) }
-      ].filter(e => e.date && e.qty > 0);
-
-      const exitLots = [
-        { date: trade.exit1Date, qty: Number(trade.exit1Qty) },
-        { date: trade.exit2Date, qty: Number(trade.exit2Qty) },
-        { date: trade.exit3Date, qty: Number(trade.exit3Qty) }
-      ].filter(e => e.date && e.qty > 0);
+      const entryLots = getEntryLegs(trade)
+        .filter(e => e.date)
+        .map(e => ({ label: e.label, date: e.date, qty: e.qty }));
+
+      const exitLots = getExitLegs(trade)
+        .filter(e => e.date)
+        .map(e => ({ date: e.date, qty: e.qty }));
 
       let remainingExits = exitLots.map(e => ({ ...e }));
       const today = new Date();
@@ -635,20 +638,13 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       const cmp = Number(trade.cmp) || 0;
       const avgExit = Number(trade.avgExitPrice) || 0;
 
-      const entryExitAllocations = [
-        { label: 'Initial Entry', price: Number(trade.entry), qty: Number(trade.initialQty) },
-        { label: 'Pyramid 1', price: Number(trade.pyramid1Price), qty: Number(trade.pyramid1Qty) },
-        { label: 'Pyramid 2', price: Number(trade.pyramid2Price), qty: Number(trade.pyramid2Qty) }
-      ].filter(e => e.price > 0 && e.qty > 0);
+      const entryExitAllocations = getEntryLegs(trade)
+        .map(e => ({ label: e.label, price: e.price, qty: e.qty }));
 
       const totalQtyAll = entryExitAllocations.reduce((sum, e) => sum + e.qty, 0);
 
       // FIFO allocation for R:R calculation
-      const rrExits = [
-        { price: Number(trade.exit1Price), qty: Number(trade.exit1Qty) },
-        { price: Number(trade.exit2Price), qty: Number(trade.exit2Qty) },
-        { price: Number(trade.exit3Price), qty: Number(trade.exit3Qty) }
-      ].filter(e => e.price > 0 && e.qty > 0);
+      const rrExits = getExitLegs(trade).map(e => ({ price: e.price, qty: e.qty }));
 
       let rrRemainingExits = rrExits.map(e => ({ ...e }));
 
@@ -782,11 +778,8 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       };
 
       // Pre-compute stock move tooltip (EXACT COPY from original lines 1721-1735)
-      const stockMoveEntries = [
-        { description: 'Initial Entry', price: Number(trade.entry), qty: Number(trade.initialQty) },
-        { description: 'Pyramid 1', price: Number(trade.pyramid1Price), qty: Number(trade.pyramid1Qty) },
-        { description: 'Pyramid 2', price: Number(trade.pyramid2Price), qty: Number(trade.pyramid2Qty) }
-      ].filter(e => e.price > 0 && e.qty > 0);
+      const stockMoveEntries = getEntryLegs(trade)
+        .map(e => ({ description: e.label, price: e.price, qty: e.qty }));
 
       const tradeCalc = getTradeCalculation(trade.id);
       const individualMoves = tradeCalc ? tradeCalc.individualMoves : calcIndividualMoves(
@@ -819,7 +812,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
             'pyramid1Price', 'pyramid2Price', 'pyramid1Qty', 'pyramid2Qty',
             'exit1Price', 'exit2Price', 'exit3Price', 'exit1Qty', 'exit2Qty', 'exit3Qty',
             'tsl', 'rewardRisk', 'stockMove', 'pfImpact', 'cummPf', 'openHeat',
-            'unrealizedPL', 'realisedAmount', 'plRs'
+            'unrealizedPL', 'realisedAmount', 'plRs', 'netPlRs'
           ].includes(key)) return true;
 
           if (key.includes('Date') && (originalVal === '-' || originalVal === '')) return true;
@@ -840,6 +833,9 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
         } else if (col.key === 'plRs') {
           const tooltipValues = getAccountingAwareValues(trade);
           value = tooltipValues.plRs;
+        } else if (col.key === 'netPlRs') {
+          const tooltipValues = getAccountingAwareValues(trade);
+          value = tooltipValues.netPlRs;
         } else if (col.key === 'realisedAmount') {
           const tooltipValues = getAccountingAwareValues(trade);
           value = tooltipValues.realisedAmount;
@@ -854,7 +850,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
         // Format values appropriately
         if (["pyramid1Date", "pyramid2Date", "exit1Date", "exit2Date", "exit3Date"].includes(col.key)) {
           value = value ? formatDate(value as string) : "-";
-        } else if (["entry", "avgEntry", "sl", "tsl", "cmp", "pyramid1Price", "pyramid2Price", "exit1Price", "exit2Price", "exit3Price", "avgExitPrice", "realisedAmount", "plRs", "unrealizedPL"].includes(col.key)) {
+        } else if (["entry", "avgEntry", "sl", "tsl", "cmp", "pyramid1Price", "pyramid2Price", "exit1Price", "exit2Price", "exit3Price", "avgExitPrice", "realisedAmount", "plRs", "netPlRs", "unrealizedPL"].includes(col.key)) {
           value = typeof value === 'number' ? formatCurrency(value) : value;
         } else if (["pfImpact", "rewardRisk", "stockMove", "openHeat", "allocation", "slPercent"].includes(col.key)) {
           if (col.key !== 'pfImpact' && col.key !== 'cummPf') {
@@ -1287,104 +1283,9 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
     return value.replace(/[₹$€£¥0-9.,]/g, '*').replace(/\*+/g, '****');
   }, [isStatsMasked]);
 
-  // ===== PRICE FETCHING FOR OPEN TRADES (EXACT COPY from original lines 2790-2876) =====
-  // Memoize open trades to prevent unnecessary price fetching (use processed trades to include local updates)
-  const openTrades = React.useMemo(() => {
-    let filteredOpenTrades = processedTrades.filter(t => t.positionStatus === 'Open' || t.positionStatus === 'Partial');
-
-    // For cash basis, avoid double counting by using original trade IDs
-    if (useCashBasis) {
-      const seenTradeIds = new Set();
-      filteredOpenTrades = filteredOpenTrades.filter(t => {
-        const originalId = t.id.split('_exit_')[0];
-        if (seenTradeIds.has(originalId)) return false;
-        seenTradeIds.add(originalId);
-        return true;
-      });
-    }
-
-    return filteredOpenTrades;
-  }, [processedTrades, useCashBasis]);
-
-  // PERFORMANCE OPTIMIZATION: Batch price fetching with caching
-  const priceCache = React.useRef(new Map<string, { price: number, timestamp: number }>());
-  const PRICE_CACHE_DURATION = 60000; // 1 minute cache
-
-  const fetchPricesForOpenTrades = React.useCallback(async () => {
-    if (openTrades.length === 0) return;
-
-    // Batch trades by symbol to reduce API calls
-    const tradesBySymbol = new Map<string, Trade[]>();
-    const symbolsToFetch: string[] = [];
-
-    for (const trade of openTrades) {
-      if (trade.name) {
-        const symbol = trade.name.toUpperCase();
-
-        // Check cache first
-        const cached = priceCache.current.get(symbol);
-        if (cached && (Date.now() - cached.timestamp) < PRICE_CACHE_DURATION) {
-          // Use cached price
-          if (trade.cmp !== cached.price) {
-            updateTrade({ ...trade, cmp: cached.price, _cmpAutoFetched: true });
-          }
-          continue;
-        }
-
-        if (!tradesBySymbol.has(symbol)) {
-          tradesBySymbol.set(symbol, []);
-          symbolsToFetch.push(symbol);
-        }
-        tradesBySymbol.get(symbol)!.push(trade);
-      }
-    }
-
-    // Fetch prices in parallel batches for maximum speed
-    const batchSize = 5; // Limit concurrent requests
-    for (let i = 0; i < symbolsToFetch.length; i += batchSize) {
-      const batch = symbolsToFetch.slice(i, i + batchSize);
-
-      await Promise.allSettled(
-        batch.map(async (symbol) => {
-          try {
-            const priceData = await fetchPriceTicksSmart(symbol);
-            const ticks = priceData?.data?.ticks?.[symbol];
-
-            if (ticks && ticks.length > 0) {
-              const latestTick = ticks[ticks.length - 1];
-              const newPrice = latestTick[4];
-
-              // Cache the price
-              priceCache.current.set(symbol, {
-                price: newPrice,
-                timestamp: Date.now()
-              });
-
-              // Update all trades with this symbol
-              const tradesToUpdate = tradesBySymbol.get(symbol) || [];
-              for (const trade of tradesToUpdate) {
-                if (trade.cmp !== newPrice) {
-                  updateTrade({ ...trade, cmp: newPrice, _cmpAutoFetched: true });
-                }
-              }
-            }
-          } catch (err) {
-            // Continue with next symbol
-          }
-        })
-      );
-    }
-  }, [openTrades, updateTrade]);
-
-  useEffect(() => {
-    // Immediate fetch on mount or open trades change
-    fetchPricesForOpenTrades();
-
-    // CRITICAL FIX: Reduce polling frequency to prevent excessive API calls
-    // Continue polling every 2 minutes instead of 15 seconds
-    const interval = setInterval(fetchPricesForOpenTrades, 120000); // 2 minutes
-    return () => clearInterval(interval);
-  }, [openTrades.length]); // CRITICAL FIX: Depend on length only, not the function itself
+  // ===== PRICE FETCHING FOR OPEN TRADES =====
+  // Every open position in the account, not just the filtered rows; manually entered CMPs are left alone
+  const quoteStatus = useQuoteRefresh(originalTrades, updateTrade);
 
   // ===== ENTERPRISE-SCALE TABLE DATA CALCULATIONS =====
   // PERFORMANCE OPTIMIZATION: Efficient pagination with monitoring
@@ -1548,6 +1449,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       notes: '',
       _cmpAutoFetched: false, // Initialize as manual entry
       chartAttachments: undefined, // Initialize without chart attachments
+      legs: [], // Fills are added through the legs editor or the legacy slot columns
     };
 
     // Check if current page is full and auto-navigate to next page
@@ -1636,6 +1538,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       { key: "exit3Price", label: "E3 Price" },
       { key: "exit3Qty", label: "E3 Qty" },
       { key: "exit3Date", label: "E3 Date" },
+      { key: "legs", label: "Legs" }, // Every fill, including those beyond P2/E3
       { key: "openQty", label: "Open Qty" },
       { key: "exitedQty", label: "Exited Qty" },
       { key: "avgExitPrice", label: "Avg Exit Price" },
@@ -1645,6 +1548,8 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       { key: "positionStatus", label: "Position Status" },
       { key: "realisedAmount", label: "Realised Amount" },
       { key: "plRs", label: "P/L (Rs)" },
+      { key: "totalCharges", label: "Charges (Rs)" },
+      { key: "netPlRs", label: "Net P/L (Rs)" },
       { key: "pfImpact", label: "PF Impact" },
       { key: "cummPf", label: "Cumm PF" },
       { key: "planFollowed", label: "Plan Followed" },
@@ -1668,10 +1573,14 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
         // Use accounting-aware values for P/L fields
         if (header.key === 'plRs') {
           value = accountingValues.plRs;
+        } else if (header.key === 'netPlRs') {
+          value = accountingValues.netPlRs;
         } else if (header.key === 'realisedAmount') {
           value = accountingValues.realisedAmount;
         } else if (header.key === 'pfImpact') {
           value = accountingValues.pfImpact;
+        } else if (header.key === 'legs') {
+          value = formatLegsForExport(getTradeLegs(trade));
         }
 
         // Format dates for export
@@ -1717,6 +1626,20 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       const worksheet = XLSX.utils.json_to_sheet(dataToExport);
       const workbook = XLSX.utils.book_new();
       XLSX.utils.book_append_sheet(workbook, worksheet, "Trades");
+
+      // One row per fill so trades with many legs stay readable in Excel
+      const legRows = allTradesForExport.flatMap(trade =>
+        getTradeLegs(trade).map(leg => ({
+          "Trade No": trade.tradeNo,
+          "Name": trade.name,
+          "Action": leg.action,
+          "Date": leg.date,
+          "Price": leg.price,
+          "Qty": leg.qty,
+          "Fees": leg.fees || 0
+        }))
+      );
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(legRows), "Legs");
       XLSX.writeFile(workbook, `trade_journal_${dateStr}${accountingMethodSuffix}.xlsx`);
     }
   }, [trades, getAccountingAwareValues, useCashBasis]);
@@ -1832,7 +1755,14 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       }
 
       // Create updated trade with the new value
-      const updatedTrade = { ...tradeToUpdate, [field]: parsedValue };
+      let updatedTrade = { ...tradeToUpdate, [field]: parsedValue };
+
+      // Keep legs and the legacy pyramid/exit columns in agreement
+      if (field === 'legs') {
+        updatedTrade = withSyncedLegs(updatedTrade, parsedValue || []);
+      } else if (LEGACY_LEG_FIELDS.includes(field as string) || field === 'buySell') {
+        updatedTrade = withSyncedLegs(updatedTrade);
+      }
 
       // Track that this field has been manually edited by the user
       if (!updatedTrade._userEditedFields) {
@@ -1846,15 +1776,9 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       // If the field is 'name', fetch the latest price and update cmp (only if CMP is currently 0 or not manually set)
       if (field === 'name' && parsedValue) {
         try {
-          let priceData;
-
-          // Use smart fetch that prioritizes historical fallback during night hours (3:55-9:15 AM)
-          priceData = await fetchPriceTicksSmart(parsedValue);
-
-          const ticks = priceData?.data?.ticks?.[parsedValue.toUpperCase()];
-          if (ticks && ticks.length > 0) {
-            const latestTick = ticks[ticks.length - 1];
-            const fetchedPrice = latestTick[4]; // index 4 is close price
+          const quote = await (await getMarketDataProvider()).getQuote(parsedValue);
+          if (quote) {
+            const fetchedPrice = quote.price;
 
             // Only update CMP if it's currently 0 (not manually set) or if we successfully fetched a price
             if (tradeToUpdate.cmp === 0 || fetchedPrice > 0) {
@@ -1887,16 +1811,12 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
       const significantFields = [
         'entry', 'sl', 'tsl', 'initialQty', 'pyramid1Qty', 'pyramid2Qty',
         'exit1Price', 'exit2Price', 'exit3Price', 'exit1Qty', 'exit2Qty', 'exit3Qty',
-        'exit1Date', 'exit2Date', 'exit3Date', 'cmp', 'buySell', 'positionStatus'
+        'exit1Date', 'exit2Date', 'exit3Date', 'cmp', 'buySell', 'positionStatus', 'legs'
       ];
 
       if (significantFields.includes(field as string)) {
         // Recalculate all entry-related fields
-        const allEntries = [
-          { price: updatedTrade.entry, qty: updatedTrade.initialQty },
-          { price: updatedTrade.pyramid1Price, qty: updatedTrade.pyramid1Qty },
-          { price: updatedTrade.pyramid2Price, qty: updatedTrade.pyramid2Qty }
-        ].filter(e => e.price > 0 && e.qty > 0);
+        const allEntries = getEntryLegs(updatedTrade);
 
         // Calculate average entry
         const totalQty = allEntries.reduce((sum, e) => sum + e.qty, 0);
@@ -1904,11 +1824,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
         updatedTrade.avgEntry = totalQty > 0 ? totalValue / totalQty : updatedTrade.entry;
 
         // Recalculate all exit-related fields
-        const allExits = [
-          { price: updatedTrade.exit1Price, qty: updatedTrade.exit1Qty, date: updatedTrade.exit1Date },
-          { price: updatedTrade.exit2Price, qty: updatedTrade.exit2Qty, date: updatedTrade.exit2Date },
-          { price: updatedTrade.exit3Price, qty: updatedTrade.exit3Qty, date: updatedTrade.exit3Date }
-        ].filter(e => e.price > 0 && e.qty > 0 && e.date);
+        const allExits = getExitLegs(updatedTrade).filter(e => e.date);
 
         // Calculate exit quantities and averages
         const exitedQty = allExits.reduce((sum, e) => sum + e.qty, 0);
@@ -1983,7 +1899,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
         // Calculate SL percentage
         if (updatedTrade.sl > 0 && updatedTrade.avgEntry > 0) {
           updatedTrade.slPercent = safeCalculation(
-            () => calcSLPercent(updatedTrade.sl, updatedTrade.avgEntry),
+            () => calcSLPercent(updatedTrade.sl, updatedTrade.avgEntry, updatedTrade.buySell),
             0,
             'Failed to calculate SL percentage'
           );
@@ -2194,7 +2110,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
     // Format currency values with single rupee symbol
     if ([
       'entry', 'avgEntry', 'sl', 'tsl', 'cmp', 'pyramid1Price', 'pyramid2Price',
-      'exit1Price', 'exit2Price', 'exit3Price', 'avgExitPrice', 'realisedAmount', 'plRs'
+      'exit1Price', 'exit2Price', 'exit3Price', 'avgExitPrice', 'realisedAmount', 'plRs', 'netPlRs'
     ].includes(key)) {
       const numValue = Number(value);
       if (isNaN(numValue)) return '-';
@@ -2233,7 +2149,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
 
   // Add color to P/L values
   const getValueColor = (value: any, key: string) => {
-    if (key !== 'plRs') return '';
+    if (key !== 'plRs' && key !== 'netPlRs') return '';
     const numValue = Number(value);
     if (isNaN(numValue)) return '';
     return numValue < 0 ? 'text-danger' : numValue > 0 ? 'text-success' : '';
@@ -2336,6 +2252,8 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
         setVisibleColumns={(columns) => setVisibleColumns(Array.from(columns))}
         onAddTrade={handleAddTrade}
         onImportTrades={handleImportTrades}
+        onReconcileHoldings={onHoldingsModalOpen}
+        onCorporateActions={onCorporateActionsOpen}
         onExportCSV={handleExportCSV}
         onExportExcel={handleExportExcel}
         isStatsMasked={isStatsMasked}
@@ -2384,6 +2302,7 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
             isNotesWrapEnabled={isNotesWrapEnabled}
             onNotesWrapChange={setIsNotesWrapEnabled}
             onInlineEditSave={handleInlineEditSave}
+            quoteStatus={quoteStatus}
             onEditTrade={handleEditTrade}
             onDeleteTrade={handleDeleteTrade}
             onViewChart={handleChartImageView}
@@ -2430,6 +2349,24 @@ export const TradeJournal: React.FC<TradeJournalProps> = React.memo(function Tra
         isOpen={isUploadModalOpen}
         onOpenChange={onUploadModalClose}
         onImport={bulkImportTrades}
+        existingTrades={allAccountTrades}
+      />
+
+      <HoldingsReconciliationModal
+        isOpen={isHoldingsModalOpen}
+        onOpenChange={onHoldingsModalClose}
+        trades={originalTrades}
+        nextTradeNo={getNextTradeNumber()}
+        onSaveTrade={updateTrade}
+      />
+
+      <CorporateActionsModal
+        isOpen={isCorporateActionsOpen}
+        onOpenChange={onCorporateActionsClose}
+        trades={originalTrades}
+        nextTradeNo={getNextTradeNumber()}
+        onSaveTrade={updateTrade}
+        onDeleteTrade={deleteTrade}
       />
 
 
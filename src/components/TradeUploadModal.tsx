@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import {
   Modal,
   ModalContent,
@@ -11,41 +11,38 @@ import {
   CardHeader,
   Select,
   SelectItem,
-  Table,
-  TableHeader,
-  TableColumn,
-  TableBody,
-  TableRow,
-  TableCell,
   Progress,
   Chip,
   Divider,
   ScrollShadow,
+  Input,
   addToast
 } from "@heroui/react";
 import { Icon } from "@iconify/react";
 import { motion, AnimatePresence } from "framer-motion";
-import * as XLSX from 'xlsx'; // Excel support ONLY for Upstox format
-import Papa from 'papaparse';
-import { Trade } from "../types/trade";
+import { useQueryClient } from "@tanstack/react-query";
+import { Trade, ImportBatch, ImportBatchInput } from "../types/trade";
+import { DEFAULT_ACCOUNT_ID } from "../types/account";
+import { getAccountId } from "../utils/accounts";
 import { v4 as uuidv4 } from 'uuid';
 import {
-  calcAvgEntry,
-  calcPositionSize,
-  calcAllocation,
-  calcSLPercent,
-  calcOpenQty,
-  calcExitedQty,
-  calcAvgExitPrice,
-  calcStockMove,
-  calcRewardRisk,
-  calcHoldingDays,
-  calcRealisedAmount,
-  calcPFImpact,
-  calcRealizedPL_FIFO
+  withSyncedLegs,
+  parseLegsFromCell
 } from "../lib/calculations";
 // Import broker-specific utilities
-import { convertZerodhaToNexus, parseZerodhaData } from "../utils/zerodhaMapper";
+import {
+  getBrokerAdapters,
+  getBrokerAdapter,
+  getJournalExportFormats,
+  normalizeBrokerDate,
+  IMPORT_STAGE_LABELS,
+  BrokerAdapter,
+  BrokerSheet,
+  JournalExportFormat,
+  ImportPipelineResult,
+  ImportStage
+} from "../utils/brokers";
+import { useTradeImportWorker } from "../hooks/use-trade-import-worker";
 import {
   isZerodhaPnLStatement,
   parseZerodhaCharges,
@@ -53,8 +50,30 @@ import {
   ZerodhaChargesBreakdown
 } from "../utils/zerodhaChargesParser";
 import { updateChargesBreakdown } from "./tax-analytics";
-import { processDhanCSV } from "../utils/dhanMapper";
-import { processUpstoxExcel } from "../utils/upstoxMapper";
+import { useAccounts } from "../context/AccountContext";
+import { TRADES_QUERY_KEY } from "../hooks/use-trades";
+import { getImportBatches, rollbackImportBatch } from "../services/tradeService";
+import { TradeIssue } from "../utils/tradeValidations";
+import {
+  ImportPreviewRow,
+  ImportPortfolioSizes,
+  buildImportPortfolioSizes,
+  recalculateImportedTrade,
+  updateImportRow
+} from "../utils/importDiff";
+import { ImportPreviewTable } from "./ImportPreviewTable";
+import {
+  ImportProfile,
+  NumberFormat,
+  DEFAULT_NUMBER_FORMAT,
+  findMatchingProfile,
+  applyProfileMapping,
+  getHeaderSignature,
+  normalizeNumberCell,
+  getImportProfiles,
+  saveImportProfile,
+  deleteImportProfile
+} from "../utils/importProfiles";
 import {
   isUpstoxPnLStatement,
   parseUpstoxCharges,
@@ -65,7 +84,11 @@ import {
 interface TradeUploadModalProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  onImport: (trades: Trade[]) => void;
+  // `batch` records the import so it can be rolled back in one go
+  onImport: (trades: Trade[], batch?: ImportBatchInput) => void;
+  // Journal trades of every account - the preview is compared against, and broker tradebooks
+  // merged into, the ones in the account being imported into
+  existingTrades?: Trade[];
   portfolioSize?: number;
   getPortfolioSize?: (month: string, year: number) => number;
 }
@@ -74,6 +97,7 @@ interface ParsedData {
   headers: string[];
   rows: any[][];
   fileName: string;
+  sheetName?: string;
 }
 
 interface ColumnMapping {
@@ -110,6 +134,7 @@ const USER_INPUT_FIELDS = [
   { key: 'exit3Price', label: 'Exit 3 Price', required: false },
   { key: 'exit3Qty', label: 'Exit 3 Qty', required: false },
   { key: 'exit3Date', label: 'Exit 3 Date', required: false },
+  { key: 'legs', label: 'Legs (all fills)', required: false },
   { key: 'planFollowed', label: 'Plan Followed', required: false },
   { key: 'exitTrigger', label: 'Exit Trigger', required: false },
   { key: 'proficiencyGrowthAreas', label: 'Growth Areas', required: false },
@@ -217,10 +242,61 @@ const parseFlexibleDate = (value: any): string | null => {
   return null;
 };
 
+// Header row `offset` rows down the sheet, and the rows below it that hold anything
+const readSheetTable = (rows: any[][], offset: number): { headers: string[]; rows: any[][] } => {
+  const headers = (rows[offset] || [])
+    .filter(h => h && String(h).trim() !== '')
+    .map(h => String(h)
+      .replace(/\n/g, ' ') // Replace newlines with spaces
+      .replace(/\r/g, ' ') // Replace carriage returns with spaces
+      .replace(/\s+/g, ' ') // Replace multiple spaces with single space
+      .trim()
+    );
+  const dataRows = rows.slice(offset + 1).filter(row =>
+    // Keep row if it has at least one non-empty, non-whitespace cell
+    row.some(cell =>
+      cell !== null &&
+      cell !== undefined &&
+      String(cell).trim() !== '' &&
+      String(cell).toLowerCase() !== 'stock name'
+    )
+  );
+  return { headers, rows: dataRows };
+};
+
+const NUMBER_FORMAT_OPTIONS: { key: string; label: string; format: NumberFormat }[] = [
+  { key: 'en', label: '1,234.50', format: { decimalSeparator: '.', thousandsSeparator: ',' } },
+  { key: 'eu', label: '1.234,50', format: { decimalSeparator: ',', thousandsSeparator: '.' } },
+  { key: 'space', label: '1 234,50', format: { decimalSeparator: ',', thousandsSeparator: ' ' } },
+  { key: 'plain', label: '1234.50', format: { decimalSeparator: '.', thousandsSeparator: '' } }
+];
+
+const numberFormatKey = (format: NumberFormat) =>
+  NUMBER_FORMAT_OPTIONS.find(option =>
+    option.format.decimalSeparator === format.decimalSeparator &&
+    option.format.thousandsSeparator === format.thousandsSeparator
+  )?.key || 'en';
+
+// "3 trades added, 1 open trade extended, 12 fills already imported were skipped"
+const describeBrokerMerge = (added: number, extended: number, skippedFills: number) => {
+  const parts = [`${added} trade${added === 1 ? '' : 's'} added`];
+  if (extended > 0) {
+    parts.push(`${extended} open trade${extended === 1 ? '' : 's'} extended`);
+  }
+  if (skippedFills > 0) {
+    parts.push(`${skippedFills} fill${skippedFills === 1 ? '' : 's'} already imported ${skippedFills === 1 ? 'was' : 'were'} skipped`);
+  }
+  return parts.join(', ');
+};
+
+const formatImportTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+
 export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
   isOpen,
   onOpenChange,
   onImport,
+  existingTrades = [],
   portfolioSize = 100000,
   getPortfolioSize
 }) => {
@@ -230,16 +306,71 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
   const [parsedData, setParsedData] = useState<ParsedData | null>(null);
   const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
   const [mappingConfidence, setMappingConfidence] = useState<MappingConfidence>({});
-  const [previewTrades, setPreviewTrades] = useState<Trade[]>([]);
+  // Dry run of the import - nothing is written until the user confirms it
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const includedRows = useMemo(() => previewRows.filter(row => !row.excluded), [previewRows]);
   const [importProgress, setImportProgress] = useState(0);
   const [dragActive, setDragActive] = useState(false);
   const [dataConsentGiven, setDataConsentGiven] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedDateFormat, setSelectedDateFormat] = useState<string>('auto');
+  // Saved layouts for custom spreadsheets, and the one applied to the current file
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [numberFormat, setNumberFormat] = useState<NumberFormat>(DEFAULT_NUMBER_FORMAT);
+  const [defaultSetup, setDefaultSetup] = useState('');
+  const [headerRowOffset, setHeaderRowOffset] = useState(0);
+  // Every sheet of the uploaded file - the header row and sheet can be changed after upload
+  const [sourceSheets, setSourceSheets] = useState<BrokerSheet[]>([]);
   const [showImportBanner, setShowImportBanner] = useState<boolean>(true);
-  const [isZerodhaFormat, setIsZerodhaFormat] = useState<boolean>(false);
-  const [isDhanFormat, setIsDhanFormat] = useState<boolean>(false);
-  const [isUpstoxFormat, setIsUpstoxFormat] = useState<boolean>(false);
+  // Broker whose tradebook was recognised - those files skip column mapping
+  const [detectedBroker, setDetectedBroker] = useState<Pick<BrokerAdapter, 'id' | 'name' | 'badge'> | null>(null);
+  // Another journaling tool's export rather than a tradebook - its rows are trades already
+  const [isJournalExport, setIsJournalExport] = useState(false);
+  const isBrokerFormat = detectedBroker !== null;
+  const [brokerSkippedFills, setBrokerSkippedFills] = useState(0);
+  const [recentImports, setRecentImports] = useState<ImportBatch[]>([]);
+  // Stage of the file being read in the import worker
+  const [fileProgress, setFileProgress] = useState<{ stage: ImportStage; progress: number } | null>(null);
+  const { runImport, runPreview, cancelImport } = useTradeImportWorker();
+  const queryClient = useQueryClient();
+
+  // Broker account the imported trades are assigned to
+  const { accounts, writableAccountId } = useAccounts();
+  const [targetAccountId, setTargetAccountId] = useState<string>(writableAccountId);
+
+  useEffect(() => {
+    if (isOpen) setTargetAccountId(writableAccountId);
+  }, [isOpen, writableAccountId]);
+
+  const accountTrades = useMemo(
+    () => existingTrades.filter(trade => getAccountId(trade) === targetAccountId),
+    [existingTrades, targetAccountId]
+  );
+  // Uploaded file, read again when another account is chosen for a tradebook or export
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getImportBatches().then(setRecentImports).catch(() => setRecentImports([]));
+    getImportProfiles().then(setImportProfiles).catch(() => setImportProfiles([]));
+  }, [isOpen]);
+
+  const undoImport = useCallback(async (batch: Pick<ImportBatch, 'id' | 'source'>) => {
+    try {
+      await rollbackImportBatch(batch.id);
+      queryClient.invalidateQueries({ queryKey: TRADES_QUERY_KEY });
+      setRecentImports(batches => batches.filter(candidate => candidate.id !== batch.id));
+      addToast({
+        title: 'Import Rolled Back',
+        description: `Trades imported from ${batch.source} were removed and the trades it changed were restored.`,
+        color: 'default'
+      });
+    } catch (error) {
+      addToast({ title: 'Rollback Failed', description: error.message, color: 'danger' });
+    }
+  }, [queryClient]);
 
   // Date format options
   const dateFormatOptions = [
@@ -641,266 +772,22 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
     return null;
   }, [selectedDateFormat]);
 
-  // Function to recalculate all auto-populated fields for a trade
-  // NOTE: CMP will be auto-fetched from API when trade name is set, not imported from CSV
-  const recalculateTradeFields = useCallback((trade: Trade): Trade => {
-    // Get portfolio size for the trade date
-    const tradeDate = new Date(trade.date);
-    const month = tradeDate.toLocaleString('default', { month: 'short' });
-    const year = tradeDate.getFullYear();
-    const tradePortfolioSize = getPortfolioSize ? getPortfolioSize(month, year) : portfolioSize;
-
-    // Gather all entry lots (initial + pyramids)
-    const allEntries = [
-      { price: trade.entry, qty: trade.initialQty },
-      ...(trade.pyramid1Price && trade.pyramid1Qty ? [{ price: trade.pyramid1Price, qty: trade.pyramid1Qty }] : []),
-      ...(trade.pyramid2Price && trade.pyramid2Qty ? [{ price: trade.pyramid2Price, qty: trade.pyramid2Qty }] : [])
-    ].filter(e => e.price > 0 && e.qty > 0);
-
-    // Gather all exit lots with dates
-    const allExits = [
-      ...(trade.exit1Price && trade.exit1Qty ? [{
-        price: trade.exit1Price,
-        qty: trade.exit1Qty,
-        date: trade.exit1Date || trade.date
-      }] : []),
-      ...(trade.exit2Price && trade.exit2Qty ? [{
-        price: trade.exit2Price,
-        qty: trade.exit2Qty,
-        date: trade.exit2Date || trade.date
-      }] : []),
-      ...(trade.exit3Price && trade.exit3Qty ? [{
-        price: trade.exit3Price,
-        qty: trade.exit3Qty,
-        date: trade.exit3Date || trade.date
-      }] : [])
-    ].filter(e => e.price > 0 && e.qty > 0);
-
-    // Calculate derived values
-    const totalInitialQty = allEntries.reduce((sum, e) => sum + e.qty, 0);
-    const avgEntry = calcAvgEntry(allEntries);
-    const positionSize = calcPositionSize(avgEntry, totalInitialQty);
-    const allocation = calcAllocation(positionSize, tradePortfolioSize);
-    const slPercent = calcSLPercent(trade.sl, trade.entry);
-
-    const exitedQty = allExits.reduce((sum, e) => sum + e.qty, 0);
-    const openQty = Math.max(0, totalInitialQty - exitedQty);
-    const avgExitPrice = calcAvgExitPrice(allExits);
-
-    // Determine position status
-    let positionStatus: 'Open' | 'Closed' | 'Partial' = trade.positionStatus || 'Open';
-    if (exitedQty === 0) {
-      positionStatus = 'Open';
-    } else if (exitedQty >= totalInitialQty) {
-      positionStatus = 'Closed';
-    } else {
-      positionStatus = 'Partial';
-    }
-
-    const stockMove = calcStockMove(
-      avgEntry,
-      avgExitPrice,
-      trade.cmp,
-      openQty,
-      exitedQty,
-      positionStatus,
-      trade.buySell
-    );
-
-    const rewardRisk = calcRewardRisk(
-      trade.cmp || avgExitPrice || trade.entry,
-      trade.entry,
-      trade.sl,
-      positionStatus,
-      avgExitPrice,
-      openQty,
-      exitedQty,
-      trade.buySell
-    );
-
-    const holdingDays = calcHoldingDays(
-      trade.date,
-      allExits.length > 0 ? allExits[allExits.length - 1].date : trade.date
-    );
-
-    const realisedAmount = calcRealisedAmount(exitedQty, avgExitPrice);
-
-    // Calculate P/L using FIFO method
-    const entryLotsForFifo = allEntries.map(e => ({ price: e.price, qty: e.qty }));
-    const exitLotsForFifo = allExits.map(e => ({ price: e.price, qty: e.qty }));
-    const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(entryLotsForFifo, exitLotsForFifo, trade.buySell as 'Buy' | 'Sell') : 0;
-
-    // Note: PF Impact calculation in upload modal uses entry date portfolio size
-    // This is acceptable for initial calculation as accounting method-specific
-    // recalculation will happen in the main trade processing pipeline
-    const pfImpact = calcPFImpact(plRs, tradePortfolioSize);
-
-    return {
-      ...trade,
-      avgEntry,
-      positionSize,
-      allocation,
-      slPercent,
-      openQty,
-      exitedQty,
-      avgExitPrice,
-      stockMove,
-      rewardRisk,
-      holdingDays,
-      positionStatus,
-      realisedAmount,
-      plRs,
-      pfImpact,
-      cummPf: 0, // This would need to be calculated across all trades
-      openHeat: 0 // This would need portfolio context
-    };
-  }, [portfolioSize, getPortfolioSize]);
-
-  // Enhanced Zerodha format detection function with unique identifiers
-  const detectZerodhaFormat = useCallback((headers: string[]): boolean => {
-    console.log('🔍 ZERODHA DETECTION - Raw headers:', headers);
-
-    // Convert headers to lowercase for case-insensitive comparison
-    const lowerHeaders = headers.map(h => h.toLowerCase().trim());
-    console.log('🔍 ZERODHA DETECTION - Lowercase headers:', lowerHeaders);
-
-    // Unique Zerodha identifiers - these are specific to Zerodha format
-    const zerodhaUniqueHeaders = [
-      'trade_type',  // Zerodha specific
-      'trade_id',    // Zerodha specific
-      'order_id',    // Zerodha specific
-      'isin',        // Zerodha includes this
-      'series'       // Zerodha specific
-    ];
-
-    // Required Zerodha headers
-    const requiredZerodhaHeaders = [
-      'symbol',
-      'trade_date',
-      'quantity',
-      'price'
-    ];
-
-    // Check for unique Zerodha identifiers first
-    const uniqueMatches = zerodhaUniqueHeaders.filter(unique =>
-      lowerHeaders.some(header =>
-        header.includes(unique) ||
-        header.includes(unique.replace('_', ' ')) ||
-        header.includes(unique.replace('_', ''))
-      )
-    );
-
-    // Check for required headers
-    const requiredMatches = requiredZerodhaHeaders.filter(required =>
-      lowerHeaders.some(header =>
-        header.includes(required) ||
-        header.includes(required.replace('_', ' ')) ||
-        header.includes(required.replace('_', ''))
-      )
-    );
-
-    // Must have at least 2 unique identifiers AND 3 required headers
-    const hasUniqueIdentifiers = uniqueMatches.length >= 2;
-    const hasRequiredHeaders = requiredMatches.length >= 3;
-
-    const isZerodhaFormat = hasUniqueIdentifiers && hasRequiredHeaders;
-
-    console.log('🔍 ZERODHA DETECTION RESULT:', {
-      originalHeaders: headers,
-      lowerHeaders: lowerHeaders,
-      uniqueMatches: uniqueMatches,
-      requiredMatches: requiredMatches,
-      hasUniqueIdentifiers,
-      hasRequiredHeaders,
-      isZerodhaFormat
-    });
-
-    return isZerodhaFormat;
-  }, []);
-
-  // Enhanced Dhan format detection function with unique identifiers
-  const detectDhanFormat = useCallback((headers: string[]): boolean => {
-    console.log('🔍 DHAN DETECTION - Raw headers:', headers);
-
-    // Convert headers to lowercase for case-insensitive comparison
-    const lowerHeaders = headers.map(h => h.toLowerCase().trim());
-    console.log('🔍 DHAN DETECTION - Lowercase headers:', lowerHeaders);
-
-    // Unique Dhan identifiers - these are specific to Dhan format
-    const dhanUniqueHeaders = [
-      'buy/sell',      // Dhan specific format
-      'quantity/lot',  // Dhan specific format
-      'trade price',   // Dhan specific format (with space)
-      'trade value',   // Dhan specific format
-      'status'         // Dhan includes status column
-    ];
-
-    // Required Dhan headers
-    const requiredDhanHeaders = [
-      'date',
-      'time',
-      'name',
-      'exchange'
-    ];
-
-    // Check for unique Dhan identifiers
-    const uniqueMatches = dhanUniqueHeaders.filter(unique =>
-      lowerHeaders.some(header => {
-        // Exact match
-        if (header === unique) return true;
-        // Handle specific Dhan variations
-        if (unique === 'buy/sell' && (header.includes('buy/sell') || header === 'buy/sell')) return true;
-        if (unique === 'quantity/lot' && (header.includes('quantity/lot') || header === 'quantity/lot')) return true;
-        if (unique === 'trade price' && (header.includes('trade price') || header === 'trade price')) return true;
-        if (unique === 'trade value' && (header.includes('trade value') || header === 'trade value')) return true;
-        if (unique === 'status' && header === 'status') return true;
-        return false;
-      })
-    );
-
-    // Check for required headers
-    const requiredMatches = requiredDhanHeaders.filter(required =>
-      lowerHeaders.some(header => header.includes(required))
-    );
-
-    // Must have at least 3 unique identifiers AND 3 required headers
-    const hasUniqueIdentifiers = uniqueMatches.length >= 3;
-    const hasRequiredHeaders = requiredMatches.length >= 3;
-
-    const isDhanFormat = hasUniqueIdentifiers && hasRequiredHeaders;
-
-    console.log('🔍 DHAN DETECTION RESULT:', {
-      originalHeaders: headers,
-      lowerHeaders: lowerHeaders,
-      uniqueMatches: uniqueMatches,
-      requiredMatches: requiredMatches,
-      hasUniqueIdentifiers,
-      hasRequiredHeaders,
-      isDhanFormat: isDhanFormat
-    });
-
-    return isDhanFormat;
-  }, []);
-
-  // Enhanced Upstox format detection function for Excel files
-  const detectUpstoxFormat = useCallback((fileName: string): boolean => {
-    const lowerFileName = fileName.toLowerCase().trim();
-
-    // Upstox file naming patterns
-    const upstoxPatterns = [
-      /trade_\d+_\d+_eq\.xlsx?$/i,     // trade_553498_1920_eq.xlsx
-      /upstox.*trade.*\.xlsx?$/i,       // upstox_trade_report.xlsx
-      /trade.*upstox.*\.xlsx?$/i,       // trade_report_upstox.xlsx
-      /upstox.*\.xlsx?$/i,              // upstox.xlsx
-      /realized[Pp]n[Ll].*\.xlsx?$/i,   // realizedPnL_1920_553498.xlsx
-      /.*_\d+_\d+.*\.xlsx?$/i           // Any file with _numbers_numbers pattern
-    ];
-
-    const matchesPattern = upstoxPatterns.some(pattern => pattern.test(lowerFileName));
-    const isExcelFile = lowerFileName.endsWith('.xlsx') || lowerFileName.endsWith('.xls');
-
-    return matchesPattern && isExcelFile;
-  }, []);
+  // Portfolio sizes the worker sizes imported trades against, from ten years back or the journal's
+  // first trade if earlier - a month outside falls back to the current portfolio size
+  const getImportPortfolio = useCallback((): ImportPortfolioSizes => {
+    const currentYear = new Date().getFullYear();
+    const firstYear = accountTrades.reduce((earliest, trade) => {
+      const year = new Date(trade.date).getFullYear();
+      return Number.isFinite(year) ? Math.min(earliest, year) : earliest;
+    }, currentYear - 10);
+    return buildImportPortfolioSizes(getPortfolioSize, portfolioSize, firstYear, currentYear + 1);
+  }, [accountTrades, portfolioSize, getPortfolioSize]);
+
+  // Recalculating a single edited row is cheap enough for the main thread
+  const recalculateTradeFields = useCallback(
+    (trade: Trade): Trade => recalculateImportedTrade(trade, getImportPortfolio()),
+    [getImportPortfolio]
+  );
 
   // Smart column mapping based on header similarity AND data content validation
   const generateSmartMapping = useCallback((headers: string[]): { mapping: ColumnMapping; confidence: MappingConfidence } => {
@@ -1008,6 +895,7 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
       'plRs': ['p/l', 'p/l rs', 'p/l (₹)', 'realized p/l', 'realised p/l', 'realized p/l (₹)', 'profit loss', 'pnl'],
       'pfImpact': ['pf impact', 'pf impact %', 'pf impact (%)', 'portfolio impact', 'portfolio impact %'],
       'cummPf': ['cumm pf', 'cumm. pf', 'cumm pf %', 'cumm. pf (%)', 'cumulative pf', 'cumulative portfolio'],
+      'legs': ['legs', 'all legs', 'fills', 'executions'],
       'planFollowed': ['plan followed', 'plan followed?', 'followed plan', 'plan \nfollowed?'],
       'exitTrigger': ['exit trigger', 'trigger', 'exit reason', 'exit trigger', 'exit cause', 'reason'],
       'proficiencyGrowthAreas': ['growth areas', 'proficiency', 'improvement areas', 'growth areas', 'areas', 'improvement'],
@@ -1334,394 +1222,344 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
     return { mapping, confidence };
   }, [parsedData]);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    // Allow file upload without consent check - consent will be required after upload
-    setError(null);
+  // Show a sheet of trades for column mapping - with a saved profile's settings when one is given
+  const openTradeSheet = useCallback((sheet: BrokerSheet, offset: number, profile: ImportProfile | null) => {
+    const { headers, rows } = readSheetTable(sheet.rows, offset);
+    if (headers.length === 0) {
+      setError('No valid columns found in the file. Please check your file format.');
+      return;
+    }
+    if (rows.length === 0) {
+      setError('No valid data rows found in the file. Please check your file content.');
+      return;
+    }
 
-    setError(null); // Clear any previous errors
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
+    setError(null);
+    setParsedData({ headers, rows, fileName: sheet.fileName, sheetName: sheet.sheetName });
+    setDetectedBroker(null);
+    setHeaderRowOffset(offset);
+    setActiveProfileId(profile?.id ?? null);
+
+    if (profile) {
+      const mapping = applyProfileMapping(profile, headers);
+      setColumnMapping(mapping);
+      setMappingConfidence(Object.fromEntries(Object.keys(mapping).map(field => [field, 100])));
+      setSelectedDateFormat(profile.dateFormat);
+      setNumberFormat(profile.numberFormat);
+      setDefaultSetup(profile.defaultSetup);
+      setProfileName(profile.name);
+    } else {
+      const smartMapping = generateSmartMapping(headers);
+      setColumnMapping(smartMapping.mapping);
+      setMappingConfidence(smartMapping.confidence);
+    }
+  }, [generateSmartMapping]);
+
+  // A spreadsheet that isn't a broker tradebook - use the saved profile whose columns fit, if there is one
+  const loadTradeSheets = useCallback((sheets: BrokerSheet[]) => {
+    setSourceSheets(sheets);
+    const match = findMatchingProfile(importProfiles, sheets);
+    if (match) {
+      openTradeSheet(match.sheet, match.profile.headerRowOffset, match.profile);
+      addToast({ title: 'Import Profile Applied', description: `"${match.profile.name}" matches this file's columns.`, color: 'primary' });
+      return;
+    }
 
-    if (fileExtension === 'csv') {
-      Papa.parse(file, {
-        complete: async (results) => {
-          try {
-            if (results.errors && results.errors.length > 0) {
-              }
+    setNumberFormat(DEFAULT_NUMBER_FORMAT);
+    setDefaultSetup('');
+    setProfileName('');
+    openTradeSheet(sheets[0], 0, null);
+  }, [importProfiles, openTradeSheet]);
 
-            if (results.data && results.data.length > 0) {
-              // Check if this is a Zerodha P&L statement FIRST (before any processing)
-              const csvContent = results.data.map(row => (row as string[]).join(',')).join('\n');
-              const isPnLStatement = isZerodhaPnLStatement(csvContent);
-
-              if (isPnLStatement) {
-                console.log('📊 Zerodha P&L Statement detected - processing charges');
-                const chargesData = parseZerodhaCharges(csvContent);
-
-                if (chargesData) {
-                  // Show first toast immediately - Import success
-                  addToast({
-                    title: 'Charges Data Imported Successfully',
-                    description: `Zerodha P&L charges (₹${chargesData.total.toFixed(2)}) have been parsed and are being processed.`,
-                    color: 'success',
-                    variant: 'solid',
-                    radius: 'lg',
-                    icon: <Icon icon="lucide:receipt" className="text-white text-base mr-2" />,
-                    classNames: {
-                      base: 'flex items-center w-full max-w-[400px] min-w-[300px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-success-500 transition-all duration-200 relative gap-2',
-                      title: 'text-sm font-semibold text-white',
-                      description: 'text-xs text-white/90'
-                    }
-                  });
-
-                  // Show progress in modal
-                  setError(null);
-                  setStep('importing');
-                  setImportProgress(50);
-
-                  // Distribute charges across months and update tax analytics after a delay
-                  setTimeout(async () => {
-                    const currentYear = new Date().getFullYear().toString();
-                    const distributedCharges = distributeChargesAcrossMonths(chargesData, currentYear);
-
-                    // Update tax analytics component (this will trigger the second toast)
-                    await updateChargesBreakdown(distributedCharges);
-
-                    // Complete the progress
-                    setImportProgress(100);
-
-                    // Show final completion toast after database save
-                    setTimeout(() => {
-                      addToast({
-                        title: 'Import Complete',
-                        description: 'Navigate to Tax Analytics to view the imported charges breakdown.',
-                        color: 'primary',
-                        variant: 'solid',
-                        radius: 'lg',
-                        icon: <Icon icon="lucide:check-circle" className="text-white text-base mr-2" />,
-                        classNames: {
-                          base: 'flex items-center w-full max-w-[380px] min-w-[280px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-primary-500 transition-all duration-200 relative gap-2',
-                          title: 'text-sm font-semibold text-white',
-                          description: 'text-xs text-white/90'
-                        }
-                      });
-
-                      // Close modal automatically after final toast
-                      setTimeout(() => {
-                        onOpenChange(false);
-                        // Reset state
-                        setStep('upload');
-                        setParsedData(null);
-                        setColumnMapping({});
-                        setMappingConfidence({});
-                        setPreviewTrades([]);
-                        setImportProgress(0);
-                        setIsZerodhaFormat(false);
-                        setIsDhanFormat(false);
-                        setIsUpstoxFormat(false);
-                      }, 1500);
-                    }, 1000);
-                  }, 1000);
-
-                  return; // Exit early for P&L statements
-                } else {
-                  setError('Failed to parse Zerodha P&L statement. Please check the file format.');
-                  return;
-                }
-              }
+  const currentSheet = useMemo(
+    () => sourceSheets.find(sheet => sheet.sheetName === parsedData?.sheetName) || sourceSheets[0],
+    [sourceSheets, parsedData?.sheetName]
+  );
 
-              // Continue with regular CSV processing for non-P&L files
-              const headers = results.data[0] as string[];
-              const rows = results.data.slice(1) as any[][];
-
-              // Filter out completely empty rows and clean headers
-              const cleanHeaders = headers
-                .filter(h => h && String(h).trim() !== '')
-                .map(h => String(h)
-                  .replace(/\n/g, ' ') // Replace newlines with spaces
-                  .replace(/\r/g, ' ') // Replace carriage returns with spaces
-                  .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-                  .trim()
-                );
-              const cleanRows = rows.filter(row => {
-                // Keep row if it has at least one non-empty, non-whitespace cell
-                return row.some(cell =>
-                  cell !== null &&
-                  cell !== undefined &&
-                  String(cell).trim() !== '' &&
-                  String(cell).toLowerCase() !== 'stock name'
-                );
-              });
+  const selectProfile = useCallback((profileId: string | null) => {
+    const profile = importProfiles.find(candidate => candidate.id === profileId);
+    if (!profile) {
+      setActiveProfileId(null);
+      return;
+    }
+    const sheet = sourceSheets.find(candidate => candidate.sheetName === profile.sheetName) || currentSheet;
+    if (sheet) openTradeSheet(sheet, profile.headerRowOffset, profile);
+  }, [importProfiles, sourceSheets, currentSheet, openTradeSheet]);
+
+  const saveCurrentProfile = useCallback(async () => {
+    const name = profileName.trim();
+    if (!parsedData || !name) return;
+
+    // Saving under an existing name updates that profile
+    const existing = importProfiles.find(profile => profile.name.toLowerCase() === name.toLowerCase());
+    const profile: ImportProfile = {
+      id: existing?.id || uuidv4(),
+      name,
+      headerSignature: getHeaderSignature(parsedData.headers),
+      columnMapping,
+      dateFormat: selectedDateFormat,
+      numberFormat,
+      sheetName: parsedData.sheetName,
+      headerRowOffset,
+      defaultSetup: defaultSetup.trim(),
+      updatedAt: new Date().toISOString()
+    };
 
-              if (cleanHeaders.length === 0) {
-                setError('No valid columns found in the CSV file. Please check your file format.');
-                return;
-              }
+    try {
+      setImportProfiles(await saveImportProfile(profile));
+      setActiveProfileId(profile.id);
+      addToast({ title: 'Import Profile Saved', description: `Files with these columns will use "${name}" automatically.`, color: 'success' });
+    } catch (error) {
+      addToast({ title: 'Could Not Save Profile', description: error.message, color: 'danger' });
+    }
+  }, [profileName, parsedData, importProfiles, columnMapping, selectedDateFormat, numberFormat, headerRowOffset, defaultSetup]);
+
+  const removeActiveProfile = useCallback(async () => {
+    if (!activeProfileId) return;
+    try {
+      setImportProfiles(await deleteImportProfile(activeProfileId));
+      setActiveProfileId(null);
+    } catch (error) {
+      addToast({ title: 'Could Not Delete Profile', description: error.message, color: 'danger' });
+    }
+  }, [activeProfileId]);
+
+  // Show a recognised tradebook's merged trades for review - the worker has already checked them
+  const showBrokerPreview = useCallback((adapter: BrokerAdapter, { rows, skippedFills }: { rows: ImportPreviewRow[]; skippedFills: number }) => {
+    if (rows.length === 0) {
+      setError(`Nothing new to import - all ${skippedFills} fills in this ${adapter.name} tradebook are already in your journal.`);
+      setDetectedBroker(null);
+      setPreviewRows([]);
+      setStep('upload');
+      return;
+    }
 
-              if (cleanRows.length === 0) {
-                setError('No valid data rows found in the CSV file. Please check your file content.');
-                return;
-              }
+    setDetectedBroker(adapter);
+    setIsJournalExport(false);
+    setBrokerSkippedFills(skippedFills);
+    setPreviewRows(rows);
+    setStep('preview');
+  }, []);
 
-              // COMPREHENSIVE DEBUGGING FOR BROKER DETECTION
-              console.log('🚀 STARTING BROKER DETECTION');
-              console.log('📁 File name:', file.name);
-              console.log('📋 Raw headers:', headers);
-              console.log('🧹 Clean headers:', cleanHeaders);
-              console.log('📊 Total rows:', cleanRows.length);
-              console.log('🔍 First few rows:', cleanRows.slice(0, 3));
-
-              // Detect if this is a Zerodha tradebook format file
-              console.log('🔍 Testing Zerodha format...');
-              const isZerodha = detectZerodhaFormat(cleanHeaders);
-              console.log('✅ Zerodha detection result:', isZerodha);
-              setIsZerodhaFormat(isZerodha);
-
-              // Detect if this is a Dhan tradebook format file
-              console.log('🔍 Testing Dhan format...');
-              const isDhan = detectDhanFormat(cleanHeaders);
-              console.log('✅ Dhan detection result:', isDhan);
-              setIsDhanFormat(isDhan);
-
-              console.log('🎯 FINAL BROKER DETECTION RESULTS:', {
-                fileName: file.name,
-                isZerodha,
-                isDhan,
-                isUpstox: false, // CSV files are not Upstox format
-                willUseRegularMapping: !isZerodha && !isDhan
-              });
+  // Another journal's trades go through the same review as a tradebook's, annotations included
+  const showJournalPreview = useCallback((format: JournalExportFormat, rows: ImportPreviewRow[]) => {
+    if (rows.length === 0) {
+      setError(`No trades found in this ${format.name} export.`);
+      setPreviewRows([]);
+      setStep('upload');
+      return;
+    }
 
-              setParsedData({
-                headers: cleanHeaders,
-                rows: cleanRows,
-                fileName: file.name
-              });
+    setDetectedBroker(format);
+    setIsJournalExport(true);
+    setBrokerSkippedFills(0);
+    setPreviewRows(rows);
+    setStep('preview');
+  }, []);
 
-              // For Zerodha format, skip column mapping and go directly to preview
-              if (isZerodha) {
-                console.log('🎯 ZERODHA PROCESSING STARTED');
-                console.log('📋 Headers for Zerodha:', cleanHeaders);
-                console.log('📊 Rows for Zerodha:', cleanRows.length);
-
-                try {
-                  // Test if the import is working
-                  console.log('🔍 Testing convertZerodhaToNexus function:', typeof convertZerodhaToNexus);
-
-                  // Convert Zerodha data to Nexus trades
-                  console.log('🔄 Calling convertZerodhaToNexus...');
-                  const zerodhatrades = await convertZerodhaToNexus(cleanHeaders, cleanRows);
-                  console.log('✅ convertZerodhaToNexus returned:', zerodhatrades.length, 'trades');
-
-                  // Apply portfolio size calculations to the converted trades
-                  console.log('🔄 Applying portfolio calculations...');
-                  const processedTrades = zerodhatrades.map(trade => recalculateTradeFields(trade));
-                  console.log('✅ Portfolio calculations complete');
-
-                  setPreviewTrades(processedTrades);
-                  setStep('preview');
-                  console.log(`✅ ZERODHA PROCESSING COMPLETE: ${processedTrades.length} trades processed`);
-                } catch (error) {
-                  console.error('❌ ZERODHA PROCESSING FAILED:', error);
-                  console.error('❌ Error stack:', error.stack);
-                  setError(`Failed to process Zerodha file: ${error.message}`);
-                  setIsZerodhaFormat(false); // Fall back to regular processing
-                }
-              } else if (isDhan) {
-                console.log('🎯 DHAN PROCESSING STARTED');
-                console.log('📋 Headers for Dhan:', cleanHeaders);
-                console.log('📊 Rows for Dhan:', cleanRows.length);
-
-                try {
-                  // Show processing message for large datasets
-                  if (cleanRows.length > 500) {
-                    setError('Processing large Dhan dataset... Please wait.');
-                    // Clear error after a moment to show it's processing
-                    setTimeout(() => setError(null), 1000);
-                  }
+  // Zerodha P&L statements carry the period's charges rather than trades
+  const importZerodhaCharges = useCallback((csvContent: string) => {
+    const chargesData = parseZerodhaCharges(csvContent);
 
-                  // Test if the import is working
-                  console.log('🔍 Testing processDhanCSV function:', typeof processDhanCSV);
-
-                  // Convert Dhan data to Nexus trades
-                  console.log('🔄 Calling processDhanCSV...');
-                  const dhanTrades = await processDhanCSV(cleanHeaders, cleanRows);
-                  console.log('✅ processDhanCSV returned:', dhanTrades.length, 'trades');
-
-                  // Apply portfolio size calculations to the converted trades
-                  console.log('🔄 Applying portfolio calculations...');
-                  const processedTrades = dhanTrades.map(trade => recalculateTradeFields(trade));
-                  console.log('✅ Portfolio calculations complete');
-
-                  setPreviewTrades(processedTrades);
-                  setStep('preview');
-                  console.log(`✅ DHAN PROCESSING COMPLETE: ${processedTrades.length} trades processed`);
-                } catch (error) {
-                  console.error('❌ DHAN PROCESSING FAILED:', error);
-                  console.error('❌ Error stack:', error.stack);
-                  setError(`Failed to process Dhan file: ${error.message}`);
-                  setIsDhanFormat(false); // Fall back to regular processing
-                }
-              }
+    if (chargesData) {
+      // Show first toast immediately - Import success
+      addToast({
+        title: 'Charges Data Imported Successfully',
+        description: `Zerodha P&L charges (₹${chargesData.total.toFixed(2)}) have been parsed and are being processed.`,
+        color: 'success',
+        variant: 'solid',
+        radius: 'lg',
+        icon: <Icon icon="lucide:receipt" className="text-white text-base mr-2" />,
+        classNames: {
+          base: 'flex items-center w-full max-w-[400px] min-w-[300px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-success-500 transition-all duration-200 relative gap-2',
+          title: 'text-sm font-semibold text-white',
+          description: 'text-xs text-white/90'
+        }
+      });
 
-              // For non-broker formats, generate smart mapping and check for date columns
-              if (!isZerodha && !isDhan) {
-                console.log('🔄 REGULAR CSV PROCESSING - No broker format detected');
-                console.log('📋 Generating smart mapping for headers:', cleanHeaders);
-
-                // Regular CSV processing with column mapping
-                const smartMapping = generateSmartMapping(cleanHeaders);
-                console.log('✅ Smart mapping generated:', smartMapping);
-                setColumnMapping(smartMapping.mapping);
-                setMappingConfidence(smartMapping.confidence);
-
-                // Check if there are any date columns mapped or dates without years
-                const hasDateColumns = Object.keys(smartMapping.mapping).some(key => key.includes('Date') || key === 'date');
-
-                // Check if any dates in the data lack years (need user input for year)
-                const hasIncompleteYears = cleanRows.some(row => {
-                  return Object.entries(smartMapping.mapping).some(([field, column]) => {
-                  if (field.includes('Date') || field === 'date') {
-                    const columnIndex = cleanHeaders.indexOf(column);
-                    if (columnIndex !== -1 && row[columnIndex]) {
-                      const dateValue = String(row[columnIndex]).trim();
-                      // Check for dates without years: "29 April", "16/4", "21-Apr", etc.
-                      return /^\d{1,2}[\s\-\/]\w+$/.test(dateValue) || // "29 April", "21-Apr"
-                             /^\d{1,2}[\-\/]\d{1,2}$/.test(dateValue) || // "16/4", "21-4"
-                             /^\w+[\s\-\/]\d{1,2}$/.test(dateValue); // "April 29", "Apr-21"
-                    }
-                  }
-                  return false;
-                  });
-                });
-              }
+      // Show progress in modal
+      setError(null);
+      setStep('importing');
+      setImportProgress(50);
 
-              // Don't auto-proceed to next step - stay on upload step so user can give consent
-              // The user will manually proceed after giving consent
-              console.log('File uploaded successfully, waiting for user consent');
-            } else {
-              setError('The CSV file appears to be empty or invalid. Please check your file.');
+      // Distribute charges across months and update tax analytics after a delay
+      setTimeout(async () => {
+        const currentYear = new Date().getFullYear().toString();
+        const distributedCharges = distributeChargesAcrossMonths(chargesData, currentYear);
+
+        // Update tax analytics component (this will trigger the second toast)
+        await updateChargesBreakdown(distributedCharges);
+
+        // Complete the progress
+        setImportProgress(100);
+
+        // Show final completion toast after database save
+        setTimeout(() => {
+          addToast({
+            title: 'Import Complete',
+            description: 'Navigate to Tax Analytics to view the imported charges breakdown.',
+            color: 'primary',
+            variant: 'solid',
+            radius: 'lg',
+            icon: <Icon icon="lucide:check-circle" className="text-white text-base mr-2" />,
+            classNames: {
+              base: 'flex items-center w-full max-w-[380px] min-w-[280px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-primary-500 transition-all duration-200 relative gap-2',
+              title: 'text-sm font-semibold text-white',
+              description: 'text-xs text-white/90'
             }
-          } catch (error) {
-            setError('Failed to process the CSV file. Please check the file format and try again.');
-          }
-        },
-        header: false,
-        skipEmptyLines: true,
-        transform: (value) => {
-          // Minimal cleaning for performance
-          if (typeof value === 'string') {
-            return value.trim().replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-          }
-          return value;
-        },
-        dynamicTyping: false, // Disable automatic type conversion for better control
-        fastMode: false, // Disable fast mode to properly handle quoted fields with commas
-        delimiter: ',', // Explicitly set comma as delimiter
-        quoteChar: '"', // Explicitly set quote character
-        escapeChar: '"', // Explicitly set escape character
-        error: (error) => {
-          setError('CSV parsing failed: ' + error.message);
+          });
+
+          // Close modal automatically after final toast
+          setTimeout(() => {
+            onOpenChange(false);
+            // Reset state
+            setStep('upload');
+            setParsedData(null);
+            setColumnMapping({});
+            setMappingConfidence({});
+            setPreviewRows([]);
+            setImportProgress(0);
+            setDetectedBroker(null);
+          }, 1500);
+        }, 1000);
+      }, 1000);
+    } else {
+      setError('Failed to parse Zerodha P&L statement. Please check the file format.');
+    }
+  }, [onOpenChange]);
+
+  const importUpstoxCharges = useCallback((file: File) => {
+    parseUpstoxCharges(file)
+      .then(chargesBreakdown => {
+        if (chargesBreakdown) {
+          // Save charges breakdown to tax data
+          // Get current year for distribution
+          const currentYear = new Date().getFullYear().toString();
+
+          // Create monthly distribution based on equal distribution
+          const monthlyTradeCounts: { [monthYear: string]: number } = {};
+          const months = ['January', 'February', 'March', 'April', 'May', 'June',
+                         'July', 'August', 'September', 'October', 'November', 'December'];
+
+          // Distribute evenly across all months of current year
+          months.forEach(month => {
+            monthlyTradeCounts[month] = 1; // Equal weight for each month
+          });
+
+          // Distribute charges across months
+          const distributedCharges = distributeUpstoxChargesAcrossMonths(chargesBreakdown, monthlyTradeCounts);
+
+          // Create the charges data structure expected by updateChargesBreakdown
+          const chargesData = {
+            upstox: distributedCharges
+          };
+
+          updateChargesBreakdown(chargesData)
+            .then(() => {
+
+              // Show success message
+              addToast({
+                title: 'Upstox Charges Imported Successfully',
+                description: `Charges breakdown imported: ₹${chargesBreakdown.total.toFixed(2)} total charges`,
+                color: 'warning',
+                variant: 'solid',
+                radius: 'lg',
+                icon: <Icon icon="lucide:file-spreadsheet" className="text-white text-base mr-2" />,
+                classNames: {
+                  base: 'flex items-center w-full max-w-[380px] min-w-[280px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-warning-500 transition-all duration-200 relative gap-2',
+                  title: 'text-sm font-semibold text-white',
+                  description: 'text-xs text-white/90'
+                }
+              });
+
+              // Close modal after success
+              setTimeout(() => {
+                onOpenChange(false);
+                setStep('upload');
+              }, 2000);
+            })
+            .catch(error => {
+              setError('Failed to save charges breakdown: ' + error.message);
+            });
+        } else {
+          setError('Failed to parse Upstox charges from the file');
         }
+      })
+      .catch(error => {
+        setError('Failed to parse Upstox charges: ' + error.message);
       });
-    } else if (fileExtension === 'xlsx' || fileExtension === 'xls') {
-      // Excel files are ONLY supported for Upstox format
-      const isUpstox = detectUpstoxFormat(file.name);
-
-      if (isUpstox) {
-        setIsUpstoxFormat(true);
-
-        // First check if this is an Upstox charges/P&L file
-        isUpstoxPnLStatement(file)
-          .then(isPnLFile => {
-            if (isPnLFile) {
-
-              // Process Upstox charges file
-              return parseUpstoxCharges(file)
-                .then(chargesBreakdown => {
-                  if (chargesBreakdown) {
-                    // Save charges breakdown to tax data
-                    // Get current year for distribution
-                    const currentYear = new Date().getFullYear().toString();
-
-                    // Create monthly distribution based on equal distribution
-                    const monthlyTradeCounts: { [monthYear: string]: number } = {};
-                    const months = ['January', 'February', 'March', 'April', 'May', 'June',
-                                   'July', 'August', 'September', 'October', 'November', 'December'];
-
-                    // Distribute evenly across all months of current year
-                    months.forEach(month => {
-                      monthlyTradeCounts[month] = 1; // Equal weight for each month
-                    });
-
-                    // Distribute charges across months
-                    const distributedCharges = distributeUpstoxChargesAcrossMonths(chargesBreakdown, monthlyTradeCounts);
-
-                    // Create the charges data structure expected by updateChargesBreakdown
-                    const chargesData = {
-                      upstox: distributedCharges
-                    };
-
-                    updateChargesBreakdown(chargesData)
-                      .then(() => {
-
-                        // Show success message
-                        addToast({
-                          title: 'Upstox Charges Imported Successfully',
-                          description: `Charges breakdown imported: ₹${chargesBreakdown.total.toFixed(2)} total charges`,
-                          color: 'warning',
-                          variant: 'solid',
-                          radius: 'lg',
-                          icon: <Icon icon="lucide:file-spreadsheet" className="text-white text-base mr-2" />,
-                          classNames: {
-                            base: 'flex items-center w-full max-w-[380px] min-w-[280px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-warning-500 transition-all duration-200 relative gap-2',
-                            title: 'text-sm font-semibold text-white',
-                            description: 'text-xs text-white/90'
-                          }
-                        });
-
-                        // Close modal after success
-                        setTimeout(() => {
-                          onOpenChange(false);
-                          setStep('upload');
-                          setIsUpstoxFormat(false);
-                        }, 2000);
-                      })
-                      .catch(error => {
-                        setError('Failed to save charges breakdown: ' + error.message);
-                      });
-                  } else {
-                    setError('Failed to parse Upstox charges from the file');
-                  }
-                })
-                .catch(error => {
-                  setError('Failed to parse Upstox charges: ' + error.message);
-                });
-            } else {
-              // Process Upstox trade Excel file
-              return processUpstoxExcel(file)
-                .then(upstoxTrades => {
-                  // Apply portfolio size calculations to the converted trades
-                  const processedTrades = upstoxTrades.map(trade => recalculateTradeFields(trade));
-
-                  setPreviewTrades(processedTrades);
-                  setStep('preview');
-                })
-                .catch(error => {
-                  setError(`Failed to process Upstox Excel file: ${error.message}`);
-                  setIsUpstoxFormat(false); // Fall back to regular processing
-                });
-            }
-          })
-          .catch(error => {
-            setError(`Failed to detect Upstox file type: ${error.message}`);
-            setIsUpstoxFormat(false);
-          });
+  }, [onOpenChange]);
+
+  const handleFileUpload = useCallback(async (file: File) => {
+    // Allow file upload without consent check - consent will be required after upload
+    setError(null);
+    const fileExtension = file.name.split('.').pop()?.toLowerCase();
+
+    if (fileExtension !== 'csv' && fileExtension !== 'xlsx' && fileExtension !== 'xls') {
+      setError('Unsupported file format. Only CSV files and broker Excel files are allowed.');
+      return;
+    }
+
+    // Reading, broker detection, grouping fills into trades and checking them run in the import worker
+    setSourceFile(file);
+    setFileProgress({ stage: 'reading', progress: 0 });
+    let result: ImportPipelineResult | null;
+    try {
+      result = await runImport(file, accountTrades, (stage, progress) => setFileProgress({ stage, progress }), getImportPortfolio());
+    } catch (error) {
+      setError(`Failed to read ${file.name}: ${error.message}`);
+      setDetectedBroker(null);
+      return;
+    } finally {
+      setFileProgress(null);
+    }
+    if (!result) return; // Cancelled
+
+    const { sheets, broker, journal } = result;
+    const adapter = broker && getBrokerAdapter(broker.adapterId);
+    const journalFormat = journal && getJournalExportFormats().find(format => format.id === journal.formatId);
+
+    if (fileExtension === 'csv') {
+      const rows = sheets[0].rows;
+      if (rows.length === 0) {
+        setError('The CSV file appears to be empty or invalid. Please check your file.');
+        return;
+      }
+
+      // Check if this is a Zerodha P&L statement FIRST
+      const csvContent = rows.map(row => row.join(',')).join('\n');
+      if (isZerodhaPnLStatement(csvContent)) {
+        console.log('📊 Zerodha P&L Statement detected - processing charges');
+        importZerodhaCharges(csvContent);
+        return;
+      }
+
+      // Recognised broker tradebooks skip column mapping and go directly to preview
+      if (adapter) {
+        const table = readSheetTable(rows, 0);
+        setParsedData({ headers: table.headers, rows: table.rows, fileName: file.name });
+        showBrokerPreview(adapter, broker);
+      } else if (journalFormat) {
+        const table = readSheetTable(rows, 0);
+        setParsedData({ headers: table.headers, rows: table.rows, fileName: file.name });
+        showJournalPreview(journalFormat, journal.rows);
       } else {
-        setError('Excel files are only supported for Upstox format. For other brokers, please convert your Excel file to CSV format and try again.');
+        loadTradeSheets(sheets);
       }
+      return;
+    }
+
+    // Excel files: broker tradebooks, other journals' exports, Upstox charges statements, or trade sheets mapped like a CSV
+    if (adapter) {
+      showBrokerPreview(adapter, broker);
+    } else if (journalFormat) {
+      showJournalPreview(journalFormat, journal.rows);
+    } else if (await isUpstoxPnLStatement(file).catch(() => false)) {
+      importUpstoxCharges(file);
     } else {
-      setError('Unsupported file format. Only CSV files and Upstox Excel files are allowed.');
+      loadTradeSheets(sheets);
     }
-  }, [generateSmartMapping, dataConsentGiven, detectZerodhaFormat, detectDhanFormat, detectUpstoxFormat, recalculateTradeFields]);
+  }, [runImport, accountTrades, getImportPortfolio, showBrokerPreview, showJournalPreview, loadTradeSheets, importZerodhaCharges, importUpstoxCharges]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -1730,18 +1568,11 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
     const files = Array.from(e.dataTransfer.files);
     const file = files[0];
 
-    if (file && file.name.endsWith('.csv')) {
+    // Excel files are checked against the broker importers once read
+    if (file && (file.name.endsWith('.csv') || file.name.endsWith('.xlsx') || file.name.endsWith('.xls'))) {
       handleFileUpload(file);
-    } else if (file && (file.name.endsWith('.xlsx') || file.name.endsWith('.xls'))) {
-      // Check if Excel file is Upstox format before processing
-      const isUpstox = detectUpstoxFormat(file.name);
-      if (isUpstox) {
-        handleFileUpload(file);
-      } else {
-        setError('Excel files are only supported for Upstox format. For other brokers, please convert to CSV format.');
-      }
     } else if (file) {
-      setError('Only CSV files and Upstox Excel files are supported.');
+      setError('Only CSV files and broker Excel files are supported.');
     }
   }, [handleFileUpload]);
 
@@ -1772,587 +1603,304 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
     });
   }, []);
 
-  // Generate preview trades based on mapping - optimized for speed
-  const generatePreview = useCallback(() => {
-    if (!parsedData) return;
+  // One file row -> trade, following the column mapping. Dates that can't be read are reported
+  // against the row rather than silently replaced.
+  const mapRowToTrade = useCallback((row: any[], rowNumber: number): { trade: Partial<Trade>; issues: TradeIssue[] } => {
+    const issues: TradeIssue[] = [];
+    const readNumber = (value: any) => parseFlexibleNumber(normalizeNumberCell(value, numberFormat));
+    const trade: Partial<Trade> = {
+      id: uuidv4(),
+      tradeNo: '',
+      date: new Date().toISOString(),
+      name: '',
+      setup: '',
+      buySell: 'Buy',
+      entry: 0,
+      avgEntry: 0,
+      sl: 0,
+      tsl: 0,
+      cmp: 0,
+      initialQty: 0,
+      pyramid1Price: 0,
+      pyramid1Qty: 0,
+      pyramid1Date: '',
+      pyramid2Price: 0,
+      pyramid2Qty: 0,
+      pyramid2Date: '',
+      positionSize: 0,
+      allocation: 0,
+      exit1Price: 0,
+      exit1Qty: 0,
+      exit1Date: '',
+      exit2Price: 0,
+      exit2Qty: 0,
+      exit2Date: '',
+      exit3Price: 0,
+      exit3Qty: 0,
+      exit3Date: '',
+      openQty: 0,
+      exitedQty: 0,
+      avgExitPrice: 0,
+      stockMove: 0,
+      openHeat: 0,
+      rewardRisk: 0,
+      holdingDays: 0,
+      positionStatus: 'Open',
+      realisedAmount: 0,
+      plRs: 0,
+      pfImpact: 0,
+      cummPf: 0,
+      planFollowed: true,
+      exitTrigger: '',
+      proficiencyGrowthAreas: '',
+      baseDuration: '',
+      slPercent: 0,
+      notes: '',
+    };
 
-    const trades: Trade[] = [];
-    let validTradeCount = 0;
-
-    // Only process first 10 rows for preview to keep it fast
-    const previewRows = parsedData.rows.slice(0, 10);
-
-    for (const row of previewRows) {
-      if (trades.length >= 5) break;
-      const trade: Partial<Trade> = {
-        id: uuidv4(),
-        tradeNo: '',
-        date: new Date().toISOString(),
-        name: '',
-        setup: '',
-        buySell: 'Buy',
-        entry: 0,
-        avgEntry: 0,
-        sl: 0,
-        tsl: 0,
-        cmp: 0,
-        initialQty: 0,
-        pyramid1Price: 0,
-        pyramid1Qty: 0,
-        pyramid1Date: '',
-        pyramid2Price: 0,
-        pyramid2Qty: 0,
-        pyramid2Date: '',
-        positionSize: 0,
-        allocation: 0,
-        exit1Price: 0,
-        exit1Qty: 0,
-        exit1Date: '',
-        exit2Price: 0,
-        exit2Qty: 0,
-        exit2Date: '',
-        exit3Price: 0,
-        exit3Qty: 0,
-        exit3Date: '',
-        openQty: 0,
-        exitedQty: 0,
-        avgExitPrice: 0,
-        stockMove: 0,
-        openHeat: 0,
-        rewardRisk: 0,
-        holdingDays: 0,
-        positionStatus: 'Open',
-        realisedAmount: 0,
-        plRs: 0,
-        pfImpact: 0,
-        cummPf: 0,
-        planFollowed: true,
-        exitTrigger: '',
-        proficiencyGrowthAreas: '',
-        baseDuration: '',
-        slPercent: 0,
-        notes: '',
-      };
+    // Map values based on column mapping
+    Object.entries(columnMapping).forEach(([field, column]) => {
+      const columnIndex = parsedData.headers.indexOf(column);
+      if (columnIndex !== -1 && row[columnIndex] !== undefined) {
+        const value = row[columnIndex];
 
-      // Map values based on column mapping
-      Object.entries(columnMapping).forEach(([field, column]) => {
-        const columnIndex = parsedData.headers.indexOf(column);
-        if (columnIndex !== -1 && row[columnIndex] !== undefined) {
-          const value = row[columnIndex];
-
-
-
-          // Type conversion based on field - ONLY for user input fields
-          if (['entry', 'avgEntry', 'sl', 'tsl', 'cmp', 'pyramid1Price', 'pyramid2Price',
-               'exit1Price', 'exit2Price', 'exit3Price', 'avgExitPrice', 'realisedAmount', 'plRs'].includes(field)) {
-            // Enhanced number parsing for cross-platform compatibility
-            const parsedNumber = parseFlexibleNumber(value);
-            (trade as any)[field] = parsedNumber;
-          } else if (['initialQty', 'pyramid1Qty', 'pyramid2Qty', 'exit1Qty', 'exit2Qty', 'exit3Qty',
-                     'openQty', 'exitedQty', 'holdingDays'].includes(field)) {
-            // Enhanced quantity parsing for cross-platform compatibility
-            const parsedQuantity = parseFlexibleNumber(value);
-            (trade as any)[field] = Math.round(parsedQuantity); // Quantities should be whole numbers
-          } else if (['slPercent', 'allocation', 'stockMove', 'openHeat', 'pfImpact', 'cummPf', 'positionSize'].includes(field)) {
-            // Enhanced percentage/decimal parsing
-            const parsedPercent = parseFlexibleNumber(value);
-            (trade as any)[field] = parsedPercent;
-          } else if (field === 'buySell') {
-            // Handle Buy/Sell field - normalize common variations
-            const buySellValue = String(value || '').toLowerCase().trim();
-            if (buySellValue === 'b' || buySellValue === 'buy' || buySellValue === 'long') {
-              (trade as any)[field] = 'Buy';
-            } else if (buySellValue === 's' || buySellValue === 'sell' || buySellValue === 'short') {
-              (trade as any)[field] = 'Sell';
-            } else {
-              (trade as any)[field] = 'Buy'; // Default to Buy if unclear
-            }
-          } else if (field === 'planFollowed') {
-            // Handle boolean fields
-            const boolValue = String(value || '').toLowerCase();
-            (trade as any)[field] = boolValue === 'true' || boolValue === 'yes' || boolValue === '1';
-          } else if (field.includes('Date') && value) {
-            // Enhanced date parsing with smart year assignment for pyramid/exit dates
-            let tradeYear: number | undefined;
-
-            // Get trade year from main date field for pyramid/exit dates, or use selected year
-            if (['pyramid1Date', 'pyramid2Date', 'exit1Date', 'exit2Date', 'exit3Date'].includes(field)) {
-              // First try to get year from the main trade date in the same row
-              const mainDateField = columnMapping['date'];
-
-
-              if (mainDateField) {
-                const mainDateIndex = parsedData.headers.indexOf(mainDateField);
-                if (mainDateIndex !== -1 && row[mainDateIndex]) {
-                  const mainDateValue = String(row[mainDateIndex]).trim();
-                  // Try to extract year from main date directly
-                  if (/\d{4}/.test(mainDateValue)) {
-                    const yearMatch = mainDateValue.match(/\d{4}/);
-                    if (yearMatch) {
-                      const extractedYear = parseInt(yearMatch[0], 10);
-                      if (extractedYear >= 2000 && extractedYear <= new Date().getFullYear() + 5) {
-                        tradeYear = extractedYear;
-                      }
+        // Type conversion based on field - ONLY for user input fields
+        if (['entry', 'avgEntry', 'sl', 'tsl', 'cmp', 'pyramid1Price', 'pyramid2Price',
+             'exit1Price', 'exit2Price', 'exit3Price', 'avgExitPrice', 'realisedAmount', 'plRs'].includes(field)) {
+          // Enhanced number parsing for cross-platform compatibility
+          const parsedNumber = readNumber(value);
+          (trade as any)[field] = parsedNumber;
+        } else if (['initialQty', 'pyramid1Qty', 'pyramid2Qty', 'exit1Qty', 'exit2Qty', 'exit3Qty',
+                   'openQty', 'exitedQty', 'holdingDays'].includes(field)) {
+          // Enhanced quantity parsing for cross-platform compatibility
+          const parsedQuantity = readNumber(value);
+          (trade as any)[field] = Math.round(parsedQuantity); // Quantities should be whole numbers
+        } else if (['slPercent', 'allocation', 'stockMove', 'openHeat', 'pfImpact', 'cummPf', 'positionSize'].includes(field)) {
+          // Enhanced percentage/decimal parsing
+          const parsedPercent = readNumber(value);
+          (trade as any)[field] = parsedPercent;
+        } else if (field === 'buySell') {
+          // Handle Buy/Sell field - normalize common variations
+          const buySellValue = String(value || '').toLowerCase().trim();
+          if (buySellValue === 'b' || buySellValue === 'buy' || buySellValue === 'long') {
+            (trade as any)[field] = 'Buy';
+          } else if (buySellValue === 's' || buySellValue === 'sell' || buySellValue === 'short') {
+            (trade as any)[field] = 'Sell';
+          } else {
+            (trade as any)[field] = 'Buy'; // Default to Buy if unclear
+          }
+        } else if (field === 'legs') {
+          // "Buy 100 @ 250 on 2024-01-05; Sell 50 @ 270 on 2024-02-01" - as written by the journal export
+          (trade as any).legs = parseLegsFromCell(String(value || ''));
+        } else if (field === 'planFollowed') {
+          // Handle boolean fields
+          const boolValue = String(value || '').toLowerCase();
+          (trade as any)[field] = boolValue === 'true' || boolValue === 'yes' || boolValue === '1';
+        } else if (field.includes('Date') && value) {
+          // Enhanced date parsing with smart year assignment for pyramid/exit dates
+          let tradeYear: number | undefined;
+
+          // Get trade year from main date field for pyramid/exit dates, or use selected year
+          if (['pyramid1Date', 'pyramid2Date', 'exit1Date', 'exit2Date', 'exit3Date'].includes(field)) {
+            // First try to get year from the main trade date in the same row
+            const mainDateField = columnMapping['date'];
+            if (mainDateField) {
+              const mainDateIndex = parsedData.headers.indexOf(mainDateField);
+              if (mainDateIndex !== -1 && row[mainDateIndex]) {
+                const mainDateValue = String(row[mainDateIndex]).trim();
+                // Try to extract year from main date directly
+                if (/\d{4}/.test(mainDateValue)) {
+                  const yearMatch = mainDateValue.match(/\d{4}/);
+                  if (yearMatch) {
+                    const extractedYear = parseInt(yearMatch[0], 10);
+                    if (extractedYear >= 2000 && extractedYear <= new Date().getFullYear() + 5) {
+                      tradeYear = extractedYear;
                     }
                   }
+                }
 
-                  // If no year found in main date, parse it with current year
-                  if (!tradeYear) {
-                    const currentYear = new Date().getFullYear();
-                    const mainDateParsed = parseDate(mainDateValue, undefined, currentYear);
-                    if (mainDateParsed) {
-                      // mainDateParsed is in ISO format (YYYY-MM-DD), so year is the first part
-                      const [yearStr] = mainDateParsed.split('-');
-                      tradeYear = parseInt(yearStr, 10);
-                    }
+                // If no year found in main date, parse it with current year
+                if (!tradeYear) {
+                  const currentYear = new Date().getFullYear();
+                  const mainDateParsed = parseDate(mainDateValue, undefined, currentYear);
+                  if (mainDateParsed) {
+                    // mainDateParsed is in ISO format (YYYY-MM-DD), so year is the first part
+                    const [yearStr] = mainDateParsed.split('-');
+                    tradeYear = parseInt(yearStr, 10);
                   }
                 }
               }
-
-              // Always fallback to current year if no valid year found
-              if (!tradeYear || tradeYear < 2000) {
-                tradeYear = new Date().getFullYear();
-              }
             }
 
-            const finalYear = tradeYear || new Date().getFullYear();
-            const parsedDate = parseDate(value, undefined, finalYear);
-            (trade as any)[field] = parsedDate || (() => {
-              const today = new Date();
-              const day = String(today.getDate()).padStart(2, '0');
-              const month = String(today.getMonth() + 1).padStart(2, '0');
-              const year = today.getFullYear();
-              return `${year}-${month}-${day}`; // ISO format for database
-            })();
-          } else if (field === 'positionStatus') {
-            // Handle status field - normalize common variations
-            const statusValue = String(value || '').toLowerCase().trim();
-            if (statusValue === 'open' || statusValue === 'o') {
-              (trade as any)[field] = 'Open';
-            } else if (statusValue === 'closed' || statusValue === 'c') {
-              (trade as any)[field] = 'Closed';
-            } else if (statusValue === 'partial' || statusValue === 'p') {
-              (trade as any)[field] = 'Partial';
-            } else {
-              (trade as any)[field] = statusValue || 'Open'; // Default to Open
+            // Always fallback to current year if no valid year found
+            if (!tradeYear || tradeYear < 2000) {
+              tradeYear = new Date().getFullYear();
             }
-          } else if (field === 'rewardRisk') {
-            // Handle R:R field - parse as decimal
-            const rrValue = parseFlexibleNumber(value);
-            (trade as any)[field] = rrValue;
-          } else if (field === 'setup') {
-            // Special handling for setup field - reject numeric values
-            const setupValue = String(value || '').trim();
-            // If the value looks like a number (price), don't use it for setup
-            if (setupValue && !(/^\d+\.?\d*$/.test(setupValue))) {
-              (trade as any)[field] = setupValue;
-            } else {
-              (trade as any)[field] = ''; // Leave empty if it's a numeric value
-            }
-          } else if (['name', 'exitTrigger', 'proficiencyGrowthAreas', 'notes', 'baseDuration'].includes(field)) {
-            // Handle text fields - store as string, trim whitespace
-            (trade as any)[field] = String(value || '').trim();
+          }
+
+          // Excel sheets hold dates as serial day numbers
+          const parsedDate = typeof value === 'number'
+            ? normalizeBrokerDate(value) || null
+            : parseDate(value, undefined, tradeYear || new Date().getFullYear());
+          if (!parsedDate) {
+            issues.push({ type: 'warning', message: `Row ${rowNumber}: "${value}" in ${column} is not a date - today's date was used` });
+          }
+          (trade as any)[field] = parsedDate || (() => {
+            const today = new Date();
+            const day = String(today.getDate()).padStart(2, '0');
+            const month = String(today.getMonth() + 1).padStart(2, '0');
+            const year = today.getFullYear();
+            return `${year}-${month}-${day}`; // ISO format for database
+          })();
+        } else if (field === 'positionStatus') {
+          // Handle status field - normalize common variations
+          const statusValue = String(value || '').toLowerCase().trim();
+          if (statusValue === 'open' || statusValue === 'o') {
+            (trade as any)[field] = 'Open';
+          } else if (statusValue === 'closed' || statusValue === 'c') {
+            (trade as any)[field] = 'Closed';
+          } else if (statusValue === 'partial' || statusValue === 'p') {
+            (trade as any)[field] = 'Partial';
+          } else {
+            (trade as any)[field] = statusValue || 'Open'; // Default to Open
+          }
+        } else if (field === 'rewardRisk') {
+          // Handle R:R field - parse as decimal
+          const rrValue = readNumber(value);
+          (trade as any)[field] = rrValue;
+        } else if (field === 'setup') {
+          // Special handling for setup field - reject numeric values
+          const setupValue = String(value || '').trim();
+          // If the value looks like a number (price), don't use it for setup
+          if (setupValue && !(/^\d+\.?\d*$/.test(setupValue))) {
+            (trade as any)[field] = setupValue;
           } else {
-            (trade as any)[field] = String(value || '');
+            (trade as any)[field] = ''; // Leave empty if it's a numeric value
           }
+        } else if (['name', 'exitTrigger', 'proficiencyGrowthAreas', 'notes', 'baseDuration'].includes(field)) {
+          // Handle text fields - store as string, trim whitespace
+          (trade as any)[field] = String(value || '').trim();
+        } else {
+          (trade as any)[field] = String(value || '');
         }
-      });
-
-      // Only include non-blank trades in preview
-      if (!isTradeCompletelyBlank(trade)) {
-        validTradeCount++;
-        trade.tradeNo = String(validTradeCount);
-        trades.push(recalculateTradeFields(trade as Trade));
       }
-    }
-
-    setPreviewTrades(trades);
-    setStep('preview');
-  }, [parsedData, columnMapping, recalculateTradeFields, isTradeCompletelyBlank]);
-
-  const handleImport = useCallback(async () => {
-    // For broker formats (Zerodha, Dhan, Upstox), we don't need parsedData as they use previewTrades
-    if (!parsedData && !isZerodhaFormat && !isDhanFormat && !isUpstoxFormat) return;
+    });
 
-    setStep('importing');
-    setImportProgress(0);
-    setError(null);
+    if (!trade.setup && defaultSetup) {
+      trade.setup = defaultSetup;
+    }
 
-    // Small delay to ensure UI updates before starting import
-    await new Promise(resolve => setTimeout(resolve, 100));
+    return { trade, issues };
+  }, [parsedData, columnMapping, parseDate, numberFormat, defaultSetup]);
 
-    // CRITICAL FIX: For Zerodha format, use the already processed preview trades
-    if (isZerodhaFormat && previewTrades.length > 0) {
-      console.log('🎯 Importing Zerodha trades from preview data');
-      setImportProgress(50);
+  // Map every row, then have the worker recalculate and compare the result with the journal -
+  // nothing is saved until the import is confirmed
+  const generatePreview = useCallback(async () => {
+    if (!parsedData) return;
 
-      // Import the already processed Zerodha trades
-      onImport(previewTrades);
+    const trades: Trade[] = [];
+    const parseIssues: Record<string, TradeIssue[]> = {};
 
-      setImportProgress(100);
+    parsedData.rows.forEach((row, index) => {
+      const { trade, issues } = mapRowToTrade(row, index + 1);
+      if (isTradeCompletelyBlank(trade)) return;
 
-      // Small delay to show completion before closing
-      setTimeout(() => {
-        onOpenChange(false);
-
-        // Reset state
-        setStep('upload');
-        setParsedData(null);
-        setColumnMapping({});
-        setMappingConfidence({});
-        setPreviewTrades([]);
-        setImportProgress(0);
-        setIsZerodhaFormat(false);
-        setIsDhanFormat(false);
-        setIsUpstoxFormat(false);
-      }, 1000);
+      // Sequential trade numbers for the rows that hold trades
+      trade.tradeNo = String(trades.length + 1);
+      if (issues.length > 0) parseIssues[trade.id!] = issues;
+      trades.push(trade as Trade);
+    });
 
+    if (trades.length === 0) {
+      addToast({ title: 'No Trades Found', description: 'None of the rows hold a trade with this column mapping.', color: 'warning' });
       return;
     }
 
-    // CRITICAL FIX: For Dhan format, use the already processed preview trades
-    if (isDhanFormat && previewTrades.length > 0) {
-      console.log('🎯 Importing Dhan trades from preview data');
-      setImportProgress(50);
-
-      // Import the already processed Dhan trades
-      onImport(previewTrades);
-
-      setImportProgress(100);
-
-      // Show success toast for Dhan trade imports
-      addToast({
-        title: 'Dhan Trades Imported Successfully',
-        description: `${previewTrades.length} trade${previewTrades.length > 1 ? 's' : ''} imported successfully from Dhan.`,
-        color: 'success',
-        variant: 'solid',
-        radius: 'lg',
-        icon: <Icon icon="lucide:trending-up" className="text-white text-base mr-2" />,
-        classNames: {
-          base: 'flex items-center w-full max-w-[380px] min-w-[280px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-success-500 transition-all duration-200 relative gap-2',
-          title: 'text-sm font-semibold text-white',
-          description: 'text-xs text-white/90'
-        }
-      });
-
-      // Small delay to show completion before closing
-      setTimeout(() => {
-        onOpenChange(false);
-
-        // Reset state
-        setStep('upload');
-        setParsedData(null);
-        setColumnMapping({});
-        setMappingConfidence({});
-        setPreviewTrades([]);
-        setImportProgress(0);
-        setIsDhanFormat(false);
-      }, 1500);
-
+    setFileProgress({ stage: 'checking', progress: 0 });
+    let rows: ImportPreviewRow[] | null;
+    try {
+      rows = await runPreview(trades, parseIssues, accountTrades, (stage, progress) => setFileProgress({ stage, progress }), getImportPortfolio());
+    } catch (error) {
+      setError(`Failed to check the mapped trades: ${error.message}`);
       return;
+    } finally {
+      setFileProgress(null);
     }
+    if (!rows) return; // Cancelled
 
-    // CRITICAL FIX: For Upstox format, use the already processed preview trades
-    if (isUpstoxFormat && previewTrades.length > 0) {
-      console.log('🎯 Importing Upstox trades from preview data');
-      setImportProgress(50);
-
-      // Import the already processed Upstox trades
-      onImport(previewTrades);
-
-      setImportProgress(100);
-
-      // Show success toast for Upstox trade imports
-      addToast({
-        title: 'Upstox Trades Imported Successfully',
-        description: `${previewTrades.length} trade${previewTrades.length > 1 ? 's' : ''} imported successfully from Upstox Excel.`,
-        color: 'warning',
-        variant: 'solid',
-        radius: 'lg',
-        icon: <Icon icon="lucide:file-spreadsheet" className="text-white text-base mr-2" />,
-        classNames: {
-          base: 'flex items-center w-full max-w-[380px] min-w-[280px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-warning-500 transition-all duration-200 relative gap-2',
-          title: 'text-sm font-semibold text-white',
-          description: 'text-xs text-white/90'
-        }
-      });
-
-      // Small delay to show completion before closing
-      setTimeout(() => {
-        onOpenChange(false);
-
-        // Reset state
-        setStep('upload');
-        setParsedData(null);
-        setColumnMapping({});
-        setMappingConfidence({});
-        setPreviewTrades([]);
-        setImportProgress(0);
-        setIsZerodhaFormat(false);
-        setIsDhanFormat(false);
-        setIsUpstoxFormat(false);
-      }, 1500);
+    setPreviewRows(rows);
+    setStep('preview');
+  }, [parsedData, mapRowToTrade, isTradeCompletelyBlank, runPreview, accountTrades, getImportPortfolio]);
 
+  // Duplicates and the open trades fills continue depend on the account - check the preview again
+  // against the newly chosen one
+  const previewAccountRef = useRef(targetAccountId);
+  useEffect(() => {
+    if (step !== 'preview') {
+      previewAccountRef.current = targetAccountId;
       return;
     }
+    if (previewAccountRef.current === targetAccountId) return;
+    previewAccountRef.current = targetAccountId;
 
-    // Regular CSV processing for non-broker files
-    const trades: Trade[] = [];
-    const totalRows = parsedData.rows.length;
-    let validTradeCount = 0;
-    let skippedBlankTrades = 0;
-    let dateParsingErrors: string[] = [];
-
-    // Process in smaller chunks for better progress visibility
-    const CHUNK_SIZE = 10; // Process 10 trades at a time for better progress updates
-    const chunks = [];
-
-    // Split rows into chunks
-    for (let i = 0; i < totalRows; i += CHUNK_SIZE) {
-      chunks.push(parsedData.rows.slice(i, i + CHUNK_SIZE));
+    if (isBrokerFormat && sourceFile) {
+      handleFileUpload(sourceFile);
+    } else {
+      generatePreview();
     }
+  }, [step, targetAccountId, isBrokerFormat, sourceFile, handleFileUpload, generatePreview]);
 
-    // Process chunks with yielding to prevent UI freezing
-    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-      const chunk = chunks[chunkIndex];
-
-      // Update progress at the start of each chunk
-      const initialProgress = (chunkIndex / chunks.length) * 100;
-      setImportProgress(initialProgress);
-
-      // Process each row in the chunk
-      for (const row of chunk) {
-
-      // Create base trade object
-      const trade: Partial<Trade> = {
-        id: uuidv4(),
-        tradeNo: '', // Will be set after filtering
-        date: new Date().toISOString(),
-        name: '',
-        setup: '',
-        buySell: 'Buy',
-        entry: 0,
-        avgEntry: 0,
-        sl: 0,
-        tsl: 0,
-        cmp: 0,
-        initialQty: 0,
-        pyramid1Price: 0,
-        pyramid1Qty: 0,
-        pyramid1Date: '',
-        pyramid2Price: 0,
-        pyramid2Qty: 0,
-        pyramid2Date: '',
-        positionSize: 0,
-        allocation: 0,
-        exit1Price: 0,
-        exit1Qty: 0,
-        exit1Date: '',
-        exit2Price: 0,
-        exit2Qty: 0,
-        exit2Date: '',
-        exit3Price: 0,
-        exit3Qty: 0,
-        exit3Date: '',
-        openQty: 0,
-        exitedQty: 0,
-        avgExitPrice: 0,
-        stockMove: 0,
-        openHeat: 0,
-        rewardRisk: 0,
-        holdingDays: 0,
-        positionStatus: 'Open',
-        realisedAmount: 0,
-        plRs: 0,
-        pfImpact: 0,
-        cummPf: 0,
-        planFollowed: true,
-        exitTrigger: '',
-        proficiencyGrowthAreas: '',
-        baseDuration: '',
-        slPercent: 0,
-        notes: '',
-      };
-
-      // Map values based on column mapping
-      Object.entries(columnMapping).forEach(([field, column]) => {
-        const columnIndex = parsedData.headers.indexOf(column);
-        if (columnIndex !== -1 && row[columnIndex] !== undefined) {
-          const value = row[columnIndex];
-
-          // Type conversion based on field - ONLY for user input fields
-          if (['entry', 'avgEntry', 'sl', 'tsl', 'cmp', 'pyramid1Price', 'pyramid2Price',
-               'exit1Price', 'exit2Price', 'exit3Price', 'avgExitPrice', 'realisedAmount', 'plRs'].includes(field)) {
-            // Enhanced number parsing for cross-platform compatibility
-            const parsedNumber = parseFlexibleNumber(value);
-            (trade as any)[field] = parsedNumber;
-          } else if (['initialQty', 'pyramid1Qty', 'pyramid2Qty', 'exit1Qty', 'exit2Qty', 'exit3Qty',
-                     'openQty', 'exitedQty', 'holdingDays'].includes(field)) {
-            // Enhanced quantity parsing for cross-platform compatibility
-            const parsedQuantity = parseFlexibleNumber(value);
-            (trade as any)[field] = Math.round(parsedQuantity); // Quantities should be whole numbers
-          } else if (['slPercent', 'allocation', 'stockMove', 'openHeat', 'pfImpact', 'cummPf', 'positionSize'].includes(field)) {
-            // Enhanced percentage/decimal parsing
-            const parsedPercent = parseFlexibleNumber(value);
-            (trade as any)[field] = parsedPercent;
-          } else if (field === 'buySell') {
-            // Handle Buy/Sell field - normalize common variations
-            const buySellValue = String(value || '').toLowerCase().trim();
-            if (buySellValue === 'b' || buySellValue === 'buy' || buySellValue === 'long') {
-              (trade as any)[field] = 'Buy';
-            } else if (buySellValue === 's' || buySellValue === 'sell' || buySellValue === 'short') {
-              (trade as any)[field] = 'Sell';
-            } else {
-              (trade as any)[field] = 'Buy'; // Default to Buy if unclear
-            }
-          } else if (field === 'planFollowed') {
-            // Handle boolean fields
-            const boolValue = String(value || '').toLowerCase();
-            (trade as any)[field] = boolValue === 'true' || boolValue === 'yes' || boolValue === '1';
-          } else if (field.includes('Date') && value) {
-            // Enhanced date parsing with smart year assignment for pyramid/exit dates
-            let tradeYear: number | undefined;
-
-            // Get trade year from main date field for pyramid/exit dates, or use selected year
-            if (['pyramid1Date', 'pyramid2Date', 'exit1Date', 'exit2Date', 'exit3Date'].includes(field)) {
-              // First try to get year from the main trade date in the same row
-              const mainDateField = columnMapping['date'];
-              if (mainDateField) {
-                const mainDateIndex = parsedData.headers.indexOf(mainDateField);
-                if (mainDateIndex !== -1 && row[mainDateIndex]) {
-                  const mainDateValue = String(row[mainDateIndex]).trim();
-
-                  // Try to extract year from main date directly
-                  if (/\d{4}/.test(mainDateValue)) {
-                    const yearMatch = mainDateValue.match(/\d{4}/);
-                    if (yearMatch) {
-                      const extractedYear = parseInt(yearMatch[0], 10);
-                      if (extractedYear >= 2000 && extractedYear <= new Date().getFullYear() + 5) {
-                        tradeYear = extractedYear;
-                      }
-                    }
-                  }
-
-                  // If no year found in main date, parse it with current year
-                  if (!tradeYear) {
-                    const currentYear = new Date().getFullYear();
-                    const mainDateParsed = parseDate(mainDateValue, undefined, currentYear);
-                    if (mainDateParsed) {
-                      // mainDateParsed is in ISO format (YYYY-MM-DD), so year is the first part
-                      const [yearStr] = mainDateParsed.split('-');
-                      tradeYear = parseInt(yearStr, 10);
-                    }
-                  }
-                }
-              }
-
-              // Always fallback to current year if no valid year found
-              if (!tradeYear || tradeYear < 2000) {
-                tradeYear = new Date().getFullYear();
-              }
-            }
-
-            const parsedDate = parseDate(value, undefined, tradeYear || new Date().getFullYear());
-            if (!parsedDate && value) {
-              dateParsingErrors.push('Row ' + (validTradeCount + skippedBlankTrades + 1) + ': Invalid date "' + value + '" in ' + field);
-            }
-            (trade as any)[field] = parsedDate || (() => {
-              const today = new Date();
-              const day = String(today.getDate()).padStart(2, '0');
-              const month = String(today.getMonth() + 1).padStart(2, '0');
-              const year = today.getFullYear();
-              return `${year}-${month}-${day}`; // ISO format for database
-            })();
-          } else if (field === 'positionStatus') {
-            // Handle status field - normalize common variations
-            const statusValue = String(value || '').toLowerCase().trim();
-            if (statusValue === 'open' || statusValue === 'o') {
-              (trade as any)[field] = 'Open';
-            } else if (statusValue === 'closed' || statusValue === 'c') {
-              (trade as any)[field] = 'Closed';
-            } else if (statusValue === 'partial' || statusValue === 'p') {
-              (trade as any)[field] = 'Partial';
-            } else {
-              (trade as any)[field] = statusValue || 'Open'; // Default to Open
-            }
-          } else if (field === 'rewardRisk') {
-            // Handle R:R field - parse as decimal
-            const rrValue = parseFlexibleNumber(value);
-            (trade as any)[field] = rrValue;
-          } else if (field === 'setup') {
-            // Special handling for setup field - reject numeric values
-            const setupValue = String(value || '').trim();
-            // If the value looks like a number (price), don't use it for setup
-            if (setupValue && !(/^\d+\.?\d*$/.test(setupValue))) {
-              (trade as any)[field] = setupValue;
-            } else {
-              (trade as any)[field] = ''; // Leave empty if it's a numeric value
-            }
-          } else if (['name', 'exitTrigger', 'proficiencyGrowthAreas', 'notes', 'baseDuration'].includes(field)) {
-            // Handle text fields - store as string, trim whitespace
-            (trade as any)[field] = String(value || '').trim();
-          } else {
-            (trade as any)[field] = String(value || '');
-          }
-        }
-      });
-
-        // Check if trade is completely blank and skip if so
-        if (isTradeCompletelyBlank(trade)) {
-          skippedBlankTrades++;
-        } else {
-          // Assign sequential trade number only for valid trades
-          validTradeCount++;
-          trade.tradeNo = String(validTradeCount);
-
-          // Recalculate all auto-populated fields
-          const recalculatedTrade = recalculateTradeFields(trade as Trade);
-          trades.push(recalculatedTrade);
-        }
-      }
+  const toggleRow = useCallback((index: number) => {
+    setPreviewRows(rows => rows.map((row, rowIndex) => rowIndex === index ? { ...row, excluded: !row.excluded } : row));
+  }, []);
 
-      // Update progress after each chunk with more accurate calculation
-      const actualProcessedRows = Math.min((chunkIndex + 1) * CHUNK_SIZE, totalRows);
-      const progress = Math.round((actualProcessedRows / totalRows) * 100);
-      setImportProgress(progress);
+  // Corrected slot columns are folded into the legs before everything derived from them is recalculated
+  const editRow = useCallback((index: number, changes: Partial<Trade>) => {
+    setPreviewRows(rows => rows.map((row, rowIndex) => rowIndex === index
+      ? updateImportRow(row, recalculateTradeFields(withSyncedLegs({ ...row.trade, ...changes })))
+      : row));
+  }, [recalculateTradeFields]);
 
-      // Yield control to browser to prevent freezing and make progress visible
-      if (chunkIndex < chunks.length - 1) {
-        await new Promise(resolve => {
-          // Add a small delay to make progress visible
-          setTimeout(() => {
-            if (window.requestIdleCallback) {
-              window.requestIdleCallback(resolve);
-            } else {
-              resolve(undefined);
-            }
-          }, 50); // 50ms delay to make progress visible
-        });
-      }
-    }
+  const handleImport = useCallback(async () => {
+    if (includedRows.length === 0) return;
 
-    // Show date parsing warnings if any
-    if (dateParsingErrors.length > 0) {
-      const errorMessage = 'Import completed with ' + dateParsingErrors.length + ' date parsing warnings. Some dates may have been set to today\'s date. Check the imported trades and update dates as needed.';
-      setError(errorMessage);
+    setStep('importing');
+    setImportProgress(0);
+    setError(null);
 
-      // Still proceed with import but show warning
-      setTimeout(() => setError(null), 5000); // Clear error after 5 seconds
-    }
+    // Small delay to ensure UI updates before starting import
+    await new Promise(resolve => setTimeout(resolve, 100));
+    setImportProgress(50);
 
-    // Import trades
-    onImport(trades);
+    // Modified trades stay in the account they belong to; new trades go to the chosen one
+    const trades = includedRows.map(({ trade, kind }) => ({
+      ...trade,
+      accountId: kind === 'modified' ? (trade.accountId || DEFAULT_ACCOUNT_ID) : targetAccountId
+    }));
+    const batch: ImportBatchInput = {
+      id: uuidv4(),
+      source: parsedData?.fileName || `${detectedBroker?.name} ${isJournalExport ? 'export' : 'tradebook'}`,
+      previousTrades: includedRows.filter(row => row.kind === 'modified').map(row => row.match)
+    };
+    onImport(trades, batch);
 
     setImportProgress(100);
 
-    // Show success toast for regular trade imports
+    const modifiedCount = batch.previousTrades.length;
     addToast({
-      title: 'Trades Imported Successfully',
-      description: `${trades.length} trade${trades.length > 1 ? 's' : ''} imported successfully to your journal.`,
+      title: detectedBroker ? `${detectedBroker.name} Trades Imported Successfully` : 'Trades Imported Successfully',
+      description: detectedBroker
+        ? `${describeBrokerMerge(trades.length - modifiedCount, modifiedCount, brokerSkippedFills)} from ${detectedBroker.name}.`
+        : `${trades.length} trade${trades.length > 1 ? 's' : ''} imported successfully to your journal.`,
       color: 'success',
       variant: 'solid',
       radius: 'lg',
-      icon: <Icon icon="lucide:trending-up" className="text-white text-base mr-2" />,
+      icon: <Icon icon={detectedBroker ? detectedBroker.badge.icon : 'lucide:trending-up'} className="text-white text-base mr-2" />,
+      endContent: (
+        <Button size="sm" variant="flat" className="text-white" onPress={() => undoImport(batch)}>
+          Undo
+        </Button>
+      ),
       classNames: {
         base: 'flex items-center w-full max-w-[380px] min-w-[280px] p-3 pr-6 rounded-[12px] shadow-lg border-0 bg-success-500 transition-all duration-200 relative gap-2',
         title: 'text-sm font-semibold text-white',
@@ -2369,17 +1917,25 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
       setParsedData(null);
       setColumnMapping({});
       setMappingConfidence({});
-      setPreviewTrades([]);
+      setPreviewRows([]);
       setImportProgress(0);
-    }, 1500); // Slightly longer delay to show the toast
-  }, [parsedData, columnMapping, onImport, onOpenChange, recalculateTradeFields, isTradeCompletelyBlank, isZerodhaFormat, previewTrades]);
+      setDetectedBroker(null);
+      setBrokerSkippedFills(0);
+    }, 1500);
+  }, [includedRows, parsedData, onImport, targetAccountId, onOpenChange, detectedBroker, isJournalExport, brokerSkippedFills, undoImport]);
 
   // Auto-proceed when consent is given after file upload
   useEffect(() => {
     if (dataConsentGiven && parsedData && step === 'upload') {
-      // For broker formats (Zerodha/Dhan/Upstox), we already processed and went to preview in handleFileUpload
+      // Broker tradebooks were already processed and went to preview in handleFileUpload
       // So we don't need to auto-proceed here
-      if (isZerodhaFormat || isDhanFormat || isUpstoxFormat) {
+      if (isBrokerFormat) {
+        return;
+      }
+
+      // A saved profile already knows the date format
+      if (activeProfileId) {
+        setTimeout(() => setStep('mapping'), 300);
         return;
       }
 
@@ -2414,23 +1970,32 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
         }
       }, 300);
     }
-  }, [dataConsentGiven, parsedData, step, isZerodhaFormat, isDhanFormat, isUpstoxFormat]);
+  }, [dataConsentGiven, parsedData, step, isBrokerFormat, activeProfileId]);
 
   const resetModal = useCallback(() => {
+    cancelImport();
+    setFileProgress(null);
     setStep('upload');
     setParsedData(null);
     setColumnMapping({});
     setMappingConfidence({});
-    setPreviewTrades([]);
+    setPreviewRows([]);
     setImportProgress(0);
     setError(null);
     setSelectedDateFormat('auto');
     setShowImportBanner(true); // Reset banner to show every time modal opens
     setDataConsentGiven(false); // Reset data consent when modal resets
-    setIsZerodhaFormat(false); // Reset Zerodha format detection
-    setIsDhanFormat(false); // Reset Dhan format detection
-    setIsUpstoxFormat(false); // Reset Upstox format detection
-  }, []);
+    setDetectedBroker(null); // Reset broker detection
+    setIsJournalExport(false);
+    setBrokerSkippedFills(0);
+    setActiveProfileId(null);
+    setProfileName('');
+    setNumberFormat(DEFAULT_NUMBER_FORMAT);
+    setDefaultSetup('');
+    setHeaderRowOffset(0);
+    setSourceSheets([]);
+    setSourceFile(null);
+  }, [cancelImport]);
 
 
 
@@ -2561,8 +2126,8 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
               {/* Progress indicator */}
               <div className="flex items-center justify-center gap-2 mt-3 py-2 px-3 bg-default-50 dark:bg-default-100/5 rounded border border-default-200 dark:border-default-100/10 overflow-x-auto">
                 {(() => {
-                  // For broker formats (Zerodha, Dhan, Upstox), show simplified steps: upload -> preview -> importing
-                  const steps = (isZerodhaFormat || isDhanFormat || isUpstoxFormat)
+                  // Broker tradebooks show simplified steps: upload -> preview -> importing
+                  const steps = isBrokerFormat
                     ? ['upload', 'preview', 'importing']
                     : ['upload', 'dateFormat', 'mapping', 'preview', 'importing'];
 
@@ -2659,7 +2224,36 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                       onDragOver={(e) => e.preventDefault()}
                       onDrop={handleDrop}
                     >
-                      {!parsedData ? (
+                      {fileProgress ? (
+                        // Reading state - the worker keeps the modal responsive, so it can be cancelled
+                        <div className="flex flex-col items-center gap-3 py-2">
+                          <div className="w-10 h-10 rounded-full border-4 border-slate-200 dark:border-slate-700 border-t-slate-600 dark:border-t-slate-400 animate-spin" />
+                          <div className="w-full max-w-sm space-y-2">
+                            <div className="flex justify-between text-xs text-default-500">
+                              <span>{IMPORT_STAGE_LABELS[fileProgress.stage]}...</span>
+                              <span>{Math.round(fileProgress.progress)}%</span>
+                            </div>
+                            <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
+                              <div
+                                className="h-full bg-slate-500 dark:bg-slate-400 rounded-full transition-all duration-500 ease-out"
+                                style={{ width: `${fileProgress.progress}%` }}
+                              />
+                            </div>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="light"
+                            className="text-xs"
+                            onPress={() => {
+                              cancelImport();
+                              setFileProgress(null);
+                            }}
+                            startContent={<Icon icon="lucide:x" className="w-3 h-3" />}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : !parsedData ? (
                         // Upload state
                         <div className="flex flex-col items-center gap-4">
                           <div className={`relative w-10 h-10 rounded-lg flex items-center justify-center transition-all duration-200 ${
@@ -2685,7 +2279,8 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                               Upload Trade File
                             </h3>
                             <p className="text-sm text-default-500">
-                              CSV files (Zerodha, Dhan) or Excel files (Upstox only)
+                              Journal CSV/Excel sheets, tradebooks from {getBrokerAdapters().map(adapter => adapter.name).join(', ')}, or
+                              exports from {getJournalExportFormats().map(format => format.name).join(', ')}
                             </p>
                             <p className="text-xs text-default-400">
                               Drag & drop your file here or click to browse
@@ -2731,38 +2326,16 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                               <p className="text-xs text-default-500">
                                 {parsedData.rows.length} rows • {parsedData.headers.length} columns
                               </p>
-                              {(isZerodhaFormat || isDhanFormat || isUpstoxFormat) && (
+                              {detectedBroker && (
                                 <div className="flex items-center justify-center gap-1 mt-2">
-                                  {isZerodhaFormat && (
-                                    <Chip
-                                      size="sm"
-                                      color="primary"
-                                      variant="flat"
-                                      startContent={<Icon icon="lucide:zap" className="w-3 h-3" />}
-                                    >
-                                      Zerodha Format Detected
-                                    </Chip>
-                                  )}
-                                  {isDhanFormat && (
-                                    <Chip
-                                      size="sm"
-                                      color="success"
-                                      variant="flat"
-                                      startContent={<Icon icon="lucide:trending-up" className="w-3 h-3" />}
-                                    >
-                                      Dhan Format Detected
-                                    </Chip>
-                                  )}
-                                  {isUpstoxFormat && (
-                                    <Chip
-                                      size="sm"
-                                      color="warning"
-                                      variant="flat"
-                                      startContent={<Icon icon="lucide:file-spreadsheet" className="w-3 h-3" />}
-                                    >
-                                      Upstox Format Detected
-                                    </Chip>
-                                  )}
+                                  <Chip
+                                    size="sm"
+                                    color={detectedBroker.badge.color}
+                                    variant="flat"
+                                    startContent={<Icon icon={detectedBroker.badge.icon} className="w-3 h-3" />}
+                                  >
+                                    {detectedBroker.name} Format Detected
+                                  </Chip>
                                 </div>
                               )}
                             </div>
@@ -2804,6 +2377,36 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                       </div>
                     )}
 
+                    {!parsedData && recentImports.length > 0 && (
+                      <div className="border border-default-200 dark:border-default-100/10 rounded-lg p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Icon icon="lucide:history" className="w-4 h-4 text-default-600" />
+                          <span className="text-sm font-medium text-foreground">Recent imports</span>
+                        </div>
+                        {recentImports.map(batch => (
+                          <div key={batch.id} className="flex items-center justify-between gap-2 text-xs">
+                            <div className="min-w-0">
+                              <p className="font-medium text-foreground truncate">{batch.source}</p>
+                              <p className="text-default-500">
+                                {formatImportTime(batch.importedAt)} • {batch.addedTradeIds.length} added
+                                {batch.previousTrades.length > 0 && `, ${batch.previousTrades.length} updated`}
+                              </p>
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="light"
+                              color="danger"
+                              className="h-7 px-3 text-xs flex-shrink-0"
+                              onPress={() => undoImport(batch)}
+                              startContent={<Icon icon="lucide:undo-2" className="w-3 h-3" />}
+                            >
+                              Roll back
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="bg-default-50 dark:bg-default-100/5 border border-default-200 dark:border-default-100/10 rounded-lg p-3">
                       <div className="flex items-center gap-2 mb-2">
                         <Icon icon="lucide:file-text" className="w-4 h-4 text-default-600" />
@@ -3090,6 +2693,110 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                     exit={{ opacity: 0, x: -20 }}
                     className="space-y-6"
                   >
+                    <Card>
+                      <CardHeader className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Icon icon="lucide:bookmark" className="text-slate-600 dark:text-slate-400" />
+                          <span className="font-medium">Import Profile</span>
+                        </div>
+                        <Select
+                          size="sm"
+                          aria-label="Import profile"
+                          className="max-w-[220px]"
+                          placeholder="No saved profile"
+                          selectedKeys={activeProfileId ? [activeProfileId] : []}
+                          onSelectionChange={(keys) => selectProfile((Array.from(keys)[0] as string) || null)}
+                        >
+                          {importProfiles.map(profile => (
+                            <SelectItem key={profile.id}>{profile.name}</SelectItem>
+                          ))}
+                        </Select>
+                      </CardHeader>
+                      <CardBody className="pt-0 space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                          {sourceSheets.length > 1 && (
+                            <Select
+                              size="sm"
+                              label="Sheet"
+                              selectedKeys={currentSheet?.sheetName ? [currentSheet.sheetName] : []}
+                              disallowEmptySelection
+                              onSelectionChange={(keys) => {
+                                const sheet = sourceSheets.find(candidate => candidate.sheetName === Array.from(keys)[0]);
+                                if (sheet) openTradeSheet(sheet, 0, null);
+                              }}
+                            >
+                              {sourceSheets.map(sheet => (
+                                <SelectItem key={sheet.sheetName}>{sheet.sheetName}</SelectItem>
+                              ))}
+                            </Select>
+                          )}
+                          <Input
+                            size="sm"
+                            type="number"
+                            label="Header row"
+                            min={1}
+                            value={String(headerRowOffset + 1)}
+                            onValueChange={(value) => {
+                              const offset = Math.max(0, (parseInt(value, 10) || 1) - 1);
+                              if (currentSheet && offset !== headerRowOffset) openTradeSheet(currentSheet, offset, null);
+                            }}
+                          />
+                          <Select
+                            size="sm"
+                            label="Number format"
+                            selectedKeys={[numberFormatKey(numberFormat)]}
+                            disallowEmptySelection
+                            onSelectionChange={(keys) => {
+                              const option = NUMBER_FORMAT_OPTIONS.find(candidate => candidate.key === Array.from(keys)[0]);
+                              if (option) setNumberFormat(option.format);
+                            }}
+                          >
+                            {NUMBER_FORMAT_OPTIONS.map(option => (
+                              <SelectItem key={option.key}>{option.label}</SelectItem>
+                            ))}
+                          </Select>
+                          <Input
+                            size="sm"
+                            label="Default setup"
+                            placeholder="Used when a row has none"
+                            value={defaultSetup}
+                            onValueChange={setDefaultSetup}
+                          />
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            size="sm"
+                            aria-label="Profile name"
+                            placeholder="Profile name, e.g. My Google Sheet"
+                            value={profileName}
+                            onValueChange={setProfileName}
+                          />
+                          <Button
+                            size="sm"
+                            variant="flat"
+                            className="flex-shrink-0"
+                            isDisabled={!profileName.trim()}
+                            onPress={saveCurrentProfile}
+                            startContent={<Icon icon="lucide:save" className="w-3.5 h-3.5" />}
+                          >
+                            Save Profile
+                          </Button>
+                          {activeProfileId && (
+                            <Button
+                              isIconOnly
+                              size="sm"
+                              variant="light"
+                              color="danger"
+                              aria-label="Delete profile"
+                              onPress={removeActiveProfile}
+                            >
+                              <Icon icon="lucide:trash-2" className="w-3.5 h-3.5" />
+                            </Button>
+                          )}
+                        </div>
+                      </CardBody>
+                    </Card>
+
                     <Card>
                       <CardHeader>
                         <div className="flex items-center gap-2">
@@ -3212,7 +2919,7 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                   </motion.div>
                 )}
 
-                {step === 'preview' && previewTrades.length > 0 && (
+                {step === 'preview' && previewRows.length > 0 && (
                   <motion.div
                     key="preview"
                     initial={{ opacity: 0, x: 20 }}
@@ -3220,44 +2927,53 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                     exit={{ opacity: 0, x: -20 }}
                     className="space-y-6"
                   >
+                    {accounts.length > 1 && (
+                      <div className="flex items-center justify-between gap-4 p-3 rounded-lg border border-divider">
+                        <div className="flex items-center gap-2 text-sm">
+                          <Icon icon="lucide:wallet" className="text-foreground-500" />
+                          <span className="font-medium">Import into account</span>
+                        </div>
+                        <Select
+                          size="sm"
+                          aria-label="Import into account"
+                          className="max-w-[220px]"
+                          selectedKeys={[targetAccountId]}
+                          disallowEmptySelection
+                          onSelectionChange={(keys) => {
+                            const selectedKey = Array.from(keys)[0] as string;
+                            if (selectedKey) setTargetAccountId(selectedKey);
+                          }}
+                        >
+                          {accounts.map(account => (
+                            <SelectItem key={account.id}>
+                              {account.broker ? `${account.name} (${account.broker})` : account.name}
+                            </SelectItem>
+                          ))}
+                        </Select>
+                      </div>
+                    )}
                     <Card>
                       <CardHeader>
                         <Chip size="sm" variant="flat" className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300">
-                          Showing first 5 rows
+                          Dry run - review before importing
                         </Chip>
                       </CardHeader>
                       <CardBody className="pt-0">
                         <div className="mb-4">
                           <div className="space-y-2">
-                            {isZerodhaFormat && (
-                              <div className="flex items-center gap-2 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/20 dark:to-indigo-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
-                                <Icon icon="lucide:zap" className="text-blue-600 dark:text-blue-400" />
+                            {detectedBroker && (
+                              <div className="flex items-center gap-2 p-3 bg-default-50 dark:bg-default-100/10 rounded-lg border border-default-200 dark:border-default-100/20">
+                                <Icon icon={detectedBroker.badge.icon} className="text-default-600" />
                                 <div className="text-sm">
-                                  <span className="text-blue-700 dark:text-blue-300 font-semibold">Zerodha Format Processed:</span>
-                                  <span className="text-blue-600 dark:text-blue-400 ml-1">
-                                    Transactions automatically grouped into trades with proper entry/exit calculations
-                                  </span>
-                                </div>
-                              </div>
-                            )}
-                            {isDhanFormat && (
-                              <div className="flex items-center gap-2 p-3 bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-950/20 dark:to-emerald-950/20 rounded-lg border border-green-200 dark:border-green-800">
-                                <Icon icon="lucide:trending-up" className="text-green-600 dark:text-green-400" />
-                                <div className="text-sm">
-                                  <span className="text-green-700 dark:text-green-300 font-semibold">Dhan Format Processed:</span>
-                                  <span className="text-green-600 dark:text-green-400 ml-1">
-                                    Transactions automatically grouped into trades with proper entry/exit calculations
-                                  </span>
-                                </div>
-                              </div>
-                            )}
-                            {isUpstoxFormat && (
-                              <div className="flex items-center gap-2 p-3 bg-gradient-to-r from-orange-50 to-amber-50 dark:from-orange-950/20 dark:to-amber-950/20 rounded-lg border border-orange-200 dark:border-orange-800">
-                                <Icon icon="lucide:file-spreadsheet" className="text-orange-600 dark:text-orange-400" />
-                                <div className="text-sm">
-                                  <span className="text-orange-700 dark:text-orange-300 font-semibold">Upstox Format Processed:</span>
-                                  <span className="text-orange-600 dark:text-orange-400 ml-1">
-                                    Excel transactions automatically grouped into trades with proper entry/exit calculations
+                                  <span className="text-foreground font-semibold">{detectedBroker.name} Format Processed:</span>
+                                  <span className="text-default-600 ml-1">
+                                    {isJournalExport
+                                      ? 'Trades carried over with their setups, tags, exit reasons and notes'
+                                      : 'Transactions automatically grouped into trades with proper entry/exit calculations'} - {describeBrokerMerge(
+                                      previewRows.filter(row => row.kind !== 'modified').length,
+                                      previewRows.filter(row => row.kind === 'modified').length,
+                                      brokerSkippedFills
+                                    )}
                                   </span>
                                 </div>
                               </div>
@@ -3274,72 +2990,16 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                                 CMP values from CSV will be imported as-is (no auto-fetching)
                               </span>
                             </div>
+                            <div className="flex items-center gap-2 p-2 bg-default-50 dark:bg-default-100/10 rounded-lg">
+                              <Icon icon="lucide:list-checks" className="text-default-600" />
+                              <span className="text-sm text-default-700 font-medium">
+                                Suspected duplicates start unticked. Untick rows to leave them out, or edit a row to correct it.
+                              </span>
+                            </div>
                           </div>
                         </div>
 
-                        <ScrollShadow className="max-h-96">
-                          <Table aria-label="Preview table" className="min-w-full">
-                            <TableHeader>
-                              <TableColumn>Name</TableColumn>
-                              <TableColumn>Date</TableColumn>
-                              <TableColumn>Entry</TableColumn>
-                              <TableColumn>Avg Entry</TableColumn>
-                              <TableColumn>Qty</TableColumn>
-                              <TableColumn>Position Size</TableColumn>
-                              <TableColumn>Allocation %</TableColumn>
-                              <TableColumn>Status</TableColumn>
-                              <TableColumn>P/L</TableColumn>
-                            </TableHeader>
-                            <TableBody>
-                              {previewTrades.slice(0, 5).map((trade, index) => (
-                                <TableRow key={index}>
-                                  <TableCell>{trade.name || '-'}</TableCell>
-                                  <TableCell>
-                                    {(() => {
-                                      if (!trade.date) return '-';
-                                      try {
-                                        const dateObj = new Date(trade.date);
-                                        return isNaN(dateObj.getTime()) ? trade.date : dateObj.toLocaleDateString();
-                                      } catch {
-                                        return trade.date;
-                                      }
-                                    })()}
-                                  </TableCell>
-                                  <TableCell>₹{trade.entry?.toFixed(2) || '0.00'}</TableCell>
-                                  <TableCell>
-                                    <span className="text-slate-600 dark:text-slate-400 font-medium">
-                                      ₹{trade.avgEntry?.toFixed(2) || '0.00'}
-                                    </span>
-                                  </TableCell>
-                                  <TableCell>{trade.initialQty || 0}</TableCell>
-                                  <TableCell>
-                                    <span className="text-slate-600 dark:text-slate-400 font-medium">
-                                      ₹{trade.positionSize?.toLocaleString() || '0'}
-                                    </span>
-                                  </TableCell>
-                                  <TableCell>
-                                    <span className="text-slate-600 dark:text-slate-400 font-medium">
-                                      {trade.allocation?.toFixed(2) || '0.00'}%
-                                    </span>
-                                  </TableCell>
-                                  <TableCell>
-                                    <Chip size="sm" variant="flat" color={
-                                      trade.positionStatus === 'Open' ? 'warning' :
-                                      trade.positionStatus === 'Closed' ? 'success' : 'primary'
-                                    }>
-                                      {trade.positionStatus}
-                                    </Chip>
-                                  </TableCell>
-                                  <TableCell>
-                                    <span className={trade.plRs >= 0 ? 'text-success' : 'text-danger'}>
-                                      ₹{trade.plRs?.toFixed(2) || '0.00'}
-                                    </span>
-                                  </TableCell>
-                                </TableRow>
-                              ))}
-                            </TableBody>
-                          </Table>
-                        </ScrollShadow>
+                        <ImportPreviewTable rows={previewRows} onToggleRow={toggleRow} onEditRow={editRow} />
                       </CardBody>
                     </Card>
                   </motion.div>
@@ -3425,8 +3085,8 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                         if (step === 'dateFormat') setStep('upload');
                         else if (step === 'mapping') setStep('dateFormat');
                         else if (step === 'preview') {
-                          // For broker formats (Zerodha/Dhan/Upstox), go back to upload since we skip mapping
-                          if (isZerodhaFormat || isDhanFormat || isUpstoxFormat) {
+                          // Broker tradebooks go back to upload since we skip mapping
+                          if (isBrokerFormat) {
                             setStep('upload');
                           } else {
                             setStep('mapping');
@@ -3469,12 +3129,29 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                     </Button>
                   )}
 
+                  {step === 'mapping' && fileProgress && (
+                    // Mapped trades are checked in the worker - cancellable like reading a file
+                    <Button
+                      variant="light"
+                      size="sm"
+                      className="h-8 px-4 text-xs"
+                      onPress={() => {
+                        cancelImport();
+                        setFileProgress(null);
+                      }}
+                      startContent={<Icon icon="lucide:x" className="w-3 h-3" />}
+                    >
+                      {IMPORT_STAGE_LABELS[fileProgress.stage]}... {Math.round(fileProgress.progress)}% - Cancel
+                    </Button>
+                  )}
+
                   {step === 'mapping' && (
                     <Button
                       color="success"
                       size="sm"
                       className="h-8 px-4 text-xs"
                       onPress={generatePreview}
+                      isLoading={Boolean(fileProgress)}
                       isDisabled={MAPPABLE_FIELDS.filter(f => f.required).some(field => !columnMapping[field.key])}
                       endContent={<Icon icon="lucide:arrow-right" className="w-3 h-3" />}
                     >
@@ -3488,9 +3165,10 @@ export const TradeUploadModal: React.FC<TradeUploadModalProps> = ({
                       size="sm"
                       className="h-8 px-4 text-xs"
                       onPress={handleImport}
+                      isDisabled={includedRows.length === 0}
                       endContent={<Icon icon="lucide:upload" className="w-3 h-3" />}
                     >
-                      Import {(isZerodhaFormat || isDhanFormat || isUpstoxFormat) ? previewTrades.length : parsedData?.rows.length}
+                      Import {includedRows.length}
                     </Button>
                   )}
                 </div>
@@ -4,7 +4,7 @@ import { Icon } from '@iconify/react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChartImage } from '../types/trade';
 import { formatFileSize } from '../utils/chartImageUtils';
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 import { ChartImageService } from '../services/chartImageService';
 
 interface UniversalChartViewerProps {
@@ -266,8 +266,7 @@ export const UniversalChartViewer: React.FC<UniversalChartViewerProps> = ({
 
     try {
       // PRODUCTION-SAFE: Use paginated loading for chart viewer
-      const tradesResult = await SupabaseService.getTradesWithSmartLoading({ pageSize: 100, maxResults: 500 });
-      const allTrades = tradesResult.trades;
+      const allTrades = await StorageService.backend.trades.getAll({ pageSize: 100, maxResults: 500 });
 
       // PURE SUPABASE: Extract chart images from trade chart attachments
       const imagesWithDataUrls: ChartImageWithContext[] = [];
@@ -19,8 +19,9 @@ import { useTruePortfolioWithTrades } from "../../hooks/use-true-portfolio-with-
 import { useAccountingMethod } from "../../context/AccountingMethodContext";
 import { useGlobalFilter } from "../../context/GlobalFilterContext";
 import { isTradeInGlobalFilter } from "../../utils/dateFilterUtils";
-import { fetchPriceTicksSmart } from "../../utils/priceTickApi";
+import { getMarketDataProvider } from "../../utils/marketData";
 import { calculateTradePL } from "../../utils/accountingUtils";
+import { getExitLegs } from "../../lib/calculations";
 
 export interface ChartDataPoint {
   month: string;
@@ -98,53 +99,33 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
     try {
       // Fetching index data for comparison
 
-      const response = await fetchPriceTicksSmart(
-        indexSymbol,
-        startDate,
-        endDate,
-        '1d' // Daily interval for index comparison
-      );
-
-      // Handle Strike API response structure: data.data.ticks[symbol]
-      if (response?.data?.ticks && response.data.ticks[indexSymbol]) {
-        const ticks = response.data.ticks[indexSymbol];
-
-        if (ticks.length > 0) {
-          // CRITICAL FIX: Calculate cumulative performance from portfolio start date
-          // This ensures fair comparison with portfolio cumulative returns
-          const baselinePrice = ticks[0][4]; // First tick's close price (portfolio start)
-
-          const processedData: IndexDataPoint[] = ticks.map((tick: any, index: number) => {
-            // Strike API tick format: [dateTime, open, high, low, close, volume, dayVolume]
-            const dateTime = tick[0]; // DateTime string
-            const open = tick[1];     // Open price
-            const high = tick[2];     // High price
-            const low = tick[3];      // Low price
-            const close = tick[4];    // Close price
-            const volume = tick[5];   // Volume
-
-            // Parse date and format for consistency
-            const date = new Date(dateTime).toISOString().split('T')[0];
-
-            // Calculate cumulative percentage from portfolio start date
-            // This matches the portfolio's cumulative return calculation
-            const percentage = ((close - baselinePrice) / baselinePrice) * 100;
-
-            return {
-              date,
-              close,
-              percentage
-            };
-          });
+      const provider = await getMarketDataProvider();
+      const candles = await provider.getEodHistory(indexSymbol, startDate, endDate);
 
-          setIndexData(processedData);
-        } else {
-          throw new Error('No ticks data received');
-        }
-      } else {
-        console.error('❌ Invalid response structure:', response);
-        throw new Error('Invalid API response structure');
+      if (candles.length === 0) {
+        throw new Error('No candles received');
       }
+
+      // CRITICAL FIX: Calculate cumulative performance from portfolio start date
+      // This ensures fair comparison with portfolio cumulative returns
+      const baselinePrice = candles[0].close; // First candle's close price (portfolio start)
+
+      const processedData: IndexDataPoint[] = candles.map(({ time, close }) => {
+        // Parse date and format for consistency
+        const date = new Date(time).toISOString().split('T')[0];
+
+        // Calculate cumulative percentage from portfolio start date
+        // This matches the portfolio's cumulative return calculation
+        const percentage = ((close - baselinePrice) / baselinePrice) * 100;
+
+        return {
+          date,
+          close,
+          percentage
+        };
+      });
+
+      setIndexData(processedData);
     } catch (error) {
       console.error(`❌ Failed to fetch ${indexSymbol} data:`, error);
       setIndexError(`Failed to load ${indexSymbol} data`);
@@ -173,9 +154,9 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
             dates.push(new Date(trade.date));
           }
           if (useCashBasis && (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial')) {
-            if (trade.exit1Date) dates.push(new Date(trade.exit1Date));
-            if (trade.exit2Date) dates.push(new Date(trade.exit2Date));
-            if (trade.exit3Date) dates.push(new Date(trade.exit3Date));
+            getExitLegs(trade).forEach(exit => {
+              if (exit.date) dates.push(new Date(exit.date));
+            });
           }
         });
 
@@ -217,9 +198,9 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = (props) => {
 
         // For cash basis, also add exit dates
         if (useCashBasis && (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial')) {
-          if (trade.exit1Date) dates.push(new Date(trade.exit1Date));
-          if (trade.exit2Date) dates.push(new Date(trade.exit2Date));
-          if (trade.exit3Date) dates.push(new Date(trade.exit3Date));
+          getExitLegs(trade).forEach(exit => {
+            if (exit.date) dates.push(new Date(exit.date));
+          });
         }
       });
 
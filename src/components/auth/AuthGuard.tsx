@@ -4,6 +4,8 @@ import { AuthModal } from './AuthModal'
 import { Spinner } from '@heroui/react'
 import { motion } from 'framer-motion'
 import { Icon } from '@iconify/react'
+import { SyncService } from '../../services/syncService'
+import { StorageService } from '../../services/storageBackend'
 import '../../styles/auth-performance.css'
 
 interface AuthGuardProps {
@@ -55,7 +57,8 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children, fallback }) => {
   const { user, session, loading, error } = authData || {}
   const [mounted, setMounted] = useState(false)
   const [showAuthModal, setShowAuthModal] = useState(false)
-  const [isGuestMode, setIsGuestMode] = useState(false)
+  // Local-only and in-memory storage never need an account, so they skip the auth modal on later visits too
+  const [isGuestMode, setIsGuestMode] = useState(() => !StorageService.backend.requiresAuth)
   const [authError, setAuthError] = useState<string | null>(null)
   const [forceShowAuth, setForceShowAuth] = useState(false)
 
@@ -85,7 +88,7 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children, fallback }) => {
   }, [loading, mounted])
 
   // Show loading spinner while checking authentication (but not if we're forcing auth display)
-  if ((!mounted || loading) && !forceShowAuth) {
+  if ((!mounted || loading) && !forceShowAuth && !isGuestMode) {
     return (
       <div className="min-h-screen bg-background font-sans antialiased">
         {/* Backdrop with subtle pattern */}
@@ -315,6 +318,7 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children, fallback }) => {
           setForceShowAuth(false) // Reset the force flag
         }}
         onGuestMode={() => {
+          SyncService.setStorageMode('local')
           setIsGuestMode(true)
           setForceShowAuth(false) // Reset the force flag
         }}
@@ -210,10 +210,10 @@ export const AuthModal: React.FC<AuthModalProps> = ({
                   onClick={onGuestMode}
                   className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
                 >
-                  Continue as Guest
+                  Continue without an account
                 </button>
                 <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                  Limited features available
+                  Your journal stays in this browser (local-only mode)
                 </p>
               </div>
             )}
@@ -22,11 +22,16 @@ import { FixedSizeList } from "react-window";
 import { TaxSummaryChart } from "./tax/tax-summary-chart";
 import { TaxTable } from "./tax/tax-table";
 import { TaxEditModal } from "./tax/tax-edit-modal";
+import { CapitalGainsSummary } from "./tax/capital-gains-summary";
 import { useTrades } from "../hooks/use-trades";
 import { useAccountingMethod } from "../context/AccountingMethodContext";
 import { useGlobalFilter } from "../context/GlobalFilterContext";
 import { calculateTradePL } from "../utils/accountingUtils";
+import { getExitLegs, filterTradesBySegment, splitTradesBySegment, TRADE_SEGMENTS } from "../lib/calculations";
+import type { TradeSegment } from "../lib/calculations";
 import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
+import { RealtimeService } from '../services/realtimeService';
 import { AuthService } from '../services/authService';
 
 // ===================================================================================
@@ -44,16 +49,17 @@ export const invalidateTaxDataCache = async () => {
   }
 };
 
-const setupTaxDataListener = (callback) => {
-  window.addEventListener('taxDataUpdated', callback);
-  return () => {
-    window.removeEventListener('taxDataUpdated', callback);
-  };
-};
+// Tax sheet saved here, in another tab or on another device
+const setupTaxDataListener = (callback) =>
+  RealtimeService.onChange(change => {
+    if (change.entity === 'misc' && (change.key === 'taxData' || change.op === 'reload')) {
+      callback();
+    }
+  });
 
 const getCachedTaxData = async () => {
   try {
-    return await SupabaseService.getMiscData('taxData') || {};
+    return await StorageService.backend.taxData.get() || {};
   } catch (error) {
     console.error('❌ Failed to fetch tax data:', error);
     return {};
@@ -68,11 +74,7 @@ export const updateChargesBreakdown = async (chargesData) => {
       chargesBreakdown: chargesData,
       lastUpdated: new Date().toISOString()
     };
-    const success = await SupabaseService.saveMiscData('taxData', updatedTaxData);
-    if (success) {
-      window.dispatchEvent(new CustomEvent('taxDataUpdated'));
-    }
-    return success;
+    return await StorageService.backend.taxData.save(updatedTaxData);
   } catch (error) {
     return false;
   }
@@ -117,26 +119,16 @@ const workerLogic = () => {
                     const avgEntry = trade.avgEntry || trade.entry || 0;
                     let totalRealizedPL = 0;
 
-                    // Calculate P/L for each exit
-                    if (trade.exit1Date && trade.exit1Qty && trade.exit1Price && avgEntry > 0) {
-                        const pl = trade.buySell === 'Buy'
-                            ? (trade.exit1Price - avgEntry) * trade.exit1Qty
-                            : (avgEntry - trade.exit1Price) * trade.exit1Qty;
-                        totalRealizedPL += pl;
-                    }
-
-                    if (trade.exit2Date && trade.exit2Qty && trade.exit2Price && avgEntry > 0) {
-                        const pl = trade.buySell === 'Buy'
-                            ? (trade.exit2Price - avgEntry) * trade.exit2Qty
-                            : (avgEntry - trade.exit2Price) * trade.exit2Qty;
-                        totalRealizedPL += pl;
-                    }
-
-                    if (trade.exit3Date && trade.exit3Qty && trade.exit3Price && avgEntry > 0) {
-                        const pl = trade.buySell === 'Buy'
-                            ? (trade.exit3Price - avgEntry) * trade.exit3Qty
-                            : (avgEntry - trade.exit3Price) * trade.exit3Qty;
-                        totalRealizedPL += pl;
+                    // Calculate P/L for each exit leg
+                    if (avgEntry > 0) {
+                        getExitLegs(trade)
+                            .filter(exit => exit.date)
+                            .forEach(exit => {
+                                const pl = trade.buySell === 'Buy'
+                                    ? (exit.price - avgEntry) * exit.qty
+                                    : (avgEntry - exit.price) * exit.qty;
+                                totalRealizedPL += pl;
+                            });
                     }
 
                     // Fallback: If no individual exit data but we have partial exit information
@@ -470,14 +462,16 @@ VirtualizedDrawdownTable.displayName = 'VirtualizedDrawdownTable';
 // === MAIN COMPONENT (REFACTORED & SIMPLIFIED)
 // ===================================================================================
 export const TaxAnalytics = () => {
-  const { trades } = useTrades();
+  const { trades: allTrades } = useTrades();
   const { accountingMethod } = useAccountingMethod();
   const useCashBasis = accountingMethod === 'cash';
 
-  const tradeYears = useMemo(() => Array.from(new Set(trades.map(t => new Date(t.date).getFullYear()))).sort((a, b) => b - a), [trades]);
+  const tradeYears = useMemo(() => Array.from(new Set(allTrades.map(t => new Date(t.date).getFullYear()))).sort((a, b) => b - a), [allTrades]);
   const yearOptions = useMemo(() => ['All time', ...tradeYears.map(String)], [tradeYears]);
+  const segmentOptions = useMemo(() => ['All segments', ...TRADE_SEGMENTS], []);
   
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear().toString());
+  const [selectedSegment, setSelectedSegment] = useState('All segments');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState(null);
   const [isDrawdownModalOpen, setIsDrawdownModalOpen] = useState(false);
@@ -508,6 +502,21 @@ export const TaxAnalytics = () => {
     setTaxesByMonth(yearDataToShow);
   }, [selectedYear, monthOrder]);
   
+  // F&O is taxed as business income, so the segments are tracked separately
+  const trades = useMemo(
+    () => filterTradesBySegment(allTrades, selectedSegment === 'All segments' ? 'All' : selectedSegment as TradeSegment),
+    [allTrades, selectedSegment]
+  );
+
+  const segmentSplit = useMemo(() => {
+    const yearTrades = selectedYear === 'All time' ? allTrades : allTrades.filter(t => t.date.startsWith(selectedYear));
+    const split = splitTradesBySegment(yearTrades);
+    return TRADE_SEGMENTS.map(segment => ({
+      segment,
+      grossPL: split[segment].reduce((sum, t) => sum + (t.plRs || 0), 0)
+    }));
+  }, [allTrades, selectedYear]);
+
   useEffect(() => { loadTaxData(); }, [loadTaxData]);
   useEffect(() => setupTaxDataListener(loadTaxData), [loadTaxData]);
 
@@ -520,6 +529,13 @@ export const TaxAnalytics = () => {
       }
   }, [selectedYear]);
 
+  const handleSegmentChange = useCallback((keys) => {
+      const selected = Array.from(keys)[0];
+      if (selected) {
+          setSelectedSegment(String(selected));
+      }
+  }, []);
+
   const handleDrawdownClick = useCallback(() => setIsDrawdownModalOpen(true), []);
 
   return (
@@ -535,6 +551,23 @@ export const TaxAnalytics = () => {
             {yearOptions.map((option) => (<DropdownItem key={option} textValue={option}>{option}</DropdownItem>))}
           </DropdownMenu>
         </Dropdown>
+        <div className="flex items-center gap-3">
+          {segmentSplit.map(({ segment, grossPL }) => (
+            <span key={segment} className="text-xs text-default-500">
+              {segment}: <span className={grossPL >= 0 ? 'text-success' : 'text-danger'}>₹{grossPL.toLocaleString('en-IN', { maximumFractionDigits: 0 })}</span>
+            </span>
+          ))}
+          <Dropdown>
+            <DropdownTrigger>
+                <Button variant="light" endContent={<Icon icon="lucide:chevron-down" />} size="sm" radius="full">
+                    {selectedSegment}
+                </Button>
+            </DropdownTrigger>
+            <DropdownMenu aria-label="Segment selection" selectionMode="single" selectedKeys={new Set([selectedSegment])} onSelectionChange={handleSegmentChange} disallowEmptySelection>
+              {segmentOptions.map((option) => (<DropdownItem key={option} textValue={option}>{option}</DropdownItem>))}
+            </DropdownMenu>
+          </Dropdown>
+        </div>
         <Button variant="light" startContent={<Icon icon="lucide:download" />} size="sm" radius="full">
             Export
         </Button>
@@ -555,6 +588,8 @@ export const TaxAnalytics = () => {
         </Card>
       </div>
       
+      <CapitalGainsSummary trades={allTrades} />
+
       <Card>
           <CardHeader><h3 className="text-xl font-semibold">Monthly Tax Breakdown</h3></CardHeader>
           <Divider />
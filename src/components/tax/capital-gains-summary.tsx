@@ -0,0 +1,209 @@
+import React from "react";
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Divider,
+  Button,
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+  Input,
+  Tooltip
+} from "@heroui/react";
+import { Icon } from "@iconify/react";
+import * as XLSX from "xlsx";
+import { Trade } from "../../types/trade";
+import { StorageService } from "../../services/storageBackend";
+import {
+  GAIN_CATEGORY_LABELS,
+  matchRealizedLotsForTrades,
+  summarizeCapitalGains,
+  getFinancialYears,
+  getFinancialYear,
+  buildSchedule112ARows,
+  buildScheduleCGRows
+} from "../../lib/calculations";
+import type { GainCategory, RatePeriod } from "../../lib/calculations";
+
+interface CapitalGainsSummaryProps {
+  trades: Trade[];
+}
+
+const CATEGORY_ORDER: GainCategory[] = ['speculative', 'stcg', 'ltcg', 'business'];
+
+const PERIOD_LABELS: Record<RatePeriod, string> = {
+  beforeRateChange: 'Up to 22 Jul 2024',
+  fromRateChange: 'From 23 Jul 2024'
+};
+
+// 31-Jan-2018 closing prices entered by the user, keyed by symbol
+const FMV_KEY = 'grandfatheringFmv';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(value);
+
+/**
+ * CapitalGainsSummary - FY breakdown of realized gains by tax category
+ *
+ * Features:
+ * - Lot-level FIFO matching of fills into intraday / STCG / LTCG / F&O buckets
+ * - 112A exemption and pre/post 23-Jul-2024 rate split
+ * - Grandfathering FMV entry for shares bought on or before 31-Jan-2018
+ * - Excel export laid out like Schedule CG and Schedule 112A
+ */
+export const CapitalGainsSummary: React.FC<CapitalGainsSummaryProps> = ({ trades }) => {
+  const [fmvBySymbol, setFmvBySymbol] = React.useState<Record<string, number>>({});
+  const [selectedFy, setSelectedFy] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    StorageService.backend.misc.get(FMV_KEY)
+      .then(stored => setFmvBySymbol(stored && typeof stored === 'object' ? stored : {}))
+      .catch(() => {});
+  }, []);
+
+  // Cash basis expands exits into separate rows - match lots on the original trades only
+  const sourceTrades = React.useMemo(() => {
+    const seen = new Set<string>();
+    return trades.filter(trade => {
+      const id = trade.id.split('_exit_')[0];
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  }, [trades]);
+
+  const lots = React.useMemo(() => matchRealizedLotsForTrades(sourceTrades, fmvBySymbol), [sourceTrades, fmvBySymbol]);
+  const financialYears = React.useMemo(() => {
+    const years = getFinancialYears(lots);
+    return years.length > 0 ? years : [getFinancialYear(new Date().toISOString())];
+  }, [lots]);
+  const financialYear = selectedFy && financialYears.includes(selectedFy) ? selectedFy : financialYears[0];
+  const summary = React.useMemo(() => summarizeCapitalGains(lots, financialYear), [lots, financialYear]);
+
+  // Symbols with grandfathered lots this FY, so the user knows which FMVs matter
+  const grandfatheredSymbols = React.useMemo(
+    () => Array.from(new Set(summary.lots.filter(lot => lot.isGrandfathered).map(lot => lot.name))),
+    [summary]
+  );
+
+  const saveFmv = async (symbol: string, value: string) => {
+    const price = Number(value);
+    const next = { ...fmvBySymbol };
+    if (price > 0) next[symbol] = price; else delete next[symbol];
+    setFmvBySymbol(next);
+    await StorageService.backend.misc.save(FMV_KEY, next);
+  };
+
+  const handleExport = () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(buildScheduleCGRows(summary)), "Schedule CG");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(buildSchedule112ARows(summary)), "Schedule 112A");
+    XLSX.writeFile(workbook, `capital_gains_FY${financialYear}.xlsx`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold">Capital Gains</h3>
+          <p className="text-xs text-default-500">Realized lots matched FIFO by fill date</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Dropdown>
+            <DropdownTrigger>
+              <Button variant="light" endContent={<Icon icon="lucide:chevron-down" />} size="sm" radius="full">
+                FY {financialYear}
+              </Button>
+            </DropdownTrigger>
+            <DropdownMenu
+              aria-label="Financial year selection"
+              selectionMode="single"
+              selectedKeys={new Set([financialYear])}
+              onSelectionChange={(keys) => {
+                const selected = Array.from(keys)[0];
+                if (selected) setSelectedFy(String(selected));
+              }}
+              disallowEmptySelection
+            >
+              {financialYears.map(fy => (<DropdownItem key={fy} textValue={fy}>FY {fy}</DropdownItem>))}
+            </DropdownMenu>
+          </Dropdown>
+          <Button variant="flat" size="sm" radius="full" startContent={<Icon icon="lucide:download" />} onPress={handleExport} isDisabled={summary.lots.length === 0}>
+            ITR schedules
+          </Button>
+        </div>
+      </CardHeader>
+      <Divider />
+      <CardBody className="space-y-5">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          {CATEGORY_ORDER.map(category => {
+            const totals = summary.categories[category];
+            return (
+              <div key={category} className="p-3 rounded-lg border border-divider">
+                <p className="text-xs text-default-500">{GAIN_CATEGORY_LABELS[category]}</p>
+                <p className={`text-lg font-semibold ${totals.net >= 0 ? 'text-success' : 'text-danger'}`}>{formatCurrency(totals.net)}</p>
+                <p className="text-[11px] text-default-400">
+                  {totals.lots} lots · +{formatCurrency(totals.gains)} / -{formatCurrency(totals.losses)}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
+          <div className="space-y-2">
+            <p className="font-medium">By rate period</p>
+            {(Object.keys(PERIOD_LABELS) as RatePeriod[]).map(period => (
+              <div key={period} className="flex justify-between text-default-600">
+                <span>{PERIOD_LABELS[period]}</span>
+                <span className="font-mono">
+                  STCG {formatCurrency(summary.stcgByPeriod[period])} · LTCG {formatCurrency(summary.ltcgByPeriod[period])}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <p className="font-medium">Tax estimate</p>
+            <div className="flex justify-between text-default-600">
+              <span>112A exemption used</span>
+              <span className="font-mono">{formatCurrency(summary.ltcgExemptionUsed)} of {formatCurrency(summary.ltcgExemptionLimit)}</span>
+            </div>
+            <div className="flex justify-between text-default-600">
+              <span className="flex items-center gap-1">
+                Tax on 111A / 112A
+                <Tooltip content="Before surcharge and 4% cess. Intraday and F&O income is taxed at your slab rate." placement="top">
+                  <Icon icon="lucide:info" className="text-foreground-400 cursor-pointer" />
+                </Tooltip>
+              </span>
+              <span className="font-mono text-danger">{formatCurrency(summary.estimatedTax)}</span>
+            </div>
+          </div>
+        </div>
+
+        {grandfatheredSymbols.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">FMV on 31-Jan-2018 (grandfathering)</p>
+            <div className="flex flex-wrap gap-2">
+              {grandfatheredSymbols.map(symbol => (
+                <Input
+                  key={symbol}
+                  size="sm"
+                  type="number"
+                  label={symbol}
+                  labelPlacement="outside-left"
+                  placeholder="Price"
+                  defaultValue={fmvBySymbol[symbol]?.toString() ?? ''}
+                  onBlur={(e) => saveFmv(symbol, (e.target as HTMLInputElement).value)}
+                  className="max-w-[220px]"
+                  startContent={<span className="text-default-400 text-xs">₹</span>}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
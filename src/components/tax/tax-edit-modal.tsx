@@ -12,7 +12,7 @@ import {
   Tab
 } from "@heroui/react";
 import { Icon } from "@iconify/react";
-import { SupabaseService } from "../../services/supabaseService";
+import { StorageService } from "../../services/storageBackend";
 
 interface TaxEditModalProps {
   isOpen: boolean;
@@ -23,7 +23,7 @@ interface TaxEditModalProps {
 // Supabase helpers
 async function fetchTaxData() {
   try {
-    const stored = await SupabaseService.getMiscData('taxData');
+    const stored = await StorageService.backend.taxData.get();
     return stored || {};
   } catch (error) {
     return {};
@@ -32,7 +32,7 @@ async function fetchTaxData() {
 
 async function saveTaxData(taxData: any) {
   try {
-    await SupabaseService.saveMiscData('taxData', taxData);
+    await StorageService.backend.taxData.save(taxData);
   } catch (error) {
     console.error('Failed to save tax data:', error);
   }
@@ -76,9 +76,6 @@ export const TaxEditModal: React.FC<TaxEditModalProps> = ({
     currentData[selectedYear][month] = taxes;
     await saveTaxData(currentData);
 
-    // CRITICAL FIX: Notify other components about tax data update
-    window.dispatchEvent(new CustomEvent('taxDataUpdated'));
-
     onOpenChange(false);
     window.dispatchEvent(new Event('storage'));
   }, [month, taxes, onOpenChange]);
@@ -16,11 +16,14 @@ import { Trade } from "../../types/trade";
 import { useTruePortfolioWithTrades } from "../../hooks/use-true-portfolio-with-trades";
 import { useTrades } from "../../hooks/use-trades";
 import { useAccountingMethod } from "../../context/AccountingMethodContext";
+import { useAccounts } from "../../context/AccountContext";
 import { getTradesForMonth, calculateTradePL } from "../../utils/accountingUtils";
 import { ZerodhaChargesBreakdown, formatChargesBreakdown } from "../../utils/zerodhaChargesParser";
 import { UpstoxChargesBreakdown, formatUpstoxChargesBreakdown } from "../../utils/upstoxChargesParser";
 import { MobileTooltip } from "../ui/MobileTooltip";
-import { SupabaseService } from "../../services/supabaseService";
+import { StorageService } from "../../services/storageBackend";
+import { RealtimeService } from "../../services/realtimeService";
+import { calcTradeFillCharges, sumCharges, formatChargeBreakdown, ChargeBreakdown } from "../../lib/calculations";
 
 interface TaxTableProps {
   trades: Trade[];
@@ -42,6 +45,7 @@ interface TaxData {
   grossPFImpact: string;
   netPFImpact: string;
   returnPercent: string;
+  estimatedCharges?: ChargeBreakdown; // Set when taxes were pre-filled by the charges engine
 }
 
 const taxData: TaxData[] = [
@@ -218,7 +222,7 @@ const taxData: TaxData[] = [
 // Supabase helpers
 async function fetchTaxData() {
   try {
-    const stored = await SupabaseService.getMiscData('taxData');
+    const stored = await StorageService.backend.taxData.get();
     return stored || {};
   } catch (error) {
     return {};
@@ -227,7 +231,7 @@ async function fetchTaxData() {
 
 async function saveTaxData(taxData: any) {
   try {
-    await SupabaseService.saveMiscData('taxData', taxData);
+    await StorageService.backend.taxData.save(taxData);
   } catch (error) {
     console.error('Failed to save tax data:', error);
   }
@@ -303,6 +307,7 @@ const EditableText: React.FC<{
 export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, setTaxesByMonth, selectedYear: parentSelectedYear }) => {
   const { portfolioSize, getPortfolioSize } = useTruePortfolioWithTrades(trades);
   const { accountingMethod } = useAccountingMethod();
+  const { getFeePlan } = useAccounts();
   const useCashBasis = accountingMethod === 'cash';
   const [editingCell, setEditingCell] = useState<{ month: string; value: string } | null>(null);
 
@@ -322,7 +327,7 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
   useEffect(() => {
     const loadChargesBreakdown = async () => {
       try {
-        const taxData = await SupabaseService.getMiscData('taxData');
+        const taxData = await StorageService.backend.taxData.get();
         if (taxData?.chargesBreakdown) {
           setChargesBreakdown(taxData.chargesBreakdown);
         }
@@ -333,15 +338,12 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
 
     loadChargesBreakdown();
 
-    // Listen for tax data updates
-    const handleTaxDataUpdated = () => {
-      loadChargesBreakdown();
-    };
-
-    window.addEventListener('taxDataUpdated', handleTaxDataUpdated);
-    return () => {
-      window.removeEventListener('taxDataUpdated', handleTaxDataUpdated);
-    };
+    // Reload when the tax sheet is saved here, in another tab or on another device
+    return RealtimeService.onChange(change => {
+      if (change.entity === 'misc' && (change.key === 'taxData' || change.op === 'reload')) {
+        loadChargesBreakdown();
+      }
+    });
   }, []);
 
   // Debug logs removed for cleaner console
@@ -375,6 +377,22 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
     }
   });
 
+  // Charges engine estimate per month, bucketed by the date of each fill
+  const estimatedChargesByMonth = React.useMemo(() => {
+    const fillsByMonth: Record<string, ChargeBreakdown[]> = {};
+    trades.forEach(trade => {
+      calcTradeFillCharges(trade, getFeePlan(trade.accountId)).forEach(fill => {
+        const fillDate = new Date(fill.date);
+        if (isNaN(fillDate.getTime()) || fillDate.getFullYear() !== selectedYear) return;
+        const month = monthOrder[fillDate.getMonth()];
+        (fillsByMonth[month] = fillsByMonth[month] || []).push(fill);
+      });
+    });
+    return Object.fromEntries(
+      Object.entries(fillsByMonth).map(([month, fills]) => [month, sumCharges(fills)])
+    ) as Record<string, ChargeBreakdown>;
+  }, [trades, getFeePlan, selectedYear]);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
@@ -425,9 +443,6 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
           };
           await saveTaxData(newAllTaxData);
 
-          // CRITICAL FIX: Notify other components about tax data update
-          window.dispatchEvent(new CustomEvent('taxDataUpdated'));
-
           console.log('✅ Tax data saved successfully for', editingCell.month, ':', newValue);
         } catch (error) {
           console.error('❌ Failed to save tax data:', error);
@@ -520,7 +535,7 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
         const upstoxCharges = chargesBreakdown.upstox?.[monthYear];
 
         // Create tooltip content based on available charges data
-        const hasChargesBreakdown = zerodhaCharges || upstoxCharges;
+        const hasChargesBreakdown = zerodhaCharges || upstoxCharges || item.estimatedCharges;
 
         // Check if this tax amount includes broker charges (should be non-editable)
         const totalCharges = (zerodhaCharges?.total || 0) + (upstoxCharges?.total || 0);
@@ -528,7 +543,7 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
         const tooltipContent = hasChargesBreakdown ? (
           <div className="p-3 min-w-[200px]">
             <p className="font-medium text-sm text-foreground-700 dark:text-foreground-300 mb-3">
-              Charges Breakdown
+              {item.estimatedCharges ? 'Estimated Charges' : 'Charges Breakdown'}
             </p>
 
             {/* Combine all charges into one clean list */}
@@ -554,7 +569,23 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
                   </div>
                 );
               })}
+
+              {item.estimatedCharges && formatChargeBreakdown(item.estimatedCharges).map((line, index) => {
+                const [label, amount] = line.split(': ');
+                const isTotal = label === 'Total';
+                return (
+                  <div key={`estimate-${index}`} className={`flex justify-between items-center ${isTotal ? 'border-t border-foreground-200 dark:border-foreground-700 pt-1 mt-2 font-medium' : ''}`}>
+                    <span className="text-foreground-600 dark:text-foreground-400">{label}</span>
+                    <span className="text-foreground-700 dark:text-foreground-300 font-mono text-right ml-8">{amount}</span>
+                  </div>
+                );
+              })}
             </div>
+            {item.estimatedCharges && (
+              <p className="text-[11px] text-foreground-500 mt-2">
+                Computed from your fills and fee plan. Click to enter the actual amount.
+              </p>
+            )}
           </div>
         ) : null;
 
@@ -642,7 +673,7 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
         </span>
       </TableCell>
     );
-  }, [editingCell, taxesByMonth, formatCurrency, handleEditComplete, handleEditStart]);
+  }, [editingCell, taxesByMonth, chargesBreakdown, formatCurrency, handleEditComplete, handleEditStart]);
 
   return (
     <div className="rounded-lg border border-default-200 dark:border-default-100 bg-white dark:bg-gray-900 overflow-hidden">
@@ -691,8 +722,10 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
           const upstoxCharges = chargesBreakdown.upstox?.[month]?.total || 0;
           const totalCharges = zerodhaCharges + upstoxCharges;
 
-          // Total taxes = base taxes + broker charges
-          const taxes = baseTaxes + totalCharges;
+          // Total taxes = base taxes + broker charges. Months with neither are
+          // pre-filled from the charges engine until an amount is entered.
+          const estimatedCharges = totalCharges === 0 && baseTaxes === 0 ? estimatedChargesByMonth[month] : undefined;
+          const taxes = baseTaxes + totalCharges + (estimatedCharges?.total || 0);
           const netPL = grossPL - taxes;
           const taxPercent = grossPL !== 0 ? ((taxes / grossPL) * 100).toFixed(2) + '%' : "0.00%";
 
@@ -719,7 +752,8 @@ export const TaxTable: React.FC<TaxTableProps> = ({ trades = [], taxesByMonth, s
             grossPFImpact,
             netPFImpact,
             returnPercent,
-            avgRR
+            avgRR,
+            estimatedCharges
           };
         })}>
           {(item) => (
@@ -22,7 +22,7 @@ import { Trade, ChartImage, TradeChartAttachments } from "../types/trade";
 import { v4 as uuidv4 } from 'uuid';
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { usePriceTicks } from "../hooks/usePriceTicks";
-import { fetchPriceTicksSmart } from '../utils/priceTickApi';
+import { getMarketDataProvider } from '../utils/marketData';
 import { ChartImageUpload } from "./ChartImageUpload";
 import { ChartImageViewer } from "./ChartImageViewer";
 import { UniversalChartViewer } from "./UniversalChartViewer";
@@ -32,6 +32,8 @@ import {
   calcPositionSize,
   calcAllocation,
   calcSLPercent,
+  calcCapitalAtWork,
+  formatLots,
   calcExitedQty,
   calcAvgExitPrice,
   calcStockMove,
@@ -41,11 +43,15 @@ import {
   calcPLRs,
   calcPFImpact,
   calcCummPf,
-  calcRealizedPL_FIFO
+  calcRealizedPL_FIFO,
+  getEntryLegs,
+  getExitLegs,
+  withSyncedLegs
 } from "../lib/calculations";
 import { useTruePortfolioWithTrades } from "../hooks/use-true-portfolio-with-trades";
 import { useTrades } from "../hooks/use-trades";
 import { validateTrade, TradeIssue } from "../utils/tradeValidations";
+import { loadSecurityMaster } from "../utils/securityMaster";
 import * as Papa from "papaparse";
 
 // ===================================================================================
@@ -76,12 +82,10 @@ interface TradeEntry { price: number; qty: number; }
 // === CENTRALIZED CALCULATION LOGIC (PRESERVED EXACTLY)
 // ===================================================================================
 
-const recalculateTrade = (trade: Partial<TradeModalFormData>, defaultPortfolioSize: number, getPortfolioSize?: (month: string, year: number) => number): TradeModalFormData => {
-  const entries: TradeEntry[] = [
-    { price: Number(trade.entry || 0), qty: Number(trade.initialQty || 0) },
-    { price: Number(trade.pyramid1Price || 0), qty: Number(trade.pyramid1Qty || 0) },
-    { price: Number(trade.pyramid2Price || 0), qty: Number(trade.pyramid2Qty || 0) }
-  ].filter(e => e.qty > 0 && e.price > 0);
+const recalculateTrade = (formTrade: Partial<TradeModalFormData>, defaultPortfolioSize: number, getPortfolioSize?: (month: string, year: number) => number): TradeModalFormData => {
+  // The form edits the first slots only - fold them into the legs so later fills survive
+  const trade = withSyncedLegs(formTrade);
+  const entries: TradeEntry[] = getEntryLegs(trade).map(e => ({ price: e.price, qty: e.qty }));
 
   const avgEntry = entries.length > 0 ? calcAvgEntry(entries) : Number(trade.entry) || 0;
   const totalQty = entries.reduce((sum, e) => sum + e.qty, 0);
@@ -99,29 +103,21 @@ const recalculateTrade = (trade: Partial<TradeModalFormData>, defaultPortfolioSi
     }
   }
   
-  const allocation = positionSize > 0 && tradePortfolioSize > 0 ? calcAllocation(positionSize, tradePortfolioSize) : 0;
+  const allocation = positionSize > 0 && tradePortfolioSize > 0 ? calcAllocation(calcCapitalAtWork(trade, positionSize), tradePortfolioSize) : 0;
 
   // Chart uploads are pure file operations - no calculations needed
   
-  const exit1Qty = Number(trade.exit1Qty || 0);
-  const exit2Qty = Number(trade.exit2Qty || 0);
-  const exit3Qty = Number(trade.exit3Qty || 0);
-  
-  const exitedQty = calcExitedQty(exit1Qty, exit2Qty, exit3Qty);
+  const exits: TradeEntry[] = getExitLegs(trade).map(e => ({ price: e.price, qty: e.qty }));
+
+  const exitedQty = calcExitedQty(...exits.map(e => e.qty));
   const openQty = Math.max(0, totalQty - exitedQty);
   
-  const exits: TradeEntry[] = [
-    { price: Number(trade.exit1Price || 0), qty: exit1Qty },
-    { price: Number(trade.exit2Price || 0), qty: exit2Qty },
-    { price: Number(trade.exit3Price || 0), qty: exit3Qty }
-  ].filter(e => e.qty > 0 && e.price > 0);
-  
   const avgExitPrice = exits.length > 0 ? calcAvgExitPrice(exits) : 0;
   const stockMove = avgEntry > 0 ? calcStockMove(avgEntry, avgExitPrice, Number(trade.cmp || 0), openQty, exitedQty, trade.positionStatus || 'Open', trade.buySell || 'Buy') : 0;
   
   const entryPrice = Number(trade.entry) || 0;
   const slPrice = Number(trade.sl) || 0;
-  const slPercent = entryPrice > 0 && slPrice > 0 ? calcSLPercent(slPrice, entryPrice) : 0;
+  const slPercent = entryPrice > 0 && slPrice > 0 ? calcSLPercent(slPrice, entryPrice, trade.buySell) : 0;
   
   const cmp = Number(trade.cmp) || 0;
   const rewardRisk = entryPrice > 0 && slPrice > 0 ? calcRewardRisk(cmp, entryPrice, slPrice, trade.positionStatus || 'Open', avgExitPrice, openQty, exitedQty, trade.buySell || 'Buy') : 0;
@@ -132,17 +128,7 @@ const recalculateTrade = (trade: Partial<TradeModalFormData>, defaultPortfolioSi
   
   const realisedAmount = exitedQty > 0 ? calcRealisedAmount(exitedQty, avgExitPrice) : 0;
 
-  const entryLots = [
-    { price: Number(trade.entry || 0), qty: Number(trade.initialQty || 0) },
-    { price: Number(trade.pyramid1Price || 0), qty: Number(trade.pyramid1Qty || 0) },
-    { price: Number(trade.pyramid2Price || 0), qty: Number(trade.pyramid2Qty || 0) }
-  ].filter(e => e.qty > 0 && e.price > 0);
-  const exitLots = [
-    { price: Number(trade.exit1Price || 0), qty: exit1Qty },
-    { price: Number(trade.exit2Price || 0), qty: exit2Qty },
-    { price: Number(trade.exit3Price || 0), qty: exit3Qty }
-  ].filter(e => e.qty > 0 && e.price > 0);
-  const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(entryLots, exitLots, trade.buySell as 'Buy' | 'Sell') : 0;
+  const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(entries, exits, trade.buySell as 'Buy' | 'Sell') : 0;
   
   const pfImpact = tradePortfolioSize > 0 ? calcPFImpact(plRs, tradePortfolioSize) : 0;
   
@@ -244,7 +230,8 @@ export const TradeModal: React.FC<TradeModalProps> = React.memo(({ isOpen, onOpe
   const [isChartViewerOpen, setIsChartViewerOpen] = useState(false); const [chartViewerImage, setChartViewerImage] = useState<ChartImage | null>(null); const [isUniversalViewerOpen, setIsUniversalViewerOpen] = useState(false); const [chartRefreshTrigger, setChartRefreshTrigger] = useState(0);
 
   const handleChange = useCallback((field: keyof TradeModalFormData, value: any) => { const numericFields = ['entry', 'sl', 'tsl', 'cmp', 'initialQty', 'pyramid1Price', 'pyramid1Qty', 'pyramid2Price', 'pyramid2Qty', 'exit1Price', 'exit1Qty', 'exit2Price', 'exit2Qty', 'exit3Price', 'exit3Qty']; const processedValue = numericFields.includes(field as string) ? Number(value) || 0 : value; dispatch({ type: 'SET_FIELD', payload: { field, value: processedValue } }); }, []);
-  const handleCmpFetch = useCallback(async (symbol: string) => { if (symbol && !cmpManuallySet) { try { const priceData = await fetchPriceTicksSmart(symbol); const ticks = priceData?.data?.ticks?.[symbol.toUpperCase()]; if (ticks && ticks.length > 0) { dispatch({ type: 'SET_CMP', payload: { value: ticks[ticks.length - 1][4], isAuto: true } }); } } catch (err) { console.warn(`Failed to fetch price for ${symbol}:`, err); } } }, [cmpManuallySet]);
+  const handleInstrumentChange = useCallback((key: string, value: any) => { dispatch({ type: 'SET_FIELD', payload: { field: 'instrument', value: { type: 'Equity', ...formData.instrument, [key]: value } } }); }, [formData.instrument]);
+  const handleCmpFetch = useCallback(async (symbol: string) => { if (symbol && !cmpManuallySet) { try { const quote = await (await getMarketDataProvider()).getQuote(symbol); if (quote) { dispatch({ type: 'SET_CMP', payload: { value: quote.price, isAuto: true } }); } } catch (err) { console.warn(`Failed to fetch price for ${symbol}:`, err); } } }, [cmpManuallySet]);
   useEffect(() => { if (formData.name) handleCmpFetch(formData.name); }, [formData.name, handleCmpFetch]);
 
   // FIXED: Create wrapper functions that match ChartImageUpload's expected signature
@@ -298,7 +285,7 @@ export const TradeModal: React.FC<TradeModalProps> = React.memo(({ isOpen, onOpe
   
   const NameCell = useMemo(() => React.memo(function NameCell({ value, onSave }: { value: string; onSave: (value: string) => void; }) {
       const [isEditing, setIsEditing] = useState(false); const [editValue, setEditValue] = useState(value); const [showDropdown, setShowDropdown] = useState(false); const [filtered, setFiltered] = useState<string[]>([]); const [selectedIndex, setSelectedIndex] = useState(-1); const inputRef = useRef<HTMLInputElement>(null); const dropdownRef = useRef<HTMLDivElement>(null); const [position, setPosition] = useState({ top: 0, left: 0, width: 0, height: 0 }); const [stockNames, setStockNames] = useState<string[]>([]);
-      useEffect(() => { async function load() { const res = await fetch('/name_sector_industry.csv'); const text = await res.text(); const papa = (await import('papaparse')).default; papa.parse(text, { header: true, complete: (r) => { const n = (r.data as any[]).map(row => row['Stock Name']).filter(Boolean); setStockNames(n); } }); } load(); }, []);
+      useEffect(() => { loadSecurityMaster().then(master => setStockNames(master.getSymbols())).catch(() => setStockNames([])); }, []);
       const findClosestMatch = (input: string): string | null => { if (!input || !stockNames.length) return null; const lower = input.toLowerCase(); const prefix = stockNames.find(n => n.toLowerCase().startsWith(lower)); if (prefix) return prefix; const includes = stockNames.find(n => n.toLowerCase().includes(lower)); if (includes) return includes; return null; };
       useEffect(() => { if (isEditing && editValue) { const m = stockNames.filter(n => n.toLowerCase().includes(editValue.toLowerCase())); setFiltered(m.slice(0, 10)); setShowDropdown(m.length > 0); setSelectedIndex(-1); if (inputRef.current) { const r = inputRef.current.getBoundingClientRect(); setPosition({ top: r.top, left: r.left, width: r.width, height: r.height }); } } else { setShowDropdown(false); } }, [editValue, isEditing, stockNames]);
       const handleSave = (val?: string) => { const final = val ?? editValue; if (!final.trim()) { onSave(''); setIsEditing(false); return; } const exact = stockNames.find(n => n.toLowerCase() === final.toLowerCase()); if (exact) { onSave(exact); } else { const closest = findClosestMatch(final); if (closest && window.confirm(`Did you mean "${closest}"?`)) { onSave(closest); } else if (!closest && window.confirm(`"${final}" is not a valid stock name. Add it?`)) { onSave(final.toUpperCase()); } else { setEditValue(value); } } setIsEditing(false); };
@@ -311,6 +298,15 @@ export const TradeModal: React.FC<TradeModalProps> = React.memo(({ isOpen, onOpe
 
   const renderField = useCallback((field: any) => {
     if (field.name === "cmp") { return <div key={field.name} className="flex flex-col gap-1"><label className="text-sm font-medium text-foreground-600 flex items-center gap-2">{field.label}{formData._cmpAutoFetched === false && <Chip size="sm" color="warning" variant="flat" className="text-xs">Manual</Chip>}{formData._cmpAutoFetched === true && <Chip size="sm" color="success" variant="flat" className="text-xs">Auto</Chip>}</label><Input type="number" value={formData.cmp?.toString() ?? "0"} onValueChange={(v) => handleChange("cmp", v)} variant="bordered" startContent={<span className="text-default-400">₹</span>} isDisabled={formData._cmpAutoFetched === true} /></div>; }
+    if (field.name.startsWith("instrument.")) {
+      const key = field.name.slice("instrument.".length); const value = (formData.instrument || { type: "Equity" })[key]; const onValue = (v: any) => handleInstrumentChange(key, field.type === "number" ? Number(v) || 0 : v);
+      switch (field.type) {
+        case "select": return <Select key={field.name} label={field.label} selectedKeys={new Set([value || field.options[0]])} onChange={(e) => onValue(e.target.value)} variant="bordered">{field.options.map((opt: string) => (<SelectItem key={opt}>{opt}</SelectItem>))}</Select>;
+        case "number": return <Input key={field.name} label={field.label} type="number" value={value ? value.toString() : ""} onValueChange={onValue} variant="bordered" startContent={field.unit === '₹' && <span className="text-default-400">₹</span>} endContent={field.unit && field.unit !== '₹' && <span className="text-default-400">{field.unit}</span>} />;
+        case "date": return <Input key={field.name} label={field.label} type="date" value={value || ""} onValueChange={onValue} variant="bordered" />;
+        default: return <Input key={field.name} label={field.label} value={value || ""} onValueChange={(v) => onValue(v.toUpperCase())} variant="bordered" />;
+      }
+    }
     switch (field.type) {
       case "number": return <Input key={field.name} label={field.label} type="number" value={formData[field.name]?.toString() ?? "0"} onValueChange={(v) => handleChange(field.name, v)} variant="bordered" startContent={field.unit === '₹' && <span className="text-default-400">₹</span>} endContent={field.unit && field.unit !== '₹' && <span className="text-default-400">{field.unit}</span>} />;
       case "date": return <Input key={field.name} label={field.label} type="date" value={formData[field.name] || ""} onValueChange={(v) => handleChange(field.name, v)} variant="bordered" />;
@@ -319,11 +315,11 @@ export const TradeModal: React.FC<TradeModalProps> = React.memo(({ isOpen, onOpe
       case "text": return field.name === "name" ? <NameCell key={field.name} value={formData.name || ""} onSave={(v) => handleChange("name", v)} /> : <Input key={field.name} label={field.label} value={formData[field.name] || ""} onValueChange={(v) => handleChange(field.name, v)} variant="bordered" />;
       default: return <Input key={field.name} label={field.label} value={formData[field.name] || ""} onValueChange={(v) => handleChange(field.name, v)} variant="bordered" />;
     }
-  }, [formData, handleChange, NameCell]);
+  }, [formData, handleChange, handleInstrumentChange, NameCell]);
 
   const allFields = useMemo(() => ({
     basic: [{ name: "tradeNo", label: "Trade No.", type: "text" }, { name: "date", label: "Date", type: "date" }, { name: "name", label: "Stock/Asset Name", type: "text" }, { name: "entry", label: "Entry Price (₹)", type: "number", unit: "₹" }, { name: "sl", label: "Stop Loss (SL) (₹)", type: "number", unit: "₹" }, { name: "tsl", label: "Trailing SL (TSL) (₹)", type: "number", unit: "₹" }, { name: "cmp", label: "Current Market Price (₹)", type: "number", unit: "₹" }, { name: "buySell", label: "Buy/Sell", type: "select", options: ["Buy", "Sell"] }, { name: "initialQty", label: "Initial Quantity (qty)", type: "number", unit: "qty" }, { name: "setup", label: "Setup", type: "select", options: ["ITB", "Chop BO", "IPO Base", "3/5/8", "21/50", "Breakout", "Pullback", "Reversal", "Continuation", "Gap Fill", "OTB", "Stage 2", "ONP BO", "EP", "Pivot Bo", "Cheat", "Flag", "Other"] }, { name: "baseDuration", label: "Base Duration", type: "text" }, { name: "positionStatus", label: "Position Status", type: "select", options: ["Open", "Closed", "Partial"] }, { name: "planFollowed", label: "Plan Followed", type: "checkbox" }, { name: "exitTrigger", label: "Exit Trigger", type: "select", options: ["Breakeven exit", "Market Pressure", "R multiples", "Random", "SL", "Target", "Trailing SL"] }, { name: "proficiencyGrowthAreas", label: "Proficiency Growth Areas", type: "select", options: ["Biased Analysis", "Booked Early", "Didn't Book Loss", "FOMO", "Illiquid Stock", "Illogical SL", "Lack of Patience", "Late Entry", "Momentum-less stock", "Overconfidence", "Overtrading", "Poor Exit", "Poor Po Size", "Poor Sector", "Poor Stock", "Shifted SL Quickly", "Too Early Entry", "Too Tight SL"] }],
-    advanced: [{ name: "pyramid1Price", label: "Pyramid-1 Price (₹)", type: "number", unit: "₹" }, { name: "pyramid1Qty", label: "Pyramid-1 Quantity (qty)", type: "number", unit: "qty" }, { name: "pyramid1Date", label: "Pyramid-1 Date", type: "date" }, { name: "pyramid2Price", label: "Pyramid-2 Price (₹)", type: "number", unit: "₹" }, { name: "pyramid2Qty", label: "Pyramid-2 Quantity (qty)", type: "number", unit: "qty" }, { name: "pyramid2Date", label: "Pyramid-2 Date", type: "date" }, { name: "exit1Price", label: "Exit-1 Price (₹)", type: "number", unit: "₹" }, { name: "exit1Qty", label: "Exit-1 Quantity (qty)", type: "number", unit: "qty" }, { name: "exit1Date", label: "Exit-1 Date", type: "date" }, { name: "exit2Price", label: "Exit-2 Price (₹)", type: "number", unit: "₹" }, { name: "exit2Qty", label: "Exit-2 Quantity (qty)", type: "number", unit: "qty" }, { name: "exit2Date", label: "Exit-2 Date", type: "date" }, { name: "exit3Price", label: "Exit-3 Price (₹)", type: "number", unit: "₹" }, { name: "exit3Qty", label: "Exit-3 Quantity (qty)", type: "number", unit: "qty" }, { name: "exit3Date", label: "Exit-3 Date", type: "date" }]
+    advanced: [{ name: "instrument.type", label: "Instrument", type: "select", options: ["Equity", "Future", "Option"] }, { name: "instrument.underlying", label: "Underlying", type: "text" }, { name: "instrument.expiry", label: "Expiry", type: "date" }, { name: "instrument.strike", label: "Strike (₹)", type: "number", unit: "₹" }, { name: "instrument.optionType", label: "Option Type", type: "select", options: ["CE", "PE"] }, { name: "instrument.lotSize", label: "Lot Size (qty)", type: "number", unit: "qty" }, { name: "instrument.margin", label: "Margin Blocked (₹)", type: "number", unit: "₹" }, { name: "pyramid1Price", label: "Pyramid-1 Price (₹)", type: "number", unit: "₹" }, { name: "pyramid1Qty", label: "Pyramid-1 Quantity (qty)", type: "number", unit: "qty" }, { name: "pyramid1Date", label: "Pyramid-1 Date", type: "date" }, { name: "pyramid2Price", label: "Pyramid-2 Price (₹)", type: "number", unit: "₹" }, { name: "pyramid2Qty", label: "Pyramid-2 Quantity (qty)", type: "number", unit: "qty" }, { name: "pyramid2Date", label: "Pyramid-2 Date", type: "date" }, { name: "exit1Price", label: "Exit-1 Price (₹)", type: "number", unit: "₹" }, { name: "exit1Qty", label: "Exit-1 Quantity (qty)", type: "number", unit: "qty" }, { name: "exit1Date", label: "Exit-1 Date", type: "date" }, { name: "exit2Price", label: "Exit-2 Price (₹)", type: "number", unit: "₹" }, { name: "exit2Qty", label: "Exit-2 Quantity (qty)", type: "number", unit: "qty" }, { name: "exit2Date", label: "Exit-2 Date", type: "date" }, { name: "exit3Price", label: "Exit-3 Price (₹)", type: "number", unit: "₹" }, { name: "exit3Qty", label: "Exit-3 Quantity (qty)", type: "number", unit: "qty" }, { name: "exit3Date", label: "Exit-3 Date", type: "date" }]
   }), []);
   const currentFields = activeTab === "basic" ? allFields.basic : allFields.advanced;
   const parentRef = useRef<HTMLDivElement>(null);
@@ -344,6 +340,7 @@ export const TradeModal: React.FC<TradeModalProps> = React.memo(({ isOpen, onOpe
                       let displayValue = typeof value === 'number' ? value.toFixed(2) : value || '0';
                       if(field.format) displayValue = field.format(value);
                       else if(field.unit && field.unit !== '₹' && field.unit !== '%') displayValue = `${displayValue} ${field.unit}`;
+                      if(field.unit === 'qty' && formatLots(formData, Number(value))) displayValue = `${displayValue} (${formatLots(formData, Number(value))})`;
                       if(field.unit === '%') displayValue = `${displayValue}%`;
                       return <div key={field.name} className="p-2 rounded-lg bg-default-100 border border-default-200"><div className="text-[10px] text-foreground-500">{field.label}</div><div className={`font-medium text-sm ${field.name === 'plRs' && (value > 0 ? 'text-success' : 'text-danger')}`}>{displayValue}</div></div>
                   })}
@@ -0,0 +1,142 @@
+import React, { createContext, useContext, useState, useMemo, useEffect, useCallback } from "react";
+import { useQueryClient } from '@tanstack/react-query';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageService } from '../services/storageBackend';
+import { BrokerAccount, DEFAULT_ACCOUNT_ID, ALL_ACCOUNTS } from '../types/account';
+import { normalizeAccounts, getWritableAccountId, createDefaultAccount } from '../utils/accounts';
+import { resolveFeePlan, inferFeePlanPreset } from '../lib/calculations';
+import type { BrokerFeePlan } from '../lib/calculations';
+
+interface AccountContextType {
+  accounts: BrokerAccount[];
+  activeAccountId: string;             // An account id or ALL_ACCOUNTS
+  isAllAccounts: boolean;
+  writableAccountId: string;           // Where new trades / capital entries go
+  setActiveAccountId: (id: string) => void;
+  addAccount: (name: string, broker?: string) => Promise<BrokerAccount | null>;
+  updateAccount: (account: BrokerAccount) => Promise<void>;
+  removeAccount: (id: string) => Promise<void>;
+  getAccountName: (id?: string | null) => string;
+  getFeePlan: (id?: string | null) => BrokerFeePlan;
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+// Account helpers - persisted in misc data like the global filter
+async function loadAccountsFromSupabase(): Promise<{ accounts: BrokerAccount[]; activeAccountId: string }> {
+  try {
+    const [storedAccounts, storedActive] = await Promise.all([
+      StorageService.backend.misc.get('brokerAccounts'),
+      StorageService.backend.misc.get('activeAccount')
+    ]);
+    const accounts = normalizeAccounts(storedAccounts);
+    const activeAccountId = storedActive === ALL_ACCOUNTS || accounts.some(a => a.id === storedActive)
+      ? storedActive
+      : DEFAULT_ACCOUNT_ID;
+    return { accounts, activeAccountId };
+  } catch (error) {
+    return { accounts: [createDefaultAccount()], activeAccountId: DEFAULT_ACCOUNT_ID };
+  }
+}
+
+export const AccountProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const [accounts, setAccounts] = useState<BrokerAccount[]>([createDefaultAccount()]);
+  const [activeAccountId, setActiveAccountIdState] = useState<string>(DEFAULT_ACCOUNT_ID);
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => {
+    loadAccountsFromSupabase().then(loaded => {
+      setAccounts(loaded.accounts);
+      setActiveAccountIdState(loaded.activeAccountId);
+      setHydrated(true);
+    });
+  }, []);
+
+  // Save the selected account when it changes (but not on initial load)
+  useEffect(() => {
+    if (hydrated) {
+      StorageService.backend.misc.save('activeAccount', activeAccountId).catch(() => {});
+    }
+  }, [activeAccountId, hydrated]);
+
+  const persistAccounts = useCallback(async (next: BrokerAccount[]) => {
+    const success = await StorageService.backend.misc.save('brokerAccounts', next);
+    if (success) setAccounts(next);
+    return success;
+  }, []);
+
+  const setActiveAccountId = useCallback((id: string) => {
+    if (id === ALL_ACCOUNTS || accounts.some(account => account.id === id)) {
+      setActiveAccountIdState(id);
+    }
+  }, [accounts]);
+
+  const addAccount = useCallback(async (name: string, broker?: string): Promise<BrokerAccount | null> => {
+    const account: BrokerAccount = {
+      id: uuidv4(),
+      name: name.trim() || 'New account',
+      broker: broker?.trim() || undefined,
+      createdAt: new Date().toISOString()
+    };
+    return (await persistAccounts([...accounts, account])) ? account : null;
+  }, [accounts, persistAccounts]);
+
+  const updateAccount = useCallback(async (updated: BrokerAccount) => {
+    await persistAccounts(accounts.map(account => account.id === updated.id ? { ...account, ...updated } : account));
+  }, [accounts, persistAccounts]);
+
+  // Removing an account hands its trades and capital history to the default account
+  const removeAccount = useCallback(async (id: string) => {
+    if (id === DEFAULT_ACCOUNT_ID) return;
+    const reassigned = await StorageService.backend.capital.reassignAccount(id, DEFAULT_ACCOUNT_ID);
+    if (!reassigned) return;
+
+    await persistAccounts(accounts.filter(account => account.id !== id));
+    if (activeAccountId === id) setActiveAccountIdState(DEFAULT_ACCOUNT_ID);
+    queryClient.invalidateQueries({ queryKey: ['trades'] });
+  }, [accounts, activeAccountId, persistAccounts, queryClient]);
+
+  const getAccountName = useCallback((id?: string | null) => {
+    const accountId = id || DEFAULT_ACCOUNT_ID;
+    if (accountId === ALL_ACCOUNTS) return 'All accounts';
+    return accounts.find(account => account.id === accountId)?.name || 'Unknown account';
+  }, [accounts]);
+
+  // Accounts without a saved plan use the preset matching their broker name
+  const feePlans = useMemo(() => new Map(accounts.map(account => [
+    account.id,
+    resolveFeePlan(account.feePlan || { preset: inferFeePlanPreset(account.broker) })
+  ])), [accounts]);
+
+  const getFeePlan = useCallback((id?: string | null) => {
+    return feePlans.get(id || DEFAULT_ACCOUNT_ID) || resolveFeePlan();
+  }, [feePlans]);
+
+  const contextValue = useMemo(() => ({
+    accounts,
+    activeAccountId,
+    isAllAccounts: activeAccountId === ALL_ACCOUNTS,
+    writableAccountId: getWritableAccountId(activeAccountId),
+    setActiveAccountId,
+    addAccount,
+    updateAccount,
+    removeAccount,
+    getAccountName,
+    getFeePlan
+  }), [accounts, activeAccountId, setActiveAccountId, addAccount, updateAccount, removeAccount, getAccountName, getFeePlan]);
+
+  return (
+    <AccountContext.Provider value={contextValue}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
+
+export const useAccounts = (): AccountContextType => {
+  const context = useContext(AccountContext);
+  if (!context) {
+    throw new Error("useAccounts must be used within an AccountProvider");
+  }
+  return context;
+};
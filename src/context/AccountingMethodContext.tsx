@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 
 export type AccountingMethod = 'accrual' | 'cash';
 
@@ -45,14 +45,14 @@ export const AccountingMethodProvider: React.FC<AccountingMethodProviderProps> =
     // Fallback: load from Supabase directly (SupabaseService handles deduplication)
     const loadAccountingMethod = async () => {
       try {
-        const stored = await SupabaseService.getMiscData('accountingMethod');
+        const stored = await StorageService.backend.misc.get('accountingMethod');
 
         if (stored && (stored === 'accrual' || stored === 'cash')) {
           setAccountingMethodState(stored as AccountingMethod);
         } else {
           // If no stored preference, default to cash basis and save it
           setAccountingMethodState('cash');
-          await SupabaseService.saveMiscData('accountingMethod', 'cash');
+          await StorageService.backend.misc.save('accountingMethod', 'cash');
         }
       } catch (error) {
         // Even if Supabase fails, ensure we default to cash basis
@@ -75,7 +75,7 @@ export const AccountingMethodProvider: React.FC<AccountingMethodProviderProps> =
 
     // Async Supabase update to prevent blocking
     requestIdleCallback(() => {
-      SupabaseService.saveMiscData('accountingMethod', method).catch(error => {
+      StorageService.backend.misc.save('accountingMethod', method).catch(error => {
         // Handle error silently
       });
     });
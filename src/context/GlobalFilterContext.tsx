@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useMemo, useEffect } from "react";
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 
 export type FilterType = "all" | "week" | "month" | "fy" | "cy" | "custom";
 export interface GlobalFilter {
@@ -16,7 +16,7 @@ const defaultFilter: GlobalFilter = { type: "all" };
 // Global filter helpers - now with Supabase persistence
 async function loadGlobalFilterFromSupabase(): Promise<GlobalFilter> {
   try {
-    const stored = await SupabaseService.getMiscData('globalFilter');
+    const stored = await StorageService.backend.misc.get('globalFilter');
     if (stored && stored.type) {
       // Convert date strings back to Date objects if they exist
       const filter = { ...stored };
@@ -37,7 +37,7 @@ async function saveGlobalFilterToSupabase(filterObj: GlobalFilter) {
     if (filterToStore.startDate) filterToStore.startDate = filterToStore.startDate.toISOString() as any;
     if (filterToStore.endDate) filterToStore.endDate = filterToStore.endDate.toISOString() as any;
 
-    await SupabaseService.saveMiscData('globalFilter', filterToStore);
+    await StorageService.backend.misc.save('globalFilter', filterToStore);
   } catch (error) {
     // Handle error silently
   }
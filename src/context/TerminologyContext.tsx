@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 
 export type TerminologyType = 'pyramid' | 'buysell';
 
@@ -76,6 +76,7 @@ const DEFAULT_LABELS: Record<string, string> = {
   tsl: "TSL (₹)",
   cmp: "CMP (₹)",
   initialQty: "Initial Qty",
+  legs: "Legs",
   positionSize: "Pos. Size",
   allocation: "Allocation (%)",
   openQty: "Open Qty",
@@ -88,6 +89,7 @@ const DEFAULT_LABELS: Record<string, string> = {
   positionStatus: "Status",
   realisedAmount: "Realized Amount",
   plRs: "Realized P/L (₹)",
+  netPlRs: "Net P/L (₹)",
   pfImpact: "PF Impact (%)",
   cummPf: "Cumm. PF (%)",
   planFollowed: "Plan Followed",
@@ -128,7 +130,7 @@ export const TerminologyProvider: React.FC<{
     const loadTerminology = async () => {
       try {
         // Use SupabaseService directly (it handles deduplication via executeWithLock)
-        let savedTerminology = await SupabaseService.getMiscData('terminology_preference');
+        let savedTerminology = await StorageService.backend.misc.get('terminology_preference');
 
         // If not found in Supabase, try localStorage as fallback
         if (!savedTerminology) {
@@ -142,7 +144,7 @@ export const TerminologyProvider: React.FC<{
           // If we got it from localStorage, sync to Supabase
           if (localStorage.getItem('terminology_preference') === savedTerminology) {
             try {
-              await SupabaseService.setMiscData('terminology_preference', savedTerminology);
+              await StorageService.backend.misc.save('terminology_preference', savedTerminology);
             } catch (syncError) {
               console.warn('Failed to sync terminology to Supabase:', syncError);
             }
@@ -178,7 +180,7 @@ export const TerminologyProvider: React.FC<{
       localStorage.setItem('terminology_preference', type);
 
       // Save to Supabase (asynchronous)
-      await SupabaseService.setMiscData('terminology_preference', type);
+      await StorageService.backend.misc.save('terminology_preference', type);
 
       console.log(`Terminology preference saved: ${type}`);
     } catch (error) {
@@ -203,7 +205,7 @@ export const TerminologyProvider: React.FC<{
   // Debug function to check persistence status
   const debugPersistence = async () => {
     try {
-      const supabaseValue = await SupabaseService.getMiscData('terminology_preference');
+      const supabaseValue = await StorageService.backend.misc.get('terminology_preference');
       const localStorageValue = localStorage.getItem('terminology_preference');
       const currentValue = terminology;
 
@@ -3,7 +3,7 @@ import { CapitalChange, MonthlyCapital, MonthlyCapitalHistory } from '../types/t
 import { v4 as uuidv4 } from 'uuid';
 import { useTruePortfolio } from '../utils/TruePortfolioContext';
 import { calculateTradePL } from '../utils/accountingUtils';
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 // Migrated from IndexedDB to Supabase with authentication
 
 // IndexedDB helpers using Dexie
@@ -11,7 +11,7 @@ const loadCapitalChanges = async (): Promise<CapitalChange[]> => {
   if (typeof window === 'undefined') return [];
 
   try {
-    const saved = await SupabaseService.getMiscData('capital_changes');
+    const saved = await StorageService.backend.misc.get('capital_changes');
     return saved ? saved : [];
   } catch (error) {
     return [];
@@ -21,7 +21,7 @@ const loadCapitalChanges = async (): Promise<CapitalChange[]> => {
 const loadMonthlyCapitalHistory = async (): Promise<MonthlyCapitalHistory[]> => {
   if (typeof window === 'undefined') return [];
   try {
-    const saved = await SupabaseService.getMiscData('monthly_capital_history');
+    const saved = await StorageService.backend.misc.get('monthly_capital_history');
     return saved ? saved : [];
   } catch (error) {
     return [];
@@ -30,7 +30,7 @@ const loadMonthlyCapitalHistory = async (): Promise<MonthlyCapitalHistory[]> =>
 
 const saveMonthlyCapitalHistory = async (history: MonthlyCapitalHistory[]): Promise<boolean> => {
   try {
-    return await SupabaseService.saveMiscData('monthly_capital_history', history);
+    return await StorageService.backend.misc.save('monthly_capital_history', history);
   } catch (error) {
     return false;
   }
@@ -40,7 +40,7 @@ const saveMonthlyCapitalHistory = async (history: MonthlyCapitalHistory[]): Prom
 
 async function loadCapitalChangesLegacy(): Promise<CapitalChange[]> {
   try {
-    const stored = await SupabaseService.getMiscData('capitalChanges');
+    const stored = await StorageService.backend.misc.get('capitalChanges');
     return stored ? stored : [];
   } catch (error) {
     return [];
@@ -49,7 +49,7 @@ async function loadCapitalChangesLegacy(): Promise<CapitalChange[]> {
 
 async function saveCapitalChanges(changes: CapitalChange[]): Promise<boolean> {
   try {
-    return await SupabaseService.saveMiscData('capitalChanges', changes);
+    return await StorageService.backend.misc.save('capitalChanges', changes);
   } catch (error) {
     return false;
   }
@@ -57,7 +57,7 @@ async function saveCapitalChanges(changes: CapitalChange[]): Promise<boolean> {
 
 async function fetchMonthlyCapitalHistory(): Promise<any[]> {
   try {
-    const stored = await SupabaseService.getMiscData('monthlyCapitalHistory');
+    const stored = await StorageService.backend.misc.get('monthlyCapitalHistory');
     return stored ? stored : [];
   } catch (error) {
     return [];
@@ -66,7 +66,7 @@ async function fetchMonthlyCapitalHistory(): Promise<any[]> {
 
 async function saveMonthlyCapitalHistoryLegacy(history: any[]): Promise<boolean> {
   try {
-    return await SupabaseService.saveMiscData('monthlyCapitalHistory', history);
+    return await StorageService.backend.misc.save('monthlyCapitalHistory', history);
   } catch (error) {
     return false;
   }
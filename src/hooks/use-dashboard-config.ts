@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 
 export interface DashboardWidget {
   id: string;
@@ -27,7 +27,7 @@ export const useDashboardConfig = () => {
       }
 
       try {
-        const storedConfigRecord = await SupabaseService.getMiscData('dashboardConfig');
+        const storedConfigRecord = await StorageService.backend.misc.get('dashboardConfig');
         if (storedConfigRecord) {
           const parsedConfig: DashboardWidget[] = storedConfigRecord;
           // Merge with default to ensure new widgets are added and old ones removed if structure changes
@@ -52,7 +52,7 @@ export const useDashboardConfig = () => {
   // Save dashboard config to IndexedDB
   useEffect(() => {
     if (!isLoading && typeof window !== 'undefined') {
-      SupabaseService.saveMiscData('dashboardConfig', dashboardConfig);
+      StorageService.backend.misc.save('dashboardConfig', dashboardConfig);
     }
   }, [dashboardConfig, isLoading]);
 
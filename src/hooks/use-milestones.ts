@@ -2,6 +2,7 @@
 // This file is kept as a stub to prevent import errors during the removal process
 
 import { Milestone } from '../utils/milestones';
+import { StorageService } from '../services/storageBackend';
 
 interface AchievedMilestone extends Milestone {
   achievedAt: string;
@@ -36,7 +37,7 @@ export const useMilestones = () => {
       }
 
       try {
-        const milestonesRecord = await SupabaseService.getMilestonesData();
+        const milestonesRecord = await StorageService.backend.misc.get('milestones');
         if (milestonesRecord && milestonesRecord.achievements) {
           setAchievedMilestones(milestonesRecord.achievements);
         }
@@ -100,10 +101,10 @@ export const useMilestones = () => {
     return () => clearTimeout(timeoutId);
   }, [checkAndAwardMilestones]); // Re-run when dependencies change
 
-  // Save milestones to Supabase
+  // Save milestones
   useEffect(() => {
     if (!isLoading && typeof window !== 'undefined') {
-      SupabaseService.saveMilestonesData(achievedMilestones);
+      StorageService.backend.misc.save('milestones', { achievements: achievedMilestones });
     }
   }, [achievedMilestones, isLoading]);
 
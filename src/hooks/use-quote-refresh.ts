@@ -0,0 +1,55 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Trade } from '../types/trade';
+import {
+  QuoteRefreshStatus,
+  createQuoteRefreshScheduler,
+  getMarketDataProvider
+} from '../utils/marketData';
+
+/**
+ * A CMP the user typed in stays put. A manual 0 means "no CMP yet", so those rows still refresh.
+ */
+export const isCmpRefreshable = (trade: Trade) =>
+  !!trade.name &&
+  (trade.positionStatus === 'Open' || trade.positionStatus === 'Partial') &&
+  !(trade._cmpAutoFetched === false && trade.cmp > 0);
+
+/**
+ * Keeps the CMP of every open position fresh through the quote refresh scheduler.
+ * Returns each symbol's refresh status for the "last updated" indicators.
+ */
+export function useQuoteRefresh(trades: Trade[], onUpdateTrade: (trade: Trade) => void) {
+  const [statusBySymbol, setStatusBySymbol] = useState<Record<string, QuoteRefreshStatus>>({});
+  const refreshableRef = useRef<Trade[]>([]);
+  const onUpdateRef = useRef(onUpdateTrade);
+  onUpdateRef.current = onUpdateTrade;
+
+  const refreshable = useMemo(() => trades.filter(isCmpRefreshable), [trades]);
+  refreshableRef.current = refreshable;
+
+  const scheduler = useMemo(() => createQuoteRefreshScheduler(
+    getMarketDataProvider,
+    quote => {
+      refreshableRef.current
+        .filter(trade => trade.name.toUpperCase() === quote.symbol && trade.cmp !== quote.price)
+        .forEach(trade => onUpdateRef.current({ ...trade, cmp: quote.price, _cmpAutoFetched: true }));
+    },
+    (symbol, status) => setStatusBySymbol(current => ({ ...current, [symbol]: status }))
+  ), []);
+
+  // Only a change in the set of symbols restarts the schedule - price updates don't
+  const symbolsKey = useMemo(
+    () => Array.from(new Set(refreshable.map(trade => trade.name.toUpperCase()))).sort().join(','),
+    [refreshable]
+  );
+
+  useEffect(() => {
+    scheduler.setSymbols(symbolsKey ? symbolsKey.split(',') : []);
+    if (!symbolsKey) return;
+
+    scheduler.start();
+    return () => scheduler.stop();
+  }, [scheduler, symbolsKey]);
+
+  return statusBySymbol;
+}
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import type { QueryClient } from '@tanstack/react-query';
+import { RealtimeService, DataChange } from '../services/realtimeService';
+import { TRADES_QUERY_KEY } from './use-trades';
+import type { Trade } from '../types/trade';
+
+/**
+ * Patch the shared trades query with a trade written in another tab or on another device.
+ * This tab's own writes are left to the mutations that made them.
+ */
+export function applyTradeChange(queryClient: QueryClient, change: DataChange): void {
+  if (change.entity !== 'trade' || change.source === 'local') return;
+
+  if (change.op === 'reload') {
+    queryClient.invalidateQueries({ queryKey: TRADES_QUERY_KEY });
+    return;
+  }
+
+  // Nothing cached yet - the first load will read the change from storage
+  if (!queryClient.getQueryData(TRADES_QUERY_KEY)) return;
+
+  queryClient.setQueryData<Trade[]>(TRADES_QUERY_KEY, (old = []) => {
+    if (change.op === 'delete') {
+      return old.filter(trade => trade.id !== change.key);
+    }
+
+    const index = old.findIndex(trade => trade.id === change.key);
+    if (index === -1) return [...old, change.value];
+
+    const next = [...old];
+    next[index] = change.value;
+    return next;
+  });
+}
+
+/**
+ * Keep the shared trades query in step with writes from other tabs and devices
+ */
+export const useRealtimeUpdates = (queryClient: QueryClient) => {
+  useEffect(() => {
+    return RealtimeService.onChange(change => applyTradeChange(queryClient, change));
+  }, [queryClient]);
+};
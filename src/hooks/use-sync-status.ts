@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { SyncService, SyncStatus } from '../services/syncService';
+
+/**
+ * Live sync status of the local store (queued changes, connectivity, storage mode)
+ */
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState<SyncStatus>(() => SyncService.getStatus());
+
+  useEffect(() => {
+    // Pick up anything that changed between the first render and subscribing
+    setStatus(SyncService.getStatus());
+    return SyncService.onStatusChange(setStatus);
+  }, []);
+
+  return status;
+};
@@ -0,0 +1,156 @@
+import { useRef, useCallback, useEffect } from 'react';
+import type { Trade } from '../types/trade';
+import type { ImportPipelineResult, ImportProgressHandler } from '../utils/brokers';
+import type { ImportPortfolioSizes, ImportPreviewRow } from '../utils/importDiff';
+import type { TradeIssue } from '../utils/tradeValidations';
+import type { TradeImportRequest, TradeImportResponse } from '../workers/tradeImport.worker';
+import { loadSecurityMaster } from '../utils/securityMaster';
+
+interface PendingImport {
+  id: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress: ImportProgressHandler;
+}
+
+// Importing still works from the broker's symbols when the security master can't load
+const loadSecurityAliases = () =>
+  loadSecurityMaster().then(master => master.getAliases()).catch(() => undefined);
+
+/**
+ * Runs the trade import pipeline in a worker, one file at a time: reading a file into preview rows,
+ * or checking trades mapped from a CSV's columns. Resolves null when the import is cancelled;
+ * cancelling terminates the worker mid-run.
+ */
+export function useTradeImportWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<PendingImport | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Created on first use and again after a cancel, since cancelling terminates it
+  const getWorker = useCallback((): Worker | null => {
+    if (workerRef.current) return workerRef.current;
+
+    try {
+      const worker = new Worker(
+        new URL('../workers/tradeImport.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+
+      worker.onmessage = (e: MessageEvent<TradeImportResponse>) => {
+        const pending = pendingRef.current;
+        if (!pending || pending.id !== e.data.id) return;
+
+        if (e.data.type === 'progress') {
+          pending.onProgress(e.data.stage, e.data.progress);
+          return;
+        }
+        pendingRef.current = null;
+        if (e.data.type === 'result') pending.resolve(e.data.result);
+        else if (e.data.type === 'preview') pending.resolve(e.data.rows);
+        else pending.reject(new Error(e.data.error));
+      };
+
+      worker.onerror = (event) => {
+        const pending = pendingRef.current;
+        pendingRef.current = null;
+        pending?.reject(new Error(event.message || 'Import worker failed'));
+      };
+
+      workerRef.current = worker;
+    } catch (error) {
+      workerRef.current = null;
+    }
+    return workerRef.current;
+  }, []);
+
+  const cancelImport = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+
+    pendingRef.current = null;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pending.resolve(null);
+  }, []);
+
+  // One request at a time - a new one cancels the last
+  const run = useCallback(<T,>(
+    onProgress: ImportProgressHandler,
+    buildRequest: (id: string) => Promise<TradeImportRequest>,
+    runOnMainThread: () => Promise<T>
+  ): Promise<T | null> => {
+    cancelImport();
+
+    const id = `import_${++requestIdRef.current}`;
+    const worker = getWorker();
+
+    if (!worker) {
+      // Fallback to the main thread - a cancel can only discard the result
+      return new Promise((resolve, reject) => {
+        pendingRef.current = { id, resolve, reject, onProgress };
+        runOnMainThread().then(result => {
+          if (pendingRef.current?.id !== id) return;
+          pendingRef.current = null;
+          resolve(result);
+        }).catch(error => {
+          if (pendingRef.current?.id !== id) return;
+          pendingRef.current = null;
+          reject(error);
+        });
+      });
+    }
+
+    return new Promise((resolve, reject) => {
+      pendingRef.current = { id, resolve, reject, onProgress };
+      buildRequest(id).then(request => {
+        // Cancelled while the request was put together
+        if (pendingRef.current?.id !== id) return;
+        worker.postMessage(request);
+      });
+    });
+  }, [cancelImport, getWorker]);
+
+  const runImport = useCallback((
+    file: File,
+    existingTrades: Trade[],
+    onProgress: ImportProgressHandler = () => {},
+    portfolio?: ImportPortfolioSizes
+  ): Promise<ImportPipelineResult | null> => run(
+    onProgress,
+    async id => ({ id, type: 'file', file, existingTrades, portfolio, aliases: await loadSecurityAliases() }),
+    async () => {
+      const [{ runImportPipeline }, aliases] = await Promise.all([import('../utils/brokers'), loadSecurityAliases()]);
+      return runImportPipeline(file, existingTrades, onProgress, { aliases, portfolio });
+    }
+  ), [run]);
+
+  const runPreview = useCallback((
+    trades: Trade[],
+    parseIssues: Record<string, TradeIssue[]>,
+    existingTrades: Trade[],
+    onProgress: ImportProgressHandler = () => {},
+    portfolio?: ImportPortfolioSizes
+  ): Promise<ImportPreviewRow[] | null> => run(
+    onProgress,
+    async id => ({ id, type: 'preview', trades, parseIssues, existingTrades, portfolio }),
+    async () => {
+      const { buildPreviewRows } = await import('../utils/brokers');
+      return buildPreviewRows(trades, existingTrades, portfolio, parseIssues, onProgress);
+    }
+  ), [run]);
+
+  useEffect(() => {
+    return () => {
+      cancelImport();
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, [cancelImport]);
+
+  return {
+    runImport,
+    runPreview,
+    cancelImport
+  };
+}
@@ -1,6 +1,6 @@
 import { useMemo, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Trade } from '../types/trade';
+import { Trade, ImportBatchInput } from '../types/trade';
 
 // WORLD-CLASS ARCHITECTURE: Pure declarative imports only
 import * as tradeService from '../services/tradeService';
@@ -8,14 +8,17 @@ import { processTrades, applyCumulativeProfit, getChronologicalSortComparator }
 import { useTradeFilterStore } from '../stores/tradeFilterStore';
 import { useAccountingMethod } from '../context/AccountingMethodContext';
 import { useGlobalFilter } from '../context/GlobalFilterContext';
+import { useAccounts } from '../context/AccountContext';
 
 // Import only essential utils (no context dependencies)
 import { useTruePortfolioWithTrades } from './use-true-portfolio-with-trades';
 import { getTradeDateForAccounting, calculateTradePL } from '../utils/accountingUtils';
+import { getExitLegs } from '../lib/calculations';
 import { isInGlobalFilter } from '../utils/dateFilterUtils';
+import { filterByAccount } from '../utils/accounts';
 
 // A unique key for TanStack Query to cache and manage this specific data
-const TRADES_QUERY_KEY = ['trades'];
+export const TRADES_QUERY_KEY = ['trades'];
 
 // Export SortDescriptor type for backward compatibility
 export type { SortDescriptor } from '../stores/tradeFilterStore';
@@ -47,11 +50,13 @@ export const useTrades = () => {
   // CRITICAL FIX: Use the proper global filter from context, not from Zustand store
   const { filter: globalFilter } = useGlobalFilter();
 
+  // Selected broker account ('all' = consolidated view across accounts)
+  const { activeAccountId, writableAccountId, getFeePlan } = useAccounts();
 
 
   // --- Step 2: ENTERPRISE-SCALE DATA LOADING ---
   // ✅ CRITICAL FIX: STABLE queryFn to prevent multiple concurrent fetches
-  const { data: rawTrades = [], isLoading: isTradesLoading } = useQuery({
+  const { data: allTrades = [], isLoading: isTradesLoading } = useQuery({
     queryKey: TRADES_QUERY_KEY,
 
     // ✅ PERFECT: Stable function reference prevents TanStack Query conflicts
@@ -64,12 +69,18 @@ export const useTrades = () => {
     refetchOnMount: false, // Use cached data when available
   });
 
+  // Every account shares one query cache entry - scope it before any calculation
+  const rawTrades = useMemo(() => filterByAccount(allTrades, activeAccountId), [allTrades, activeAccountId]);
+
   // --- Step 3: The Calculation & Display Pipeline ---
   // This section uses `useMemo` to create a highly efficient, unidirectional data flow.
 
   // The circular dependency is broken: rawTrades -> getPortfolioSize -> calculatedTrades.
   const { getPortfolioSize } = useTruePortfolioWithTrades(rawTrades);
 
+  // Charges are computed with the fee plan of the account each trade belongs to
+  const getTradeFeePlan = useCallback((trade: Trade) => getFeePlan(trade.accountId), [getFeePlan]);
+
   // Pipeline Part A: ENTERPRISE-SCALE CALCULATIONS with streaming and chunking
   const calculatedTrades = useMemo(() => {
     if (rawTrades.length === 0 || !getPortfolioSize) return [];
@@ -87,7 +98,7 @@ export const useTrades = () => {
       }
 
       // Process chunks and combine results
-      const processedChunks = chunks.map(chunk => processTrades(chunk, getPortfolioSize));
+      const processedChunks = chunks.map(chunk => processTrades(chunk, getPortfolioSize, getTradeFeePlan));
       const result = processedChunks.flat();
 
       const processingTime = performance.now() - startTime;
@@ -96,12 +107,12 @@ export const useTrades = () => {
       return result;
     } else {
       // Standard processing for smaller datasets
-      const result = processTrades(rawTrades, getPortfolioSize);
+      const result = processTrades(rawTrades, getPortfolioSize, getTradeFeePlan);
       const processingTime = performance.now() - startTime;
 
       return result;
     }
-  }, [rawTrades, getPortfolioSize]);
+  }, [rawTrades, getPortfolioSize, getTradeFeePlan]);
 
   // Pipeline Part B: ENTERPRISE-SCALE FILTERING with performance optimizations
   // ✅ ENTERPRISE-GRADE: Optimized logging for performance monitoring
@@ -125,11 +136,7 @@ export const useTrades = () => {
 
       calculatedTrades.forEach(trade => {
         if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
-          const exits = [
-            { date: trade.exit1Date, qty: trade.exit1Qty || 0, price: trade.exit1Price || 0 },
-            { date: trade.exit2Date, qty: trade.exit2Qty || 0, price: trade.exit2Price || 0 },
-            { date: trade.exit3Date, qty: trade.exit3Qty || 0, price: trade.exit3Price || 0 }
-          ].filter(exit => exit.date && exit.qty > 0);
+          const exits = getExitLegs(trade).filter(exit => exit.date);
 
 
 
@@ -359,7 +366,7 @@ export const useTrades = () => {
   // For GLOBAL operations, full invalidation IS the correct approach
 
   const bulkImportMutation = useMutation({
-    mutationFn: (trades: Trade[]) => tradeService.bulkImportTrades(trades),
+    mutationFn: ({ trades, batch }: { trades: Trade[]; batch?: ImportBatchInput }) => tradeService.bulkImportTrades(trades, batch),
     onSuccess: () => {
       console.log('✅ Bulk Import successful - performing FULL cache invalidation');
       console.log('📊 GLOBAL operation detected - full refetch is appropriate and necessary');
@@ -384,6 +391,17 @@ export const useTrades = () => {
     onError: (error: Error) => console.error('❌ Clear All Trades failed:', error),
   });
 
+  // Trades created without an account belong to the selected one
+  const withAccount = useCallback((trade: Trade): Trade => {
+    return trade.accountId ? trade : { ...trade, accountId: writableAccountId };
+  }, [writableAccountId]);
+
+  const saveTrade = useCallback((trade: Trade) => saveTradeMutation.mutate(withAccount(trade)), [saveTradeMutation, withAccount]);
+  const bulkImportTrades = useCallback(
+    (trades: Trade[], batch?: ImportBatchInput) => bulkImportMutation.mutate({ trades: trades.map(withAccount), batch }),
+    [bulkImportMutation, withAccount]
+  );
+
   // Helper function for backward compatibility
   const getAccountingAwareValues = useCallback((trade: Trade) => {
     const plRs = calculateTradePL(trade, useCashBasis);
@@ -399,7 +417,10 @@ export const useTrades = () => {
 
     const pfImpact = currentPortfolioSize > 0 ? (plRs / currentPortfolioSize) * 100 : 0;
 
-    return { plRs, realisedAmount, pfImpact };
+    // Charges engine total for the whole trade, taken off whichever basis is in use
+    const netPlRs = plRs - (trade.totalCharges || 0);
+
+    return { plRs, realisedAmount, pfImpact, netPlRs };
   }, [useCashBasis, getPortfolioSize]);
 
   // WORLD-CLASS ARCHITECTURE: Get actions directly from store
@@ -416,6 +437,7 @@ export const useTrades = () => {
     // DATA: The final, processed data ready for the UI.
     trades: finalTradesForDisplay,
     originalTrades: calculatedTrades, // For any components that need the full, unfiltered set.
+    allAccountTrades: allTrades, // Stored trades of every account, for writes that pick their own account.
 
     // STATE: Loading and mutation states derived from TanStack Query.
     isLoading: isTradesLoading,
@@ -423,10 +445,10 @@ export const useTrades = () => {
     isRecalculating: false, // No longer needed with declarative approach, but kept for compatibility
 
     // ACTIONS: Simple functions that trigger the declarative mutations.
-    updateTrade: saveTradeMutation.mutate,
-    addTrade: saveTradeMutation.mutate, // Assumes `saveTrade` handles both new and existing trades.
+    updateTrade: saveTrade,
+    addTrade: saveTrade, // Assumes `saveTrade` handles both new and existing trades.
     deleteTrade: deleteTradeMutation.mutate,
-    bulkImportTrades: bulkImportMutation.mutate,
+    bulkImportTrades,
     clearAllTrades: clearAllTradesMutation.mutate,
 
     // UTILITIES: A way to force a refresh from anywhere in the app.
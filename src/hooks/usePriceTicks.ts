@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { PriceTick, fetchPriceTicks, fetchPriceTicksWithFallback, getTodayMarketOpen, isMarketOpen } from '../utils/priceTickApi';
-import { isWeekend } from 'date-fns';
+import { isMarketOpen } from '../utils/priceTickApi';
+import { Candle, getMarketDataProvider } from '../utils/marketData';
+import { isTradingDay } from '../lib/calculations';
 
-interface ProcessedTick extends Omit<PriceTick, 'dateTime'> {
+interface ProcessedTick extends Omit<Candle, 'time'> {
   id: string; // CRITICAL FIX: Add stable unique ID for React keys
   dateTime: string;
   timestamp: number;
@@ -16,25 +17,18 @@ export const usePriceTicks = (symbol: string) => {
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const isMounted = useRef(true);
 
-  const processTicks = useCallback((data: any): ProcessedTick[] => {
-    if (!data?.data?.ticks?.[symbol]) return [];
-
-    return data.data.ticks[symbol].map((tick: any, index: number) => {
-      const timestamp = new Date(tick[0]).getTime();
+  const processTicks = useCallback((candles: Candle[]): ProcessedTick[] => {
+    return candles.map(({ time, ...candle }, index) => {
+      const timestamp = new Date(time).getTime();
       // CRITICAL FIX: Generate stable unique ID for React keys
       // Using timestamp + symbol + index ensures uniqueness even with duplicate timestamps
       const id = `${symbol}-${timestamp}-${index}`;
 
       return {
         id, // Stable unique identifier for React keys
-        dateTime: tick[0],
+        dateTime: time,
         timestamp,
-        open: tick[1],
-        high: tick[2],
-        low: tick[3],
-        close: tick[4],
-        volume: tick[5],
-        dayVolume: tick[6]
+        ...candle
       };
     });
   }, [symbol]);
@@ -49,17 +43,10 @@ export const usePriceTicks = (symbol: string) => {
     setError(null);
 
     try {
-      let data;
-
-      try {
-        // Try primary API first
-        data = await fetchPriceTicks(symbol, fromDate, toDate);
-        } catch (primaryError) {
-        // If primary fails, try fallback mechanism
-        data = await fetchPriceTicksWithFallback(symbol, fromDate, toDate);
-        }
+      const provider = await getMarketDataProvider();
+      const candles = await provider.getIntradayCandles(symbol, fromDate, toDate);
 
-      const processed = processTicks(data);
+      const processed = processTicks(candles);
       if (isMounted.current) {
         setPriceTicks(processed);
         setLastUpdated(new Date());
@@ -116,12 +103,11 @@ export const usePriceTicks = (symbol: string) => {
   // Helper function to determine if it's after-hours weekday (12:00 AM to 9:15 AM IST)
   const isAfterHoursWeekday = useCallback((): boolean => {
     const now = new Date();
-    const day = now.getDay();
     const hours = now.getHours();
     const minutes = now.getMinutes();
 
-    // Only applies to weekdays (Monday=1 to Friday=5)
-    if (day === 0 || day === 6) return false;
+    // Only applies to trading days - weekends and exchange holidays poll slowly all day
+    if (!isTradingDay(now)) return false;
 
     // Check if time is between 12:00 AM (00:00) and 9:15 AM (09:15)
     if (hours < 9 || (hours === 9 && minutes < 15)) {
@@ -137,7 +123,7 @@ export const usePriceTicks = (symbol: string) => {
     stopPolling();
 
     const now = new Date();
-    const isCurrentlyWeekend = isWeekend(now);
+    const isCurrentlyWeekend = !isTradingDay(now);
     const isCurrentlyMarketOpen = isMarketOpen();
     const isCurrentlyAfterHours = isAfterHoursWeekday();
 
@@ -165,7 +151,7 @@ export const usePriceTicks = (symbol: string) => {
     // Set up polling
     pollingIntervalRef.current = setInterval(() => {
       const currentNow = new Date();
-      const currentIsWeekend = isWeekend(currentNow);
+      const currentIsWeekend = !isTradingDay(currentNow);
       const currentIsMarketOpen = isMarketOpen();
       const currentIsAfterHours = isAfterHoursWeekday();
 
@@ -221,34 +207,9 @@ export const usePriceTicks = (symbol: string) => {
   // Get the latest price
   const latestPrice = useMemo(() => {
     if (priceTicks.length === 0) return null;
-    // Ensure the last tick is for the current symbol if the symbol changes rapidly
     const lastTick = priceTicks[priceTicks.length - 1];
-     // Basic check if the tick data structure looks plausible
-    if (Array.isArray((lastTick as any).ticks?.[symbol]) && (lastTick as any).ticks[symbol].length > 0) {
-       const symbolTicks = (lastTick as any).ticks[symbol];
-       const latest = symbolTicks[symbolTicks.length - 1];
-       // Assuming index 4 is the close price based on PriceTicksResponse interface
-       if (latest && typeof latest[4] === 'number'){
-          // Create a simplified object matching ProcessedTick structure
-          return {
-            dateTime: latest[0] || '', // Date string
-            timestamp: new Date(latest[0] || '').getTime(), // Timestamp
-            open: latest[1] || 0,
-            high: latest[2] || 0,
-            low: latest[3] || 0,
-            close: latest[4] || 0, // Correct: Access close price from array index 4
-            volume: latest[5] || 0,
-            dayVolume: latest[6] || 0,
-            // Include other properties from the main tick object if needed, but be cautious with types
-             ...(typeof lastTick === 'object' && lastTick !== null ? lastTick : {})
-          };
-       }
-    } else if (lastTick && typeof lastTick.close === 'number') {
-       // Fallback for the processed tick structure if API response format changes or mock data is used
-       return lastTick;
-    }
-    return null;
-  }, [priceTicks, symbol]); // Add symbol dependency
+    return typeof lastTick.close === 'number' ? lastTick : null;
+  }, [priceTicks]);
 
   // Get price at a specific time
   const getPriceAtTime = useCallback((timestamp: Date): ProcessedTick | null => {
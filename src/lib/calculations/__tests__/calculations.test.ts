@@ -27,10 +27,29 @@ import {
   formatPercentage,
   formatStockMove,
   safeCalculation,
-  validateCalculationInputs
+  validateCalculationInputs,
+  getEntryLegs,
+  getExitLegs,
+  withSyncedLegs,
+  createTradeLeg,
+  formatLegsForExport,
+  parseLegsFromCell,
+  parseDerivativeSymbol,
+  calcCapitalAtWork,
+  formatLots,
+  isWholeLots,
+  splitTradesBySegment,
+  resolveFeePlan,
+  getChargeSegment,
+  calcTradeCharges,
+  getFinancialYear,
+  matchRealizedLots,
+  summarizeCapitalGains
 } from '../index';
 
 import { Trade } from '../../../types/trade';
+import { detectTradingCycles, summarizeTradingCycle, FillAccessor } from '../../../utils/tradingCycles';
+import { detectBroker, convertBrokerFile } from '../../../utils/brokers';
 
 // Mock trade data for testing
 const mockTrade: Trade = {
@@ -343,6 +362,336 @@ describe('Utility Functions', () => {
   });
 });
 
+describe('Trade Legs', () => {
+  test('should migrate legacy pyramid/exit columns into legs', () => {
+    expect(getEntryLegs(mockTrade).map(leg => leg.qty)).toEqual([100, 50, 30]);
+    expect(getExitLegs(mockTrade).map(leg => leg.qty)).toEqual([80, 50, 50]);
+  });
+
+  test('should keep legs beyond the legacy slots', () => {
+    const legs = [
+      createTradeLeg('Buy', '2024-01-15', 2500, 100),
+      createTradeLeg('Buy', '2024-01-16', 2510, 20),
+      createTradeLeg('Buy', '2024-01-17', 2520, 20),
+      createTradeLeg('Buy', '2024-01-18', 2530, 20),
+      createTradeLeg('Sell', '2024-01-25', 2600, 160)
+    ];
+    const synced = withSyncedLegs(mockOpenTrade, legs);
+
+    expect(getEntryLegs(synced)).toHaveLength(4);
+    expect(getEntryLegs(synced)[3].label).toBe('Pyramid 3');
+    expect(synced.pyramid2Qty).toBe(20);
+    expect(synced.exit1Qty).toBe(160);
+  });
+
+  test('should round-trip legs through the export cell', () => {
+    const legs = [
+      createTradeLeg('Buy', '2024-01-15', 2500.5, 100, 20),
+      createTradeLeg('Sell', '2024-01-20', 2580, 100)
+    ];
+    const parsed = parseLegsFromCell(formatLegsForExport(legs));
+
+    expect(parsed.map(({ id, ...leg }) => leg)).toEqual(legs.map(({ id, ...leg }) => leg));
+  });
+});
+
+describe('Short Selling', () => {
+  type Fill = { side: 'buy' | 'sell'; qty: number; price: number; date: string };
+  const fillAccessor: FillAccessor<Fill> = {
+    side: f => f.side,
+    qty: f => f.qty,
+    price: f => f.price,
+    date: f => f.date,
+    withQty: (f, qty) => ({ ...f, qty })
+  };
+
+  test('calcSLPercent should measure the stop above entry for shorts', () => {
+    expect(calcSLPercent(2600, 2500, 'Sell')).toBeCloseTo(4, 2);
+    expect(calcSLPercent(2400, 2500, 'Sell')).toBe(0);
+    expect(calcSLPercent(2600, 2500, 'Buy')).toBe(0);
+  });
+
+  test('calcTradeOpenHeat should use the lower of SL/TSL for shorts', () => {
+    const shortTrade = {
+      id: 'test-short-tsl',
+      positionStatus: 'Open',
+      avgEntry: 100,
+      openQty: 10,
+      sl: 105,
+      tsl: 102,
+      buySell: 'Sell',
+      date: '2024-01-01'
+    };
+    expect(calcTradeOpenHeat(shortTrade, 10000)).toBeCloseTo(0.2, 2);
+  });
+
+  test('calcStockMove should be positive when a short covers lower', () => {
+    expect(calcStockMove(100, 90, 0, 0, 10, 'Closed', 'Sell')).toBeCloseTo(10, 2);
+  });
+
+  test('detectTradingCycles should start a short cycle on a sell', () => {
+    const fills: Fill[] = [
+      { side: 'sell', qty: 50, price: 200, date: '2024-03-01' },
+      { side: 'buy', qty: 50, price: 190, date: '2024-03-01' }
+    ];
+    const cycles = detectTradingCycles(fills, fillAccessor);
+    const summary = summarizeTradingCycle(cycles[0], fillAccessor);
+
+    expect(cycles).toHaveLength(1);
+    expect(summary.buySell).toBe('Sell');
+    expect(summary.avgEntryPrice).toBe(200);
+    expect(summary.avgExitPrice).toBe(190);
+    expect(summary.isComplete).toBe(true);
+  });
+
+  test('detectTradingCycles should split a fill that flips long to short', () => {
+    const fills: Fill[] = [
+      { side: 'buy', qty: 100, price: 100, date: '2024-03-01' },
+      { side: 'sell', qty: 150, price: 110, date: '2024-03-02' },
+      { side: 'buy', qty: 50, price: 105, date: '2024-03-03' }
+    ];
+    const cycles = detectTradingCycles(fills, fillAccessor).map(cycle => summarizeTradingCycle(cycle, fillAccessor));
+
+    expect(cycles.map(c => c.buySell)).toEqual(['Buy', 'Sell']);
+    expect(cycles[0].totalExitQty).toBe(100);
+    expect(cycles[1].totalEntryQty).toBe(50);
+    expect(cycles[1].isComplete).toBe(true);
+  });
+});
+
+describe('Instruments', () => {
+  test('parseDerivativeSymbol should read monthly, weekly and spaced symbols', () => {
+    expect(parseDerivativeSymbol('NIFTY24JAN21500CE')).toEqual({
+      type: 'Option', underlying: 'NIFTY', expiry: '2024-01-25', strike: 21500, optionType: 'CE'
+    });
+    expect(parseDerivativeSymbol('BANKNIFTY24FEBFUT')).toEqual({
+      type: 'Future', underlying: 'BANKNIFTY', expiry: '2024-02-29'
+    });
+    expect(parseDerivativeSymbol('NIFTY2411821500PE')?.expiry).toBe('2024-01-18');
+    expect(parseDerivativeSymbol('NIFTY JAN 21500 CALL', '2023-12-20')?.expiry).toBe('2024-01-25');
+    expect(parseDerivativeSymbol('RELIANCE')).toBeNull();
+  });
+
+  test('calcCapitalAtWork should use margin for futures and premium for long options', () => {
+    const future = { buySell: 'Buy' as const, instrument: { type: 'Future' as const, margin: 120000 } };
+    const longCall = { buySell: 'Buy' as const, instrument: { type: 'Option' as const, margin: 50000 } };
+    expect(calcCapitalAtWork(future, 1100000)).toBe(120000);
+    expect(calcCapitalAtWork(longCall, 7500)).toBe(7500);
+    expect(calcCapitalAtWork({ instrument: { type: 'Future' } }, 900000)).toBe(900000);
+  });
+
+  test('calcTradeOpenHeat should cap long option risk at the premium', () => {
+    const longPut = {
+      id: 'test-long-put',
+      positionStatus: 'Open',
+      avgEntry: 100,
+      openQty: 50,
+      sl: 0,
+      buySell: 'Buy',
+      date: '2024-01-01',
+      instrument: { type: 'Option', optionType: 'PE' }
+    };
+    // No stop - the full 5,000 premium is at risk
+    expect(calcTradeOpenHeat(longPut, 100000)).toBeCloseTo(5, 2);
+  });
+
+  test('formatLots and isWholeLots should count F&O units in lots of the known size', () => {
+    const future = { instrument: { type: 'Future' as const, lotSize: 75 } };
+    expect(formatLots(future, 150)).toBe('2 lots');
+    expect(formatLots(future, 75)).toBe('1 lot');
+    expect(formatLots({ instrument: { type: 'Future' as const } }, 150)).toBe('');
+    expect(formatLots({ ...mockTrade, instrument: { type: 'Equity' as const, lotSize: 75 } }, 150)).toBe('');
+    expect(isWholeLots(future, 225)).toBe(true);
+    expect(isWholeLots(future, 100)).toBe(false);
+  });
+
+  test('splitTradesBySegment should bucket cash trades as equity', () => {
+    const split = splitTradesBySegment([mockTrade, { ...mockTrade, instrument: { type: 'Future' } }]);
+    expect(split.Equity).toHaveLength(1);
+    expect(split.Futures).toHaveLength(1);
+    expect(split.Options).toHaveLength(0);
+  });
+});
+
+describe('Charges', () => {
+  const leg = (action: 'Buy' | 'Sell', date: string, price: number, qty: number, fees?: number) =>
+    ({ id: `${action}-${date}-${price}`, action, date, price, qty, fees });
+
+  test('delivery buy should pay STT and stamp duty but no Zerodha brokerage', () => {
+    // Still open - a single buy held overnight
+    const trade = { buySell: 'Buy' as const, legs: [leg('Buy', '2024-01-01', 1000, 100)] };
+    const charges = calcTradeCharges(trade, resolveFeePlan({ preset: 'zerodha' }));
+    expect(getChargeSegment(trade)).toBe('delivery');
+    expect(charges.brokerage).toBe(0);
+    expect(charges.stt).toBeCloseTo(100, 6);
+    expect(charges.stampDuty).toBeCloseTo(15, 6);
+    expect(charges.exchangeCharges).toBeCloseTo(2.97, 6);
+    expect(charges.gst).toBeCloseTo((2.97 + 0.1 + 0.1) * 0.18, 6);
+    expect(charges.total).toBeCloseTo(118.7406, 4);
+  });
+
+  test('same-day trades should be intraday with capped brokerage', () => {
+    const trade = { buySell: 'Buy' as const, legs: [leg('Buy', '2024-01-01', 1000, 100), leg('Sell', '2024-01-01', 1010, 100)] };
+    const charges = calcTradeCharges(trade, resolveFeePlan({ preset: 'zerodha' }));
+    expect(getChargeSegment(trade)).toBe('intraday');
+    expect(charges.brokerage).toBe(40); // 0.03% of each order exceeds the ₹20 cap
+    expect(charges.stt).toBeCloseTo(101000 * 0.00025, 6);
+    expect(charges.dpCharges).toBe(0);
+  });
+
+  test('DP charges should apply once per delivery sell day', () => {
+    const trade = {
+      buySell: 'Buy' as const,
+      legs: [
+        leg('Buy', '2024-01-01', 100, 300),
+        leg('Sell', '2024-01-10', 110, 100),
+        leg('Sell', '2024-01-10', 112, 100),
+        leg('Sell', '2024-01-15', 115, 100)
+      ]
+    };
+    expect(calcTradeCharges(trade, resolveFeePlan({ preset: 'zerodha' })).dpCharges).toBeCloseTo(27, 6);
+    expect(calcTradeCharges(trade, resolveFeePlan({ preset: 'zerodha', dpCharge: 0 })).dpCharges).toBe(0);
+  });
+
+  test('custom plans and explicit leg fees should drive brokerage', () => {
+    const options = {
+      buySell: 'Buy' as const,
+      instrument: { type: 'Option' as const },
+      legs: [leg('Buy', '2024-01-01', 100, 50), leg('Sell', '2024-01-02', 120, 50, 5)]
+    };
+    const charges = calcTradeCharges(options, resolveFeePlan({ preset: 'flat', flatFee: 10 }));
+    expect(charges.brokerage).toBe(15); // ₹10 plan fee on the buy, ₹5 recorded on the sell
+    expect(charges.stt).toBeCloseTo(6000 * 0.001, 6);
+
+    const percentage = resolveFeePlan({ preset: 'percentage', percentage: 0.5, maxPerOrder: 25 });
+    expect(calcTradeCharges({ buySell: 'Buy', legs: [leg('Buy', '2024-01-01', 100, 100)] }, percentage).brokerage).toBe(25);
+  });
+});
+
+describe('Capital Gains', () => {
+  const leg = (action: 'Buy' | 'Sell', date: string, price: number, qty: number) =>
+    ({ id: `${action}-${date}-${price}`, action, date, price, qty });
+
+  test('getFinancialYear should follow the April-March year', () => {
+    expect(getFinancialYear('2024-03-31')).toBe('2023-24');
+    expect(getFinancialYear('2024-04-01')).toBe('2024-25');
+  });
+
+  test('matchRealizedLots should classify FIFO lots by holding period', () => {
+    const trade = {
+      id: 't1',
+      name: 'infy',
+      buySell: 'Buy' as const,
+      legs: [
+        leg('Buy', '2023-05-10', 1000, 10),
+        leg('Buy', '2024-06-03', 1100, 10),
+        leg('Sell', '2024-06-03', 1120, 5),   // FIFO takes the 2023 lot: long-term
+        leg('Sell', '2024-06-20', 1150, 15)
+      ]
+    };
+    const lots = matchRealizedLots(trade);
+    expect(lots.map(lot => lot.category)).toEqual(['ltcg', 'ltcg', 'stcg']);
+    expect(lots[2]).toMatchObject({ qty: 10, buyDate: '2024-06-03', gain: 500, financialYear: '2024-25' });
+
+    const intraday = matchRealizedLots({ buySell: 'Buy', legs: [leg('Buy', '2024-06-03', 100, 5), leg('Sell', '2024-06-03', 90, 5)] });
+    expect(intraday[0].category).toBe('speculative');
+  });
+
+  test('grandfathered cost should use the 31-Jan-2018 FMV capped at sale value', () => {
+    const trade = { name: 'TCS', buySell: 'Buy' as const, legs: [leg('Buy', '2017-06-01', 1000, 10), leg('Sell', '2024-09-02', 1500, 10)] };
+    expect(matchRealizedLots(trade, { TCS: 1300 })[0]).toMatchObject({ isGrandfathered: true, costOfAcquisition: 13000, gain: 2000 });
+    expect(matchRealizedLots(trade, { TCS: 1800 })[0].costOfAcquisition).toBe(15000);
+  });
+
+  test('summary should apply set-off, the 1.25L exemption and July 2024 rates', () => {
+    const lots = [
+      ...matchRealizedLots({ name: 'A', buySell: 'Buy', legs: [leg('Buy', '2022-01-03', 100, 1000), leg('Sell', '2024-06-03', 200, 1000)] }),
+      ...matchRealizedLots({ name: 'B', buySell: 'Buy', legs: [leg('Buy', '2022-01-03', 100, 1000), leg('Sell', '2024-08-01', 250, 1000)] }),
+      ...matchRealizedLots({ name: 'C', buySell: 'Buy', legs: [leg('Buy', '2024-05-02', 100, 500), leg('Sell', '2024-09-02', 80, 500)] })
+    ];
+    const summary = summarizeCapitalGains(lots, '2024-25');
+    expect(summary.ltcgByPeriod).toEqual({ beforeRateChange: 100000, fromRateChange: 150000 });
+    expect(summary.categories.stcg.net).toBe(-10000);
+    // 10,000 STCL then 125,000 exemption come off the 12.5% period first
+    expect(summary.taxableLtcg).toEqual({ beforeRateChange: 100000, fromRateChange: 15000 });
+    expect(summary.estimatedTax).toBeCloseTo(100000 * 0.1 + 15000 * 0.125, 6);
+  });
+});
+
+describe('Broker Importers', () => {
+  const zerodhaSheet = {
+    fileName: 'tradebook.csv',
+    rows: [
+      ['symbol', 'isin', 'trade_date', 'exchange', 'segment', 'series', 'trade_type', 'auction', 'quantity', 'price', 'trade_id', 'order_id', 'order_execution_time'],
+      ['INFY', 'INE009A01021', '2024-03-04', 'NSE', 'EQ', 'EQ', 'buy', 'false', '10', '1600', '1', '11', '2024-03-04T09:20:00'],
+      ['INFY', 'INE009A01021', '2024-03-04', 'NSE', 'EQ', 'EQ', 'buy', 'false', '10', '1620', '2', '12', '2024-03-04T11:05:00'],
+      ['INFY', 'INE009A01021', '2024-03-11', 'NSE', 'EQ', 'EQ', 'sell', 'false', '20', '1700', '3', '13', '2024-03-11T10:00:00']
+    ]
+  };
+
+  const dhanSheet = {
+    fileName: 'dhan.csv',
+    rows: [
+      ['Date', 'Time', 'Name', 'Buy/Sell', 'Order', 'Exchange', 'Segment', 'Quantity/Lot', 'Trade Price', 'Trade Value', 'Status'],
+      ['04/03/2024', '11:05:00', 'INFY', 'BUY', 'DELIVERY', 'NSE', 'Equity', '10', '1,620', '16,200', 'Traded'],
+      ['04/03/2024', '09:20:00', 'INFY', 'BUY', 'DELIVERY', 'NSE', 'Equity', '10', '1,600', '16,000', 'Traded'],
+      ['05/03/2024', '09:30:00', 'INFY', 'BUY', 'DELIVERY', 'NSE', 'Equity', '50', '1,500', '75,000', 'Rejected'],
+      ['11/03/2024', '10:00:00', 'INFY', 'SELL', 'DELIVERY', 'NSE', 'Equity', '20', '1,700', '34,000', 'Traded']
+    ]
+  };
+
+  test('detectBroker should find the header row below a title block', () => {
+    const upstoxHeader = ['Date', 'Company', 'Amount', 'Exchange', 'Segment', 'Scrip Code', 'Instrument Type', 'Strike Price', 'Expiry', 'Trade Num', 'Trade Time', 'Side', 'Quantity', 'Price'];
+    const detected = detectBroker([{ fileName: 'trade_1_2_eq.xlsx', sheetName: 'TRADE', rows: [['Trade Report'], [], upstoxHeader] }]);
+
+    expect(detected?.adapter.id).toBe('upstox');
+    expect(detected?.headerRowIndex).toBe(2);
+    expect(detectBroker([{ fileName: 'journal.csv', rows: [['Name', 'Entry', 'SL']] }])).toBeNull();
+  });
+
+  test('Zerodha and Dhan F&O imports should fill in the lot size', () => {
+    const zerodhaFno = {
+      fileName: 'tradebook-FO.csv',
+      rows: [
+        zerodhaSheet.rows[0],
+        ['NIFTY24MAR22000CE', '', '2024-03-15', 'NFO', 'FO', '', 'buy', 'false', '150', '120', '21', '31', '2024-03-15T09:30:00'],
+        ['NIFTY24MAR22000CE', '', '2024-03-18', 'NFO', 'FO', '', 'sell', 'false', '50', '150', '22', '32', '2024-03-18T13:15:00'],
+        ['NIFTY24MAR22000CE', '', '2024-03-19', 'NFO', 'FO', '', 'sell', 'false', '100', '155', '23', '33', '2024-03-19T10:00:00']
+      ]
+    };
+    const dhanFno = {
+      fileName: 'dhan-fo.csv',
+      rows: [
+        dhanSheet.rows[0],
+        ['15/03/2024', '09:30:00', 'NIFTY MAR 22000 CALL', 'BUY', 'MARGIN', 'NSE', 'FNO', '100/2', '120', '12,000', 'Traded'],
+        ['18/03/2024', '13:15:00', 'NIFTY MAR 22000 CALL', 'SELL', 'MARGIN', 'NSE', 'FNO', '100/2', '150', '15,000', 'Traded']
+      ]
+    };
+
+    const [zerodhaTrade] = convertBrokerFile(detectBroker([zerodhaFno])!);
+    const [dhanTrade] = convertBrokerFile(detectBroker([dhanFno])!);
+
+    expect(zerodhaTrade.instrument).toMatchObject({ type: 'Option', underlying: 'NIFTY', lotSize: 50 });
+    expect(zerodhaTrade.initialQty).toBe(150);
+    expect(dhanTrade.instrument).toMatchObject({ type: 'Option', underlying: 'NIFTY', lotSize: 50 });
+    expect(dhanTrade.initialQty).toBe(100);
+  });
+
+  test('every broker should pair the same fills into the same trade', () => {
+    const [zerodhaTrade] = convertBrokerFile(detectBroker([zerodhaSheet])!);
+    const dhanTrades = convertBrokerFile(detectBroker([dhanSheet])!);
+
+    expect(dhanTrades).toHaveLength(1);
+    for (const trade of [zerodhaTrade, dhanTrades[0]]) {
+      expect(trade.date).toBe('2024-03-04');
+      expect(trade.avgEntry).toBe(1610);
+      expect(trade.positionStatus).toBe('Closed');
+      expect(trade.plRs).toBe(1800);
+      expect(trade.legs?.map(leg => leg.price)).toEqual([1600, 1620, 1700]);
+    }
+  });
+});
+
 describe('Edge Cases and Error Handling', () => {
   test('should handle zero values gracefully', () => {
     expect(calcAvgEntry([])).toBe(0);
@@ -0,0 +1,148 @@
+/**
+ * Corporate action adjustments - a 1:5 split, 1:1 bonus, ₹10 dividend and demerger on TATASTEEL, ex 2024-06-10
+ */
+
+import { Trade, CorporateAction } from '../../../types/trade';
+import {
+  applyCorporateAction,
+  revertCorporateAction,
+  getHeldQtyOnExDate,
+  getHeldCostOnExDate,
+  createTradeLeg,
+  calcRealizedPL_FIFO
+} from '..';
+
+const EX_DATE = '2024-06-10';
+
+const trade = (legs: Array<[action: 'Buy' | 'Sell', date: string, price: number, qty: number]>, overrides: Partial<Trade> = {}): Trade => ({
+  id: 'trade-1',
+  tradeNo: '1',
+  name: 'TATASTEEL',
+  date: legs[0][1],
+  buySell: 'Buy',
+  sl: 900,
+  tsl: 950,
+  cmp: 1000,
+  openQty: legs.reduce((sum, [action, , , qty]) => sum + (action === 'Buy' ? qty : -qty), 0),
+  positionStatus: 'Open',
+  legs: legs.map(([action, date, price, qty]) => createTradeLeg(action, date, price, qty)),
+  ...overrides
+} as Trade);
+
+const action = (overrides: Partial<CorporateAction>): CorporateAction => ({
+  id: 'action-1',
+  symbol: 'TATASTEEL',
+  type: 'split',
+  exDate: EX_DATE,
+  ratioFrom: 1,
+  ratioTo: 5,
+  ...overrides
+});
+
+describe('Corporate Actions', () => {
+  test('should restate entries and exits before the ex-date and leave later ones alone', () => {
+    const held = trade([['Buy', '2024-05-02', 1000, 20], ['Sell', '2024-05-20', 1100, 5], ['Sell', '2024-06-12', 230, 25]]);
+    const { trade: adjusted, applied } = applyCorporateAction(held, action({}), '2024-06-11T00:00:00Z')!;
+
+    expect(applied.heldQty).toBe(15);
+    expect(adjusted.legs!.map(leg => [leg.action, leg.price, leg.qty])).toEqual([
+      ['Buy', 200, 100],
+      ['Sell', 220, 25],
+      ['Sell', 230, 25]
+    ]);
+    expect([adjusted.sl, adjusted.tsl, adjusted.cmp]).toEqual([180, 190, 200]);
+  });
+
+  test('should spread cost over bonus shares', () => {
+    const { trade: adjusted } = applyCorporateAction(
+      trade([['Buy', '2024-05-02', 1000, 10]]),
+      action({ type: 'bonus', ratioFrom: 1, ratioTo: 1 }),
+      '2024-06-11T00:00:00Z'
+    )!;
+    expect(adjusted.legs!.map(leg => [leg.price, leg.qty])).toEqual([[500, 20]]);
+    expect(adjusted.openQty).toBe(20);
+  });
+
+  test('should pay dividends on shares held into the ex-date without changing prices', () => {
+    const { trade: adjusted, applied } = applyCorporateAction(
+      trade([['Buy', '2024-05-02', 1000, 10], ['Buy', EX_DATE, 1010, 5]]),
+      action({ type: 'dividend', dividendPerShare: 10 }),
+      '2024-06-11T00:00:00Z'
+    )!;
+    expect(applied.dividendAmount).toBe(100);
+    expect(adjusted.legs!.map(leg => leg.price)).toEqual([1000, 1010]);
+  });
+
+  test('should reprice only the held shares on a demerger and keep earlier exits\' P&L', () => {
+    const held = trade([['Buy', '2024-05-02', 1000, 20], ['Sell', '2024-05-20', 1100, 5], ['Sell', '2024-06-12', 700, 15]]);
+    const { trade: adjusted } = applyCorporateAction(
+      held,
+      action({ type: 'demerger', costRetained: 0.6, newSymbol: 'TATASTEELNEW' }),
+      '2024-06-11T00:00:00Z'
+    )!;
+    const entries = adjusted.legs!.filter(leg => leg.action === 'Buy').map(leg => ({ price: leg.price, qty: leg.qty }));
+    const exits = adjusted.legs!.filter(leg => leg.action === 'Sell').map(leg => ({ price: leg.price, qty: leg.qty }));
+
+    expect(adjusted.legs!.map(leg => [leg.action, leg.price, leg.qty])).toEqual([
+      ['Buy', 1000, 5],
+      ['Buy', 600, 15],
+      ['Sell', 1100, 5],
+      ['Sell', 700, 15]
+    ]);
+    expect(new Set(adjusted.legs!.map(leg => leg.id)).size).toBe(4);
+    // 40% of the 15 held shares' cost moves to the new company
+    expect(getHeldCostOnExDate(held, EX_DATE)).toBe(15000);
+    // 5 x (1100 - 1000) before the ex-date, 15 x (700 - 600) after
+    expect(calcRealizedPL_FIFO(entries, exits)).toBe(500 + 1500);
+  });
+
+  test('should skip trades closed before the ex-date and ones already adjusted', () => {
+    const closed = trade([['Buy', '2024-05-02', 1000, 10], ['Sell', '2024-06-07', 1050, 10]], { positionStatus: 'Closed' });
+    expect(getHeldQtyOnExDate(closed, EX_DATE)).toBe(0);
+    expect(applyCorporateAction(closed, action({}), '2024-06-11T00:00:00Z')).toBeNull();
+
+    const { trade: adjusted } = applyCorporateAction(trade([['Buy', '2024-05-02', 1000, 10]]), action({}), '2024-06-11T00:00:00Z')!;
+    expect(applyCorporateAction(adjusted, action({}), '2024-06-12T00:00:00Z')).toBeNull();
+  });
+
+  test('should undo the latest action only', () => {
+    const original = trade([['Buy', '2024-05-02', 1000, 10]]);
+    const { trade: split } = applyCorporateAction(original, action({}), '2024-06-11T00:00:00Z')!;
+    const { trade: bonus } = applyCorporateAction(
+      split,
+      action({ id: 'action-2', type: 'bonus', exDate: '2024-07-01', ratioFrom: 1, ratioTo: 1 }),
+      '2024-07-02T00:00:00Z'
+    )!;
+
+    expect(revertCorporateAction(bonus, 'action-1')).toBeNull();
+    const reverted = revertCorporateAction(revertCorporateAction(bonus, 'action-2')!, 'action-1')!;
+    expect(reverted.legs!.map(leg => [leg.price, leg.qty])).toEqual([[1000, 10]]);
+    expect([reverted.sl, reverted.cmp, reverted.openQty]).toEqual([900, 1000, 10]);
+    expect(reverted.corporateActions).toEqual([]);
+  });
+
+  test('should keep exits added after the action when undoing it', () => {
+    const { trade: split } = applyCorporateAction(trade([['Buy', '2024-05-02', 1000, 10]]), action({}), '2024-06-11T00:00:00Z')!;
+    const exit = createTradeLeg('Sell', '2024-06-20', 210, 20);
+    const withExit = { ...split, legs: [...split.legs!, exit], openQty: 30, sl: 190 };
+
+    const reverted = revertCorporateAction(withExit, 'action-1')!;
+    expect(reverted.legs!.map(leg => [leg.action, leg.price, leg.qty])).toEqual([['Buy', 1000, 10], ['Sell', 210, 20]]);
+    expect(reverted.legs![1].id).toBe(exit.id);
+    // The stop moved after the split is scaled back with it
+    expect(reverted.sl).toBe(950);
+  });
+
+  test('should drop the leg a demerger split off when undoing it', () => {
+    const { trade: demerged } = applyCorporateAction(
+      trade([['Buy', '2024-05-02', 1000, 10], ['Sell', '2024-06-03', 1100, 4]]),
+      action({ type: 'demerger', costRetained: 0.8 }),
+      '2024-06-11T00:00:00Z'
+    )!;
+    expect(demerged.legs).toHaveLength(3);
+
+    const reverted = revertCorporateAction(demerged, 'action-1')!;
+    expect(reverted.legs!.map(leg => [leg.action, leg.price, leg.qty])).toEqual([['Buy', 1000, 10], ['Sell', 1100, 4]]);
+    expect(reverted.openQty).toBe(6);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Exchange calendar - holidays, special sessions and the user's overrides
+ */
+
+import {
+  getMarketSession,
+  isTradingDay,
+  getTradingDayOnOrAfter,
+  getPreviousTradingDay,
+  setCalendarOverrides
+} from '../utils/exchangeCalendar';
+import { getTradingDaysBetween } from '../utils/dateUtils';
+
+describe('exchange calendar', () => {
+  afterEach(() => setCalendarOverrides([]));
+
+  it('closes on weekends and exchange holidays', () => {
+    expect(isTradingDay('2024-03-23')).toBe(false); // Saturday
+    expect(isTradingDay('2024-03-25')).toBe(false); // Holi
+    expect(isTradingDay('2024-03-26')).toBe(true);
+  });
+
+  it('opens for weekend and evening special sessions', () => {
+    expect(getMarketSession('2024-03-02')).toMatchObject({ open: '09:15', close: '12:30', type: 'special_session' });
+    expect(getMarketSession('2024-11-01')).toMatchObject({ open: '18:00', close: '19:00' });
+  });
+
+  it('steps over holidays to the nearest trading day', () => {
+    // Good Friday 2024-03-29 then a weekend
+    expect(getTradingDayOnOrAfter('2024-03-29')).toBe('2024-04-01');
+    expect(getTradingDayOnOrAfter('2024-03-29', -1)).toBe('2024-03-28');
+    expect(getPreviousTradingDay('2024-04-01')).toBe('2024-03-28');
+  });
+
+  it('counts trading days between dates without holidays', () => {
+    // 22 Mar (Fri) -> 1 Apr (Mon): 26, 27, 28 Mar and 1 Apr
+    expect(getTradingDaysBetween(new Date(2024, 2, 22), new Date(2024, 3, 1))).toBe(4);
+  });
+
+  it('lets overrides add and cancel closures', () => {
+    setCalendarOverrides([
+      { date: '2024-03-26', type: 'holiday', name: 'Unscheduled closure' },
+      { date: '2024-03-25', type: 'regular', name: 'Holi moved' }
+    ]);
+    expect(isTradingDay('2024-03-26')).toBe(false);
+    expect(isTradingDay('2024-03-25')).toBe(true);
+  });
+
+  it('applies an override to the named exchange only', () => {
+    setCalendarOverrides([{ date: '2024-03-26', type: 'holiday', name: 'BSE outage', exchanges: ['BSE'] }]);
+    expect(isTradingDay('2024-03-26', 'BSE')).toBe(false);
+    expect(isTradingDay('2024-03-26', 'NSE')).toBe(true);
+  });
+});
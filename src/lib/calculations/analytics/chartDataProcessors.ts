@@ -6,6 +6,7 @@
 import { Trade } from '../../../types/trade';
 import { calculateTradePL, getTradeDateForAccounting } from '../../../utils/accountingUtils';
 import { calculateDailyReturns, calculateStandardDeviation } from '../core/statisticalMetrics';
+import { getTradingDayOnOrAfter } from '../utils/exchangeCalendar';
 
 export interface ChartDataPoint {
   month: string;
@@ -106,7 +107,9 @@ export function calculateVolatilityData(
 }
 
 /**
- * Process daily portfolio values for performance calculations
+ * Process daily portfolio values for performance calculations.
+ * Points fall on trading days only - a trade or capital change dated on a weekend or
+ * exchange holiday counts towards the next session, so daily returns aren't split across closed days.
  */
 export function calculateDailyPortfolioValues(
   trades: Trade[],
@@ -114,50 +117,44 @@ export function calculateDailyPortfolioValues(
   useCashBasis: boolean = false
 ): Map<number, number> {
   const dailyValues = new Map<number, number>();
-  
-  // Get all unique dates from trades and capital changes
-  const allDates = new Set<string>();
-  
+
+  const tradingDayOf = (dateStr: string): string | null =>
+    dateStr && !isNaN(new Date(dateStr).getTime()) ? getTradingDayOnOrAfter(dateStr) : null;
+
+  // Group trades and capital changes by the trading day they count towards
+  const tradesByDay = new Map<string, Trade[]>();
   trades.forEach(trade => {
-    const relevantDate = getTradeDateForAccounting(trade, useCashBasis);
-    allDates.add(relevantDate);
+    const day = tradingDayOf(getTradeDateForAccounting(trade, useCashBasis));
+    if (!day) return;
+    if (!tradesByDay.has(day)) tradesByDay.set(day, []);
+    tradesByDay.get(day)!.push(trade);
   });
-  
+
+  const capitalByDay = new Map<string, number>();
   capitalChanges.forEach(change => {
-    allDates.add(change.date);
+    const day = tradingDayOf(change.date);
+    if (!day) return;
+    capitalByDay.set(day, (capitalByDay.get(day) || 0) + change.amount);
   });
-  
-  const sortedDates = Array.from(allDates)
-    .map(dateStr => new Date(dateStr))
-    .sort((a, b) => a.getTime() - b.getTime());
 
-  if (sortedDates.length === 0) {
+  const sortedDays = Array.from(new Set([...tradesByDay.keys(), ...capitalByDay.keys()])).sort();
+
+  if (sortedDays.length === 0) {
     dailyValues.set(new Date().setHours(0, 0, 0, 0), 1000);
     return dailyValues;
   }
 
   let currentCashComponent = 0;
 
-  for (const date of sortedDates) {
-    const timestamp = date.setHours(0, 0, 0, 0);
-    const dateStr = date.toISOString().split('T')[0];
+  for (const day of sortedDays) {
+    const [year, month, dayOfMonth] = day.split('-').map(Number);
+    const timestamp = new Date(year, month - 1, dayOfMonth).getTime();
 
     // Add capital changes for this date
-    const capitalChangesForDate = capitalChanges.filter(cc => {
-      const ccDate = new Date(cc.date);
-      return ccDate.toISOString().split('T')[0] === dateStr;
-    });
-
-    capitalChangesForDate.forEach(cc => {
-      currentCashComponent += cc.amount;
-    });
+    currentCashComponent += capitalByDay.get(day) || 0;
 
     // Add P/L from trades for this date
-    const tradesOnDate = trades.filter(trade => {
-      const relevantDate = getTradeDateForAccounting(trade, useCashBasis);
-      const tradeDate = new Date(relevantDate);
-      return tradeDate.toISOString().split('T')[0] === dateStr;
-    });
+    const tradesOnDate = tradesByDay.get(day) || [];
 
     // For cash basis, deduplicate trades to avoid double counting
     let uniqueTradesForDate = tradesOnDate;
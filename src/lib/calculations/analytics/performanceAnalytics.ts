@@ -7,6 +7,7 @@ import { Trade } from '../../../types/trade';
 import { calculateTradePL } from '../../../utils/accountingUtils';
 import { calcHoldingDays } from '../utils/dateUtils';
 import { calcWeightedRewardRisk } from '../core/tradeMetrics';
+import { getExitLegs } from '../core/tradeLegs';
 import { getTradesWithAccountingPL } from '../core/accountingCalculations';
 import { calculateStandardDeviation, calculateExpectancy, calculateProfitFactor, calculateStreaks } from '../core/statisticalMetrics';
 import { calcWinRate } from '../core/portfolioMetrics';
@@ -147,8 +148,7 @@ export function calcPerformanceMetrics(
     processedTrades = trades.map(trade => {
       if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
         // Find the first exit date for accrual basis
-        const exitDates = [trade.exit1Date, trade.exit2Date, trade.exit3Date]
-          .filter(Boolean) as string[];
+        const exitDates = getExitLegs(trade).map(exit => exit.date).filter(Boolean);
 
         if (exitDates.length > 0 && trade.date) {
           try {
@@ -181,12 +181,8 @@ export function calcPerformanceMetrics(
 
     trades.forEach(trade => {
       if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
-        // Import the getExitDatesWithFallback function
-        const exits = trade.exit1Date || trade.exit2Date || trade.exit3Date ? [
-          ...(trade.exit1Date ? [{ date: trade.exit1Date, qty: trade.exit1Qty || 0, price: trade.exit1Price || 0 }] : []),
-          ...(trade.exit2Date ? [{ date: trade.exit2Date, qty: trade.exit2Qty || 0, price: trade.exit2Price || 0 }] : []),
-          ...(trade.exit3Date ? [{ date: trade.exit3Date, qty: trade.exit3Qty || 0, price: trade.exit3Price || 0 }] : [])
-        ] : [];
+        // Every dated exit leg becomes its own cash basis entry
+        const exits = getExitLegs(trade).filter(exit => exit.date);
 
         if (exits.length > 0) {
           // Create separate entries for each exit with calculated holding days
@@ -430,8 +426,7 @@ export function calcMonthlyPerformance(
       let tradeHoldingDays = trade.holdingDays || 0; // fallback to original
 
       if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
-        const validExitDates = [trade.exit1Date, trade.exit2Date, trade.exit3Date]
-          .filter(Boolean) as string[];
+        const validExitDates = getExitLegs(trade).map(exit => exit.date).filter(Boolean);
 
         if (validExitDates.length > 0 && trade.date) {
           try {
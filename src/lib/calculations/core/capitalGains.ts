@@ -0,0 +1,337 @@
+/**
+ * Capital Gains
+ * Lot-level STCG / LTCG classification for Indian listed equity (Sections 111A / 112A)
+ */
+
+import { Trade } from '../../../types/trade';
+import { isDerivativeTrade } from './instruments';
+import { getEntryLegs, getExitLegs } from './tradeLegs';
+
+export type GainCategory = 'speculative' | 'stcg' | 'ltcg' | 'business';
+
+export const GAIN_CATEGORY_LABELS: Record<GainCategory, string> = {
+  speculative: 'Intraday (speculative)',
+  stcg: 'Short-term (111A)',
+  ltcg: 'Long-term (112A)',
+  business: 'F&O (non-speculative)'
+};
+
+// Finance (No. 2) Act 2024 - new 111A / 112A rates apply to transfers from this date
+export const RATE_CHANGE_DATE = '2024-07-23';
+
+// Section 112A: cost of shares bought up to this date is stepped up to the FMV on it
+export const GRANDFATHERING_DATE = '2018-01-31';
+
+// LTCG on listed equity was exempt under 10(38) for transfers before this date
+const SECTION_112A_START = '2018-04-01';
+
+export type RatePeriod = 'beforeRateChange' | 'fromRateChange';
+
+export interface RealizedLot {
+  tradeId: string;
+  name: string;
+  qty: number;
+  buyDate: string;
+  sellDate: string;
+  buyPrice: number;
+  sellPrice: number;
+  saleValue: number;         // Full value of consideration
+  actualCost: number;        // Cost of acquisition without indexation
+  fmvPerShare?: number;      // FMV on 31-Jan-2018 (grandfathered lots only)
+  costOfAcquisition: number; // After grandfathering
+  transferExpenses: number;  // Fees recorded on the closing fill, pro-rated
+  gain: number;
+  holdingDays: number;
+  category: GainCategory;
+  financialYear: string;
+  ratePeriod: RatePeriod;
+  isGrandfathered: boolean;
+}
+
+export interface CategoryTotals {
+  gains: number;
+  losses: number;
+  net: number;
+  saleValue: number;
+  costOfAcquisition: number;
+  transferExpenses: number;
+  lots: number;
+}
+
+export interface CapitalGainsSummary {
+  financialYear: string;
+  categories: Record<GainCategory, CategoryTotals>;
+  // Net 111A / 112A gains split by the 23-Jul-2024 rate change
+  stcgByPeriod: Record<RatePeriod, number>;
+  ltcgByPeriod: Record<RatePeriod, number>;
+  ltcgExemptionLimit: number;
+  ltcgExemptionUsed: number;
+  taxableStcg: Record<RatePeriod, number>;
+  taxableLtcg: Record<RatePeriod, number>;
+  estimatedTax: number;      // 111A + 112A only, before surcharge and cess
+  lots: RealizedLot[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: string): string {
+  return (date || '').slice(0, 10);
+}
+
+/**
+ * Indian financial year (April-March) of a date, e.g. '2024-25'
+ */
+export function getFinancialYear(date: string): string {
+  const day = toDay(date);
+  const year = Number(day.slice(0, 4));
+  const month = Number(day.slice(5, 7));
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Rates applicable to a transfer on the given date (0 LTCG before 112A existed)
+ */
+export function getCapitalGainsRates(sellDate: string): { stcg: number; ltcg: number } {
+  const day = toDay(sellDate);
+  if (day >= RATE_CHANGE_DATE) return { stcg: 0.2, ltcg: 0.125 };
+  return { stcg: 0.15, ltcg: day >= SECTION_112A_START ? 0.1 : 0 };
+}
+
+/**
+ * Yearly 112A exemption - raised to ₹1.25L for the whole of FY 2024-25 onwards
+ */
+export function getLtcgExemptionLimit(financialYear: string): number {
+  return Number(financialYear.slice(0, 4)) >= 2024 ? 125000 : 100000;
+}
+
+/**
+ * Listed equity is long-term when held for more than 12 months
+ */
+export function isLongTermHolding(buyDate: string, sellDate: string): boolean {
+  const anniversary = new Date(`${toDay(buyDate)}T00:00:00Z`);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return new Date(`${toDay(sellDate)}T00:00:00Z`).getTime() > anniversary.getTime();
+}
+
+export function classifyGain(trade: Partial<Trade>, buyDate: string, sellDate: string): GainCategory {
+  if (isDerivativeTrade(trade)) return 'business';
+  if (toDay(buyDate) === toDay(sellDate)) return 'speculative';
+  return isLongTermHolding(buyDate, sellDate) ? 'ltcg' : 'stcg';
+}
+
+/**
+ * Section 55(2)(ac): cost = higher of actual cost and lower of (FMV on 31-Jan-2018, sale value)
+ */
+export function calcGrandfatheredCost(actualCost: number, fmvValue: number, saleValue: number): number {
+  return Math.max(actualCost, Math.min(fmvValue, saleValue));
+}
+
+/**
+ * Match the fills of a trade FIFO into realized lots.
+ * Shorts pair the opening sell with the covering buy.
+ * `fmvBySymbol` holds 31-Jan-2018 prices for grandfathered holdings.
+ */
+export function matchRealizedLots(
+  trade: Partial<Trade>,
+  fmvBySymbol: Record<string, number> = {}
+): RealizedLot[] {
+  const isShort = trade.buySell === 'Sell';
+  const open = getEntryLegs(trade).filter(leg => leg.date).map(leg => ({ ...leg }));
+  const lots: RealizedLot[] = [];
+  const symbol = (trade.name || '').toUpperCase();
+
+  getExitLegs(trade).filter(leg => leg.date).forEach(exit => {
+    let remaining = exit.qty;
+    while (remaining > 0 && open.length > 0) {
+      const entry = open[0];
+      const qty = Math.min(entry.qty, remaining);
+      const buy = isShort ? exit : entry;
+      const sell = isShort ? entry : exit;
+
+      const saleValue = sell.price * qty;
+      const actualCost = buy.price * qty;
+      const category = classifyGain(trade, buy.date, sell.date);
+      const fmv = Number(fmvBySymbol[symbol]);
+      const isGrandfathered = category === 'ltcg' && toDay(buy.date) <= GRANDFATHERING_DATE;
+      const costOfAcquisition = isGrandfathered && fmv > 0
+        ? calcGrandfatheredCost(actualCost, fmv * qty, saleValue)
+        : actualCost;
+      const transferExpenses = exit.qty > 0 ? (Number(exit.fees) || 0) * qty / exit.qty : 0;
+
+      lots.push({
+        tradeId: trade.id || '',
+        name: symbol,
+        qty,
+        buyDate: toDay(buy.date),
+        sellDate: toDay(sell.date),
+        buyPrice: buy.price,
+        sellPrice: sell.price,
+        saleValue,
+        actualCost,
+        fmvPerShare: isGrandfathered && fmv > 0 ? fmv : undefined,
+        costOfAcquisition,
+        transferExpenses,
+        gain: saleValue - costOfAcquisition - transferExpenses,
+        holdingDays: Math.max(0, Math.round(
+          (new Date(toDay(sell.date)).getTime() - new Date(toDay(buy.date)).getTime()) / DAY_MS
+        )),
+        category,
+        financialYear: getFinancialYear(exit.date),
+        ratePeriod: toDay(exit.date) >= RATE_CHANGE_DATE ? 'fromRateChange' : 'beforeRateChange',
+        isGrandfathered
+      });
+
+      entry.qty -= qty;
+      remaining -= qty;
+      if (entry.qty <= 0) open.shift();
+    }
+  });
+
+  return lots;
+}
+
+export function matchRealizedLotsForTrades(
+  trades: Partial<Trade>[],
+  fmvBySymbol: Record<string, number> = {}
+): RealizedLot[] {
+  return trades.flatMap(trade => matchRealizedLots(trade, fmvBySymbol));
+}
+
+const emptyTotals = (): CategoryTotals => ({
+  gains: 0, losses: 0, net: 0, saleValue: 0, costOfAcquisition: 0, transferExpenses: 0, lots: 0
+});
+
+/**
+ * Take a loss out of the period gains, higher-rate period first
+ */
+function absorbLoss(byPeriod: Record<RatePeriod, number>, amount: number): number {
+  let remaining = amount;
+  (['fromRateChange', 'beforeRateChange'] as RatePeriod[]).forEach(period => {
+    const used = Math.min(Math.max(0, byPeriod[period]), remaining);
+    byPeriod[period] -= used;
+    remaining -= used;
+  });
+  return remaining;
+}
+
+/**
+ * Net the losses of one category against its gains in either rate period
+ */
+function netWithinCategory(byPeriod: Record<RatePeriod, number>) {
+  const taxable: Record<RatePeriod, number> = {
+    beforeRateChange: Math.max(0, byPeriod.beforeRateChange),
+    fromRateChange: Math.max(0, byPeriod.fromRateChange)
+  };
+  const loss = -Math.min(0, byPeriod.beforeRateChange) - Math.min(0, byPeriod.fromRateChange);
+  return { taxable, unabsorbedLoss: absorbLoss(taxable, loss) };
+}
+
+/**
+ * FY summary of realized gains with intra-year set-off and the 112A exemption.
+ * Short-term losses offset short-term then long-term gains, long-term losses only
+ * long-term gains. Set-off and the exemption go against the higher-rate period first.
+ */
+export function summarizeCapitalGains(lots: RealizedLot[], financialYear: string): CapitalGainsSummary {
+  const yearLots = lots.filter(lot => lot.financialYear === financialYear);
+  const categories = {
+    speculative: emptyTotals(), stcg: emptyTotals(), ltcg: emptyTotals(), business: emptyTotals()
+  } as Record<GainCategory, CategoryTotals>;
+  const stcgByPeriod: Record<RatePeriod, number> = { beforeRateChange: 0, fromRateChange: 0 };
+  const ltcgByPeriod: Record<RatePeriod, number> = { beforeRateChange: 0, fromRateChange: 0 };
+
+  yearLots.forEach(lot => {
+    const totals = categories[lot.category];
+    if (lot.gain >= 0) totals.gains += lot.gain; else totals.losses += -lot.gain;
+    totals.net += lot.gain;
+    totals.saleValue += lot.saleValue;
+    totals.costOfAcquisition += lot.costOfAcquisition;
+    totals.transferExpenses += lot.transferExpenses;
+    totals.lots += 1;
+    if (lot.category === 'stcg') stcgByPeriod[lot.ratePeriod] += lot.gain;
+    if (lot.category === 'ltcg') ltcgByPeriod[lot.ratePeriod] += lot.gain;
+  });
+
+  const stcg = netWithinCategory(stcgByPeriod);
+  const ltcg = netWithinCategory(ltcgByPeriod);
+  absorbLoss(ltcg.taxable, stcg.unabsorbedLoss);
+
+  const ltcgExemptionLimit = getLtcgExemptionLimit(financialYear);
+  const ltcgExemptionUsed = ltcgExemptionLimit - absorbLoss(ltcg.taxable, ltcgExemptionLimit);
+  const taxableStcg = stcg.taxable;
+  const taxableLtcg = ltcg.taxable;
+
+  const rates = {
+    beforeRateChange: getCapitalGainsRates(`${financialYear.slice(0, 4)}-04-01`),
+    fromRateChange: getCapitalGainsRates(RATE_CHANGE_DATE)
+  };
+  const estimatedTax = (['beforeRateChange', 'fromRateChange'] as RatePeriod[]).reduce((sum, period) =>
+    sum + taxableStcg[period] * rates[period].stcg + taxableLtcg[period] * rates[period].ltcg, 0);
+
+  return {
+    financialYear,
+    categories,
+    stcgByPeriod,
+    ltcgByPeriod,
+    ltcgExemptionLimit,
+    ltcgExemptionUsed,
+    taxableStcg,
+    taxableLtcg,
+    estimatedTax,
+    lots: yearLots
+  };
+}
+
+/**
+ * Financial years with realized lots, newest first
+ */
+export function getFinancialYears(lots: RealizedLot[]): string[] {
+  return Array.from(new Set(lots.map(lot => lot.financialYear))).sort().reverse();
+}
+
+/**
+ * Rows laid out like Schedule 112A of ITR-2/3 (one row per long-term lot)
+ */
+export function buildSchedule112ARows(summary: CapitalGainsSummary): Record<string, string | number>[] {
+  return summary.lots
+    .filter(lot => lot.category === 'ltcg')
+    .map(lot => ({
+      'Share/Unit acquired': lot.isGrandfathered ? 'On or before 31st January 2018' : 'After 31st January 2018',
+      'ISIN Code': '',
+      'Name of the Share/Unit': lot.name,
+      'No. of Shares/Units': lot.qty,
+      'Sale-price per Share/Unit': lot.sellPrice,
+      'Full Value of Consideration': lot.saleValue,
+      'Cost of acquisition without indexation': lot.costOfAcquisition,
+      'Cost of acquisition': lot.actualCost,
+      'FMV per share/unit as on 31st January 2018': lot.fmvPerShare ?? '',
+      'Total Fair Market Value': lot.fmvPerShare !== undefined ? lot.fmvPerShare * lot.qty : '',
+      'Expenditure wholly and exclusively in connection with transfer': lot.transferExpenses,
+      'Total deductions': lot.costOfAcquisition + lot.transferExpenses,
+      'Balance': lot.gain
+    }));
+}
+
+/**
+ * Summary rows following the equity sections of Schedule CG plus the business income heads
+ */
+export function buildScheduleCGRows(summary: CapitalGainsSummary): Record<string, string | number>[] {
+  const periodRows = (category: 'stcg' | 'ltcg', byPeriod: Record<RatePeriod, number>, section: string) =>
+    (['beforeRateChange', 'fromRateChange'] as RatePeriod[]).map(period => ({
+      'Item': `${section} - transfers ${period === 'beforeRateChange' ? 'up to 22-Jul-2024' : 'from 23-Jul-2024'}`,
+      'Gain / Loss': byPeriod[period],
+      'Rate': `${(getCapitalGainsRates(period === 'beforeRateChange' ? '2024-07-22' : RATE_CHANGE_DATE)[category] * 100).toFixed(1)}%`
+    }));
+  const { categories } = summary;
+
+  return [
+    ...periodRows('stcg', summary.stcgByPeriod, 'A. STCG u/s 111A (STT paid)'),
+    ...periodRows('ltcg', summary.ltcgByPeriod, 'B. LTCG u/s 112A'),
+    { 'Item': 'Less: exemption u/s 112A', 'Gain / Loss': -summary.ltcgExemptionUsed, 'Rate': '' },
+    { 'Item': 'Taxable STCG u/s 111A', 'Gain / Loss': summary.taxableStcg.beforeRateChange + summary.taxableStcg.fromRateChange, 'Rate': '' },
+    { 'Item': 'Taxable LTCG u/s 112A', 'Gain / Loss': summary.taxableLtcg.beforeRateChange + summary.taxableLtcg.fromRateChange, 'Rate': '' },
+    { 'Item': 'Estimated tax on 111A / 112A (before surcharge and cess)', 'Gain / Loss': summary.estimatedTax, 'Rate': '' },
+    { 'Item': 'Speculative business income (intraday equity)', 'Gain / Loss': categories.speculative.net, 'Rate': 'Slab' },
+    { 'Item': 'Non-speculative business income (F&O)', 'Gain / Loss': categories.business.net, 'Rate': 'Slab' }
+  ];
+}
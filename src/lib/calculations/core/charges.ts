@@ -0,0 +1,273 @@
+/**
+ * Charges Engine
+ * Brokerage and statutory charges for Indian equity / F&O fills (NSE rates)
+ */
+
+import { Trade, TradeLeg } from '../../../types/trade';
+import { FeePlanPreset, FeePlanSettings } from '../../../types/account';
+import { getInstrumentType } from './instruments';
+import { getTradeLegs, getEntryLegs, getExitLegs } from './tradeLegs';
+
+export type ChargeSegment = 'delivery' | 'intraday' | 'futures' | 'options';
+
+export interface ChargeBreakdown {
+  brokerage: number;
+  stt: number;
+  exchangeCharges: number;
+  sebiFees: number;
+  stampDuty: number;
+  ipft: number;
+  dpCharges: number;
+  gst: number;
+  total: number;
+}
+
+export interface FillCharges extends ChargeBreakdown {
+  legId: string;
+  date: string;
+}
+
+// Brokerage per order: a flat fee, or a percentage of turnover optionally capped
+export interface BrokerageRule {
+  flat?: number;
+  percent?: number;
+  maxPerOrder?: number;
+}
+
+export interface BrokerFeePlan {
+  preset: FeePlanPreset;
+  name: string;
+  brokerage: Record<ChargeSegment, BrokerageRule>;
+  dpCharge: number;
+}
+
+/**
+ * Statutory rates as a fraction of turnover (options: of premium turnover)
+ */
+export const STATUTORY_RATES = {
+  stt: {
+    delivery: { buy: 0.001, sell: 0.001 },
+    intraday: { buy: 0, sell: 0.00025 },
+    futures: { buy: 0, sell: 0.0002 },
+    options: { buy: 0, sell: 0.001 }
+  },
+  exchange: { delivery: 0.0000297, intraday: 0.0000297, futures: 0.0000173, options: 0.0003503 },
+  stampDuty: { delivery: 0.00015, intraday: 0.00003, futures: 0.00002, options: 0.00003 },
+  ipft: { delivery: 0.000001, intraday: 0.000001, futures: 0.000001, options: 0.000005 },
+  sebi: 0.000001,
+  gst: 0.18
+} as const;
+
+export const FEE_PLAN_PRESETS: Record<FeePlanPreset, BrokerFeePlan> = {
+  zerodha: {
+    preset: 'zerodha',
+    name: 'Zerodha',
+    brokerage: {
+      delivery: { flat: 0 },
+      intraday: { percent: 0.03, maxPerOrder: 20 },
+      futures: { percent: 0.03, maxPerOrder: 20 },
+      options: { flat: 20 }
+    },
+    dpCharge: 13.5
+  },
+  dhan: {
+    preset: 'dhan',
+    name: 'Dhan',
+    brokerage: {
+      delivery: { flat: 0 },
+      intraday: { percent: 0.03, maxPerOrder: 20 },
+      futures: { percent: 0.03, maxPerOrder: 20 },
+      options: { flat: 20 }
+    },
+    dpCharge: 12.5
+  },
+  upstox: {
+    preset: 'upstox',
+    name: 'Upstox',
+    brokerage: {
+      delivery: { percent: 2.5, maxPerOrder: 20 },
+      intraday: { percent: 0.05, maxPerOrder: 20 },
+      futures: { percent: 0.05, maxPerOrder: 20 },
+      options: { flat: 20 }
+    },
+    dpCharge: 18.5
+  },
+  flat: {
+    preset: 'flat',
+    name: 'Flat fee per order',
+    brokerage: {
+      delivery: { flat: 20 },
+      intraday: { flat: 20 },
+      futures: { flat: 20 },
+      options: { flat: 20 }
+    },
+    dpCharge: 0
+  },
+  percentage: {
+    preset: 'percentage',
+    name: 'Percentage of turnover',
+    brokerage: {
+      delivery: { percent: 0.1 },
+      intraday: { percent: 0.1 },
+      futures: { percent: 0.1 },
+      options: { percent: 0.1 }
+    },
+    dpCharge: 0
+  }
+};
+
+export const DEFAULT_FEE_PLAN: FeePlanSettings = { preset: 'zerodha' };
+
+const EMPTY_CHARGES: ChargeBreakdown = {
+  brokerage: 0, stt: 0, exchangeCharges: 0, sebiFees: 0, stampDuty: 0, ipft: 0, dpCharges: 0, gst: 0, total: 0
+};
+
+/**
+ * Guess a preset from a free-text broker name (unknown brokers get the default plan)
+ */
+export function inferFeePlanPreset(broker?: string): FeePlanPreset {
+  const name = (broker || '').toLowerCase();
+  if (name.includes('dhan')) return 'dhan';
+  if (name.includes('upstox')) return 'upstox';
+  return DEFAULT_FEE_PLAN.preset;
+}
+
+/**
+ * Build the effective fee plan from stored settings
+ */
+export function resolveFeePlan(settings?: FeePlanSettings | null): BrokerFeePlan {
+  const preset = FEE_PLAN_PRESETS[settings?.preset as FeePlanPreset] || FEE_PLAN_PRESETS[DEFAULT_FEE_PLAN.preset];
+  const plan: BrokerFeePlan = { ...preset, brokerage: { ...preset.brokerage } };
+
+  if (preset.preset === 'flat' && settings?.flatFee !== undefined) {
+    const rule = { flat: Math.max(0, Number(settings.flatFee) || 0) };
+    plan.brokerage = { delivery: rule, intraday: rule, futures: rule, options: rule };
+  }
+  if (preset.preset === 'percentage' && (settings?.percentage !== undefined || settings?.maxPerOrder !== undefined)) {
+    const rule: BrokerageRule = {
+      percent: Math.max(0, Number(settings.percentage ?? preset.brokerage.delivery.percent) || 0),
+      maxPerOrder: Number(settings.maxPerOrder) > 0 ? Number(settings.maxPerOrder) : undefined
+    };
+    plan.brokerage = { delivery: rule, intraday: rule, futures: rule, options: rule };
+  }
+  if (settings?.dpCharge !== undefined && settings.dpCharge !== null) {
+    plan.dpCharge = Math.max(0, Number(settings.dpCharge) || 0);
+  }
+  return plan;
+}
+
+/**
+ * Charge segment of a trade. Cash equity is intraday only when it is opened and fully closed on
+ * the same day - a position still open is delivery even while all its fills are on one day.
+ * Equity shorts can't be carried overnight in the cash segment so they are always intraday.
+ */
+export function getChargeSegment(trade: Partial<Trade>): ChargeSegment {
+  const type = getInstrumentType(trade);
+  if (type === 'Future') return 'futures';
+  if (type === 'Option') return 'options';
+  if (trade.buySell === 'Sell') return 'intraday';
+
+  const entries = getEntryLegs(trade);
+  const exits = getExitLegs(trade);
+  const enteredQty = entries.reduce((sum, leg) => sum + leg.qty, 0);
+  const exitedQty = exits.reduce((sum, leg) => sum + leg.qty, 0);
+  const days = new Set([...entries, ...exits].map(leg => (leg.date || '').slice(0, 10)));
+  return enteredQty > 0 && exitedQty >= enteredQty && days.size === 1 ? 'intraday' : 'delivery';
+}
+
+export function calcBrokerage(rule: BrokerageRule, turnover: number): number {
+  if (turnover <= 0) return 0;
+  if (rule.flat !== undefined) return rule.flat;
+  const percentFee = turnover * (rule.percent || 0) / 100;
+  return rule.maxPerOrder !== undefined ? Math.min(percentFee, rule.maxPerOrder) : percentFee;
+}
+
+function finalize(charges: Omit<ChargeBreakdown, 'gst' | 'total'>): ChargeBreakdown {
+  const gst = (charges.brokerage + charges.exchangeCharges + charges.sebiFees + charges.ipft + charges.dpCharges)
+    * STATUTORY_RATES.gst;
+  const total = charges.brokerage + charges.stt + charges.exchangeCharges + charges.sebiFees
+    + charges.stampDuty + charges.ipft + charges.dpCharges + gst;
+  return { ...charges, gst, total };
+}
+
+/**
+ * Charges on a single fill. An explicit broker fee on the leg replaces the plan's brokerage.
+ */
+export function calcFillCharges(
+  leg: Pick<TradeLeg, 'action' | 'price' | 'qty' | 'fees'>,
+  segment: ChargeSegment,
+  plan: BrokerFeePlan,
+  includeDpCharge = false
+): ChargeBreakdown {
+  const turnover = (Number(leg.price) || 0) * (Number(leg.qty) || 0);
+  if (turnover <= 0) return { ...EMPTY_CHARGES };
+
+  const isBuy = leg.action === 'Buy';
+  const explicitFees = Number(leg.fees);
+  const brokerage = explicitFees > 0 ? explicitFees : calcBrokerage(plan.brokerage[segment], turnover);
+
+  return finalize({
+    brokerage,
+    stt: turnover * (isBuy ? STATUTORY_RATES.stt[segment].buy : STATUTORY_RATES.stt[segment].sell),
+    exchangeCharges: turnover * STATUTORY_RATES.exchange[segment],
+    sebiFees: turnover * STATUTORY_RATES.sebi,
+    stampDuty: isBuy ? turnover * STATUTORY_RATES.stampDuty[segment] : 0,
+    ipft: turnover * STATUTORY_RATES.ipft[segment],
+    dpCharges: includeDpCharge ? plan.dpCharge : 0
+  });
+}
+
+/**
+ * Charges for every fill of a trade. DP charges apply once per day the
+ * delivery position is sold down (depository debits are per scrip per day).
+ */
+export function calcTradeFillCharges(trade: Partial<Trade>, plan: BrokerFeePlan): FillCharges[] {
+  const segment = getChargeSegment(trade);
+  const dpDays = new Set<string>();
+
+  return getTradeLegs(trade).map(leg => {
+    const day = (leg.date || '').slice(0, 10);
+    const isDeliverySell = segment === 'delivery' && leg.action === 'Sell';
+    const includeDpCharge = isDeliverySell && !dpDays.has(day);
+    if (includeDpCharge) dpDays.add(day);
+
+    return { ...calcFillCharges(leg, segment, plan, includeDpCharge), legId: leg.id, date: leg.date };
+  });
+}
+
+export function sumCharges(items: ChargeBreakdown[]): ChargeBreakdown {
+  return items.reduce<ChargeBreakdown>((sum, item) => ({
+    brokerage: sum.brokerage + item.brokerage,
+    stt: sum.stt + item.stt,
+    exchangeCharges: sum.exchangeCharges + item.exchangeCharges,
+    sebiFees: sum.sebiFees + item.sebiFees,
+    stampDuty: sum.stampDuty + item.stampDuty,
+    ipft: sum.ipft + item.ipft,
+    dpCharges: sum.dpCharges + item.dpCharges,
+    gst: sum.gst + item.gst,
+    total: sum.total + item.total
+  }), { ...EMPTY_CHARGES });
+}
+
+/**
+ * Total charges paid on all fills of a trade so far
+ */
+export function calcTradeCharges(trade: Partial<Trade>, plan: BrokerFeePlan = resolveFeePlan()): ChargeBreakdown {
+  return sumCharges(calcTradeFillCharges(trade, plan));
+}
+
+/**
+ * Tooltip lines for a breakdown ("Label: ₹amount"), zero components omitted
+ */
+export function formatChargeBreakdown(charges: ChargeBreakdown): string[] {
+  return [
+    `Brokerage: ₹${charges.brokerage.toFixed(2)}`,
+    `STT: ₹${charges.stt.toFixed(2)}`,
+    `Exchange Transaction Charges: ₹${charges.exchangeCharges.toFixed(2)}`,
+    `SEBI Turnover Fees: ₹${charges.sebiFees.toFixed(2)}`,
+    `Stamp Duty: ₹${charges.stampDuty.toFixed(2)}`,
+    `IPFT: ₹${charges.ipft.toFixed(2)}`,
+    `DP Charges: ₹${charges.dpCharges.toFixed(2)}`,
+    `GST: ₹${charges.gst.toFixed(2)}`
+  ].filter(item => !item.endsWith('₹0.00')).concat(`Total: ₹${charges.total.toFixed(2)}`);
+}
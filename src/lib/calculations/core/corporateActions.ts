@@ -0,0 +1,216 @@
+/**
+ * Corporate Actions
+ * Split, bonus, dividend and demerger adjustments for equity trades held into an ex-date
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Trade, TradeLeg, CorporateAction, CorporateActionType, AppliedCorporateAction } from '../../../types/trade';
+import { isDerivativeTrade } from './instruments';
+import { getEntryLegs, getExitLegs, getTradeLegs, withSyncedLegs } from './tradeLegs';
+
+export const CORPORATE_ACTION_LABELS: Record<CorporateActionType, string> = {
+  split: 'Split',
+  bonus: 'Bonus',
+  dividend: 'Dividend',
+  demerger: 'Demerger'
+};
+
+export interface CorporateActionFactors {
+  /** Quantities before the ex-date are multiplied by this */
+  qtyFactor: number;
+  /** Prices before the ex-date are multiplied by this */
+  priceFactor: number;
+}
+
+export interface CorporateActionResult {
+  trade: Trade;
+  applied: AppliedCorporateAction;
+}
+
+// Quantities and prices are rounded here so repeated adjustments don't pile up float noise
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+const isBeforeExDate = (leg: Pick<TradeLeg, 'date'>, exDate: string) => String(leg.date).slice(0, 10) < exDate;
+
+/**
+ * How an action rescales the shares held. Splits and bonuses keep the cost and spread it over more
+ * shares; a demerger moves part of the cost to the new company; a dividend changes neither.
+ */
+export function getCorporateActionFactors(action: CorporateAction): CorporateActionFactors {
+  const from = Number(action.ratioFrom) || 0;
+  const to = Number(action.ratioTo) || 0;
+
+  switch (action.type) {
+    case 'split':
+      return from > 0 && to > 0 ? { qtyFactor: to / from, priceFactor: from / to } : { qtyFactor: 1, priceFactor: 1 };
+    case 'bonus':
+      return from > 0 && to > 0
+        ? { qtyFactor: (from + to) / from, priceFactor: from / (from + to) }
+        : { qtyFactor: 1, priceFactor: 1 };
+    case 'demerger': {
+      const retained = Number(action.costRetained);
+      return { qtyFactor: 1, priceFactor: retained >= 0 && retained <= 1 ? retained : 1 };
+    }
+    default:
+      return { qtyFactor: 1, priceFactor: 1 };
+  }
+}
+
+/**
+ * Shares the trade held at the close before the ex-date - what the action is entitled on
+ */
+export function getHeldQtyOnExDate(trade: Trade, exDate: string): number {
+  const bought = getEntryLegs(trade).filter(leg => isBeforeExDate(leg, exDate)).reduce((sum, leg) => sum + leg.qty, 0);
+  const sold = getExitLegs(trade).filter(leg => isBeforeExDate(leg, exDate)).reduce((sum, leg) => sum + leg.qty, 0);
+  return Math.max(0, bought - sold);
+}
+
+export function hasCorporateAction(trade: Trade, actionId: string): boolean {
+  return (trade.corporateActions || []).some(applied => applied.actionId === actionId);
+}
+
+/**
+ * Whether the action applies to the trade: an equity position in the symbol, held into the ex-date,
+ * not adjusted for it already. Dividends only count for longs - a short pays them.
+ */
+export function isAffectedByCorporateAction(trade: Trade, action: CorporateAction): boolean {
+  if (isDerivativeTrade(trade) || !trade.name) return false;
+  if (trade.name.trim().toUpperCase() !== action.symbol.trim().toUpperCase()) return false;
+  if (action.type === 'dividend' && trade.buySell === 'Sell') return false;
+  if (hasCorporateAction(trade, action.id)) return false;
+  return getHeldQtyOnExDate(trade, action.exDate) > 0;
+}
+
+// What each entry before the ex-date still held once earlier exits are matched first in, first out,
+// as realised P&L is
+function getHeldQtyByLeg(trade: Trade, legs: TradeLeg[], exDate: string): Map<TradeLeg, number> {
+  const entryAction = trade.buySell === 'Sell' ? 'Sell' : 'Buy';
+  let soldQty = legs
+    .filter(leg => leg.action !== entryAction && isBeforeExDate(leg, exDate))
+    .reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
+
+  const held = new Map<TradeLeg, number>();
+  legs.filter(leg => leg.action === entryAction && isBeforeExDate(leg, exDate)).forEach(leg => {
+    const qty = Number(leg.qty) || 0;
+    const sold = Math.min(qty, soldQty);
+    soldQty -= sold;
+    held.set(leg, round(qty - sold, 6));
+  });
+  return held;
+}
+
+/**
+ * Cost of the shares held into the ex-date
+ */
+export function getHeldCostOnExDate(trade: Trade, exDate: string): number {
+  let cost = 0;
+  getHeldQtyByLeg(trade, getTradeLegs(trade), exDate).forEach((qty, leg) => {
+    cost += qty * (Number(leg.price) || 0);
+  });
+  return cost;
+}
+
+// A demerger moves part of the held shares' cost to the new company. What earlier exits sold keeps
+// its cost, so an entry that was partly sold is split into two legs.
+function repriceHeldCost(trade: Trade, legs: TradeLeg[], exDate: string, priceFactor: number): TradeLeg[] {
+  const held = getHeldQtyByLeg(trade, legs, exDate);
+
+  return legs.flatMap(leg => {
+    const heldQty = held.get(leg);
+    if (!heldQty) return [leg];
+    const repriced = { ...leg, price: round(leg.price * priceFactor, 4) };
+    const soldQty = round((Number(leg.qty) || 0) - heldQty, 6);
+    return soldQty > 0 ? [{ ...leg, qty: soldQty }, { ...repriced, id: uuidv4(), qty: heldQty }] : [repriced];
+  });
+}
+
+/**
+ * Apply an action to a trade. For splits and bonuses, legs before the ex-date are restated in
+ * post-action shares - value, and so realised P&L, is unchanged. A demerger only reprices the cost
+ * of the shares still held, so exits before it keep their P&L. SL, TSL and CMP are rescaled with
+ * the price. Legs on or after the ex-date already trade at post-action prices. Returns null when
+ * the trade isn't affected.
+ */
+export function applyCorporateAction(trade: Trade, action: CorporateAction, appliedAt: string): CorporateActionResult | null {
+  if (!isAffectedByCorporateAction(trade, action)) return null;
+
+  const { qtyFactor, priceFactor } = getCorporateActionFactors(action);
+  const heldQty = getHeldQtyOnExDate(trade, action.exDate);
+  const legs = getTradeLegs(trade);
+
+  const applied: AppliedCorporateAction = {
+    actionId: action.id,
+    type: action.type,
+    exDate: action.exDate,
+    appliedAt,
+    heldQty,
+    qtyFactor,
+    priceFactor,
+    ...(action.type === 'dividend' ? { dividendAmount: round(heldQty * (Number(action.dividendPerShare) || 0), 2) } : {}),
+    original: { legs, sl: trade.sl, tsl: trade.tsl, cmp: trade.cmp }
+  };
+
+  const adjustedLegs = action.type === 'demerger'
+    ? repriceHeldCost(trade, legs, action.exDate, priceFactor)
+    : legs.map(leg => isBeforeExDate(leg, action.exDate)
+      ? { ...leg, qty: round(leg.qty * qtyFactor, 6), price: round(leg.price * priceFactor, 4) }
+      : leg);
+  const originalIds = new Set(legs.map(leg => leg.id));
+  const addedLegIds = adjustedLegs.filter(leg => !originalIds.has(leg.id)).map(leg => leg.id);
+  if (addedLegIds.length > 0) {
+    applied.addedLegIds = addedLegIds;
+  }
+  const adjustPrice = (price: number) => price ? round(price * priceFactor, 2) : price;
+
+  const adjusted: Trade = {
+    ...withSyncedLegs(trade, adjustedLegs),
+    sl: adjustPrice(trade.sl),
+    tsl: adjustPrice(trade.tsl),
+    cmp: adjustPrice(trade.cmp),
+    corporateActions: [...(trade.corporateActions || []), applied]
+  };
+  // Open quantity until the journal recalculates the rest from the legs
+  if (qtyFactor !== 1) {
+    adjusted.openQty = round(trade.openQty * qtyFactor, 6);
+  }
+
+  return { trade: adjusted, applied };
+}
+
+/**
+ * Undo an action, restoring the entries and exits before the ex-date it rescaled or repriced. Legs
+ * on or after the ex-date, and ones added since, are kept. SL, TSL and CMP go back to what they
+ * were unless they were moved since, in which case the move is scaled back. Only the latest action
+ * on a trade can be undone - later ones were computed on top of it. Returns null when it can't be.
+ */
+export function revertCorporateAction(trade: Trade, actionId: string): Trade | null {
+  const history = trade.corporateActions || [];
+  const latest = history[history.length - 1];
+  if (!latest || latest.actionId !== actionId) return null;
+
+  const { original, priceFactor, exDate } = latest;
+  const before = new Map(original.legs.filter(leg => isBeforeExDate(leg, exDate)).map(leg => [leg.id, leg]));
+  const added = new Set(latest.addedLegIds || []);
+  const legs = getTradeLegs(trade)
+    .filter(leg => !added.has(leg.id))
+    .map(leg => before.get(leg.id) ?? leg);
+
+  const restorePrice = (current: number, previous: number) => {
+    if (!current || current === (previous ? round(previous * priceFactor, 2) : previous)) return previous;
+    return priceFactor > 0 ? round(current / priceFactor, 2) : current;
+  };
+
+  const reverted: Trade = {
+    ...withSyncedLegs(trade, legs),
+    sl: restorePrice(trade.sl, original.sl),
+    tsl: restorePrice(trade.tsl, original.tsl),
+    cmp: restorePrice(trade.cmp, original.cmp),
+    corporateActions: history.slice(0, -1)
+  };
+  // Open quantity from the restored legs until the journal recalculates the rest
+  const bought = getEntryLegs(reverted).reduce((sum, leg) => sum + leg.qty, 0);
+  const sold = getExitLegs(reverted).reduce((sum, leg) => sum + leg.qty, 0);
+  reverted.openQty = round(Math.max(0, bought - sold), 6);
+
+  return reverted;
+}
@@ -0,0 +1,213 @@
+/**
+ * Instrument Utilities
+ * Equity / futures / options handling for position sizing, heat and segment splits
+ */
+
+import { Trade, TradeInstrument, InstrumentType } from '../../../types/trade';
+
+export const TRADE_SEGMENTS = ['Equity', 'Futures', 'Options'] as const;
+export type TradeSegment = typeof TRADE_SEGMENTS[number];
+
+const SEGMENT_BY_TYPE: Record<InstrumentType, TradeSegment> = {
+  Equity: 'Equity',
+  Future: 'Futures',
+  Option: 'Options'
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// NSE weekly contracts encode the month as 1-9, O, N, D
+const WEEKLY_MONTH_CODES: Record<string, number> = {
+  '1': 0, '2': 1, '3': 2, '4': 3, '5': 4, '6': 5, '7': 6, '8': 7, '9': 8, O: 9, N: 10, D: 11
+};
+
+/**
+ * Instrument type of a trade (trades without instrument details are cash equity)
+ */
+export function getInstrumentType(trade: Partial<Trade>): InstrumentType {
+  return trade.instrument?.type || 'Equity';
+}
+
+export function isDerivativeTrade(trade: Partial<Trade>): boolean {
+  return getInstrumentType(trade) !== 'Equity';
+}
+
+/**
+ * Segment bucket used by analytics filters
+ */
+export function getTradeSegment(trade: Partial<Trade>): TradeSegment {
+  return SEGMENT_BY_TYPE[getInstrumentType(trade)];
+}
+
+/**
+ * Filter trades to a segment ('All' keeps everything)
+ */
+export function filterTradesBySegment<T extends Partial<Trade>>(trades: T[], segment: TradeSegment | 'All'): T[] {
+  if (segment === 'All') return trades;
+  return trades.filter(trade => getTradeSegment(trade) === segment);
+}
+
+/**
+ * Group trades into their segments (every segment is present, possibly empty)
+ */
+export function splitTradesBySegment<T extends Partial<Trade>>(trades: T[]): Record<TradeSegment, T[]> {
+  const split = { Equity: [], Futures: [], Options: [] } as Record<TradeSegment, T[]>;
+  trades.forEach(trade => {
+    split[getTradeSegment(trade)].push(trade);
+  });
+  return split;
+}
+
+/**
+ * Capital tied up by a position - the margin for futures and short options when known,
+ * otherwise the traded value (premium paid for long options)
+ */
+export function calcCapitalAtWork(trade: Partial<Trade>, positionSize: number): number {
+  const type = getInstrumentType(trade);
+  const margin = Number(trade.instrument?.margin) || 0;
+  const isMarginPosition = type === 'Future' || (type === 'Option' && trade.buySell === 'Sell');
+  return isMarginPosition && margin > 0 ? margin : positionSize;
+}
+
+/**
+ * Largest possible loss for a position before any stop is considered.
+ * Long options can only lose the premium; everything else is open-ended (Infinity).
+ */
+export function calcMaxInstrumentLoss(trade: Partial<Trade>, entryPrice: number, qty: number): number {
+  if (getInstrumentType(trade) === 'Option' && trade.buySell !== 'Sell') {
+    return entryPrice * qty;
+  }
+  return Infinity;
+}
+
+/**
+ * Lot size of an F&O trade, when known. Quantities stay in units; lots are for display and sizing.
+ */
+export function getLotSize(trade: Partial<Trade>): number | undefined {
+  const lotSize = Number(trade.instrument?.lotSize) || 0;
+  return isDerivativeTrade(trade) && lotSize > 0 ? lotSize : undefined;
+}
+
+/**
+ * Units as lots, e.g. "2 lots" - '' for equity or when the lot size isn't known
+ */
+export function formatLots(trade: Partial<Trade>, qty: number): string {
+  const lotSize = getLotSize(trade);
+  if (!lotSize || !qty) return '';
+  const lots = Math.round((qty / lotSize) * 100) / 100;
+  return `${lots} ${lots === 1 ? 'lot' : 'lots'}`;
+}
+
+/**
+ * Whether a quantity is a whole number of lots - always true when the lot size isn't known
+ */
+export function isWholeLots(trade: Partial<Trade>, qty: number): boolean {
+  const lotSize = getLotSize(trade);
+  if (!lotSize) return true;
+  const lots = qty / lotSize;
+  return Math.abs(lots - Math.round(lots)) < 1e-9;
+}
+
+/**
+ * Monthly expiry for a contract month.
+ * NSE monthly contracts expire on the last Thursday, moving to the last Tuesday from September 2025.
+ */
+export function getMonthlyExpiry(year: number, month: number): string {
+  const expiryWeekday = (year > 2025 || (year === 2025 && month >= 8)) ? 2 : 4;
+  const date = new Date(Date.UTC(year, month + 1, 0));
+  while (date.getUTCDay() !== expiryWeekday) {
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function toIsoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+}
+
+function buildInstrument(
+  underlying: string,
+  expiry: string,
+  kind: string,
+  strike?: string
+): TradeInstrument {
+  const upperKind = kind.toUpperCase();
+  if (upperKind === 'FUT') {
+    return { type: 'Future', underlying, expiry };
+  }
+  return {
+    type: 'Option',
+    underlying,
+    expiry,
+    strike: Number(strike) || 0,
+    optionType: upperKind === 'PE' || upperKind === 'PUT' ? 'PE' : 'CE'
+  };
+}
+
+const MONTHLY_SYMBOL_PATTERN = new RegExp(`^([A-Z0-9&-]+?)(\\d{2})(${MONTHS.join('|')})(FUT|(\\d+(?:\\.\\d+)?)(CE|PE))$`);
+const WEEKLY_SYMBOL_PATTERN = /^([A-Z&-]+)(\d{2})([1-9OND])(\d{2})(\d+(?:\.\d+)?)(CE|PE)$/;
+const SPACED_SYMBOL_PATTERN = new RegExp(
+  `^([A-Z0-9&-]+)\\s+(?:(\\d{1,2})\\s+)?(${MONTHS.join('|')})(?:\\s+(\\d{4}))?(?:\\s+(\\d+(?:\\.\\d+)?))?\\s+(CALL|PUT|CE|PE|FUT)$`
+);
+
+/**
+ * Parse an NSE/BSE derivative trading symbol into instrument details.
+ * Supports broker tradingsymbols (NIFTY24JAN21500CE, NIFTY24JANFUT, NIFTY2411821500CE)
+ * and spaced names (NIFTY 25 JAN 21500 CALL, BANKNIFTY JAN FUT).
+ * `referenceDate` supplies the year when the symbol omits it. Returns null for non-derivatives.
+ */
+export function parseDerivativeSymbol(symbol: string, referenceDate?: string): TradeInstrument | null {
+  const clean = String(symbol || '').toUpperCase().trim().replace(/\s+/g, ' ');
+  if (!clean) return null;
+
+  const monthly = clean.match(MONTHLY_SYMBOL_PATTERN);
+  if (monthly) {
+    const [, underlying, yy, mon, kind, strike, optionType] = monthly;
+    const expiry = getMonthlyExpiry(2000 + Number(yy), MONTHS.indexOf(mon));
+    return buildInstrument(underlying, expiry, optionType || kind, strike);
+  }
+
+  const weekly = clean.match(WEEKLY_SYMBOL_PATTERN);
+  if (weekly) {
+    const [, underlying, yy, monthCode, dd, strike, optionType] = weekly;
+    const expiry = toIsoDate(2000 + Number(yy), WEEKLY_MONTH_CODES[monthCode], Number(dd));
+    return buildInstrument(underlying, expiry, optionType, strike);
+  }
+
+  const spaced = clean.match(SPACED_SYMBOL_PATTERN);
+  if (spaced) {
+    const [, underlying, dd, mon, yyyy, strike, kind] = spaced;
+    const reference = referenceDate ? new Date(referenceDate) : new Date();
+    const referenceYear = isNaN(reference.getTime()) ? new Date().getFullYear() : reference.getFullYear();
+    const month = MONTHS.indexOf(mon);
+    // Contracts never expire before they trade - a December trade in a JAN contract belongs to next year
+    const year = yyyy
+      ? Number(yyyy)
+      : (!isNaN(reference.getTime()) && month < reference.getMonth() ? referenceYear + 1 : referenceYear);
+    const expiry = dd ? toIsoDate(year, month, Number(dd)) : getMonthlyExpiry(year, month);
+    return buildInstrument(underlying, expiry, kind, strike);
+  }
+
+  return null;
+}
+
+/**
+ * Whether a broker segment/exchange column denotes the F&O segment
+ */
+export function isDerivativeSegment(...values: (string | undefined)[]): boolean {
+  return values.some(value => /^(NFO|BFO|FO|F&O|FNO|NSE_FNO|BSE_FNO|DERIVATIVES?)$/i.test(String(value || '').trim()));
+}
+
+/**
+ * Short display label, e.g. "NIFTY 21500 CE 25-Jan-2024" or "BANKNIFTY FUT 25-Jan-2024"
+ */
+export function formatInstrumentLabel(instrument?: TradeInstrument): string {
+  if (!instrument || instrument.type === 'Equity') return '';
+  const expiry = instrument.expiry
+    ? new Date(instrument.expiry).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }).replace(/ /g, '-')
+    : '';
+  const contract = instrument.type === 'Future'
+    ? 'FUT'
+    : `${instrument.strike || ''} ${instrument.optionType || ''}`.trim();
+  return [instrument.underlying, contract, expiry].filter(Boolean).join(' ');
+}
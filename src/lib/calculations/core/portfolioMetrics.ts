@@ -6,6 +6,8 @@
 import { Trade } from '../../../types/trade';
 import { calculateTradePL } from '../../../utils/accountingUtils';
 import { calcAllocationPercentage } from '../utils/mathUtils';
+import { getEffectiveStop, isShortPosition } from './tradeMetrics';
+import { calcCapitalAtWork, calcMaxInstrumentLoss, isDerivativeTrade } from './instruments';
 
 /**
  * Calculate open heat for a single trade
@@ -49,55 +51,30 @@ export function calcTradeOpenHeat(
   if (qty <= 0 || !isFinite(qty)) return 0;
   if ((sl > 0 && !isFinite(sl)) || (tsl > 0 && !isFinite(tsl))) return 0;
 
-  // Determine which stop to use based on the relationship between sl and tsl
-  let stop = 0;
-
-  if (tsl > 0 && sl > 0) {
-    // Both tsl and sl exist
-    if (tsl === sl) {
-      // If tsl = sl, use tsl for calculation
-      stop = tsl;
-    } else if (tsl > sl) {
-      // If tsl > sl, use tsl for calculation
-      stop = tsl;
-    } else if (tsl < sl) {
-      // If tsl < sl, use sl for calculation (sl > tsl case)
-      stop = sl;
-    }
-  } else if (sl > 0) {
-    // Only sl exists, use sl
-    stop = sl;
-  } else if (tsl > 0) {
-    // Only tsl exists, use tsl
-    stop = tsl;
-  } else {
-    // No stop loss set
-    return 0;
-  }
+  // Use the protective stop - the higher of SL/TSL for longs, the lower for shorts
+  const stop = getEffectiveStop(sl, tsl, trade.buySell);
+  const maxLoss = calcMaxInstrumentLoss(trade, entryPrice, qty);
 
-  if (stop <= 0) return 0;
+  if (stop <= 0) {
+    // No stop: long options still risk their premium, futures/short options the margin blocked
+    const unstoppedRisk = isFinite(maxLoss) ? maxLoss : (isDerivativeTrade(trade) ? Number(trade.instrument?.margin) || 0 : 0);
+    return (unstoppedRisk / effectivePortfolioSize) * 100;
+  }
 
-  const buySell = (trade.buySell || 'Buy').toLowerCase();
   let risk = 0;
-
-  // Normalize buy/sell values
-  const isBuyPosition = ['buy', 'long'].includes(buySell);
-  const isSellPosition = ['sell', 'short', 'short sell'].includes(buySell);
-
-  if (isBuyPosition) {
-    // For buy positions, stop should be below entry
-    if (stop >= entryPrice) return 0; // Invalid: SL above entry for buy
-    risk = (entryPrice - stop) * qty;
-  } else if (isSellPosition) {
-    // For sell positions, stop should be above entry
+  if (isShortPosition(trade.buySell)) {
+    // For short positions, stop should be above entry
     if (stop <= entryPrice) return 0; // Invalid: SL below entry for sell
     risk = (stop - entryPrice) * qty;
   } else {
-    // Unknown position type, default to buy behavior
-    if (stop >= entryPrice) return 0;
+    // For buy positions (and unknown sides), stop should be below entry
+    if (stop >= entryPrice) return 0; // Invalid: SL above entry for buy
     risk = (entryPrice - stop) * qty;
   }
 
+  // A long option can never lose more than the premium paid
+  risk = Math.min(risk, maxLoss);
+
   return effectivePortfolioSize > 0 ? (Math.max(0, risk) / effectivePortfolioSize) * 100 : 0;
 }
 
@@ -145,8 +122,9 @@ export function calcPortfolioAllocation(
     }
   }
 
-  const positionSize = trade.positionSize || 0;
-  return effectivePortfolioSize > 0 ? (positionSize / effectivePortfolioSize) * 100 : 0;
+  // Futures and short options tie up margin rather than their notional value
+  const capitalAtWork = calcCapitalAtWork(trade, trade.positionSize || 0);
+  return effectivePortfolioSize > 0 ? (capitalAtWork / effectivePortfolioSize) * 100 : 0;
 }
 
 /**
@@ -164,7 +142,7 @@ export function calcCashPercentage(
     
     if (trade.positionStatus === 'Partial') {
       // For partial positions, calculate remaining allocation based on open quantity using centralized function
-      const remainingInvestedAmount = (trade.openQty || 0) * (trade.avgEntry || 0);
+      const remainingInvestedAmount = calcCapitalAtWork(trade, (trade.openQty || 0) * (trade.avgEntry || 0));
       allocation = calcAllocationPercentage(remainingInvestedAmount, portfolioSize);
     } else if (trade.positionStatus === 'Open') {
       // For fully open positions, use full allocation
@@ -186,10 +164,10 @@ export function calcTotalInvestedAmount(trades: Trade[]): number {
     .reduce((sum, trade) => {
       if (trade.positionStatus === 'Partial') {
         // For partial positions, only count remaining open quantity
-        return sum + ((trade.openQty || 0) * (trade.avgEntry || 0));
+        return sum + calcCapitalAtWork(trade, (trade.openQty || 0) * (trade.avgEntry || 0));
       } else {
-        // For fully open positions, use position size
-        return sum + (trade.positionSize || 0);
+        // For fully open positions, use position size (margin for futures/short options)
+        return sum + calcCapitalAtWork(trade, trade.positionSize || 0);
       }
     }, 0);
 }
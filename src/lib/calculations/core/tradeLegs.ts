@@ -0,0 +1,275 @@
+/**
+ * Trade Leg Utilities
+ * Fill-level entry/exit handling shared by every calculation path
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Trade, TradeLeg } from '../../../types/trade';
+
+type LegAction = TradeLeg['action'];
+
+/**
+ * Legacy fixed-slot columns that mirror the first legs of a trade
+ */
+export const LEGACY_ENTRY_SLOTS = [
+  { price: 'entry', qty: 'initialQty', date: 'date', label: 'Initial Entry' },
+  { price: 'pyramid1Price', qty: 'pyramid1Qty', date: 'pyramid1Date', label: 'Pyramid 1' },
+  { price: 'pyramid2Price', qty: 'pyramid2Qty', date: 'pyramid2Date', label: 'Pyramid 2' }
+] as const;
+
+export const LEGACY_EXIT_SLOTS = [
+  { price: 'exit1Price', qty: 'exit1Qty', date: 'exit1Date', label: 'Exit 1' },
+  { price: 'exit2Price', qty: 'exit2Qty', date: 'exit2Date', label: 'Exit 2' },
+  { price: 'exit3Price', qty: 'exit3Qty', date: 'exit3Date', label: 'Exit 3' }
+] as const;
+
+export const LEGACY_LEG_FIELDS: string[] = [...LEGACY_ENTRY_SLOTS, ...LEGACY_EXIT_SLOTS]
+  .flatMap(slot => [slot.price, slot.qty, slot.date]);
+
+export interface LabeledLeg extends TradeLeg {
+  label: string;
+}
+
+/**
+ * Action used for opening fills (Buy for longs, Sell for shorts)
+ */
+export function getEntryAction(buySell?: 'Buy' | 'Sell'): LegAction {
+  return buySell === 'Sell' ? 'Sell' : 'Buy';
+}
+
+/**
+ * Action used for closing fills
+ */
+export function getExitAction(buySell?: 'Buy' | 'Sell'): LegAction {
+  return getEntryAction(buySell) === 'Buy' ? 'Sell' : 'Buy';
+}
+
+function isValidLeg(leg: Pick<TradeLeg, 'price' | 'qty'>): boolean {
+  return Number(leg.price) > 0 && Number(leg.qty) > 0;
+}
+
+function getLegTime(leg: TradeLeg): number {
+  const time = new Date(leg.date).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+/**
+ * Sort legs chronologically, keeping insertion order for same-day fills
+ */
+export function sortLegs(legs: TradeLeg[]): TradeLeg[] {
+  return legs
+    .map((leg, index) => ({ leg, index }))
+    .sort((a, b) => (getLegTime(a.leg) - getLegTime(b.leg)) || (a.index - b.index))
+    .map(({ leg }) => leg);
+}
+
+/**
+ * Build legs from the legacy pyramid/exit columns (lossless migration of old rows)
+ */
+export function buildLegsFromLegacyFields(trade: Partial<Trade>): TradeLeg[] {
+  const entryAction = getEntryAction(trade.buySell);
+  const exitAction = getExitAction(trade.buySell);
+
+  const toLeg = (slot: { price: string; qty: string; date: string }, action: LegAction): TradeLeg => ({
+    id: uuidv4(),
+    action,
+    date: String(trade[slot.date as keyof Trade] || trade.date || ''),
+    price: Number(trade[slot.price as keyof Trade] || 0),
+    qty: Number(trade[slot.qty as keyof Trade] || 0)
+  });
+
+  const entries = LEGACY_ENTRY_SLOTS.map(slot => toLeg(slot, entryAction)).filter(isValidLeg);
+  const exits = LEGACY_EXIT_SLOTS.map(slot => toLeg(slot, exitAction)).filter(isValidLeg);
+
+  return sortLegs([...entries, ...exits]);
+}
+
+/**
+ * Get all legs for a trade, migrating legacy columns when no legs are stored
+ */
+export function getTradeLegs(trade: Partial<Trade>): TradeLeg[] {
+  if (Array.isArray(trade.legs) && trade.legs.length > 0) {
+    return trade.legs;
+  }
+  return buildLegsFromLegacyFields(trade);
+}
+
+/**
+ * Get valid entry legs in fill order, labelled Initial Entry / Pyramid N
+ */
+export function getEntryLegs(trade: Partial<Trade>): LabeledLeg[] {
+  const entryAction = getEntryAction(trade.buySell);
+  return getTradeLegs(trade)
+    .filter(leg => leg.action === entryAction && isValidLeg(leg))
+    .map((leg, index) => ({
+      ...leg,
+      price: Number(leg.price),
+      qty: Number(leg.qty),
+      label: index === 0 ? 'Initial Entry' : `Pyramid ${index}`
+    }));
+}
+
+/**
+ * Get valid exit legs in fill order, labelled Exit N
+ */
+export function getExitLegs(trade: Partial<Trade>): LabeledLeg[] {
+  const exitAction = getExitAction(trade.buySell);
+  return getTradeLegs(trade)
+    .filter(leg => leg.action === exitAction && isValidLeg(leg))
+    .map((leg, index) => ({
+      ...leg,
+      price: Number(leg.price),
+      qty: Number(leg.qty),
+      label: `Exit ${index + 1}`
+    }));
+}
+
+/**
+ * Total fees recorded across all legs
+ */
+export function calcTotalLegFees(trade: Partial<Trade>): number {
+  return getTradeLegs(trade).reduce((sum, leg) => sum + (Number(leg.fees) || 0), 0);
+}
+
+/**
+ * Project legs onto the legacy fixed-slot columns.
+ * Slots only ever hold a single fill - legs beyond the slots stay in `legs`.
+ */
+export function legsToLegacyFields(legs: TradeLeg[], buySell?: 'Buy' | 'Sell'): Partial<Trade> {
+  const entryAction = getEntryAction(buySell);
+  const exitAction = getExitAction(buySell);
+  const sorted = sortLegs(legs);
+  const entries = sorted.filter(leg => leg.action === entryAction);
+  const exits = sorted.filter(leg => leg.action === exitAction);
+  const fields: Record<string, any> = {};
+
+  const fillSlots = (slots: typeof LEGACY_ENTRY_SLOTS | typeof LEGACY_EXIT_SLOTS, slotLegs: TradeLeg[]) => {
+    slots.forEach((slot, index) => {
+      const leg = slotLegs[index];
+      fields[slot.price] = leg ? leg.price : 0;
+      fields[slot.qty] = leg ? leg.qty : 0;
+      // The initial entry date is the trade date itself - never clear it
+      if (slot.date !== 'date' || leg) {
+        fields[slot.date] = leg ? leg.date : '';
+      }
+    });
+  };
+
+  fillSlots(LEGACY_ENTRY_SLOTS, entries);
+  fillSlots(LEGACY_EXIT_SLOTS, exits);
+
+  return fields as Partial<Trade>;
+}
+
+/**
+ * Fold edits made through the legacy slot columns back into the legs.
+ * Slot N updates the Nth entry/exit leg; legs beyond the slots are preserved.
+ */
+export function mergeLegacyFieldsIntoLegs(trade: Partial<Trade>): TradeLeg[] {
+  if (!Array.isArray(trade.legs) || trade.legs.length === 0) {
+    return buildLegsFromLegacyFields(trade);
+  }
+
+  const entryAction = getEntryAction(trade.buySell);
+  const exitAction = getExitAction(trade.buySell);
+  let sorted = sortLegs(trade.legs);
+  // A trade always opens with an entry - if the first fill disagrees, the Buy/Sell side was flipped
+  if (sorted[0].action !== entryAction) {
+    sorted = sorted.map(leg => ({ ...leg, action: leg.action === 'Buy' ? 'Sell' : 'Buy' }));
+  }
+  const existingEntries = sorted.filter(leg => leg.action === entryAction);
+  const existingExits = sorted.filter(leg => leg.action === exitAction);
+
+  const mergeSlots = (
+    slots: typeof LEGACY_ENTRY_SLOTS | typeof LEGACY_EXIT_SLOTS,
+    existing: TradeLeg[],
+    action: LegAction
+  ): TradeLeg[] => {
+    const slotLegs = slots.map((slot, index) => {
+      const previous = existing[index];
+      const leg: TradeLeg = {
+        ...(previous || {}),
+        id: previous?.id || uuidv4(),
+        action,
+        date: String(trade[slot.date as keyof Trade] || previous?.date || trade.date || ''),
+        price: Number(trade[slot.price as keyof Trade] || 0),
+        qty: Number(trade[slot.qty as keyof Trade] || 0)
+      };
+      return leg;
+    }).filter(isValidLeg);
+
+    return [...slotLegs, ...existing.slice(slots.length)];
+  };
+
+  return sortLegs([
+    ...mergeSlots(LEGACY_ENTRY_SLOTS, existingEntries, entryAction),
+    ...mergeSlots(LEGACY_EXIT_SLOTS, existingExits, exitAction)
+  ]);
+}
+
+/**
+ * Return a copy of the trade whose legs and legacy columns agree.
+ * Pass `legs` to make them authoritative, otherwise legacy columns are folded in.
+ */
+export function withSyncedLegs<T extends Partial<Trade>>(trade: T, legs?: TradeLeg[]): T {
+  const syncedLegs = sortLegs(legs ?? mergeLegacyFieldsIntoLegs(trade));
+  return {
+    ...trade,
+    ...legsToLegacyFields(syncedLegs, trade.buySell),
+    legs: syncedLegs
+  };
+}
+
+/**
+ * Create a new leg with a fresh id
+ */
+export function createTradeLeg(
+  action: LegAction,
+  date: string,
+  price: number,
+  qty: number,
+  fees?: number
+): TradeLeg {
+  return {
+    id: uuidv4(),
+    action,
+    date,
+    price,
+    qty,
+    ...(fees ? { fees } : {})
+  };
+}
+
+/**
+ * Serialize legs into a single cell, e.g. "Buy 100 @ 250.5 on 2024-01-05; Sell 50 @ 270 on 2024-02-01"
+ */
+export function formatLegsForExport(legs: TradeLeg[]): string {
+  return sortLegs(legs)
+    .map(leg => {
+      const base = `${leg.action} ${leg.qty} @ ${leg.price}${leg.date ? ` on ${leg.date}` : ''}`;
+      return leg.fees ? `${base} fees ${leg.fees}` : base;
+    })
+    .join('; ');
+}
+
+const LEG_CELL_PATTERN = /^(buy|sell)\s+([\d.,]+)\s*@\s*([\d.,]+)(?:\s+on\s+(\S+))?(?:\s+fees\s+([\d.,]+))?$/i;
+
+/**
+ * Parse a cell written by formatLegsForExport back into legs (unparseable parts are skipped)
+ */
+export function parseLegsFromCell(value: string, fallbackDate: string = ''): TradeLeg[] {
+  const toNumber = (raw?: string) => Number(String(raw || '').replace(/,/g, '')) || 0;
+
+  return String(value || '')
+    .split(';')
+    .map(part => part.trim().match(LEG_CELL_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => createTradeLeg(
+      match[1].toLowerCase() === 'sell' ? 'Sell' : 'Buy',
+      match[4] || fallbackDate,
+      toNumber(match[3]),
+      toNumber(match[2]),
+      toNumber(match[5])
+    ))
+    .filter(isValidLeg);
+}
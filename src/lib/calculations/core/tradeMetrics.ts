@@ -5,6 +5,7 @@
 
 import { Trade } from '../../../types/trade';
 import { calcAllocationPercentage, calcPercentageChange, calcStockMovePercentage } from '../utils/mathUtils';
+import { getEntryLegs } from './tradeLegs';
 
 /**
  * Calculate average entry price from multiple entry lots
@@ -31,11 +32,31 @@ export function calcAllocation(positionSize: number, portfolioSize: number): num
 }
 
 /**
- * Calculate stop loss percentage
+ * Whether a trade side is short (Sell / Short / Short Sell)
  */
-export function calcSLPercent(sl: number, entry: number): number {
+export function isShortPosition(buySell?: string): boolean {
+  return ['sell', 'short', 'short sell'].includes(String(buySell || '').toLowerCase().trim());
+}
+
+/**
+ * Pick the protective stop: the higher of SL/TSL for longs, the lower for shorts
+ */
+export function getEffectiveStop(sl: number, tsl: number, buySell?: string): number {
+  if (sl > 0 && tsl > 0) {
+    return isShortPosition(buySell) ? Math.min(sl, tsl) : Math.max(sl, tsl);
+  }
+  return sl > 0 ? sl : (tsl > 0 ? tsl : 0);
+}
+
+/**
+ * Calculate stop loss percentage.
+ * Distance to a stop on the losing side - below entry for longs, above entry for shorts.
+ * A stop already on the profit side carries no risk and returns 0.
+ */
+export function calcSLPercent(sl: number, entry: number, buySell: string = 'Buy'): number {
   if (!entry || !sl) return 0;
-  return Math.abs(calcPercentageChange(entry, sl));
+  const change = calcPercentageChange(entry, sl);
+  return Math.max(0, isShortPosition(buySell) ? change : -change);
 }
 
 /**
@@ -294,12 +315,8 @@ export function calcWeightedRewardRisk(trade: any): number {
   const exitedQty = Number(trade.exitedQty);
   const openQty = Number(trade.openQty);
 
-  // Gather all entry lots
-  const entries = [
-    { label: 'Initial Entry', price: Number(trade.entry), qty: Number(trade.initialQty) },
-    { label: 'Pyramid 1', price: Number(trade.pyramid1Price), qty: Number(trade.pyramid1Qty) },
-    { label: 'Pyramid 2', price: Number(trade.pyramid2Price), qty: Number(trade.pyramid2Qty) }
-  ].filter(e => e.price > 0 && e.qty > 0);
+  // Gather all entry lots (every entry leg, not just the legacy pyramid slots)
+  const entries = getEntryLegs(trade);
 
   const totalQtyAll = entries.reduce((sum, e) => sum + (e.qty || 0), 0);
 
@@ -9,6 +9,8 @@ export {
   calcPositionSize,
   calcAllocation,
   calcSLPercent,
+  isShortPosition,
+  getEffectiveStop,
   calcOpenQty,
   calcExitedQty,
   calcAvgExitPrice,
@@ -25,6 +27,98 @@ export {
   isRiskyPosition
 } from './core/tradeMetrics';
 
+// Trade Legs
+export {
+  LEGACY_ENTRY_SLOTS,
+  LEGACY_EXIT_SLOTS,
+  LEGACY_LEG_FIELDS,
+  getEntryAction,
+  getExitAction,
+  sortLegs,
+  buildLegsFromLegacyFields,
+  getTradeLegs,
+  getEntryLegs,
+  getExitLegs,
+  calcTotalLegFees,
+  legsToLegacyFields,
+  mergeLegacyFieldsIntoLegs,
+  withSyncedLegs,
+  createTradeLeg,
+  formatLegsForExport,
+  parseLegsFromCell
+} from './core/tradeLegs';
+export type { LabeledLeg } from './core/tradeLegs';
+
+// Instruments (equity / futures / options)
+export {
+  TRADE_SEGMENTS,
+  getInstrumentType,
+  isDerivativeTrade,
+  getTradeSegment,
+  filterTradesBySegment,
+  splitTradesBySegment,
+  calcCapitalAtWork,
+  calcMaxInstrumentLoss,
+  getLotSize,
+  formatLots,
+  isWholeLots,
+  getMonthlyExpiry,
+  parseDerivativeSymbol,
+  isDerivativeSegment,
+  formatInstrumentLabel
+} from './core/instruments';
+export type { TradeSegment } from './core/instruments';
+
+// Charges (brokerage + statutory levies)
+export {
+  STATUTORY_RATES,
+  FEE_PLAN_PRESETS,
+  DEFAULT_FEE_PLAN,
+  inferFeePlanPreset,
+  resolveFeePlan,
+  getChargeSegment,
+  calcBrokerage,
+  calcFillCharges,
+  calcTradeFillCharges,
+  calcTradeCharges,
+  sumCharges,
+  formatChargeBreakdown
+} from './core/charges';
+export type { ChargeSegment, ChargeBreakdown, FillCharges, BrokerageRule, BrokerFeePlan } from './core/charges';
+
+// Capital gains (STCG / LTCG, Section 112A grandfathering)
+export {
+  GAIN_CATEGORY_LABELS,
+  RATE_CHANGE_DATE,
+  GRANDFATHERING_DATE,
+  getFinancialYear,
+  getCapitalGainsRates,
+  getLtcgExemptionLimit,
+  isLongTermHolding,
+  classifyGain,
+  calcGrandfatheredCost,
+  matchRealizedLots,
+  matchRealizedLotsForTrades,
+  summarizeCapitalGains,
+  getFinancialYears,
+  buildSchedule112ARows,
+  buildScheduleCGRows
+} from './core/capitalGains';
+export type { GainCategory, RatePeriod, RealizedLot, CategoryTotals, CapitalGainsSummary } from './core/capitalGains';
+
+// Corporate actions (splits, bonuses, dividends, demergers)
+export {
+  CORPORATE_ACTION_LABELS,
+  getCorporateActionFactors,
+  getHeldQtyOnExDate,
+  getHeldCostOnExDate,
+  hasCorporateAction,
+  isAffectedByCorporateAction,
+  applyCorporateAction,
+  revertCorporateAction
+} from './core/corporateActions';
+export type { CorporateActionFactors, CorporateActionResult } from './core/corporateActions';
+
 // Portfolio Metrics
 export {
   calcTradeOpenHeat,
@@ -115,6 +209,23 @@ export {
   getUniqueSortedDates
 } from './utils/dateUtils';
 
+// Exchange Calendar
+export {
+  REGULAR_SESSION,
+  toCalendarDate,
+  getBundledCalendarEntries,
+  setCalendarOverrides,
+  getCalendarOverrides,
+  getCalendarEntry,
+  getMarketSession,
+  isTradingDay,
+  isExchangeHoliday,
+  getTradingDayOnOrAfter,
+  getPreviousTradingDay,
+  listTradingDays
+} from './utils/exchangeCalendar';
+export type { Exchange, CalendarEntryType, CalendarEntry, MarketSession } from './utils/exchangeCalendar';
+
 // Formatters
 export {
   formatCurrency,
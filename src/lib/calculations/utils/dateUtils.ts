@@ -5,6 +5,7 @@
 
 import { Trade } from '../../../types/trade';
 import { getTradeDateForAccounting } from '../../../utils/accountingUtils';
+import { listTradingDays, toCalendarDate } from './exchangeCalendar';
 
 /**
  * Get unique sorted dates from trades based on accounting method
@@ -268,12 +269,13 @@ export function daysToYears(days: number): number {
 }
 
 /**
- * Get trading days between two dates (approximate)
+ * Get trading days between two dates - sessions after the earlier date up to and including the later one,
+ * skipping weekends and exchange holidays and counting special sessions
  */
 export function getTradingDaysBetween(startDate: Date, endDate: Date): number {
-  const totalDays = calculateDaysBetween(startDate, endDate);
-  // Approximate: 5/7 of days are trading days (excluding weekends)
-  return Math.round(totalDays * (5/7));
+  const [from, to] = startDate <= endDate ? [startDate, endDate] : [endDate, startDate];
+  const days = listTradingDays(from, to);
+  return days[0] === toCalendarDate(from) ? days.length - 1 : days.length;
 }
 
 /**
@@ -0,0 +1,234 @@
+/**
+ * Exchange Calendar
+ * NSE/BSE equity trading days and session hours. Weekends are closed; the bundled list adds
+ * exchange holidays, weekend or holiday sessions (Muhurat, budget day, DR drills) and half days.
+ * Overrides saved by the user are layered on top, for holidays announced after this list was
+ * updated - an override replaces a bundled entry for the same date and exchange.
+ *
+ * Dates are exchange-local (IST) YYYY-MM-DD; Date arguments are read by their local date.
+ */
+
+export type Exchange = 'NSE' | 'BSE';
+
+/**
+ * holiday: closed. special_session: open outside the usual days or hours. half_day: closes early.
+ * regular: a normal session, to cancel a bundled holiday that didn't happen.
+ */
+export type CalendarEntryType = 'holiday' | 'special_session' | 'half_day' | 'regular';
+
+export interface CalendarEntry {
+  date: string;
+  type: CalendarEntryType;
+  name: string;
+  /** Both exchanges when omitted */
+  exchanges?: Exchange[];
+  /** HH:mm, for special sessions and half days */
+  open?: string;
+  close?: string;
+}
+
+export interface MarketSession {
+  date: string;
+  /** HH:mm IST */
+  open: string;
+  close: string;
+  type: Exclude<CalendarEntryType, 'holiday'>;
+  name?: string;
+}
+
+export const REGULAR_SESSION = { open: '09:15', close: '15:30' };
+
+// Source: NSE equity segment holiday circulars. Add new years here; one-offs go in the overrides.
+const BUNDLED_ENTRIES: CalendarEntry[] = [
+  // 2023
+  { date: '2023-01-26', type: 'holiday', name: 'Republic Day' },
+  { date: '2023-03-07', type: 'holiday', name: 'Holi' },
+  { date: '2023-03-30', type: 'holiday', name: 'Shri Ram Navami' },
+  { date: '2023-04-04', type: 'holiday', name: 'Mahavir Jayanti' },
+  { date: '2023-04-07', type: 'holiday', name: 'Good Friday' },
+  { date: '2023-04-14', type: 'holiday', name: 'Dr. Baba Saheb Ambedkar Jayanti' },
+  { date: '2023-05-01', type: 'holiday', name: 'Maharashtra Day' },
+  { date: '2023-06-29', type: 'holiday', name: 'Bakri Id' },
+  { date: '2023-08-15', type: 'holiday', name: 'Independence Day' },
+  { date: '2023-09-19', type: 'holiday', name: 'Ganesh Chaturthi' },
+  { date: '2023-10-02', type: 'holiday', name: 'Mahatma Gandhi Jayanti' },
+  { date: '2023-10-24', type: 'holiday', name: 'Dussehra' },
+  { date: '2023-11-12', type: 'special_session', name: 'Diwali Muhurat Trading', open: '18:15', close: '19:15' },
+  { date: '2023-11-14', type: 'holiday', name: 'Diwali Balipratipada' },
+  { date: '2023-11-27', type: 'holiday', name: 'Gurunanak Jayanti' },
+  { date: '2023-12-25', type: 'holiday', name: 'Christmas' },
+  // 2024
+  { date: '2024-01-20', type: 'special_session', name: 'Special live session (DR site switch)', open: '09:15', close: '15:30' },
+  { date: '2024-01-22', type: 'holiday', name: 'Special holiday - Shri Ram Lalla Pran Pratishtha' },
+  { date: '2024-01-26', type: 'holiday', name: 'Republic Day' },
+  { date: '2024-03-02', type: 'special_session', name: 'Special live session (DR site switch)', open: '09:15', close: '12:30' },
+  { date: '2024-03-08', type: 'holiday', name: 'Mahashivratri' },
+  { date: '2024-03-25', type: 'holiday', name: 'Holi' },
+  { date: '2024-03-29', type: 'holiday', name: 'Good Friday' },
+  { date: '2024-04-11', type: 'holiday', name: 'Id-Ul-Fitr (Ramadan)' },
+  { date: '2024-04-17', type: 'holiday', name: 'Shri Ram Navami' },
+  { date: '2024-05-01', type: 'holiday', name: 'Maharashtra Day' },
+  { date: '2024-05-20', type: 'holiday', name: 'General Parliamentary Elections (Mumbai)' },
+  { date: '2024-06-17', type: 'holiday', name: 'Bakri Id' },
+  { date: '2024-07-17', type: 'holiday', name: 'Moharram' },
+  { date: '2024-08-15', type: 'holiday', name: 'Independence Day' },
+  { date: '2024-10-02', type: 'holiday', name: 'Mahatma Gandhi Jayanti' },
+  { date: '2024-11-01', type: 'special_session', name: 'Diwali Muhurat Trading', open: '18:00', close: '19:00' },
+  { date: '2024-11-15', type: 'holiday', name: 'Gurunanak Jayanti' },
+  { date: '2024-11-20', type: 'holiday', name: 'Maharashtra Assembly Elections' },
+  { date: '2024-12-25', type: 'holiday', name: 'Christmas' },
+  // 2025
+  { date: '2025-02-01', type: 'special_session', name: 'Union Budget live session', open: '09:15', close: '15:30' },
+  { date: '2025-02-26', type: 'holiday', name: 'Mahashivratri' },
+  { date: '2025-03-14', type: 'holiday', name: 'Holi' },
+  { date: '2025-03-31', type: 'holiday', name: 'Id-Ul-Fitr (Ramadan)' },
+  { date: '2025-04-10', type: 'holiday', name: 'Shri Mahavir Jayanti' },
+  { date: '2025-04-14', type: 'holiday', name: 'Dr. Baba Saheb Ambedkar Jayanti' },
+  { date: '2025-04-18', type: 'holiday', name: 'Good Friday' },
+  { date: '2025-05-01', type: 'holiday', name: 'Maharashtra Day' },
+  { date: '2025-08-15', type: 'holiday', name: 'Independence Day' },
+  { date: '2025-08-27', type: 'holiday', name: 'Ganesh Chaturthi' },
+  { date: '2025-10-02', type: 'holiday', name: 'Mahatma Gandhi Jayanti / Dussehra' },
+  { date: '2025-10-21', type: 'special_session', name: 'Diwali Muhurat Trading', open: '13:45', close: '14:45' },
+  { date: '2025-10-22', type: 'holiday', name: 'Diwali Balipratipada' },
+  { date: '2025-11-05', type: 'holiday', name: 'Prakash Gurpurb Sri Guru Nanak Dev' },
+  { date: '2025-12-25', type: 'holiday', name: 'Christmas' },
+  // 2026
+  { date: '2026-01-15', type: 'holiday', name: 'Municipal Corporation Elections (Mumbai)' },
+  { date: '2026-01-26', type: 'holiday', name: 'Republic Day' },
+  { date: '2026-03-03', type: 'holiday', name: 'Holi' },
+  { date: '2026-03-26', type: 'holiday', name: 'Shri Ram Navami' },
+  { date: '2026-03-31', type: 'holiday', name: 'Shri Mahavir Jayanti' },
+  { date: '2026-04-03', type: 'holiday', name: 'Good Friday' },
+  { date: '2026-04-14', type: 'holiday', name: 'Dr. Baba Saheb Ambedkar Jayanti' },
+  { date: '2026-05-01', type: 'holiday', name: 'Maharashtra Day' },
+  { date: '2026-05-28', type: 'holiday', name: 'Bakri Id' },
+  { date: '2026-06-26', type: 'holiday', name: 'Muharram' },
+  { date: '2026-09-14', type: 'holiday', name: 'Ganesh Chaturthi' },
+  { date: '2026-10-02', type: 'holiday', name: 'Mahatma Gandhi Jayanti' },
+  { date: '2026-10-20', type: 'holiday', name: 'Dussehra' },
+  { date: '2026-11-10', type: 'holiday', name: 'Diwali Balipratipada' },
+  { date: '2026-11-24', type: 'holiday', name: 'Prakash Gurpurb Sri Guru Nanak Dev' },
+  { date: '2026-12-25', type: 'holiday', name: 'Christmas' }
+];
+
+let overrides: CalendarEntry[] = [];
+let entryIndex: Map<string, CalendarEntry> | null = null;
+
+const entryKey = (date: string, exchange: Exchange) => `${exchange}|${date}`;
+
+const appliesTo = (entry: CalendarEntry, exchange: Exchange) => !entry.exchanges?.length || entry.exchanges.includes(exchange);
+
+function getEntryIndex(): Map<string, CalendarEntry> {
+  if (!entryIndex) {
+    entryIndex = new Map();
+    for (const entry of [...BUNDLED_ENTRIES, ...overrides]) {
+      (['NSE', 'BSE'] as Exchange[])
+        .filter(exchange => appliesTo(entry, exchange))
+        .forEach(exchange => entryIndex!.set(entryKey(entry.date, exchange), entry));
+    }
+  }
+  return entryIndex;
+}
+
+/**
+ * YYYY-MM-DD of a Date by its local date, or the date part of a date string
+ */
+export function toCalendarDate(date: Date | string): string {
+  if (typeof date === 'string') {
+    if (/^\d{4}-\d{2}-\d{2}/.test(date)) return date.slice(0, 10);
+    date = new Date(date);
+  }
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+const shiftCalendarDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const isWeekendDate = (date: string) => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+};
+
+export function getBundledCalendarEntries(): readonly CalendarEntry[] {
+  return BUNDLED_ENTRIES;
+}
+
+/**
+ * Replace the user's overrides (loaded from misc data at startup and after edits)
+ */
+export function setCalendarOverrides(entries: CalendarEntry[]): void {
+  overrides = entries.filter(entry => /^\d{4}-\d{2}-\d{2}$/.test(entry.date));
+  entryIndex = null;
+}
+
+export function getCalendarOverrides(): readonly CalendarEntry[] {
+  return overrides;
+}
+
+/**
+ * The bundled entry or override for a date, if there is one
+ */
+export function getCalendarEntry(date: Date | string, exchange: Exchange = 'NSE'): CalendarEntry | undefined {
+  return getEntryIndex().get(entryKey(toCalendarDate(date), exchange));
+}
+
+/**
+ * The session the exchange holds on a date, or null when it is closed
+ */
+export function getMarketSession(date: Date | string, exchange: Exchange = 'NSE'): MarketSession | null {
+  const day = toCalendarDate(date);
+  const entry = getCalendarEntry(day, exchange);
+
+  if (entry?.type === 'holiday') return null;
+  if (entry && entry.type !== 'regular') {
+    return {
+      date: day,
+      open: entry.open || REGULAR_SESSION.open,
+      close: entry.close || REGULAR_SESSION.close,
+      type: entry.type,
+      name: entry.name
+    };
+  }
+  if (!entry && isWeekendDate(day)) return null;
+  return { date: day, ...REGULAR_SESSION, type: 'regular' };
+}
+
+export function isTradingDay(date: Date | string, exchange: Exchange = 'NSE'): boolean {
+  return getMarketSession(date, exchange) !== null;
+}
+
+export function isExchangeHoliday(date: Date | string, exchange: Exchange = 'NSE'): boolean {
+  return getCalendarEntry(date, exchange)?.type === 'holiday';
+}
+
+/**
+ * The nearest trading day on or after the date (on or before with `direction` -1)
+ */
+export function getTradingDayOnOrAfter(date: Date | string, direction: 1 | -1 = 1, exchange: Exchange = 'NSE'): string {
+  let day = toCalendarDate(date);
+  // A year of closures in a row means the calendar is wrong - stop rather than spin
+  for (let i = 0; i < 366 && !isTradingDay(day, exchange); i++) {
+    day = shiftCalendarDate(day, direction);
+  }
+  return day;
+}
+
+/**
+ * The last trading day strictly before the date
+ */
+export function getPreviousTradingDay(date: Date | string, exchange: Exchange = 'NSE'): string {
+  return getTradingDayOnOrAfter(shiftCalendarDate(toCalendarDate(date), -1), -1, exchange);
+}
+
+/**
+ * Trading days from start to end, both included
+ */
+export function listTradingDays(startDate: Date | string, endDate: Date | string, exchange: Exchange = 'NSE'): string[] {
+  const days: string[] = [];
+  const last = toCalendarDate(endDate);
+  for (let day = toCalendarDate(startDate); day <= last; day = shiftCalendarDate(day, 1)) {
+    if (isTradingDay(day, exchange)) days.push(day);
+  }
+  return days;
+}
@@ -75,6 +75,9 @@ export interface Database {
           user_edited_fields: string[]
           cmp_auto_fetched: boolean
           needs_recalculation: boolean
+          legs: any
+          instrument: any
+          account_id: string | null
           created_at: string
           updated_at: string
         }
@@ -132,6 +135,9 @@ export interface Database {
           user_edited_fields?: string[]
           cmp_auto_fetched?: boolean
           needs_recalculation?: boolean
+          legs?: any
+          instrument?: any
+          account_id?: string | null
         }
         Update: {
           id?: string
@@ -187,6 +193,9 @@ export interface Database {
           user_edited_fields?: string[]
           cmp_auto_fetched?: boolean
           needs_recalculation?: boolean
+          legs?: any
+          instrument?: any
+          account_id?: string | null
         }
       }
       user_preferences: {
@@ -233,6 +242,7 @@ export interface Database {
           amount: number
           date: string | null
           description: string
+          account_id: string | null
           created_at: string
           updated_at: string
         }
@@ -245,6 +255,7 @@ export interface Database {
           amount: number
           date?: string | null
           description?: string
+          account_id?: string | null
         }
         Update: {
           id?: string
@@ -255,6 +266,7 @@ export interface Database {
           amount?: number
           date?: string | null
           description?: string
+          account_id?: string | null
         }
       }
       chart_image_blobs: {
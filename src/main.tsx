@@ -3,8 +3,11 @@ import ReactDOM from 'react-dom/client'
 import { HeroUIProvider, ToastProvider } from "@heroui/react"
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx';
+import { StorageService } from './services/storageBackend';
 import './index.css';
 
+StorageService.configure();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <BrowserRouter>
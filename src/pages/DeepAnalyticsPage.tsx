@@ -1,5 +1,5 @@
 import React, { useMemo } from 'react';
-import { Card, CardBody, CardHeader, Divider, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow, Tooltip } from "@heroui/react";
+import { Button, Card, CardBody, CardHeader, Divider, Dropdown, DropdownItem, DropdownMenu, DropdownTrigger, Table, TableBody, TableCell, TableColumn, TableHeader, TableRow, Tooltip } from "@heroui/react";
 import { useTrades } from '../hooks/use-trades';
 import { useTruePortfolioWithTrades } from '../hooks/use-true-portfolio-with-trades';
 import { Icon } from '@iconify/react';
@@ -25,8 +25,12 @@ import {
   calculateCalmarRatio,
   calculateSortinoRatio,
   annualizeMetric,
-  calcUnrealizedPL
+  calcUnrealizedPL,
+  filterTradesBySegment,
+  splitTradesBySegment,
+  TRADE_SEGMENTS
 } from '../lib/calculations';
+import type { TradeSegment } from '../lib/calculations';
 
 // Assuming Trade type is available from useTrades or a common types file
 // import { Trade } from '../types/trade';
@@ -52,12 +56,33 @@ const DeepAnalyticsPage: React.FC = () => { // Renamed component
     // CRITICAL FIX: Use fresh trade data without caching to prevent interference
     const { trades: originalTrades, isLoading } = useTrades();
 
+    const [segment, setSegment] = React.useState<TradeSegment | 'All'>('All');
+
     // Create a fresh copy of trades to prevent any mutations from affecting the original data
-    const trades = React.useMemo(() => {
+    const allTrades = React.useMemo(() => {
         return originalTrades.map(trade => ({ ...trade }));
     }, [originalTrades]);
 
-    const { portfolioSize, capitalChanges } = useTruePortfolioWithTrades(trades);
+    // Every metric below is computed for the selected segment only
+    const trades = React.useMemo(() => filterTradesBySegment(allTrades, segment), [allTrades, segment]);
+
+    // Realised P/L split across equity, futures and options (independent of the segment filter)
+    const segmentSplit = React.useMemo(() => {
+        const split = splitTradesBySegment(allTrades);
+        return TRADE_SEGMENTS.map(name => {
+            const closed = split[name].filter(t => t.positionStatus !== 'Open');
+            const wins = closed.filter(t => (t.plRs || 0) > 0).length;
+            return {
+                segment: name,
+                trades: split[name].length,
+                realisedPL: closed.reduce((sum, t) => sum + (t.plRs || 0), 0),
+                winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0
+            };
+        });
+    }, [allTrades]);
+
+    // Portfolio capital comes from the whole journal, not just the selected segment
+    const { portfolioSize, capitalChanges } = useTruePortfolioWithTrades(allTrades);
     const { filter } = useGlobalFilter();
     const { accountingMethod } = useAccountingMethod();
     const useCashBasis = accountingMethod === 'cash';
@@ -944,11 +969,32 @@ const DeepAnalyticsPage: React.FC = () => { // Renamed component
         >
             <motion.div variants={{ hidden: { opacity: 0, y: 20 }, visible: { opacity: 1, y: 0 } }}>
                 <Card>
-                    <CardHeader>
+                    <CardHeader className="flex justify-between items-center">
                         <h2 className="text-xl font-bold text-default-700 flex items-center gap-2">
                             <Icon icon="lucide:gauge-circle" className="text-primary" />
                             Key Performance Metrics
                         </h2>
+                        <Dropdown>
+                            <DropdownTrigger>
+                                <Button variant="flat" size="sm" endContent={<Icon icon="lucide:chevron-down" />}>
+                                    {segment === 'All' ? 'All Segments' : segment}
+                                </Button>
+                            </DropdownTrigger>
+                            <DropdownMenu
+                                aria-label="Segment selection"
+                                selectionMode="single"
+                                selectedKeys={new Set([segment])}
+                                onSelectionChange={(keys) => {
+                                    const selected = Array.from(keys)[0] as TradeSegment | 'All' | undefined;
+                                    if (selected) setSegment(selected);
+                                }}
+                                disallowEmptySelection
+                            >
+                                {['All', ...TRADE_SEGMENTS].map(option => (
+                                    <DropdownItem key={option} textValue={option}>{option === 'All' ? 'All Segments' : option}</DropdownItem>
+                                ))}
+                            </DropdownMenu>
+                        </Dropdown>
                     </CardHeader>
                     <Divider />
                     <CardBody>
@@ -1031,6 +1077,38 @@ Values: (${(analytics.annualizedAverageReturn * 100).toFixed(1)}% - ${(analytics
                 </Card>
             </motion.div>
 
+            <motion.div variants={{ hidden: { opacity: 0, y: 20 }, visible: { opacity: 1, y: 0 } }}>
+                <Card>
+                    <CardHeader>
+                        <h2 className="text-xl font-bold text-default-700 flex items-center gap-2">
+                            <Icon icon="lucide:layers" className="text-primary" />
+                            Segment Split
+                        </h2>
+                    </CardHeader>
+                    <Divider />
+                    <CardBody>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            {segmentSplit.map(row => (
+                                <div
+                                    key={row.segment}
+                                    onClick={() => setSegment(segment === row.segment ? 'All' : row.segment)}
+                                    className={`p-3 rounded-lg border cursor-pointer transition-colors ${segment === row.segment ? 'border-primary bg-primary/5' : 'border-divider hover:bg-default-100'}`}
+                                >
+                                    <div className="flex justify-between items-center">
+                                        <span className="font-semibold text-foreground">{row.segment}</span>
+                                        <span className="text-xs text-default-500">{row.trades} trade{row.trades !== 1 ? 's' : ''}</span>
+                                    </div>
+                                    <div className={`text-lg font-bold mt-1 ${row.realisedPL >= 0 ? 'text-success' : 'text-danger'}`}>
+                                        {formatCurrency(row.realisedPL)}
+                                    </div>
+                                    <div className="text-xs text-default-500">Win rate {row.winRate.toFixed(1)}%</div>
+                                </div>
+                            ))}
+                        </div>
+                    </CardBody>
+                </Card>
+            </motion.div>
+
             <Accordion selectionMode="multiple" defaultExpandedKeys={["1"]} variant="bordered">
                 <AccordionItem key="1" aria-label="Industry & Sector Analysis" title={
                     <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
@@ -9,7 +9,7 @@ import { useAccountingMethod } from "../context/AccountingMethodContext";
 import { useGlobalFilter } from "../context/GlobalFilterContext";
 import { getTradesForMonth, calculateTradePL, getTradeDateForAccounting } from "../utils/accountingUtils";
 import MobileTooltip from "../components/ui/MobileTooltip";
-import { SupabaseService } from "../services/supabaseService";
+import { StorageService } from "../services/storageBackend";
 import { supabase } from "../lib/supabase";
 import { AuthService } from "../services/authService";
 
@@ -203,7 +203,7 @@ const MonthlyPerformanceTableComponent: React.FC = () => {
   React.useEffect(() => {
     const loadColumnPreferences = async () => {
       try {
-        const preferences = await SupabaseService.getMiscData('monthlyPerformance_visibleColumns');
+        const preferences = await StorageService.backend.misc.get('monthlyPerformance_visibleColumns');
 
         if (preferences && Array.isArray(preferences) && preferences.length > 0) {
           // User has saved preferences, use them
@@ -211,7 +211,7 @@ const MonthlyPerformanceTableComponent: React.FC = () => {
         } else {
           // No saved preferences, use new defaults and save them
           setVisibleColumns(DEFAULT_VISIBLE_COLUMNS);
-          await SupabaseService.saveMiscData('monthlyPerformance_visibleColumns', DEFAULT_VISIBLE_COLUMNS);
+          await StorageService.backend.misc.save('monthlyPerformance_visibleColumns', DEFAULT_VISIBLE_COLUMNS);
         }
       } catch (error) {
         // Fallback to defaults on error
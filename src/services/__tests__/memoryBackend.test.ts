@@ -0,0 +1,126 @@
+/**
+ * Memory Backend Tests
+ * What is written should read back the way the Supabase backend returns it
+ */
+
+import type { Trade } from '../../types/trade';
+import { createMemoryBackend } from '../memoryBackend';
+
+const trade = (id: string, tradeNo: string, changes: Partial<Trade> = {}) =>
+  ({ id, tradeNo, name: 'TCS', date: '2025-03-03', entry: 3500, initialQty: 10, buySell: 'Buy', ...changes }) as Trade;
+
+describe('Memory Backend Trades', () => {
+  test('saved trades should read back by id and in trade number order', async () => {
+    const backend = createMemoryBackend();
+
+    await backend.trades.save(trade('b', '2'));
+    await backend.trades.save(trade('a', '1', { name: 'SBIN' }));
+
+    expect(await backend.trades.get('a')).toMatchObject({ id: 'a', name: 'SBIN', entry: 3500 });
+    expect((await backend.trades.getAll()).map(t => t.id)).toEqual(['a', 'b']);
+    expect((await backend.trades.getAll({ maxResults: 1 })).map(t => t.id)).toEqual(['b']);
+  });
+
+  test('a saved trade should be a copy, not the object the caller keeps editing', async () => {
+    const backend = createMemoryBackend();
+    const original = trade('a', '1');
+
+    await backend.trades.save(original);
+    original.entry = 1;
+
+    expect((await backend.trades.get('a'))?.entry).toBe(3500);
+  });
+
+  test('a bulk import should renumber, skip or update a clashing trade number as asked', async () => {
+    const seed = { trades: [trade('a', '1')] };
+
+    const renumbered = createMemoryBackend(seed);
+    await renumbered.trades.bulkImport([trade('b', '1')]);
+    expect((await renumbered.trades.get('b'))?.tradeNo).toBe('2');
+
+    const skipped = createMemoryBackend(seed);
+    await skipped.trades.bulkImport([trade('b', '1')], { conflictResolution: 'skip' });
+    expect(await skipped.trades.get('b')).toBeNull();
+
+    const updated = createMemoryBackend(seed);
+    await updated.trades.bulkImport([trade('b', '1', { entry: 3600 })], { conflictResolution: 'update' });
+    expect(await updated.trades.getAll()).toEqual([expect.objectContaining({ id: 'a', entry: 3600 })]);
+  });
+
+  test('deleting a trade should take its chart images with it', async () => {
+    const backend = createMemoryBackend({
+      trades: [trade('a', '1'), trade('b', '2')],
+      chartBlobs: [{ id: 'chart-a', trade_id: 'a', data: new Uint8Array([1]) }, { id: 'chart-b', trade_id: 'b', data: new Uint8Array([2]) }]
+    });
+
+    await backend.trades.delete('a');
+
+    expect(await backend.trades.get('a')).toBeNull();
+    expect((await backend.chartBlobs.getAll()).map(blob => blob.id)).toEqual(['chart-b']);
+  });
+});
+
+describe('Memory Backend Misc Data', () => {
+  test('values should read back by key until deleted', async () => {
+    const backend = createMemoryBackend();
+    const filters = { status: ['Open'], sortBy: 'date' };
+
+    await backend.misc.save('tradeFilters', filters);
+    await backend.taxData.save({ 2025: { stt: 120 } });
+
+    expect(await backend.misc.get('tradeFilters')).toEqual(filters);
+    expect(await backend.taxData.get()).toEqual({ 2025: { stt: 120 } });
+
+    await backend.misc.delete('tradeFilters');
+    expect(await backend.misc.get('tradeFilters')).toBeNull();
+  });
+
+  test('clearing all trades should clear misc data too', async () => {
+    const backend = createMemoryBackend({ trades: [trade('a', '1')], misc: { tradeFilters: {} } });
+
+    await backend.trades.clearAll();
+
+    expect(await backend.trades.getAll()).toEqual([]);
+    expect(await backend.misc.get('tradeFilters')).toBeNull();
+  });
+});
+
+describe('Memory Backend Capital Changes', () => {
+  test('changes should read back as portfolio rows in date order', async () => {
+    const backend = createMemoryBackend();
+
+    await backend.capital.addCapitalChange({ id: 'w', date: '2025-06-01', amount: -20000, type: 'withdrawal', accountId: 'acc-2' });
+    await backend.capital.addCapitalChange({ id: 'd', date: '2025-01-15', amount: '50000', description: 'Bonus', accountId: 'default' });
+
+    expect(await backend.capital.getCapitalChanges()).toEqual([
+      expect.objectContaining({ id: 'd', type: 'capital_change', date: '2025-01-15', amount: 50000, description: 'Bonus', account_id: null }),
+      expect.objectContaining({ id: 'w', type: 'capital_change', date: '2025-06-01', amount: -20000, description: 'withdrawal', account_id: 'acc-2' })
+    ]);
+  });
+
+  test('updating and deleting should change only that row', async () => {
+    const backend = createMemoryBackend();
+    await backend.capital.addCapitalChange({ id: 'd', date: '2025-01-15', amount: 50000 });
+    await backend.capital.addCapitalChange({ id: 'w', date: '2025-06-01', amount: -20000 });
+
+    await backend.capital.updateCapitalChange({ id: 'd', date: '2025-01-20', amount: 55000 });
+    await backend.capital.deleteCapitalChange('w');
+
+    expect(await backend.capital.getCapitalChanges()).toEqual([
+      expect.objectContaining({ id: 'd', date: '2025-01-20', amount: 55000 })
+    ]);
+  });
+
+  test('saving the full list should replace the changes and leave other capital rows alone', async () => {
+    const backend = createMemoryBackend();
+    await backend.capital.saveYearlyStartingCapital({ id: 'y', year: 2025, startingCapital: 1000000 });
+    await backend.capital.addCapitalChange({ id: 'old', date: '2025-01-15', amount: 50000 });
+
+    await backend.capital.saveCapitalChanges([{ id: 'new', date: '2025-02-01', amount: 10000 }]);
+
+    expect((await backend.capital.getCapitalChanges()).map(row => row.id)).toEqual(['new']);
+    expect(await backend.capital.getYearlyStartingCapitals()).toEqual([
+      expect.objectContaining({ id: 'y', year: 2025, amount: 1000000 })
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Change Feed Tests
+ * Another tab is a second BroadcastChannel on the feed's channel name
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import type { Trade } from '../../types/trade';
+import { RealtimeService, DataChange } from '../realtimeService';
+import { applyTradeChange } from '../../hooks/use-realtime-updates';
+import { TRADES_QUERY_KEY } from '../../hooks/use-trades';
+
+const CHANNEL_NAME = 'nexus-data-changes';
+
+// BroadcastChannel delivers asynchronously
+const nextMessage = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const trade = (id: string, name: string) => ({ id, name, tradeNo: '1' }) as Trade;
+
+describe('Change Feed', () => {
+  let received: DataChange[];
+  let unsubscribe: () => void;
+  let otherTab: BroadcastChannel;
+  let otherTabReceived: any[];
+
+  beforeEach(() => {
+    received = [];
+    unsubscribe = RealtimeService.onChange(change => received.push(change));
+    otherTabReceived = [];
+    otherTab = new BroadcastChannel(CHANNEL_NAME);
+    otherTab.onmessage = event => otherTabReceived.push(event.data);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    otherTab.close();
+  });
+
+  test('a write in this tab should reach its listeners once, as local, and the other tabs', async () => {
+    RealtimeService.publish({ entity: 'trade', op: 'upsert', key: 'a', value: trade('a', 'TCS') });
+    await nextMessage();
+
+    // The tab's own broadcast is not echoed back to it as a 'tab' change
+    expect(received).toEqual([{ entity: 'trade', op: 'upsert', key: 'a', value: trade('a', 'TCS'), source: 'local' }]);
+    expect(otherTabReceived).toEqual([{ entity: 'trade', op: 'upsert', key: 'a', value: trade('a', 'TCS') }]);
+  });
+
+  test('memory-only writes should stay in this tab', async () => {
+    RealtimeService.publish({ entity: 'misc', op: 'delete', key: 'tradeFilters' }, false);
+    await nextMessage();
+
+    expect(received.map(change => change.source)).toEqual(['local']);
+    expect(otherTabReceived).toEqual([]);
+  });
+
+  test('changes from another tab and from Supabase should be tagged with where they came from', async () => {
+    otherTab.postMessage({ entity: 'portfolio', op: 'delete', key: 'row-1' });
+    await nextMessage();
+    RealtimeService.receiveRemote({ entity: 'trade', op: 'reload', key: '*' });
+
+    expect(received).toEqual([
+      { entity: 'portfolio', op: 'delete', key: 'row-1', source: 'tab' },
+      { entity: 'trade', op: 'reload', key: '*', source: 'remote' }
+    ]);
+  });
+
+  test('a failing listener should not stop the others, and unsubscribed ones should hear nothing', () => {
+    const failing = RealtimeService.onChange(() => { throw new Error('Listener bug'); });
+    const later: DataChange[] = [];
+    const stopLater = RealtimeService.onChange(change => later.push(change));
+    stopLater();
+
+    RealtimeService.receiveRemote({ entity: 'misc', op: 'upsert', key: 'taxData', value: {} });
+    failing();
+
+    expect(received).toHaveLength(1);
+    expect(later).toEqual([]);
+  });
+});
+
+describe('Trades Query Updates', () => {
+  const setup = () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData<Trade[]>(TRADES_QUERY_KEY, [trade('a', 'TCS'), trade('b', 'SBIN')]);
+    const names = () => queryClient.getQueryData<Trade[]>(TRADES_QUERY_KEY)!.map(t => t.name);
+    return { queryClient, names };
+  };
+
+  test('a trade changed in another tab or device should be patched in place, or added', () => {
+    const { queryClient, names } = setup();
+
+    applyTradeChange(queryClient, { entity: 'trade', op: 'upsert', key: 'a', value: trade('a', 'INFY'), source: 'tab' });
+    applyTradeChange(queryClient, { entity: 'trade', op: 'upsert', key: 'c', value: trade('c', 'ITC'), source: 'remote' });
+
+    expect(names()).toEqual(['INFY', 'SBIN', 'ITC']);
+  });
+
+  test('a deleted trade should be dropped', () => {
+    const { queryClient, names } = setup();
+
+    applyTradeChange(queryClient, { entity: 'trade', op: 'delete', key: 'b', source: 'remote' });
+
+    expect(names()).toEqual(['TCS']);
+  });
+
+  test('this tab\'s own echoed writes and other entities should be left alone', () => {
+    const { queryClient, names } = setup();
+
+    applyTradeChange(queryClient, { entity: 'trade', op: 'delete', key: 'a', source: 'local' });
+    applyTradeChange(queryClient, { entity: 'portfolio', op: 'delete', key: 'a', source: 'remote' });
+
+    expect(names()).toEqual(['TCS', 'SBIN']);
+  });
+
+  test('a bulk write elsewhere should refetch the trades', () => {
+    const { queryClient } = setup();
+
+    applyTradeChange(queryClient, { entity: 'trade', op: 'reload', key: '*', source: 'tab' });
+
+    expect(queryClient.getQueryState(TRADES_QUERY_KEY)?.isInvalidated).toBe(true);
+  });
+});
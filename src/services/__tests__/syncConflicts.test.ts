@@ -0,0 +1,192 @@
+/**
+ * Sync Conflict Tests
+ * One trade edited on this device and another. Supabase is a table of rows behind the client's
+ * query calls, and the IndexedDB copy a map - this device learns of the other's saves through
+ * the realtime handler, as it would in the app.
+ */
+
+import type { Trade } from '../../types/trade';
+import { supabase } from '../../lib/supabase';
+import { SupabaseService } from '../supabaseService';
+import { LocalStore, SyncConflict, SyncOperation } from '../localStore';
+import { SyncService, SyncReplayResult } from '../syncService';
+import { mergeRecordFields } from '../../utils/syncConflicts';
+
+const USER_ID = 'user-1';
+const TRADE_ID = '11111111-1111-4111-8111-111111111111';
+
+// Replay and conflict handling are what SyncService calls through the registered remote
+const service = SupabaseService as unknown as {
+  replayOperation(userId: string, operation: SyncOperation): Promise<SyncReplayResult>;
+  applyConflictResolution(userId: string, conflict: SyncConflict, merged: any): Promise<void>;
+  applyRealtimeChange(userId: string, table: 'trades', payload: any): Promise<void>;
+};
+
+const row = (updatedAt: string, changes: Record<string, any> = {}) => ({
+  id: TRADE_ID,
+  user_id: USER_ID,
+  trade_no: '1',
+  date: '2025-03-03',
+  name: 'TCS',
+  buy_sell: 'Buy',
+  entry: 3500,
+  sl: 3400,
+  initial_qty: 10,
+  notes: '',
+  updated_at: updatedAt,
+  ...changes
+});
+
+let remoteRows: Map<string, any>;
+let localTrades: Map<string, Trade>;
+let saved: Trade[];
+let deleted: string[];
+let queued: any[];
+
+beforeEach(() => {
+  remoteRows = new Map();
+  localTrades = new Map();
+  saved = [];
+  deleted = [];
+  queued = [];
+
+  // Only the version lookup reads Supabase: from('trades').select('*').eq('user_id', ...).in('id', ids)
+  vi.spyOn(supabase, 'from').mockImplementation(() => ({
+    select: () => ({
+      eq: () => ({
+        in: async (_column: string, ids: string[]) => ({
+          data: ids.map(id => remoteRows.get(id)).filter(Boolean),
+          error: null
+        })
+      })
+    })
+  }) as any);
+  vi.spyOn(SupabaseService as any, 'saveTradeRemote').mockImplementation(async (trade: Trade) => {
+    saved.push(trade);
+    return true;
+  });
+  vi.spyOn(SupabaseService as any, 'deleteTradeRemote').mockImplementation(async (id: string) => {
+    deleted.push(id);
+    return true;
+  });
+
+  vi.spyOn(LocalStore, 'getPendingKeys').mockResolvedValue(new Set());
+  vi.spyOn(LocalStore, 'getTrade').mockImplementation(async (_owner, id) => localTrades.get(id) || null);
+  vi.spyOn(LocalStore, 'putTrades').mockImplementation(async (_owner, trades) => {
+    trades.forEach(trade => localTrades.set(trade.id, trade));
+  });
+  vi.spyOn(SyncService, 'enqueue').mockImplementation(async (_owner, operation) => {
+    queued.push(operation);
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// This device reads the trade as Supabase had it, then edits it
+async function readOnThisDevice(remote: any): Promise<Trade> {
+  remoteRows.set(remote.id, remote);
+  await service.applyRealtimeChange(USER_ID, 'trades', { eventType: 'INSERT', new: remote, old: {} });
+  return localTrades.get(remote.id)!;
+}
+
+const replayEdit = (trade: Trade, baseVersion: string) =>
+  service.replayOperation(USER_ID, {
+    entity: 'trade',
+    key: trade.id,
+    op: 'upsert',
+    payload: { ...trade, _updatedAt: '2025-03-04T10:05:00.000Z' },
+    baseVersion,
+    revision: 0,
+    attempts: 0,
+    queuedAt: '2025-03-04T10:05:00.000Z'
+  });
+
+describe('Sync Conflicts', () => {
+  test('an edit made after the other device\'s save reached this one should go through', async () => {
+    await readOnThisDevice(row('2025-03-04T09:00:00.000Z'));
+    // The other device moves the stop; realtime brings it here before this device edits the notes
+    const current = await readOnThisDevice(row('2025-03-04T10:00:00.000Z', { sl: 3450 }));
+
+    const result = await replayEdit({ ...current, notes: 'Added on results' }, current._updatedAt!);
+
+    expect(result.conflicts).toBeUndefined();
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ sl: 3450, notes: 'Added on results' });
+  });
+
+  test('the same edit made on both devices should not be a conflict', async () => {
+    const original = await readOnThisDevice(row('2025-03-04T09:00:00.000Z'));
+    remoteRows.set(TRADE_ID, row('2025-03-04T10:00:00.000Z', { sl: 3450 }));
+
+    const result = await replayEdit({ ...original, sl: 3450 }, original._updatedAt!);
+
+    expect(result.conflicts).toBeUndefined();
+    expect(saved).toHaveLength(1);
+  });
+
+  test('different edits to the same field should come back as a conflict on that field, unsaved', async () => {
+    const original = await readOnThisDevice(row('2025-03-04T09:00:00.000Z'));
+    remoteRows.set(TRADE_ID, row('2025-03-04T10:00:00.000Z', { sl: 3450 }));
+
+    const { conflicts } = await replayEdit({ ...original, sl: 3420 }, original._updatedAt!);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts![0]).toMatchObject({
+      id: `trade:${TRADE_ID}`,
+      label: 'Trade #1 TCS',
+      fields: ['sl'],
+      remoteVersion: '2025-03-04T10:00:00.000Z'
+    });
+    expect(conflicts![0].local.sl).toBe(3420);
+    expect(conflicts![0].remote.sl).toBe(3450);
+    expect(saved).toEqual([]);
+  });
+
+  test('a resolved conflict should be kept locally and queued against the other device\'s version', async () => {
+    const original = await readOnThisDevice(row('2025-03-04T09:00:00.000Z'));
+    remoteRows.set(TRADE_ID, row('2025-03-04T10:00:00.000Z', { sl: 3450, notes: 'Raised stop' }));
+    const { conflicts } = await replayEdit({ ...original, sl: 3420, notes: 'Trailed stop' }, original._updatedAt!);
+    const conflict = conflicts![0];
+
+    // Keep this device's stop and the other device's notes
+    await service.applyConflictResolution(USER_ID, conflict, mergeRecordFields(conflict.local, conflict.remote, { sl: 'local', notes: 'remote' }));
+
+    expect(localTrades.get(TRADE_ID)).toMatchObject({ sl: 3420, notes: 'Raised stop' });
+    expect(queued).toEqual([expect.objectContaining({ entity: 'trade', key: TRADE_ID, op: 'upsert', baseVersion: '2025-03-04T10:00:00.000Z' })]);
+
+    // Replayed against the version it was merged with, the merge goes through
+    const merged = queued[0];
+    const result = await service.replayOperation(USER_ID, { ...merged, revision: 0, attempts: 0, queuedAt: merged.payload._updatedAt });
+    expect(result.conflicts).toBeUndefined();
+    expect(saved[0]).toMatchObject({ sl: 3420, notes: 'Raised stop' });
+  });
+
+  test('an edit to a trade deleted on the other device should restore it rather than be lost', async () => {
+    const original = await readOnThisDevice(row('2025-03-04T09:00:00.000Z'));
+    remoteRows.delete(TRADE_ID);
+
+    const result = await replayEdit({ ...original, sl: 3420 }, original._updatedAt!);
+
+    expect(result.conflicts).toBeUndefined();
+    expect(saved).toEqual([expect.objectContaining({ id: TRADE_ID, sl: 3420 })]);
+  });
+
+  test('a delete should remove the trade even if the other device edited it since', async () => {
+    await readOnThisDevice(row('2025-03-04T09:00:00.000Z'));
+    remoteRows.set(TRADE_ID, row('2025-03-04T10:00:00.000Z', { sl: 3450 }));
+
+    const result = await service.replayOperation(USER_ID, {
+      entity: 'trade',
+      key: TRADE_ID,
+      op: 'delete',
+      revision: 0,
+      attempts: 0,
+      queuedAt: '2025-03-04T10:05:00.000Z'
+    });
+
+    expect(result.conflicts).toBeUndefined();
+    expect(deleted).toEqual([TRADE_ID]);
+  });
+});
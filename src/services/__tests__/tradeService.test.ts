@@ -0,0 +1,60 @@
+/**
+ * Trade Service Tests
+ * Imports run against the memory backend
+ */
+
+import type { Trade } from '../../types/trade';
+import { createMemoryBackend } from '../memoryBackend';
+import { StorageService } from '../storageBackend';
+import { bulkImportTrades, getImportBatches, rollbackImportBatch, clearOptionFromTrades } from '../tradeService';
+
+const trade = (id: string, tradeNo: string) =>
+  ({ id, tradeNo, name: 'TCS', date: '2025-03-03', entry: 3500, initialQty: 10, buySell: 'Buy' }) as Trade;
+
+const journaled = trade('11111111-1111-4111-8111-111111111111', '1');
+const imported = trade('22222222-2222-4222-8222-222222222222', '2');
+
+describe('Import Batches', () => {
+  test('an import should be recorded before its trades are written, and undo should remove them', async () => {
+    const backend = StorageService.configure(createMemoryBackend({ trades: [journaled] }));
+    const writeTrades = backend.trades.bulkImport;
+    let recordedFirst = false;
+    backend.trades.bulkImport = async (trades, options) => {
+      recordedFirst = (await getImportBatches()).length === 1;
+      return writeTrades(trades, options);
+    };
+
+    await bulkImportTrades([imported], { id: 'batch-1', source: 'Zerodha', previousTrades: [] });
+
+    expect(recordedFirst).toBe(true);
+    expect((await getImportBatches())[0]).toMatchObject({ id: 'batch-1', addedTradeIds: [imported.id] });
+
+    await rollbackImportBatch('batch-1');
+    expect((await backend.trades.getAll()).map(t => t.id)).toEqual([journaled.id]);
+    expect(await getImportBatches()).toEqual([]);
+  });
+
+  test('a failed import should not be left to undo', async () => {
+    const backend = StorageService.configure(createMemoryBackend({ misc: { importBatches: [{ id: 'earlier' }] } }));
+    backend.trades.bulkImport = async () => false;
+
+    await expect(bulkImportTrades([imported], { id: 'batch-1', source: 'Zerodha', previousTrades: [] })).rejects.toThrow('Bulk import failed');
+
+    expect((await getImportBatches()).map(batch => batch.id)).toEqual(['earlier']);
+  });
+});
+
+describe('Dropdown Options', () => {
+  test('a deleted option should come off every trade that has it, alone or in a list', async () => {
+    const backend = StorageService.configure(createMemoryBackend({
+      trades: [
+        { ...journaled, proficiencyGrowthAreas: 'FOMO' },
+        { ...imported, proficiencyGrowthAreas: 'Late Entry, FOMO, Poor Exit' },
+        { ...trade('33333333-3333-4333-8333-333333333333', '3'), proficiencyGrowthAreas: 'FOMO Chase' }
+      ]
+    }));
+
+    expect(await clearOptionFromTrades('proficiencyGrowthAreas', 'FOMO')).toBe(2);
+    expect((await backend.trades.getAll()).map(t => t.proficiencyGrowthAreas)).toEqual(['', 'Late Entry, Poor Exit', 'FOMO Chase']);
+  });
+});
@@ -1,5 +1,6 @@
-import { SupabaseService } from './supabaseService';
+import { StorageService } from './storageBackend';
 import { AuthService } from './authService';
+import { loadExchangeCalendarOverrides } from '../utils/exchangeCalendarOverrides';
 
 /**
  * Unified App Initializer Service
@@ -164,8 +165,8 @@ export class AppInitializer {
     console.log('🔄 Loading critical data in parallel...');
     this.initializationStatus.phase = 'critical';
 
-    const userId = await AuthService.getUserId();
-    if (!userId) {
+    const backend = StorageService.backend;
+    if (backend.requiresAuth && !(await AuthService.getUserId())) {
       console.error('❌ User not authenticated - cannot load critical data');
       throw new Error('Authentication required: User must be logged in to initialize application');
     }
@@ -173,10 +174,10 @@ export class AppInitializer {
     // CRITICAL BUG FIX: Use Promise.allSettled to prevent early failure
     // This allows partial success instead of complete failure when one request fails
     const criticalDataPromises = [
-      SupabaseService.getUserPreferences(),
-      SupabaseService.getMiscData('accountingMethod'),
-      SupabaseService.getMiscData('terminology_preference'),
-      SupabaseService.getMiscData('globalFilter')
+      backend.preferences.get(),
+      backend.misc.get('accountingMethod'),
+      backend.misc.get('terminology_preference'),
+      backend.misc.get('globalFilter')
     ];
 
     console.log('📋 Loading all critical data in parallel...');
@@ -218,6 +219,13 @@ export class AppInitializer {
       data.globalFilter = { type: 'all' }; // Safe default
     }
 
+    // Exchange holidays added by the user - market-time logic falls back to the bundled calendar
+    try {
+      await loadExchangeCalendarOverrides();
+    } catch (error) {
+      console.warn('⚠️ Failed to load exchange calendar overrides, using bundled calendar:', error);
+    }
+
     console.log('✅ Critical data loading complete (parallel with graceful fallbacks)');
   }
 
@@ -278,11 +286,10 @@ export class AppInitializer {
       if (this.backgroundOperationsAborted) return;
 
       console.log('📊 Loading recent trades...');
-      const result = await SupabaseService.getTradesWithSmartLoading({
+      data.recentTrades = await StorageService.backend.trades.getAll({
         pageSize: 50,
         maxResults: 100
       });
-      data.recentTrades = result.trades;
     } catch (error) {
       // Check if error is due to authentication (user logged out)
       if (error instanceof Error && error.message.includes('not authenticated')) {
@@ -304,8 +311,7 @@ export class AppInitializer {
       if (this.backgroundOperationsAborted) return;
 
       console.log('📈 Loading basic analytics...');
-      const currentYear = new Date().getFullYear();
-      const portfolioData = await SupabaseService.getPortfolioData(currentYear);
+      const portfolioData = await StorageService.backend.capital.getPortfolioData();
       data.basicAnalytics = portfolioData;
     } catch (error) {
       // Check if error is due to authentication (user logged out)
@@ -325,7 +331,7 @@ export class AppInitializer {
   private static async loadHeavyAnalytics(data: InitializationData): Promise<void> {
     try {
       console.log('📊 Loading heavy analytics...');
-      const analyticsData = await SupabaseService.getAnalyticsData('performance');
+      const analyticsData = await StorageService.backend.analytics.get('performance');
       data.heavyAnalytics = analyticsData;
     } catch (error) {
       console.warn('⚠️ Failed to load heavy analytics:', error);
@@ -339,7 +345,7 @@ export class AppInitializer {
   private static async loadChartData(data: InitializationData): Promise<void> {
     try {
       console.log('📈 Loading chart data...');
-      const chartData = await SupabaseService.getChartViewerData();
+      const chartData = await StorageService.backend.analytics.getChartViewerData();
       data.chartData = chartData;
     } catch (error) {
       console.warn('⚠️ Failed to load chart data:', error);
@@ -353,7 +359,7 @@ export class AppInitializer {
   private static async loadTaxData(data: InitializationData): Promise<void> {
     try {
       console.log('💰 Loading tax data...');
-      const taxData = await SupabaseService.getMiscData('taxData');
+      const taxData = await StorageService.backend.taxData.get();
       data.taxData = taxData;
     } catch (error) {
       console.warn('⚠️ Failed to load tax data:', error);
@@ -1,5 +1,6 @@
 import { ChartImage, TradeChartAttachments } from '../types/trade';
 import { SupabaseService } from './supabaseService';
+import { StorageService } from './storageBackend';
 import { AuthService } from './authService';
 import { createChartImage, CHART_IMAGE_CONFIG, getImageDataUrl } from '../utils/chartImageUtils';
 // Removed generateId import - using uuidv4 directly
@@ -96,14 +97,14 @@ export class ChartImageService {
       // PURE SUPABASE: Always save to Supabase for existing trades
 
       // Check if user is authenticated for Supabase storage
-      const isAuthenticated = await AuthService.isAuthenticated();
+      const isAuthenticated = !StorageService.backend.requiresAuth || await AuthService.isAuthenticated();
       if (!isAuthenticated) {
         return { success: false, error: 'User must be authenticated to upload chart images' };
       }
 
       // CRITICAL: Ensure the trade exists in Supabase before saving chart image
       // This is required due to foreign key constraint
-      const trade = await SupabaseService.getTrade(tradeId);
+      const trade = await StorageService.backend.trades.get(tradeId);
       if (!trade) {
         if (allowTemporary) {
           console.log(`📦 [${imageType.toUpperCase()}] Trade not found in cloud storage, creating temporary chart image`);
@@ -129,7 +130,7 @@ export class ChartImageService {
 
       // Now verify the trade exists in Supabase with this exact UUID
       console.log(`🔍 [${imageType.toUpperCase()}] Verifying trade exists in Supabase with UUID: ${convertedTradeId}`);
-      const supabaseTrade = await SupabaseService.getTrade(convertedTradeId);
+      const supabaseTrade = await StorageService.backend.trades.get(convertedTradeId);
       if (!supabaseTrade) {
         if (allowTemporary) {
           console.log(`📦 [${imageType.toUpperCase()}] Trade not found in Supabase trades table, creating temporary chart image`);
@@ -180,7 +181,7 @@ export class ChartImageService {
 
 
 
-      const supabaseSaved = await SupabaseService.saveChartImageBlob(supabaseImageBlob);
+      const supabaseSaved = await StorageService.backend.chartBlobs.save(supabaseImageBlob);
       if (!supabaseSaved) {
         return { success: false, error: 'Failed to save image to cloud storage' };
       }
@@ -200,7 +201,7 @@ export class ChartImageService {
 
       // Test direct Supabase retrieval
       console.log(`🧪 [${imageType.toUpperCase()}] Testing direct Supabase retrieval...`);
-      const directBlob = await SupabaseService.getChartImageBlob(chartImage.blobId);
+      const directBlob = await StorageService.backend.chartBlobs.get(chartImage.blobId);
       if (directBlob) {
         console.log(`✅ [${imageType.toUpperCase()}] Direct Supabase retrieval successful: ${directBlob.filename}`);
       } else {
@@ -219,7 +220,7 @@ export class ChartImageService {
       // Check if any cleanup processes are running
       console.log(`🔍 [${imageType.toUpperCase()}] Checking for cleanup processes...`);
       setTimeout(async () => {
-        const stillExists = await SupabaseService.getChartImageBlob(chartImage.blobId);
+        const stillExists = await StorageService.backend.chartBlobs.get(chartImage.blobId);
         if (stillExists) {
           console.log(`✅ [${imageType.toUpperCase()}] Image still exists after 5 seconds: ${stillExists.filename}`);
         } else {
@@ -249,7 +250,7 @@ export class ChartImageService {
 
       console.log(`💾 [TEMP_SAVE] Saving temporary chart images for trade ${tradeId}`);
 
-      const isAuthenticated = await AuthService.isAuthenticated();
+      const isAuthenticated = !StorageService.backend.requiresAuth || await AuthService.isAuthenticated();
       if (!isAuthenticated) {
         return { success: false, error: 'User must be authenticated to save chart images' };
       }
@@ -328,7 +329,7 @@ export class ChartImageService {
       };
 
       // Save to Supabase
-      const supabaseSaved = await SupabaseService.saveChartImageBlob(supabaseImageBlob);
+      const supabaseSaved = await StorageService.backend.chartBlobs.save(supabaseImageBlob);
       if (!supabaseSaved) {
         return { success: false, error: 'Failed to save image to cloud storage' };
       }
@@ -366,14 +367,14 @@ export class ChartImageService {
 
       // PURE SUPABASE: Always retrieve from Supabase
       if (chartImage.blobId) {
-        const isAuthenticated = await AuthService.isAuthenticated();
+        const isAuthenticated = !StorageService.backend.requiresAuth || await AuthService.isAuthenticated();
         if (!isAuthenticated) {
           console.warn('🔐 User not authenticated, cannot load chart image from Supabase');
           return null;
         }
 
         try {
-          const supabaseBlob = await SupabaseService.getChartImageBlob(chartImage.blobId);
+          const supabaseBlob = await StorageService.backend.chartBlobs.get(chartImage.blobId);
 
           if (supabaseBlob) {
 
@@ -528,9 +529,9 @@ export class ChartImageService {
     try {
       // PURE SUPABASE: Delete from Supabase if user is authenticated
       if (chartImage.storage === 'blob' && chartImage.blobId) {
-        const isAuthenticated = await AuthService.isAuthenticated();
+        const isAuthenticated = !StorageService.backend.requiresAuth || await AuthService.isAuthenticated();
         if (isAuthenticated) {
-          await SupabaseService.deleteChartImageBlob(chartImage.blobId);
+          await StorageService.backend.chartBlobs.delete(chartImage.blobId);
         }
       }
 
@@ -546,8 +547,8 @@ export class ChartImageService {
    */
   static async deleteTradeChartImages(tradeId: string): Promise<boolean> {
     try {
-      // Delete from Supabase only
-      await SupabaseService.deleteTradeChartImages(tradeId);
+      const blobs = await StorageService.backend.chartBlobs.getForTrade(tradeId);
+      await Promise.all(blobs.map(blob => StorageService.backend.chartBlobs.delete(blob.id)));
       return true;
     } catch (error) {
       return false;
@@ -601,19 +602,18 @@ export class ChartImageService {
   static async cleanupOrphanedBlobs(): Promise<{ cleaned: number; errors: number }> {
     try {
       // Check if user is authenticated for Supabase operations
-      const isAuthenticated = await AuthService.isAuthenticated();
+      const isAuthenticated = !StorageService.backend.requiresAuth || await AuthService.isAuthenticated();
       if (!isAuthenticated) {
         return { cleaned: 0, errors: 0 };
       }
 
       // PRODUCTION-SAFE: Use limited loading for trades, get all blobs
-      const [allBlobs, tradesResult] = await Promise.all([
-        SupabaseService.getAllChartImageBlobs(),
-        SupabaseService.getTradesWithSmartLoading({ pageSize: 100, maxResults: 1000 })
+      const [allBlobs, allTrades] = await Promise.all([
+        StorageService.backend.chartBlobs.getAll(),
+        StorageService.backend.trades.getAll({ pageSize: 100, maxResults: 1000 })
       ]);
 
-      const allTrades = tradesResult.trades;
-      console.log(`🧹 Cleanup: loaded ${allTrades.length} trades using SAFE ${tradesResult.strategy} strategy`);
+      console.log(`🧹 Cleanup: loaded ${allTrades.length} trades`);
 
       // Get all trade IDs (no automatic conversion)
       const tradeIds = new Set();
@@ -628,7 +628,7 @@ export class ChartImageService {
       for (const blob of allBlobs) {
         if (!tradeIds.has(blob.trade_id)) {
           // TEMPORARILY DISABLE actual deletion for debugging
-          // const deleted = await SupabaseService.deleteChartImageBlob(blob.id);
+          // const deleted = await StorageService.backend.chartBlobs.delete(blob.id);
           // if (deleted) {
           //   cleaned++;
           // } else {
@@ -653,19 +653,18 @@ export class ChartImageService {
   static async cleanupOrphanedAttachments(): Promise<{ cleaned: number; errors: number }> {
     try {
       // Check if user is authenticated for Supabase operations
-      const isAuthenticated = await AuthService.isAuthenticated();
+      const isAuthenticated = !StorageService.backend.requiresAuth || await AuthService.isAuthenticated();
       if (!isAuthenticated) {
         return { cleaned: 0, errors: 0 };
       }
 
       // PRODUCTION-SAFE: Use limited loading for trades, get all blobs
-      const [tradesResult, allBlobs] = await Promise.all([
-        SupabaseService.getTradesWithSmartLoading({ pageSize: 100, maxResults: 1000 }),
-        SupabaseService.getAllChartImageBlobs()
+      const [allTrades, allBlobs] = await Promise.all([
+        StorageService.backend.trades.getAll({ pageSize: 100, maxResults: 1000 }),
+        StorageService.backend.chartBlobs.getAll()
       ]);
 
-      const allTrades = tradesResult.trades;
-      console.log(`🧹 Attachment cleanup: loaded ${allTrades.length} trades using SAFE ${tradesResult.strategy} strategy`);
+      console.log(`🧹 Attachment cleanup: loaded ${allTrades.length} trades`);
 
       const blobIds = new Set(allBlobs.map(blob => blob.id));
 
@@ -713,7 +712,7 @@ export class ChartImageService {
           };
 
           // PURE SUPABASE: Save to Supabase, not IndexedDB
-          const saved = await SupabaseService.saveTrade(updatedTrade);
+          const saved = await StorageService.backend.trades.save(updatedTrade);
           if (saved) {
             cleaned++;
           } else {
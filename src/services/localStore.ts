@@ -0,0 +1,297 @@
+import Dexie, { Table } from 'dexie'
+import type { Trade } from '../types/trade'
+
+/**
+ * LOCAL STORE: IndexedDB copy of everything the journal persists
+ *
+ * - One database per owner (Supabase user id, or LOCAL_OWNER_ID in local-only mode)
+ *   so switching accounts never mixes data
+ * - Trades are stored in app format, capital rows and chart blobs in Supabase row format
+ * - The sync queue lives next to the data so a write and its queued replay commit together
+ */
+
+export const LOCAL_OWNER_ID = 'local'
+
+export type SyncEntity = 'trade' | 'tradeBatch' | 'misc' | 'portfolio' | 'chartBlob' | 'accountReassign'
+export type SyncOp = 'upsert' | 'delete'
+
+export interface SyncOperation {
+  seq?: number
+  entity: SyncEntity
+  key: string
+  op: SyncOp
+  payload?: any
+  /** Remote updated_at the change was made against - the replay refuses to overwrite anything newer */
+  baseVersion?: string
+  revision: number
+  attempts: number
+  lastError?: string
+  queuedAt: string
+}
+
+/**
+ * A queued change that lost against a newer edit made on another device. Kept until the
+ * user merges it; the record stays pending meanwhile so remote reloads don't clobber it.
+ */
+export interface SyncConflict {
+  id: string
+  entity: 'trade' | 'misc' | 'portfolio'
+  key: string
+  label: string
+  local: any
+  remote: any
+  remoteVersion: string
+  fields: string[]
+  detectedAt: string
+}
+
+export interface LocalMiscRecord {
+  key: string
+  value: any
+  updated_at: string
+}
+
+class LocalJournalDatabase extends Dexie {
+  // Typed loosely: Dexie's key-path typing recurses forever on the Trade shape
+  trades!: Table<any, string>
+  misc!: Table<LocalMiscRecord, string>
+  portfolio!: Table<any, string>
+  chartBlobs!: Table<any, string>
+  syncQueue!: Table<SyncOperation, number>
+  conflicts!: Table<SyncConflict, string>
+
+  constructor(owner: string) {
+    super(`nexus-journal-${owner}`)
+    this.version(1).stores({
+      trades: 'id',
+      misc: 'key',
+      portfolio: 'id, type',
+      chartBlobs: 'id, trade_id',
+      syncQueue: '++seq, [entity+key]'
+    })
+    this.version(2).stores({
+      conflicts: 'id, entity, detectedAt'
+    })
+  }
+}
+
+export class LocalStore {
+  private static databases = new Map<string, LocalJournalDatabase>()
+
+  static db(owner: string): LocalJournalDatabase {
+    let db = this.databases.get(owner)
+    if (!db) {
+      db = new LocalJournalDatabase(owner)
+      this.databases.set(owner, db)
+    }
+    return db
+  }
+
+  // ===== TRADES =====
+
+  static async getTrades(owner: string): Promise<Trade[]> {
+    return this.db(owner).trades.toArray()
+  }
+
+  static async getTrade(owner: string, id: string): Promise<Trade | null> {
+    return (await this.db(owner).trades.get(id)) || null
+  }
+
+  static async putTrades(owner: string, trades: Trade[]): Promise<void> {
+    await this.db(owner).trades.bulkPut(trades)
+  }
+
+  static async deleteTrade(owner: string, id: string): Promise<void> {
+    const db = this.db(owner)
+    await db.transaction('rw', db.trades, db.chartBlobs, async () => {
+      await db.trades.delete(id)
+      await db.chartBlobs.where('trade_id').equals(id).delete()
+    })
+  }
+
+  /**
+   * Replace the local trades with a full remote load, keeping rows that still
+   * have queued changes (the remote copy of those is older than ours)
+   */
+  static async replaceTrades(owner: string, trades: Trade[], pendingIds: Set<string>): Promise<void> {
+    const db = this.db(owner)
+    await db.transaction('rw', db.trades, async () => {
+      const kept = pendingIds.size > 0 ? (await db.trades.bulkGet(Array.from(pendingIds))).filter(Boolean) as Trade[] : []
+      await db.trades.clear()
+      await db.trades.bulkPut(trades.filter(trade => !pendingIds.has(trade.id)))
+      await db.trades.bulkPut(kept)
+    })
+  }
+
+  /**
+   * Wipe local tables together with their queued changes (after a remote clear, or in local-only mode)
+   */
+  static async clearEntities(owner: string, entities: Array<'trade' | 'misc' | 'chartBlob'>): Promise<void> {
+    const db = this.db(owner)
+    const queued: SyncEntity[] = entities.includes('trade') ? [...entities, 'tradeBatch'] : entities
+
+    await db.transaction('rw', [db.trades, db.misc, db.chartBlobs, db.syncQueue, db.conflicts], async () => {
+      if (entities.includes('trade')) await db.trades.clear()
+      if (entities.includes('misc')) await db.misc.clear()
+      if (entities.includes('chartBlob')) await db.chartBlobs.clear()
+      await db.syncQueue.filter(item => queued.includes(item.entity)).delete()
+      await db.conflicts.filter(conflict => queued.includes(conflict.entity)).delete()
+    })
+  }
+
+  // ===== MISC DATA =====
+
+  static async getMisc(owner: string, key: string): Promise<LocalMiscRecord | null> {
+    return (await this.db(owner).misc.get(key)) || null
+  }
+
+  /**
+   * @param updatedAt - Version of the value; pass the remote updated_at when caching a remote read
+   */
+  static async putMisc(owner: string, key: string, value: any, updatedAt: string = new Date().toISOString()): Promise<void> {
+    await this.db(owner).misc.put({ key, value, updated_at: updatedAt })
+  }
+
+  static async deleteMisc(owner: string, key: string): Promise<void> {
+    await this.db(owner).misc.delete(key)
+  }
+
+  // ===== CAPITAL / PORTFOLIO ROWS =====
+
+  static async getPortfolioRows(owner: string, type?: string): Promise<any[]> {
+    const table = this.db(owner).portfolio
+    return type ? table.where('type').equals(type).toArray() : table.toArray()
+  }
+
+  static async putPortfolioRows(owner: string, rows: any[]): Promise<void> {
+    await this.db(owner).portfolio.bulkPut(rows)
+  }
+
+  static async deletePortfolioRow(owner: string, id: string): Promise<void> {
+    await this.db(owner).portfolio.delete(id)
+  }
+
+  /**
+   * Replace all rows of one type (every type when null) with a remote load, keeping rows with queued changes
+   */
+  static async replacePortfolioRows(owner: string, type: string | null, rows: any[], pendingIds: Set<string>): Promise<void> {
+    const db = this.db(owner)
+    await db.transaction('rw', db.portfolio, async () => {
+      const existing = type ? await db.portfolio.where('type').equals(type).toArray() : await db.portfolio.toArray()
+      await db.portfolio.bulkDelete(existing.filter(row => !pendingIds.has(row.id)).map(row => row.id))
+      await db.portfolio.bulkPut(rows.filter(row => !pendingIds.has(row.id)))
+    })
+  }
+
+  // ===== CHART BLOBS =====
+
+  static async getChartBlob(owner: string, id: string): Promise<any | null> {
+    return (await this.db(owner).chartBlobs.get(id)) || null
+  }
+
+  static async getChartBlobs(owner: string): Promise<any[]> {
+    return this.db(owner).chartBlobs.toArray()
+  }
+
+  static async getTradeChartBlobs(owner: string, tradeId: string): Promise<any[]> {
+    return this.db(owner).chartBlobs.where('trade_id').equals(tradeId).toArray()
+  }
+
+  static async putChartBlob(owner: string, blob: any): Promise<void> {
+    await this.db(owner).chartBlobs.put(blob)
+  }
+
+  static async deleteChartBlob(owner: string, id: string): Promise<void> {
+    await this.db(owner).chartBlobs.delete(id)
+  }
+
+  // ===== SYNC QUEUE =====
+
+  /**
+   * Queue a change for replay. Repeated upserts of the same record collapse into
+   * the latest one (keeping the version the first edit was based on); a delete
+   * supersedes everything queued before it for that record.
+   */
+  static async enqueue(owner: string, operation: Omit<SyncOperation, 'seq' | 'revision' | 'attempts' | 'queuedAt'>): Promise<void> {
+    const db = this.db(owner)
+    await db.transaction('rw', db.syncQueue, async () => {
+      const queued = await db.syncQueue.where('[entity+key]').equals([operation.entity, operation.key]).toArray()
+
+      if (operation.op === 'delete') {
+        await db.syncQueue.bulkDelete(queued.map(item => item.seq!))
+      } else {
+        const previous = queued.filter(item => item.op === operation.op).pop()
+        if (previous) {
+          await db.syncQueue.update(previous.seq!, {
+            payload: operation.payload,
+            revision: previous.revision + 1,
+            attempts: 0,
+            lastError: undefined
+          })
+          return
+        }
+      }
+
+      await db.syncQueue.add({ ...operation, revision: 0, attempts: 0, queuedAt: new Date().toISOString() })
+    })
+  }
+
+  static async getQueue(owner: string): Promise<SyncOperation[]> {
+    return this.db(owner).syncQueue.orderBy('seq').toArray()
+  }
+
+  /**
+   * Drop a replayed operation - unless it was coalesced with a newer change while in flight,
+   * in which case that change is now based on the version the replay just wrote
+   */
+  static async removeQueued(owner: string, operation: SyncOperation, writtenVersion?: string): Promise<void> {
+    const db = this.db(owner)
+    await db.transaction('rw', db.syncQueue, async () => {
+      const current = await db.syncQueue.get(operation.seq!)
+      if (current && current.revision === operation.revision) {
+        await db.syncQueue.delete(operation.seq!)
+      } else if (current && writtenVersion) {
+        await db.syncQueue.update(operation.seq!, { baseVersion: writtenVersion })
+      }
+    })
+  }
+
+  static async markQueuedFailure(owner: string, seq: number, attempts: number, error: string): Promise<void> {
+    await this.db(owner).syncQueue.update(seq, { attempts, lastError: error })
+  }
+
+  /**
+   * Keys whose local copy must not be replaced by a remote read: queued changes and unresolved conflicts
+   */
+  static async getPendingKeys(owner: string, entity: SyncEntity): Promise<Set<string>> {
+    const db = this.db(owner)
+    const [queued, conflicts] = await Promise.all([db.syncQueue.toArray(), db.conflicts.where('entity').equals(entity).toArray()])
+    const keys = new Set(queued.filter(item => item.entity === entity).map(item => item.key))
+    conflicts.forEach(conflict => keys.add(conflict.key))
+
+    // Trades waiting in a queued import batch count as pending trades too
+    if (entity === 'trade') {
+      queued
+        .filter(item => item.entity === 'tradeBatch')
+        .forEach(item => (item.payload?.trades || []).forEach((trade: Trade) => keys.add(trade.id)))
+    }
+    return keys
+  }
+
+  // ===== CONFLICTS =====
+
+  static async getConflicts(owner: string): Promise<SyncConflict[]> {
+    return this.db(owner).conflicts.orderBy('detectedAt').toArray()
+  }
+
+  /**
+   * Record conflicts - a newer conflict for the same record replaces the older one
+   */
+  static async putConflicts(owner: string, conflicts: SyncConflict[]): Promise<void> {
+    await this.db(owner).conflicts.bulkPut(conflicts)
+  }
+
+  static async deleteConflict(owner: string, id: string): Promise<void> {
+    await this.db(owner).conflicts.delete(id)
+  }
+}
@@ -0,0 +1,267 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Trade } from '../types/trade';
+import { toDbAccountId } from '../utils/accounts';
+import type { StorageBackend } from './storageBackend';
+import { RealtimeService, DataChange } from './realtimeService';
+
+export interface MemoryBackendSeed {
+  trades?: Trade[];
+  preferences?: any;
+  tradeSettings?: any;
+  /** Capital rows in portfolio_data shape */
+  portfolio?: any[];
+  misc?: Record<string, any>;
+  chartBlobs?: any[];
+}
+
+const byTradeNo = (a: Trade, b: Trade) =>
+  (parseInt(a.tradeNo) || 0) - (parseInt(b.tradeNo) || 0);
+
+/**
+ * In-memory storage for demos, tests and trying the app without an account.
+ * Rows are kept in the same shapes the Supabase backend returns; nothing survives a reload.
+ */
+export function createMemoryBackend(seed: MemoryBackendSeed = {}): StorageBackend {
+  const trades = new Map<string, Trade>((seed.trades || []).map(trade => [trade.id, { ...trade }]));
+  const portfolio = new Map<string, any>((seed.portfolio || []).map(row => [row.id, { ...row }]));
+  const misc = new Map<string, any>(Object.entries(seed.misc || {}));
+  const chartBlobs = new Map<string, any>((seed.chartBlobs || []).map(blob => [blob.id, { ...blob }]));
+  let preferences: any = seed.preferences ?? null;
+  let tradeSettings: any = seed.tradeSettings ?? null;
+
+  // Memory data is private to this tab, so changes are announced here only
+  const publish = (change: Omit<DataChange, 'source'>) => RealtimeService.publish(change, false);
+
+  const rowsOfType = (type: string) => Array.from(portfolio.values()).filter(row => row.type === type);
+
+  const replaceRowsOfType = (type: string, rows: any[]) => {
+    rowsOfType(type).forEach(row => portfolio.delete(row.id));
+    rows.forEach(row => portfolio.set(row.id, row));
+    publish({ entity: 'portfolio', op: 'reload', key: '*' });
+    return true;
+  };
+
+  const toYearlyCapitalRow = (capital: any) => ({
+    id: capital.id || uuidv4(),
+    type: 'yearly_capital',
+    year: capital.year,
+    amount: capital.startingCapital || capital.amount,
+    account_id: toDbAccountId(capital.accountId),
+    updated_at: new Date().toISOString()
+  });
+
+  const toCapitalChangeRow = (change: any) => ({
+    id: change.id || uuidv4(),
+    type: 'capital_change',
+    date: change.date,
+    amount: change.amount !== null && change.amount !== undefined ? Number(change.amount) : 0,
+    description: change.description || change.type || '',
+    account_id: toDbAccountId(change.accountId),
+    updated_at: new Date().toISOString()
+  });
+
+  const toMonthlyOverrideRow = (override: any) => ({
+    id: override.id || uuidv4(),
+    type: 'monthly_override',
+    year: override.year,
+    month: override.month,
+    amount: Number(override.startingCapital ?? override.amount ?? 0),
+    account_id: toDbAccountId(override.accountId),
+    updated_at: new Date().toISOString()
+  });
+
+  const toMonthlySizeRow = (size: any) => ({
+    id: size.id || uuidv4(),
+    type: 'monthly_size',
+    year: size.year,
+    month: size.month,
+    amount: size.size || size.amount,
+    updated_at: size.updatedAt || new Date().toISOString()
+  });
+
+  const savePortfolioRow = (row: any) => {
+    portfolio.set(row.id, row);
+    publish({ entity: 'portfolio', op: 'upsert', key: row.id, value: row });
+    return true;
+  };
+
+  const deletePortfolioRow = (id: string) => {
+    portfolio.delete(id);
+    publish({ entity: 'portfolio', op: 'delete', key: id });
+    return true;
+  };
+
+  const saveMisc = (key: string, value: any) => {
+    misc.set(key, value);
+    publish({ entity: 'misc', op: 'upsert', key, value });
+    return true;
+  };
+
+  const byYearMonth = (a: any, b: any) => a.year - b.year || String(a.month).localeCompare(String(b.month));
+
+  return {
+    kind: 'memory',
+    requiresAuth: false,
+
+    trades: {
+      getAll: async (options = {}) => {
+        const all = Array.from(trades.values()).sort(byTradeNo);
+        return options.maxResults ? all.slice(-options.maxResults) : all;
+      },
+      get: async (id) => trades.get(id) || null,
+      save: async (trade) => {
+        trades.set(trade.id, { ...trade });
+        publish({ entity: 'trade', op: 'upsert', key: trade.id, value: trade });
+        return true;
+      },
+      bulkImport: async (incoming, options = {}) => {
+        if (options.validateOnly) return true;
+
+        const total = incoming.length;
+        incoming.forEach((trade, index) => {
+          const existing = Array.from(trades.values()).find(t => t.id !== trade.id && t.tradeNo === trade.tradeNo);
+          if (existing && options.conflictResolution === 'skip') return;
+          if (existing && options.conflictResolution === 'update') {
+            trades.set(existing.id, { ...trade, id: existing.id });
+          } else if (existing) {
+            const nextTradeNo = Math.max(0, ...Array.from(trades.values()).map(t => parseInt(t.tradeNo) || 0)) + 1;
+            trades.set(trade.id, { ...trade, tradeNo: String(nextTradeNo) });
+          } else {
+            trades.set(trade.id, { ...trade });
+          }
+          options.onProgress?.({ completed: index + 1, total, percentage: Math.round(((index + 1) / total) * 100) });
+        });
+        publish({ entity: 'trade', op: 'reload', key: '*' });
+        return true;
+      },
+      delete: async (id) => {
+        trades.delete(id);
+        Array.from(chartBlobs.values())
+          .filter(blob => blob.trade_id === id)
+          .forEach(blob => chartBlobs.delete(blob.id));
+        publish({ entity: 'trade', op: 'delete', key: id });
+        return true;
+      },
+      deleteMany: async (ids) => {
+        const deleted = new Set(ids);
+        ids.forEach(id => trades.delete(id));
+        Array.from(chartBlobs.values())
+          .filter(blob => deleted.has(blob.trade_id))
+          .forEach(blob => chartBlobs.delete(blob.id));
+        publish({ entity: 'trade', op: 'reload', key: '*' });
+        return true;
+      },
+      clearAll: async () => {
+        trades.clear();
+        chartBlobs.clear();
+        misc.clear();
+        publish({ entity: 'trade', op: 'reload', key: '*' });
+        publish({ entity: 'misc', op: 'reload', key: '*' });
+        return true;
+      }
+    },
+
+    preferences: {
+      get: async () => preferences,
+      save: async (changes) => {
+        preferences = { ...(preferences || {}), ...changes };
+        return true;
+      },
+      getTradeSettings: async () => tradeSettings,
+      saveTradeSettings: async (settings) => {
+        tradeSettings = settings;
+        return true;
+      }
+    },
+
+    capital: {
+      getYearlyStartingCapitals: async () =>
+        rowsOfType('yearly_capital').sort((a, b) => a.year - b.year),
+      saveYearlyStartingCapitals: async (capitals) =>
+        replaceRowsOfType('yearly_capital', capitals.map(toYearlyCapitalRow)),
+      saveYearlyStartingCapital: async (capital) => savePortfolioRow(toYearlyCapitalRow(capital)),
+      getCapitalChanges: async () =>
+        rowsOfType('capital_change').sort((a, b) => String(a.date).localeCompare(String(b.date))),
+      saveCapitalChanges: async (changes) =>
+        replaceRowsOfType('capital_change', changes.map(toCapitalChangeRow)),
+      addCapitalChange: async (change) => savePortfolioRow(toCapitalChangeRow(change)),
+      updateCapitalChange: async (change) => savePortfolioRow(toCapitalChangeRow(change)),
+      deleteCapitalChange: async (id) => deletePortfolioRow(id),
+      getMonthlyOverrides: async () =>
+        rowsOfType('monthly_override').sort(byYearMonth),
+      saveMonthlyOverrides: async (overrides) =>
+        replaceRowsOfType('monthly_override', overrides.map(toMonthlyOverrideRow)),
+      saveMonthlyOverride: async (override) => savePortfolioRow(toMonthlyOverrideRow(override)),
+      deleteMonthlyOverride: async (id) => deletePortfolioRow(id),
+      getMonthlyPortfolioSizes: async () => rowsOfType('monthly_size').sort(byYearMonth),
+      saveMonthlyPortfolioSizes: async (sizes) => {
+        sizes.map(toMonthlySizeRow).forEach(savePortfolioRow);
+        return true;
+      },
+      getPortfolioData: async () => Array.from(portfolio.values()),
+      reassignAccount: async (fromAccountId, toAccountId) => {
+        const from = toDbAccountId(fromAccountId);
+        const to = toDbAccountId(toAccountId);
+        trades.forEach((trade, id) => {
+          if (toDbAccountId(trade.accountId) === from) {
+            trades.set(id, { ...trade, accountId: to || undefined });
+          }
+        });
+        portfolio.forEach((row, id) => {
+          if ((row.account_id ?? null) === from) {
+            portfolio.set(id, { ...row, account_id: to });
+          }
+        });
+        publish({ entity: 'trade', op: 'reload', key: '*' });
+        publish({ entity: 'portfolio', op: 'reload', key: '*' });
+        return true;
+      }
+    },
+
+    taxData: {
+      get: async () => misc.get('taxData') ?? null,
+      save: async (data) => saveMisc('taxData', data)
+    },
+
+    misc: {
+      get: async (key) => misc.get(key) ?? null,
+      save: async (key, value) => saveMisc(key, value),
+      delete: async (key) => {
+        misc.delete(key);
+        publish({ entity: 'misc', op: 'delete', key });
+        return true;
+      }
+    },
+
+    chartBlobs: {
+      get: async (id) => chartBlobs.get(id) || null,
+      getAll: async () => Array.from(chartBlobs.values()),
+      getForTrade: async (tradeId) => Array.from(chartBlobs.values()).filter(blob => blob.trade_id === tradeId),
+      save: async (blob) => {
+        const row = {
+          ...blob,
+          id: blob.id || uuidv4(),
+          data: typeof blob.data === 'string' ? Uint8Array.from(atob(blob.data), c => c.charCodeAt(0)) : blob.data,
+          uploaded_at: blob.uploaded_at || new Date().toISOString()
+        };
+        chartBlobs.set(row.id, row);
+        return true;
+      },
+      delete: async (id) => {
+        chartBlobs.delete(id);
+        return true;
+      },
+      updateTradeId: async (blobId, tradeId) => {
+        const blob = chartBlobs.get(blobId);
+        if (!blob) return false;
+        chartBlobs.set(blobId, { ...blob, trade_id: tradeId });
+        return true;
+      }
+    },
+
+    analytics: {
+      get: async () => null,
+      getChartViewerData: async () => null
+    }
+  };
+}
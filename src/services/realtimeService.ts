@@ -0,0 +1,86 @@
+import type { SyncOp } from './localStore'
+
+/**
+ * REALTIME SERVICE: One change feed for trades, capital rows and misc data
+ *
+ * - The storage layer publishes every write made in this tab ('local')
+ * - Other tabs of this browser receive them over a BroadcastChannel ('tab')
+ * - SupabaseService feeds in row changes from other devices via Supabase realtime ('remote')
+ *
+ * Hooks and contexts subscribe here to patch their state in place instead of reloading.
+ */
+
+export type DataChangeSource = 'local' | 'tab' | 'remote'
+
+export interface DataChange {
+  entity: 'trade' | 'portfolio' | 'misc'
+  /** 'reload' marks bulk writes (imports, clears, account moves) - refetch instead of patching */
+  op: SyncOp | 'reload'
+  /** Trade id, portfolio row id or misc key ('*' for reloads) */
+  key: string
+  /** App-format trade, portfolio_data row or misc value (absent for deletes) */
+  value?: any
+  source: DataChangeSource
+}
+
+export class RealtimeService {
+  private static readonly CHANNEL_NAME = 'nexus-data-changes'
+
+  private static listeners: Array<(change: DataChange) => void> = []
+  private static channel: BroadcastChannel | null = null
+
+  /**
+   * Announce a write made in this tab to local listeners and, unless the data only
+   * lives in this tab (memory backend), to the other tabs
+   */
+  static publish(change: Omit<DataChange, 'source'>, broadcast = true): void {
+    this.deliver({ ...change, source: 'local' })
+    if (!broadcast) return
+
+    try {
+      this.getChannel()?.postMessage(change)
+    } catch (error) {
+      // Values that can't be cloned (e.g. functions) only reach this tab
+      console.warn('⚠️ Could not broadcast change to other tabs:', error)
+    }
+  }
+
+  /**
+   * Deliver a change that came from Supabase realtime
+   */
+  static receiveRemote(change: Omit<DataChange, 'source'>): void {
+    this.deliver({ ...change, source: 'remote' })
+  }
+
+  static onChange(listener: (change: DataChange) => void): () => void {
+    this.getChannel()
+    this.listeners.push(listener)
+
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  private static getChannel(): BroadcastChannel | null {
+    if (this.channel || typeof BroadcastChannel === 'undefined') return this.channel
+
+    this.channel = new BroadcastChannel(this.CHANNEL_NAME)
+    this.channel.onmessage = (event: MessageEvent<Omit<DataChange, 'source'>>) => {
+      this.deliver({ ...event.data, source: 'tab' })
+    }
+    return this.channel
+  }
+
+  private static deliver(change: DataChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change)
+      } catch (error) {
+        console.error('❌ Data change listener failed:', error)
+      }
+    })
+  }
+}
@@ -0,0 +1,156 @@
+import type { Trade } from '../types/trade';
+import { SyncService } from './syncService';
+import { supabaseBackend } from './supabaseBackend';
+import { createMemoryBackend } from './memoryBackend';
+
+/**
+ * STORAGE BACKEND: Typed repositories for everything the journal persists
+ *
+ * Hooks, contexts and services talk to StorageService.backend instead of a concrete
+ * store, so the app runs against whichever backend was selected at startup:
+ * - 'supabase'  - local-first IndexedDB copy synced to Supabase (the default)
+ * - 'indexeddb' - the same IndexedDB store in local-only mode, no account needed
+ * - 'memory'    - plain in-memory maps for demos and tests, nothing persists a reload
+ */
+
+export type StorageBackendKind = 'supabase' | 'indexeddb' | 'memory';
+
+export interface BulkImportOptions {
+  validateOnly?: boolean;
+  onProgress?: (progress: { completed: number; total: number; percentage: number }) => void;
+  conflictResolution?: 'skip' | 'renumber' | 'update';
+}
+
+export interface TradeLoadOptions {
+  pageSize?: number;
+  /** Cap on the number of trades returned, newest first when the backend pages */
+  maxResults?: number;
+}
+
+export interface TradeRepository {
+  getAll(options?: TradeLoadOptions): Promise<Trade[]>;
+  get(id: string): Promise<Trade | null>;
+  save(trade: Trade): Promise<boolean>;
+  bulkImport(trades: Trade[], options?: BulkImportOptions): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+  /** Deletes several trades as one change (e.g. rolling back an import) */
+  deleteMany(ids: string[]): Promise<boolean>;
+  /** Removes every trade, chart image and misc entry (capital history is kept) */
+  clearAll(): Promise<boolean>;
+}
+
+export interface PreferencesRepository {
+  get(): Promise<any | null>;
+  /** Merges into the stored preferences */
+  save(preferences: any): Promise<boolean>;
+  getTradeSettings(): Promise<any | null>;
+  saveTradeSettings(settings: any): Promise<boolean>;
+}
+
+/**
+ * Capital rows share the portfolio_data row shape (id, type, year, month, date, amount, account_id)
+ */
+export interface CapitalRepository {
+  getYearlyStartingCapitals(): Promise<any[]>;
+  saveYearlyStartingCapitals(capitals: any[]): Promise<boolean>;
+  saveYearlyStartingCapital(capital: any): Promise<boolean>;
+  getCapitalChanges(): Promise<any[]>;
+  saveCapitalChanges(changes: any[]): Promise<boolean>;
+  addCapitalChange(change: any): Promise<boolean>;
+  updateCapitalChange(change: any): Promise<boolean>;
+  deleteCapitalChange(id: string): Promise<boolean>;
+  getMonthlyOverrides(): Promise<any[]>;
+  saveMonthlyOverrides(overrides: any[]): Promise<boolean>;
+  saveMonthlyOverride(override: any): Promise<boolean>;
+  deleteMonthlyOverride(id: string): Promise<boolean>;
+  getMonthlyPortfolioSizes(): Promise<any[]>;
+  saveMonthlyPortfolioSizes(sizes: any[]): Promise<boolean>;
+  getPortfolioData(): Promise<any[]>;
+  /** Moves every trade and capital row of one broker account to another */
+  reassignAccount(fromAccountId: string, toAccountId: string): Promise<boolean>;
+}
+
+/**
+ * Tax sheet values for all years, as edited on the tax analytics page
+ */
+export interface TaxDataRepository {
+  get(): Promise<Record<string, any> | null>;
+  save(data: Record<string, any>): Promise<boolean>;
+}
+
+export interface MiscDataRepository {
+  get(key: string): Promise<any>;
+  save(key: string, value: any): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * Chart blobs use the chart_image_blobs row shape; save() takes base64 data
+ */
+export interface ChartBlobRepository {
+  get(id: string): Promise<any | null>;
+  getAll(): Promise<any[]>;
+  getForTrade(tradeId: string): Promise<any[]>;
+  save(blob: any): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+  updateTradeId(blobId: string, tradeId: string): Promise<boolean>;
+}
+
+/**
+ * Precomputed analytics and chart viewer data - Supabase views, which other backends don't have
+ */
+export interface AnalyticsRepository {
+  /** null when the backend has no analytics */
+  get(type: 'performance' | 'risk' | 'metrics'): Promise<any | null>;
+  getChartViewerData(): Promise<any | null>;
+}
+
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  /** Whether the app must sign in before data can be read */
+  requiresAuth: boolean;
+  trades: TradeRepository;
+  preferences: PreferencesRepository;
+  capital: CapitalRepository;
+  taxData: TaxDataRepository;
+  misc: MiscDataRepository;
+  chartBlobs: ChartBlobRepository;
+  analytics: AnalyticsRepository;
+}
+
+const BACKEND_KINDS: StorageBackendKind[] = ['supabase', 'indexeddb', 'memory'];
+
+export class StorageService {
+  private static current: StorageBackend | null = null;
+
+  /**
+   * Backend chosen by VITE_STORAGE_BACKEND, defaulting to Supabase
+   */
+  static getConfiguredKind(): StorageBackendKind {
+    const configured = (import.meta.env.VITE_STORAGE_BACKEND || '').toLowerCase();
+    return BACKEND_KINDS.includes(configured as StorageBackendKind) ? configured as StorageBackendKind : 'supabase';
+  }
+
+  /**
+   * Select the backend - call before the app renders (tests may pass a prepared backend)
+   */
+  static configure(backend: StorageBackendKind | StorageBackend = StorageService.getConfiguredKind()): StorageBackend {
+    if (typeof backend !== 'string') {
+      this.current = backend;
+    } else if (backend === 'memory') {
+      this.current = createMemoryBackend();
+    } else {
+      if (backend === 'indexeddb') {
+        SyncService.setStorageMode('local');
+      }
+      this.current = supabaseBackend;
+    }
+
+    console.log(`🗄️ Storage backend: ${this.current.kind}`);
+    return this.current;
+  }
+
+  static get backend(): StorageBackend {
+    return this.current || this.configure();
+  }
+}
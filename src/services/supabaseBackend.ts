@@ -0,0 +1,79 @@
+import { SupabaseService } from './supabaseService';
+import { SyncService } from './syncService';
+import type { StorageBackend } from './storageBackend';
+
+/**
+ * Supabase-backed storage: the local-first SupabaseService behind the repository interfaces.
+ * Also serves the 'indexeddb' backend, where SyncService is switched to local-only mode.
+ */
+export const supabaseBackend: StorageBackend = {
+  get kind() {
+    return SyncService.isLocalOnly() ? 'indexeddb' : 'supabase';
+  },
+
+  get requiresAuth() {
+    return !SyncService.isLocalOnly();
+  },
+
+  trades: {
+    getAll: async (options = {}) => (await SupabaseService.getTradesWithSmartLoading(options)).trades,
+    get: (id) => SupabaseService.getTrade(id),
+    save: (trade) => SupabaseService.saveTrade(trade),
+    bulkImport: (trades, options) => SupabaseService.bulkImportTrades(trades, options),
+    delete: (id) => SupabaseService.deleteTrade(id),
+    deleteMany: (ids) => SupabaseService.deleteTrades(ids),
+    clearAll: () => SupabaseService.clearAllData(true)
+  },
+
+  preferences: {
+    get: () => SupabaseService.getUserPreferences(),
+    save: (preferences) => SupabaseService.saveUserPreferences(preferences),
+    getTradeSettings: () => SupabaseService.getTradeSettings(),
+    saveTradeSettings: (settings) => SupabaseService.saveTradeSettings(settings)
+  },
+
+  capital: {
+    getYearlyStartingCapitals: () => SupabaseService.getYearlyStartingCapitals(),
+    saveYearlyStartingCapitals: (capitals) => SupabaseService.saveYearlyStartingCapitals(capitals),
+    saveYearlyStartingCapital: (capital) => SupabaseService.saveYearlyStartingCapital(capital),
+    getCapitalChanges: () => SupabaseService.getCapitalChanges(),
+    saveCapitalChanges: (changes) => SupabaseService.saveCapitalChanges(changes),
+    addCapitalChange: (change) => SupabaseService.addCapitalChange(change),
+    updateCapitalChange: (change) => SupabaseService.updateCapitalChange(change),
+    deleteCapitalChange: (id) => SupabaseService.deleteCapitalChange(id),
+    getMonthlyOverrides: () => SupabaseService.getMonthlyStartingCapitalOverrides(),
+    saveMonthlyOverrides: (overrides) => SupabaseService.saveMonthlyStartingCapitalOverrides(overrides),
+    saveMonthlyOverride: (override) => SupabaseService.saveMonthlyStartingCapitalOverride(override),
+    deleteMonthlyOverride: (id) => SupabaseService.deleteMonthlyStartingCapitalOverride(id),
+    getMonthlyPortfolioSizes: () => SupabaseService.getMonthlyPortfolioSizes(),
+    saveMonthlyPortfolioSizes: (sizes) => SupabaseService.saveMonthlyPortfolioSizes(sizes),
+    getPortfolioData: () => SupabaseService.getPortfolioData(),
+    reassignAccount: (fromAccountId, toAccountId) => SupabaseService.reassignAccountData(fromAccountId, toAccountId)
+  },
+
+  // The tax sheet has always been stored as one misc entry rather than in the per-year tax_data table
+  taxData: {
+    get: () => SupabaseService.getMiscData('taxData'),
+    save: (data) => SupabaseService.saveMiscData('taxData', data)
+  },
+
+  misc: {
+    get: (key) => SupabaseService.getMiscData(key),
+    save: (key, value) => SupabaseService.saveMiscData(key, value),
+    delete: (key) => SupabaseService.deleteMiscData(key)
+  },
+
+  chartBlobs: {
+    get: (id) => SupabaseService.getChartImageBlob(id),
+    getAll: () => SupabaseService.getAllChartImageBlobs(),
+    getForTrade: (tradeId) => SupabaseService.getTradeChartImageBlobs(tradeId),
+    save: (blob) => SupabaseService.saveChartImageBlob(blob),
+    delete: (id) => SupabaseService.deleteChartImageBlob(id),
+    updateTradeId: (blobId, tradeId) => SupabaseService.updateChartImageBlobTradeId(blobId, tradeId)
+  },
+
+  analytics: {
+    get: (type) => SupabaseService.getAnalyticsData(type),
+    getChartViewerData: () => SupabaseService.getChartViewerData()
+  }
+};
@@ -1,13 +1,24 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
 import { AuthService } from './authService'
 import { AppInitializer } from './appInitializer'
 import type { Trade, ChartImage, CapitalChange } from '../types/trade'
 import { v4 as uuidv4 } from 'uuid'
 import { validateTradeForDatabase, sanitizeTradeForDatabase, validateTradesBatch } from '../utils/databaseValidation'
+import { buildLegsFromLegacyFields, getTradeLegs } from '../lib/calculations/core/tradeLegs'
+import { toDbAccountId } from '../utils/accounts'
+import { LocalStore, LOCAL_OWNER_ID, SyncOperation, SyncConflict } from './localStore'
+import { SyncService, SyncReplayResult } from './syncService'
+import { RealtimeService, DataChange } from './realtimeService'
+import { diffRecordFields, isSameVersion } from '../utils/syncConflicts'
 
 /**
  * Production-ready Supabase Service with enterprise-level data safety
  * Implements ACID compliance, proper error handling, and data loss prevention
+ *
+ * Trades, misc data, capital rows and chart blobs are local-first: writes land in
+ * LocalStore and are replayed to Supabase by SyncService, reads refresh the local
+ * copy from Supabase when it is reachable and serve the local copy otherwise.
  */
 
 // ===== TYPE DEFINITIONS =====
@@ -27,6 +38,19 @@ interface PaginatedResult<T> {
   pageSize: number;
 }
 
+// Local-only mode keeps the single-row settings tables in the local misc store
+const LOCAL_PREFERENCES_KEY = '__userPreferences';
+const LOCAL_TRADE_SETTINGS_KEY = '__tradeSettings';
+
+interface SmartLoadResult {
+  trades: Trade[];
+  strategy: 'smart-single' | 'smart-paginated';
+  totalCount: number;
+  hasMore: boolean;
+  page: number;
+  pageSize: number;
+}
+
 interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -99,6 +123,11 @@ const createDataHash = (data: any[]): string => {
   return data.map(item => `${item.id}-${item.updated_at || item.created_at}`).join('|');
 };
 
+/**
+ * A trades, portfolio_data or misc_data row as realtime delivers it
+ */
+type RealtimeRow = Record<string, any>;
+
 /**
  * Helper function to convert database row to Trade object with safe type conversion
  * @param row - Database row
@@ -109,7 +138,7 @@ const dbRowToTrade = (row: any): Trade => {
     throw new Error('Cannot convert null/undefined database row to Trade object');
   }
 
-  return {
+  const trade: Trade = {
     id: safeString(row.id),
     tradeNo: safeString(row.trade_no),
     date: safeString(row.date),
@@ -162,7 +191,19 @@ const dbRowToTrade = (row: any): Trade => {
     _userEditedFields: Array.isArray(row.user_edited_fields) ? row.user_edited_fields : [],
     _cmpAutoFetched: safeBoolean(row.cmp_auto_fetched, false),
     _needsRecalculation: safeBoolean(row.needs_recalculation, false),
+    legs: Array.isArray(row.legs) ? row.legs : [],
+    instrument: row.instrument || undefined,
+    accountId: row.account_id || undefined,
+    corporateActions: Array.isArray(row.corporate_actions) && row.corporate_actions.length > 0 ? row.corporate_actions : undefined,
+    _updatedAt: row.updated_at || undefined,
+  }
+
+  // Rows saved before legs existed only have the fixed slot columns - migrate them on read
+  if (trade.legs.length === 0) {
+    trade.legs = buildLegsFromLegacyFields(trade);
   }
+
+  return trade;
 };
 
 /**
@@ -242,6 +283,11 @@ const tradeToDbRow = (trade: Trade, userId: string) => {
     user_edited_fields: Array.isArray(trade._userEditedFields) ? trade._userEditedFields : [],
     cmp_auto_fetched: safeBoolean(trade._cmpAutoFetched, false),
     needs_recalculation: safeBoolean(trade._needsRecalculation, false),
+    legs: getTradeLegs(trade),
+    instrument: trade.instrument || null,
+    account_id: toDbAccountId(trade.accountId),
+    corporate_actions: Array.isArray(trade.corporateActions) ? trade.corporateActions : [],
+    updated_at: trade._updatedAt || new Date().toISOString(),
   }
 };
 
@@ -269,6 +315,7 @@ export class SupabaseService {
   private static readonly RETRY_BASE_DELAY = 1000; // 1 second base delay
   private static readonly RETRY_MAX_DELAY = 5000; // 5 seconds max delay
   private static readonly PAGE_SIZE = 1500; // Increased to handle larger datasets
+  private static readonly CONFLICT_CHECK_BATCH = 200; // Trade ids per version lookup during sync
 
   // ===== CACHE MANAGEMENT =====
 
@@ -299,9 +346,23 @@ export class SupabaseService {
     this.setupBeforeUnloadHandler();
     this.startCacheMaintenance();
 
+    // Local-first persistence: queued changes are replayed through replayOperation
+    SyncService.registerRemote({
+      getUserId: () => SyncService.isLocalOnly() ? Promise.resolve(null) : AuthService.getUserId(),
+      replay: (userId, operation) => this.replayOperation(userId, operation),
+      resolveConflict: (userId, conflict, merged) => this.applyConflictResolution(userId, conflict, merged)
+    });
+    SyncService.initialize();
+
+    // Another tab wrote to the shared IndexedDB copy - drop what we cached in memory
+    this.unsubscribeTabChanges = RealtimeService.onChange(change => {
+      if (change.source === 'tab') this.forgetCachedChange(change);
+    });
+
     // DEFER auth event listener setup to avoid circular dependency during module loading
     setTimeout(() => {
       this.setupAuthEventListeners();
+      void this.startRealtime();
     }, 0);
 
     console.log('🚀 SupabaseService initialized with enterprise-level safety and cache maintenance');
@@ -320,6 +381,7 @@ export class SupabaseService {
           case 'signOut':
             console.log('🔄 SupabaseService: Handling sign-out event');
             this.invalidateCachesByOperation('logout');
+            this.stopRealtime();
             // CRITICAL FIX: Abort AppInitializer background operations on logout
             AppInitializer.abortBackgroundOperations();
             break;
@@ -327,6 +389,12 @@ export class SupabaseService {
             console.log('🔄 SupabaseService: Handling sign-in event');
             // Clear caches to ensure fresh data for new user
             this.clearAllCaches();
+            // Signing in leaves local-only mode; the local-only database is kept for later
+            if (SyncService.isLocalOnly()) {
+              SyncService.setStorageMode('cloud');
+            }
+            void SyncService.flush();
+            void this.startRealtime();
             break;
           case 'tokenRefresh':
             console.log('🔄 SupabaseService: Handling token refresh event');
@@ -388,6 +456,11 @@ export class SupabaseService {
     this.lockTimeouts.forEach(timeout => clearTimeout(timeout));
     this.lockTimeouts.clear();
 
+    SyncService.cleanup();
+    this.stopRealtime();
+    this.unsubscribeTabChanges?.();
+    this.unsubscribeTabChanges = null;
+
     this.sessionInitialized = false;
     console.log('🧹 SupabaseService cleaned up');
   }
@@ -481,9 +554,14 @@ export class SupabaseService {
 
   /**
    * Validate and get authenticated user ID
+   * In local-only mode every operation runs against the local owner instead
    * @returns User ID or throws error
    */
   private static async getAuthenticatedUserId(): Promise<string> {
+    if (SyncService.isLocalOnly()) {
+      return LOCAL_OWNER_ID;
+    }
+
     const userId = await AuthService.getUserId();
     if (!userId) {
       throw new Error('User not authenticated - operation requires authentication');
@@ -491,6 +569,357 @@ export class SupabaseService {
     return userId;
   }
 
+  // ===== SYNC REPLAY =====
+
+  /**
+   * Send one queued local change to Supabase. Called by SyncService in queue order;
+   * throwing leaves the operation queued for the next attempt. Upserts made against an
+   * older remote version than Supabase now has are not sent - they come back as conflicts.
+   * @param userId - Owner of the queue (the signed-in user)
+   * @param operation - Queued change
+   */
+  private static async replayOperation(userId: string, operation: SyncOperation): Promise<SyncReplayResult> {
+    const { entity, op, key, payload, baseVersion } = operation;
+    let succeeded = true;
+    let version: string | undefined;
+
+    switch (entity) {
+      case 'trade': {
+        if (op === 'delete') {
+          succeeded = await this.deleteTradeRemote(key);
+          break;
+        }
+        const conflicts = await this.findTradeConflicts(userId, [payload], baseVersion ? { [key]: baseVersion } : {});
+        if (conflicts.length > 0) return { conflicts };
+
+        succeeded = await this.saveTradeRemote(payload);
+        version = payload._updatedAt;
+        break;
+      }
+
+      case 'tradeBatch': {
+        const conflicts = await this.findTradeConflicts(userId, payload.trades, payload.baseVersions || {});
+        const conflicted = new Set(conflicts.map(conflict => conflict.key));
+        const trades = payload.trades.filter((trade: Trade) => !conflicted.has(trade.id));
+
+        if (trades.length > 0) {
+          succeeded = await this.bulkImportTradesRemote(trades, { conflictResolution: payload.conflictResolution });
+        }
+        if (succeeded) return { conflicts };
+        break;
+      }
+
+      case 'misc': {
+        if (op === 'delete') {
+          const { error } = await supabase.from('misc_data').delete().eq('user_id', userId).eq('key', key);
+          if (error) throw error;
+          break;
+        }
+
+        version = (await LocalStore.getMisc(userId, key))?.updated_at || new Date().toISOString();
+        if (baseVersion) {
+          const { data: remote, error: readError } = await supabase
+            .from('misc_data')
+            .select('value, updated_at')
+            .eq('user_id', userId)
+            .eq('key', key)
+            .maybeSingle();
+          if (readError) throw readError;
+
+          const conflict = remote && this.buildConflict('misc', key, key, payload, remote.value, remote.updated_at, baseVersion, version);
+          if (conflict) return { conflicts: [conflict] };
+        }
+
+        const { error } = await supabase.from('misc_data').upsert({
+          user_id: userId,
+          key,
+          value: payload,
+          updated_at: version
+        }, { onConflict: 'user_id,key' });
+        if (error) throw error;
+        break;
+      }
+
+      case 'portfolio': {
+        if (op === 'delete') {
+          const { error } = await supabase.from('portfolio_data').delete().eq('user_id', userId).eq('id', key);
+          if (error) throw error;
+          break;
+        }
+
+        version = payload.updated_at;
+        if (baseVersion) {
+          const { data: remote, error: readError } = await supabase
+            .from('portfolio_data')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('id', key)
+            .maybeSingle();
+          if (readError) throw readError;
+
+          const label = `${String(payload.type).replace(/_/g, ' ')} ${payload.date || [payload.month, payload.year].filter(Boolean).join(' ')}`;
+          const conflict = remote && this.buildConflict('portfolio', key, label, payload, remote, remote.updated_at, baseVersion, version);
+          if (conflict) return { conflicts: [conflict] };
+        }
+
+        const { error } = await supabase.from('portfolio_data').upsert({ ...payload, user_id: userId }, { onConflict: 'id' });
+        if (error) throw error;
+        break;
+      }
+
+      case 'chartBlob':
+        succeeded = op === 'delete' ? await this.deleteChartImageBlobRemote(key) : await this.saveChartImageBlobRemote(payload);
+        break;
+
+      case 'accountReassign':
+        succeeded = await this.reassignAccountDataRemote(payload.fromAccountId, payload.toAccountId);
+        break;
+    }
+
+    if (!succeeded) {
+      throw new Error(`Supabase rejected ${op} of ${entity} ${key}`);
+    }
+    return { version };
+  }
+
+  /**
+   * A conflict exists when Supabase holds a version other than the one the change was based on
+   * (and other than the change itself, in case an earlier attempt got through) with different field values
+   */
+  private static buildConflict(
+    entity: SyncConflict['entity'],
+    key: string,
+    label: string,
+    local: any,
+    remote: any,
+    remoteVersion: string,
+    baseVersion: string,
+    localVersion?: string
+  ): SyncConflict | null {
+    if (isSameVersion(remoteVersion, baseVersion) || isSameVersion(remoteVersion, localVersion)) return null;
+
+    const fields = diffRecordFields(local, remote);
+    if (fields.length === 0) return null;
+
+    return {
+      id: `${entity}:${key}`,
+      entity,
+      key,
+      label,
+      local,
+      remote,
+      remoteVersion,
+      fields,
+      detectedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Compare queued trades against their current Supabase rows
+   * @param baseVersions - Remote version each trade was edited from, by id (trades without one are new)
+   */
+  private static async findTradeConflicts(userId: string, trades: Trade[], baseVersions: Record<string, string>): Promise<SyncConflict[]> {
+    const checked = trades.filter(trade => baseVersions[trade.id]);
+    const conflicts: SyncConflict[] = [];
+
+    for (let i = 0; i < checked.length; i += this.CONFLICT_CHECK_BATCH) {
+      const chunk = checked.slice(i, i + this.CONFLICT_CHECK_BATCH);
+      const { data, error } = await supabase
+        .from('trades')
+        .select('*')
+        .eq('user_id', userId)
+        .in('id', chunk.map(trade => trade.id));
+      if (error) throw error;
+
+      const remoteById = new Map((data || []).map(row => [row.id, row]));
+      chunk.forEach(trade => {
+        const row = remoteById.get(trade.id);
+        if (!row) return;
+
+        const conflict = this.buildConflict(
+          'trade',
+          trade.id,
+          `Trade #${trade.tradeNo} ${trade.name || ''}`.trim(),
+          trade,
+          dbRowToTrade(row),
+          row.updated_at,
+          baseVersions[trade.id],
+          trade._updatedAt
+        );
+        if (conflict) conflicts.push(conflict);
+      });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Store the user's merge of a conflict locally and queue it against the remote version they merged with
+   */
+  private static async applyConflictResolution(userId: string, conflict: SyncConflict, merged: any): Promise<void> {
+    const baseVersion = conflict.remoteVersion;
+
+    switch (conflict.entity) {
+      case 'trade': {
+        const trade: Trade = { ...merged, _updatedAt: new Date().toISOString() };
+        await LocalStore.putTrades(userId, [trade]);
+        this.clearTradesCache(userId);
+        RealtimeService.publish({ entity: 'trade', op: 'upsert', key: trade.id, value: trade });
+        await SyncService.enqueue(userId, { entity: 'trade', key: trade.id, op: 'upsert', payload: trade, baseVersion });
+        break;
+      }
+
+      case 'misc':
+        await LocalStore.putMisc(userId, conflict.key, merged);
+        this.miscDataCache.delete(`${userId}_${conflict.key}`);
+        RealtimeService.publish({ entity: 'misc', op: 'upsert', key: conflict.key, value: merged });
+        await SyncService.enqueue(userId, { entity: 'misc', key: conflict.key, op: 'upsert', payload: merged, baseVersion });
+        break;
+
+      case 'portfolio': {
+        const row = { ...merged, updated_at: new Date().toISOString() };
+        await LocalStore.putPortfolioRows(userId, [row]);
+        this.portfolioCache.delete(`portfolio_${userId}`);
+        RealtimeService.publish({ entity: 'portfolio', op: 'upsert', key: row.id, value: row });
+        await SyncService.enqueue(userId, { entity: 'portfolio', key: row.id, op: 'upsert', payload: row, baseVersion });
+        break;
+      }
+    }
+  }
+
+  // ===== REALTIME =====
+
+  private static realtimeChannel: ReturnType<typeof supabase.channel> | null = null;
+  private static unsubscribeTabChanges: (() => void) | null = null;
+
+  /**
+   * Subscribe to row changes made on other devices. Needs realtime replication enabled
+   * for the trades, portfolio_data and misc_data tables in the Supabase project.
+   */
+  private static async startRealtime(): Promise<void> {
+    if (this.realtimeChannel || SyncService.isLocalOnly()) return;
+
+    const userId = await AuthService.getUserId();
+    if (!userId || this.realtimeChannel) return;
+
+    const filter = `user_id=eq.${userId}`;
+    this.realtimeChannel = supabase
+      .channel(`journal_${userId}`)
+      .on<RealtimeRow>('postgres_changes', { event: '*', schema: 'public', table: 'trades', filter }, payload => {
+        void this.applyRealtimeChange(userId, 'trades', payload);
+      })
+      .on<RealtimeRow>('postgres_changes', { event: '*', schema: 'public', table: 'portfolio_data', filter }, payload => {
+        void this.applyRealtimeChange(userId, 'portfolio_data', payload);
+      })
+      .on<RealtimeRow>('postgres_changes', { event: '*', schema: 'public', table: 'misc_data', filter }, payload => {
+        void this.applyRealtimeChange(userId, 'misc_data', payload);
+      })
+      .subscribe();
+
+    console.log('📡 Subscribed to realtime journal changes');
+  }
+
+  private static stopRealtime(): void {
+    if (!this.realtimeChannel) return;
+    void supabase.removeChannel(this.realtimeChannel);
+    this.realtimeChannel = null;
+  }
+
+  /**
+   * Mirror a remote row change into the local copy and announce it. Rows with local changes
+   * still queued are skipped (ours are newer, or the sync will report a conflict), as are
+   * echoes of our own writes, which already carry the local version.
+   */
+  private static async applyRealtimeChange(
+    userId: string,
+    table: 'trades' | 'portfolio_data' | 'misc_data',
+    payload: RealtimePostgresChangesPayload<RealtimeRow>
+  ): Promise<void> {
+    const isDelete = payload.eventType === 'DELETE';
+    const row: Partial<RealtimeRow> = isDelete ? payload.old : payload.new;
+    if (!row) return;
+
+    try {
+      switch (table) {
+        case 'trades': {
+          if ((await LocalStore.getPendingKeys(userId, 'trade')).has(row.id)) return;
+
+          if (isDelete) {
+            if (!(await LocalStore.getTrade(userId, row.id))) return;
+            await LocalStore.deleteTrade(userId, row.id);
+            this.removeTradeFromCache(row.id, userId);
+            RealtimeService.receiveRemote({ entity: 'trade', op: 'delete', key: row.id });
+            return;
+          }
+
+          const local = await LocalStore.getTrade(userId, row.id);
+          if (local && isSameVersion(local._updatedAt, row.updated_at)) return;
+
+          const trade = dbRowToTrade(row);
+          await LocalStore.putTrades(userId, [trade]);
+          this.updateTradeInCache(trade, userId);
+          RealtimeService.receiveRemote({ entity: 'trade', op: 'upsert', key: trade.id, value: trade });
+          return;
+        }
+
+        case 'portfolio_data': {
+          if ((await LocalStore.getPendingKeys(userId, 'portfolio')).has(row.id)) return;
+
+          const local = (await LocalStore.getPortfolioRows(userId)).find(existing => existing.id === row.id);
+          if (isDelete) {
+            if (!local) return;
+            await LocalStore.deletePortfolioRow(userId, row.id);
+          } else {
+            if (local && isSameVersion(local.updated_at, row.updated_at)) return;
+            await LocalStore.putPortfolioRows(userId, [row]);
+          }
+
+          this.portfolioCache.delete(`portfolio_${userId}`);
+          RealtimeService.receiveRemote({ entity: 'portfolio', op: isDelete ? 'delete' : 'upsert', key: row.id, value: isDelete ? undefined : row });
+          return;
+        }
+
+        case 'misc_data': {
+          // Deletes only carry the primary key unless the table has REPLICA IDENTITY FULL
+          if (!row.key || (await LocalStore.getPendingKeys(userId, 'misc')).has(row.key)) return;
+
+          if (isDelete) {
+            await LocalStore.deleteMisc(userId, row.key);
+          } else {
+            const local = await LocalStore.getMisc(userId, row.key);
+            if (local && isSameVersion(local.updated_at, row.updated_at)) return;
+            await LocalStore.putMisc(userId, row.key, row.value, row.updated_at);
+          }
+
+          this.miscDataCache.delete(`${userId}_${row.key}`);
+          RealtimeService.receiveRemote({ entity: 'misc', op: isDelete ? 'delete' : 'upsert', key: row.key, value: isDelete ? undefined : row.value });
+          return;
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to apply realtime change on ${table}:`, error);
+    }
+  }
+
+  /**
+   * Drop in-memory caches touched by a change another tab wrote to IndexedDB
+   */
+  private static forgetCachedChange(change: DataChange): void {
+    switch (change.entity) {
+      case 'trade':
+        this.clearTradesCache();
+        break;
+      case 'portfolio':
+        this.portfolioCache.clear();
+        break;
+      case 'misc':
+        Array.from(this.miscDataCache.keys())
+          .filter(cacheKey => change.op === 'reload' || cacheKey.endsWith(`_${change.key}`))
+          .forEach(cacheKey => this.miscDataCache.delete(cacheKey));
+        break;
+    }
+  }
+
   // ===== TRADE OPERATIONS =====
 
   /**
@@ -616,7 +1045,7 @@ export class SupabaseService {
             position_status, realised_amount, pl_rs, pf_impact, cumm_pf,
             plan_followed, exit_trigger, proficiency_growth_areas, sector, open_heat,
             notes, chart_attachments, user_edited_fields, cmp_auto_fetched, needs_recalculation,
-            created_at, updated_at
+            legs, instrument, account_id, corporate_actions, created_at, updated_at
           `)
           .eq('user_id', userId);
 
@@ -688,88 +1117,118 @@ export class SupabaseService {
     pageSize?: number;
     page?: number;
     maxResults?: number;
-  } = {}): Promise<{
-    trades: Trade[];
-    strategy: 'smart-single' | 'smart-paginated';
-    totalCount: number;
-    hasMore: boolean;
-    page: number;
-    pageSize: number;
-  }> {
+  } = {}): Promise<SmartLoadResult> {
     try {
       const userId = await this.getAuthenticatedUserId();
 
-      // Get total count first to determine strategy
-      const { count, error: countError } = await supabase
-        .from('trades')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+      if (SyncService.canReachRemote()) {
+        try {
+          const remote = await this.fetchTradesRemote(userId, options);
 
-      if (countError) throw countError;
+          if (remote.strategy === 'smart-paginated') {
+            // A single page can't tell us what was deleted - merge it and serve it as is
+            const pending = await LocalStore.getPendingKeys(userId, 'trade');
+            await LocalStore.putTrades(userId, remote.trades.filter(trade => !pending.has(trade.id)));
+            return remote;
+          }
 
-      const totalCount = count || 0;
+          await LocalStore.replaceTrades(userId, remote.trades, await LocalStore.getPendingKeys(userId, 'trade'));
+        } catch (error) {
+          console.warn('⚠️ Remote trade load failed, serving local copy:', error);
+        }
+      }
 
-      // SMART STRATEGY: Automatically determine optimal loading approach
-      if (totalCount <= 2000) {
-        // STRATEGY 1: Load all trades in a single request for small-medium datasets
-        console.log(`🧠 SMART loading: ${totalCount} trades detected, using SINGLE-LOAD strategy for optimal performance`);
+      const trades = await LocalStore.getTrades(userId);
+      return {
+        trades,
+        strategy: 'smart-single',
+        totalCount: trades.length,
+        hasMore: false,
+        page: 1,
+        pageSize: trades.length,
+      };
+    } catch (error) {
+      console.error('❌ Smart loading failed:', error);
+      return {
+        trades: [],
+        strategy: 'smart-single',
+        totalCount: 0,
+        hasMore: false,
+        page: 1,
+        pageSize: 0,
+      };
+    }
+  }
 
-        const { data, error } = await supabase
-          .from('trades')
-          .select('*')
-          .eq('user_id', userId)
-          .order('created_at', { ascending: false });
+  /**
+   * Load trades straight from Supabase, picking single-load or pagination by dataset size
+   * Throws on failure so callers never mistake an outage for an empty journal
+   */
+  private static async fetchTradesRemote(userId: string, options: {
+    pageSize?: number;
+    page?: number;
+    maxResults?: number;
+  }): Promise<SmartLoadResult> {
+    // Get total count first to determine strategy
+    const { count, error: countError } = await supabase
+      .from('trades')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId);
 
-        if (error) throw error;
+    if (countError) throw countError;
 
-        const trades = (data || []).map(dbRowToTrade);
+    const totalCount = count || 0;
 
-        return {
-          trades,
-          strategy: 'smart-single',
-          totalCount,
-          hasMore: false,
-          page: 1,
-          pageSize: totalCount,
-        };
-      } else {
-        // STRATEGY 2: Use intelligent pagination for large datasets
-        console.log(`🧠 SMART loading: ${totalCount} trades detected, using INTELLIGENT-PAGINATION strategy`);
-
-        // Calculate optimal page size based on dataset size
-        let optimalPageSize: number;
-        if (totalCount <= 5000) {
-          optimalPageSize = Math.min(1000, totalCount);
-        } else if (totalCount <= 10000) {
-          optimalPageSize = 1500;
-        } else {
-          optimalPageSize = 2000;
-        }
+    // SMART STRATEGY: Automatically determine optimal loading approach
+    if (totalCount <= 2000) {
+      // STRATEGY 1: Load all trades in a single request for small-medium datasets
+      console.log(`🧠 SMART loading: ${totalCount} trades detected, using SINGLE-LOAD strategy for optimal performance`);
 
-        const { pageSize = optimalPageSize, page = 1, maxResults = totalCount } = options;
-        const safePage = Math.max(1, page);
-        const safePageSize = Math.min(pageSize, maxResults);
+      const { data, error } = await supabase
+        .from('trades')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
 
-        const result = await this.getPaginatedTrades(safePage, safePageSize);
+      if (error) throw error;
+
+      const trades = (data || []).map(dbRowToTrade);
 
-        return {
-          trades: result.data,
-          strategy: 'smart-paginated',
-          totalCount: result.totalCount,
-          hasMore: result.hasMore,
-          page: result.page,
-          pageSize: result.pageSize,
-        };
-      }
-    } catch (error) {
-      console.error('❌ Smart loading failed:', error);
       return {
-        trades: [],
+        trades,
         strategy: 'smart-single',
-        totalCount: 0,
+        totalCount,
         hasMore: false,
         page: 1,
-        pageSize: 0,
+        pageSize: totalCount,
+      };
+    } else {
+      // STRATEGY 2: Use intelligent pagination for large datasets
+      console.log(`🧠 SMART loading: ${totalCount} trades detected, using INTELLIGENT-PAGINATION strategy`);
+
+      // Calculate optimal page size based on dataset size
+      let optimalPageSize: number;
+      if (totalCount <= 5000) {
+        optimalPageSize = Math.min(1000, totalCount);
+      } else if (totalCount <= 10000) {
+        optimalPageSize = 1500;
+      } else {
+        optimalPageSize = 2000;
+      }
+
+      const { pageSize = optimalPageSize, page = 1, maxResults = totalCount } = options;
+      const safePage = Math.max(1, page);
+      const safePageSize = Math.min(pageSize, maxResults);
+
+      const result = await this.getPaginatedTrades(safePage, safePageSize);
+
+      return {
+        trades: result.data,
+        strategy: 'smart-paginated',
+        totalCount: result.totalCount,
+        hasMore: result.hasMore,
+        page: result.page,
+        pageSize: result.pageSize,
       };
     }
   }
@@ -789,6 +1248,11 @@ export class SupabaseService {
       const userId = await this.getAuthenticatedUserId();
       const lockKey = `trade_get_${userId}_${id}`;
 
+      const local = await LocalStore.getTrade(userId, id);
+      if (local || !SyncService.canReachRemote()) {
+        return local;
+      }
+
       return await this.executeWithLock(lockKey, async () => {
         const { data, error } = await supabase
           .from('trades')
@@ -805,7 +1269,11 @@ export class SupabaseService {
           throw error;
         }
 
-        return data ? dbRowToTrade(data) : null;
+        const trade = data ? dbRowToTrade(data) : null;
+        if (trade) {
+          await LocalStore.putTrades(userId, [trade]);
+        }
+        return trade;
       });
     } catch (error) {
       console.error('❌ Failed to get trade:', error);
@@ -848,11 +1316,63 @@ export class SupabaseService {
   }
 
   /**
-   * Save a single trade with atomic operation and retry logic
+   * Save a single trade locally and queue it for Supabase
    * @param trade - Trade object to save
    * @returns Success status
    */
   static async saveTrade(trade: Trade): Promise<boolean> {
+    try {
+      if (!trade) {
+        throw new Error('Trade object is required');
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+
+      if (!trade.tradeNo) {
+        trade.tradeNo = await this.generateLocalTradeNumber(userId);
+      }
+
+      // Reject invalid trades now rather than letting them stall the sync queue
+      const isNewTrade = !trade.id || !isValidUUID(trade.id);
+      const dbValidation = this.validateTradeData(tradeToDbRow(trade, userId), isNewTrade ? 'insert' : 'update');
+      if (!dbValidation.isValid) {
+        throw new Error(`Database validation failed: ${dbValidation.errors.join(', ')}`);
+      }
+
+      // Version the caller edited - if another device saved after it, the replay reports a conflict
+      const baseVersion = trade._updatedAt ?? (await LocalStore.getTrade(userId, trade.id))?._updatedAt;
+      trade._updatedAt = new Date().toISOString();
+
+      await LocalStore.putTrades(userId, [trade]);
+      this.updateTradeInCache(trade, userId);
+      RealtimeService.publish({ entity: 'trade', op: 'upsert', key: trade.id, value: trade });
+      await SyncService.enqueue(userId, { entity: 'trade', key: trade.id, op: 'upsert', payload: trade, baseVersion });
+
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to save trade ${trade?.name || 'Unknown'}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Next trade number from the local copy (Supabase renumbers on conflict when the trade syncs)
+   */
+  private static async generateLocalTradeNumber(userId: string): Promise<string> {
+    const trades = await LocalStore.getTrades(userId);
+    const highestNumber = trades.reduce((max, trade) => {
+      const parsed = parseInt(trade.tradeNo);
+      return !isNaN(parsed) && parsed > max ? parsed : max;
+    }, 0);
+    return (highestNumber + 1).toString();
+  }
+
+  /**
+   * Save a single trade with atomic operation and retry logic
+   * @param trade - Trade object to save
+   * @returns Success status
+   */
+  private static async saveTradeRemote(trade: Trade): Promise<boolean> {
     try {
       if (!trade) {
         throw new Error('Trade object is required');
@@ -1118,6 +1638,82 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Bulk import trades into the local store and queue them as one batch
+   * The batch is replayed through the atomic Supabase import, so it still lands all-or-nothing
+   * @param trades - Array of trades to import
+   * @param options - Import options including conflict resolution strategy
+   * @returns Success status
+   */
+  static async bulkImportTrades(
+    trades: Trade[],
+    options: {
+      validateOnly?: boolean;
+      onProgress?: (progress: { completed: number; total: number; percentage: number }) => void;
+      conflictResolution?: 'skip' | 'renumber' | 'update';
+    } = {}
+  ): Promise<boolean> {
+    const { validateOnly = false, onProgress, conflictResolution = 'renumber' } = options;
+
+    try {
+      if (!Array.isArray(trades) || trades.length === 0) {
+        console.log('ℹ️ No trades to import');
+        return true;
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+
+      const validation = validateTradesBatch(trades);
+      if (validation.invalidTrades.length > 0) {
+        const errorMessages = validation.invalidTrades.map(invalid =>
+          `${invalid.trade.name || 'Unnamed'}: ${invalid.errors.join(', ')}`
+        );
+        const errorDetails = errorMessages.slice(0, 5).join('; ');
+        const remainingErrors = errorMessages.length > 5 ? ` and ${errorMessages.length - 5} more...` : '';
+        throw new Error(`Bulk validation failed (${validation.invalidTrades.length} invalid trades): ${errorDetails}${remainingErrors}`);
+      }
+
+      if (validateOnly) {
+        console.log(`✅ Validation passed - ${validation.validTrades.length} trades ready for import (validateOnly mode)`);
+        return true;
+      }
+
+      // Re-imports of existing trades get the same stale-copy protection as single saves
+      const localTrades = new Map((await LocalStore.getTrades(userId)).map(trade => [trade.id, trade]));
+      const baseVersions: Record<string, string> = {};
+      const stamp = new Date().toISOString();
+      const importedTrades = validation.validTrades.map(trade => {
+        const baseVersion = trade._updatedAt ?? localTrades.get(trade.id)?._updatedAt;
+        if (baseVersion) baseVersions[trade.id] = baseVersion;
+        return { ...trade, _updatedAt: stamp };
+      });
+
+      await LocalStore.putTrades(userId, importedTrades);
+      onProgress?.({
+        completed: importedTrades.length,
+        total: importedTrades.length,
+        percentage: 100
+      });
+
+      this.clearTradesCache(userId);
+      this.invalidateRelatedCaches(userId);
+      RealtimeService.publish({ entity: 'trade', op: 'reload', key: '*' });
+
+      await SyncService.enqueue(userId, {
+        entity: 'tradeBatch',
+        key: uuidv4(),
+        op: 'upsert',
+        payload: { trades: importedTrades, conflictResolution, baseVersions }
+      });
+
+      console.log(`✅ Imported ${importedTrades.length} trades locally`);
+      return true;
+    } catch (error) {
+      console.error('❌ Bulk import failed:', error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
   /**
    * Bulk import trades with PRODUCTION-READY ATOMIC transaction safety
    * Uses corrected PostgreSQL stored procedure with set-based operations for optimal performance
@@ -1131,7 +1727,7 @@ export class SupabaseService {
    * @param options - Import options including conflict resolution strategy
    * @returns Success status (throws error if any trade fails)
    */
-  static async bulkImportTrades(
+  private static async bulkImportTradesRemote(
     trades: Trade[],
     options: {
       validateOnly?: boolean;
@@ -1276,11 +1872,64 @@ export class SupabaseService {
   }
 
   /**
-   * Delete a trade with proper cleanup
+   * Delete a trade and its chart images locally and queue the delete
    * @param id - Trade ID to delete
    * @returns Success status
    */
   static async deleteTrade(id: string): Promise<boolean> {
+    try {
+      if (!id || !isValidUUID(id)) {
+        throw new Error('Valid trade ID is required for deletion');
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+
+      await LocalStore.deleteTrade(userId, id);
+      this.removeTradeFromCache(id, userId);
+      RealtimeService.publish({ entity: 'trade', op: 'delete', key: id });
+      await SyncService.enqueue(userId, { entity: 'trade', key: id, op: 'delete' });
+
+      console.log(`🗑️ Deleted trade: ${id}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to delete trade:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete several trades locally in one pass; each delete is queued for Supabase
+   * @param ids - Trade IDs to delete
+   * @returns Success status
+   */
+  static async deleteTrades(ids: string[]): Promise<boolean> {
+    try {
+      const validIds = ids.filter(id => id && isValidUUID(id));
+      if (validIds.length === 0) return true;
+
+      const userId = await this.getAuthenticatedUserId();
+
+      for (const id of validIds) {
+        await LocalStore.deleteTrade(userId, id);
+        this.removeTradeFromCache(id, userId);
+        await SyncService.enqueue(userId, { entity: 'trade', key: id, op: 'delete' });
+      }
+      RealtimeService.publish({ entity: 'trade', op: 'reload', key: '*' });
+
+      console.log(`🗑️ Deleted ${validIds.length} trades`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to delete trades:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a trade with proper cleanup
+   * @param id - Trade ID to delete
+   * @returns Success status
+   */
+  private static async deleteTradeRemote(id: string): Promise<boolean> {
     try {
       if (!id || !isValidUUID(id)) {
         throw new Error('Valid trade ID is required for deletion');
@@ -1304,7 +1953,7 @@ export class SupabaseService {
           this.removeTradeFromCache(id, userId);
 
           // Clean up related data (chart images, etc.)
-          await this.deleteTradeChartImageBlobs(id);
+          await this.deleteTradeChartImageBlobsRemote(id);
 
           console.log(`🗑️ Deleted trade: ${id}`);
           return true;
@@ -1777,6 +2426,10 @@ export class SupabaseService {
    */
   static async getUserPreferences(): Promise<any | null> {
     try {
+      if (SyncService.isLocalOnly()) {
+        return (await LocalStore.getMisc(LOCAL_OWNER_ID, LOCAL_PREFERENCES_KEY))?.value ?? null;
+      }
+
       const userId = await this.getAuthenticatedUserId();
       const cacheKey = `preferences_${userId}`;
       const lockKey = `preferences_get_${userId}`;
@@ -1829,6 +2482,12 @@ export class SupabaseService {
         throw new Error('Preferences object is required');
       }
 
+      if (SyncService.isLocalOnly()) {
+        const existing = await this.getUserPreferences() || {};
+        await LocalStore.putMisc(LOCAL_OWNER_ID, LOCAL_PREFERENCES_KEY, { ...existing, ...preferences });
+        return true;
+      }
+
       const userId = await this.getAuthenticatedUserId();
       const lockKey = `preferences_save_${userId}`;
 
@@ -1875,6 +2534,60 @@ export class SupabaseService {
 
   // ===== PORTFOLIO DATA =====
 
+  /**
+   * Read portfolio_data rows of one type (every type when omitted)
+   * The local copy is refreshed from Supabase first whenever it is reachable
+   */
+  private static async readPortfolioRows(userId: string, type?: string): Promise<any[]> {
+    if (SyncService.canReachRemote()) {
+      try {
+        let query = supabase
+          .from('portfolio_data')
+          .select('*')
+          .eq('user_id', userId);
+        if (type) query = query.eq('type', type);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        const pending = await LocalStore.getPendingKeys(userId, 'portfolio');
+        await LocalStore.replacePortfolioRows(userId, type || null, data || [], pending);
+      } catch (error) {
+        console.warn(`⚠️ Remote ${type || 'portfolio'} load failed, serving local copy:`, error);
+      }
+    }
+
+    return LocalStore.getPortfolioRows(userId, type);
+  }
+
+  /**
+   * Write portfolio_data rows locally and queue each one for upsert.
+   * Rows identical to the local copy are skipped so saving a whole list only
+   * sends (and can only conflict on) the entries that actually changed.
+   */
+  private static async writePortfolioRows(userId: string, rows: any[]): Promise<void> {
+    const existing = new Map((await LocalStore.getPortfolioRows(userId)).map(row => [row.id, row]));
+    const changed = rows.filter(row => !existing.has(row.id) || diffRecordFields(row, existing.get(row.id)).length > 0);
+
+    await LocalStore.putPortfolioRows(userId, changed);
+    for (const row of changed) {
+      RealtimeService.publish({ entity: 'portfolio', op: 'upsert', key: row.id, value: row });
+      await SyncService.enqueue(userId, {
+        entity: 'portfolio',
+        key: row.id,
+        op: 'upsert',
+        payload: row,
+        baseVersion: existing.get(row.id)?.updated_at
+      });
+    }
+  }
+
+  private static async removePortfolioRow(userId: string, id: string): Promise<void> {
+    await LocalStore.deletePortfolioRow(userId, id);
+    RealtimeService.publish({ entity: 'portfolio', op: 'delete', key: id });
+    await SyncService.enqueue(userId, { entity: 'portfolio', key: id, op: 'delete' });
+  }
+
   /**
    * Get portfolio data with atomic operations
    * @returns Portfolio data array
@@ -1894,16 +2607,8 @@ export class SupabaseService {
           return cached.data;
         }
 
-        // Load from database
-        const { data, error } = await supabase
-          .from('portfolio_data')
-          .select('*')
-          .eq('user_id', userId)
-          .order('created_at', { ascending: true });
-
-        if (error) throw error;
-
-        const portfolioData = data || [];
+        const portfolioData = (await this.readPortfolioRows(userId))
+          .sort((a, b) => String(a.created_at || a.updated_at).localeCompare(String(b.created_at || b.updated_at)));
 
         // Update cache
         this.portfolioCache.set(cacheKey, {
@@ -1921,7 +2626,7 @@ export class SupabaseService {
   }
 
   /**
-   * Save portfolio data with atomic UPSERT operations (no DELETE+INSERT)
+   * Save portfolio data rows (upserted by id)
    * @param data - Portfolio data array to save
    * @returns Success status
    */
@@ -1932,41 +2637,22 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `portfolio_save_${userId}`;
-
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          // Prepare data with user ID and ensure IDs exist
-          const dataWithUserId = data.map(item => ({
-            ...item,
-            id: item.id || uuidv4(),
-            user_id: userId,
-            // Ensure amount is never null/undefined for database constraint
-            amount: item.amount !== null && item.amount !== undefined ? Number(item.amount) : 0,
-            updated_at: new Date().toISOString()
-          }));
-
-          // Use atomic UPSERT instead of DELETE+INSERT
-          const { error } = await supabase
-            .from('portfolio_data')
-            .upsert(dataWithUserId, {
-              onConflict: 'id'
-            });
 
-          if (error) throw error;
+      // Prepare data with user ID and ensure IDs exist
+      const dataWithUserId = data.map(item => ({
+        ...item,
+        id: item.id || uuidv4(),
+        user_id: userId,
+        // Ensure amount is never null/undefined for database constraint
+        amount: item.amount !== null && item.amount !== undefined ? Number(item.amount) : 0,
+        updated_at: new Date().toISOString()
+      }));
 
-          // Update cache
-          const cacheKey = `portfolio_${userId}`;
-          this.portfolioCache.set(cacheKey, {
-            data: dataWithUserId,
-            timestamp: Date.now(),
-            userId
-          });
+      await this.writePortfolioRows(userId, dataWithUserId);
+      this.portfolioCache.delete(`portfolio_${userId}`);
 
-          console.log(`✅ Saved ${data.length} portfolio data items`);
-          return true;
-        });
-      });
+      console.log(`✅ Saved ${data.length} portfolio data items`);
+      return true;
     } catch (error) {
       console.error('❌ Failed to save portfolio data:', error);
       return false;
@@ -1980,24 +2666,28 @@ export class SupabaseService {
   static async getYearlyStartingCapitals(): Promise<any[]> {
     try {
       const userId = await this.getAuthenticatedUserId();
-
-      const { data, error } = await supabase
-        .from('portfolio_data')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('type', 'yearly_capital')
-        .order('year', { ascending: true });
-
-      if (error) throw error;
-      return data || [];
+      const rows = await this.readPortfolioRows(userId, 'yearly_capital');
+      return rows.sort((a, b) => a.year - b.year);
     } catch (error) {
       console.error('❌ Failed to get yearly starting capitals:', error);
       return [];
     }
   }
 
+  private static toYearlyCapitalRow(capital: any, userId: string): any {
+    return {
+      id: capital.id || uuidv4(),
+      user_id: userId,
+      type: 'yearly_capital',
+      year: capital.year,
+      amount: capital.startingCapital || capital.amount,
+      account_id: toDbAccountId(capital.accountId),
+      updated_at: new Date().toISOString()
+    };
+  }
+
   /**
-   * Save yearly starting capitals with atomic operations
+   * Save yearly starting capitals
    * @param capitals - Yearly capitals array
    * @returns Success status
    */
@@ -2008,33 +2698,10 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `yearly_capitals_save_${userId}`;
-
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          // Prepare data for atomic upsert
-          const upsertData = capitals.map(capital => ({
-            id: capital.id || uuidv4(),
-            user_id: userId,
-            type: 'yearly_capital',
-            year: capital.year,
-            amount: capital.startingCapital || capital.amount,
-            updated_at: new Date().toISOString()
-          }));
-
-          // Atomic upsert operation
-          const { error } = await supabase
-            .from('portfolio_data')
-            .upsert(upsertData, {
-              onConflict: 'id'
-            });
-
-          if (error) throw error;
+      await this.writePortfolioRows(userId, capitals.map(capital => this.toYearlyCapitalRow(capital, userId)));
 
-          console.log(`✅ Saved ${capitals.length} yearly starting capitals`);
-          return true;
-        });
-      });
+      console.log(`✅ Saved ${capitals.length} yearly starting capitals`);
+      return true;
     } catch (error) {
       console.error('❌ Failed to save yearly starting capitals:', error);
       return false;
@@ -2042,30 +2709,13 @@ export class SupabaseService {
   }
 
   /**
-   * ATOMIC OPERATIONS for Yearly Starting Capitals
-   */
-
-  /**
-   * Save a single yearly starting capital atomically
+   * Save a single yearly starting capital
    */
   static async saveYearlyStartingCapital(capital: any): Promise<boolean> {
     try {
       const userId = await this.getAuthenticatedUserId();
+      await this.writePortfolioRows(userId, [this.toYearlyCapitalRow(capital, userId)]);
 
-      const { error } = await supabase
-        .from('portfolio_data')
-        .upsert({
-          id: capital.id || uuidv4(),
-          user_id: userId,
-          type: 'yearly_capital',
-          year: capital.year,
-          amount: capital.startingCapital || capital.amount,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'id'
-        });
-
-      if (error) throw error;
       console.log(`✅ Saved yearly starting capital for ${capital.year}`);
       return true;
     } catch (error) {
@@ -2081,24 +2731,30 @@ export class SupabaseService {
   static async getCapitalChanges(): Promise<any[]> {
     try {
       const userId = await this.getAuthenticatedUserId();
-
-      const { data, error } = await supabase
-        .from('portfolio_data')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('type', 'capital_change')
-        .order('date', { ascending: true });
-
-      if (error) throw error;
-      return data || [];
+      const rows = await this.readPortfolioRows(userId, 'capital_change');
+      return rows.sort((a, b) => String(a.date).localeCompare(String(b.date)));
     } catch (error) {
       console.error('❌ Failed to get capital changes:', error);
       return [];
     }
   }
 
+  private static toCapitalChangeRow(change: any, userId: string): any {
+    return {
+      id: change.id || uuidv4(),
+      user_id: userId,
+      type: 'capital_change',
+      date: change.date,
+      // Ensure amount is never null/undefined for database constraint
+      amount: change.amount !== null && change.amount !== undefined ? Number(change.amount) : 0,
+      description: change.description || change.type || '',
+      account_id: toDbAccountId(change.accountId),
+      updated_at: new Date().toISOString()
+    };
+  }
+
   /**
-   * Save capital changes with atomic operations
+   * Save capital changes
    * @param changes - Capital changes array
    * @returns Success status
    */
@@ -2109,35 +2765,10 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `capital_changes_save_${userId}`;
-
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          // Prepare data for atomic upsert
-          const upsertData = changes.map(change => ({
-            id: change.id || uuidv4(),
-            user_id: userId,
-            type: 'capital_change',
-            date: change.date,
-            // Ensure amount is never null/undefined for database constraint
-            amount: change.amount !== null && change.amount !== undefined ? Number(change.amount) : 0,
-            description: change.description || change.type || '',
-            updated_at: new Date().toISOString()
-          }));
+      await this.writePortfolioRows(userId, changes.map(change => this.toCapitalChangeRow(change, userId)));
 
-          // Atomic upsert operation
-          const { error } = await supabase
-            .from('portfolio_data')
-            .upsert(upsertData, {
-              onConflict: 'id'
-            });
-
-          if (error) throw error;
-
-          console.log(`✅ Saved ${changes.length} capital changes`);
-          return true;
-        });
-      });
+      console.log(`✅ Saved ${changes.length} capital changes`);
+      return true;
     } catch (error) {
       console.error('❌ Failed to save capital changes:', error);
       return false;
@@ -2145,30 +2776,18 @@ export class SupabaseService {
   }
 
   /**
-   * ATOMIC OPERATIONS for Capital Changes
-   * These methods perform single-item operations to prevent race conditions
+   * Single-item operations for Capital Changes
+   * These avoid rewriting the whole list and the races that come with it
    */
 
   /**
-   * Add a single capital change atomically
+   * Add a single capital change
    */
   static async addCapitalChange(change: any): Promise<boolean> {
     try {
       const userId = await this.getAuthenticatedUserId();
+      await this.writePortfolioRows(userId, [this.toCapitalChangeRow(change, userId)]);
 
-      const { error } = await supabase
-        .from('portfolio_data')
-        .insert({
-          id: change.id || uuidv4(),
-          user_id: userId,
-          type: 'capital_change',
-          date: change.date,
-          amount: change.amount !== null && change.amount !== undefined ? Number(change.amount) : 0,
-          description: change.description || change.type || '',
-          updated_at: new Date().toISOString()
-        });
-
-      if (error) throw error;
       console.log(`✅ Added capital change: ${change.id}`);
       return true;
     } catch (error) {
@@ -2178,25 +2797,17 @@ export class SupabaseService {
   }
 
   /**
-   * Update a single capital change atomically
+   * Update a single capital change
    */
   static async updateCapitalChange(change: any): Promise<boolean> {
     try {
-      const userId = await this.getAuthenticatedUserId();
+      if (!change?.id) {
+        throw new Error('Capital change ID is required');
+      }
 
-      const { error } = await supabase
-        .from('portfolio_data')
-        .update({
-          date: change.date,
-          amount: change.amount !== null && change.amount !== undefined ? Number(change.amount) : 0,
-          description: change.description || change.type || '',
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', userId)
-        .eq('type', 'capital_change')
-        .eq('id', change.id);
+      const userId = await this.getAuthenticatedUserId();
+      await this.writePortfolioRows(userId, [this.toCapitalChangeRow(change, userId)]);
 
-      if (error) throw error;
       console.log(`✅ Updated capital change: ${change.id}`);
       return true;
     } catch (error) {
@@ -2206,20 +2817,13 @@ export class SupabaseService {
   }
 
   /**
-   * Delete a single capital change atomically
+   * Delete a single capital change
    */
   static async deleteCapitalChange(id: string): Promise<boolean> {
     try {
       const userId = await this.getAuthenticatedUserId();
+      await this.removePortfolioRow(userId, id);
 
-      const { error } = await supabase
-        .from('portfolio_data')
-        .delete()
-        .eq('user_id', userId)
-        .eq('type', 'capital_change')
-        .eq('id', id);
-
-      if (error) throw error;
       console.log(`✅ Deleted capital change: ${id}`);
       return true;
     } catch (error) {
@@ -2235,25 +2839,32 @@ export class SupabaseService {
   static async getMonthlyStartingCapitalOverrides(): Promise<any[]> {
     try {
       const userId = await this.getAuthenticatedUserId();
-
-      const { data, error } = await supabase
-        .from('portfolio_data')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('type', 'monthly_override')
-        .order('year', { ascending: true })
-        .order('month', { ascending: true });
-
-      if (error) throw error;
-      return data || [];
+      const rows = await this.readPortfolioRows(userId, 'monthly_override');
+      return rows.sort((a, b) => a.year - b.year || String(a.month).localeCompare(String(b.month)));
     } catch (error) {
       console.error('❌ Failed to get monthly overrides:', error);
       return [];
     }
   }
 
+  private static toMonthlyOverrideRow(override: any, userId: string): any {
+    // Ensure amount is never null/undefined - use 0 as default
+    const amount = override.startingCapital ?? override.amount ?? 0;
+
+    return {
+      id: override.id || uuidv4(),
+      user_id: userId,
+      type: 'monthly_override',
+      year: override.year,
+      month: override.month,
+      amount: Number(amount), // Ensure it's a number
+      account_id: toDbAccountId(override.accountId),
+      updated_at: new Date().toISOString()
+    };
+  }
+
   /**
-   * Save monthly starting capital overrides with atomic operations
+   * Save monthly starting capital overrides
    * @param overrides - Monthly overrides array
    * @returns Success status
    */
@@ -2276,39 +2887,10 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `monthly_overrides_save_${userId}`;
-
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          // Prepare data for atomic upsert
-          const upsertData = overrides.map(override => {
-            // Ensure amount is never null/undefined - use 0 as default
-            const amount = override.startingCapital ?? override.amount ?? 0;
-
-            return {
-              id: override.id || uuidv4(),
-              user_id: userId,
-              type: 'monthly_override',
-              year: override.year,
-              month: override.month,
-              amount: Number(amount), // Ensure it's a number
-              updated_at: new Date().toISOString()
-            };
-          });
-
-          // Atomic upsert operation
-          const { error } = await supabase
-            .from('portfolio_data')
-            .upsert(upsertData, {
-              onConflict: 'id'
-            });
-
-          if (error) throw error;
+      await this.writePortfolioRows(userId, overrides.map(override => this.toMonthlyOverrideRow(override, userId)));
 
-          console.log(`✅ Saved ${overrides.length} monthly overrides`);
-          return true;
-        });
-      });
+      console.log(`✅ Saved ${overrides.length} monthly overrides`);
+      return true;
     } catch (error) {
       console.error('❌ Failed to save monthly overrides:', error);
       return false;
@@ -2316,32 +2898,17 @@ export class SupabaseService {
   }
 
   /**
-   * ATOMIC OPERATIONS for Monthly Starting Capital Overrides
+   * Single-item operations for Monthly Starting Capital Overrides
    */
 
   /**
-   * Save a single monthly starting capital override atomically
+   * Save a single monthly starting capital override
    */
   static async saveMonthlyStartingCapitalOverride(override: any): Promise<boolean> {
     try {
       const userId = await this.getAuthenticatedUserId();
-      const amount = override.startingCapital ?? override.amount ?? 0;
-
-      const { error } = await supabase
-        .from('portfolio_data')
-        .upsert({
-          id: override.id || uuidv4(),
-          user_id: userId,
-          type: 'monthly_override',
-          year: override.year,
-          month: override.month,
-          amount: Number(amount),
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'id'
-        });
+      await this.writePortfolioRows(userId, [this.toMonthlyOverrideRow(override, userId)]);
 
-      if (error) throw error;
       console.log(`✅ Saved monthly override for ${override.month} ${override.year}`);
       return true;
     } catch (error) {
@@ -2351,20 +2918,13 @@ export class SupabaseService {
   }
 
   /**
-   * Delete a single monthly starting capital override atomically
+   * Delete a single monthly starting capital override
    */
   static async deleteMonthlyStartingCapitalOverride(id: string): Promise<boolean> {
     try {
       const userId = await this.getAuthenticatedUserId();
+      await this.removePortfolioRow(userId, id);
 
-      const { error } = await supabase
-        .from('portfolio_data')
-        .delete()
-        .eq('user_id', userId)
-        .eq('type', 'monthly_override')
-        .eq('id', id);
-
-      if (error) throw error;
       console.log(`✅ Deleted monthly override: ${id}`);
       return true;
     } catch (error) {
@@ -2374,34 +2934,93 @@ export class SupabaseService {
   }
 
   /**
-   * DEPRECATED: saveAllTrades is permanently disabled for data safety
-   * Use saveTrade() for individual trades or bulkImportTrades() for imports
+   * Move every trade and capital row of one broker account to another
+   * Used when an account is removed so its history is not orphaned
    */
-  static async saveAllTrades(trades: Trade[], confirmDestruction: boolean = false): Promise<boolean> {
-    console.error('❌ SECURITY BLOCK: saveAllTrades is permanently disabled for safety');
-    console.error('❌ Use SupabaseService.saveTrade() for individual trades');
-    console.error('❌ Use SupabaseService.bulkImportTrades() for importing new trades');
-    throw new Error('saveAllTrades is permanently disabled - use safe alternatives instead');
-  }
+  static async reassignAccountData(fromAccountId: string, toAccountId: string): Promise<boolean> {
+    try {
+      const userId = await this.getAuthenticatedUserId();
+      const from = toDbAccountId(fromAccountId);
+      const to = toDbAccountId(toAccountId);
+      if (from === to) return true;
+
+      const trades = (await LocalStore.getTrades(userId))
+        .filter(trade => toDbAccountId(trade.accountId) === from)
+        .map(trade => ({ ...trade, accountId: to || undefined }));
+      const rows = (await LocalStore.getPortfolioRows(userId))
+        .filter(row => (row.account_id ?? null) === from)
+        .map(row => ({ ...row, account_id: to }));
+
+      await LocalStore.putTrades(userId, trades);
+      await LocalStore.putPortfolioRows(userId, rows);
+      RealtimeService.publish({ entity: 'trade', op: 'reload', key: '*' });
+      RealtimeService.publish({ entity: 'portfolio', op: 'reload', key: '*' });
+      await SyncService.enqueue(userId, {
+        entity: 'accountReassign',
+        key: `${fromAccountId}:${toAccountId}`,
+        op: 'upsert',
+        payload: { fromAccountId, toAccountId }
+      });
 
-  /**
-   * Get monthly portfolio sizes
+      this.clearTradesCache(userId);
+      this.portfolioCache.delete(`portfolio_${userId}`);
+      console.log(`✅ Reassigned account data: ${fromAccountId} → ${toAccountId}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to reassign account data:', error);
+      return false;
+    }
+  }
+
+  private static async reassignAccountDataRemote(fromAccountId: string, toAccountId: string): Promise<boolean> {
+    try {
+      const userId = await this.getAuthenticatedUserId();
+      const from = toDbAccountId(fromAccountId);
+      const to = toDbAccountId(toAccountId);
+      if (from === to) return true;
+
+      return await this.executeWithRetry(async () => {
+        for (const table of ['trades', 'portfolio_data'] as const) {
+          let query = supabase
+            .from(table)
+            .update({ account_id: to })
+            .eq('user_id', userId);
+          query = from === null ? query.is('account_id', null) : query.eq('account_id', from);
+
+          const { error } = await query;
+          if (error) throw error;
+        }
+
+        this.clearTradesCache(userId);
+        console.log(`✅ Reassigned account data: ${fromAccountId} → ${toAccountId}`);
+        return true;
+      });
+    } catch (error) {
+      console.error('❌ Failed to reassign account data:', error);
+      return false;
+    }
+  }
+
+  /**
+   * DEPRECATED: saveAllTrades is permanently disabled for data safety
+   * Use saveTrade() for individual trades or bulkImportTrades() for imports (both are version-checked on sync)
+   */
+  static async saveAllTrades(trades: Trade[], confirmDestruction: boolean = false): Promise<boolean> {
+    console.error('❌ SECURITY BLOCK: saveAllTrades is permanently disabled for safety');
+    console.error('❌ Use SupabaseService.saveTrade() for individual trades');
+    console.error('❌ Use SupabaseService.bulkImportTrades() for importing new trades');
+    throw new Error('saveAllTrades is permanently disabled - use safe alternatives instead');
+  }
+
+  /**
+   * Get monthly portfolio sizes
    * @returns Monthly portfolio sizes array
    */
   static async getMonthlyPortfolioSizes(): Promise<any[]> {
     try {
       const userId = await this.getAuthenticatedUserId();
-
-      const { data, error } = await supabase
-        .from('portfolio_data')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('type', 'monthly_size')
-        .order('year', { ascending: true })
-        .order('month', { ascending: true });
-
-      if (error) throw error;
-      return data || [];
+      const rows = await this.readPortfolioRows(userId, 'monthly_size');
+      return rows.sort((a, b) => a.year - b.year || String(a.month).localeCompare(String(b.month)));
     } catch (error) {
       console.error('❌ Failed to get monthly portfolio sizes:', error);
       return [];
@@ -2409,7 +3028,7 @@ export class SupabaseService {
   }
 
   /**
-   * Save monthly portfolio sizes with atomic operations
+   * Save monthly portfolio sizes
    * @param sizes - Monthly portfolio sizes array
    * @returns Success status
    */
@@ -2420,34 +3039,18 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `monthly_sizes_save_${userId}`;
-
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          // Prepare data for atomic upsert
-          const upsertData = sizes.map(size => ({
-            id: size.id || uuidv4(),
-            user_id: userId,
-            type: 'monthly_size',
-            year: size.year,
-            month: size.month,
-            amount: size.size || size.amount,
-            updated_at: size.updatedAt || new Date().toISOString()
-          }));
-
-          // Use atomic UPSERT instead of DELETE+INSERT
-          const { error } = await supabase
-            .from('portfolio_data')
-            .upsert(upsertData, {
-              onConflict: 'id'
-            });
-
-          if (error) throw error;
-
-          console.log(`✅ Saved ${sizes.length} monthly portfolio sizes`);
-          return true;
-        });
-      });
+      await this.writePortfolioRows(userId, sizes.map(size => ({
+        id: size.id || uuidv4(),
+        user_id: userId,
+        type: 'monthly_size',
+        year: size.year,
+        month: size.month,
+        amount: size.size || size.amount,
+        updated_at: size.updatedAt || new Date().toISOString()
+      })));
+
+      console.log(`✅ Saved ${sizes.length} monthly portfolio sizes`);
+      return true;
     } catch (error) {
       console.error('❌ Failed to save monthly portfolio sizes:', error);
       return false;
@@ -2462,6 +3065,10 @@ export class SupabaseService {
    */
   static async getTradeSettings(): Promise<any | null> {
     try {
+      if (SyncService.isLocalOnly()) {
+        return (await LocalStore.getMisc(LOCAL_OWNER_ID, LOCAL_TRADE_SETTINGS_KEY))?.value ?? null;
+      }
+
       const userId = await this.getAuthenticatedUserId();
 
       const { data, error } = await supabase
@@ -2492,6 +3099,11 @@ export class SupabaseService {
         throw new Error('Settings object is required');
       }
 
+      if (SyncService.isLocalOnly()) {
+        await LocalStore.putMisc(LOCAL_OWNER_ID, LOCAL_TRADE_SETTINGS_KEY, settings);
+        return true;
+      }
+
       const userId = await this.getAuthenticatedUserId();
       const lockKey = `trade_settings_save_${userId}`;
 
@@ -2614,17 +3226,30 @@ export class SupabaseService {
           return cached.data;
         }
 
-        // Load from database
-        const { data, error } = await supabase
-          .from('misc_data')
-          .select('value')
-          .eq('user_id', userId)
-          .eq('key', key)
-          .maybeSingle();
+        let result = (await LocalStore.getMisc(userId, key))?.value ?? null;
 
-        if (error) throw error;
+        // Refresh from Supabase unless our copy has changes still waiting to sync
+        if (SyncService.canReachRemote() && !(await LocalStore.getPendingKeys(userId, 'misc')).has(key)) {
+          try {
+            const { data, error } = await supabase
+              .from('misc_data')
+              .select('value, updated_at')
+              .eq('user_id', userId)
+              .eq('key', key)
+              .maybeSingle();
 
-        const result = data?.value || null;
+            if (error) throw error;
+
+            result = data?.value || null;
+            if (result === null) {
+              await LocalStore.deleteMisc(userId, key);
+            } else {
+              await LocalStore.putMisc(userId, key, result, data.updated_at);
+            }
+          } catch (error) {
+            console.warn(`⚠️ Remote load of ${key} failed, serving local copy:`, error);
+          }
+        }
 
         // Update cache
         this.miscDataCache.set(cacheKey, {
@@ -2654,34 +3279,21 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `misc_save_${userId}_${key}`;
-
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          const { error } = await supabase
-            .from('misc_data')
-            .upsert({
-              user_id: userId,
-              key,
-              value,
-              updated_at: new Date().toISOString()
-            }, {
-              onConflict: 'user_id,key'
-            });
+      const baseVersion = (await LocalStore.getMisc(userId, key))?.updated_at;
 
-          if (error) throw error;
+      await LocalStore.putMisc(userId, key, value);
 
-          // Update cache immediately
-          const cacheKey = `${userId}_${key}`;
-          this.miscDataCache.set(cacheKey, {
-            data: value,
-            timestamp: Date.now(),
-            userId
-          });
-
-          return true;
-        });
+      // Update cache immediately
+      const cacheKey = `${userId}_${key}`;
+      this.miscDataCache.set(cacheKey, {
+        data: value,
+        timestamp: Date.now(),
+        userId
       });
+
+      RealtimeService.publish({ entity: 'misc', op: 'upsert', key, value });
+      await SyncService.enqueue(userId, { entity: 'misc', key, op: 'upsert', payload: value, baseVersion });
+      return true;
     } catch (error) {
       console.error('❌ Failed to save misc data:', error);
       return false;
@@ -2710,25 +3322,16 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `misc_delete_${userId}_${key}`;
-
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          const { error } = await supabase
-            .from('misc_data')
-            .delete()
-            .eq('user_id', userId)
-            .eq('key', key);
 
-          if (error) throw error;
+      await LocalStore.deleteMisc(userId, key);
 
-          // Remove from cache
-          const cacheKey = `${userId}_${key}`;
-          this.miscDataCache.delete(cacheKey);
+      // Remove from cache
+      const cacheKey = `${userId}_${key}`;
+      this.miscDataCache.delete(cacheKey);
 
-          return true;
-        });
-      });
+      RealtimeService.publish({ entity: 'misc', op: 'delete', key });
+      await SyncService.enqueue(userId, { entity: 'misc', key, op: 'delete' });
+      return true;
     } catch (error) {
       console.error('❌ Failed to delete misc data:', error);
       return false;
@@ -2737,12 +3340,218 @@ export class SupabaseService {
 
   // ===== CHART IMAGE OPERATIONS =====
 
+  /**
+   * Save chart image blob locally (as binary) and queue the upload
+   * @param imageBlob - Chart image blob data (base64 encoded)
+   * @returns Success status
+   */
+  static async saveChartImageBlob(imageBlob: any): Promise<boolean> {
+    try {
+      if (!imageBlob) {
+        throw new Error('Image blob is required');
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+
+      let binaryData: Uint8Array;
+      try {
+        binaryData = Uint8Array.from(atob(imageBlob.data), c => c.charCodeAt(0));
+      } catch (conversionError) {
+        throw new Error('Failed to convert base64 data to binary');
+      }
+
+      const row = {
+        id: imageBlob.id || uuidv4(),
+        user_id: userId,
+        trade_id: imageBlob.trade_id,
+        image_type: imageBlob.image_type,
+        filename: imageBlob.filename,
+        mime_type: imageBlob.mime_type,
+        size_bytes: imageBlob.size_bytes,
+        data: binaryData,
+        uploaded_at: imageBlob.uploaded_at || new Date().toISOString(),
+        compressed: safeBoolean(imageBlob.compressed, false),
+        original_size: safeNumber(imageBlob.original_size, 0)
+      };
+
+      await LocalStore.putChartBlob(userId, row);
+      this.invalidateChartCache(userId);
+      await SyncService.enqueue(userId, { entity: 'chartBlob', key: row.id, op: 'upsert', payload: row });
+
+      console.log(`✅ Saved chart image: ${imageBlob.filename}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to save chart image blob:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get chart image blob by ID - local copy first, then Supabase
+   * @param blobId - Blob ID
+   * @returns Chart image blob or null
+   */
+  static async getChartImageBlob(blobId: string): Promise<any | null> {
+    try {
+      if (!blobId || !isValidUUID(blobId)) {
+        throw new Error('Valid blob ID is required');
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+
+      const local = await LocalStore.getChartBlob(userId, blobId);
+      if (local || !SyncService.canReachRemote()) {
+        return local;
+      }
+
+      const remote = await this.getChartImageBlobRemote(blobId);
+      if (remote) {
+        await LocalStore.putChartBlob(userId, remote);
+      }
+      return remote;
+    } catch (error) {
+      console.error('❌ Failed to get chart image blob:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get all chart image blobs (metadata only for performance)
+   * @returns Array of chart image metadata
+   */
+  static async getAllChartImageBlobs(): Promise<any[]> {
+    try {
+      const userId = await this.getAuthenticatedUserId();
+
+      const local = (await LocalStore.getChartBlobs(userId)).map(({ data, ...metadata }) => metadata);
+      const remote = SyncService.canReachRemote() ? await this.getAllChartImageBlobsRemote() : [];
+
+      return (await this.mergeChartBlobs(userId, remote, local))
+        .sort((a, b) => String(b.uploaded_at).localeCompare(String(a.uploaded_at)));
+    } catch (error) {
+      console.error('❌ Failed to get all chart image blobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete chart image blob locally and queue the delete
+   * @param blobId - Blob ID to delete
+   * @returns Success status
+   */
+  static async deleteChartImageBlob(blobId: string): Promise<boolean> {
+    try {
+      if (!blobId || !isValidUUID(blobId)) {
+        throw new Error('Valid blob ID is required');
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+
+      await LocalStore.deleteChartBlob(userId, blobId);
+      this.invalidateChartCache(userId);
+      await SyncService.enqueue(userId, { entity: 'chartBlob', key: blobId, op: 'delete' });
+
+      console.log(`🗑️ Deleted chart image: ${blobId}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to delete chart image blob:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get chart image blobs for specific trade
+   * @param tradeId - Trade ID
+   * @returns Array of chart image blobs for the trade
+   */
+  static async getTradeChartImageBlobs(tradeId: string): Promise<any[]> {
+    try {
+      if (!tradeId || !isValidUUID(tradeId)) {
+        console.log('📦 Trade ID is not UUID format, skipping chart blob query:', tradeId);
+        return [];
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+
+      const local = await LocalStore.getTradeChartBlobs(userId, tradeId);
+      const remote = SyncService.canReachRemote() ? await this.getTradeChartImageBlobsRemote(tradeId) : [];
+
+      return (await this.mergeChartBlobs(userId, remote, local))
+        .sort((a, b) => String(a.uploaded_at).localeCompare(String(b.uploaded_at)));
+    } catch (error) {
+      console.error('❌ Failed to get trade chart image blobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get chart image blobs for multiple trades (bulk operation to prevent N+1 queries)
+   * @param tradeIds - Array of trade IDs
+   * @returns Map of trade ID to chart blobs array
+   */
+  static async getBulkTradeChartImageBlobs(tradeIds: string[]): Promise<Map<string, any[]>> {
+    try {
+      const validTradeIds = (Array.isArray(tradeIds) ? tradeIds : []).filter(id => isValidUUID(id));
+      if (validTradeIds.length === 0) {
+        return new Map();
+      }
+
+      const userId = await this.getAuthenticatedUserId();
+      const remote = SyncService.canReachRemote() ? await this.getBulkTradeChartImageBlobsRemote(validTradeIds) : new Map<string, any[]>();
+
+      const result = new Map<string, any[]>();
+      for (const tradeId of validTradeIds) {
+        const blobs = await this.mergeChartBlobs(userId, remote.get(tradeId) || [], await LocalStore.getTradeChartBlobs(userId, tradeId));
+        if (blobs.length > 0) {
+          result.set(tradeId, blobs.sort((a, b) => String(a.uploaded_at).localeCompare(String(b.uploaded_at))));
+        }
+      }
+      return result;
+    } catch (error) {
+      console.error('❌ Failed to get bulk trade chart blobs:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Delete all chart image blobs for a trade
+   * @param tradeId - Trade ID
+   * @returns Success status
+   */
+  static async deleteTradeChartImageBlobs(tradeId: string): Promise<boolean> {
+    try {
+      if (!tradeId || !isValidUUID(tradeId)) {
+        console.log('📦 Trade ID is not UUID format, skipping chart blob deletion:', tradeId);
+        return true;
+      }
+
+      const blobs = await this.getTradeChartImageBlobs(tradeId);
+      const results = await Promise.all(blobs.map(blob => this.deleteChartImageBlob(blob.id)));
+      return results.every(Boolean);
+    } catch (error) {
+      console.error('❌ Failed to delete trade chart image blobs:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Union of remote and local blobs by id. Blobs with queued changes come from the
+   * local copy only, so a pending delete doesn't resurface from Supabase.
+   */
+  private static async mergeChartBlobs(userId: string, remote: any[], local: any[]): Promise<any[]> {
+    const pending = await LocalStore.getPendingKeys(userId, 'chartBlob');
+    const byId = new Map<string, any>();
+    remote.filter(blob => !pending.has(blob.id)).forEach(blob => byId.set(blob.id, blob));
+    local.forEach(blob => byId.set(blob.id, blob));
+    return Array.from(byId.values());
+  }
+
   /**
    * Save chart image blob with proper error handling
    * @param imageBlob - Chart image blob data
    * @returns Success status
    */
-  static async saveChartImageBlob(imageBlob: any): Promise<boolean> {
+  private static async saveChartImageBlobRemote(imageBlob: any): Promise<boolean> {
     try {
       if (!imageBlob) {
         throw new Error('Image blob is required');
@@ -2753,10 +3562,12 @@ export class SupabaseService {
 
       return await this.executeWithLock(lockKey, async () => {
         return await this.executeWithRetry(async () => {
-          // Convert base64 to binary for bytea storage
+          // Convert base64 to binary for bytea storage (queued local copies are binary already)
           let binaryData: Uint8Array;
           try {
-            binaryData = Uint8Array.from(atob(imageBlob.data), c => c.charCodeAt(0));
+            binaryData = imageBlob.data instanceof Uint8Array
+              ? imageBlob.data
+              : Uint8Array.from(atob(imageBlob.data), c => c.charCodeAt(0));
           } catch (conversionError) {
             throw new Error('Failed to convert base64 data to binary');
           }
@@ -2775,9 +3586,10 @@ export class SupabaseService {
             original_size: safeNumber(imageBlob.original_size, 0)
           };
 
+          // Upsert so a replayed save is harmless if an earlier attempt reached the server
           const { error } = await supabase
             .from('chart_image_blobs')
-            .insert(insertData);
+            .upsert(insertData, { onConflict: 'id' });
 
           if (error) throw error;
 
@@ -2799,7 +3611,7 @@ export class SupabaseService {
    * @param blobId - Blob ID
    * @returns Chart image blob or null
    */
-  static async getChartImageBlob(blobId: string): Promise<any | null> {
+  private static async getChartImageBlobRemote(blobId: string): Promise<any | null> {
     try {
       if (!blobId || !isValidUUID(blobId)) {
         throw new Error('Valid blob ID is required');
@@ -2849,7 +3661,7 @@ export class SupabaseService {
    * Get all chart image blobs (metadata only for performance)
    * @returns Array of chart image metadata
    */
-  static async getAllChartImageBlobs(): Promise<any[]> {
+  private static async getAllChartImageBlobsRemote(): Promise<any[]> {
     try {
       const userId = await this.getAuthenticatedUserId();
       const lockKey = `charts_get_all_${userId}`;
@@ -2875,7 +3687,7 @@ export class SupabaseService {
    * @param blobId - Blob ID to delete
    * @returns Success status
    */
-  static async deleteChartImageBlob(blobId: string): Promise<boolean> {
+  private static async deleteChartImageBlobRemote(blobId: string): Promise<boolean> {
     try {
       if (!blobId || !isValidUUID(blobId)) {
         throw new Error('Valid blob ID is required');
@@ -2912,7 +3724,7 @@ export class SupabaseService {
    * @param tradeId - Trade ID
    * @returns Array of chart image blobs for the trade
    */
-  static async getTradeChartImageBlobs(tradeId: string): Promise<any[]> {
+  private static async getTradeChartImageBlobsRemote(tradeId: string): Promise<any[]> {
     try {
       if (!tradeId || !isValidUUID(tradeId)) {
         console.log('📦 Trade ID is not UUID format, skipping chart blob query:', tradeId);
@@ -2941,7 +3753,7 @@ export class SupabaseService {
    * @param tradeIds - Array of trade IDs
    * @returns Map of trade ID to chart blobs array
    */
-  static async getBulkTradeChartImageBlobs(tradeIds: string[]): Promise<Map<string, any[]>> {
+  private static async getBulkTradeChartImageBlobsRemote(tradeIds: string[]): Promise<Map<string, any[]>> {
     try {
       if (!Array.isArray(tradeIds) || tradeIds.length === 0) {
         return new Map();
@@ -2991,7 +3803,7 @@ export class SupabaseService {
    * @param tradeId - Trade ID
    * @returns Success status
    */
-  static async deleteTradeChartImageBlobs(tradeId: string): Promise<boolean> {
+  private static async deleteTradeChartImageBlobsRemote(tradeId: string): Promise<boolean> {
     try {
       if (!tradeId || !isValidUUID(tradeId)) {
         console.log('📦 Trade ID is not UUID format, skipping chart blob deletion:', tradeId);
@@ -3040,28 +3852,20 @@ export class SupabaseService {
       }
 
       const userId = await this.getAuthenticatedUserId();
-      const lockKey = `chart_update_${userId}_${blobId}`;
 
-      return await this.executeWithLock(lockKey, async () => {
-        return await this.executeWithRetry(async () => {
-          const { error } = await supabase
-            .from('chart_image_blobs')
-            .update({
-              trade_id: newTradeId,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', blobId)
-            .eq('user_id', userId);
-
-          if (error) throw error;
+      // getChartImageBlob pulls a remote-only blob into the local store first
+      const blob = await this.getChartImageBlob(blobId);
+      if (!blob) {
+        throw new Error(`Chart image ${blobId} not found`);
+      }
 
-          // Invalidate chart cache
-          this.invalidateChartCache(userId);
+      const updated = { ...blob, trade_id: newTradeId, updated_at: new Date().toISOString() };
+      await LocalStore.putChartBlob(userId, updated);
+      this.invalidateChartCache(userId);
+      await SyncService.enqueue(userId, { entity: 'chartBlob', key: blobId, op: 'upsert', payload: updated });
 
-          console.log(`🔄 Updated chart image trade ID: ${blobId} -> ${newTradeId}`);
-          return true;
-        });
-      });
+      console.log(`🔄 Updated chart image trade ID: ${blobId} -> ${newTradeId}`);
+      return true;
     } catch (error) {
       console.error('❌ Failed to update chart image blob trade ID:', error);
       return false;
@@ -3186,23 +3990,29 @@ export class SupabaseService {
           'dashboard_config'
         ];
 
-        // Execute deletions in parallel for efficiency
-        const deletePromises = tablesToClear.map(async (table) => {
-          try {
-            const { error } = await supabase
-              .from(table)
-              .delete()
-              .eq('user_id', userId);
+        // Execute deletions in parallel for efficiency (local-only mode has nothing remote)
+        if (!SyncService.isLocalOnly()) {
+          const deletePromises = tablesToClear.map(async (table) => {
+            try {
+              const { error } = await supabase
+                .from(table)
+                .delete()
+                .eq('user_id', userId);
+
+              if (error) throw error;
+              console.log(`✅ Cleared ${table}`);
+            } catch (error) {
+              console.error(`❌ Failed to clear ${table}:`, error);
+              throw error;
+            }
+          });
 
-            if (error) throw error;
-            console.log(`✅ Cleared ${table}`);
-          } catch (error) {
-            console.error(`❌ Failed to clear ${table}:`, error);
-            throw error;
-          }
-        });
+          await Promise.all(deletePromises);
+        }
 
-        await Promise.all(deletePromises);
+        await LocalStore.clearEntities(userId, ['trade', 'chartBlob', 'misc']);
+        RealtimeService.publish({ entity: 'trade', op: 'reload', key: '*' });
+        RealtimeService.publish({ entity: 'misc', op: 'reload', key: '*' });
 
         // Clear all caches
         this.clearAllCaches();
@@ -3237,12 +4047,17 @@ export class SupabaseService {
         console.warn('⚠️ DESTRUCTIVE OPERATION: Clearing ALL trade data');
 
         return await this.executeWithRetry(async () => {
-          const { error } = await supabase
-            .from('trades')
-            .delete()
-            .eq('user_id', userId);
+          if (!SyncService.isLocalOnly()) {
+            const { error } = await supabase
+              .from('trades')
+              .delete()
+              .eq('user_id', userId);
 
-          if (error) throw error;
+            if (error) throw error;
+          }
+
+          await LocalStore.clearEntities(userId, ['trade']);
+          RealtimeService.publish({ entity: 'trade', op: 'reload', key: '*' });
 
           // Clear trades cache
           this.clearTradesCache(userId);
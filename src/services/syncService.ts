@@ -0,0 +1,287 @@
+import { LocalStore, SyncOperation, SyncConflict } from './localStore'
+
+/**
+ * SYNC SERVICE: Replays locally queued changes to Supabase
+ *
+ * - Every write lands in LocalStore first and is queued here
+ * - The queue is flushed in order whenever connectivity returns, on a timer and after each write
+ * - A failing operation stops the flush so later changes never overtake it;
+ *   after MAX_ATTEMPTS it is parked so the rest of the queue can move on
+ * - Changes carry the remote version they were made against; if another device has
+ *   written since, the replay reports a conflict instead of overwriting and the user merges it
+ * - In local-only mode nothing is ever sent and no account is required
+ */
+
+export type StorageMode = 'cloud' | 'local'
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'error' | 'conflict' | 'local'
+
+export interface SyncStatus {
+  state: SyncState
+  mode: StorageMode
+  pending: number
+  failed: number
+  conflicts: number
+  lastSyncedAt: string | null
+  lastError: string | null
+}
+
+/**
+ * Outcome of replaying one operation
+ * - version: updated_at the remote record now has
+ * - conflicts: records that were left untouched because another device changed them first
+ */
+export interface SyncReplayResult {
+  version?: string
+  conflicts?: SyncConflict[]
+}
+
+/**
+ * Remote side of the sync, registered by SupabaseService so this module
+ * doesn't import it (SupabaseService already depends on SyncService)
+ */
+export interface SyncRemote {
+  getUserId: () => Promise<string | null>
+  replay: (userId: string, operation: SyncOperation) => Promise<SyncReplayResult>
+  /** Store the merged record locally and queue it against the remote version the user merged with */
+  resolveConflict: (userId: string, conflict: SyncConflict, merged: any) => Promise<void>
+}
+
+export class SyncService {
+  private static readonly MODE_KEY = 'nexus-storage-mode'
+  private static readonly RETRY_INTERVAL = 30000 // 30 seconds between background retries
+  private static readonly MAX_ATTEMPTS = 5
+
+  private static remote: SyncRemote | null = null
+  private static flushing: Promise<void> | null = null
+  private static flushRequested = false
+  private static retryTimer: ReturnType<typeof setInterval> | null = null
+  private static initialized = false
+  private static listeners: Array<(status: SyncStatus) => void> = []
+
+  private static status: SyncStatus = {
+    state: SyncService.getStorageMode() === 'local' ? 'local' : 'synced',
+    mode: SyncService.getStorageMode(),
+    pending: 0,
+    failed: 0,
+    conflicts: 0,
+    lastSyncedAt: null,
+    lastError: null
+  }
+
+  // ===== STORAGE MODE =====
+
+  static getStorageMode(): StorageMode {
+    if (typeof window === 'undefined') return 'cloud'
+    return window.localStorage.getItem(this.MODE_KEY) === 'local' ? 'local' : 'cloud'
+  }
+
+  static setStorageMode(mode: StorageMode): void {
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(this.MODE_KEY, mode)
+    }
+    this.setStatus({ mode, state: mode === 'local' ? 'local' : 'pending' })
+    if (mode === 'cloud') void this.flush()
+  }
+
+  static isLocalOnly(): boolean {
+    return this.getStorageMode() === 'local'
+  }
+
+  static isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false
+  }
+
+  /**
+   * Whether reads may try Supabase before falling back to the local copy
+   */
+  static canReachRemote(): boolean {
+    return !this.isLocalOnly() && this.isOnline()
+  }
+
+  // ===== LIFECYCLE =====
+
+  static registerRemote(remote: SyncRemote): void {
+    this.remote = remote
+  }
+
+  static initialize(): void {
+    if (this.initialized || typeof window === 'undefined') return
+    this.initialized = true
+
+    window.addEventListener('online', this.handleOnline)
+    window.addEventListener('offline', this.handleOffline)
+    this.retryTimer = setInterval(() => void this.flush(), this.RETRY_INTERVAL)
+
+    if (!this.isOnline() && !this.isLocalOnly()) {
+      this.setStatus({ state: 'offline' })
+    }
+    void this.flush()
+  }
+
+  static cleanup(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline)
+      window.removeEventListener('offline', this.handleOffline)
+    }
+    if (this.retryTimer) clearInterval(this.retryTimer)
+    this.retryTimer = null
+    this.initialized = false
+  }
+
+  private static handleOnline = (): void => {
+    console.log('🌐 Connectivity restored - replaying queued changes')
+    void SyncService.flush()
+  }
+
+  private static handleOffline = (): void => {
+    if (!SyncService.isLocalOnly()) {
+      SyncService.setStatus({ state: 'offline' })
+    }
+  }
+
+  // ===== QUEUE =====
+
+  /**
+   * Queue a change that has already been written to LocalStore and try to send it
+   */
+  static async enqueue(owner: string, operation: Omit<SyncOperation, 'seq' | 'revision' | 'attempts' | 'queuedAt'>): Promise<void> {
+    if (this.isLocalOnly()) return
+
+    await LocalStore.enqueue(owner, operation)
+    await this.refreshCounts(owner)
+    void this.flush()
+  }
+
+  /**
+   * Replay the queue in order. Concurrent callers share the running flush.
+   */
+  static flush(): Promise<void> {
+    if (this.flushing) {
+      // Changes queued after the running flush read the queue get their own pass
+      this.flushRequested = true
+      return this.flushing
+    }
+
+    this.flushing = this.runFlush().finally(() => {
+      this.flushing = null
+      if (this.flushRequested) {
+        this.flushRequested = false
+        void this.flush()
+      }
+    })
+    return this.flushing
+  }
+
+  private static async runFlush(): Promise<void> {
+    if (this.isLocalOnly()) {
+      this.setStatus({ state: 'local' })
+      return
+    }
+    if (!this.remote) return
+    if (!this.isOnline()) {
+      this.setStatus({ state: 'offline' })
+      return
+    }
+
+    const userId = await this.remote.getUserId().catch(() => null)
+    if (!userId) return
+
+    while (true) {
+      const queue = await LocalStore.getQueue(userId)
+      const next = queue.find(item => item.attempts < this.MAX_ATTEMPTS)
+      if (!next) {
+        await this.refreshCounts(userId)
+        if (this.status.failed > 0) {
+          this.setStatus({ state: 'error' })
+        } else {
+          this.setStatus({
+            state: this.status.conflicts > 0 ? 'conflict' : 'synced',
+            lastSyncedAt: new Date().toISOString(),
+            lastError: null
+          })
+        }
+        return
+      }
+
+      this.setStatus({ state: 'syncing' })
+      try {
+        const result = await this.remote.replay(userId, next)
+        if (result?.conflicts?.length) {
+          console.warn(`⚠️ ${result.conflicts.length} record(s) changed on another device - waiting for a merge`)
+          await LocalStore.putConflicts(userId, result.conflicts)
+        }
+        await LocalStore.removeQueued(userId, next, result?.version)
+        await this.refreshCounts(userId)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.warn(`⚠️ Sync of ${next.entity} ${next.key} failed (attempt ${next.attempts + 1}/${this.MAX_ATTEMPTS}):`, error)
+
+        await LocalStore.markQueuedFailure(userId, next.seq!, next.attempts + 1, message)
+        await this.refreshCounts(userId)
+        this.setStatus({ state: this.isOnline() ? 'error' : 'offline', lastError: message })
+        return
+      }
+    }
+  }
+
+  private static async refreshCounts(owner: string): Promise<void> {
+    const [queue, conflicts] = await Promise.all([LocalStore.getQueue(owner), LocalStore.getConflicts(owner)])
+    const failed = queue.filter(item => item.attempts >= this.MAX_ATTEMPTS).length
+    const pending = queue.length - failed
+    const state = this.status.state === 'synced' && pending > 0 ? 'pending' : this.status.state
+    this.setStatus({ pending, failed, conflicts: conflicts.length, state })
+  }
+
+  // ===== CONFLICTS =====
+
+  static async getConflicts(): Promise<SyncConflict[]> {
+    const userId = await this.remote?.getUserId().catch(() => null)
+    return userId ? LocalStore.getConflicts(userId) : []
+  }
+
+  /**
+   * Apply the user's merge of a conflict and send it
+   * @param merged - The record to keep, built from the field choices in the merge dialog
+   */
+  static async resolveConflict(conflict: SyncConflict, merged: any): Promise<void> {
+    const userId = await this.remote?.getUserId()
+    if (!this.remote || !userId) throw new Error('Sign in to resolve sync conflicts')
+
+    await this.remote.resolveConflict(userId, conflict, merged)
+    await LocalStore.deleteConflict(userId, conflict.id)
+    await this.refreshCounts(userId)
+    if (this.status.conflicts === 0 && this.status.state === 'conflict') {
+      this.setStatus({ state: 'pending' })
+    }
+    void this.flush()
+  }
+
+  // ===== STATUS =====
+
+  static getStatus(): SyncStatus {
+    return this.status
+  }
+
+  static onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.push(listener)
+
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  private static setStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes }
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.status)
+      } catch (error) {
+        console.error('❌ Sync status listener failed:', error)
+      }
+    })
+  }
+}
@@ -5,6 +5,7 @@ import {
   calcPositionSize,
   calcAllocation,
   calcSLPercent,
+  calcCapitalAtWork,
   calcOpenQty,
   calcExitedQty,
   calcAvgExitPrice,
@@ -13,8 +14,13 @@ import {
   calcHoldingDays,
   calcRealisedAmount,
   calcPFImpact,
-  calcRealizedPL_FIFO
+  calcRealizedPL_FIFO,
+  getEntryLegs,
+  getExitLegs,
+  calcTradeCharges,
+  resolveFeePlan
 } from '../lib/calculations';
+import type { BrokerFeePlan } from '../lib/calculations';
 
 /**
  * WORLD-CLASS TRADE CALCULATOR
@@ -26,12 +32,15 @@ import {
  * - Cacheable results
  */
 
+const DEFAULT_PLAN = resolveFeePlan();
+
 /**
  * PROCESS TRADES: ENTERPRISE-SCALE calculation pipeline with performance optimizations
  */
 export function processTrades(
   trades: Trade[],
-  getPortfolioSize: (month: string, year: number) => number
+  getPortfolioSize: (month: string, year: number) => number,
+  getFeePlan: (trade: Trade) => BrokerFeePlan = () => DEFAULT_PLAN
 ): Trade[] {
   if (!trades || trades.length === 0) return [];
 
@@ -52,7 +61,7 @@ export function processTrades(
 
     for (let i = 0; i < sortedTrades.length; i += BATCH_SIZE) {
       const batch = sortedTrades.slice(i, i + BATCH_SIZE);
-      const batchResults = batch.map(trade => calculateTrade(trade, getPortfolioSize));
+      const batchResults = batch.map(trade => calculateTrade(trade, getPortfolioSize, getFeePlan));
       results.push(...batchResults);
 
 
@@ -63,7 +72,7 @@ export function processTrades(
     return results;
   } else {
     // Standard processing for smaller datasets
-    const results = sortedTrades.map(trade => calculateTrade(trade, getPortfolioSize));
+    const results = sortedTrades.map(trade => calculateTrade(trade, getPortfolioSize, getFeePlan));
     const processingTime = performance.now() - startTime;
 
     return results;
@@ -75,7 +84,8 @@ export function processTrades(
  */
 function calculateTrade(
   trade: Trade,
-  getPortfolioSize: (month: string, year: number) => number
+  getPortfolioSize: (month: string, year: number) => number,
+  getFeePlan: (trade: Trade) => BrokerFeePlan
 ): Trade {
   try {
     // Calculate entry metrics
@@ -86,8 +96,8 @@ function calculateTrade(
 
     // Get portfolio size for allocation calculation
     const portfolioSize = getPortfolioSizeForTrade(trade, getPortfolioSize);
-    const allocation = trade.allocation || calcAllocation(positionSize, portfolioSize);
-    const slPercent = calcSLPercent(trade.sl, trade.entry);
+    const allocation = trade.allocation || calcAllocation(calcCapitalAtWork(trade, positionSize), portfolioSize);
+    const slPercent = calcSLPercent(trade.sl, trade.entry, trade.buySell);
 
     // Calculate exit metrics
     const allExits = getValidExits(trade);
@@ -107,6 +117,9 @@ function calculateTrade(
     // Calculate portfolio impact
     const pfImpact = calcPFImpact(plRs, portfolioSize);
 
+    // Charges on every fill so far, per the account's fee plan
+    const totalCharges = calcTradeCharges(trade, getFeePlan(trade)).total;
+
     return {
       ...trade,
       name: (trade.name || '').toUpperCase(),
@@ -122,6 +135,8 @@ function calculateTrade(
       realisedAmount,
       plRs,
       pfImpact,
+      totalCharges,
+      netPlRs: plRs - totalCharges,
       // Store both accounting method values for later use
       _accrualPL: plRs,
       _cashPL: calculateTradePL(trade, true),
@@ -191,19 +206,11 @@ export function getChronologicalSortComparator() {
  */
 
 function getValidEntries(trade: Trade) {
-  return [
-    { price: Number(trade.entry || 0), qty: Number(trade.initialQty || 0) },
-    { price: Number(trade.pyramid1Price || 0), qty: Number(trade.pyramid1Qty || 0) },
-    { price: Number(trade.pyramid2Price || 0), qty: Number(trade.pyramid2Qty || 0) }
-  ].filter(e => e.qty > 0 && e.price > 0);
+  return getEntryLegs(trade).map(leg => ({ price: leg.price, qty: leg.qty, date: leg.date }));
 }
 
 function getValidExits(trade: Trade) {
-  return [
-    { price: Number(trade.exit1Price || 0), qty: Number(trade.exit1Qty || 0) },
-    { price: Number(trade.exit2Price || 0), qty: Number(trade.exit2Qty || 0) },
-    { price: Number(trade.exit3Price || 0), qty: Number(trade.exit3Qty || 0) }
-  ].filter(e => e.qty > 0 && e.price > 0);
+  return getExitLegs(trade).map(leg => ({ price: leg.price, qty: leg.qty, date: leg.date }));
 }
 
 function getPortfolioSizeForTrade(
@@ -246,18 +253,18 @@ function normalizeMonthForPortfolio(month: string): string {
 }
 
 function calculateHoldingDays(trade: Trade, allExits: any[]): number {
-  const pyramidDates = [];
-  if (trade.pyramid1Date && trade.pyramid1Qty) pyramidDates.push({ date: trade.pyramid1Date, qty: trade.pyramid1Qty });
-  if (trade.pyramid2Date && trade.pyramid2Qty) pyramidDates.push({ date: trade.pyramid2Date, qty: trade.pyramid2Qty });
+  const pyramidDates = getEntryLegs(trade)
+    .slice(1)
+    .map(leg => leg.date)
+    .filter(Boolean);
 
-  const exitDatesForHolding = [];
-  if (trade.exit1Date && trade.exit1Qty) exitDatesForHolding.push({ date: trade.exit1Date, qty: trade.exit1Qty });
-  if (trade.exit2Date && trade.exit2Qty) exitDatesForHolding.push({ date: trade.exit2Date, qty: trade.exit2Qty });
-  if (trade.exit3Date && trade.exit3Qty) exitDatesForHolding.push({ date: trade.exit3Date, qty: trade.exit3Qty });
+  const exitDatesForHolding = getExitLegs(trade)
+    .map(leg => leg.date)
+    .filter(Boolean);
 
   let primaryExitDate: string | null = null;
   if (allExits.length > 0) {
-    const validExitDates = [trade.exit1Date, trade.exit2Date, trade.exit3Date].filter(Boolean) as string[];
+    const validExitDates = [...exitDatesForHolding];
     if (validExitDates.length > 0) {
       // Note: This function is used for initial trade calculation, which is accounting-method agnostic
       // The actual accounting-method-aware calculations are done in calcPerformanceMetrics and calcMonthlyPerformance
@@ -1,5 +1,5 @@
-import { Trade } from '../types/trade';
-import { SupabaseService } from './supabaseService';
+import { Trade, ImportBatch, ImportBatchInput } from '../types/trade';
+import { StorageService } from './storageBackend';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -22,16 +22,14 @@ export async function getTrades(): Promise<Trade[]> {
     console.log('🚀 [tradeService] STABLE queryFn - Starting enterprise-scale trade loading...');
 
     // INTELLIGENT LOADING: Let smart loading automatically determine optimal strategy
-    const result = await SupabaseService.getTradesWithSmartLoading();
+    const trades = await StorageService.backend.trades.getAll();
 
     const loadTime = performance.now() - startTime;
-    console.log(`✅ [tradeService] Loaded ${result.trades?.length || 0} trades in ${loadTime.toFixed(2)}ms using ${result.strategy} strategy`);
+    console.log(`✅ [tradeService] Loaded ${trades.length} trades in ${loadTime.toFixed(2)}ms from ${StorageService.backend.kind} storage`);
     console.log(`🎯 [tradeService] STABLE queryFn executed - TanStack Query will cache and deduplicate this`);
 
     // PERFORMANCE OPTIMIZATION: Skip pre-sorting to improve load times
     // Sorting is handled by the UI components when needed
-    const trades = result.trades || [];
-
     return trades;
   } catch (error) {
     console.error('❌ Failed to fetch trades:', error);
@@ -56,15 +54,15 @@ export async function saveTrade(trade: Trade): Promise<Trade> {
     // Handle chart attachments if present
     if (trade.chartAttachments) {
       if (trade.chartAttachments.beforeEntry?.storage === 'blob' && trade.chartAttachments.beforeEntry.blobId) {
-        await SupabaseService.updateChartImageBlobTradeId(trade.chartAttachments.beforeEntry.blobId, trade.id);
+        await StorageService.backend.chartBlobs.updateTradeId(trade.chartAttachments.beforeEntry.blobId, trade.id);
       }
       if (trade.chartAttachments.afterExit?.storage === 'blob' && trade.chartAttachments.afterExit.blobId) {
-        await SupabaseService.updateChartImageBlobTradeId(trade.chartAttachments.afterExit.blobId, trade.id);
+        await StorageService.backend.chartBlobs.updateTradeId(trade.chartAttachments.afterExit.blobId, trade.id);
       }
     }
 
     // Save to database
-    const success = await SupabaseService.saveTrade(trade);
+    const success = await StorageService.backend.trades.save(trade);
     if (!success) {
       throw new Error('Failed to save trade to database');
     }
@@ -98,7 +96,7 @@ export async function deleteTrade(tradeId: string): Promise<void> {
     }
 
     // Delete from database
-    const success = await SupabaseService.deleteTrade(originalTradeId);
+    const success = await StorageService.backend.trades.delete(originalTradeId);
     if (!success) {
       throw new Error('Failed to delete trade from database');
     }
@@ -108,10 +106,17 @@ export async function deleteTrade(tradeId: string): Promise<void> {
   }
 }
 
+const IMPORT_BATCHES_KEY = 'importBatches';
+const MAX_IMPORT_BATCHES = 10; // Older imports can no longer be rolled back
+
 /**
- * BULK IMPORT TRADES: Import multiple trades efficiently
+ * BULK IMPORT TRADES: Import multiple trades efficiently.
+ * With `batch`, the import is recorded so it can be rolled back as a whole.
  */
-export async function bulkImportTrades(trades: Trade[]): Promise<Trade[]> {
+export async function bulkImportTrades(
+  trades: Trade[],
+  batch?: ImportBatchInput
+): Promise<Trade[]> {
   try {
     if (!trades || trades.length === 0) {
       return [];
@@ -123,9 +128,31 @@ export async function bulkImportTrades(trades: Trade[]): Promise<Trade[]> {
       id: trade.id && isValidUUID(trade.id) ? trade.id : uuidv4()
     }));
 
+    // Record the batch before writing any trade, so no imported trade is ever left without one
+    let batches: ImportBatch[] = [];
+    if (batch) {
+      const modifiedIds = new Set(batch.previousTrades.map(trade => trade.id));
+      const record: ImportBatch = {
+        ...batch,
+        importedAt: new Date().toISOString(),
+        addedTradeIds: validatedTrades.map(trade => trade.id).filter(id => !modifiedIds.has(id))
+      };
+      batches = await getImportBatches();
+      if (!await StorageService.backend.misc.save(IMPORT_BATCHES_KEY, [record, ...batches].slice(0, MAX_IMPORT_BATCHES))) {
+        throw new Error('Failed to record import batch');
+      }
+    }
+
     // Use bulk import for better performance
-    const success = await SupabaseService.bulkImportTrades(validatedTrades);
+    const success = await StorageService.backend.trades.bulkImport(validatedTrades).catch(error => {
+      console.error('❌ Bulk import write failed:', error);
+      return false;
+    });
     if (!success) {
+      // A failed import isn't offered for undo
+      if (batch) {
+        await StorageService.backend.misc.save(IMPORT_BATCHES_KEY, batches).catch(() => false);
+      }
       throw new Error('Bulk import failed');
     }
 
@@ -136,12 +163,77 @@ export async function bulkImportTrades(trades: Trade[]): Promise<Trade[]> {
   }
 }
 
+/**
+ * IMPORT BATCHES: Recent imports that can still be rolled back, newest first
+ */
+export async function getImportBatches(): Promise<ImportBatch[]> {
+  const batches = await StorageService.backend.misc.get(IMPORT_BATCHES_KEY);
+  return Array.isArray(batches) ? batches : [];
+}
+
+/**
+ * ROLLBACK IMPORT: Delete the trades an import added and put back the ones it changed
+ */
+export async function rollbackImportBatch(batchId: string): Promise<void> {
+  try {
+    const batches = await getImportBatches();
+    const batch = batches.find(candidate => candidate.id === batchId);
+    if (!batch) {
+      throw new Error('Import batch not found');
+    }
+
+    if (!await StorageService.backend.trades.deleteMany(batch.addedTradeIds)) {
+      throw new Error('Failed to remove imported trades');
+    }
+
+    // Restored copies are written over the imported versions, not compared against their old ones
+    const restored = batch.previousTrades.map(({ _updatedAt, ...trade }) => trade as Trade);
+    if (restored.length > 0 && !await StorageService.backend.trades.bulkImport(restored, { conflictResolution: 'update' })) {
+      throw new Error('Failed to restore modified trades');
+    }
+
+    await StorageService.backend.misc.save(IMPORT_BATCHES_KEY, batches.filter(candidate => candidate.id !== batchId));
+  } catch (error) {
+    console.error('❌ Failed to roll back import:', error);
+    throw error;
+  }
+}
+
+/**
+ * CLEAR OPTION: Take a deleted dropdown option off every trade that has it, alone or in a
+ * comma-separated list. Returns how many trades changed - cleanup is best effort, so a failure
+ * is logged and counts as none.
+ */
+export async function clearOptionFromTrades(
+  field: 'setup' | 'exitTrigger' | 'proficiencyGrowthAreas',
+  optionToDelete: string
+): Promise<number> {
+  try {
+    const trades = await StorageService.backend.trades.getAll();
+
+    const updated = trades.flatMap(trade => {
+      const value = trade[field];
+      if (typeof value !== 'string' || !value.split(', ').includes(optionToDelete)) return [];
+      return [{ ...trade, [field]: value.split(', ').filter(option => option !== optionToDelete).join(', ') }];
+    });
+    if (updated.length === 0) return 0;
+
+    if (!await StorageService.backend.trades.bulkImport(updated, { conflictResolution: 'update' })) {
+      throw new Error('Failed to update trades');
+    }
+    return updated.length;
+  } catch (error) {
+    console.error(`❌ Failed to clear "${optionToDelete}" from trades:`, error);
+    return 0;
+  }
+}
+
 /**
  * CLEAR ALL TRADES: Remove all trade data
  */
 export async function clearAllTrades(): Promise<void> {
   try {
-    const success = await SupabaseService.clearAllData(true);
+    const success = await StorageService.backend.trades.clearAll();
     if (!success) {
       throw new Error('Failed to clear all trades');
     }
@@ -156,7 +248,7 @@ export async function clearAllTrades(): Promise<void> {
  */
 export async function getTradeSettings(): Promise<any> {
   try {
-    return await SupabaseService.getTradeSettings();
+    return await StorageService.backend.preferences.getTradeSettings();
   } catch (error) {
     console.error('❌ Failed to get trade settings:', error);
     return null;
@@ -168,7 +260,7 @@ export async function getTradeSettings(): Promise<any> {
  */
 export async function saveTradeSettings(settings: any): Promise<void> {
   try {
-    const success = await SupabaseService.saveTradeSettings(settings);
+    const success = await StorageService.backend.preferences.saveTradeSettings(settings);
     if (!success) {
       throw new Error('Failed to save trade settings');
     }
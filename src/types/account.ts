@@ -0,0 +1,26 @@
+// Broker account / sub-portfolio. Trades, capital changes and starting capitals belong to one account.
+export interface BrokerAccount {
+  id: string;
+  name: string;
+  broker?: string;   // Zerodha, Dhan, Upstox...
+  feePlan?: FeePlanSettings;
+  createdAt: string;
+}
+
+// Rows saved before accounts existed have no account id and belong to this account
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+// Pseudo account id selecting the consolidated view across every account
+export const ALL_ACCOUNTS = 'all';
+
+// Brokerage plan presets understood by the charges engine
+export type FeePlanPreset = 'zerodha' | 'dhan' | 'upstox' | 'flat' | 'percentage';
+
+// Per-account fee plan. Flat / percentage plans use their own numbers, presets only the DP override.
+export interface FeePlanSettings {
+  preset: FeePlanPreset;
+  flatFee?: number;      // ₹ per executed order (flat plan)
+  percentage?: number;   // % of turnover per order (percentage plan)
+  maxPerOrder?: number;  // Brokerage cap per order (percentage plan)
+  dpCharge?: number;     // ₹ per scrip per delivery sell day, before GST
+}
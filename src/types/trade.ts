@@ -40,6 +40,8 @@ export interface Trade {
   realisedAmount: number;
   plRs: number;
   pfImpact: number;
+  totalCharges?: number;  // Brokerage + statutory charges on every fill (charges engine)
+  netPlRs?: number;       // plRs after totalCharges
   cummPf: number;
   planFollowed: boolean;
   exitTrigger: string;
@@ -78,8 +80,99 @@ export interface Trade {
 
   // Chart attachments - NEW FEATURE
   chartAttachments?: TradeChartAttachments;
+
+  // Fill-level legs - source of truth for entries and exits when present.
+  // The pyramid1/2 and exit1-3 columns mirror the first legs for older views.
+  legs?: TradeLeg[];
+
+  // Traded instrument - absent means a cash equity trade keyed by `name`
+  instrument?: TradeInstrument;
+
+  // Broker account / sub-portfolio the trade belongs to - absent means the default account
+  accountId?: string;
+
+  // Version of this copy (updated_at of the save it came from) - used to detect edits made on another device
+  _updatedAt?: string;
+
+  // Splits, bonuses, dividends and demergers applied to this trade, oldest first
+  corporateActions?: AppliedCorporateAction[];
+}
+
+export type InstrumentType = 'Equity' | 'Future' | 'Option';
+
+// Instrument details for F&O trades. Quantities on the trade stay in units (lots x lot size).
+export interface TradeInstrument {
+  type: InstrumentType;
+  underlying?: string;
+  expiry?: string;          // YYYY-MM-DD
+  strike?: number;          // Options only
+  optionType?: 'CE' | 'PE'; // Options only
+  lotSize?: number;
+  exchange?: string;        // NSE / NFO / BSE / BFO
+  margin?: number;          // Margin blocked for the position (futures and short options)
+}
+
+// Individual buy or sell fill belonging to a trade
+export interface TradeLeg {
+  id: string;
+  action: 'Buy' | 'Sell';
+  date: string;
+  price: number;
+  qty: number;
+  fees?: number; // Optional charges paid on this fill
+  brokerFillId?: string; // Fill identifier from an imported tradebook - re-imports skip fills already recorded
 }
 
+export type CorporateActionType = 'split' | 'bonus' | 'dividend' | 'demerger';
+
+// Entry in the corporate actions register. Applies to trades holding the symbol going into the ex-date.
+export interface CorporateAction {
+  id: string;
+  symbol: string;
+  type: CorporateActionType;
+  exDate: string;            // YYYY-MM-DD
+  // Split: ratioFrom shares become ratioTo. Bonus: ratioTo new shares for every ratioFrom held.
+  // Demerger: ratioTo shares of newSymbol for every ratioFrom held.
+  ratioFrom?: number;
+  ratioTo?: number;
+  dividendPerShare?: number;
+  costRetained?: number;     // Demerger: share of the cost (0-1) that stays with the parent
+  newSymbol?: string;
+  notes?: string;
+}
+
+// Record of an action applied to a trade - the values it replaced keep the adjustment auditable and undoable
+export interface AppliedCorporateAction {
+  actionId: string;
+  type: CorporateActionType;
+  exDate: string;
+  appliedAt: string;
+  heldQty: number;           // Shares held going into the ex-date, before adjustment
+  qtyFactor: number;         // Quantities before the ex-date were multiplied by this
+  priceFactor: number;       // and prices by this
+  dividendAmount?: number;   // Credited to capital
+  demergedTradeId?: string;  // Trade opened for the demerged shares
+  addedLegIds?: string[];    // Legs the action split off partly sold entries
+  original: {
+    legs: TradeLeg[];
+    sl: number;
+    tsl: number;
+    cmp: number;
+  };
+}
+
+// One committed import. Rolling it back deletes the trades it added and restores the ones it changed.
+export interface ImportBatch {
+  id: string;
+  importedAt: string;
+  source: string;            // File the trades came from
+  addedTradeIds: string[];
+  previousTrades: Trade[];   // Journal copies of modified trades, as they were before the import
+}
+
+// What the importer supplies - the rest is filled in once the trades are saved
+export type ImportBatchInput = Pick<ImportBatch, 'id' | 'source' | 'previousTrades'>;
+
 // Chart attachment interfaces
 export interface TradeChartAttachments {
   beforeEntry?: ChartImage;
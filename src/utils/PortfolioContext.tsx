@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback, useMemo } from "react";
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 
 export interface MonthlyPortfolioSize {
   month: string;
@@ -24,7 +24,7 @@ const PortfolioContext = createContext<PortfolioContextType | undefined>(undefin
 // Supabase helpers - now using portfolio_data table
 async function fetchPortfolioSizes(): Promise<MonthlyPortfolioSize[]> {
   try {
-    const data = await SupabaseService.getMonthlyPortfolioSizes();
+    const data = await StorageService.backend.capital.getMonthlyPortfolioSizes();
     // Convert from portfolio_data format to MonthlyPortfolioSize format
     const sizes = data.map(item => ({
       month: item.month,
@@ -40,7 +40,7 @@ async function fetchPortfolioSizes(): Promise<MonthlyPortfolioSize[]> {
 
 async function savePortfolioSizes(sizes: MonthlyPortfolioSize[]) {
   try {
-    await SupabaseService.saveMonthlyPortfolioSizes(sizes);
+    await StorageService.backend.capital.saveMonthlyPortfolioSizes(sizes);
   } catch (error) {
     // Handle error silently
   }
@@ -1,7 +1,11 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback, useMemo, useRef } from "react";
 import { getExitDatesWithFallback } from './accountingUtils';
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 import { v4 as uuidv4 } from 'uuid';
+import { useAccounts } from '../context/AccountContext';
+import { ALL_ACCOUNTS } from '../types/account';
+import { getAccountId } from './accounts';
+import { RealtimeService } from '../services/realtimeService';
 
 // FIXED SEQUENTIAL MONTHLY CAPITAL INHERITANCE SYSTEM:
 // This interface implements the proper capital flow logic where each month inherits from the previous month.
@@ -20,6 +24,7 @@ export interface YearlyStartingCapital {
   year: number;
   startingCapital: number;
   updatedAt: string;
+  accountId?: string;
 }
 
 export interface MonthlyStartingCapitalOverride {
@@ -28,6 +33,7 @@ export interface MonthlyStartingCapitalOverride {
   year: number;
   startingCapital: number;
   updatedAt: string;
+  accountId?: string;
 }
 
 export interface CapitalChange {
@@ -36,6 +42,7 @@ export interface CapitalChange {
   amount: number;
   type: 'deposit' | 'withdrawal';
   description: string;
+  accountId?: string;
 }
 
 interface TruePortfolioContextType {
@@ -72,61 +79,159 @@ type TruePortfolioActionsType = Pick<TruePortfolioContextType, ActionKeys>;
 const TruePortfolioStateContext = createContext<TruePortfolioStateType | undefined>(undefined);
 const TruePortfolioActionsContext = createContext<TruePortfolioActionsType | undefined>(undefined);
 
+// Consolidated month across accounts - every amount is additive
+function sumMonthlyTruePortfolios(parts: MonthlyTruePortfolio[]): MonthlyTruePortfolio {
+  return parts.reduce((total, part) => ({
+    ...total,
+    openingCapital: total.openingCapital + part.openingCapital,
+    capitalChanges: total.capitalChanges + part.capitalChanges,
+    effectiveStartingCapital: total.effectiveStartingCapital + part.effectiveStartingCapital,
+    pl: total.pl + part.pl,
+    finalCapital: total.finalCapital + part.finalCapital,
+  }));
+}
+
+// portfolio_data rows -> context models
+const toYearlyStartingCapital = (item: any): YearlyStartingCapital =>
+  ({ id: item.id, year: item.year, startingCapital: item.amount, updatedAt: item.updated_at, accountId: getAccountId({ accountId: item.account_id }) });
+
+const toCapitalChange = (item: any): CapitalChange =>
+  ({ id: item.id, date: item.date, amount: item.amount, type: item.amount >= 0 ? 'deposit' : 'withdrawal', description: item.description || '', accountId: getAccountId({ accountId: item.account_id }) });
+
+const toMonthlyStartingCapitalOverride = (item: any): MonthlyStartingCapitalOverride =>
+  ({ id: item.id, month: item.month, year: item.year, startingCapital: item.amount, updatedAt: item.updated_at, accountId: getAccountId({ accountId: item.account_id }) });
+
+// Replace the item with the same id, or append it
+const upsertById = <T extends { id: string }>(items: T[], item: T): T[] =>
+  items.some(existing => existing.id === item.id)
+    ? items.map(existing => (existing.id === item.id ? item : existing))
+    : [...items, item];
+
 async function fetchYearlyStartingCapitals(): Promise<YearlyStartingCapital[]> {
   try {
-    const data = await SupabaseService.getYearlyStartingCapitals();
-    return data.map(item => ({ id: item.id, year: item.year, startingCapital: item.amount, updatedAt: item.updated_at }));
+    const data = await StorageService.backend.capital.getYearlyStartingCapitals();
+    return data.map(toYearlyStartingCapital);
   } catch (error) { return []; }
 }
 
 async function fetchCapitalChanges(): Promise<CapitalChange[]> {
   try {
-    const data = await SupabaseService.getCapitalChanges();
-    return data.map(item => ({ id: item.id, date: item.date, amount: item.amount, type: item.amount >= 0 ? 'deposit' : 'withdrawal', description: item.description || '' }));
+    const data = await StorageService.backend.capital.getCapitalChanges();
+    return data.map(toCapitalChange);
   } catch (error) { return []; }
 }
 
 async function fetchMonthlyStartingCapitalOverrides(): Promise<MonthlyStartingCapitalOverride[]> {
   try {
-    const data = await SupabaseService.getMonthlyStartingCapitalOverrides();
-    return data.map(item => ({ id: item.id, month: item.month, year: item.year, startingCapital: item.amount, updatedAt: item.updated_at }));
+    const data = await StorageService.backend.capital.getMonthlyOverrides();
+    return data.map(toMonthlyStartingCapitalOverride);
   } catch (error) { return []; }
 }
 
 export const TruePortfolioProvider = ({ children }: { children: ReactNode }) => {
-  const [yearlyStartingCapitals, setYearlyStartingCapitals] = useState<YearlyStartingCapital[]>([]);
-  const [capitalChanges, setCapitalChanges] = useState<CapitalChange[]>([]);
-  const [monthlyStartingCapitalOverrides, setMonthlyStartingCapitalOverrides] = useState<MonthlyStartingCapitalOverride[]>([]);
+  // Capital rows of every account - the getters below scope them to the selected account
+  const [allYearlyStartingCapitals, setYearlyStartingCapitals] = useState<YearlyStartingCapital[]>([]);
+  const [allCapitalChanges, setCapitalChanges] = useState<CapitalChange[]>([]);
+  const [allMonthlyStartingCapitalOverrides, setMonthlyStartingCapitalOverrides] = useState<MonthlyStartingCapitalOverride[]>([]);
   const [hydrated, setHydrated] = useState(false);
   const isLoadingRef = useRef(false);
   const calculationCache = useRef(new Map<string, MonthlyTruePortfolio>());
+  const accountTradesCache = useRef(new WeakMap<any[], Map<string, any[]>>());
+
+  const { accounts, activeAccountId, writableAccountId } = useAccounts();
+  const isAllAccounts = activeAccountId === ALL_ACCOUNTS;
+  const accountIdsKey = accounts.map(account => account.id).join('|');
+  const accountIds = useMemo(() => accountIdsKey.split('|'), [accountIdsKey]);
+
+  // Capital setup is always edited per account; the consolidated view edits the default account
+  const yearlyStartingCapitals = useMemo(
+    () => allYearlyStartingCapitals.filter(item => item.accountId === writableAccountId),
+    [allYearlyStartingCapitals, writableAccountId]
+  );
+  const monthlyStartingCapitalOverrides = useMemo(
+    () => allMonthlyStartingCapitalOverrides.filter(item => item.accountId === writableAccountId),
+    [allMonthlyStartingCapitalOverrides, writableAccountId]
+  );
+  const capitalChanges = useMemo(
+    () => isAllAccounts ? allCapitalChanges : allCapitalChanges.filter(change => change.accountId === activeAccountId),
+    [allCapitalChanges, isAllAccounts, activeAccountId]
+  );
+
+  // Trades of one account, cached per trades array so repeated size lookups stay cheap
+  const getAccountTrades = useCallback((trades: any[], accountId: string): any[] => {
+    let byAccount = accountTradesCache.current.get(trades);
+    if (!byAccount) {
+      byAccount = new Map();
+      trades.forEach(trade => {
+        const id = getAccountId(trade);
+        if (!byAccount!.has(id)) byAccount!.set(id, []);
+        byAccount!.get(id)!.push(trade);
+      });
+      accountTradesCache.current.set(trades, byAccount);
+    }
+    return byAccount.get(accountId) || [];
+  }, []);
+
+  const loadData = useCallback(async () => {
+    if (isLoadingRef.current) return;
+    isLoadingRef.current = true;
+    try {
+      const [capitals, changes, overrides] = await Promise.all([
+        fetchYearlyStartingCapitals(),
+        fetchCapitalChanges(),
+        fetchMonthlyStartingCapitalOverrides()
+      ]);
+      setYearlyStartingCapitals(Array.isArray(capitals) ? capitals : []);
+      setCapitalChanges(Array.isArray(changes) ? changes : []);
+      setMonthlyStartingCapitalOverrides(Array.isArray(overrides) ? overrides : []);
+    } catch (error) {
+
+    } finally {
+      setHydrated(true);
+      isLoadingRef.current = false;
+    }
+  }, []);
 
   useEffect(() => {
-    const loadData = async () => {
-      if (isLoadingRef.current) return;
-      isLoadingRef.current = true;
-      try {
-        const [capitals, changes, overrides] = await Promise.all([
-          fetchYearlyStartingCapitals(),
-          fetchCapitalChanges(),
-          fetchMonthlyStartingCapitalOverrides()
-        ]);
-        setYearlyStartingCapitals(Array.isArray(capitals) ? capitals : []);
-        setCapitalChanges(Array.isArray(changes) ? changes : []);
-        setMonthlyStartingCapitalOverrides(Array.isArray(overrides) ? overrides : []);
-      } catch (error) {
+    loadData();
+    // Reload when accounts are added or removed - removal moves rows to the default account
+  }, [accountIdsKey, loadData]);
 
-      } finally {
-        setHydrated(true);
-        isLoadingRef.current = false;
+  // Capital rows written in another tab or on another device - this provider already holds its own writes
+  useEffect(() => {
+    return RealtimeService.onChange(change => {
+      if (change.entity !== 'portfolio' || change.source === 'local') return;
+
+      if (change.op === 'reload') {
+        loadData();
+        return;
       }
-    };
-    loadData();
-  }, []);
+
+      if (change.op === 'delete') {
+        setYearlyStartingCapitals(prev => prev.filter(item => item.id !== change.key));
+        setCapitalChanges(prev => prev.filter(item => item.id !== change.key));
+        setMonthlyStartingCapitalOverrides(prev => prev.filter(item => item.id !== change.key));
+        return;
+      }
+
+      const row = change.value;
+      switch (row?.type) {
+        case 'yearly_capital':
+          setYearlyStartingCapitals(prev => upsertById(prev, toYearlyStartingCapital(row)));
+          break;
+        case 'capital_change':
+          setCapitalChanges(prev => upsertById(prev, toCapitalChange(row)));
+          break;
+        case 'monthly_override':
+          setMonthlyStartingCapitalOverrides(prev => upsertById(prev, toMonthlyStartingCapitalOverride(row)));
+          break;
+      }
+    });
+  }, [loadData]);
 
   useEffect(() => {
     calculationCache.current.clear();
-  }, [yearlyStartingCapitals, capitalChanges, monthlyStartingCapitalOverrides]);
+  }, [allYearlyStartingCapitals, allCapitalChanges, allMonthlyStartingCapitalOverrides]);
 
   const normalizeMonth = useCallback((month: string): string => {
     const shortMonths = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -148,36 +253,36 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
   const setYearlyStartingCapital = useCallback(async (year: number, amount: number) => {
     let existingItem = yearlyStartingCapitals.find(item => item.year === year);
-    const newItem: YearlyStartingCapital = { id: existingItem ? existingItem.id : uuidv4(), year, startingCapital: amount, updatedAt: new Date().toISOString() };
+    const newItem: YearlyStartingCapital = { id: existingItem ? existingItem.id : uuidv4(), year, startingCapital: amount, updatedAt: new Date().toISOString(), accountId: writableAccountId };
     try {
       // ATOMIC OPERATION: Persist ONLY the specific item to database first
-      await SupabaseService.saveYearlyStartingCapital(newItem);
+      await StorageService.backend.capital.saveYearlyStartingCapital(newItem);
       // Update local state ONLY on success
       setYearlyStartingCapitals(prev => {
         const updated = [...prev];
-        const existingIndex = updated.findIndex(item => item.year === year);
+        const existingIndex = updated.findIndex(item => item.id === newItem.id);
         if (existingIndex >= 0) updated[existingIndex] = newItem; else updated.push(newItem);
         return updated.sort((a, b) => a.year - b.year);
       });
     } catch (error) { }
-  }, [yearlyStartingCapitals]);
+  }, [yearlyStartingCapitals, writableAccountId]);
 
   const setMonthlyStartingCapitalOverride = useCallback(async (month: string, year: number, amount: number) => {
     const normalizedMonth = normalizeMonth(month);
     let existingItem = monthlyStartingCapitalOverrides.find(item => item.month === normalizedMonth && item.year === year);
-    const newOverride: MonthlyStartingCapitalOverride = { id: existingItem ? existingItem.id : uuidv4(), month: normalizedMonth, year, startingCapital: amount, updatedAt: new Date().toISOString() };
+    const newOverride: MonthlyStartingCapitalOverride = { id: existingItem ? existingItem.id : uuidv4(), month: normalizedMonth, year, startingCapital: amount, updatedAt: new Date().toISOString(), accountId: writableAccountId };
     try {
       // ATOMIC OPERATION: Persist ONLY the specific item to database first
-      await SupabaseService.saveMonthlyStartingCapitalOverride(newOverride);
+      await StorageService.backend.capital.saveMonthlyOverride(newOverride);
       // Update local state ONLY on success
       setMonthlyStartingCapitalOverrides(prev => {
         const updated = [...prev];
-        const existingIndex = updated.findIndex(item => item.month === normalizedMonth && item.year === year);
+        const existingIndex = updated.findIndex(item => item.id === newOverride.id);
         if (existingIndex >= 0) updated[existingIndex] = newOverride; else updated.push(newOverride);
         return updated.sort((a, b) => a.year - b.year || a.month.localeCompare(b.month));
       });
     } catch (error) { }
-  }, [monthlyStartingCapitalOverrides, normalizeMonth]);
+  }, [monthlyStartingCapitalOverrides, normalizeMonth, writableAccountId]);
 
   const removeMonthlyStartingCapitalOverride = useCallback(async (month: string, year: number) => {
     const normalizedMonth = normalizeMonth(month);
@@ -185,54 +290,66 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     if (!itemToRemove) return;
     try {
       // ATOMIC OPERATION: Delete ONLY the specific item from database first
-      await SupabaseService.deleteMonthlyStartingCapitalOverride(itemToRemove.id);
+      await StorageService.backend.capital.deleteMonthlyOverride(itemToRemove.id);
       // Update local state ONLY on success
       setMonthlyStartingCapitalOverrides(prev => prev.filter(item => item.id !== itemToRemove.id));
     } catch (error) { }
   }, [monthlyStartingCapitalOverrides, normalizeMonth]);
 
   const addCapitalChange = useCallback(async (change: Omit<CapitalChange, 'id'>) => {
-    const newChange = { ...change, id: uuidv4() };
+    const newChange = { ...change, id: uuidv4(), accountId: change.accountId || writableAccountId };
     try {
       // ATOMIC OPERATION: Persist ONLY the new item to database first
-      await SupabaseService.addCapitalChange(newChange);
+      await StorageService.backend.capital.addCapitalChange(newChange);
       // Update local state ONLY on success
       setCapitalChanges(prev => [...prev, newChange]);
     } catch (error) { }
-  }, []);
+  }, [writableAccountId]);
 
-  const updateCapitalChange = useCallback(async (updatedChange: CapitalChange) => {
+  const updateCapitalChange = useCallback(async (change: CapitalChange) => {
+    // Editors don't carry the account - keep the one the change was recorded against
+    const existing = allCapitalChanges.find(item => item.id === change.id);
+    const updatedChange = { ...change, accountId: change.accountId || existing?.accountId || writableAccountId };
     try {
       // ATOMIC OPERATION: Update ONLY the specific item in database first
-      await SupabaseService.updateCapitalChange(updatedChange);
+      await StorageService.backend.capital.updateCapitalChange(updatedChange);
       // Update local state ONLY on success
-      setCapitalChanges(prev => prev.map(change => (change.id === updatedChange.id ? updatedChange : change)));
+      setCapitalChanges(prev => prev.map(item => (item.id === updatedChange.id ? updatedChange : item)));
     } catch (error) { }
-  }, []);
+  }, [allCapitalChanges, writableAccountId]);
 
   const deleteCapitalChange = useCallback(async (id: string) => {
     try {
       // ATOMIC OPERATION: Delete ONLY the specific item from database first
-      await SupabaseService.deleteCapitalChange(id);
+      await StorageService.backend.capital.deleteCapitalChange(id);
       // Update local state ONLY on success
       setCapitalChanges(prev => prev.filter(change => change.id !== id));
     } catch (error) { }
   }, []);
 
+  const getAccountYearlyStartingCapital = useCallback((year: number, accountId: string): number => {
+    return allYearlyStartingCapitals.find(item => item.year === year && item.accountId === accountId)?.startingCapital || 0;
+  }, [allYearlyStartingCapitals]);
+
   const getYearlyStartingCapital = useCallback((year: number): number => {
-    return yearlyStartingCapitals.find(item => item.year === year)?.startingCapital || 0;
-  }, [yearlyStartingCapitals]);
+    return getAccountYearlyStartingCapital(year, writableAccountId);
+  }, [getAccountYearlyStartingCapital, writableAccountId]);
 
-  const getMonthlyStartingCapitalOverride = useCallback((month: string, year: number): number | null => {
+  const getAccountMonthlyOverride = useCallback((month: string, year: number, accountId: string): number | null => {
     const normalizedMonth = normalizeMonth(month);
-    const override = monthlyStartingCapitalOverrides.find(item => item.month === normalizedMonth && item.year === year);
+    const override = allMonthlyStartingCapitalOverrides.find(item => item.month === normalizedMonth && item.year === year && item.accountId === accountId);
     return override ? override.startingCapital : null;
-  }, [monthlyStartingCapitalOverrides, normalizeMonth]);
+  }, [allMonthlyStartingCapitalOverrides, normalizeMonth]);
+
+  const getMonthlyStartingCapitalOverride = useCallback((month: string, year: number): number | null => {
+    return getAccountMonthlyOverride(month, year, writableAccountId);
+  }, [getAccountMonthlyOverride, writableAccountId]);
 
-  const getCapitalChangesForMonth = useCallback((month: string, year: number): number => {
+  const getCapitalChangesForMonth = useCallback((month: string, year: number, accountId: string): number => {
     const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    return capitalChanges
+    return allCapitalChanges
       .filter(change => {
+        if (change.accountId !== accountId) return false;
         if (!change.date) return false;
         const changeDate = new Date(change.date);
         const changeMonth = monthNames[changeDate.getUTCMonth()];
@@ -240,7 +357,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
         return changeMonth === month && changeYear === year;
       })
       .reduce((sum, change) => sum + change.amount, 0);
-  }, [capitalChanges]);
+  }, [allCapitalChanges]);
 
   const getTradesPLForMonth = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false): number => {
     if (!trades || trades.length === 0) return 0;
@@ -279,13 +396,14 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     }
   }, []);
 
-  const calculateMonthlyTruePortfolio = useCallback((month: string, year: number, trades: any[], memo: Map<string, MonthlyTruePortfolio>, useCashBasis: boolean): MonthlyTruePortfolio => {
+  // Monthly capital flow of a single account - `trades` must already be that account's trades
+  const calculateMonthlyTruePortfolio = useCallback((month: string, year: number, trades: any[], memo: Map<string, MonthlyTruePortfolio>, useCashBasis: boolean, accountId: string): MonthlyTruePortfolio => {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
     const normalizedMonth = normalizeMonth(month);
     const monthIndex = months.indexOf(normalizedMonth);
     if (monthIndex === -1) throw new Error(`Invalid month: ${month}`);
 
-    const key = `${normalizedMonth}-${year}-${useCashBasis}`;
+    const key = `${accountId}-${normalizedMonth}-${year}-${useCashBasis}`;
     if (memo.has(key)) return memo.get(key)!;
 
     // CRITICAL FIX: Add base case to prevent infinite recursion
@@ -296,7 +414,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
     if (year < minYear) {
       // Return a base case with yearly starting capital (no default fallback for old years)
-      const baseCapital = getYearlyStartingCapital(year) || 0;
+      const baseCapital = getAccountYearlyStartingCapital(year, accountId) || 0;
       const result: MonthlyTruePortfolio = {
         month: normalizedMonth,
         year,
@@ -312,8 +430,8 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
     // FIXED SEQUENTIAL MONTHLY CAPITAL INHERITANCE SYSTEM
     let openingCapital = 0;
-    const override = getMonthlyStartingCapitalOverride(normalizedMonth, year);
-    const capitalChangesAmount = getCapitalChangesForMonth(normalizedMonth, year);
+    const override = getAccountMonthlyOverride(normalizedMonth, year, accountId);
+    const capitalChangesAmount = getCapitalChangesForMonth(normalizedMonth, year, accountId);
 
     if (override !== null) {
       // Manual override takes precedence - this is the raw user input
@@ -322,20 +440,20 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     } else {
       if (monthIndex === 0) {
         // January Logic: Check if user set yearly starting capital first
-        const yearlyCapital = getYearlyStartingCapital(year);
+        const yearlyCapital = getAccountYearlyStartingCapital(year, accountId);
         if (yearlyCapital > 0) {
           // User explicitly set starting capital for this year
           openingCapital = yearlyCapital;
 
         } else {
           // No yearly capital set, inherit from previous December
-          const prevYearData = calculateMonthlyTruePortfolio('Dec', year - 1, trades, memo, useCashBasis);
+          const prevYearData = calculateMonthlyTruePortfolio('Dec', year - 1, trades, memo, useCashBasis, accountId);
           openingCapital = prevYearData.finalCapital;
 
         }
       } else {
         // February onwards: ALWAYS inherit from previous month's final capital
-        const prevMonthData = calculateMonthlyTruePortfolio(months[monthIndex - 1], year, trades, memo, useCashBasis);
+        const prevMonthData = calculateMonthlyTruePortfolio(months[monthIndex - 1], year, trades, memo, useCashBasis, accountId);
         openingCapital = prevMonthData.finalCapital;
 
       }
@@ -364,11 +482,16 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
     memo.set(key, result);
     return result;
-  }, [getYearlyStartingCapital, getCapitalChangesForMonth, getTradesPLForMonth, normalizeMonth, getMonthlyStartingCapitalOverride]);
+  }, [getAccountYearlyStartingCapital, getCapitalChangesForMonth, getTradesPLForMonth, normalizeMonth, getAccountMonthlyOverride]);
 
+  // The selected account, or every account added together in the consolidated view
   const getMonthlyTruePortfolio = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false): MonthlyTruePortfolio => {
-    return calculateMonthlyTruePortfolio(month, year, trades, calculationCache.current, useCashBasis);
-  }, [calculateMonthlyTruePortfolio]);
+    const scopeAccountIds = isAllAccounts ? accountIds : [activeAccountId];
+    const perAccount = scopeAccountIds.map(accountId =>
+      calculateMonthlyTruePortfolio(month, year, getAccountTrades(trades, accountId), calculationCache.current, useCashBasis, accountId)
+    );
+    return perAccount.length === 1 ? perAccount[0] : sumMonthlyTruePortfolios(perAccount);
+  }, [calculateMonthlyTruePortfolio, getAccountTrades, isAllAccounts, accountIds, activeAccountId]);
   
   const getTruePortfolioSize = useCallback((month: string, year: number, trades: any[] = [], useCashBasis: boolean = false): number => {
     try {
@@ -392,8 +515,8 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     const result: MonthlyTruePortfolio[] = [];
     const allDates = [
         ...trades.map(t => new Date(t.date)),
-        ...capitalChanges.map(c => new Date(c.date)),
-        ...yearlyStartingCapitals.map(y => new Date(y.year, 0, 1))
+        ...allCapitalChanges.map(c => new Date(c.date)),
+        ...allYearlyStartingCapitals.map(y => new Date(y.year, 0, 1))
     ].filter(d => !isNaN(d.getTime()));
     if (allDates.length === 0) allDates.push(new Date());
 
@@ -427,7 +550,7 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
       const year = iterationDate.getUTCFullYear();
       const month = months[iterationDate.getUTCMonth()];
       try {
-        result.push(calculateMonthlyTruePortfolio(month, year, trades, calculationCache.current, useCashBasis));
+        result.push(getMonthlyTruePortfolio(month, year, trades, useCashBasis));
       } catch (error) {
 
       }
@@ -437,26 +560,27 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
 
     return result;
-  }, [yearlyStartingCapitals, capitalChanges, calculateMonthlyTruePortfolio]);
+  }, [allYearlyStartingCapitals, allCapitalChanges, getMonthlyTruePortfolio]);
 
   const cleanupDuplicates = useCallback(async () => {
     const uniqueCapitalChanges = new Map<string, CapitalChange>();
-    capitalChanges.forEach(change => {
-      const key = `${change.date}-${change.amount}-${change.type}-${change.description || ''}`;
+    allCapitalChanges.forEach(change => {
+      const key = `${change.accountId}-${change.date}-${change.amount}-${change.type}-${change.description || ''}`;
       if (!uniqueCapitalChanges.has(key)) uniqueCapitalChanges.set(key, change);
     });
     const cleanCapitalChanges = Array.from(uniqueCapitalChanges.values());
 
-    const uniqueYearlyCapitals = new Map<number, YearlyStartingCapital>();
-    yearlyStartingCapitals.forEach(c => {
-      const existing = uniqueYearlyCapitals.get(c.year);
-      if (!existing || new Date(c.updatedAt) > new Date(existing.updatedAt)) uniqueYearlyCapitals.set(c.year, c);
+    const uniqueYearlyCapitals = new Map<string, YearlyStartingCapital>();
+    allYearlyStartingCapitals.forEach(c => {
+      const key = `${c.accountId}-${c.year}`;
+      const existing = uniqueYearlyCapitals.get(key);
+      if (!existing || new Date(c.updatedAt) > new Date(existing.updatedAt)) uniqueYearlyCapitals.set(key, c);
     });
     const cleanYearlyCapitals = Array.from(uniqueYearlyCapitals.values());
 
     const uniqueMonthlyOverrides = new Map<string, MonthlyStartingCapitalOverride>();
-    monthlyStartingCapitalOverrides.forEach(o => {
-      const key = `${o.month}-${o.year}`;
+    allMonthlyStartingCapitalOverrides.forEach(o => {
+      const key = `${o.accountId}-${o.month}-${o.year}`;
       const existing = uniqueMonthlyOverrides.get(key);
       if (!existing || new Date(o.updatedAt) > new Date(existing.updatedAt)) uniqueMonthlyOverrides.set(key, o);
     });
@@ -464,9 +588,9 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
 
     try {
       await Promise.all([
-        SupabaseService.saveYearlyStartingCapitals(cleanYearlyCapitals),
-        SupabaseService.saveCapitalChanges(cleanCapitalChanges),
-        SupabaseService.saveMonthlyStartingCapitalOverrides(cleanMonthlyOverrides),
+        StorageService.backend.capital.saveYearlyStartingCapitals(cleanYearlyCapitals),
+        StorageService.backend.capital.saveCapitalChanges(cleanCapitalChanges),
+        StorageService.backend.capital.saveMonthlyOverrides(cleanMonthlyOverrides),
       ]);
       setYearlyStartingCapitals(cleanYearlyCapitals);
       setCapitalChanges(cleanCapitalChanges);
@@ -474,11 +598,11 @@ export const TruePortfolioProvider = ({ children }: { children: ReactNode }) =>
     } catch (error) { }
 
     return {
-      yearlyCapitals: { before: yearlyStartingCapitals.length, after: cleanYearlyCapitals.length },
-      capitalChanges: { before: capitalChanges.length, after: cleanCapitalChanges.length },
-      monthlyOverrides: { before: monthlyStartingCapitalOverrides.length, after: cleanMonthlyOverrides.length }
+      yearlyCapitals: { before: allYearlyStartingCapitals.length, after: cleanYearlyCapitals.length },
+      capitalChanges: { before: allCapitalChanges.length, after: cleanCapitalChanges.length },
+      monthlyOverrides: { before: allMonthlyStartingCapitalOverrides.length, after: cleanMonthlyOverrides.length }
     };
-  }, [yearlyStartingCapitals, capitalChanges, monthlyStartingCapitalOverrides]);
+  }, [allYearlyStartingCapitals, allCapitalChanges, allMonthlyStartingCapitalOverrides]);
 
   const portfolioSize = useMemo(() => {
     if (!hydrated) return 0;
@@ -0,0 +1,90 @@
+/**
+ * Import Preview Tests
+ * How each incoming row is classified against the journal before anything is saved
+ */
+
+import type { Trade } from '../../types/trade';
+import { buildImportPreview, hasImportErrors, updateImportRow } from '../importDiff';
+
+const trade = (id: string, changes: Partial<Trade> = {}) =>
+  ({
+    id,
+    tradeNo: '1',
+    name: 'TCS',
+    date: '2025-03-03',
+    buySell: 'Buy',
+    entry: 3500,
+    initialQty: 10,
+    sl: 3400,
+    positionStatus: 'Open',
+    ...changes
+  }) as Trade;
+
+const journal = [trade('11111111-1111-4111-8111-111111111111')];
+
+describe('Import Preview', () => {
+  test('a trade the journal does not have should be new and included', () => {
+    const [row] = buildImportPreview([trade('22222222-2222-4222-8222-222222222222', { name: 'SBIN' })], journal);
+
+    expect(row.kind).toBe('new');
+    expect(row.excluded).toBe(false);
+    expect(row.match).toBeUndefined();
+  });
+
+  test('a trade reusing a journal trade\'s id should be modified, with the fields it changes', () => {
+    const [row] = buildImportPreview([{ ...journal[0], sl: 3450, notes: 'Moved stop' }], journal);
+
+    expect(row.kind).toBe('modified');
+    expect(row.match).toBe(journal[0]);
+    expect(row.changedFields.sort()).toEqual(['notes', 'sl']);
+    expect(row.excluded).toBe(false);
+  });
+
+  test('a trade matching a journal trade on name, day, side, entry and size should be a duplicate and excluded', () => {
+    const [row] = buildImportPreview([trade('33333333-3333-4333-8333-333333333333', { name: ' tcs ', date: '2025-03-03T10:15:00' })], journal);
+
+    expect(row.kind).toBe('duplicate');
+    expect(row.match).toBe(journal[0]);
+    expect(row.excluded).toBe(true);
+  });
+
+  test('a row repeating an earlier row of the same file should be a duplicate', () => {
+    const rows = buildImportPreview([
+      trade('44444444-4444-4444-8444-444444444444', { name: 'INFY' }),
+      trade('55555555-5555-4555-8555-555555555555', { name: 'INFY' })
+    ], journal);
+
+    expect(rows.map(row => row.kind)).toEqual(['new', 'duplicate']);
+    expect(rows[1].match).toBeUndefined();
+  });
+
+  test('a different entry price or size should not be taken for a duplicate', () => {
+    const rows = buildImportPreview([
+      trade('66666666-6666-4666-8666-666666666666', { entry: 3510 }),
+      trade('77777777-7777-4777-8777-777777777777', { initialQty: 5 })
+    ], journal);
+
+    expect(rows.map(row => row.kind)).toEqual(['new', 'new']);
+  });
+
+  test('problems found while reading should stay on the row until it is edited', () => {
+    const id = '88888888-8888-4888-8888-888888888888';
+    const parseIssue = { type: 'error' as const, message: 'Could not read date "31/02/2025"' };
+    const [row] = buildImportPreview([trade(id, { name: 'HDFC' })], journal, { [id]: [parseIssue] });
+
+    expect(row.parseIssues).toEqual([parseIssue]);
+    expect(hasImportErrors(row)).toBe(true);
+
+    const edited = updateImportRow(row, { ...row.trade, date: '2025-02-28' });
+    expect(edited.parseIssues).toEqual([]);
+    expect(edited.issues).not.toContainEqual(parseIssue);
+  });
+
+  test('editing a modified row should recompute the fields it changes', () => {
+    const [row] = buildImportPreview([{ ...journal[0], sl: 3450 }], journal);
+    const edited = updateImportRow(row, { ...row.trade, sl: journal[0].sl, entry: 3520 });
+
+    expect(edited.kind).toBe('modified');
+    expect(edited.changedFields).toEqual(['entry']);
+  });
+});
@@ -1,4 +1,5 @@
 import { Trade } from '../types/trade';
+import { getExitLegs } from '../lib/calculations/core/tradeLegs';
 
 /**
  * Helper function to get exit dates with fallback logic
@@ -6,12 +7,10 @@ import { Trade } from '../types/trade';
  * @returns Array of exit objects with date, qty, and price
  */
 export function getExitDatesWithFallback(trade: Trade): Array<{ date: string; qty: number; price: number }> {
-  // First, try to get individual exit dates
-  const exits = [
-    { date: trade.exit1Date, qty: trade.exit1Qty || 0, price: trade.exit1Price || 0 },
-    { date: trade.exit2Date, qty: trade.exit2Qty || 0, price: trade.exit2Price || 0 },
-    { date: trade.exit3Date, qty: trade.exit3Qty || 0, price: trade.exit3Price || 0 }
-  ].filter(exit => exit.date && exit.date.trim() !== '' && exit.qty > 0);
+  // First, try to get individual exit dates from the exit legs
+  const exits = getExitLegs(trade)
+    .filter(exit => exit.date && exit.date.trim() !== '')
+    .map(exit => ({ date: exit.date, qty: exit.qty, price: exit.price }));
 
   // If we have individual exit data, return it
   if (exits.length > 0) {
@@ -136,26 +135,16 @@ export function calculateTradePL(trade: Trade, useCashBasis: boolean = false): n
         const avgEntry = trade.avgEntry || trade.entry || 0;
         let totalRealizedPL = 0;
 
-        // Calculate P/L for each exit
-        if (trade.exit1Date && trade.exit1Qty && trade.exit1Price && avgEntry > 0) {
-          const pl = trade.buySell === 'Buy'
-            ? (trade.exit1Price - avgEntry) * trade.exit1Qty
-            : (avgEntry - trade.exit1Price) * trade.exit1Qty;
-          totalRealizedPL += pl;
-        }
-
-        if (trade.exit2Date && trade.exit2Qty && trade.exit2Price && avgEntry > 0) {
-          const pl = trade.buySell === 'Buy'
-            ? (trade.exit2Price - avgEntry) * trade.exit2Qty
-            : (avgEntry - trade.exit2Price) * trade.exit2Qty;
-          totalRealizedPL += pl;
-        }
-
-        if (trade.exit3Date && trade.exit3Qty && trade.exit3Price && avgEntry > 0) {
-          const pl = trade.buySell === 'Buy'
-            ? (trade.exit3Price - avgEntry) * trade.exit3Qty
-            : (avgEntry - trade.exit3Price) * trade.exit3Qty;
-          totalRealizedPL += pl;
+        // Calculate P/L for each exit leg
+        if (avgEntry > 0) {
+          getExitLegs(trade)
+            .filter(exit => exit.date)
+            .forEach(exit => {
+              const pl = trade.buySell === 'Buy'
+                ? (exit.price - avgEntry) * exit.qty
+                : (avgEntry - exit.price) * exit.qty;
+              totalRealizedPL += pl;
+            });
         }
 
         // Fallback: If no individual exit data but we have partial exit information
@@ -205,11 +194,9 @@ export function getTradeDateForAccounting(trade: Trade, useCashBasis: boolean =
     // For cash basis without _cashBasisExit, try to find the most recent exit date
     if (trade.positionStatus === 'Closed' || trade.positionStatus === 'Partial') {
       // Find the latest exit date from available exits
-      const exitDates = [
-        trade.exit1Date,
-        trade.exit2Date,
-        trade.exit3Date
-      ].filter(date => date && date.trim() !== '');
+      const exitDates = getExitLegs(trade)
+        .map(exit => exit.date)
+        .filter(date => date && date.trim() !== '');
 
       if (exitDates.length > 0) {
         // Return the latest exit date for cash basis
@@ -0,0 +1,50 @@
+import { BrokerAccount, DEFAULT_ACCOUNT_ID, ALL_ACCOUNTS } from '../types/account';
+
+export const createDefaultAccount = (): BrokerAccount => ({
+  id: DEFAULT_ACCOUNT_ID,
+  name: 'Primary',
+  createdAt: new Date(0).toISOString()
+});
+
+/**
+ * Account a trade / capital row belongs to (rows without one belong to the default account)
+ */
+export function getAccountId(item: { accountId?: string | null } | null | undefined): string {
+  return item?.accountId || DEFAULT_ACCOUNT_ID;
+}
+
+/**
+ * Keep only the rows of one account ('all' keeps everything)
+ */
+export function filterByAccount<T extends { accountId?: string | null }>(items: T[], accountId: string): T[] {
+  if (accountId === ALL_ACCOUNTS) return items;
+  return items.filter(item => getAccountId(item) === accountId);
+}
+
+/**
+ * Account that new trades and capital entries are written to.
+ * The consolidated view has no single owner, so writes fall back to the default account.
+ */
+export function getWritableAccountId(activeAccountId: string): string {
+  return activeAccountId === ALL_ACCOUNTS ? DEFAULT_ACCOUNT_ID : activeAccountId;
+}
+
+/**
+ * Clean up a stored account list - drops malformed entries and guarantees the default account
+ */
+export function normalizeAccounts(stored: any): BrokerAccount[] {
+  const accounts: BrokerAccount[] = Array.isArray(stored)
+    ? stored.filter(account => account && typeof account.id === 'string' && account.id !== ALL_ACCOUNTS)
+    : [];
+  if (!accounts.some(account => account.id === DEFAULT_ACCOUNT_ID)) {
+    accounts.unshift(createDefaultAccount());
+  }
+  return accounts;
+}
+
+/**
+ * Database value for an account id - the default account is stored as NULL so older rows need no migration
+ */
+export function toDbAccountId(accountId?: string | null): string | null {
+  return accountId && accountId !== DEFAULT_ACCOUNT_ID ? accountId : null;
+}
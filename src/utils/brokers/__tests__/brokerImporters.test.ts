@@ -0,0 +1,176 @@
+/**
+ * Broker Tradebook Importer Tests
+ * Every fixture holds the same fills in its broker's own layout, date and number formats:
+ * a TCS position built in two buys and closed in two sells, and an open SBIN buy
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import {
+  detectBroker,
+  convertBrokerFile,
+  mergeBrokerFile,
+  readWorkbookSheets,
+  readNumber,
+  normalizeBrokerDate,
+  extractTime,
+  BrokerSheet
+} from '..';
+
+const fixturePath = (fileName: string) => fileURLToPath(new URL(`./fixtures/${fileName}`, import.meta.url));
+
+function loadFixture(fileName: string): BrokerSheet[] {
+  if (fileName.endsWith('.xlsx')) {
+    const buffer = readFileSync(fixturePath(fileName));
+    return readWorkbookSheets(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength), fileName);
+  }
+
+  const { data } = Papa.parse<string[]>(readFileSync(fixturePath(fileName), 'utf8'), { skipEmptyLines: true });
+  return [{ fileName, rows: data }];
+}
+
+const fixtures = [
+  { fileName: 'angelone.csv', broker: 'angelone', tcs: 'TCS', sbin: 'SBIN' },
+  { fileName: 'groww.xlsx', broker: 'groww', tcs: 'TCS', sbin: 'SBIN' },
+  { fileName: 'icicidirect.csv', broker: 'icicidirect', tcs: 'TATCON', sbin: 'STABAN' },
+  { fileName: 'fyers.csv', broker: 'fyers', tcs: 'TCS', sbin: 'SBIN' },
+  { fileName: 'kotakneo.csv', broker: 'kotakneo', tcs: 'TCS', sbin: 'SBIN' }
+];
+
+describe('Broker Tradebook Fixtures', () => {
+  test.each(fixtures)('$fileName should be recognised as $broker', ({ fileName, broker }) => {
+    expect(detectBroker(loadFixture(fileName))?.adapter.id).toBe(broker);
+  });
+
+  test.each(fixtures)('$fileName should map pyramids and exits onto the TCS trade', ({ fileName, tcs }) => {
+    const [trade] = convertBrokerFile(detectBroker(loadFixture(fileName))!);
+
+    expect(trade.name).toBe(tcs);
+    expect(trade.tradeNo).toBe('1');
+    expect(trade.date).toBe('2024-03-04');
+    expect(trade.buySell).toBe('Buy');
+    expect(trade.entry).toBe(3900);
+    expect(trade.initialQty).toBe(10);
+    expect(trade.pyramid1Price).toBe(3960);
+    expect(trade.pyramid1Qty).toBe(5);
+    expect(trade.pyramid1Date).toBe('2024-03-06');
+    expect(trade.exit1Price).toBe(4100);
+    expect(trade.exit1Qty).toBe(8);
+    expect(trade.exit1Date).toBe('2024-03-12');
+    expect(trade.exit2Price).toBe(4150);
+    expect(trade.exit2Qty).toBe(7);
+    expect(trade.exit2Date).toBe('2024-03-14');
+    expect(trade.avgEntry).toBe(3920);
+    expect(trade.positionStatus).toBe('Closed');
+    expect(trade.plRs).toBeCloseTo(3050, 2);
+  });
+
+  test.each(fixtures)('$fileName should leave the SBIN buy open', ({ fileName, sbin }) => {
+    const trades = convertBrokerFile(detectBroker(loadFixture(fileName))!);
+    const open = trades.find(trade => trade.name === sbin);
+
+    expect(open?.date).toBe('2024-03-07');
+    expect(open?.entry).toBe(760);
+    expect(open?.openQty).toBe(20);
+    expect(open?.positionStatus).toBe('Open');
+  });
+
+  test('Groww should skip orders that were not executed', () => {
+    const trades = convertBrokerFile(detectBroker(loadFixture('groww.xlsx'))!);
+    expect(trades).toHaveLength(2);
+  });
+
+  test('Fyers should read F&O contracts from exchange-prefixed symbols', () => {
+    const trades = convertBrokerFile(detectBroker(loadFixture('fyers.csv'))!);
+    const option = trades.find(trade => trade.name === 'NIFTY24MAR22000CE');
+
+    expect(trades).toHaveLength(3);
+    expect(option?.instrument?.type).toBe('Option');
+    expect(option?.instrument?.underlying).toBe('NIFTY');
+    expect(option?.instrument?.strike).toBe(22000);
+    expect(option?.instrument?.optionType).toBe('CE');
+    expect(option?.plRs).toBeCloseTo(1500, 2);
+  });
+});
+
+describe('Re-importing Tradebooks', () => {
+  const tradebook = () => detectBroker(loadFixture('angelone.csv'))!;
+
+  test('importing the same tradebook twice should add nothing', () => {
+    const first = mergeBrokerFile(tradebook(), []);
+    const second = mergeBrokerFile(tradebook(), first.added);
+
+    expect(first.added).toHaveLength(2);
+    expect(second.added).toHaveLength(0);
+    expect(second.extended).toHaveLength(0);
+    expect(second.skippedFills).toBe(5);
+  });
+
+  test('new exits should extend the trade left open by an earlier import', () => {
+    const full = tradebook();
+    // Last week's download stopped before the TCS exits
+    const lastWeek = { ...full, sheet: { ...full.sheet, rows: full.sheet.rows.slice(0, 4) } };
+    const journal = mergeBrokerFile(lastWeek, []).added;
+    const tcs = journal.find(trade => trade.name === 'TCS')!;
+
+    const { added, extended, skippedFills } = mergeBrokerFile(full, journal);
+
+    expect(tcs.positionStatus).toBe('Open');
+    expect(added).toHaveLength(0);
+    expect(skippedFills).toBe(3);
+    expect(extended).toHaveLength(1);
+    expect(extended[0].id).toBe(tcs.id);
+    expect(extended[0].tradeNo).toBe(tcs.tradeNo);
+    expect(extended[0].exit1Price).toBe(4100);
+    expect(extended[0].exit2Price).toBe(4150);
+    expect(extended[0].legs?.every(leg => leg.brokerFillId)).toBe(true);
+  });
+
+  test('trades imported before fill ids were kept should be matched on their fills', () => {
+    const journal = convertBrokerFile(tradebook()).map(trade => ({
+      ...trade,
+      legs: trade.legs?.map(({ brokerFillId, ...leg }) => leg)
+    }));
+
+    expect(mergeBrokerFile(tradebook(), journal).skippedFills).toBe(5);
+  });
+
+  test('fills after a closed trade should open a new trade numbered after the journal', () => {
+    const journal = convertBrokerFile(tradebook());
+    const detected = tradebook();
+    detected.sheet.rows.push(['18-03-2024', '09:30:00', 'NSE', 'EQ', '11536', 'TCS', 'B', '4', '4050.00', '4051.20', '50081234', '1300000912345']);
+
+    const { added, extended } = mergeBrokerFile(detected, journal);
+
+    expect(extended).toHaveLength(0);
+    expect(added).toHaveLength(1);
+    expect(added[0].tradeNo).toBe('3');
+    expect(added[0].entry).toBe(4050);
+  });
+});
+
+describe('Broker Cell Formats', () => {
+  test('normalizeBrokerDate should read every broker date format', () => {
+    expect(normalizeBrokerDate('04-03-2024')).toBe('2024-03-04');
+    expect(normalizeBrokerDate('04-03-2024 02:30 PM')).toBe('2024-03-04');
+    expect(normalizeBrokerDate('04-Mar-2024')).toBe('2024-03-04');
+    expect(normalizeBrokerDate('04 Mar 2024')).toBe('2024-03-04');
+    expect(normalizeBrokerDate('2024-03-04 09:20:15')).toBe('2024-03-04');
+    expect(normalizeBrokerDate(45355)).toBe('2024-03-04');
+    expect(normalizeBrokerDate('not a date')).toBe('');
+  });
+
+  test('extractTime should convert 12-hour times', () => {
+    expect(extractTime('04-03-2024 09:20 AM')).toBe('09:20:00');
+    expect(extractTime('14-03-2024 02:30 PM')).toBe('14:30:00');
+    expect(extractTime('12:05 AM')).toBe('00:05:00');
+    expect(extractTime('2024-03-04 14:30:41')).toBe('14:30:41');
+  });
+
+  test('readNumber should strip rupee signs and Indian digit grouping', () => {
+    expect(readNumber(['₹1,62,000.00'], 0)).toBe(162000);
+    expect(readNumber(['Rs. 3,900.50'], 0)).toBe(3900.5);
+    expect(readNumber([760], 0)).toBe(760);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Holdings Reconciliation Tests
+ * Every fixture holds the same three stocks in its broker's own layout:
+ * RELIANCE 20 @ 2450.50, TCS 5 @ 3600 and INFY 10 @ 1500.25 (two of them pledged in the Zerodha one)
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import { Trade } from '../../../types/trade';
+import {
+  detectHoldings,
+  reconcileHoldings,
+  closeJournalPosition,
+  matchJournalQuantity,
+  holdingToTrade,
+  BrokerSheet
+} from '..';
+
+function loadFixture(fileName: string): BrokerSheet[] {
+  const path = fileURLToPath(new URL(`./fixtures/${fileName}`, import.meta.url));
+  const { data } = Papa.parse<string[]>(readFileSync(path, 'utf8'), { skipEmptyLines: true });
+  return [{ fileName, rows: data }];
+}
+
+const fixtures = [
+  { fileName: 'zerodha-holdings.csv', format: 'zerodha' },
+  { fileName: 'dhan-holdings.csv', format: 'dhan' },
+  { fileName: 'upstox-holdings.csv', format: 'upstox' }
+];
+
+const openTrade = (name: string, date: string, qty: number, price: number, overrides: Partial<Trade> = {}): Trade => ({
+  id: `${name}-${date}`,
+  tradeNo: '1',
+  name,
+  date,
+  buySell: 'Buy',
+  entry: price,
+  avgEntry: price,
+  initialQty: qty,
+  openQty: qty,
+  cmp: price + 10,
+  positionStatus: 'Open',
+  ...overrides
+} as Trade);
+
+describe('Holdings Reconciliation', () => {
+  test.each(fixtures)('$fileName should be recognised as a $format holdings statement', ({ fileName, format }) => {
+    expect(detectHoldings(loadFixture(fileName))?.format.id).toBe(format);
+  });
+
+  test.each(fixtures)('$fileName should read every holding with its total quantity', ({ fileName }) => {
+    const { holdings } = detectHoldings(loadFixture(fileName))!;
+
+    expect(holdings.map(holding => [holding.symbol, holding.qty, holding.avgPrice])).toEqual([
+      ['RELIANCE', 20, 2450.5],
+      ['TCS', 5, 3600],
+      ['INFY', 10, 1500.25]
+    ]);
+  });
+
+  test('tradebooks and ledgers should not be mistaken for holdings', () => {
+    const path = fileURLToPath(new URL('./fixtures/angelone.csv', import.meta.url));
+    const { data } = Papa.parse<string[]>(readFileSync(path, 'utf8'), { skipEmptyLines: true });
+    expect(detectHoldings([{ fileName: 'angelone.csv', rows: data }])).toBeNull();
+    expect(detectHoldings(loadFixture('zerodha-ledger.csv'))).toBeNull();
+  });
+
+  test('should report missing, unheld and mismatched positions, ignoring shorts, F&O and closed trades', () => {
+    const { holdings } = detectHoldings(loadFixture('dhan-holdings.csv'))!;
+    const trades = [
+      openTrade('RELIANCE', '2024-01-10', 20, 2450.5),
+      openTrade('TCS', '2024-01-05', 5, 3600),
+      openTrade('TCS', '2024-02-01', 3, 3700),
+      openTrade('HDFCBANK', '2024-02-15', 10, 1450),
+      openTrade('INFY', '2024-01-02', 10, 1400, { positionStatus: 'Closed', openQty: 0 }),
+      openTrade('INFY', '2024-03-01', 10, 1500, { buySell: 'Sell' }),
+      openTrade('NIFTY24MAR22000CE', '2024-03-01', 50, 120, { instrument: { type: 'Option' } })
+    ];
+
+    const items = reconcileHoldings(holdings, trades);
+
+    expect(items.map(item => [item.symbol, item.status, item.journalQty])).toEqual([
+      ['INFY', 'missing', 0],
+      ['HDFCBANK', 'not_held', 10],
+      ['TCS', 'quantity', 8],
+      ['RELIANCE', 'matched', 20]
+    ]);
+  });
+
+  test('an average price outside the tolerance should be flagged', () => {
+    const { holdings } = detectHoldings(loadFixture('zerodha-holdings.csv'))!;
+    const items = reconcileHoldings(holdings, [openTrade('RELIANCE', '2024-01-10', 20, 2300)]);
+
+    expect(items.find(item => item.symbol === 'RELIANCE')?.status).toBe('price');
+  });
+
+  test('excess journal quantity should be sold from the oldest trade first', () => {
+    const { holdings } = detectHoldings(loadFixture('upstox-holdings.csv'))!;
+    const [item] = reconcileHoldings(holdings, [
+      openTrade('TCS', '2024-02-01', 3, 3700),
+      openTrade('TCS', '2024-01-05', 5, 3600)
+    ]).filter(candidate => candidate.symbol === 'TCS');
+
+    const changed = matchJournalQuantity(item, '2024-03-28');
+
+    expect(changed).toHaveLength(1);
+    expect(changed[0].date).toBe('2024-01-05');
+    expect(changed[0].openQty).toBe(2);
+    expect(changed[0].positionStatus).toBe('Partial');
+    expect(changed[0].exit1Qty).toBe(3);
+    expect(changed[0].exit1Price).toBe(3610);
+  });
+
+  test('a shortfall should be bought into the latest trade at the broker average', () => {
+    const { holdings } = detectHoldings(loadFixture('upstox-holdings.csv'))!;
+    const [item] = reconcileHoldings(holdings, [openTrade('INFY', '2024-02-01', 6, 1480)])
+      .filter(candidate => candidate.symbol === 'INFY');
+
+    const [changed] = matchJournalQuantity(item, '2024-03-28');
+
+    expect(changed.openQty).toBe(10);
+    expect(changed.pyramid1Qty).toBe(4);
+    expect(changed.pyramid1Price).toBe(1500.25);
+  });
+
+  test('closing an unheld position should exit all of it at the current price', () => {
+    const [item] = reconcileHoldings([], [openTrade('HDFCBANK', '2024-02-15', 10, 1450)]);
+    const [closed] = closeJournalPosition(item, '2024-03-28');
+
+    expect(closed.positionStatus).toBe('Closed');
+    expect(closed.openQty).toBe(0);
+    expect([closed.exit1Qty, closed.exit1Price, closed.exit1Date]).toEqual([10, 1460, '2024-03-28']);
+  });
+
+  test('a holding missing from the journal should become an open trade', () => {
+    const detected = detectHoldings(loadFixture('zerodha-holdings.csv'))!;
+    const infy = detected.holdings.find(holding => holding.symbol === 'INFY')!;
+    const trade = holdingToTrade(infy, 41, detected.format, '2024-03-28');
+
+    expect(trade.tradeNo).toBe('42');
+    expect([trade.name, trade.date, trade.initialQty, trade.entry]).toEqual(['INFY', '2024-03-28', 10, 1500.25]);
+    expect(trade.positionStatus).toBe('Open');
+    expect(trade.cmp).toBe(1498.6);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Other Journals' Export Tests
+ * Every fixture holds the same trades in its tool's own layout: a closed TCS breakout, an open
+ * SBIN pullback and a closed INFY short (not in the spreadsheet template, which is long-only)
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import { detectBroker, detectJournalExport, BrokerSheet } from '..';
+
+function loadFixture(fileName: string): BrokerSheet[] {
+  const path = fileURLToPath(new URL(`./fixtures/${fileName}`, import.meta.url));
+  const { data } = Papa.parse<string[]>(readFileSync(path, 'utf8'), { skipEmptyLines: true });
+  return [{ fileName, rows: data }];
+}
+
+const fixtures = [
+  { fileName: 'tradervue.csv', format: 'tradervue' },
+  { fileName: 'tradesviz.csv', format: 'tradesviz' },
+  { fileName: 'edgewonk.csv', format: 'edgewonk' },
+  { fileName: 'tradejournal-sheet.csv', format: 'tradejournal-sheet' }
+];
+
+const tradeOf = (fileName: string, name: string) =>
+  detectJournalExport(loadFixture(fileName))!.trades.find(trade => trade.name === name)!;
+
+describe('Other Journals\' Exports', () => {
+  test.each(fixtures)('$fileName should be recognised as a $format export, not a tradebook', ({ fileName, format }) => {
+    const sheets = loadFixture(fileName);
+    expect(detectBroker(sheets)).toBeNull();
+    expect(detectJournalExport(sheets)?.format.id).toBe(format);
+  });
+
+  test.each(fixtures)('$fileName should turn each row into a trade', ({ fileName, format }) => {
+    const { trades } = detectJournalExport(loadFixture(fileName))!;
+
+    const expected = [
+      ['TCS', '2024-01-15', 'Buy', 'Closed', 10, 3650, 3720],
+      ['SBIN', '2024-03-01', 'Buy', 'Open', 50, 760.5, 0],
+      ['INFY', '2024-03-04', 'Sell', 'Closed', 20, 1620, 1580]
+    ];
+    expect(trades.map(trade => [
+      trade.name, trade.date, trade.buySell, trade.positionStatus, trade.initialQty, trade.entry, trade.exit1Price
+    ])).toEqual(format === 'tradejournal-sheet' ? expected.slice(0, 2) : expected);
+  });
+
+  test('trades should be numbered after the journal\'s last trade', () => {
+    const { trades } = detectJournalExport(loadFixture('tradesviz.csv'), 41)!;
+    expect(trades.map(trade => trade.tradeNo)).toEqual(['42', '43', '44']);
+  });
+
+  test('setups, stops and notes should carry over, with screenshot links kept in the notes', () => {
+    const trade = tradeOf('tradesviz.csv', 'TCS');
+
+    expect(trade.setup).toBe('Breakout');
+    expect(trade.sl).toBe(3580);
+    expect(trade.notes).toBe('Clean breakout from base\nScreenshot: https://www.tradingview.com/x/tcs123/');
+  });
+
+  test('tags and mistakes should become comma separated growth areas', () => {
+    expect(tradeOf('tradervue.csv', 'TCS').proficiencyGrowthAreas).toBe('breakout, booked early');
+    expect(tradeOf('tradervue.csv', 'INFY').proficiencyGrowthAreas).toBe('gap fill, fomo');
+    expect(tradeOf('tradesviz.csv', 'TCS').proficiencyGrowthAreas).toBe('earnings, Booked Early');
+  });
+
+  test('exit reasons should become the exit trigger', () => {
+    expect(tradeOf('edgewonk.csv', 'TCS').exitTrigger).toBe('Target');
+    expect(tradeOf('edgewonk.csv', 'INFY').exitTrigger).toBe('Trailing SL');
+    expect(tradeOf('tradejournal-sheet.csv', 'SBIN').exitTrigger).toBe('');
+  });
+});
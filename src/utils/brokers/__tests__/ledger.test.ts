@@ -0,0 +1,81 @@
+/**
+ * Broker Funds Ledger Tests
+ * Every fixture holds the same month in its broker's own layout: a 2L pay-in, a trade
+ * settlement, DP charges, interest, a 50k payout and a platform charge
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import Papa from 'papaparse';
+import {
+  detectLedger,
+  categorizeLedgerNarration,
+  removeRecordedLedgerEntries,
+  ledgerEntryToCapitalChange,
+  BrokerSheet
+} from '..';
+
+function loadFixture(fileName: string): BrokerSheet[] {
+  const path = fileURLToPath(new URL(`./fixtures/${fileName}`, import.meta.url));
+  const { data } = Papa.parse<string[]>(readFileSync(path, 'utf8'), { skipEmptyLines: true });
+  return [{ fileName, rows: data }];
+}
+
+const fixtures = [
+  { fileName: 'zerodha-ledger.csv', format: 'zerodha' },
+  { fileName: 'dhan-ledger.csv', format: 'dhan' },
+  { fileName: 'upstox-ledger.csv', format: 'upstox' }
+];
+
+describe('Broker Funds Ledgers', () => {
+  test.each(fixtures)('$fileName should be recognised as a $format ledger', ({ fileName, format }) => {
+    expect(detectLedger(loadFixture(fileName))?.format.id).toBe(format);
+  });
+
+  test.each(fixtures)('$fileName should tag pay-ins, payouts and costs and skip settlements', ({ fileName }) => {
+    const { entries } = detectLedger(loadFixture(fileName))!;
+
+    expect(entries.map(entry => [entry.date, entry.category, entry.amount])).toEqual([
+      ['2024-03-01', 'payin', 200000],
+      ['2024-03-13', 'dp_charges', -15.93],
+      ['2024-03-15', 'interest', -42.5],
+      ['2024-03-20', 'payout', -50000],
+      ['2024-03-28', 'charges', -2360]
+    ]);
+  });
+
+  test('tradebooks should not be mistaken for ledgers', () => {
+    const path = fileURLToPath(new URL('./fixtures/angelone.csv', import.meta.url));
+    const { data } = Papa.parse<string[]>(readFileSync(path, 'utf8'), { skipEmptyLines: true });
+    expect(detectLedger([{ fileName: 'angelone.csv', rows: data }])).toBeNull();
+  });
+
+  test('a credit mentioning a payout should not count as one', () => {
+    expect(categorizeLedgerNarration('Payout reversal', 5000)).toBe('');
+    expect(categorizeLedgerNarration('Payout reversal', -5000)).toBe('payout');
+  });
+
+  test('entries already recorded should be skipped once per recorded change', () => {
+    const { entries } = detectLedger(loadFixture('zerodha-ledger.csv'))!;
+    const payin = entries[0];
+    const doubled = [payin, { ...payin }, ...entries.slice(1)];
+
+    const result = removeRecordedLedgerEntries(doubled, [
+      { date: '2024-03-01T00:00:00.000Z', amount: 200000 },
+      { date: '2024-03-20T00:00:00.000Z', amount: -50000 }
+    ]);
+
+    expect(result.duplicates).toBe(2);
+    expect(result.entries.filter(entry => entry.category === 'payin')).toHaveLength(1);
+    expect(result.entries.some(entry => entry.category === 'payout')).toBe(false);
+  });
+
+  test('capital changes should carry the category in their description', () => {
+    const { entries } = detectLedger(loadFixture('dhan-ledger.csv'))!;
+    const change = ledgerEntryToCapitalChange(entries[1], 'Dhan');
+
+    expect(change.date).toBe('2024-03-13T00:00:00.000Z');
+    expect(change.type).toBe('withdrawal');
+    expect(change.description).toBe('DP charges (Dhan ledger): DP Charges - TCS');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Import Pipeline Tests
+ * The pipeline the import worker runs, fed the same files a user would upload
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { runImportPipeline, ImportStage } from '..';
+
+const fixtureFile = (fileName: string) =>
+  new File([readFileSync(fileURLToPath(new URL(`./fixtures/${fileName}`, import.meta.url)))], fileName);
+
+describe('Import Pipeline', () => {
+  test('a tradebook should come back merged into trades, with every stage reported', async () => {
+    const stages: ImportStage[] = [];
+    const result = await runImportPipeline(fixtureFile('fyers.csv'), [], stage => {
+      if (stages[stages.length - 1] !== stage) stages.push(stage);
+    });
+
+    expect(stages).toEqual(['reading', 'detecting', 'grouping', 'checking']);
+    expect(result.broker?.adapterId).toBe('fyers');
+    expect(result.broker?.added.map(trade => [trade.name, trade.positionStatus])).toEqual([
+      ['TCS', 'Closed'],
+      ['SBIN', 'Open'],
+      ['NIFTY24MAR22000CE', 'Closed']
+    ]);
+    expect(result.sheets[result.broker!.sheetIndex].rows.length).toBeGreaterThan(0);
+  });
+
+  test('trades should come back recalculated and checked against the journal, ready to preview', async () => {
+    const portfolio = { byMonth: {}, fallback: 1000000 };
+    const result = await runImportPipeline(fixtureFile('fyers.csv'), [], () => {}, { portfolio });
+    const rows = result.broker!.rows;
+
+    expect(rows.map(row => row.trade.name)).toEqual(['TCS', 'SBIN', 'NIFTY24MAR22000CE']);
+    expect(rows.every(row => row.kind === 'new')).toBe(true);
+    expect(rows[0].trade.positionSize).toBeGreaterThan(0);
+    expect(rows[0].trade.allocation).toBeGreaterThan(0);
+  });
+
+  test('workbooks should be read sheet by sheet', async () => {
+    const result = await runImportPipeline(fixtureFile('groww.xlsx'), []);
+
+    expect(result.broker?.adapterId).toBe('groww');
+    expect(result.sheets.every(sheet => sheet.sheetName)).toBe(true);
+  });
+
+  test('another journal\'s export should come back as trades numbered after the journal', async () => {
+    const existing = [{ tradeNo: '7' }] as any[];
+    const result = await runImportPipeline(fixtureFile('edgewonk.csv'), existing);
+
+    expect(result.broker).toBeUndefined();
+    expect(result.journal?.formatId).toBe('edgewonk');
+    expect(result.journal?.trades.map(trade => trade.tradeNo)).toEqual(['8', '9', '10']);
+  });
+
+  test('files that are not tradebooks should come back as plain sheets', async () => {
+    const result = await runImportPipeline(fixtureFile('zerodha-holdings.csv'), []);
+
+    expect(result.broker).toBeUndefined();
+    expect(result.journal).toBeUndefined();
+    expect(result.sheets[0].rows[2][0]).toBe('Symbol');
+  });
+});
@@ -0,0 +1,48 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill } from './shared';
+
+/**
+ * Angel One trade book (CSV): DD-MM-YYYY dates, B/S sides, gross 'Rate' next to a
+ * brokerage-inclusive 'Net Rate' - the gross rate is the fill price
+ */
+export const angelOneAdapter: BrokerAdapter = {
+  id: 'angelone',
+  name: 'Angel One',
+  badge: { icon: 'lucide:sparkles', color: 'secondary' },
+
+  detect: headers =>
+    headers.includes('scrip name') &&
+    headers.includes('buy/sell') &&
+    headers.includes('rate') &&
+    (headers.includes('trade no') || headers.includes('order no')),
+
+  parse: (headers, rows) => {
+    const col = {
+      symbol: headerIndex(headers, 'scrip name'),
+      date: headerIndex(headers, 'trade date'),
+      time: headerIndex(headers, 'trade time'),
+      side: headerIndex(headers, 'buy/sell'),
+      qty: headerIndex(headers, 'quantity'),
+      price: headerIndex(headers, 'rate'),
+      exchange: headerIndex(headers, 'exchange'),
+      segment: headerIndex(headers, 'segment'),
+      tradeId: headerIndex(headers, 'trade no'),
+      orderId: headerIndex(headers, 'order no')
+    };
+
+    return rows
+      .map((row): Partial<BrokerFill> => ({
+        symbol: readCell(row, col.symbol),
+        side: normalizeSide(row[col.side]),
+        qty: readNumber(row, col.qty),
+        price: readNumber(row, col.price),
+        date: normalizeBrokerDate(row[col.date]),
+        time: extractTime(row[col.time]),
+        exchange: readCell(row, col.exchange),
+        segment: readCell(row, col.segment),
+        tradeId: readCell(row, col.tradeId),
+        orderId: readCell(row, col.orderId)
+      }))
+      .filter(isUsableFill);
+  }
+};
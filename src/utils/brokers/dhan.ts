@@ -0,0 +1,58 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill, inferLotSizes } from './shared';
+
+const UNIQUE_HEADERS = ['buy/sell', 'quantity/lot', 'trade price', 'trade value', 'status'];
+const REQUIRED_HEADERS = ['date', 'time', 'name', 'exchange'];
+
+// F&O rows give the quantity with the lots it makes, e.g. "150/2"
+function readLotSize(row: any[], index: number): number | undefined {
+  const match = readCell(row, index).replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  const qty = Number(match?.[1]);
+  const lots = Number(match?.[2]);
+  return qty > 0 && lots > 0 ? qty / lots : undefined;
+}
+
+/**
+ * Dhan trade history (CSV): DD/MM/YYYY dates, F&O contracts named like "NIFTY 25 JAN 21500 CALL".
+ * Rejected and cancelled orders are listed too - only 'Traded' rows are fills. The lot size is
+ * read from the quantity column, or worked out from the fills when a row doesn't give it.
+ */
+export const dhanAdapter: BrokerAdapter = {
+  id: 'dhan',
+  name: 'Dhan',
+  badge: { icon: 'lucide:trending-up', color: 'success' },
+
+  detect: headers =>
+    UNIQUE_HEADERS.filter(name => name === 'status' ? headers.includes(name) : headers.some(header => header.includes(name))).length >= 3 &&
+    REQUIRED_HEADERS.filter(name => headers.some(header => header.includes(name))).length >= 3,
+
+  parse: (headers, rows) => {
+    const col = {
+      name: headerIndex(headers, 'name'),
+      date: headerIndex(headers, 'date'),
+      time: headerIndex(headers, 'time'),
+      side: headerIndex(headers, 'buy/sell', 'buysell'),
+      exchange: headerIndex(headers, 'exchange'),
+      segment: headerIndex(headers, 'segment'),
+      qty: headerIndex(headers, 'quantity/lot', 'quantity'),
+      price: headerIndex(headers, 'trade price', 'price'),
+      status: headerIndex(headers, 'status')
+    };
+
+    const fills = rows
+      .filter(row => readCell(row, col.status) === 'Traded')
+      .map((row): Partial<BrokerFill> => ({
+        symbol: readCell(row, col.name),
+        side: normalizeSide(row[col.side]),
+        qty: readNumber(row, col.qty),
+        price: readNumber(row, col.price),
+        date: normalizeBrokerDate(row[col.date]),
+        time: extractTime(row[col.time]),
+        exchange: readCell(row, col.exchange),
+        segment: readCell(row, col.segment),
+        lotSize: readLotSize(row, col.qty)
+      }))
+      .filter(isUsableFill);
+    return inferLotSizes(fills);
+  }
+};
@@ -0,0 +1,49 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill } from './shared';
+
+// "NSE:TCS-EQ" -> "TCS", "NSE:NIFTY24MAR22000CE" -> "NIFTY24MAR22000CE"
+const toTradingSymbol = (symbol: string) =>
+  symbol.replace(/^[A-Z]+:/i, '').replace(/-(EQ|BE|BZ|SM)$/i, '');
+
+/**
+ * Fyers trade book (CSV): exchange-prefixed symbols, ISO date-time stamps, segments CM / FO
+ */
+export const fyersAdapter: BrokerAdapter = {
+  id: 'fyers',
+  name: 'Fyers',
+  badge: { icon: 'lucide:rocket', color: 'primary' },
+
+  detect: headers =>
+    headers.includes('trade date time') &&
+    headers.includes('side') &&
+    headers.includes('trade price'),
+
+  parse: (headers, rows) => {
+    const col = {
+      symbol: headerIndex(headers, 'symbol'),
+      side: headerIndex(headers, 'side'),
+      qty: headerIndex(headers, 'qty', 'quantity'),
+      price: headerIndex(headers, 'trade price'),
+      exchange: headerIndex(headers, 'exchange'),
+      segment: headerIndex(headers, 'segment'),
+      tradeId: headerIndex(headers, 'trade number'),
+      orderId: headerIndex(headers, 'order number'),
+      executedAt: headerIndex(headers, 'trade date time')
+    };
+
+    return rows
+      .map((row): Partial<BrokerFill> => ({
+        symbol: toTradingSymbol(readCell(row, col.symbol)),
+        side: normalizeSide(row[col.side]),
+        qty: readNumber(row, col.qty),
+        price: readNumber(row, col.price),
+        date: normalizeBrokerDate(row[col.executedAt]),
+        time: extractTime(row[col.executedAt]),
+        exchange: readCell(row, col.exchange),
+        segment: readCell(row, col.segment),
+        tradeId: readCell(row, col.tradeId),
+        orderId: readCell(row, col.orderId)
+      }))
+      .filter(isUsableFill);
+  }
+};
@@ -0,0 +1,52 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill } from './shared';
+
+/**
+ * Groww order history (Excel): a title block above the header row, date and 12-hour time
+ * in one 'Execution date and time' cell, and no price column - price is value / quantity.
+ * Cancelled and rejected orders are listed too - only 'Executed' rows are fills.
+ */
+export const growwAdapter: BrokerAdapter = {
+  id: 'groww',
+  name: 'Groww',
+  badge: { icon: 'lucide:sprout', color: 'success' },
+
+  detect: headers =>
+    headers.includes('stock name') &&
+    headers.includes('execution date and time') &&
+    headers.some(header => header.includes('order id')),
+
+  parse: (headers, rows) => {
+    const col = {
+      name: headerIndex(headers, 'stock name'),
+      symbol: headerIndex(headers, 'symbol'),
+      isin: headerIndex(headers, 'isin'),
+      side: headerIndex(headers, 'type'),
+      qty: headerIndex(headers, 'quantity'),
+      value: headerIndex(headers, 'value'),
+      exchange: headerIndex(headers, 'exchange'),
+      orderId: headerIndex(headers, 'exchange order id'),
+      executedAt: headerIndex(headers, 'execution date and time'),
+      status: headerIndex(headers, 'order status')
+    };
+
+    return rows
+      .filter(row => readCell(row, col.status).toLowerCase() === 'executed')
+      .map((row): Partial<BrokerFill> => {
+        const qty = readNumber(row, col.qty);
+        return {
+          symbol: readCell(row, col.symbol) || readCell(row, col.name),
+          side: normalizeSide(row[col.side]),
+          qty,
+          price: qty > 0 ? readNumber(row, col.value) / qty : 0,
+          date: normalizeBrokerDate(row[col.executedAt]),
+          time: extractTime(row[col.executedAt]),
+          exchange: readCell(row, col.exchange),
+          segment: 'EQ',
+          isin: readCell(row, col.isin),
+          orderId: readCell(row, col.orderId)
+        };
+      })
+      .filter(isUsableFill);
+  }
+};
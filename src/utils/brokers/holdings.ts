@@ -0,0 +1,282 @@
+import type { Trade } from '../../types/trade';
+import { createTradeLeg, getTradeLegs, withSyncedLegs } from '../../lib/calculations/core/tradeLegs';
+import type { BrokerSheet } from './types';
+import { normalizeHeader, headerIndex, readCell, readNumber, groupFillsIntoCycles, cycleToTrade } from './shared';
+import { getBrokerAdapter } from './registry';
+
+/**
+ * HOLDINGS RECONCILIATION
+ * A broker's holdings statement is what the account actually holds. Comparing it with the journal's
+ * open long equity positions shows stocks the journal never recorded, positions the journal still
+ * carries after an exit it missed, and quantities or average prices that have drifted apart.
+ */
+
+export interface BrokerHolding {
+  symbol: string;
+  isin?: string;
+  /** Total held - free, pledged and discrepant quantities together */
+  qty: number;
+  avgPrice: number;
+  /** Last price in the statement, when it has one */
+  ltp?: number;
+}
+
+export interface HoldingsFormat {
+  /** Same id as the broker's tradebook adapter */
+  id: string;
+  name: string;
+  detect: (headers: string[]) => boolean;
+  /** Header names for each column, most specific first. Every quantity column found is added up. */
+  columns: { symbol: string[]; isin: string[]; quantity: string[]; avgPrice: string[]; ltp: string[] };
+}
+
+export interface DetectedHoldings {
+  format: HoldingsFormat;
+  holdings: BrokerHolding[];
+}
+
+export type ReconciliationStatus = 'missing' | 'not_held' | 'quantity' | 'price' | 'matched';
+
+export interface ReconciliationItem {
+  symbol: string;
+  status: ReconciliationStatus;
+  holding?: BrokerHolding;
+  /** Open journal trades for the symbol, oldest first */
+  trades: Trade[];
+  journalQty: number;
+  /** Weighted by each trade's open quantity */
+  journalAvgPrice: number;
+}
+
+export const RECONCILIATION_STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  missing: 'Not in journal',
+  not_held: 'Not held',
+  quantity: 'Quantity differs',
+  price: 'Avg price differs',
+  matched: 'Matched'
+};
+
+const HEADER_SCAN_ROWS = 15;
+
+// Broker averages can include charges the journal keeps separately
+const AVG_PRICE_TOLERANCE = 0.01;
+
+const holdingsFormats: HoldingsFormat[] = [
+  {
+    // Console holdings (title block above): Symbol, ISIN, Sector, Quantity Available, Quantity Discrepant,
+    // Quantity Long Term, Quantity Pledged (Margin), Quantity Pledged (Loan), Average Price, Previous Closing Price, ...
+    // Kite's holdings download: Instrument, Qty., Avg. cost, LTP, Cur. val, P&L, Net chg., Day chg.
+    id: 'zerodha',
+    name: 'Zerodha',
+    detect: headers =>
+      (headers.includes('quantity available') && headers.includes('average price')) ||
+      (headers.includes('instrument') && headers.includes('qty.') && headers.includes('avg. cost')),
+    columns: {
+      symbol: ['symbol', 'instrument'],
+      isin: ['isin'],
+      // Long-term quantity is part of the available quantity, so it is not added
+      quantity: ['quantity available', 'quantity discrepant', 'quantity pledged (margin)', 'quantity pledged (loan)', 'qty.'],
+      avgPrice: ['average price', 'avg. cost'],
+      ltp: ['previous closing price', 'ltp']
+    }
+  },
+  {
+    // Holdings report: Symbol, ISIN, Total Qty, Avg Cost Price, LTP, Current Value, P&L
+    id: 'dhan',
+    name: 'Dhan',
+    detect: headers => headers.includes('total qty') && headers.includes('avg cost price'),
+    columns: { symbol: ['symbol', 'name'], isin: ['isin'], quantity: ['total qty'], avgPrice: ['avg cost price'], ltp: ['ltp'] }
+  },
+  {
+    // Holdings statement (title block above): Scrip Name, ISIN, Quantity, Avg. Price, Last Traded Price, Current Value, ...
+    id: 'upstox',
+    name: 'Upstox',
+    detect: headers => headers.includes('scrip name') && headers.includes('isin') && headers.includes('avg. price'),
+    columns: { symbol: ['scrip name'], isin: ['isin'], quantity: ['quantity'], avgPrice: ['avg. price'], ltp: ['last traded price', 'ltp'] }
+  }
+];
+
+/**
+ * Exchange prefixes and series suffixes dropped, so "NSE:TCS" and "TCS-EQ" are both TCS
+ */
+export const normalizeHoldingSymbol = (symbol: string) =>
+  String(symbol || '').trim().toUpperCase().replace(/^(NSE|BSE):/, '').replace(/-(EQ|BE|BZ|SM|ST)$/, '');
+
+export function getHoldingsFormats(): readonly HoldingsFormat[] {
+  return holdingsFormats;
+}
+
+/**
+ * Find a holdings statement among the sheets and read its holdings
+ */
+export function detectHoldings(sheets: BrokerSheet[]): DetectedHoldings | null {
+  for (const sheet of sheets) {
+    const scanRows = Math.min(HEADER_SCAN_ROWS, sheet.rows.length);
+    for (let headerRowIndex = 0; headerRowIndex < scanRows; headerRowIndex++) {
+      const row = sheet.rows[headerRowIndex];
+      if (!Array.isArray(row) || row.length === 0) continue;
+
+      const headers = row.map(normalizeHeader);
+      const format = holdingsFormats.find(candidate => candidate.detect(headers));
+      if (format) {
+        return { format, holdings: parseHoldingRows(format, headers, sheet.rows.slice(headerRowIndex + 1)) };
+      }
+    }
+  }
+  return null;
+}
+
+function parseHoldingRows(format: HoldingsFormat, headers: string[], rows: any[][]): BrokerHolding[] {
+  const col = {
+    symbol: headerIndex(headers, ...format.columns.symbol),
+    isin: headerIndex(headers, ...format.columns.isin),
+    quantity: format.columns.quantity.map(name => headers.indexOf(name)).filter(index => index !== -1),
+    avgPrice: headerIndex(headers, ...format.columns.avgPrice),
+    ltp: headerIndex(headers, ...format.columns.ltp)
+  };
+
+  // A stock held on both exchanges can be listed twice - one holding per symbol
+  const bySymbol = new Map<string, BrokerHolding>();
+  rows.forEach(row => {
+    const symbol = normalizeHoldingSymbol(readCell(row, col.symbol));
+    const qty = col.quantity.reduce((sum, index) => sum + readNumber(row, index), 0);
+    // Totals rows have no ISIN in statements that carry one
+    if (!symbol || qty <= 0 || (col.isin !== -1 && !readCell(row, col.isin))) return;
+
+    const avgPrice = readNumber(row, col.avgPrice);
+    const ltp = col.ltp !== -1 ? readNumber(row, col.ltp) : 0;
+    const existing = bySymbol.get(symbol);
+    if (existing) {
+      const totalQty = existing.qty + qty;
+      existing.avgPrice = (existing.avgPrice * existing.qty + avgPrice * qty) / totalQty;
+      existing.qty = totalQty;
+      return;
+    }
+    bySymbol.set(symbol, {
+      symbol,
+      qty,
+      avgPrice,
+      ...(col.isin !== -1 ? { isin: readCell(row, col.isin) } : {}),
+      ...(ltp ? { ltp } : {})
+    });
+  });
+
+  return Array.from(bySymbol.values());
+}
+
+// Holdings statements only carry delivery equity - short positions and F&O are never in them
+const isHeldPosition = (trade: Trade) =>
+  trade.buySell === 'Buy' &&
+  !trade.instrument &&
+  trade.positionStatus !== 'Closed' &&
+  trade.openQty > 0;
+
+const STATUS_ORDER: ReconciliationStatus[] = ['missing', 'not_held', 'quantity', 'price', 'matched'];
+
+/**
+ * Compare a holdings statement with the journal's open long equity positions, one item per symbol,
+ * discrepancies first
+ */
+export function reconcileHoldings(holdings: BrokerHolding[], trades: Trade[]): ReconciliationItem[] {
+  const openBySymbol = new Map<string, Trade[]>();
+  trades.filter(isHeldPosition).forEach(trade => {
+    const symbol = normalizeHoldingSymbol(trade.name);
+    if (!openBySymbol.has(symbol)) openBySymbol.set(symbol, []);
+    openBySymbol.get(symbol)!.push(trade);
+  });
+
+  const items: ReconciliationItem[] = [];
+  const summarize = (symbol: string, holding: BrokerHolding | undefined, symbolTrades: Trade[]) => {
+    const sorted = [...symbolTrades].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const journalQty = sorted.reduce((sum, trade) => sum + trade.openQty, 0);
+    const journalAvgPrice = journalQty > 0
+      ? sorted.reduce((sum, trade) => sum + trade.openQty * (trade.avgEntry || trade.entry), 0) / journalQty
+      : 0;
+
+    let status: ReconciliationStatus;
+    if (!holding) status = 'not_held';
+    else if (journalQty === 0) status = 'missing';
+    else if (holding.qty !== journalQty) status = 'quantity';
+    else if (Math.abs(holding.avgPrice - journalAvgPrice) > holding.avgPrice * AVG_PRICE_TOLERANCE) status = 'price';
+    else status = 'matched';
+
+    items.push({ symbol, status, holding, trades: sorted, journalQty, journalAvgPrice });
+  };
+
+  holdings.forEach(holding => summarize(holding.symbol, holding, openBySymbol.get(holding.symbol) || []));
+  openBySymbol.forEach((symbolTrades, symbol) => {
+    if (!holdings.some(holding => holding.symbol === symbol)) summarize(symbol, undefined, symbolTrades);
+  });
+
+  return items.sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.symbol.localeCompare(b.symbol)
+  );
+}
+
+// Sells part of a trade's open quantity. The journal's other fields are recalculated from the legs.
+function exitOpenQty(trade: Trade, qty: number, price: number, date: string): Trade {
+  const openQty = trade.openQty - qty;
+  return {
+    ...withSyncedLegs(trade, [...getTradeLegs(trade), createTradeLeg('Sell', date, price, qty)]),
+    openQty,
+    positionStatus: openQty > 0 ? 'Partial' : 'Closed'
+  };
+}
+
+const exitPrice = (trade: Trade) => trade.cmp || trade.avgEntry || trade.entry;
+
+/**
+ * Close every open trade of a position the broker no longer holds, at its current price
+ */
+export function closeJournalPosition(item: ReconciliationItem, date: string): Trade[] {
+  return item.trades.map(trade => exitOpenQty(trade, trade.openQty, exitPrice(trade), date));
+}
+
+/**
+ * Bring the journal's open quantity to what the broker holds. Excess is sold from the oldest trades
+ * first, the way the broker would have; a shortfall is bought into the latest trade at the broker's
+ * average price. Only the trades that change are returned.
+ */
+export function matchJournalQuantity(item: ReconciliationItem, date: string): Trade[] {
+  if (!item.holding || item.trades.length === 0) return [];
+
+  const difference = item.journalQty - item.holding.qty;
+  if (difference < 0) {
+    const latest = item.trades[item.trades.length - 1];
+    const qty = -difference;
+    return [{
+      ...withSyncedLegs(latest, [...getTradeLegs(latest), createTradeLeg('Buy', date, item.holding.avgPrice, qty)]),
+      openQty: latest.openQty + qty
+    }];
+  }
+
+  const changed: Trade[] = [];
+  let excess = difference;
+  for (const trade of item.trades) {
+    if (excess <= 0) break;
+    const qty = Math.min(excess, trade.openQty);
+    changed.push(exitOpenQty(trade, qty, exitPrice(trade), date));
+    excess -= qty;
+  }
+  return changed;
+}
+
+/**
+ * A journal trade for a holding the journal never recorded. The statement has no buy date,
+ * so the trade is opened on the given date at the broker's average price.
+ */
+export function holdingToTrade(holding: BrokerHolding, index: number, format: HoldingsFormat, date: string): Trade {
+  const adapter = getBrokerAdapter(format.id);
+  if (!adapter) throw new Error(`No ${format.name} broker adapter for holdings`);
+
+  const [cycle] = groupFillsIntoCycles([{
+    symbol: holding.symbol,
+    side: 'buy',
+    qty: holding.qty,
+    price: holding.avgPrice,
+    date,
+    ...(holding.isin ? { isin: holding.isin } : {})
+  }]);
+  const trade = cycleToTrade(cycle, index, adapter);
+  return holding.ltp ? { ...trade, cmp: holding.ltp } : trade;
+}
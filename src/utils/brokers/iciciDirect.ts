@@ -0,0 +1,45 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill } from './shared';
+
+/**
+ * ICICI Direct trade book (CSV): DD-Mon-YYYY dates and comma-grouped amounts. Stocks are
+ * listed by ICICI's own stock codes (TATCON for TCS), which are kept as the trade name.
+ */
+export const iciciDirectAdapter: BrokerAdapter = {
+  id: 'icicidirect',
+  name: 'ICICI Direct',
+  badge: { icon: 'lucide:landmark', color: 'danger' },
+
+  detect: headers =>
+    headers.includes('stock') &&
+    headers.includes('action') &&
+    headers.some(header => header.startsWith('order ref')),
+
+  parse: (headers, rows) => {
+    const col = {
+      symbol: headerIndex(headers, 'stock'),
+      date: headerIndex(headers, 'date'),
+      time: headerIndex(headers, 'time', 'trade time'),
+      side: headerIndex(headers, 'action'),
+      qty: headerIndex(headers, 'qty', 'quantity'),
+      price: headerIndex(headers, 'price'),
+      exchange: headerIndex(headers, 'exchange'),
+      segment: headerIndex(headers, 'segment'),
+      orderId: headers.findIndex(header => header.startsWith('order ref'))
+    };
+
+    return rows
+      .map((row): Partial<BrokerFill> => ({
+        symbol: readCell(row, col.symbol),
+        side: normalizeSide(row[col.side]),
+        qty: readNumber(row, col.qty),
+        price: readNumber(row, col.price),
+        date: normalizeBrokerDate(row[col.date]),
+        time: extractTime(row[col.time]),
+        exchange: readCell(row, col.exchange),
+        segment: readCell(row, col.segment),
+        orderId: readCell(row, col.orderId)
+      }))
+      .filter(isUsableFill);
+  }
+};
@@ -0,0 +1,53 @@
+export type { BrokerAdapter, BrokerFill, BrokerSheet, DetectedBroker, BrokerBadgeColor } from './types';
+export {
+  registerBrokerAdapter,
+  getBrokerAdapters,
+  getBrokerAdapter,
+  detectBroker,
+  readWorkbookSheets,
+  readBrokerFills,
+  convertBrokerFile
+} from './registry';
+export { mergeBrokerFile } from './reimport';
+export type { BrokerImportResult } from './reimport';
+export { getJournalExportFormats, detectJournalExport } from './journals';
+export type { JournalExportFormat, DetectedJournalExport } from './journals';
+export { IMPORT_STAGE_LABELS, runImportPipeline, buildPreviewRows } from './pipeline';
+export type { ImportStage, ImportPipelineResult, ImportPipelineOptions, ImportProgressHandler } from './pipeline';
+export {
+  normalizeHeader,
+  headerIndex,
+  readCell,
+  readNumber,
+  normalizeBrokerDate,
+  normalizeSide,
+  extractTime,
+  isUsableFill,
+  assignFillIds,
+  applySecurityAliases,
+  fillToLeg,
+  continueOpenPosition,
+  groupFillsIntoCycles,
+  cycleToTrade
+} from './shared';
+export type { BrokerCycle } from './shared';
+export {
+  LEDGER_CATEGORY_LABELS,
+  getLedgerFormats,
+  detectLedger,
+  categorizeLedgerNarration,
+  removeRecordedLedgerEntries,
+  ledgerEntryToCapitalChange
+} from './ledger';
+export type { LedgerCategory, LedgerEntry, LedgerFormat, DetectedLedger } from './ledger';
+export {
+  RECONCILIATION_STATUS_LABELS,
+  normalizeHoldingSymbol,
+  getHoldingsFormats,
+  detectHoldings,
+  reconcileHoldings,
+  closeJournalPosition,
+  matchJournalQuantity,
+  holdingToTrade
+} from './holdings';
+export type { BrokerHolding, HoldingsFormat, DetectedHoldings, ReconciliationStatus, ReconciliationItem } from './holdings';
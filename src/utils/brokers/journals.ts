@@ -0,0 +1,239 @@
+import type { Trade } from '../../types/trade';
+import type { BrokerAdapter, BrokerFill, BrokerSheet } from './types';
+import { normalizeHeader, headerIndex, readCell, readNumber, normalizeBrokerDate, extractTime, groupFillsIntoCycles, cycleToTrade } from './shared';
+
+/**
+ * OTHER JOURNALS' EXPORTS
+ * Trade-per-row exports from other journaling tools and spreadsheet templates. Each row becomes one
+ * trade built the same way as a broker cycle, with the tool's own annotations carried over:
+ * setups to setup, tags and mistakes to growth areas, exit reasons to exit trigger, and notes
+ * plus screenshot links to notes.
+ */
+
+export interface JournalExportFormat {
+  id: string;
+  name: string;
+  badge: BrokerAdapter['badge'];
+  detect: (headers: string[]) => boolean;
+  /** Header names for each column, most specific first. Annotation columns list every column to combine. */
+  columns: {
+    symbol: string[];
+    /** Long/Short or Buy/Sell - a format without one is long-only */
+    side: string[];
+    entryDate: string[];
+    entryPrice: string[];
+    qty: string[];
+    exitDate: string[];
+    exitPrice: string[];
+    stopLoss: string[];
+    setup: string[];
+    growthAreas: string[];
+    exitTrigger: string[];
+    notes: string[];
+    screenshots: string[];
+  };
+}
+
+export interface DetectedJournalExport {
+  format: JournalExportFormat;
+  trades: Trade[];
+}
+
+const HEADER_SCAN_ROWS = 15;
+
+const journalFormats: JournalExportFormat[] = [
+  {
+    // Trades export: Open Datetime, Close Datetime, Symbol, Side, Volume, Exec Count, Entry Price, Exit Price,
+    // Gross P&L, Comm/Fees, Net P&L, Notes, Tags, Initial Risk
+    id: 'tradervue',
+    name: 'Tradervue',
+    badge: { icon: 'lucide:book-open', color: 'secondary' },
+    detect: headers => headers.includes('open datetime') && headers.includes('close datetime') && headers.includes('volume'),
+    columns: {
+      symbol: ['symbol'],
+      side: ['side'],
+      entryDate: ['open datetime'],
+      entryPrice: ['entry price'],
+      qty: ['volume'],
+      exitDate: ['close datetime'],
+      exitPrice: ['exit price'],
+      stopLoss: [],
+      setup: [],
+      growthAreas: ['tags'],
+      exitTrigger: [],
+      notes: ['notes'],
+      screenshots: []
+    }
+  },
+  {
+    // Trades export: Symbol, Side, Open Date, Close Date, Quantity, Avg Entry Price, Avg Exit Price, Stop Loss,
+    // PnL, Setups, Tags, Mistakes, Notes, Chart URL
+    id: 'tradesviz',
+    name: 'TradesViz',
+    badge: { icon: 'lucide:chart-candlestick', color: 'secondary' },
+    detect: headers => headers.includes('avg entry price') && headers.includes('avg exit price') && headers.includes('open date'),
+    columns: {
+      symbol: ['symbol'],
+      side: ['side'],
+      entryDate: ['open date'],
+      entryPrice: ['avg entry price'],
+      qty: ['quantity', 'qty'],
+      exitDate: ['close date'],
+      exitPrice: ['avg exit price'],
+      stopLoss: ['stop loss'],
+      setup: ['setups'],
+      growthAreas: ['tags', 'mistakes'],
+      exitTrigger: [],
+      notes: ['notes'],
+      screenshots: ['chart url']
+    }
+  },
+  {
+    // Edgewonk-style: Instrument, Direction, Entry Date, Entry Price, Position Size, Stop Loss, Exit Date,
+    // Exit Price, Setup, Exit Reason, Mistakes, Comment, Screenshot
+    id: 'edgewonk',
+    name: 'Edgewonk',
+    badge: { icon: 'lucide:notebook-pen', color: 'secondary' },
+    detect: headers => headers.includes('instrument') && headers.includes('direction') && headers.includes('entry date'),
+    columns: {
+      symbol: ['instrument'],
+      side: ['direction'],
+      entryDate: ['entry date'],
+      entryPrice: ['entry price'],
+      qty: ['position size', 'quantity'],
+      exitDate: ['exit date'],
+      exitPrice: ['exit price'],
+      stopLoss: ['stop loss', 'sl'],
+      setup: ['setup', 'strategy'],
+      growthAreas: ['mistakes', 'tags'],
+      exitTrigger: ['exit reason'],
+      notes: ['comment', 'comments', 'notes'],
+      screenshots: ['screenshot', 'screenshot entry', 'screenshot exit']
+    }
+  },
+  {
+    // The "Trade Journal" Google Sheet swing traders copy: Date, Stock, Entry Price, Qty, SL, Exit Date,
+    // Exit Price, Setup, Reason for Exit, Mistakes, Learnings, Chart Link
+    id: 'tradejournal-sheet',
+    name: 'Trade Journal Sheet',
+    badge: { icon: 'lucide:sheet', color: 'secondary' },
+    detect: headers =>
+      (headers.includes('stock') || headers.includes('stock name')) &&
+      headers.includes('entry price') &&
+      headers.includes('exit price') &&
+      (headers.includes('reason for exit') || headers.includes('chart link')),
+    columns: {
+      symbol: ['stock', 'stock name'],
+      side: ['buy/sell', 'long/short'],
+      entryDate: ['date', 'entry date', 'buy date'],
+      entryPrice: ['entry price', 'buy price'],
+      qty: ['qty', 'quantity'],
+      exitDate: ['exit date', 'sell date'],
+      exitPrice: ['exit price', 'sell price'],
+      stopLoss: ['sl', 'stop loss'],
+      setup: ['setup'],
+      growthAreas: ['mistakes'],
+      exitTrigger: ['reason for exit', 'exit reason'],
+      notes: ['notes', 'remarks', 'learnings'],
+      screenshots: ['chart link', 'chart']
+    }
+  }
+];
+
+const normalizeJournalSide = (value: string): Trade['buySell'] => (/^(s|sell|short)$/i.test(value.trim()) ? 'Sell' : 'Buy');
+
+// Tags arrive comma, semicolon or pipe separated - growth areas are kept comma separated
+const joinTags = (values: string[]) =>
+  Array.from(new Set(values.flatMap(value => value.split(/[,;|]/)).map(tag => tag.trim()).filter(Boolean))).join(', ');
+
+export function getJournalExportFormats(): readonly JournalExportFormat[] {
+  return journalFormats;
+}
+
+/**
+ * Find another journal's export among the sheets and read its trades, numbered after `lastTradeNo`
+ */
+export function detectJournalExport(sheets: BrokerSheet[], lastTradeNo = 0): DetectedJournalExport | null {
+  for (const sheet of sheets) {
+    const scanRows = Math.min(HEADER_SCAN_ROWS, sheet.rows.length);
+    for (let headerRowIndex = 0; headerRowIndex < scanRows; headerRowIndex++) {
+      const row = sheet.rows[headerRowIndex];
+      if (!Array.isArray(row) || row.length === 0) continue;
+
+      const headers = row.map(normalizeHeader);
+      const format = journalFormats.find(candidate => candidate.detect(headers));
+      if (format) {
+        return { format, trades: parseJournalRows(format, headers, sheet.rows.slice(headerRowIndex + 1), lastTradeNo) };
+      }
+    }
+  }
+  return null;
+}
+
+function parseJournalRows(format: JournalExportFormat, headers: string[], rows: any[][], lastTradeNo: number): Trade[] {
+  const { columns } = format;
+  const col = (names: string[]) => headerIndex(headers, ...names);
+  const all = (names: string[]) => names.map(name => headers.indexOf(name)).filter(index => index !== -1);
+  const index = {
+    symbol: col(columns.symbol),
+    side: col(columns.side),
+    entryDate: col(columns.entryDate),
+    entryPrice: col(columns.entryPrice),
+    qty: col(columns.qty),
+    exitDate: col(columns.exitDate),
+    exitPrice: col(columns.exitPrice),
+    stopLoss: col(columns.stopLoss),
+    setup: col(columns.setup),
+    growthAreas: all(columns.growthAreas),
+    exitTrigger: col(columns.exitTrigger),
+    notes: all(columns.notes),
+    screenshots: all(columns.screenshots)
+  };
+
+  const trades: Trade[] = [];
+  rows.forEach(row => {
+    const symbol = readCell(row, index.symbol).toUpperCase();
+    const date = normalizeBrokerDate(row[index.entryDate]);
+    const entryPrice = readNumber(row, index.entryPrice);
+    // Shorts are sometimes exported with a negative size
+    const qty = Math.abs(readNumber(row, index.qty));
+    if (!symbol || !date || !entryPrice || !qty) return;
+
+    const buySell = index.side === -1 ? 'Buy' : normalizeJournalSide(readCell(row, index.side));
+    const entry: BrokerFill = {
+      symbol,
+      side: buySell === 'Sell' ? 'sell' : 'buy',
+      qty,
+      price: entryPrice,
+      date,
+      time: extractTime(row[index.entryDate])
+    };
+
+    const fills = [entry];
+    const exitPrice = readNumber(row, index.exitPrice);
+    const exitDate = normalizeBrokerDate(row[index.exitDate]);
+    if (exitPrice && exitDate) {
+      fills.push({ ...entry, side: entry.side === 'buy' ? 'sell' : 'buy', price: exitPrice, date: exitDate, time: extractTime(row[index.exitDate]) });
+    }
+
+    const [cycle] = groupFillsIntoCycles(fills);
+    const trade = cycleToTrade(cycle, lastTradeNo + trades.length, {});
+
+    const screenshots = index.screenshots.map(i => readCell(row, i)).filter(Boolean);
+    const notes = [
+      ...index.notes.map(i => readCell(row, i)).filter(Boolean),
+      ...screenshots.map(link => `Screenshot: ${link}`)
+    ];
+
+    trades.push({
+      ...trade,
+      sl: readNumber(row, index.stopLoss),
+      setup: readCell(row, index.setup),
+      proficiencyGrowthAreas: joinTags(index.growthAreas.map(i => readCell(row, i))),
+      exitTrigger: readCell(row, index.exitTrigger) || trade.exitTrigger,
+      notes: notes.join('\n')
+    });
+  });
+
+  return trades;
+}
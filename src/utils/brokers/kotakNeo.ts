@@ -0,0 +1,47 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill } from './shared';
+
+/**
+ * Kotak Neo trade book (CSV): "04 Mar 2024" dates, rupee amounts in Indian grouping
+ * ("₹1,62,000.00"), F&O fills on the NFO exchange
+ */
+export const kotakNeoAdapter: BrokerAdapter = {
+  id: 'kotakneo',
+  name: 'Kotak Neo',
+  badge: { icon: 'lucide:circle-dot', color: 'danger' },
+
+  detect: headers =>
+    headers.includes('trading symbol') &&
+    headers.includes('transaction type') &&
+    headers.includes('trade price'),
+
+  parse: (headers, rows) => {
+    const col = {
+      symbol: headerIndex(headers, 'trading symbol'),
+      date: headerIndex(headers, 'trade date'),
+      time: headerIndex(headers, 'trade time'),
+      side: headerIndex(headers, 'transaction type'),
+      qty: headerIndex(headers, 'quantity'),
+      price: headerIndex(headers, 'trade price'),
+      exchange: headerIndex(headers, 'exchange'),
+      segment: headerIndex(headers, 'segment'),
+      tradeId: headerIndex(headers, 'trade no.', 'trade no'),
+      orderId: headerIndex(headers, 'order no.', 'order no')
+    };
+
+    return rows
+      .map((row): Partial<BrokerFill> => ({
+        symbol: readCell(row, col.symbol),
+        side: normalizeSide(row[col.side]),
+        qty: readNumber(row, col.qty),
+        price: readNumber(row, col.price),
+        date: normalizeBrokerDate(row[col.date]),
+        time: extractTime(row[col.time]),
+        exchange: readCell(row, col.exchange),
+        segment: readCell(row, col.segment),
+        tradeId: readCell(row, col.tradeId),
+        orderId: readCell(row, col.orderId)
+      }))
+      .filter(isUsableFill);
+  }
+};
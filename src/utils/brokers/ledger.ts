@@ -0,0 +1,174 @@
+import type { BrokerSheet } from './types';
+import { normalizeHeader, headerIndex, readCell, readNumber, normalizeBrokerDate } from './shared';
+
+/**
+ * BROKER FUNDS LEDGERS
+ * Pay-ins and payouts in a broker's ledger statement are the account's capital changes.
+ * Charges, DP fees and interest are picked out too but kept apart - they are costs, not capital
+ * the trader moved - and trade settlements are ignored since trades are journaled on their own.
+ */
+
+export type LedgerCategory = 'payin' | 'payout' | 'charges' | 'dp_charges' | 'interest';
+
+export interface LedgerEntry {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Credit to the trading account is positive, debit negative */
+  amount: number;
+  category: LedgerCategory;
+  narration: string;
+}
+
+export interface LedgerFormat {
+  id: string;
+  name: string;
+  detect: (headers: string[]) => boolean;
+  /** Header names for each column, most specific first */
+  columns: { date: string[]; narration: string[]; debit: string[]; credit: string[] };
+}
+
+export interface DetectedLedger {
+  format: LedgerFormat;
+  entries: LedgerEntry[];
+}
+
+export const LEDGER_CATEGORY_LABELS: Record<LedgerCategory, string> = {
+  payin: 'Pay-in',
+  payout: 'Payout',
+  charges: 'Charges',
+  dp_charges: 'DP charges',
+  interest: 'Interest'
+};
+
+const HEADER_SCAN_ROWS = 15;
+
+const ledgerFormats: LedgerFormat[] = [
+  {
+    // Console ledger: particulars, posting_date, cost_center, voucher_type, debit, credit, net_balance
+    id: 'zerodha',
+    name: 'Zerodha',
+    detect: headers => headers.includes('particulars') && headers.includes('posting_date') && headers.includes('voucher_type'),
+    columns: { date: ['posting_date'], narration: ['particulars'], debit: ['debit'], credit: ['credit'] }
+  },
+  {
+    // Ledger report: Date, Narration, Voucher No., Debit, Credit, Running Balance
+    id: 'dhan',
+    name: 'Dhan',
+    detect: headers => headers.includes('narration') && headers.some(header => header.startsWith('voucher')),
+    columns: { date: ['date', 'voucher date'], narration: ['narration'], debit: ['debit'], credit: ['credit'] }
+  },
+  {
+    // Ledger statement (title block above): Transaction Date, Particulars, Debit, Credit, Closing Balance
+    id: 'upstox',
+    name: 'Upstox',
+    detect: headers => headers.includes('transaction date') && headers.includes('particulars') && headers.includes('debit'),
+    columns: { date: ['transaction date'], narration: ['particulars'], debit: ['debit'], credit: ['credit'] }
+  }
+];
+
+// Rows that only carry the running balance, and trade bills/settlements
+const IGNORED_NARRATIONS = /opening balance|closing balance|net settlement|settlement for|bill for|\bbill\b|obligation|margin (blocked|released)/i;
+
+const NARRATION_RULES: { category: LedgerCategory; pattern: RegExp; side?: 'credit' | 'debit' }[] = [
+  { category: 'dp_charges', pattern: /\bdp\b|depository|demat/i },
+  { category: 'interest', pattern: /interest|delayed payment|\bdpc\b|\bmtf\b/i },
+  { category: 'payout', pattern: /payout|pay[- ]out|withdraw|funds? transferred back|transferred to bank|quarterly settlement|running account/i, side: 'debit' },
+  { category: 'payin', pattern: /funds? added|pay[- ]?in|deposit|\bupi\b|\bneft\b|\bimps\b|\brtgs\b|net ?banking|payment gateway|razorpay/i, side: 'credit' },
+  { category: 'charges', pattern: /charge|brokerage|\bgst\b|stamp|\bstt\b|\bamc\b|maintenance|\bfees?\b|subscription|penalty/i }
+];
+
+/**
+ * What a ledger row is, from its narration and which side it was booked on ('' when it is none of the kinds above)
+ */
+export function categorizeLedgerNarration(narration: string, amount: number): LedgerCategory | '' {
+  if (!narration || IGNORED_NARRATIONS.test(narration)) return '';
+
+  const side = amount >= 0 ? 'credit' : 'debit';
+  const rule = NARRATION_RULES.find(candidate =>
+    candidate.pattern.test(narration) && (!candidate.side || candidate.side === side)
+  );
+  return rule ? rule.category : '';
+}
+
+export function getLedgerFormats(): readonly LedgerFormat[] {
+  return ledgerFormats;
+}
+
+/**
+ * Find a funds ledger among the sheets and read its entries
+ */
+export function detectLedger(sheets: BrokerSheet[]): DetectedLedger | null {
+  for (const sheet of sheets) {
+    const scanRows = Math.min(HEADER_SCAN_ROWS, sheet.rows.length);
+    for (let headerRowIndex = 0; headerRowIndex < scanRows; headerRowIndex++) {
+      const row = sheet.rows[headerRowIndex];
+      if (!Array.isArray(row) || row.length === 0) continue;
+
+      const headers = row.map(normalizeHeader);
+      const format = ledgerFormats.find(candidate => candidate.detect(headers));
+      if (format) {
+        return { format, entries: parseLedgerRows(format, headers, sheet.rows.slice(headerRowIndex + 1)) };
+      }
+    }
+  }
+  return null;
+}
+
+function parseLedgerRows(format: LedgerFormat, headers: string[], rows: any[][]): LedgerEntry[] {
+  const col = {
+    date: headerIndex(headers, ...format.columns.date),
+    narration: headerIndex(headers, ...format.columns.narration),
+    debit: headerIndex(headers, ...format.columns.debit),
+    credit: headerIndex(headers, ...format.columns.credit)
+  };
+
+  return rows
+    .map(row => {
+      const narration = readCell(row, col.narration);
+      const amount = readNumber(row, col.credit) - readNumber(row, col.debit);
+      return { date: normalizeBrokerDate(row[col.date]), amount, narration, category: categorizeLedgerNarration(narration, amount) };
+    })
+    .filter((entry): entry is LedgerEntry => Boolean(entry.date && entry.amount && entry.category));
+}
+
+const entryKey = (date: string, amount: number) => `${String(date).slice(0, 10)}|${amount.toFixed(2)}`;
+
+/**
+ * Leave out entries already recorded as capital changes (same date and amount). Each recorded
+ * change accounts for one entry, so two identical pay-ins on a day are both kept if one is missing.
+ */
+export function removeRecordedLedgerEntries(
+  entries: LedgerEntry[],
+  recorded: { date: string; amount: number }[]
+): { entries: LedgerEntry[]; duplicates: number } {
+  const remaining = new Map<string, number>();
+  recorded.forEach(change => {
+    const key = entryKey(change.date, Number(change.amount) || 0);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+
+  const fresh = entries.filter(entry => {
+    const key = entryKey(entry.date, entry.amount);
+    const count = remaining.get(key) || 0;
+    if (count === 0) return true;
+    remaining.set(key, count - 1);
+    return false;
+  });
+
+  return { entries: fresh, duplicates: entries.length - fresh.length };
+}
+
+/**
+ * A ledger entry in the shape of a manually entered capital change. The category leads the
+ * description so charges, DP fees and interest stay distinguishable from pay-ins and payouts.
+ */
+export function ledgerEntryToCapitalChange(entry: LedgerEntry, brokerName: string) {
+  const [year, month, day] = entry.date.split('-').map(Number);
+  return {
+    // UTC midnight, like capital changes entered by month
+    date: new Date(Date.UTC(year, month - 1, day)).toISOString(),
+    amount: entry.amount,
+    type: entry.amount >= 0 ? 'deposit' as const : 'withdrawal' as const,
+    description: `${LEDGER_CATEGORY_LABELS[entry.category]} (${brokerName} ledger): ${entry.narration}`
+  };
+}
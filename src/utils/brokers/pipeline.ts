@@ -0,0 +1,133 @@
+import Papa from 'papaparse';
+import type { Trade } from '../../types/trade';
+import type { SecurityAliases } from '../securityMaster/types';
+import type { TradeIssue } from '../tradeValidations';
+import { buildImportPreview, recalculateImportedTrade } from '../importDiff';
+import type { ImportPortfolioSizes, ImportPreviewRow } from '../importDiff';
+import type { BrokerSheet } from './types';
+import { detectBroker, readWorkbookSheets } from './registry';
+import { mergeBrokerFile } from './reimport';
+import type { BrokerImportResult } from './reimport';
+import { detectJournalExport } from './journals';
+
+/**
+ * IMPORT PIPELINE
+ * Everything between an uploaded trade file and the rows to review: reading it, recognising the
+ * broker, parsing fills, grouping them into trades and merging them with the journal - or reading
+ * another journal's export - then recalculating and checking every trade. It runs in the import
+ * worker, so it only takes and returns plain data; adapters and formats are passed back by id.
+ */
+
+export type ImportStage = 'reading' | 'detecting' | 'grouping' | 'checking';
+
+export const IMPORT_STAGE_LABELS: Record<ImportStage, string> = {
+  reading: 'Reading file',
+  detecting: 'Recognising the format',
+  grouping: 'Grouping fills into trades',
+  checking: 'Checking trades'
+};
+
+export interface ImportPipelineResult {
+  /** Every sheet of the file - a CSV is one sheet */
+  sheets: BrokerSheet[];
+  /** Set when the file is a recognised broker tradebook */
+  broker?: BrokerImportResult & { adapterId: string; sheetIndex: number; headerRowIndex: number; rows: ImportPreviewRow[] };
+  /** Set when the file is another journaling tool's export */
+  journal?: { formatId: string; trades: Trade[]; rows: ImportPreviewRow[] };
+}
+
+export type ImportProgressHandler = (stage: ImportStage, progress: number) => void;
+
+export interface ImportPipelineOptions {
+  /** The security master's lookups - put fills under each company's current symbol */
+  aliases?: SecurityAliases;
+  /** What trades are sized against - without it allocation and PF impact come out as 0 */
+  portfolio?: ImportPortfolioSizes;
+}
+
+const NO_PORTFOLIO: ImportPortfolioSizes = { byMonth: {}, fallback: 0 };
+
+// Progress is reported every this many trades while they are checked
+const PROGRESS_INTERVAL = 50;
+const CHECKING_STARTS_AT = 70;
+
+/**
+ * Recalculate every trade and compare it with the journal - the rows to review.
+ * Mapped CSV rows come in here straight from the column mapping.
+ */
+export function buildPreviewRows(
+  trades: Trade[],
+  existingTrades: Trade[],
+  portfolio: ImportPortfolioSizes = NO_PORTFOLIO,
+  parseIssues: Record<string, TradeIssue[]> = {},
+  onProgress: ImportProgressHandler = () => {}
+): ImportPreviewRow[] {
+  onProgress('checking', CHECKING_STARTS_AT);
+  const recalculated = trades.map((trade, index) => {
+    if (index > 0 && index % PROGRESS_INTERVAL === 0) {
+      onProgress('checking', CHECKING_STARTS_AT + (100 - CHECKING_STARTS_AT) * index / trades.length);
+    }
+    return recalculateImportedTrade(trade, portfolio);
+  });
+  return buildImportPreview(recalculated, existingTrades, parseIssues);
+}
+
+const isExcelFile = (fileName: string) => /\.xlsx?$/i.test(fileName);
+
+async function readImportFile(file: File): Promise<BrokerSheet[]> {
+  if (isExcelFile(file.name)) {
+    return readWorkbookSheets(await file.arrayBuffer(), file.name);
+  }
+
+  const { data } = Papa.parse<any[]>(await file.text(), {
+    header: false,
+    skipEmptyLines: true,
+    transform: value => typeof value === 'string' ? value.trim().replace(/\r\n/g, '\n').replace(/\r/g, '\n') : value,
+    dynamicTyping: false,
+    // Quoted fields with commas need the full parser
+    fastMode: false,
+    delimiter: ',',
+    quoteChar: '"',
+    escapeChar: '"'
+  });
+  return [{ fileName: file.name, rows: data }];
+}
+
+/**
+ * Read a trade file and, when it is a broker tradebook, merge its fills into the journal's trades.
+ * Another journal's export comes back as trades numbered after the journal's last one. Either way
+ * the trades come back recalculated and checked as preview rows.
+ */
+export async function runImportPipeline(
+  file: File,
+  existingTrades: Trade[],
+  onProgress: ImportProgressHandler = () => {},
+  { aliases, portfolio }: ImportPipelineOptions = {}
+): Promise<ImportPipelineResult> {
+  onProgress('reading', 0);
+  const sheets = await readImportFile(file);
+
+  onProgress('detecting', 40);
+  const detected = detectBroker(sheets);
+  if (!detected) {
+    const lastTradeNo = existingTrades.reduce((max, trade) => Math.max(max, parseInt(trade.tradeNo) || 0), 0);
+    const journal = detectJournalExport(sheets, lastTradeNo);
+    if (!journal) return { sheets };
+    const rows = buildPreviewRows(journal.trades, existingTrades, portfolio, {}, onProgress);
+    return { sheets, journal: { formatId: journal.format.id, trades: journal.trades, rows } };
+  }
+
+  onProgress('grouping', 60);
+  const merge = mergeBrokerFile(detected, existingTrades, aliases);
+  const rows = buildPreviewRows([...merge.extended, ...merge.added], existingTrades, portfolio, {}, onProgress);
+  return {
+    sheets,
+    broker: {
+      ...merge,
+      rows,
+      adapterId: detected.adapter.id,
+      sheetIndex: sheets.indexOf(detected.sheet),
+      headerRowIndex: detected.headerRowIndex
+    }
+  };
+}
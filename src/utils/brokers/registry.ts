@@ -0,0 +1,107 @@
+import * as XLSX from 'xlsx';
+import type { Trade } from '../../types/trade';
+import type { BrokerAdapter, BrokerFill, BrokerSheet, DetectedBroker } from './types';
+import type { SecurityAliases } from '../securityMaster/types';
+import { normalizeHeader, assignFillIds, applySecurityAliases, groupFillsIntoCycles, cycleToTrade } from './shared';
+import { zerodhaAdapter } from './zerodha';
+import { dhanAdapter } from './dhan';
+import { upstoxAdapter } from './upstox';
+import { angelOneAdapter } from './angelOne';
+import { growwAdapter } from './groww';
+import { iciciDirectAdapter } from './iciciDirect';
+import { fyersAdapter } from './fyers';
+import { kotakNeoAdapter } from './kotakNeo';
+
+/**
+ * BROKER IMPORTER REGISTRY
+ * Adapters are tried in order; the first one that recognises a header row handles the file
+ */
+
+// Title blocks above the header (Upstox puts it around row 9) are never longer than this
+const HEADER_SCAN_ROWS = 15;
+
+const adapters: BrokerAdapter[] = [
+  zerodhaAdapter,
+  dhanAdapter,
+  upstoxAdapter,
+  angelOneAdapter,
+  growwAdapter,
+  iciciDirectAdapter,
+  fyersAdapter,
+  kotakNeoAdapter
+];
+
+/**
+ * Add an adapter, or replace the one with the same id
+ */
+export function registerBrokerAdapter(adapter: BrokerAdapter): void {
+  const index = adapters.findIndex(existing => existing.id === adapter.id);
+  if (index === -1) {
+    adapters.push(adapter);
+  } else {
+    adapters[index] = adapter;
+  }
+}
+
+export function getBrokerAdapters(): readonly BrokerAdapter[] {
+  return adapters;
+}
+
+export function getBrokerAdapter(id: string): BrokerAdapter | undefined {
+  return adapters.find(adapter => adapter.id === id);
+}
+
+/**
+ * Find the sheet, header row and broker of an uploaded tradebook
+ */
+export function detectBroker(sheets: BrokerSheet[]): DetectedBroker | null {
+  for (const sheet of sheets) {
+    const scanRows = Math.min(HEADER_SCAN_ROWS, sheet.rows.length);
+    for (let headerRowIndex = 0; headerRowIndex < scanRows; headerRowIndex++) {
+      const row = sheet.rows[headerRowIndex];
+      if (!Array.isArray(row) || row.length === 0) continue;
+
+      const headers = row.map(normalizeHeader);
+      const adapter = adapters.find(candidate => candidate.detect(headers, sheet));
+      if (adapter) return { adapter, sheet, headerRowIndex };
+    }
+  }
+  return null;
+}
+
+/**
+ * Every sheet of an Excel workbook as a raw cell grid
+ */
+export function readWorkbookSheets(data: ArrayBuffer, fileName: string): BrokerSheet[] {
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array' });
+  return workbook.SheetNames.map(sheetName => ({
+    fileName,
+    sheetName,
+    rows: XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[sheetName], { header: 1, defval: '' })
+  }));
+}
+
+/**
+ * Fills of a detected tradebook, each with its fill id - and, given the security master's
+ * aliases, under each company's current symbol
+ */
+export function readBrokerFills({ adapter, sheet, headerRowIndex }: DetectedBroker, aliases?: SecurityAliases): BrokerFill[] {
+  const headers = sheet.rows[headerRowIndex].map(normalizeHeader);
+  const fills = adapter.parse(headers, sheet.rows.slice(headerRowIndex + 1));
+
+  if (fills.length === 0) {
+    throw new Error(`No valid transactions found in ${adapter.name} tradebook`);
+  }
+
+  const withIds = assignFillIds(fills, adapter.id);
+  return aliases ? applySecurityAliases(withIds, aliases) : withIds;
+}
+
+/**
+ * Parse a detected tradebook and turn its trading cycles into journal trades,
+ * numbered from the earliest entry
+ */
+export function convertBrokerFile(detected: DetectedBroker, aliases?: SecurityAliases): Trade[] {
+  return groupFillsIntoCycles(readBrokerFills(detected, aliases))
+    .map((cycle, index) => cycleToTrade(cycle, index, detected.adapter));
+}
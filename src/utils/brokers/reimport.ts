@@ -0,0 +1,119 @@
+import type { Trade, TradeLeg } from '../../types/trade';
+import { getTradeLegs, withSyncedLegs } from '../../lib/calculations/core/tradeLegs';
+import type { BrokerFill, DetectedBroker } from './types';
+import type { SecurityAliases } from '../securityMaster/types';
+import { readBrokerFills } from './registry';
+import { continueOpenPosition, fillToLeg, groupFillsIntoCycles, cycleToTrade } from './shared';
+
+/**
+ * RE-IMPORTING TRADEBOOKS
+ * Consecutive downloads overlap, so a tradebook is merged into the journal rather than appended:
+ * fills already recorded are skipped, new fills continue the trade still open for their symbol,
+ * and whatever is left becomes new trades. With the security master's aliases, a trade journaled
+ * under a company's old symbol is continued by fills under its new one.
+ */
+
+export interface BrokerImportResult {
+  /** Trades for cycles that start in this file, numbered after the journal's last trade */
+  added: Trade[];
+  /** Open journal trades with this file's fills appended - they keep their id, so importing updates them */
+  extended: Trade[];
+  /** Fills the journal already had */
+  skippedFills: number;
+}
+
+const PRICE_TOLERANCE = 0.005;
+
+// Legs saved before fill ids were recorded, or entered by hand, are matched on what was traded
+const isSameFill = (leg: TradeLeg, fill: BrokerFill) =>
+  leg.action === (fill.side === 'sell' ? 'Sell' : 'Buy') &&
+  leg.date === fill.date &&
+  Number(leg.qty) === fill.qty &&
+  Math.abs(Number(leg.price) - fill.price) < PRICE_TOLERANCE;
+
+function groupBySymbol(fills: BrokerFill[]): Map<string, BrokerFill[]> {
+  const groups = new Map<string, BrokerFill[]>();
+  fills.forEach(fill => {
+    if (!groups.has(fill.symbol)) groups.set(fill.symbol, []);
+    groups.get(fill.symbol)!.push(fill);
+  });
+  return groups;
+}
+
+// F&O trades are journaled under the contract, which renames don't touch
+const getJournalSymbol = (trade: Trade, aliases?: SecurityAliases) =>
+  (!trade.instrument && aliases?.bySymbol[trade.name]) || trade.name;
+
+/**
+ * Merge a detected tradebook into the journal's trades in the account it is imported into - fills
+ * recorded in another account, and trades open there, are not this file's
+ */
+export function mergeBrokerFile(detected: DetectedBroker, existingTrades: Trade[], aliases?: SecurityAliases): BrokerImportResult {
+  const fills = readBrokerFills(detected, aliases);
+
+  const knownFillIds = new Set<string>();
+  const unmatchedLegs = new Map<string, TradeLeg[]>();
+  existingTrades.forEach(trade => {
+    const symbol = getJournalSymbol(trade, aliases);
+    getTradeLegs(trade).forEach(leg => {
+      if (leg.brokerFillId) {
+        knownFillIds.add(leg.brokerFillId);
+      } else {
+        if (!unmatchedLegs.has(symbol)) unmatchedLegs.set(symbol, []);
+        unmatchedLegs.get(symbol)!.push(leg);
+      }
+    });
+  });
+
+  const newFills = fills.filter(fill => {
+    if (knownFillIds.has(fill.fillId)) return false;
+
+    const legs = unmatchedLegs.get(fill.symbol) || [];
+    const index = legs.findIndex(leg => isSameFill(leg, fill));
+    if (index === -1) return true;
+    // Each recorded leg accounts for one fill only
+    legs.splice(index, 1);
+    return false;
+  });
+
+  // Several open trades for one symbol - the latest is the one a new fill continues
+  const openTrades = new Map<string, Trade>();
+  existingTrades
+    .filter(trade => trade.positionStatus !== 'Closed' && trade.openQty > 0)
+    .forEach(trade => {
+      const symbol = getJournalSymbol(trade, aliases);
+      const current = openTrades.get(symbol);
+      if (!current || trade.date >= current.date) openTrades.set(symbol, trade);
+    });
+
+  const extended: Trade[] = [];
+  const remaining: BrokerFill[] = [];
+  groupBySymbol(newFills).forEach((symbolFills, symbol) => {
+    const open = openTrades.get(symbol);
+    if (!open) {
+      remaining.push(...symbolFills);
+      return;
+    }
+
+    // Fills from before the open trade's last fill can't be part of it
+    const legs = getTradeLegs(open);
+    const lastFillDate = legs.reduce((latest, leg) => (leg.date > latest ? leg.date : latest), open.date);
+    remaining.push(...symbolFills.filter(fill => fill.date < lastFillDate));
+
+    const { continued, remaining: afterFlat } = continueOpenPosition(
+      open.buySell === 'Sell' ? 'sell' : 'buy',
+      open.openQty,
+      symbolFills.filter(fill => fill.date >= lastFillDate)
+    );
+    remaining.push(...afterFlat);
+    if (continued.length > 0) {
+      extended.push(withSyncedLegs(open, [...legs, ...continued.map(fillToLeg)]));
+    }
+  });
+
+  const lastTradeNo = existingTrades.reduce((max, trade) => Math.max(max, parseInt(trade.tradeNo) || 0), 0);
+  const added = groupFillsIntoCycles(remaining)
+    .map((cycle, index) => cycleToTrade(cycle, lastTradeNo + index, detected.adapter));
+
+  return { added, extended, skippedFills: fills.length - newFills.length };
+}
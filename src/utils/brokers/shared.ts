@@ -0,0 +1,313 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Trade, TradeLeg } from '../../types/trade';
+import { createTradeLeg, withSyncedLegs } from '../../lib/calculations/core/tradeLegs';
+import { isDerivativeSegment, parseDerivativeSymbol } from '../../lib/calculations/core/instruments';
+import { calcStockMovePercentage } from '../../lib/calculations/utils/mathUtils';
+import { FillAccessor, TradingCycle, detectTradingCycles, summarizeTradingCycle, calcCycleRealisedPL } from '../tradingCycles';
+import type { BrokerAdapter, BrokerFill } from './types';
+import type { SecurityAliases } from '../securityMaster/types';
+
+/**
+ * SHARED BROKER IMPORT LOGIC
+ * Header/cell helpers for adapters, and the fill -> cycle -> Trade pipeline every broker goes through
+ */
+
+export interface BrokerCycle extends TradingCycle<BrokerFill> {
+  symbol: string;
+}
+
+const pad = (value: number | string) => String(value).padStart(2, '0');
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const fullYear = (year: string) => (year.length === 2 ? `20${year}` : year);
+
+export const normalizeHeader = (value: any): string =>
+  String(value ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Column index of the first header matching one of the names, or -1
+ */
+export function headerIndex(headers: string[], ...names: string[]): number {
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+export function readCell(row: any[], index: number): string {
+  return index < 0 ? '' : String(row[index] ?? '').trim();
+}
+
+/**
+ * Numeric cell - tolerates thousands separators (Western or Indian grouping) and a rupee sign
+ */
+export function readNumber(row: any[], index: number): number {
+  const value = row[index];
+  if (typeof value === 'number') return value;
+  return parseFloat(readCell(row, index).replace(/[,\s₹]|Rs\.?/g, '')) || 0;
+}
+
+/**
+ * Broker dates -> YYYY-MM-DD. Handles Excel serial numbers, DD/MM/YYYY and DD-MM-YYYY
+ * (Indian exports), DD-Mon-YYYY, ISO dates and timestamps. Unparseable values come back as ''.
+ */
+export function normalizeBrokerDate(value: any): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  // Excel serial day number (1900 date system, days since 1899-12-30)
+  if (typeof value === 'number') {
+    return new Date(Math.round((value - 25569) * 86400000)).toISOString().split('T')[0];
+  }
+
+  const text = String(value).trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad(iso[2])}-${pad(iso[3])}`;
+
+  const dayFirst = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})\b/);
+  if (dayFirst) {
+    return `${fullYear(dayFirst[3])}-${pad(dayFirst[2])}-${pad(dayFirst[1])}`;
+  }
+
+  const namedMonth = text.match(/^(\d{1,2})[\s\-\/]([A-Za-z]{3,})[\s\-\/,]+(\d{2,4})\b/);
+  const month = namedMonth ? MONTH_NAMES.indexOf(namedMonth[2].slice(0, 3).toLowerCase()) : -1;
+  if (namedMonth && month !== -1) {
+    return `${fullYear(namedMonth[3])}-${pad(month + 1)}-${pad(namedMonth[1])}`;
+  }
+
+  // Anything else ("Mar 15, 2024") - read back in local time so IST dates don't shift
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime())) return '';
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * 24-hour HH:mm:ss out of a time or timestamp cell, AM/PM included ('' when there is none)
+ */
+export function extractTime(value: any): string {
+  const match = String(value ?? '').match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?/);
+  if (!match) return '';
+
+  let hours = Number(match[1]);
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return `${pad(hours)}:${match[2]}:${match[3] || '00'}`;
+}
+
+export function normalizeSide(value: any): BrokerFill['side'] | null {
+  const side = String(value ?? '').trim().toLowerCase();
+  if (side === 'buy' || side === 'b') return 'buy';
+  if (side === 'sell' || side === 's') return 'sell';
+  return null;
+}
+
+/**
+ * Keep fills a journal can use: a symbol, a date, a side and a positive quantity and price
+ */
+export function isUsableFill(fill: Partial<BrokerFill>): fill is BrokerFill {
+  return Boolean(fill.symbol && fill.date && fill.side && fill.qty > 0 && fill.price > 0);
+}
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+/**
+ * Lot sizes for F&O fills whose tradebook doesn't give them: the largest quantity every fill in
+ * the file for the same underlying and expiry is a multiple of. When every fill was several lots
+ * this reads that multiple - the lot size can be corrected on the trade.
+ */
+export function inferLotSizes(fills: BrokerFill[]): BrokerFill[] {
+  const contractKey = (fill: BrokerFill) => {
+    if (!isDerivativeSegment(fill.segment, fill.exchange)) return null;
+    const instrument = parseDerivativeSymbol(fill.symbol, fill.date);
+    return instrument ? `${instrument.underlying}|${instrument.expiry}` : null;
+  };
+
+  const lotSizes = new Map<string, number>();
+  fills.forEach(fill => {
+    const key = contractKey(fill);
+    if (!key || fill.lotSize || !Number.isInteger(fill.qty)) return;
+    lotSizes.set(key, gcd(lotSizes.get(key) || 0, fill.qty));
+  });
+
+  return fills.map(fill => {
+    const key = !fill.lotSize && contractKey(fill);
+    const lotSize = key ? lotSizes.get(key) : undefined;
+    return lotSize ? { ...fill, lotSize } : fill;
+  });
+}
+
+const fillAccessor: FillAccessor<BrokerFill> = {
+  side: fill => fill.side,
+  qty: fill => fill.qty,
+  price: fill => fill.price,
+  date: fill => fill.date,
+  withQty: (fill, qty) => ({ ...fill, qty })
+};
+
+const fillTimestamp = (fill: BrokerFill): number =>
+  Date.parse(`${fill.date}T${fill.time || '00:00:00'}`) || 0;
+
+const sortFills = (fills: BrokerFill[]): BrokerFill[] =>
+  [...fills].sort((a, b) => fillTimestamp(a) - fillTimestamp(b));
+
+/**
+ * Give every fill an id that is the same each time the fill is imported: the broker's
+ * trade number where the export has one, otherwise the fill's own details. Identical
+ * fills without a trade number are told apart by how often they occur in the file.
+ */
+export function assignFillIds(fills: BrokerFill[], adapterId: string): BrokerFill[] {
+  const occurrences = new Map<string, number>();
+
+  return fills.map(fill => {
+    const key = fill.tradeId
+      ? [fill.exchange, fill.date, fill.tradeId].join('|')
+      : [fill.orderId, fill.symbol, fill.date, fill.time, fill.side, fill.qty, fill.price].join('|');
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+
+    return { ...fill, fillId: `${adapterId}:${key}${fill.tradeId ? '' : `#${occurrence}`}` };
+  });
+}
+
+/**
+ * Journal equity fills under the symbol the company trades as now: by ISIN when the tradebook has
+ * one, then by former symbol or BSE code. F&O contracts keep the broker's symbol. Run after the
+ * fill ids are assigned - they hold the broker's symbol, so they stay the same when a company renames.
+ */
+export function applySecurityAliases(fills: BrokerFill[], aliases: SecurityAliases): BrokerFill[] {
+  return fills.map(fill => {
+    if (isDerivativeSegment(fill.segment, fill.exchange)) return fill;
+    const symbol = (fill.isin && aliases.byIsin[fill.isin.toUpperCase()]) || aliases.bySymbol[fill.symbol] || fill.symbol;
+    return symbol === fill.symbol ? fill : { ...fill, symbol };
+  });
+}
+
+export function fillToLeg(fill: BrokerFill): TradeLeg {
+  const leg = createTradeLeg(fill.side === 'sell' ? 'Sell' : 'Buy', fill.date, fill.price, fill.qty);
+  return fill.fillId ? { ...leg, brokerFillId: fill.fillId } : leg;
+}
+
+/**
+ * Split new fills between a position the journal already holds open and whatever comes after
+ * it is flat again. A fill that takes the position through zero is split between the two.
+ */
+export function continueOpenPosition(
+  side: BrokerFill['side'],
+  openQty: number,
+  fills: BrokerFill[]
+): { continued: BrokerFill[]; remaining: BrokerFill[] } {
+  const opening: BrokerFill = { symbol: '', side, qty: openQty, price: 0, date: '' };
+  const [current, ...later] = detectTradingCycles([opening, ...sortFills(fills)], fillAccessor);
+  return { continued: current.slice(1), remaining: later.flat() };
+}
+
+/**
+ * Group fills by symbol and split each symbol's fills into flat-to-flat trading cycles,
+ * earliest cycle first
+ */
+export function groupFillsIntoCycles(fills: BrokerFill[]): BrokerCycle[] {
+  const bySymbol = new Map<string, BrokerFill[]>();
+  fills.forEach(fill => {
+    if (!bySymbol.has(fill.symbol)) bySymbol.set(fill.symbol, []);
+    bySymbol.get(fill.symbol)!.push(fill);
+  });
+
+  const cycles: BrokerCycle[] = [];
+  bySymbol.forEach((symbolFills, symbol) => {
+    // Chronological order is what cycle detection runs on
+    detectTradingCycles(sortFills(symbolFills), fillAccessor).forEach(cycle => {
+      cycles.push({ symbol, ...summarizeTradingCycle(cycle, fillAccessor) });
+    });
+  });
+
+  return cycles.sort((a, b) => fillTimestamp(a.entryTransactions[0]) - fillTimestamp(b.entryTransactions[0]));
+}
+
+function getFillInstrument(fill: BrokerFill | undefined, adapter: Pick<BrokerAdapter, 'getInstrument'>) {
+  if (!fill) return undefined;
+  if (adapter.getInstrument) return adapter.getInstrument(fill);
+  if (!isDerivativeSegment(fill.segment, fill.exchange)) return undefined;
+
+  const instrument = parseDerivativeSymbol(fill.symbol, fill.date);
+  return instrument ? { ...instrument, exchange: fill.exchange, ...(fill.lotSize ? { lotSize: fill.lotSize } : {}) } : undefined;
+}
+
+const daysBetween = (from: string, to: Date) =>
+  Math.ceil((to.getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+
+/**
+ * Build the journal trade for one cycle. Every fill becomes a leg; CMP starts at the
+ * exit price (closed) or the entry price (open) until live prices are fetched.
+ */
+export function cycleToTrade(cycle: BrokerCycle, index: number, adapter: Pick<BrokerAdapter, 'getInstrument'>): Trade {
+  const exitedQty = cycle.totalExitQty;
+  const openQty = Math.max(0, cycle.totalEntryQty - exitedQty);
+  const positionStatus: Trade['positionStatus'] =
+    openQty === 0 ? 'Closed' :
+    exitedQty === 0 ? 'Open' : 'Partial';
+  const isClosed = positionStatus === 'Closed';
+  const cmp = isClosed ? cycle.avgExitPrice : cycle.avgEntryPrice;
+
+  const legs = [...cycle.entryTransactions, ...cycle.exitTransactions].map(fillToLeg);
+
+  const trade: Trade = {
+    id: uuidv4(),
+    tradeNo: `${index + 1}`,
+    date: cycle.firstEntryDate,
+    name: cycle.symbol,
+    entry: cycle.avgEntryPrice,
+    avgEntry: cycle.avgEntryPrice,
+    sl: 0, // Not in broker tradebooks
+    tsl: 0,
+    buySell: cycle.buySell,
+    instrument: getFillInstrument(cycle.entryTransactions[0], adapter),
+    cmp,
+    setup: '',
+    baseDuration: '',
+    initialQty: cycle.totalEntryQty,
+
+    // Entry/pyramid/exit columns are mirrored from the legs below
+    pyramid1Price: 0,
+    pyramid1Qty: 0,
+    pyramid1Date: '',
+    pyramid2Price: 0,
+    pyramid2Qty: 0,
+    pyramid2Date: '',
+
+    positionSize: cycle.totalEntryQty * cycle.avgEntryPrice,
+    allocation: 0, // Needs the portfolio size - filled in by the importer
+    slPercent: 0,
+
+    exit1Price: 0,
+    exit1Qty: 0,
+    exit1Date: '',
+    exit2Price: 0,
+    exit2Qty: 0,
+    exit2Date: '',
+    exit3Price: 0,
+    exit3Qty: 0,
+    exit3Date: '',
+
+    openQty,
+    exitedQty,
+    avgExitPrice: cycle.avgExitPrice,
+    stockMove: calcStockMovePercentage(cycle.avgEntryPrice, cmp, cycle.buySell),
+    rewardRisk: 0, // Cannot calculate without SL
+    holdingDays: daysBetween(cycle.firstEntryDate, isClosed ? new Date(cycle.lastExitDate) : new Date()),
+    positionStatus,
+    realisedAmount: exitedQty * cycle.avgExitPrice,
+    plRs: calcCycleRealisedPL(cycle),
+    pfImpact: 0,
+    cummPf: 0,
+    planFollowed: false,
+    exitTrigger: isClosed ? 'Manual Exit' : '',
+    proficiencyGrowthAreas: '',
+    openHeat: 0,
+    notes: ''
+  };
+
+  return withSyncedLegs(trade, legs);
+}
@@ -0,0 +1,62 @@
+import type { TradeInstrument } from '../../types/trade';
+
+/**
+ * One executed fill from a broker tradebook, in the shape every adapter parses into
+ */
+export interface BrokerFill {
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  price: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:mm:ss when the export has it - orders fills within a day */
+  time?: string;
+  exchange?: string;
+  segment?: string;
+  isin?: string;
+  tradeId?: string;
+  orderId?: string;
+  /** Units per lot of an F&O contract */
+  lotSize?: number;
+  /** Stable across imports of overlapping tradebooks - set once the file is parsed */
+  fillId?: string;
+}
+
+/**
+ * One sheet of an uploaded file as a raw cell grid - a CSV is a single sheet.
+ * The header row is not necessarily the first: some exports put a title block above it.
+ */
+export interface BrokerSheet {
+  fileName: string;
+  sheetName?: string;
+  rows: any[][];
+}
+
+export type BrokerBadgeColor = 'primary' | 'secondary' | 'success' | 'warning' | 'danger' | 'default';
+
+/**
+ * What a broker importer provides. Grouping fills into trading cycles and building
+ * the journal trades is shared, so every broker pairs entries and exits the same way.
+ */
+export interface BrokerAdapter {
+  id: string;
+  name: string;
+  /** Chip shown once a file is recognised */
+  badge: { icon: string; color: BrokerBadgeColor };
+  /**
+   * Whether a row is this broker's tradebook header. Cells arrive lowercased with
+   * whitespace collapsed; the sheet is there for adapters that recognise sheet names.
+   */
+  detect: (headers: string[], sheet: BrokerSheet) => boolean;
+  /** Rows below the header -> fills. Rows that are not executed trades are dropped. */
+  parse: (headers: string[], rows: any[][]) => BrokerFill[];
+  /** F&O contract of a fill - defaults to parsing the symbol when the segment is F&O */
+  getInstrument?: (fill: BrokerFill) => TradeInstrument | undefined;
+}
+
+export interface DetectedBroker {
+  adapter: BrokerAdapter;
+  sheet: BrokerSheet;
+  headerRowIndex: number;
+}
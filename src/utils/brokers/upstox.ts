@@ -0,0 +1,49 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill } from './shared';
+
+/**
+ * Upstox trade report (Excel): a title block above the header row, dates as Excel serials,
+ * the traded symbol in the 'Company' column
+ */
+export const upstoxAdapter: BrokerAdapter = {
+  id: 'upstox',
+  name: 'Upstox',
+  badge: { icon: 'lucide:file-spreadsheet', color: 'warning' },
+
+  detect: headers => {
+    const row = headers.join('|');
+    return headers.length > 10 &&
+      row.includes('date') && row.includes('company') && row.includes('side') && row.includes('quantity');
+  },
+
+  parse: (headers, rows) => {
+    const col = {
+      symbol: headerIndex(headers, 'company'),
+      date: headerIndex(headers, 'date'),
+      time: headerIndex(headers, 'trade time'),
+      side: headerIndex(headers, 'side'),
+      qty: headerIndex(headers, 'quantity'),
+      price: headerIndex(headers, 'price'),
+      exchange: headerIndex(headers, 'exchange'),
+      segment: headerIndex(headers, 'segment'),
+      tradeId: headerIndex(headers, 'trade num'),
+      // Not in every report - fills without one fall back to their own details for an id
+      orderId: headerIndex(headers, 'order num', 'order id')
+    };
+
+    return rows
+      .map((row): Partial<BrokerFill> => ({
+        symbol: readCell(row, col.symbol),
+        side: normalizeSide(row[col.side]),
+        qty: readNumber(row, col.qty),
+        price: readNumber(row, col.price),
+        date: normalizeBrokerDate(row[col.date]),
+        time: extractTime(row[col.time]),
+        exchange: readCell(row, col.exchange),
+        segment: readCell(row, col.segment) || 'EQ',
+        tradeId: readCell(row, col.tradeId),
+        orderId: readCell(row, col.orderId)
+      }))
+      .filter(isUsableFill);
+  }
+};
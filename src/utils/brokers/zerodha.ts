@@ -0,0 +1,61 @@
+import type { BrokerAdapter, BrokerFill } from './types';
+import { headerIndex, readCell, readNumber, normalizeBrokerDate, normalizeSide, extractTime, isUsableFill, inferLotSizes } from './shared';
+
+// Columns only Zerodha's tradebook has, and the ones any tradebook needs
+const UNIQUE_HEADERS = ['trade_type', 'trade_id', 'order_id', 'isin', 'series'];
+const REQUIRED_HEADERS = ['symbol', 'trade_date', 'quantity', 'price'];
+
+// Console exports have used both snake_case and spaced headers
+const matchesHeader = (headers: string[], name: string) =>
+  headers.some(header =>
+    header.includes(name) ||
+    header.includes(name.replace('_', ' ')) ||
+    header.includes(name.replace('_', ''))
+  );
+
+/**
+ * Zerodha Console tradebook (CSV): one row per fill, F&O contracts in the tradingsymbol. Quantities
+ * are in units and the lot size isn't listed, so it is worked out from the fills.
+ */
+export const zerodhaAdapter: BrokerAdapter = {
+  id: 'zerodha',
+  name: 'Zerodha',
+  badge: { icon: 'lucide:zap', color: 'primary' },
+
+  detect: headers =>
+    UNIQUE_HEADERS.filter(name => matchesHeader(headers, name)).length >= 2 &&
+    REQUIRED_HEADERS.filter(name => matchesHeader(headers, name)).length >= 3,
+
+  parse: (headers, rows) => {
+    const col = {
+      symbol: headerIndex(headers, 'symbol', 'tradingsymbol'),
+      isin: headerIndex(headers, 'isin'),
+      date: headerIndex(headers, 'trade_date', 'trade date'),
+      exchange: headerIndex(headers, 'exchange'),
+      segment: headerIndex(headers, 'segment'),
+      side: headerIndex(headers, 'trade_type', 'trade type'),
+      qty: headerIndex(headers, 'quantity'),
+      price: headerIndex(headers, 'price'),
+      tradeId: headerIndex(headers, 'trade_id', 'trade id'),
+      orderId: headerIndex(headers, 'order_id', 'order id'),
+      executedAt: headerIndex(headers, 'order_execution_time', 'order execution time')
+    };
+
+    const fills = rows
+      .map((row): Partial<BrokerFill> => ({
+        symbol: readCell(row, col.symbol),
+        side: normalizeSide(row[col.side]),
+        qty: readNumber(row, col.qty),
+        price: readNumber(row, col.price),
+        date: normalizeBrokerDate(row[col.date]),
+        time: extractTime(row[col.executedAt]),
+        exchange: readCell(row, col.exchange),
+        segment: readCell(row, col.segment),
+        isin: readCell(row, col.isin),
+        tradeId: readCell(row, col.tradeId),
+        orderId: readCell(row, col.orderId)
+      }))
+      .filter(isUsableFill);
+    return inferLotSizes(fills);
+  }
+};
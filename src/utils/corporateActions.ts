@@ -0,0 +1,191 @@
+import { StorageService } from "../services/storageBackend";
+import { Trade, CorporateAction, AppliedCorporateAction } from "../types/trade";
+import {
+  applyCorporateAction,
+  revertCorporateAction,
+  getHeldCostOnExDate
+} from "../lib/calculations";
+import { groupFillsIntoCycles, cycleToTrade } from "./brokers";
+
+/**
+ * The corporate actions register - splits, bonuses, dividends and demergers the user records so
+ * trades held through them can be restated. Saved in misc data; applying an action rewrites the
+ * affected trades and keeps what it replaced on each trade (see AppliedCorporateAction).
+ */
+
+const CORPORATE_ACTIONS_KEY = 'corporateActions';
+
+export interface DividendCapitalChange {
+  date: string;
+  amount: number;
+  type: 'deposit';
+  description: string;
+  accountId?: string;
+}
+
+export interface CorporateActionReversal {
+  /** Trades restored to how they were before the action */
+  trades: Trade[];
+  /** Trades the action opened for demerged shares */
+  removedTradeIds: string[];
+  /** Dividends the action credited - to take back out of capital changes */
+  capitalChanges: DividendCapitalChange[];
+}
+
+export interface CorporateActionApplication {
+  /** Adjusted trades, then any opened for demerged shares */
+  trades: Trade[];
+  /** Dividends to credit, one per trade */
+  capitalChanges: DividendCapitalChange[];
+}
+
+export async function getCorporateActions(): Promise<CorporateAction[]> {
+  const actions = await StorageService.backend.misc.get(CORPORATE_ACTIONS_KEY);
+  return Array.isArray(actions) ? actions : [];
+}
+
+async function saveActions(actions: CorporateAction[], failure: string): Promise<CorporateAction[]> {
+  const sorted = [...actions].sort((a, b) => b.exDate.localeCompare(a.exDate) || a.symbol.localeCompare(b.symbol));
+  if (!await StorageService.backend.misc.save(CORPORATE_ACTIONS_KEY, sorted)) {
+    throw new Error(failure);
+  }
+  return sorted;
+}
+
+/**
+ * Add an action to the register, or replace the one with the same id
+ */
+export async function saveCorporateAction(action: CorporateAction): Promise<CorporateAction[]> {
+  const actions = (await getCorporateActions()).filter(existing => existing.id !== action.id);
+  return saveActions([...actions, action], 'Failed to save corporate action');
+}
+
+/**
+ * Remove an action from the register. Trades it was applied to keep their adjustment.
+ */
+export async function deleteCorporateAction(id: string): Promise<CorporateAction[]> {
+  const actions = (await getCorporateActions()).filter(existing => existing.id !== id);
+  return saveActions(actions, 'Failed to delete corporate action');
+}
+
+/**
+ * What's wrong with an action before it can be saved, or null
+ */
+export function validateCorporateAction(action: Partial<CorporateAction>): string | null {
+  if (!action.symbol?.trim()) return 'Enter the symbol';
+  if (!action.exDate || !/^\d{4}-\d{2}-\d{2}$/.test(action.exDate)) return 'Enter the ex-date';
+
+  const hasRatio = Number(action.ratioFrom) > 0 && Number(action.ratioTo) > 0;
+  switch (action.type) {
+    case 'split':
+    case 'bonus':
+      return hasRatio ? null : 'Enter the ratio';
+    case 'dividend':
+      return Number(action.dividendPerShare) > 0 ? null : 'Enter the dividend per share';
+    case 'demerger': {
+      if (!action.newSymbol?.trim()) return 'Enter the demerged company\'s symbol';
+      if (!hasRatio) return 'Enter the share entitlement ratio';
+      const retained = Number(action.costRetained);
+      return retained >= 0 && retained <= 1 ? null : 'Cost retained must be between 0 and 100%';
+    }
+    default:
+      return 'Choose the action type';
+  }
+}
+
+// UTC midnight, like capital changes entered by month
+const toCapitalChangeDate = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date)).toISOString();
+};
+
+/**
+ * The position a demerger leaves in the new company, bought on the ex-date at the share of the
+ * parent's cost that moved across
+ */
+function openDemergedTrade(parent: Trade, action: CorporateAction, heldQty: number, index: number): Trade | null {
+  const qty = Math.floor(heldQty * Number(action.ratioTo) / Number(action.ratioFrom));
+  if (!action.newSymbol || qty <= 0) return null;
+
+  const movedCost = getHeldCostOnExDate(parent, action.exDate) * (1 - Number(action.costRetained));
+  const [cycle] = groupFillsIntoCycles([{
+    symbol: action.newSymbol.trim().toUpperCase(),
+    side: 'buy',
+    qty,
+    price: Math.round(movedCost / qty * 10000) / 10000,
+    date: action.exDate
+  }]);
+  return {
+    ...cycleToTrade(cycle, index, {}),
+    setup: parent.setup,
+    sector: parent.sector,
+    accountId: parent.accountId,
+    notes: `Demerged from ${parent.name} (trade ${parent.tradeNo})`
+  };
+}
+
+// The capital change a dividend is credited as - built the same way on undo to find it again
+const toDividendCapitalChange = (trade: Trade, action: CorporateAction, applied: AppliedCorporateAction): DividendCapitalChange => ({
+  date: toCapitalChangeDate(action.exDate),
+  amount: applied.dividendAmount!,
+  type: 'deposit',
+  description: `Dividend: ${trade.name} ₹${action.dividendPerShare}/share on ${applied.heldQty} shares (trade ${trade.tradeNo})`,
+  ...(trade.accountId ? { accountId: trade.accountId } : {})
+});
+
+/**
+ * Apply an action to every trade it affects
+ */
+export function applyCorporateActionToTrades(
+  action: CorporateAction,
+  trades: Trade[],
+  nextTradeNo: string,
+  appliedAt: string = new Date().toISOString()
+): CorporateActionApplication {
+  const adjusted: Trade[] = [];
+  const opened: Trade[] = [];
+  const capitalChanges: DividendCapitalChange[] = [];
+  let index = (parseInt(nextTradeNo) || 1) - 1;
+
+  trades.forEach(trade => {
+    const result = applyCorporateAction(trade, action, appliedAt);
+    if (!result) return;
+
+    if (action.type === 'dividend' && result.applied.dividendAmount) {
+      capitalChanges.push(toDividendCapitalChange(trade, action, result.applied));
+    }
+
+    if (action.type === 'demerger') {
+      const demerged = openDemergedTrade(trade, action, result.applied.heldQty, index);
+      if (demerged) {
+        index += 1;
+        opened.push(demerged);
+        const history = result.trade.corporateActions!;
+        history[history.length - 1] = { ...result.applied, demergedTradeId: demerged.id };
+      }
+    }
+
+    adjusted.push(result.trade);
+  });
+
+  return { trades: [...adjusted, ...opened], capitalChanges };
+}
+
+/**
+ * Undo an action on the trades where it is the latest one applied, along with the dividends it
+ * credited and the trades it opened for demerged shares
+ */
+export function revertCorporateActionOnTrades(action: CorporateAction, trades: Trade[]): CorporateActionReversal {
+  const reversal: CorporateActionReversal = { trades: [], removedTradeIds: [], capitalChanges: [] };
+
+  trades.forEach(trade => {
+    const reverted = revertCorporateAction(trade, action.id);
+    if (!reverted) return;
+    const applied = trade.corporateActions![trade.corporateActions!.length - 1];
+
+    reversal.trades.push(reverted);
+    if (applied.demergedTradeId) reversal.removedTradeIds.push(applied.demergedTradeId);
+    if (applied.dividendAmount) reversal.capitalChanges.push(toDividendCapitalChange(trade, action, applied));
+  });
+  return reversal;
+}
@@ -0,0 +1,49 @@
+import { StorageService } from "../services/storageBackend";
+import { CalendarEntry, setCalendarOverrides } from "../lib/calculations/utils/exchangeCalendar";
+
+/**
+ * Holidays and special sessions the user adds on top of the bundled exchange calendar, for
+ * announcements made after the bundled list was last updated. Saved in misc data and installed
+ * into the calendar at startup.
+ */
+
+const CALENDAR_OVERRIDES_KEY = 'exchangeCalendarOverrides';
+
+const sameDay = (a: CalendarEntry, b: CalendarEntry) =>
+  a.date === b.date && (a.exchanges || []).join(',') === (b.exchanges || []).join(',');
+
+export async function getCalendarOverrideEntries(): Promise<CalendarEntry[]> {
+  const entries = await StorageService.backend.misc.get(CALENDAR_OVERRIDES_KEY);
+  return Array.isArray(entries) ? entries : [];
+}
+
+async function saveOverrides(entries: CalendarEntry[], failure: string): Promise<CalendarEntry[]> {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  if (!await StorageService.backend.misc.save(CALENDAR_OVERRIDES_KEY, sorted)) {
+    throw new Error(failure);
+  }
+  setCalendarOverrides(sorted);
+  return sorted;
+}
+
+/**
+ * Read the saved overrides into the calendar - the bundled calendar alone is used if that fails
+ */
+export async function loadExchangeCalendarOverrides(): Promise<CalendarEntry[]> {
+  const entries = await getCalendarOverrideEntries();
+  setCalendarOverrides(entries);
+  return entries;
+}
+
+/**
+ * Add an override, or replace the one for the same date and exchanges
+ */
+export async function saveCalendarOverride(entry: CalendarEntry): Promise<CalendarEntry[]> {
+  const entries = (await getCalendarOverrideEntries()).filter(existing => !sameDay(existing, entry));
+  return saveOverrides([...entries, entry], 'Failed to save calendar override');
+}
+
+export async function deleteCalendarOverride(entry: CalendarEntry): Promise<CalendarEntry[]> {
+  const entries = (await getCalendarOverrideEntries()).filter(existing => !sameDay(existing, entry));
+  return saveOverrides(entries, 'Failed to delete calendar override');
+}
@@ -1,6 +1,6 @@
 // Removed automatic ID generation function - IDs should be generated explicitly when needed
 
-import { SupabaseService } from '../services/supabaseService';
+import { StorageService } from '../services/storageBackend';
 
 /**
  * Safely get a value from Supabase with fallback
@@ -15,7 +15,7 @@ export const getFromSupabase = async <T>(
   parser?: (value: any) => T
 ): Promise<T> => {
   try {
-    const stored = await SupabaseService.getMiscData(key);
+    const stored = await StorageService.backend.misc.get(key);
     if (stored === null || stored === undefined) return fallback;
 
     if (parser) {
@@ -42,7 +42,7 @@ export const setToSupabase = async <T>(
 ): Promise<boolean> => {
   try {
     const valueToStore = serializer ? serializer(value) : value;
-    return await SupabaseService.saveMiscData(key, valueToStore);
+    return await StorageService.backend.misc.save(key, valueToStore);
   } catch (error) {
     return false;
   }
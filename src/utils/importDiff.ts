@@ -0,0 +1,231 @@
+import { Trade } from "../types/trade";
+import {
+  calcAvgEntry,
+  calcPositionSize,
+  calcAllocation,
+  calcSLPercent,
+  calcCapitalAtWork,
+  calcAvgExitPrice,
+  calcStockMove,
+  calcRewardRisk,
+  calcHoldingDays,
+  calcRealisedAmount,
+  calcPFImpact,
+  calcRealizedPL_FIFO,
+  getEntryLegs,
+  getExitLegs,
+  withSyncedLegs
+} from "../lib/calculations";
+import { validateTrade, TradeIssue } from "./tradeValidations";
+import { validateTradeForDatabase } from "./databaseValidation";
+import { diffRecordFields } from "./syncConflicts";
+
+/**
+ * Dry-run view of an import: what each row would do to the journal, checked before anything is saved
+ */
+
+export type ImportRowKind = 'new' | 'modified' | 'duplicate';
+
+export interface ImportPreviewRow {
+  trade: Trade;
+  kind: ImportRowKind;
+  /** Journal trade the row modifies or appears to duplicate */
+  match?: Trade;
+  /** Fields a modified trade changes */
+  changedFields: string[];
+  /** Problems found while reading the file (e.g. unparseable dates) - cleared once the row is edited */
+  parseIssues: TradeIssue[];
+  issues: TradeIssue[];
+  excluded: boolean;
+}
+
+/**
+ * Portfolio size imported trades are sized against, by month. It is looked up before the import
+ * worker starts, since the worker can't reach the portfolio context; keys are `Mon-YYYY` like the
+ * trade calculation worker's.
+ */
+export interface ImportPortfolioSizes {
+  byMonth: Record<string, number>;
+  /** For months outside the table */
+  fallback: number;
+}
+
+const PRICE_DECIMALS = 2;
+
+const portfolioMonthKey = (date: Date) => `${date.toLocaleString('default', { month: 'short' })}-${date.getFullYear()}`;
+
+/**
+ * Portfolio sizes for every month of the given years
+ */
+export function buildImportPortfolioSizes(
+  getPortfolioSize: ((month: string, year: number) => number) | undefined,
+  fallback: number,
+  fromYear: number,
+  toYear: number
+): ImportPortfolioSizes {
+  const byMonth: Record<string, number> = {};
+  if (getPortfolioSize) {
+    for (let year = fromYear; year <= toYear; year++) {
+      for (let month = 0; month < 12; month++) {
+        const date = new Date(year, month, 1);
+        byMonth[portfolioMonthKey(date)] = getPortfolioSize(date.toLocaleString('default', { month: 'short' }), year);
+      }
+    }
+  }
+  return { byMonth, fallback };
+}
+
+/**
+ * Fill in everything derived from an imported trade's legs. An imported "Legs" column wins over the
+ * slot columns; otherwise the slots become the legs. CMP is fetched once the trade is saved, not imported.
+ */
+export function recalculateImportedTrade(rawTrade: Trade, portfolio: ImportPortfolioSizes): Trade {
+  const trade = Array.isArray(rawTrade.legs) && rawTrade.legs.length > 0
+    ? withSyncedLegs(rawTrade, rawTrade.legs.map(leg => ({ ...leg, date: leg.date || rawTrade.date })))
+    : withSyncedLegs({ ...rawTrade, legs: [] });
+
+  const tradePortfolioSize = portfolio.byMonth[portfolioMonthKey(new Date(trade.date))] ?? portfolio.fallback;
+
+  const allEntries = getEntryLegs(trade).map(e => ({ price: e.price, qty: e.qty, date: e.date || trade.date }));
+  const allExits = getExitLegs(trade).map(e => ({ price: e.price, qty: e.qty, date: e.date || trade.date }));
+
+  const totalInitialQty = allEntries.reduce((sum, e) => sum + e.qty, 0);
+  const avgEntry = calcAvgEntry(allEntries);
+  const positionSize = calcPositionSize(avgEntry, totalInitialQty);
+  const allocation = calcAllocation(calcCapitalAtWork(trade, positionSize), tradePortfolioSize);
+  const slPercent = calcSLPercent(trade.sl, trade.entry, trade.buySell);
+
+  const exitedQty = allExits.reduce((sum, e) => sum + e.qty, 0);
+  const openQty = Math.max(0, totalInitialQty - exitedQty);
+  const avgExitPrice = calcAvgExitPrice(allExits);
+
+  let positionStatus: 'Open' | 'Closed' | 'Partial';
+  if (exitedQty === 0) {
+    positionStatus = 'Open';
+  } else if (exitedQty >= totalInitialQty) {
+    positionStatus = 'Closed';
+  } else {
+    positionStatus = 'Partial';
+  }
+
+  const stockMove = calcStockMove(avgEntry, avgExitPrice, trade.cmp, openQty, exitedQty, positionStatus, trade.buySell);
+  const rewardRisk = calcRewardRisk(
+    trade.cmp || avgExitPrice || trade.entry,
+    trade.entry,
+    trade.sl,
+    positionStatus,
+    avgExitPrice,
+    openQty,
+    exitedQty,
+    trade.buySell
+  );
+  const holdingDays = calcHoldingDays(
+    trade.date,
+    allExits.length > 0 ? allExits[allExits.length - 1].date : trade.date,
+    allEntries.slice(1).map(e => e.date),
+    allExits.map(e => e.date)
+  );
+  const realisedAmount = calcRealisedAmount(exitedQty, avgExitPrice);
+  const plRs = exitedQty > 0 ? calcRealizedPL_FIFO(allEntries, allExits, trade.buySell as 'Buy' | 'Sell') : 0;
+
+  // Sized against the entry month; the journal's own pipeline redoes this per accounting method
+  const pfImpact = calcPFImpact(plRs, tradePortfolioSize);
+
+  return {
+    ...trade,
+    avgEntry,
+    positionSize,
+    allocation,
+    slPercent,
+    openQty,
+    exitedQty,
+    avgExitPrice,
+    stockMove,
+    rewardRisk,
+    holdingDays,
+    positionStatus,
+    realisedAmount,
+    plRs,
+    pfImpact,
+    cummPf: 0, // Calculated across all trades once saved
+    openHeat: 0 // Needs the portfolio context
+  };
+}
+
+// Same instrument, day, side, entry price and size - almost certainly the same trade entered twice
+const duplicateKey = (trade: Trade) => [
+  String(trade.name || '').trim().toUpperCase(),
+  String(trade.date || '').slice(0, 10),
+  trade.buySell,
+  (Number(trade.entry) || 0).toFixed(PRICE_DECIMALS),
+  Number(trade.initialQty) || 0
+].join('|');
+
+/**
+ * Journal-rule warnings (validateTrade) plus whatever would stop the database from accepting the row
+ */
+export function collectImportIssues(trade: Trade, parseIssues: TradeIssue[] = []): TradeIssue[] {
+  const { errors } = validateTradeForDatabase(trade);
+  return [
+    ...errors.map(message => ({ type: 'error' as const, message })),
+    ...parseIssues,
+    ...validateTrade(trade)
+  ];
+}
+
+/**
+ * Classify incoming trades against the journal. Trades that reuse a journal trade's id modify it;
+ * trades matching a journal trade (or an earlier row) on name, date, side, entry and quantity are
+ * suspected duplicates and start out excluded.
+ */
+export function buildImportPreview(
+  trades: Trade[],
+  existingTrades: Trade[],
+  parseIssues: Record<string, TradeIssue[]> = {}
+): ImportPreviewRow[] {
+  const existingById = new Map(existingTrades.map(trade => [trade.id, trade]));
+  const existingByKey = new Map(existingTrades.map(trade => [duplicateKey(trade), trade]));
+  const seenKeys = new Set<string>();
+
+  return trades.map(trade => {
+    const rowParseIssues = parseIssues[trade.id] || [];
+    const row: ImportPreviewRow = {
+      trade,
+      kind: 'new',
+      changedFields: [],
+      parseIssues: rowParseIssues,
+      issues: collectImportIssues(trade, rowParseIssues),
+      excluded: false
+    };
+
+    const modified = existingById.get(trade.id);
+    if (modified) {
+      return { ...row, kind: 'modified', match: modified, changedFields: diffRecordFields(modified, trade) };
+    }
+
+    const key = duplicateKey(trade);
+    const duplicate = existingByKey.get(key);
+    const repeatsEarlierRow = seenKeys.has(key);
+    seenKeys.add(key);
+    if (duplicate || repeatsEarlierRow) {
+      return { ...row, kind: 'duplicate', match: duplicate, excluded: true };
+    }
+
+    return row;
+  });
+}
+
+/**
+ * Replace a row's trade after an edit in the preview and re-run the checks
+ */
+export function updateImportRow(row: ImportPreviewRow, trade: Trade): ImportPreviewRow {
+  return {
+    ...row,
+    trade,
+    parseIssues: [],
+    issues: collectImportIssues(trade),
+    changedFields: row.kind === 'modified' && row.match ? diffRecordFields(row.match, trade) : row.changedFields
+  };
+}
+
+export const hasImportErrors = (row: ImportPreviewRow) => row.issues.some(issue => issue.type === 'error');
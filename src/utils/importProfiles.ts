@@ -0,0 +1,133 @@
+import { StorageService } from "../services/storageBackend";
+
+/**
+ * Saved layouts for journal spreadsheets that aren't a recognised broker tradebook, so a file in
+ * a known layout skips the column mapping, date format and number format questions
+ */
+
+export interface NumberFormat {
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: ',' | '.' | ' ' | '';
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  /** Normalized header row of the file the profile was saved from */
+  headerSignature: string[];
+  /** Journal field -> file column */
+  columnMapping: Record<string, string>;
+  /** One of the modal's date format options */
+  dateFormat: string;
+  numberFormat: NumberFormat;
+  /** Workbook sheet the trades are on (Excel files) */
+  sheetName?: string;
+  /** Rows above the header row - title blocks, account details */
+  headerRowOffset: number;
+  /** Setup given to rows that have none */
+  defaultSetup: string;
+  updatedAt: string;
+}
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { decimalSeparator: '.', thousandsSeparator: ',' };
+
+const IMPORT_PROFILES_KEY = 'importProfiles';
+
+// Share of the profile's columns a file must have for the profile to be picked automatically
+const MIN_HEADER_OVERLAP = 0.8;
+
+const normalizeHeaderCell = (value: any) => String(value ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+export const getHeaderSignature = (headers: any[]): string[] =>
+  headers.map(normalizeHeaderCell).filter(Boolean);
+
+/**
+ * How well a header row fits a profile: 1 for the same columns, 0 when a mapped column is missing
+ */
+export function scoreProfileMatch(profile: ImportProfile, headers: any[]): number {
+  const signature = new Set(getHeaderSignature(headers));
+  const mappedColumns = Object.values(profile.columnMapping).map(normalizeHeaderCell);
+  if (mappedColumns.some(column => !signature.has(column))) return 0;
+
+  const shared = profile.headerSignature.filter(column => signature.has(column)).length;
+  return shared / Math.max(profile.headerSignature.length, signature.size, 1);
+}
+
+/**
+ * Best saved profile for a file, along with the sheet it applies to
+ */
+export function findMatchingProfile<T extends { sheetName?: string; rows: any[][] }>(
+  profiles: ImportProfile[],
+  sheets: T[]
+): { profile: ImportProfile; sheet: T } | null {
+  let best: { profile: ImportProfile; sheet: T } | null = null;
+  let bestScore = MIN_HEADER_OVERLAP;
+
+  for (const profile of profiles) {
+    const candidates = profile.sheetName
+      ? sheets.filter(sheet => sheet.sheetName === profile.sheetName)
+      : sheets.slice(0, 1);
+    for (const sheet of candidates) {
+      const score = scoreProfileMatch(profile, sheet.rows[profile.headerRowOffset] || []);
+      if (score > bestScore || (score === bestScore && !best)) {
+        best = { profile, sheet };
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The profile's column mapping in this file's header spelling. Columns the file doesn't have are left unmapped.
+ */
+export function applyProfileMapping(profile: ImportProfile, headers: string[]): Record<string, string> {
+  const byNormalized = new Map(headers.map(header => [normalizeHeaderCell(header), header]));
+  return Object.fromEntries(
+    Object.entries(profile.columnMapping)
+      .map(([field, column]) => [field, byNormalized.get(normalizeHeaderCell(column))])
+      .filter(([, column]) => column)
+  );
+}
+
+/**
+ * Rewrite a number cell in the profile's format ("1.234,50") into the plain form ("1234.50")
+ */
+export function normalizeNumberCell(value: any, format: NumberFormat): any {
+  if (typeof value !== 'string') return value;
+  if (format.decimalSeparator === DEFAULT_NUMBER_FORMAT.decimalSeparator &&
+      format.thousandsSeparator === DEFAULT_NUMBER_FORMAT.thousandsSeparator) {
+    return value;
+  }
+
+  const withoutGrouping = format.thousandsSeparator
+    ? value.split(format.thousandsSeparator).join('')
+    : value;
+  return format.decimalSeparator === ',' ? withoutGrouping.replace(',', '.') : withoutGrouping;
+}
+
+export async function getImportProfiles(): Promise<ImportProfile[]> {
+  const profiles = await StorageService.backend.misc.get(IMPORT_PROFILES_KEY);
+  return Array.isArray(profiles) ? profiles : [];
+}
+
+/**
+ * Add a profile, or replace the one with the same id
+ */
+export async function saveImportProfile(profile: ImportProfile): Promise<ImportProfile[]> {
+  const profiles = (await getImportProfiles()).filter(existing => existing.id !== profile.id);
+  const updated = [...profiles, profile].sort((a, b) => a.name.localeCompare(b.name));
+  if (!await StorageService.backend.misc.save(IMPORT_PROFILES_KEY, updated)) {
+    throw new Error('Failed to save import profile');
+  }
+  return updated;
+}
+
+export async function deleteImportProfile(id: string): Promise<ImportProfile[]> {
+  const updated = (await getImportProfiles()).filter(profile => profile.id !== id);
+  if (!await StorageService.backend.misc.save(IMPORT_PROFILES_KEY, updated)) {
+    throw new Error('Failed to delete import profile');
+  }
+  return updated;
+}
@@ -1,4 +1,5 @@
-import Papa from 'papaparse';
+import { getSecuritySymbol, loadSecurityMaster } from './securityMaster';
+import type { SecurityIndex } from './securityMaster';
 
 export interface IndustrySectorInfo {
   name: string;
@@ -6,37 +7,29 @@ export interface IndustrySectorInfo {
   sector: string;
 }
 
-let mapping: Record<string, IndustrySectorInfo> = {};
-let loaded = false;
+// Sectors come from the security master, so a trade under a company's old symbol still finds its sector
+let master: SecurityIndex | null = null;
 
 export async function loadIndustrySectorMapping(): Promise<void> {
-  if (loaded) return;
-  return new Promise((resolve, reject) => {
-    Papa.parse('/name_sector_industry.csv', {
-      download: true,
-      header: true,
-      complete: (results) => {
-        mapping = {};
-        for (const row of results.data as any[]) {
-          if (!row['Stock Name']) continue;
-          mapping[row['Stock Name'].toUpperCase()] = {
-            name: row['Stock Name'],
-            industry: row['Basic Industry'] || '',
-            sector: row['Sector'] || '',
-          };
-        }
-        loaded = true;
-        resolve();
-      },
-      error: (err) => reject(err),
-    });
-  });
+  master = await loadSecurityMaster();
 }
 
 export function getIndustrySectorByName(name: string): IndustrySectorInfo | undefined {
-  return mapping[name.toUpperCase()];
+  const security = master?.resolve(name);
+  if (!security || (!security.industry && !security.sector)) return undefined;
+  return {
+    name: getSecuritySymbol(security),
+    industry: security.industry || '',
+    sector: security.sector || '',
+  };
 }
 
 export function getAllIndustrySectorMappings(): IndustrySectorInfo[] {
-  return Object.values(mapping);
-}
\ No newline at end of file
+  return (master?.snapshot.securities || [])
+    .filter(security => security.industry || security.sector)
+    .map(security => ({
+      name: getSecuritySymbol(security),
+      industry: security.industry || '',
+      sector: security.sector || '',
+    }));
+}
@@ -0,0 +1,163 @@
+/**
+ * Candle Cache Tests
+ * A counting provider over the NIFTYBEES.json fixture (13-18 March 2024, daily), with the clock
+ * fixed on Wednesday 20 March 2024
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import {
+  createFileMarketDataProvider,
+  createMemoryCandleStore,
+  withCandleCache,
+  findMissingRanges,
+  mergeDayRanges,
+  evictCandleCache,
+  MarketDataProvider
+} from '..';
+
+const fixture = readFileSync(fileURLToPath(new URL('./fixtures/NIFTYBEES.json', import.meta.url)), 'utf8');
+
+function countingProvider(options: { offline?: boolean } = {}) {
+  const files = createFileMarketDataProvider(async symbol => (symbol === 'NIFTYBEES' ? fixture : null));
+  const calls: { method: string; from?: string; to?: string }[] = [];
+  const dayOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  const failWhenOffline = () => {
+    if (options.offline) throw new Error('Network unavailable');
+  };
+
+  const provider: MarketDataProvider = {
+    ...files,
+    async getQuote(symbol) {
+      calls.push({ method: 'quote' });
+      failWhenOffline();
+      return files.getQuote(symbol);
+    },
+    async getQuotes(symbols) {
+      calls.push({ method: `quotes ${symbols.join(',')}` });
+      failWhenOffline();
+      return files.getQuotes(symbols);
+    },
+    async getEodHistory(symbol, from, to) {
+      calls.push({ method: 'eod', from: dayOf(from), to: dayOf(to) });
+      failWhenOffline();
+      return files.getEodHistory(symbol, from, to);
+    }
+  };
+  return { provider, calls, setOffline: (offline: boolean) => { options.offline = offline; } };
+}
+
+const now = () => new Date(2024, 2, 20, 12, 0, 0);
+const day = (date: string) => new Date(`${date}T00:00:00`);
+
+describe('Candle Cache', () => {
+  test('gaps should be the uncovered weekdays of the range', () => {
+    const covered = [{ from: '2024-03-11', to: '2024-03-13' }, { from: '2024-03-18', to: '2024-03-19' }];
+
+    expect(findMissingRanges(covered, '2024-03-11', '2024-03-22')).toEqual([
+      { from: '2024-03-14', to: '2024-03-15' },
+      { from: '2024-03-20', to: '2024-03-22' }
+    ]);
+    // Only a weekend between two covered ranges
+    expect(findMissingRanges([{ from: '2024-03-11', to: '2024-03-15' }, { from: '2024-03-18', to: '2024-03-19' }], '2024-03-11', '2024-03-19')).toEqual([]);
+    expect(mergeDayRanges([{ from: '2024-03-14', to: '2024-03-15' }, ...covered])).toEqual([
+      { from: '2024-03-11', to: '2024-03-15' },
+      { from: '2024-03-18', to: '2024-03-19' }
+    ]);
+  });
+
+  test('history should be fetched once and then read from the cache', async () => {
+    const { provider, calls } = countingProvider();
+    const cached = withCandleCache(provider, createMemoryCandleStore(), { now });
+
+    const first = await cached.getEodHistory('niftybees', day('2024-03-13'), day('2024-03-18'));
+    const second = await cached.getEodHistory('NIFTYBEES', day('2024-03-14'), day('2024-03-15'));
+
+    expect(first.map(candle => candle.close)).toEqual([247.15, 248.7, 247.95, 249.4]);
+    expect(second.map(candle => candle.time)).toEqual(['2024-03-14', '2024-03-15']);
+    expect(calls).toEqual([{ method: 'eod', from: '2024-03-13', to: '2024-03-18' }]);
+  });
+
+  test('only the missing range should be fetched when a read extends past the cache', async () => {
+    const { provider, calls } = countingProvider();
+    const cached = withCandleCache(provider, createMemoryCandleStore(), { now });
+
+    await cached.getEodHistory('NIFTYBEES', day('2024-03-14'), day('2024-03-15'));
+    const history = await cached.getEodHistory('NIFTYBEES', day('2024-03-13'), day('2024-03-18'));
+
+    expect(history).toHaveLength(4);
+    expect(calls.slice(1)).toEqual([
+      { method: 'eod', from: '2024-03-13', to: '2024-03-13' },
+      { method: 'eod', from: '2024-03-18', to: '2024-03-18' }
+    ]);
+  });
+
+  test('today should be refetched on every read', async () => {
+    const { provider, calls } = countingProvider();
+    const cached = withCandleCache(provider, createMemoryCandleStore(), { now });
+
+    await cached.getEodHistory('NIFTYBEES', day('2024-03-18'), day('2024-03-25'));
+    await cached.getEodHistory('NIFTYBEES', day('2024-03-18'), day('2024-03-25'));
+
+    expect(calls).toEqual([
+      { method: 'eod', from: '2024-03-18', to: '2024-03-20' },
+      { method: 'eod', from: '2024-03-20', to: '2024-03-20' }
+    ]);
+  });
+
+  test('offline reads should serve the cached history and the last known price', async () => {
+    const { provider, setOffline } = countingProvider();
+    const store = createMemoryCandleStore();
+    const cached = withCandleCache(provider, store, { now, quoteTtlMs: 0, closedQuoteTtlMs: 0 });
+
+    await cached.getEodHistory('NIFTYBEES', day('2024-03-13'), day('2024-03-18'));
+    setOffline(true);
+
+    expect(await cached.getEodHistory('NIFTYBEES', day('2024-03-13'), day('2024-03-20'))).toHaveLength(4);
+    expect(await cached.getQuote('NIFTYBEES')).toEqual({ symbol: 'NIFTYBEES', price: 249.4, time: '2024-03-18' });
+    await expect(cached.getEodHistory('TCS', day('2024-03-13'), day('2024-03-18'))).rejects.toThrow('Network unavailable');
+  });
+
+  test('quotes should be reused within their TTL', async () => {
+    const { provider, calls } = countingProvider();
+    const cached = withCandleCache(provider, createMemoryCandleStore(), { now, quoteTtlMs: 60000, closedQuoteTtlMs: 60000 });
+
+    await cached.getQuote('NIFTYBEES');
+    const quote = await cached.getQuote('NIFTYBEES');
+
+    expect(quote?.price).toBe(249.4);
+    expect(calls).toEqual([{ method: 'quote' }]);
+  });
+
+  test('batch quotes should fetch only the symbols not fresh in the cache, in one call', async () => {
+    const { provider, calls, setOffline } = countingProvider();
+    const cached = withCandleCache(provider, createMemoryCandleStore(), { now, quoteTtlMs: 60000, closedQuoteTtlMs: 60000 });
+
+    await cached.getQuote('NIFTYBEES');
+    const results = await cached.getQuotes(['niftybees', 'TCS']);
+
+    expect(results).toEqual([
+      { symbol: 'NIFTYBEES', quote: { symbol: 'NIFTYBEES', price: 249.4, time: '2024-03-18' } },
+      { symbol: 'TCS', quote: null }
+    ]);
+    expect(calls).toEqual([{ method: 'quote' }, { method: 'quotes TCS' }]);
+
+    setOffline(true);
+    expect(await cached.getQuotes(['TCS'])).toEqual([{ symbol: 'TCS', quote: null, error: 'Network unavailable' }]);
+  });
+
+  test('eviction should drop stale series and the least recently read beyond the limit', async () => {
+    const store = createMemoryCandleStore();
+    const series = (symbol: string, lastAccessedAt: string) =>
+      store.putSeries({ symbol, interval: '1d', ranges: [{ from: '2024-03-11', to: '2024-03-15' }], lastAccessedAt });
+    await series('OLD', '2023-10-01T00:00:00.000Z');
+    await series('A', '2024-03-18T00:00:00.000Z');
+    await series('B', '2024-03-19T00:00:00.000Z');
+    await series('C', '2024-03-20T00:00:00.000Z');
+    await store.putCandles('OLD', '1d', [{ time: '2024-03-11', open: 1, high: 1, low: 1, close: 1, volume: 0 }]);
+
+    expect(await evictCandleCache(store, { now, maxSeries: 2 })).toBe(2);
+    expect((await store.listSeries()).map(entry => entry.symbol).sort()).toEqual(['B', 'C']);
+    expect(await store.getCandles('OLD', '1d', '2024-03-01', '2024-03-31')).toEqual([]);
+  });
+});
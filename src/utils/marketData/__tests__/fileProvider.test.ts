@@ -0,0 +1,95 @@
+/**
+ * Market Data Provider Tests
+ * Fixtures: RELIANCE.csv holds two 1-minute sessions (14 and 15 March 2024), NIFTYBEES.json four
+ * daily bars as arrays, and strike-priceticks.json a raw strike.money response for TCS
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { createFileMarketDataProvider, parseCandleFile, ticksToCandles } from '..';
+
+const fixturePath = (fileName: string) => fileURLToPath(new URL(`./fixtures/${fileName}`, import.meta.url));
+
+const provider = createFileMarketDataProvider(async symbol => {
+  for (const fileName of [`${symbol}.json`, `${symbol}.csv`]) {
+    if (existsSync(fixturePath(fileName))) return readFileSync(fixturePath(fileName), 'utf8');
+  }
+  return null;
+});
+
+describe('File Market Data Provider', () => {
+  test('the quote should be the close of the latest bar', async () => {
+    expect(await provider.getQuote('reliance')).toEqual({
+      symbol: 'RELIANCE',
+      price: 2929.85,
+      time: '2024-03-15T15:29:00+05:30'
+    });
+    expect(await provider.getQuote('UNKNOWN')).toBeNull();
+  });
+
+  test('intraday candles without a range should be the latest session', async () => {
+    const candles = await provider.getIntradayCandles('RELIANCE');
+
+    expect(candles.map(candle => candle.close)).toEqual([2918.3, 2913, 2929.85]);
+    expect(candles[0]).toEqual({
+      time: '2024-03-15T09:15:00+05:30',
+      open: 2910,
+      high: 2921,
+      low: 2908,
+      close: 2918.3,
+      volume: 150300
+    });
+  });
+
+  test('intraday candles should be cut to the requested range', async () => {
+    const candles = await provider.getIntradayCandles(
+      'RELIANCE',
+      new Date('2024-03-14T09:15:00+05:30'),
+      new Date('2024-03-14T09:30:00+05:30')
+    );
+
+    expect(candles.map(candle => candle.time)).toEqual(['2024-03-14T09:15:00+05:30', '2024-03-14T09:16:00+05:30']);
+  });
+
+  test('EOD history should roll intraday bars up per day', async () => {
+    const history = await provider.getEodHistory('RELIANCE', new Date(2024, 2, 1), new Date(2024, 2, 31));
+
+    expect(history).toEqual([
+      { time: '2024-03-14', open: 2890, high: 2908.75, low: 2886.1, close: 2906.6, volume: 266150 },
+      { time: '2024-03-15', open: 2910, high: 2931, low: 2908, close: 2929.85, volume: 311420 }
+    ]);
+  });
+
+  test('EOD history should read daily JSON bars within the dates', async () => {
+    const history = await provider.getEodHistory('NIFTYBEES', new Date(2024, 2, 14), new Date(2024, 2, 15));
+
+    expect(history.map(candle => [candle.time, candle.close])).toEqual([
+      ['2024-03-14', 248.7],
+      ['2024-03-15', 247.95]
+    ]);
+  });
+
+  test('candle objects and epoch times should be read too', () => {
+    const candles = parseCandleFile(JSON.stringify([
+      { t: 1710475200, o: 10, h: 12, l: 9, c: 11, v: 100 },
+      { date: '2024-03-14', close: '1,050.5' }
+    ]));
+
+    expect(candles).toEqual([
+      { time: '2024-03-14', open: 1050.5, high: 1050.5, low: 1050.5, close: 1050.5, volume: 0 },
+      { time: '2024-03-15T04:00:00.000Z', open: 10, high: 12, low: 9, close: 11, volume: 100 }
+    ]);
+  });
+});
+
+describe('strike.money adapter', () => {
+  test('tick arrays should become candles', () => {
+    const response = JSON.parse(readFileSync(fixturePath('strike-priceticks.json'), 'utf8'));
+
+    expect(ticksToCandles(response, 'tcs')).toEqual([
+      { time: '2024-03-15T09:15:00+05:30', open: 4050, high: 4062.5, low: 4048, close: 4060.1, volume: 12050 },
+      { time: '2024-03-15T09:16:00+05:30', open: 4060.1, high: 4064, low: 4055.2, close: 4057.3, volume: 8300 }
+    ]);
+    expect(ticksToCandles(response, 'INFY')).toEqual([]);
+  });
+});
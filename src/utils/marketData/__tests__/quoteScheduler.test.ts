@@ -0,0 +1,147 @@
+/**
+ * Quote Refresh Scheduler Tests
+ * A fake provider without a batch endpoint that records requests in flight; sleeping advances the fake clock
+ */
+
+import { createQuoteRefreshScheduler, getQuotesOneByOne, MarketDataProvider, Quote, QuoteSchedulerOptions } from '..';
+
+function fakeProvider(failing: Set<string> = new Set()) {
+  const requested: string[] = [];
+  const batches: string[][] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const provider: MarketDataProvider = {
+    id: 'fake',
+    name: 'Fake',
+    async getQuote(symbol) {
+      requested.push(symbol);
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight -= 1;
+      if (failing.has(symbol)) throw new Error('HTTP 429: Too Many Requests');
+      return { symbol, price: 100, time: '2024-03-15T15:29:00+05:30' };
+    },
+    getQuotes(symbols) {
+      batches.push(symbols);
+      return getQuotesOneByOne(symbol => provider.getQuote(symbol), symbols, 2);
+    },
+    getIntradayCandles: async () => [],
+    getEodHistory: async () => []
+  };
+  return { provider, requested, batches, maxInFlight: () => maxInFlight };
+}
+
+function setup(failing?: Set<string>, options: QuoteSchedulerOptions = {}) {
+  const fake = fakeProvider(failing);
+  const quotes: Quote[] = [];
+  let clock = Date.parse('2024-03-15T10:00:00Z');
+  const scheduler = createQuoteRefreshScheduler(
+    async () => fake.provider,
+    quote => quotes.push(quote),
+    undefined,
+    {
+      batchSize: 4,
+      baseBackoffMs: 1000,
+      now: () => clock,
+      sleep: async ms => { clock += ms; },
+      ...options
+    }
+  );
+  return { ...fake, scheduler, quotes, advance: (ms: number) => { clock += ms; } };
+}
+
+describe('Quote Refresh Scheduler', () => {
+  test('symbols should be fetched once each, one batch call per chunk, with requests in flight capped', async () => {
+    const { scheduler, requested, batches, quotes, maxInFlight } = setup();
+    scheduler.setSymbols(['tcs', 'TCS', 'INFY', 'SBIN', 'RELIANCE', 'HDFCBANK', 'ITC', ' infy ']);
+
+    await scheduler.refreshNow();
+
+    expect(batches).toEqual([['TCS', 'INFY', 'SBIN', 'RELIANCE'], ['HDFCBANK', 'ITC']]);
+    expect(requested.sort()).toEqual(['HDFCBANK', 'INFY', 'ITC', 'RELIANCE', 'SBIN', 'TCS']);
+    expect(quotes).toHaveLength(6);
+    expect(maxInFlight()).toBe(2);
+    expect(scheduler.getStatus('tcs')?.lastUpdated).toBe('2024-03-15T10:00:00.000Z');
+    // The second batch waits out the pause between batches
+    expect(scheduler.getStatus('itc')?.lastUpdated).toBe('2024-03-15T10:00:00.500Z');
+  });
+
+  test('a refresh requested while one is running should join it', async () => {
+    const { scheduler, requested } = setup();
+    scheduler.setSymbols(['TCS', 'INFY']);
+
+    await Promise.all([scheduler.refreshNow(), scheduler.refreshNow()]);
+
+    expect(requested).toHaveLength(2);
+  });
+
+  test('a failing symbol should back off exponentially while the others keep refreshing', async () => {
+    const { scheduler, requested, advance } = setup(new Set(['SBIN']));
+    scheduler.setSymbols(['TCS', 'SBIN']);
+
+    await scheduler.refreshNow();
+    expect(scheduler.getStatus('SBIN')).toMatchObject({ error: 'HTTP 429: Too Many Requests', retryAt: '2024-03-15T10:00:01.000Z' });
+
+    await scheduler.refreshNow();
+    expect(requested.filter(symbol => symbol === 'SBIN')).toHaveLength(1);
+
+    advance(1000);
+    await scheduler.refreshNow();
+    advance(1000);
+    await scheduler.refreshNow();
+    expect(requested.filter(symbol => symbol === 'SBIN')).toHaveLength(2);
+    expect(requested.filter(symbol => symbol === 'TCS')).toHaveLength(4);
+    expect(scheduler.getStatus('SBIN')?.retryAt).toBe('2024-03-15T10:00:03.000Z');
+  });
+
+  test('a batch where every request fails should pause the refresh', async () => {
+    const failing = new Set(['A', 'B', 'C', 'D']);
+    const { scheduler, requested } = setup(failing);
+    scheduler.setSymbols(['A', 'B', 'C', 'D', 'E', 'F']);
+
+    await scheduler.refreshNow();
+
+    expect(requested.sort()).toEqual(['A', 'B', 'C', 'D']);
+    await scheduler.refreshNow();
+    expect(requested).toHaveLength(4);
+  });
+
+  test('a batch call that fails outright should back off every symbol in it', async () => {
+    const { scheduler, provider } = setup();
+    provider.getQuotes = async () => { throw new Error('HTTP 503: Service Unavailable'); };
+    scheduler.setSymbols(['TCS', 'INFY']);
+
+    await scheduler.refreshNow();
+
+    expect(scheduler.getStatus('TCS')).toMatchObject({ error: 'HTTP 503: Service Unavailable', retryAt: '2024-03-15T10:00:01.000Z' });
+    expect(scheduler.getStatus('INFY')?.error).toBe('HTTP 503: Service Unavailable');
+  });
+
+  test('the interval should only refresh during market hours', async () => {
+    vi.useFakeTimers();
+    try {
+      let marketOpen = false;
+      const { scheduler, requested } = setup(undefined, { intervalMs: 1000, isMarketOpen: () => marketOpen });
+      scheduler.setSymbols(['TCS']);
+
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(10);
+      expect(requested).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(requested).toHaveLength(1);
+
+      marketOpen = true;
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(requested).toHaveLength(2);
+
+      scheduler.stop();
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(requested).toHaveLength(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
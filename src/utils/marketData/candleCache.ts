@@ -0,0 +1,323 @@
+import { isMarketOpen } from '../priceTickApi';
+import { isTradingDay } from '../../lib/calculations/utils/exchangeCalendar';
+import type { Candle, Quote, QuoteResult, MarketDataProvider } from './types';
+
+/**
+ * CANDLE CACHE
+ * Daily history and last quotes kept on the device, so the same history is fetched once and
+ * prices are still there offline. Each series (symbol + interval) records the day ranges it has
+ * fetched - holidays have no candle, so coverage rather than the candles themselves tells what is
+ * missing. Today is never recorded as covered: its bar keeps changing until the close.
+ */
+
+/** Inclusive YYYY-MM-DD range */
+export interface DayRange {
+  from: string;
+  to: string;
+}
+
+export interface CandleSeries {
+  symbol: string;
+  interval: string;
+  ranges: DayRange[];
+  lastAccessedAt: string;
+}
+
+export interface CachedQuote extends Quote {
+  fetchedAt: string;
+}
+
+/**
+ * Where the cache keeps its data - IndexedDB in the app, memory in tests
+ */
+export interface CandleStore {
+  getCandles(symbol: string, interval: string, fromDay: string, toDay: string): Promise<Candle[]>;
+  putCandles(symbol: string, interval: string, candles: Candle[]): Promise<void>;
+  getSeries(symbol: string, interval: string): Promise<CandleSeries | null>;
+  putSeries(series: CandleSeries): Promise<void>;
+  listSeries(): Promise<CandleSeries[]>;
+  /** Drop the series and its candles */
+  deleteSeries(symbol: string, interval: string): Promise<void>;
+  getQuote(symbol: string): Promise<CachedQuote | null>;
+  putQuote(quote: CachedQuote): Promise<void>;
+  deleteQuotesBefore(fetchedAt: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CandleCacheOptions {
+  /** How long a quote is served without asking the provider */
+  quoteTtlMs?: number;
+  /** Quote TTL outside market hours, when the price can't move */
+  closedQuoteTtlMs?: number;
+  /** More separate gaps than this are fetched as one range */
+  maxGapRequests?: number;
+  /** Series untouched for this long are evicted */
+  maxAgeDays?: number;
+  /** Least recently used series beyond this count are evicted */
+  maxSeries?: number;
+  now?: () => Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: Required<CandleCacheOptions> = {
+  quoteTtlMs: 60 * 1000,
+  closedQuoteTtlMs: 30 * 60 * 1000,
+  maxGapRequests: 3,
+  maxAgeDays: 90,
+  maxSeries: 300,
+  now: () => new Date()
+};
+
+// Day strings are stepped in UTC so DST never skips or repeats a day
+const shiftDay = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const dayStart = (day: string) => new Date(`${day}T00:00:00`);
+
+const dayEnd = (day: string) => new Date(`${day}T23:59:59.999`);
+
+/**
+ * Sort ranges and join overlapping or adjacent ones
+ */
+export function mergeDayRanges(ranges: DayRange[]): DayRange[] {
+  const sorted = ranges.filter(range => range.from <= range.to).sort((a, b) => a.from.localeCompare(b.from));
+  const merged: DayRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.from <= shiftDay(last.to, 1)) {
+      if (range.to > last.to) last.to = range.to;
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Parts of [from, to] no range covers, trimmed to trading days - a gap of only weekends and
+ * exchange holidays has nothing to fetch
+ */
+export function findMissingRanges(covered: DayRange[], from: string, to: string): DayRange[] {
+  const gaps: DayRange[] = [];
+  let cursor = from;
+
+  for (const range of mergeDayRanges(covered)) {
+    if (range.to < cursor) continue;
+    if (range.from > to) break;
+    if (range.from > cursor) gaps.push({ from: cursor, to: shiftDay(range.from, -1) });
+    cursor = shiftDay(range.to, 1);
+    if (cursor > to) break;
+  }
+  if (cursor <= to) gaps.push({ from: cursor, to });
+
+  return gaps
+    .map(gap => {
+      let { from: start, to: end } = gap;
+      while (start <= end && !isTradingDay(start)) start = shiftDay(start, 1);
+      while (end >= start && !isTradingDay(end)) end = shiftDay(end, -1);
+      return { from: start, to: end };
+    })
+    .filter(gap => gap.from <= gap.to);
+}
+
+/**
+ * Drop series nobody has read for `maxAgeDays`, then the least recently read beyond `maxSeries`
+ */
+export async function evictCandleCache(store: CandleStore, options: CandleCacheOptions = {}): Promise<number> {
+  const { maxAgeDays, maxSeries, now } = { ...DEFAULT_OPTIONS, ...options };
+  const cutoff = new Date(now().getTime() - maxAgeDays * DAY_MS).toISOString();
+
+  const series = (await store.listSeries()).sort((a, b) => b.lastAccessedAt.localeCompare(a.lastAccessedAt));
+  const evicted = series.filter((entry, index) => entry.lastAccessedAt < cutoff || index >= maxSeries);
+
+  for (const entry of evicted) {
+    await store.deleteSeries(entry.symbol, entry.interval);
+  }
+  await store.deleteQuotesBefore(cutoff);
+  return evicted.length;
+}
+
+export function createMemoryCandleStore(): CandleStore {
+  const candles = new Map<string, Map<string, Candle>>();
+  const series = new Map<string, CandleSeries>();
+  const quotes = new Map<string, CachedQuote>();
+  const seriesKey = (symbol: string, interval: string) => `${symbol}|${interval}`;
+
+  return {
+    async getCandles(symbol, interval, fromDay, toDay) {
+      return Array.from(candles.get(seriesKey(symbol, interval))?.values() || [])
+        .filter(candle => candle.time.slice(0, 10) >= fromDay && candle.time.slice(0, 10) <= toDay)
+        .sort((a, b) => a.time.localeCompare(b.time));
+    },
+    async putCandles(symbol, interval, newCandles) {
+      const key = seriesKey(symbol, interval);
+      const byDay = candles.get(key) || new Map<string, Candle>();
+      newCandles.forEach(candle => byDay.set(candle.time.slice(0, 10), { ...candle }));
+      candles.set(key, byDay);
+    },
+    async getSeries(symbol, interval) {
+      const entry = series.get(seriesKey(symbol, interval));
+      return entry ? { ...entry, ranges: entry.ranges.map(range => ({ ...range })) } : null;
+    },
+    async putSeries(entry) {
+      series.set(seriesKey(entry.symbol, entry.interval), { ...entry });
+    },
+    async listSeries() {
+      return Array.from(series.values());
+    },
+    async deleteSeries(symbol, interval) {
+      series.delete(seriesKey(symbol, interval));
+      candles.delete(seriesKey(symbol, interval));
+    },
+    async getQuote(symbol) {
+      return quotes.get(symbol) || null;
+    },
+    async putQuote(quote) {
+      quotes.set(quote.symbol, { ...quote });
+    },
+    async deleteQuotesBefore(fetchedAt) {
+      quotes.forEach((quote, symbol) => {
+        if (quote.fetchedAt < fetchedAt) quotes.delete(symbol);
+      });
+    },
+    async clear() {
+      candles.clear();
+      series.clear();
+      quotes.clear();
+    }
+  };
+}
+
+/**
+ * Put the cache in front of a provider. EOD history only fetches the ranges the cache is missing;
+ * quotes are reused for a short while and, when the provider can't be reached, fall back to the
+ * last known price. Intraday candles always come from the provider.
+ */
+export function withCandleCache(
+  provider: MarketDataProvider,
+  store: CandleStore,
+  options: CandleCacheOptions = {}
+): MarketDataProvider {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const interval = '1d';
+  let evicted = false;
+
+  const lastCachedClose = async (symbol: string): Promise<Quote | null> => {
+    const series = await store.getSeries(symbol, interval);
+    const lastDay = series?.ranges.reduce((latest, range) => (range.to > latest ? range.to : latest), '');
+    const today = toDayKey(settings.now());
+    const candles = await store.getCandles(symbol, interval, lastDay ? shiftDay(lastDay, -10) : '0000-01-01', today);
+    const latest = candles[candles.length - 1];
+    return latest ? { symbol, price: latest.close, time: latest.time } : null;
+  };
+
+  return {
+    id: provider.id,
+    name: provider.name,
+
+    async getQuote(rawSymbol) {
+      const symbol = rawSymbol.toUpperCase();
+      const now = settings.now();
+      const cached = await store.getQuote(symbol);
+      const ttl = isMarketOpen() ? settings.quoteTtlMs : settings.closedQuoteTtlMs;
+      if (cached && now.getTime() - Date.parse(cached.fetchedAt) < ttl) {
+        return { symbol: cached.symbol, price: cached.price, time: cached.time };
+      }
+
+      try {
+        const quote = await provider.getQuote(symbol);
+        if (quote) {
+          await store.putQuote({ ...quote, symbol, fetchedAt: now.toISOString() });
+          return quote;
+        }
+      } catch (error) {
+        const fallback = cached || await lastCachedClose(symbol);
+        if (fallback) return { symbol, price: fallback.price, time: fallback.time };
+        throw error;
+      }
+      return cached ? { symbol, price: cached.price, time: cached.time } : lastCachedClose(symbol);
+    },
+
+    // Fresh cached quotes are served as they are; the rest go to the provider in one batch
+    async getQuotes(rawSymbols) {
+      const symbols = rawSymbols.map(symbol => symbol.toUpperCase());
+      const now = settings.now();
+      const ttl = isMarketOpen() ? settings.quoteTtlMs : settings.closedQuoteTtlMs;
+      const cached = await Promise.all(symbols.map(symbol => store.getQuote(symbol)));
+      const toQuote = (quote: CachedQuote) => ({ symbol: quote.symbol, price: quote.price, time: quote.time });
+
+      const stale = symbols.filter((_, index) => !cached[index] || now.getTime() - Date.parse(cached[index]!.fetchedAt) >= ttl);
+      let results: QuoteResult[] = [];
+      if (stale.length > 0) {
+        try {
+          results = await provider.getQuotes(stale);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Price fetch failed';
+          results = stale.map(symbol => ({ symbol, quote: null, error: message }));
+        }
+      }
+      const fetched = new Map(results.map(result => [result.symbol.toUpperCase(), result]));
+
+      return Promise.all(symbols.map(async (symbol, index) => {
+        const result = fetched.get(symbol);
+        const previous = cached[index];
+        if (!result) return { symbol, quote: toQuote(previous!) };
+        if (result.quote) {
+          await store.putQuote({ ...result.quote, symbol, fetchedAt: now.toISOString() });
+          return { symbol, quote: result.quote };
+        }
+        // Like getQuote: a failed fetch falls back to the last known price, or reports the failure
+        const fallback = previous ? toQuote(previous) : await lastCachedClose(symbol);
+        return fallback || !result.error ? { symbol, quote: fallback } : { symbol, quote: null, error: result.error };
+      }));
+    },
+
+    getIntradayCandles(symbol, from, to, candleInterval) {
+      return provider.getIntradayCandles(symbol, from, to, candleInterval);
+    },
+
+    async getEodHistory(rawSymbol, from, to) {
+      const symbol = rawSymbol.toUpperCase();
+      const now = settings.now();
+      const today = toDayKey(now);
+      const fromDay = toDayKey(from);
+      const toDay = toDayKey(to) > today ? today : toDayKey(to);
+
+      const series: CandleSeries = (await store.getSeries(symbol, interval)) || { symbol, interval, ranges: [], lastAccessedAt: '' };
+      let gaps = findMissingRanges(series.ranges, fromDay, toDay);
+      if (gaps.length > settings.maxGapRequests) {
+        gaps = [{ from: gaps[0].from, to: gaps[gaps.length - 1].to }];
+      }
+
+      let fetchError: unknown = null;
+      for (const gap of gaps) {
+        try {
+          const candles = await provider.getEodHistory(symbol, dayStart(gap.from), dayEnd(gap.to));
+          await store.putCandles(symbol, interval, candles.map(candle => ({ ...candle, time: candle.time.slice(0, 10) })));
+          // Today's bar is still forming - leave it uncovered so the next read refreshes it
+          const coveredTo = gap.to >= today ? shiftDay(today, -1) : gap.to;
+          series.ranges = mergeDayRanges([...series.ranges, { from: gap.from, to: coveredTo }]);
+        } catch (error) {
+          // Offline or the provider is down - serve whatever is cached
+          fetchError = error;
+        }
+      }
+
+      series.lastAccessedAt = now.toISOString();
+      await store.putSeries(series);
+
+      const candles = await store.getCandles(symbol, interval, fromDay, toDay);
+      if (candles.length === 0 && fetchError) throw fetchError;
+
+      if (!evicted && gaps.length > 0) {
+        evicted = true;
+        await evictCandleCache(store, settings).catch(() => 0);
+      }
+      return candles;
+    }
+  };
+}
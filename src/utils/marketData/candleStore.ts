@@ -0,0 +1,87 @@
+import Dexie, { Table } from 'dexie';
+import type { Candle } from './types';
+import type { CandleStore, CandleSeries, CachedQuote } from './candleCache';
+import { createMemoryCandleStore } from './candleCache';
+
+/**
+ * IndexedDB home of the candle cache. Prices are the same for every account, so there is one
+ * database per device rather than one per owner like the journal's local store.
+ */
+
+interface CandleRecord extends Candle {
+  symbol: string;
+  interval: string;
+  /** YYYY-MM-DD of the bar */
+  date: string;
+}
+
+class MarketDataDatabase extends Dexie {
+  candles!: Table<CandleRecord, [string, string, string]>;
+  series!: Table<CandleSeries, [string, string]>;
+  quotes!: Table<CachedQuote, string>;
+
+  constructor() {
+    super('nexus-market-data');
+    this.version(1).stores({
+      candles: '[symbol+interval+date], [symbol+interval]',
+      series: '[symbol+interval], lastAccessedAt',
+      quotes: 'symbol, fetchedAt'
+    });
+  }
+}
+
+function createIndexedDbCandleStore(): CandleStore {
+  const db = new MarketDataDatabase();
+
+  return {
+    async getCandles(symbol, interval, fromDay, toDay) {
+      const records = await db.candles
+        .where('[symbol+interval+date]')
+        .between([symbol, interval, fromDay], [symbol, interval, toDay], true, true)
+        .toArray();
+      return records.map(({ symbol: _symbol, interval: _interval, date: _date, ...candle }) => candle);
+    },
+    async putCandles(symbol, interval, candles) {
+      await db.candles.bulkPut(candles.map(candle => ({ ...candle, symbol, interval, date: candle.time.slice(0, 10) })));
+    },
+    async getSeries(symbol, interval) {
+      return (await db.series.get([symbol, interval])) || null;
+    },
+    async putSeries(series) {
+      await db.series.put(series);
+    },
+    async listSeries() {
+      return db.series.toArray();
+    },
+    async deleteSeries(symbol, interval) {
+      await db.transaction('rw', db.candles, db.series, async () => {
+        await db.candles.where('[symbol+interval]').equals([symbol, interval]).delete();
+        await db.series.delete([symbol, interval]);
+      });
+    },
+    async getQuote(symbol) {
+      return (await db.quotes.get(symbol)) || null;
+    },
+    async putQuote(quote) {
+      await db.quotes.put(quote);
+    },
+    async deleteQuotesBefore(fetchedAt) {
+      await db.quotes.where('fetchedAt').below(fetchedAt).delete();
+    },
+    async clear() {
+      await Promise.all([db.candles.clear(), db.series.clear(), db.quotes.clear()]);
+    }
+  };
+}
+
+let store: CandleStore | null = null;
+
+/**
+ * The device's candle store - kept in memory when IndexedDB isn't available (private windows, tests)
+ */
+export function getCandleStore(): CandleStore {
+  if (!store) {
+    store = typeof indexedDB !== 'undefined' ? createIndexedDbCandleStore() : createMemoryCandleStore();
+  }
+  return store;
+}
@@ -0,0 +1,174 @@
+import Papa from 'papaparse';
+import type { Candle, MarketDataProvider } from './types';
+import { getQuotesOneByOne } from './quoteBatch';
+
+/**
+ * LOCAL FILES
+ * Candles read from one CSV or JSON file per symbol, so the app and its tests can run without a
+ * network. A file holds whatever bars it was saved with - intraday sessions are cut out of it by
+ * date and daily history is built by rolling the bars up per day.
+ *
+ * CSV: a header row with time (or date/datetime/timestamp), open, high, low, close and volume.
+ * JSON: an array of candle objects, of [time, open, high, low, close, volume] arrays, or
+ * { candles: [...] } wrapping either.
+ */
+
+/** File contents for a symbol, or null when there is no file */
+export type CandleFileLoader = (symbol: string) => Promise<string | null>;
+
+const TIME_KEYS = ['time', 'datetime', 'date', 'timestamp', 'date time', 't'];
+const FIELD_KEYS: Record<Exclude<keyof Candle, 'time'>, string[]> = {
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c', 'ltp'],
+  volume: ['volume', 'vol', 'v']
+};
+
+const toNumber = (value: any) => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/,/g, ''));
+  return Number.isFinite(number) ? number : 0;
+};
+
+// Epoch values come in seconds or milliseconds; strings are kept as written
+const normalizeTime = (value: any): string => {
+  if (typeof value === 'number' || /^\d{9,13}$/.test(String(value).trim())) {
+    const epoch = Number(value);
+    return new Date(epoch < 1e12 ? epoch * 1000 : epoch).toISOString();
+  }
+  return String(value ?? '').trim();
+};
+
+const dayOf = (candle: Candle) => candle.time.slice(0, 10);
+
+const timestampOf = (candle: Candle) => new Date(candle.time).getTime();
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function readCandleRecord(record: Record<string, any>): Candle | null {
+  const keyed = new Map(Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value]));
+  const pick = (keys: string[]) => keys.map(key => keyed.get(key)).find(value => value !== undefined && value !== '');
+
+  const time = pick(TIME_KEYS);
+  const close = toNumber(pick(FIELD_KEYS.close));
+  if (time === undefined || !close) return null;
+
+  return {
+    time: normalizeTime(time),
+    open: toNumber(pick(FIELD_KEYS.open)) || close,
+    high: toNumber(pick(FIELD_KEYS.high)) || close,
+    low: toNumber(pick(FIELD_KEYS.low)) || close,
+    close,
+    volume: toNumber(pick(FIELD_KEYS.volume))
+  };
+}
+
+function readCandleArray(values: any[]): Candle | null {
+  const [time, open, high, low, close, volume] = values;
+  return readCandleRecord({ time, open, high, low, close, volume });
+}
+
+/**
+ * Parse a candle file, oldest bar first. Rows without a time or a close are skipped.
+ */
+export function parseCandleFile(content: string): Candle[] {
+  const trimmed = content.trim();
+  let candles: (Candle | null)[];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const rows: any[] = Array.isArray(parsed) ? parsed : parsed?.candles ?? parsed?.data ?? [];
+    candles = rows.map(row => (Array.isArray(row) ? readCandleArray(row) : readCandleRecord(row ?? {})));
+  } else {
+    const { data } = Papa.parse<Record<string, string>>(trimmed, { header: true, skipEmptyLines: true });
+    candles = data.map(readCandleRecord);
+  }
+
+  return candles
+    .filter((candle): candle is Candle => candle !== null && !Number.isNaN(timestampOf(candle)))
+    .sort((a, b) => timestampOf(a) - timestampOf(b));
+}
+
+/**
+ * Roll bars up into one per day
+ */
+export function toDailyCandles(candles: Candle[]): Candle[] {
+  const days = new Map<string, Candle>();
+  candles.forEach(candle => {
+    const day = dayOf(candle);
+    const existing = days.get(day);
+    days.set(day, existing
+      ? {
+          ...existing,
+          high: Math.max(existing.high, candle.high),
+          low: Math.min(existing.low, candle.low),
+          close: candle.close,
+          volume: existing.volume + candle.volume
+        }
+      : { ...candle, time: day });
+  });
+  return Array.from(days.values());
+}
+
+export function createFileMarketDataProvider(loadFile: CandleFileLoader): MarketDataProvider {
+  const loadCandles = async (symbol: string) => {
+    const content = await loadFile(symbol.toUpperCase());
+    return content ? parseCandleFile(content) : [];
+  };
+
+  const provider: MarketDataProvider = {
+    id: 'file',
+    name: 'Local files',
+
+    async getQuote(symbol) {
+      const candles = await loadCandles(symbol);
+      const latest = candles[candles.length - 1];
+      return latest ? { symbol: symbol.toUpperCase(), price: latest.close, time: latest.time } : null;
+    },
+
+    getQuotes(symbols) {
+      return getQuotesOneByOne(symbol => provider.getQuote(symbol), symbols);
+    },
+
+    async getIntradayCandles(symbol, from, to, interval) {
+      const candles = await loadCandles(symbol);
+      if (candles.length === 0) return [];
+
+      let session: Candle[];
+      if (from || to) {
+        const start = from ? from.getTime() : -Infinity;
+        const end = to ? to.getTime() : Infinity;
+        session = candles.filter(candle => timestampOf(candle) >= start && timestampOf(candle) <= end);
+      } else {
+        const latestDay = dayOf(candles[candles.length - 1]);
+        session = candles.filter(candle => dayOf(candle) === latestDay);
+      }
+      return interval === '1d' ? toDailyCandles(session) : session;
+    },
+
+    async getEodHistory(symbol, from, to) {
+      const first = dayKey(from);
+      const last = dayKey(to);
+      return toDailyCandles(await loadCandles(symbol)).filter(candle => candle.time >= first && candle.time <= last);
+    }
+  };
+  return provider;
+}
+
+/**
+ * Loader for files served by the app, e.g. public/market-data/RELIANCE.csv - JSON is tried first
+ */
+export function createFetchCandleFileLoader(basePath: string): CandleFileLoader {
+  const base = basePath.replace(/\/+$/, '');
+  return async (symbol) => {
+    for (const extension of ['json', 'csv']) {
+      const response = await fetch(`${base}/${encodeURIComponent(symbol)}.${extension}`, { cache: 'no-cache' });
+      // Dev servers answer unknown paths with index.html
+      if (response.ok && !(response.headers.get('content-type') || '').includes('text/html')) {
+        return response.text();
+      }
+    }
+    return null;
+  };
+}
@@ -0,0 +1,32 @@
+export type { Candle, Quote, QuoteResult, MarketDataProvider } from './types';
+export { getQuotesOneByOne } from './quoteBatch';
+export { strikeMoneyProvider, ticksToCandles } from './strikeMoney';
+export {
+  parseCandleFile,
+  toDailyCandles,
+  createFileMarketDataProvider,
+  createFetchCandleFileLoader
+} from './fileProvider';
+export type { CandleFileLoader } from './fileProvider';
+export {
+  toDayKey,
+  mergeDayRanges,
+  findMissingRanges,
+  evictCandleCache,
+  createMemoryCandleStore,
+  withCandleCache
+} from './candleCache';
+export type { DayRange, CandleSeries, CachedQuote, CandleStore, CandleCacheOptions } from './candleCache';
+export { getCandleStore } from './candleStore';
+export { createQuoteRefreshScheduler } from './quoteScheduler';
+export type { QuoteRefreshStatus, QuoteSchedulerOptions, QuoteRefreshScheduler } from './quoteScheduler';
+export {
+  MARKET_DATA_PROVIDER_OPTIONS,
+  DEFAULT_MARKET_DATA_SETTINGS,
+  getMarketDataSettings,
+  saveMarketDataSettings,
+  setMarketDataProvider,
+  clearMarketDataCache,
+  getMarketDataProvider
+} from './provider';
+export type { MarketDataProviderId, MarketDataSettings } from './provider';
@@ -0,0 +1,83 @@
+import { StorageService } from '../../services/storageBackend';
+import type { MarketDataProvider } from './types';
+import { strikeMoneyProvider } from './strikeMoney';
+import { createFileMarketDataProvider, createFetchCandleFileLoader } from './fileProvider';
+import { withCandleCache } from './candleCache';
+import { getCandleStore } from './candleStore';
+
+/**
+ * The provider setting and the provider it selects
+ */
+
+export type MarketDataProviderId = 'strike' | 'file';
+
+export interface MarketDataSettings {
+  provider: MarketDataProviderId;
+  /** Where the local-files provider reads SYMBOL.json / SYMBOL.csv from */
+  filePath: string;
+}
+
+export const MARKET_DATA_PROVIDER_OPTIONS: { id: MarketDataProviderId; name: string; description: string }[] = [
+  { id: 'strike', name: 'strike.money', description: 'Live and historical NSE prices over the network' },
+  { id: 'file', name: 'Local files', description: 'Candles from CSV/JSON files served with the app - works offline' }
+];
+
+export const DEFAULT_MARKET_DATA_SETTINGS: MarketDataSettings = { provider: 'strike', filePath: '/market-data' };
+
+const MARKET_DATA_SETTINGS_KEY = 'marketDataSettings';
+
+let cachedSettings: MarketDataSettings | null = null;
+let cachedProvider: MarketDataProvider | null = null;
+
+// Local files are already on the device, so only network providers go through the candle cache
+function buildProvider(settings: MarketDataSettings): MarketDataProvider {
+  return settings.provider === 'file'
+    ? createFileMarketDataProvider(createFetchCandleFileLoader(settings.filePath || DEFAULT_MARKET_DATA_SETTINGS.filePath))
+    : withCandleCache(strikeMoneyProvider, getCandleStore());
+}
+
+export async function getMarketDataSettings(): Promise<MarketDataSettings> {
+  if (cachedSettings) return cachedSettings;
+
+  let saved: Partial<MarketDataSettings> | null = null;
+  try {
+    saved = await StorageService.backend.misc.get(MARKET_DATA_SETTINGS_KEY);
+  } catch (error) {
+    // Prices still work with the default provider when the setting can't be read
+  }
+  cachedSettings = { ...DEFAULT_MARKET_DATA_SETTINGS, ...(saved || {}) };
+  return cachedSettings;
+}
+
+export async function saveMarketDataSettings(settings: MarketDataSettings): Promise<MarketDataSettings> {
+  if (!await StorageService.backend.misc.save(MARKET_DATA_SETTINGS_KEY, settings)) {
+    throw new Error('Failed to save market data settings');
+  }
+  cachedSettings = settings;
+  cachedProvider = null;
+  return settings;
+}
+
+/**
+ * Use a provider directly instead of the setting (tests, scripts) - pass null to go back to the setting
+ */
+export function setMarketDataProvider(provider: MarketDataProvider | null) {
+  cachedProvider = provider;
+}
+
+/**
+ * Forget every cached candle and quote
+ */
+export async function clearMarketDataCache(): Promise<void> {
+  await getCandleStore().clear();
+}
+
+/**
+ * The provider every price lookup goes through
+ */
+export async function getMarketDataProvider(): Promise<MarketDataProvider> {
+  if (!cachedProvider) {
+    cachedProvider = buildProvider(await getMarketDataSettings());
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,27 @@
+import type { Quote, QuoteResult } from './types';
+
+/**
+ * Batch quotes for providers without a batch endpoint: getQuote per symbol, with a cap on
+ * requests in flight so a large batch doesn't trip the provider's rate limits
+ */
+export async function getQuotesOneByOne(
+  getQuote: (symbol: string) => Promise<Quote | null>,
+  symbols: string[],
+  concurrency = 3
+): Promise<QuoteResult[]> {
+  const results: QuoteResult[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < symbols.length) {
+      const index = next++;
+      const symbol = symbols[index];
+      try {
+        results[index] = { symbol, quote: await getQuote(symbol) };
+      } catch (error) {
+        results[index] = { symbol, quote: null, error: error instanceof Error ? error.message : 'Price fetch failed' };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, symbols.length) }, worker));
+  return results;
+}
@@ -0,0 +1,173 @@
+import { isMarketOpen } from '../priceTickApi';
+import type { MarketDataProvider, Quote, QuoteResult } from './types';
+
+/**
+ * QUOTE REFRESH SCHEDULER
+ * Keeps the CMP of every open position current without tripping the provider's rate limits:
+ * symbols are deduped and fetched in batches - one getQuotes call each, which providers without
+ * a batch endpoint spread over capped single requests - a symbol that fails waits out an
+ * exponential backoff, and a batch where everything fails (throttling, or the network is down)
+ * pauses the whole refresh. Refreshes repeat only while the market is open.
+ */
+
+export interface QuoteRefreshStatus {
+  /** When the symbol's price was last fetched */
+  lastUpdated?: string;
+  /** Last failure, cleared by the next successful fetch */
+  error?: string;
+  /** Backed off until then after failures */
+  retryAt?: string;
+}
+
+export interface QuoteSchedulerOptions {
+  /** Symbols per getQuotes call */
+  batchSize?: number;
+  /** Pause between batches */
+  batchDelayMs?: number;
+  /** Refresh interval while the market is open */
+  intervalMs?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  isMarketOpen?: () => boolean;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface QuoteRefreshScheduler {
+  /** Symbols to keep fresh - duplicates and case differences collapse */
+  setSymbols(symbols: string[]): void;
+  /** Fetch every symbol not backing off; resolves when the cycle is done (joins a running one) */
+  refreshNow(): Promise<void>;
+  /** Refresh now and then on the interval during market hours */
+  start(): void;
+  stop(): void;
+  getStatus(symbol: string): QuoteRefreshStatus | undefined;
+}
+
+const DEFAULT_OPTIONS: Required<QuoteSchedulerOptions> = {
+  batchSize: 10,
+  batchDelayMs: 500,
+  intervalMs: 60 * 1000,
+  baseBackoffMs: 30 * 1000,
+  maxBackoffMs: 15 * 60 * 1000,
+  isMarketOpen,
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+interface SymbolState {
+  status: QuoteRefreshStatus;
+  failures: number;
+  retryAt: number;
+}
+
+export function createQuoteRefreshScheduler(
+  getProvider: () => Promise<MarketDataProvider>,
+  onQuote: (quote: Quote) => void,
+  onStatusChange: (symbol: string, status: QuoteRefreshStatus) => void = () => {},
+  options: QuoteSchedulerOptions = {}
+): QuoteRefreshScheduler {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const states = new Map<string, SymbolState>();
+  let symbols: string[] = [];
+  let running: Promise<void> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let pausedUntil = 0;
+
+  const stateOf = (symbol: string) => {
+    let state = states.get(symbol);
+    if (!state) {
+      state = { status: {}, failures: 0, retryAt: 0 };
+      states.set(symbol, state);
+    }
+    return state;
+  };
+
+  const recordResult = ({ symbol, quote, error }: QuoteResult): boolean => {
+    const state = stateOf(symbol);
+    if (quote) {
+      state.failures = 0;
+      state.retryAt = 0;
+      state.status = { lastUpdated: new Date(settings.now()).toISOString() };
+      onQuote({ ...quote, symbol });
+      onStatusChange(symbol, state.status);
+      return true;
+    }
+
+    state.failures += 1;
+    state.retryAt = settings.now() + Math.min(settings.baseBackoffMs * 2 ** (state.failures - 1), settings.maxBackoffMs);
+    state.status = {
+      ...state.status,
+      error: error || 'No price available',
+      retryAt: new Date(state.retryAt).toISOString()
+    };
+    onStatusChange(symbol, state.status);
+    return false;
+  };
+
+  const runBatch = async (provider: MarketDataProvider, batch: string[]): Promise<boolean[]> => {
+    let results: QuoteResult[];
+    try {
+      results = await provider.getQuotes(batch);
+    } catch (error) {
+      // The whole batch request failed
+      const message = error instanceof Error ? error.message : 'Price refresh failed';
+      results = batch.map(symbol => ({ symbol, quote: null, error: message }));
+    }
+    // Results are matched back by position, under the symbols the scheduler asked for
+    return batch.map((symbol, index) => recordResult({ quote: null, ...results[index], symbol }));
+  };
+
+  const runCycle = async () => {
+    const now = settings.now();
+    if (now < pausedUntil) return;
+
+    const due = symbols.filter(symbol => stateOf(symbol).retryAt <= now);
+    if (due.length === 0) return;
+
+    const provider = await getProvider();
+    for (let i = 0; i < due.length; i += settings.batchSize) {
+      if (i > 0) await settings.sleep(settings.batchDelayMs);
+
+      const results = await runBatch(provider, due.slice(i, i + settings.batchSize));
+      if (results.length > 1 && results.every(ok => !ok)) {
+        pausedUntil = settings.now() + settings.baseBackoffMs;
+        return;
+      }
+    }
+  };
+
+  const scheduler: QuoteRefreshScheduler = {
+    setSymbols(next) {
+      symbols = Array.from(new Set(next.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    },
+
+    refreshNow() {
+      if (!running) {
+        running = runCycle().finally(() => {
+          running = null;
+        });
+      }
+      return running;
+    },
+
+    start() {
+      scheduler.stop();
+      scheduler.refreshNow();
+      timer = setInterval(() => {
+        if (settings.isMarketOpen()) scheduler.refreshNow();
+      }, settings.intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+
+    getStatus(symbol) {
+      return states.get(symbol.toUpperCase())?.status;
+    }
+  };
+
+  return scheduler;
+}
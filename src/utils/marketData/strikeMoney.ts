@@ -0,0 +1,59 @@
+import {
+  PriceTicksResponse,
+  fetchPriceTicks,
+  fetchPriceTicksWithFallback,
+  fetchPriceTicksSmart
+} from '../priceTickApi';
+import type { Candle, MarketDataProvider } from './types';
+import { getQuotesOneByOne } from './quoteBatch';
+
+/**
+ * STRIKE.MONEY
+ * The only place that knows the priceticks response shape:
+ * ticks[SYMBOL] = [[dateTime, open, high, low, close, volume, dayVolume], ...]
+ */
+
+export function ticksToCandles(response: PriceTicksResponse, symbol: string): Candle[] {
+  const ticks = response?.data?.ticks?.[symbol.toUpperCase()] ?? response?.data?.ticks?.[symbol];
+  if (!Array.isArray(ticks)) return [];
+
+  return ticks.map(tick => ({
+    time: tick[0],
+    open: tick[1],
+    high: tick[2],
+    low: tick[3],
+    close: tick[4],
+    volume: tick[5]
+  }));
+}
+
+export const strikeMoneyProvider: MarketDataProvider = {
+  id: 'strike',
+  name: 'strike.money',
+
+  async getQuote(symbol) {
+    // Smart fetch prioritises the daily history during the night hours, when the intraday API fails
+    const candles = ticksToCandles(await fetchPriceTicksSmart(symbol), symbol);
+    const latest = candles[candles.length - 1];
+    return latest ? { symbol: symbol.toUpperCase(), price: latest.close, time: latest.time } : null;
+  },
+
+  // No batch endpoint - one priceticks request per symbol
+  getQuotes(symbols) {
+    return getQuotesOneByOne(symbol => strikeMoneyProvider.getQuote(symbol), symbols);
+  },
+
+  async getIntradayCandles(symbol, from, to, interval) {
+    let response: PriceTicksResponse;
+    try {
+      response = await fetchPriceTicks(symbol, from, to, interval);
+    } catch (primaryError) {
+      response = await fetchPriceTicksWithFallback(symbol, from, to, interval);
+    }
+    return ticksToCandles(response, symbol);
+  },
+
+  async getEodHistory(symbol, from, to) {
+    return ticksToCandles(await fetchPriceTicksSmart(symbol, from, to, '1d'), symbol);
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * One OHLCV bar, whatever provider it came from
+ */
+export interface Candle {
+  /** ISO date-time of the bar's open - a plain YYYY-MM-DD for daily bars */
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface Quote {
+  symbol: string;
+  /** Last traded price - the close of the latest bar the provider has */
+  price: number;
+  time: string;
+}
+
+/**
+ * One symbol's outcome in a batch quote fetch
+ */
+export interface QuoteResult {
+  symbol: string;
+  /** Null when the fetch failed or the provider has nothing for the symbol */
+  quote: Quote | null;
+  /** Why the fetch failed */
+  error?: string;
+}
+
+/**
+ * A source of prices. Everything that shows or stores a price goes through the active provider,
+ * so a change in an upstream API only touches that provider's adapter.
+ */
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  /** Latest price, or null when the provider has nothing for the symbol */
+  getQuote(symbol: string): Promise<Quote | null>;
+  /**
+   * Latest prices of several symbols, one result per symbol in the same order. Providers without a
+   * batch endpoint loop over getQuote (getQuotesOneByOne); one symbol failing doesn't fail the rest.
+   */
+  getQuotes(symbols: string[]): Promise<QuoteResult[]>;
+  /**
+   * Bars within a session. Without a range the provider picks the latest session it has -
+   * today's while the market is open, the previous trading day's before it opens.
+   */
+  getIntradayCandles(symbol: string, from?: Date, to?: Date, interval?: string): Promise<Candle[]>;
+  /** One bar per trading day between the dates, oldest first */
+  getEodHistory(symbol: string, from: Date, to: Date): Promise<Candle[]>;
+}
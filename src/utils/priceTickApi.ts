@@ -1,4 +1,5 @@
 import { format, subDays, parseISO, isWeekend, isFriday, isSameDay } from 'date-fns';
+import { getMarketSession, getPreviousTradingDay as getPreviousCalendarTradingDay, getTradingDayOnOrAfter, isTradingDay } from '../lib/calculations/utils/exchangeCalendar';
 
 export interface PriceTick {
   dateTime: string;
@@ -57,53 +58,48 @@ const encodeSymbolForApi = (symbol: string): string => {
   return `EQ%3A${upperSymbol}`;
 };
 
+// Pre-open ends at 9:08 on regular sessions; special sessions are tracked from their open
+const PRE_OPEN_TIME = '09:08';
+
+const setTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const calendarDayToDate = (day: string) => new Date(`${day}T00:00:00`);
+
 /**
- * Gets today's market open time (9:08 AM IST)
+ * Gets today's market open time (9:08 AM IST, or the start of today's special session)
  * @returns Date object set to today's market open
  */
 export const getTodayMarketOpen = (): Date => {
   const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  // Market opens at 9:08 AM IST (UTC+5:30)
-  today.setHours(9, 8, 0, 0);
-  return today;
+  const session = getMarketSession(today);
+  return setTime(today, session && session.type === 'special_session' ? session.open : PRE_OPEN_TIME);
 };
 
 /**
- * Gets today's market close time (3:30 PM IST)
+ * Gets today's market close time (3:30 PM IST, earlier on half days)
  * @returns Date object set to today's market close
  */
 export const getTodayMarketClose = (): Date => {
   const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  // Market closes at 3:30 PM IST (UTC+5:30)
-  today.setHours(15, 30, 0, 0);
-  return today;
+  return setTime(today, getMarketSession(today)?.close || '15:30');
 };
 
 /**
- * Checks if the market is currently open based on the specified hours (9:08 AM to 3:30 PM IST)
+ * Checks if the market is currently open - today's session per the exchange calendar,
+ * so holidays are closed and Muhurat/special sessions are open
  * @returns boolean indicating if market is open
  */
 export const isMarketOpen = (): boolean => {
   const now = new Date();
-  const day = now.getDay();
-
-  // Market is open Monday (1) to Friday (5)
-  if (day === 0 || day === 6) return false; // Sunday (0) or Saturday (6) are always closed
-
-  const hours = now.getHours();
-  const minutes = now.getMinutes();
-
-  // Market hours: 9:08 AM to 3:30 PM IST
-  if (hours < 9 || (hours === 9 && minutes < 8)) {
-    return false;
-  }
-  if (hours > 15 || (hours === 15 && minutes > 30)) {
-    return false;
-  }
+  if (!getMarketSession(now)) return false;
 
-  return true;
+  return now >= getTodayMarketOpen() && now <= getTodayMarketClose();
 };
 
 // Store for Friday's close price
@@ -125,42 +121,33 @@ const getCurrentISTDate = (): Date => {
 };
 
 /**
- * Gets the last working day (Friday or earlier if there are holidays)
+ * Gets the last trading day (the given day itself when the exchange is open)
  * @param fromDate Optional starting date, defaults to current IST date
- * @returns Date object set to the last working day
+ * @returns Date object set to the last trading day
  */
 const getLastWorkingDay = (fromDate?: Date): Date => {
   const date = fromDate ? new Date(fromDate) : getCurrentISTDate();
-
-  // If it's Saturday (6) or Sunday (0), go back to Friday
-  while (date.getDay() === 0 || date.getDay() === 6) {
-    date.setDate(date.getDate() - 1);
-  }
-
-  return date;
+  return calendarDayToDate(getTradingDayOnOrAfter(date, -1));
 };
 
 /**
- * Checks if current date is weekend (Saturday or Sunday) in IST
+ * Checks if the exchange is closed all day today in IST (weekend or holiday)
  */
 const isWeekendIST = (): boolean => {
-  const now = getCurrentISTDate();
-  const day = now.getDay();
-  return day === 0 || day === 6; // Sunday (0) or Saturday (6)
+  return !isTradingDay(getCurrentISTDate());
 };
 
 /**
- * Checks if current time is after-hours on a weekday (12:00 AM to 9:15 AM IST)
+ * Checks if current time is after-hours on a trading day (12:00 AM to 9:15 AM IST)
  * This is when system date may have changed but markets haven't opened yet
  */
 const isAfterHoursWeekday = (): boolean => {
   const now = getCurrentISTDate();
-  const day = now.getDay();
   const hours = now.getHours();
   const minutes = now.getMinutes();
 
-  // Only applies to weekdays (Monday=1 to Friday=5)
-  if (day === 0 || day === 6) return false;
+  // Only applies to trading days
+  if (!isTradingDay(now)) return false;
 
   // Check if time is between 12:00 AM (00:00) and 9:15 AM (09:15)
   if (hours < 9 || (hours === 9 && minutes < 15)) {
@@ -176,12 +163,11 @@ const isAfterHoursWeekday = (): boolean => {
  */
 const isProblematicNightHours = (): boolean => {
   const now = getCurrentISTDate();
-  const day = now.getDay();
   const hours = now.getHours();
   const minutes = now.getMinutes();
 
-  // Only applies to weekdays (Monday=1 to Friday=5)
-  if (day === 0 || day === 6) return false;
+  // Only applies to trading days
+  if (!isTradingDay(now)) return false;
 
   // Check if time is between 3:55 AM (03:55) and 9:15 AM (09:15)
   if (hours > 3 && hours < 9) {
@@ -198,23 +184,12 @@ const isProblematicNightHours = (): boolean => {
 };
 
 /**
- * Gets the previous trading day, accounting for weekends and after-hours
+ * Gets the previous trading day, accounting for weekends, holidays and after-hours
  * This is crucial for after-hours weekday polling when system date has changed
  * but we need previous day's market data
  */
 const getPreviousTradingDay = (): Date => {
-  const now = getCurrentISTDate();
-  const previousDay = new Date(now);
-
-  // Go back one day
-  previousDay.setDate(now.getDate() - 1);
-
-  // If the previous day is weekend, keep going back to Friday
-  while (previousDay.getDay() === 0 || previousDay.getDay() === 6) {
-    previousDay.setDate(previousDay.getDate() - 1);
-  }
-
-  return previousDay;
+  return calendarDayToDate(getPreviousCalendarTradingDay(getCurrentISTDate()));
 };
 
 /**
@@ -0,0 +1,144 @@
+/**
+ * Security Master Tests
+ * Built from small extracts of the exchange files around Zomato's 2025 rename to Eternal
+ */
+
+import { detectBroker, mergeBrokerFile } from '../../brokers';
+import {
+  EMPTY_SECURITY_MASTER,
+  SecurityMasterSnapshot,
+  createSecurityIndex,
+  mergeSecurityUpdate,
+  readSecurityFile
+} from '..';
+
+const nseEquityList = (symbol: string) => [
+  ['SYMBOL', 'NAME OF COMPANY', ' SERIES', ' DATE OF LISTING', ' PAID UP VALUE', ' MARKET LOT', ' ISIN NUMBER', ' FACE VALUE'],
+  [symbol, 'Eternal Limited', 'EQ', '23-JUL-2021', '1', '1', 'INE758T01015', '1'],
+  ['TCS', 'Tata Consultancy Services Limited', 'EQ', '25-AUG-2004', '1', '1', 'INE467B01029', '1'],
+  ['ABCSME', 'ABC Industries Limited', 'SM', '10-JAN-2024', '10', '1200', 'INE0ABC01011', '10'],
+  ['BADROW', 'No ISIN Limited', 'EQ', '10-JAN-2024', '10', '1', 'N/A', '10']
+];
+
+const symbolChanges = [
+  ['SM_NAME_OF_COMPANY', 'SM_KEY_SYMBOL', 'SM_NEW_SYMBOL', 'SM_APPLICABLE_FROM'],
+  ['Eternal Limited', 'ZOMATO', 'ETERNAL', '24-MAR-2025']
+];
+
+const bseScrips = [
+  ['Security Code', 'Issuer Name', 'Security Id', 'Security Name', 'Status', 'Group', 'Face Value', 'ISIN No', 'Industry', 'Instrument'],
+  ['543320', 'ETERNAL LIMITED', 'ETERNAL', 'Eternal Ltd', 'Active', 'A', '1.00', 'INE758T01015', 'E-Retail/ E-Commerce', 'Equity'],
+  ['532540', 'TATA CONSULTANCY SERVICES LTD.', 'TCS', 'TCS Ltd', 'Active', 'A', '1.00', 'INE467B01029', 'Computers - Software', 'Equity'],
+  ['500999', 'OLD MILLS LTD.', 'OLDMILL', 'Old Mills Ltd', 'Delisted', 'Z', '10.00', 'INE999Z01012', 'Textiles', 'Equity'],
+  ['958123', 'SOME FINANCE LTD.', '958SFL', 'SFL NCD', 'Active', 'F', '1000.00', 'INE111X07011', '', 'Non Convertible Debentures']
+];
+
+const sectors = [
+  ['Stock Name', 'Basic Industry', 'Index', 'Sector'],
+  ['ZOMATO', 'E-Retail/ E-Commerce', 'NIFTY 50', 'Consumer Services']
+];
+
+function buildMaster(...files: any[][][]): SecurityMasterSnapshot {
+  return files.reduce((snapshot, rows) => mergeSecurityUpdate(snapshot, readSecurityFile(rows)!), EMPTY_SECURITY_MASTER);
+}
+
+describe('Exchange Files', () => {
+  test('the NSE equity list should be read by ISIN with its series and board', () => {
+    const update = readSecurityFile([['NSE equity list'], [], ...nseEquityList('ZOMATO')])!;
+
+    expect(update.kind).toBe('nse_equity');
+    expect(update.securities.map(security => security.isin)).toEqual(['INE758T01015', 'INE467B01029', 'INE0ABC01011']);
+    expect(update.securities[0]).toMatchObject({ nseSymbol: 'ZOMATO', series: 'EQ', board: 'main', listedOn: '2021-07-23' });
+    expect(update.securities[2].board).toBe('sme');
+  });
+
+  test('the BSE list should keep equity scrips only', () => {
+    const update = readSecurityFile(bseScrips)!;
+
+    expect(update.kind).toBe('bse_scrips');
+    expect(update.securities.map(security => security.bseCode)).toEqual(['543320', '532540', '500999']);
+    expect(update.securities[2].status).toBe('delisted');
+  });
+
+  test('anything else should not be taken for an exchange file', () => {
+    expect(readSecurityFile([['Date', 'Stock', 'Action', 'Qty', 'Price']])).toBeNull();
+  });
+});
+
+describe('Security Master', () => {
+  test('a symbol change should move the company to its new symbol and keep the old one', () => {
+    const master = createSecurityIndex(buildMaster(nseEquityList('ZOMATO'), sectors, symbolChanges));
+    const eternal = master.resolve('ZOMATO')!;
+
+    expect(eternal.isin).toBe('INE758T01015');
+    expect(eternal.nseSymbol).toBe('ETERNAL');
+    expect(eternal.previousSymbols).toEqual(['ZOMATO']);
+    expect(eternal.sector).toBe('Consumer Services');
+    expect(master.getCurrentSymbol('zomato')).toBe('ETERNAL');
+  });
+
+  test('a newer equity list under the new symbol should update the same security', () => {
+    const snapshot = buildMaster(nseEquityList('ZOMATO'), nseEquityList('ETERNAL'), symbolChanges);
+    const master = createSecurityIndex(snapshot);
+
+    expect(snapshot.securities.filter(security => security.isin === 'INE758T01015')).toHaveLength(1);
+    expect(master.getCurrentSymbol('ZOMATO')).toBe('ETERNAL');
+  });
+
+  test('BSE codes should resolve, and BSE status only decides for scrips NSE does not list', () => {
+    const snapshot = buildMaster(nseEquityList('ETERNAL'), bseScrips);
+    const master = createSecurityIndex(snapshot);
+
+    expect(master.getCurrentSymbol('532540')).toBe('TCS');
+    expect(master.resolve('ETERNAL')?.bseCode).toBe('543320');
+    expect(master.getByIsin('INE999Z01012')?.status).toBe('delisted');
+    expect(master.getSymbols().slice(-1)).toEqual(['OLDMILL']);
+  });
+
+  test('delisted companies should stay in the master', () => {
+    const delisted = [
+      ['SYMBOL', 'NAME OF COMPANY', 'ISIN NUMBER', 'DATE OF DELISTING'],
+      ['ABCSME', 'ABC Industries Limited', 'INE0ABC01011', '15-JUN-2025']
+    ];
+    const master = createSecurityIndex(buildMaster(nseEquityList('ETERNAL'), delisted));
+
+    expect(master.resolve('ABCSME')).toMatchObject({ status: 'delisted', delistedOn: '2025-06-15' });
+  });
+});
+
+describe('Importing Against The Security Master', () => {
+  const header = ['symbol', 'isin', 'trade_date', 'exchange', 'segment', 'series', 'trade_type', 'auction', 'quantity', 'price', 'trade_id', 'order_id', 'order_execution_time'];
+  const tradebook = (...rows: string[][]) => detectBroker([{ fileName: 'tradebook.csv', rows: [header, ...rows] }])!;
+  const aliases = createSecurityIndex(buildMaster(nseEquityList('ZOMATO'), symbolChanges)).getAliases();
+
+  test('fills should be matched by ISIN to the current symbol', () => {
+    const { added } = mergeBrokerFile(
+      tradebook(['ZOMATO', 'INE758T01015', '2025-03-03', 'NSE', 'EQ', 'EQ', 'buy', 'false', '100', '210', '1', '11', '2025-03-03T09:20:00']),
+      [],
+      aliases
+    );
+
+    expect(added[0].name).toBe('ETERNAL');
+  });
+
+  test('fills under the new symbol should continue a trade journaled under the old one', () => {
+    const journal = mergeBrokerFile(
+      tradebook(['ZOMATO', 'INE758T01015', '2025-03-03', 'NSE', 'EQ', 'EQ', 'buy', 'false', '100', '210', '1', '11', '2025-03-03T09:20:00']),
+      []
+    ).added;
+    const { added, extended } = mergeBrokerFile(
+      tradebook(
+        ['ZOMATO', 'INE758T01015', '2025-03-03', 'NSE', 'EQ', 'EQ', 'buy', 'false', '100', '210', '1', '11', '2025-03-03T09:20:00'],
+        ['ETERNAL', 'INE758T01015', '2025-04-07', 'NSE', 'EQ', 'EQ', 'sell', 'false', '100', '230', '2', '12', '2025-04-07T10:00:00']
+      ),
+      journal,
+      aliases
+    );
+
+    expect(journal[0].name).toBe('ZOMATO');
+    expect(added).toHaveLength(0);
+    expect(extended).toHaveLength(1);
+    expect(extended[0].id).toBe(journal[0].id);
+    expect(extended[0].exit1Price).toBe(230);
+  });
+});
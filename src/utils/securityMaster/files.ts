@@ -0,0 +1,235 @@
+import { normalizeBrokerDate, readCell } from '../brokers/shared';
+import type { ListingStatus, SecurityFileKind, SecurityFileUpdate } from './types';
+
+/**
+ * EXCHANGE FILES
+ * The lists the exchanges publish, read into security master updates:
+ * - NSE equity list (EQUITY_L.csv) and SME list (SME_EQUITY_L.csv)
+ * - BSE list of scrips (Equity.csv from the BSE scrip search)
+ * - NSE symbol changes (symbolchange.csv)
+ * - NSE / BSE delisted securities
+ * - Sector and industry classification (name_sector_industry.csv layout)
+ */
+
+interface SecurityFileFormat {
+  kind: SecurityFileKind;
+  detect: (headers: string[]) => boolean;
+  parse: (headers: string[], rows: any[][]) => SecurityFileUpdate;
+}
+
+export const SECURITY_FILE_LABELS: Record<SecurityFileKind, string> = {
+  nse_equity: 'NSE equity list',
+  bse_scrips: 'BSE list of scrips',
+  nse_symbol_change: 'NSE symbol changes',
+  delisted: 'Delisted securities',
+  sector: 'Sector classification'
+};
+
+const HEADER_SCAN_ROWS = 10;
+
+// NSE mixes "NAME OF COMPANY" and "NAME_OF_COMPANY" between its main board and SME lists
+const normalizeSecurityHeader = (value: any) =>
+  String(value ?? '').replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+
+const column = (headers: string[], ...names: string[]) => {
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const ISIN_PATTERN = /^IN[A-Z0-9]{10}$/;
+
+const readIsin = (row: any[], index: number) => {
+  const isin = readCell(row, index).toUpperCase();
+  return ISIN_PATTERN.test(isin) ? isin : '';
+};
+
+const readSymbol = (row: any[], index: number) => readCell(row, index).toUpperCase();
+
+// SM, ST and SZ are the NSE Emerge (SME platform) series
+const SME_SERIES = ['SM', 'ST', 'SZ'];
+
+const toListingStatus = (value: string): ListingStatus => {
+  const status = value.toLowerCase();
+  if (status.startsWith('delist')) return 'delisted';
+  if (status.startsWith('suspend')) return 'suspended';
+  return 'active';
+};
+
+const emptyUpdate = (kind: SecurityFileKind): SecurityFileUpdate => ({ kind, securities: [], symbolChanges: [] });
+
+const formats: SecurityFileFormat[] = [
+  {
+    // SYMBOL, NAME OF COMPANY, SERIES, DATE OF LISTING, PAID UP VALUE, MARKET LOT, ISIN NUMBER, FACE VALUE
+    kind: 'nse_equity',
+    detect: headers =>
+      headers.includes('symbol') && headers.includes('name of company') && headers.includes('isin number') &&
+      !headers.some(header => header.includes('delist')),
+    parse: (headers, rows) => {
+      const col = {
+        symbol: column(headers, 'symbol'),
+        name: column(headers, 'name of company'),
+        series: column(headers, 'series'),
+        listedOn: column(headers, 'date of listing'),
+        isin: column(headers, 'isin number')
+      };
+      const update = emptyUpdate('nse_equity');
+      rows.forEach(row => {
+        const isin = readIsin(row, col.isin);
+        const nseSymbol = readSymbol(row, col.symbol);
+        if (!isin || !nseSymbol) return;
+        const series = readSymbol(row, col.series);
+        update.securities.push({
+          isin,
+          nseSymbol,
+          name: readCell(row, col.name),
+          series,
+          board: SME_SERIES.includes(series) ? 'sme' : 'main',
+          listedOn: normalizeBrokerDate(readCell(row, col.listedOn)) || undefined,
+          status: 'active'
+        });
+      });
+      return update;
+    }
+  },
+  {
+    // Security Code, Issuer Name, Security Id, Security Name, Status, Group, Face Value, ISIN No, Industry, Instrument
+    kind: 'bse_scrips',
+    detect: headers => headers.includes('security code') && headers.includes('security id') && headers.includes('isin no'),
+    parse: (headers, rows) => {
+      const col = {
+        code: column(headers, 'security code'),
+        symbol: column(headers, 'security id'),
+        name: column(headers, 'issuer name', 'security name'),
+        status: column(headers, 'status'),
+        group: column(headers, 'group'),
+        isin: column(headers, 'isin no'),
+        industry: column(headers, 'industry new name', 'industry'),
+        sector: column(headers, 'sector name'),
+        instrument: column(headers, 'instrument')
+      };
+      const update = emptyUpdate('bse_scrips');
+      rows.forEach(row => {
+        const isin = readIsin(row, col.isin);
+        if (!isin) return;
+        // The scrip list also carries debt, MF units and preference shares
+        const instrument = readCell(row, col.instrument).toLowerCase();
+        if (instrument && instrument !== 'equity') return;
+        const group = readSymbol(row, col.group);
+        update.securities.push({
+          isin,
+          bseCode: readCell(row, col.code),
+          bseSymbol: readSymbol(row, col.symbol),
+          name: readCell(row, col.name),
+          status: toListingStatus(readCell(row, col.status)),
+          // BSE SME scrips trade in the M and MT groups
+          ...(group === 'M' || group === 'MT' ? { board: 'sme' as const } : {}),
+          ...(readCell(row, col.industry) ? { industry: readCell(row, col.industry) } : {}),
+          ...(readCell(row, col.sector) ? { sector: readCell(row, col.sector) } : {})
+        });
+      });
+      return update;
+    }
+  },
+  {
+    // SM_NAME_OF_COMPANY, SM_KEY_SYMBOL, SM_NEW_SYMBOL, SM_APPLICABLE_FROM
+    kind: 'nse_symbol_change',
+    detect: headers =>
+      headers.some(header => header === 'sm key symbol' || header === 'old symbol') &&
+      headers.some(header => header === 'sm new symbol' || header === 'new symbol'),
+    parse: (headers, rows) => {
+      const col = {
+        name: column(headers, 'sm name of company', 'name of company', 'company name'),
+        oldSymbol: column(headers, 'sm key symbol', 'old symbol'),
+        newSymbol: column(headers, 'sm new symbol', 'new symbol'),
+        date: column(headers, 'sm applicable from', 'date of change', 'effective date')
+      };
+      const update = emptyUpdate('nse_symbol_change');
+      rows.forEach(row => {
+        const oldSymbol = readSymbol(row, col.oldSymbol);
+        const newSymbol = readSymbol(row, col.newSymbol);
+        if (!oldSymbol || !newSymbol || oldSymbol === newSymbol) return;
+        update.symbolChanges.push({
+          oldSymbol,
+          newSymbol,
+          date: normalizeBrokerDate(readCell(row, col.date)),
+          ...(readCell(row, col.name) ? { name: readCell(row, col.name) } : {})
+        });
+      });
+      update.symbolChanges.sort((a, b) => a.date.localeCompare(b.date));
+      return update;
+    }
+  },
+  {
+    // SYMBOL / Scrip Code, company name, ISIN (when given), date of delisting
+    kind: 'delisted',
+    detect: headers => headers.some(header => header.includes('delist')) &&
+      headers.some(header => header === 'symbol' || header === 'scrip code' || header === 'security code' || header.startsWith('isin')),
+    parse: (headers, rows) => {
+      const col = {
+        symbol: column(headers, 'symbol', 'scrip id', 'security id'),
+        code: column(headers, 'scrip code', 'security code'),
+        isin: headers.findIndex(header => header.startsWith('isin')),
+        name: column(headers, 'name of company', 'company name', 'scrip name', 'security name'),
+        date: headers.findIndex(header => header.includes('delist') && header.includes('date'))
+      };
+      const update = emptyUpdate('delisted');
+      rows.forEach(row => {
+        const isin = readIsin(row, col.isin);
+        const symbol = readSymbol(row, col.symbol);
+        const code = readCell(row, col.code);
+        if (!isin && !symbol && !code) return;
+        update.securities.push({
+          ...(isin ? { isin } : {}),
+          ...(symbol ? { nseSymbol: symbol } : {}),
+          ...(code ? { bseCode: code } : {}),
+          name: readCell(row, col.name),
+          status: 'delisted',
+          delistedOn: normalizeBrokerDate(readCell(row, col.date)) || undefined
+        });
+      });
+      return update;
+    }
+  },
+  {
+    // Stock Name, Basic Industry, Index, Sector - "Stock Name" is the NSE symbol
+    kind: 'sector',
+    detect: headers => headers.includes('stock name') && headers.includes('basic industry') && headers.includes('sector'),
+    parse: (headers, rows) => {
+      const col = {
+        symbol: column(headers, 'stock name'),
+        industry: column(headers, 'basic industry'),
+        sector: column(headers, 'sector')
+      };
+      const update = emptyUpdate('sector');
+      rows.forEach(row => {
+        const symbol = readSymbol(row, col.symbol);
+        if (!symbol) return;
+        update.securities.push({
+          nseSymbol: symbol,
+          industry: readCell(row, col.industry),
+          sector: readCell(row, col.sector)
+        });
+      });
+      return update;
+    }
+  }
+];
+
+/**
+ * Recognise an exchange file from its header row and read it, or null for anything else
+ */
+export function readSecurityFile(rows: any[][]): SecurityFileUpdate | null {
+  const scanRows = Math.min(HEADER_SCAN_ROWS, rows.length);
+  for (let headerRowIndex = 0; headerRowIndex < scanRows; headerRowIndex++) {
+    const row = rows[headerRowIndex];
+    if (!Array.isArray(row) || row.length === 0) continue;
+
+    const headers = row.map(normalizeSecurityHeader);
+    const format = formats.find(candidate => candidate.detect(headers));
+    if (format) return format.parse(headers, rows.slice(headerRowIndex + 1));
+  }
+  return null;
+}
@@ -0,0 +1,25 @@
+export type {
+  ListingStatus,
+  ListingBoard,
+  Security,
+  SymbolChange,
+  SecurityFileKind,
+  SecurityFileUpdate,
+  SecurityMasterSnapshot,
+  SecurityAliases
+} from './types';
+export { SECURITY_FILE_LABELS, readSecurityFile } from './files';
+export {
+  EMPTY_SECURITY_MASTER,
+  getSecuritySymbol,
+  mergeSecurityUpdate,
+  createSecurityIndex
+} from './master';
+export type { SecurityIndex } from './master';
+export {
+  loadSecurityMaster,
+  getLoadedSecurityMaster,
+  importSecurityFiles,
+  resetSecurityMaster
+} from './store';
+export type { SecurityFileImport } from './store';
@@ -0,0 +1,234 @@
+import type { Security, SecurityAliases, SecurityFileUpdate, SecurityMasterSnapshot, SymbolChange } from './types';
+
+/**
+ * SECURITY MASTER
+ * Every listed equity keyed by ISIN, built up from the exchange files. Each file kind owns its
+ * fields: the NSE list the NSE symbol, name and series; the BSE list the BSE code and id (and the
+ * listing status of BSE-only scrips); symbol changes and delisting lists follow a company through
+ * renames and exits; the sector file its classification. Merging never drops a security, so trades
+ * in companies that have since delisted still resolve.
+ */
+
+export interface SecurityIndex {
+  readonly snapshot: SecurityMasterSnapshot;
+  getByIsin(isin: string): Security | undefined;
+  /** The security an NSE symbol, former symbol, BSE id or BSE code belongs to */
+  resolve(symbol: string, isin?: string): Security | undefined;
+  /** What the company trades as now - the input back when it isn't known */
+  getCurrentSymbol(symbol: string, isin?: string): string;
+  /** Lookups for the importers */
+  getAliases(): SecurityAliases;
+  /** Every symbol, listed ones first */
+  getSymbols(): string[];
+}
+
+export const EMPTY_SECURITY_MASTER: SecurityMasterSnapshot = { securities: [], symbolChanges: [], sources: [] };
+
+const STATUS_ORDER: Record<Security['status'], number> = { active: 0, suspended: 1, delisted: 2 };
+
+/**
+ * The symbol a security is shown and journaled under - NSE's when it has one
+ */
+export const getSecuritySymbol = (security: Security) =>
+  security.nseSymbol || security.bseSymbol || security.bseCode || security.isin;
+
+const addPreviousSymbol = (security: Security, symbol: string) => {
+  if (!symbol || symbol === security.nseSymbol || security.previousSymbols?.includes(symbol)) return;
+  security.previousSymbols = [...(security.previousSymbols || []), symbol];
+};
+
+// Old symbol -> newest symbol, following chains of renames
+function buildRenameMap(changes: SymbolChange[]): Map<string, string> {
+  const next = new Map<string, string>();
+  [...changes].sort((a, b) => a.date.localeCompare(b.date)).forEach(change => next.set(change.oldSymbol, change.newSymbol));
+
+  const latest = new Map<string, string>();
+  next.forEach((_, oldSymbol) => {
+    let symbol = oldSymbol;
+    // A symbol can be reused after its company renames - stop on a cycle
+    for (let hops = 0; next.has(symbol) && hops < next.size; hops++) symbol = next.get(symbol)!;
+    if (symbol !== oldSymbol) latest.set(oldSymbol, symbol);
+  });
+  return latest;
+}
+
+/**
+ * Merge one exchange file into the master
+ */
+export function mergeSecurityUpdate(snapshot: SecurityMasterSnapshot, update: SecurityFileUpdate): SecurityMasterSnapshot {
+  const byIsin = new Map(snapshot.securities.map(security => [security.isin, { ...security }]));
+  const byNseSymbol = new Map<string, Security>();
+  const byBseCode = new Map<string, Security>();
+  const byBseSymbol = new Map<string, Security>();
+  byIsin.forEach(security => {
+    if (security.nseSymbol) byNseSymbol.set(security.nseSymbol, security);
+    if (security.bseCode) byBseCode.set(security.bseCode, security);
+    if (security.bseSymbol) byBseSymbol.set(security.bseSymbol, security);
+  });
+
+  const setNseSymbol = (security: Security, symbol: string) => {
+    const previous = security.nseSymbol;
+    security.nseSymbol = symbol;
+    byNseSymbol.set(symbol, security);
+    if (previous && previous !== symbol) {
+      byNseSymbol.delete(previous);
+      addPreviousSymbol(security, previous);
+    }
+  };
+
+  let symbolChanges = snapshot.symbolChanges;
+
+  switch (update.kind) {
+    case 'nse_equity':
+      update.securities.forEach(record => {
+        const existing = byIsin.get(record.isin!);
+        const security: Security = existing || { isin: record.isin!, name: record.name || '', status: 'active' };
+        setNseSymbol(security, record.nseSymbol!);
+        security.name = record.name || security.name;
+        security.series = record.series;
+        security.board = record.board;
+        security.listedOn = record.listedOn || security.listedOn;
+        security.status = 'active';
+        delete security.delistedOn;
+        byIsin.set(security.isin, security);
+      });
+      break;
+
+    case 'bse_scrips':
+      update.securities.forEach(record => {
+        const existing = byIsin.get(record.isin!);
+        const security: Security = existing || { isin: record.isin!, name: record.name || '', status: record.status || 'active' };
+        security.bseCode = record.bseCode || security.bseCode;
+        security.bseSymbol = record.bseSymbol || security.bseSymbol;
+        security.name = security.name || record.name || '';
+        security.industry = security.industry || record.industry;
+        security.sector = security.sector || record.sector;
+        security.board = security.board || record.board || 'main';
+        // NSE's list decides for companies listed there
+        if (!security.nseSymbol && record.status) security.status = record.status;
+        if (security.bseCode) byBseCode.set(security.bseCode, security);
+        if (security.bseSymbol) byBseSymbol.set(security.bseSymbol, security);
+        byIsin.set(security.isin, security);
+      });
+      break;
+
+    case 'delisted':
+      update.securities.forEach(record => {
+        const security = (record.isin && byIsin.get(record.isin)) ||
+          (record.nseSymbol && byNseSymbol.get(record.nseSymbol)) ||
+          (record.bseCode && byBseCode.get(record.bseCode));
+        if (security) {
+          security.status = 'delisted';
+          security.delistedOn = record.delistedOn || security.delistedOn;
+        } else if (record.isin) {
+          // Delisted before the master knew it - kept so its old trades still resolve
+          byIsin.set(record.isin, {
+            isin: record.isin,
+            name: record.name || '',
+            status: 'delisted',
+            ...(record.nseSymbol ? { nseSymbol: record.nseSymbol } : {}),
+            ...(record.bseCode ? { bseCode: record.bseCode } : {}),
+            ...(record.delistedOn ? { delistedOn: record.delistedOn } : {})
+          });
+        }
+      });
+      break;
+
+    case 'sector': {
+      const renames = buildRenameMap(snapshot.symbolChanges);
+      update.securities.forEach(record => {
+        const symbol = record.nseSymbol!;
+        const security = byNseSymbol.get(symbol) || byNseSymbol.get(renames.get(symbol) || '') || byBseSymbol.get(symbol);
+        if (!security) return;
+        security.industry = record.industry || security.industry;
+        security.sector = record.sector || security.sector;
+      });
+      break;
+    }
+
+    case 'nse_symbol_change': {
+      const known = new Set(snapshot.symbolChanges.map(change => `${change.oldSymbol}>${change.newSymbol}`));
+      symbolChanges = [...snapshot.symbolChanges, ...update.symbolChanges.filter(change => !known.has(`${change.oldSymbol}>${change.newSymbol}`))];
+      const renames = buildRenameMap(symbolChanges);
+      renames.forEach((newSymbol, oldSymbol) => {
+        const renamed = byNseSymbol.get(newSymbol);
+        const stale = byNseSymbol.get(oldSymbol);
+        if (renamed) {
+          addPreviousSymbol(renamed, oldSymbol);
+        } else if (stale) {
+          setNseSymbol(stale, newSymbol);
+        }
+      });
+      break;
+    }
+  }
+
+  return { ...snapshot, securities: Array.from(byIsin.values()), symbolChanges };
+}
+
+/**
+ * Lookups over a master snapshot
+ */
+export function createSecurityIndex(snapshot: SecurityMasterSnapshot): SecurityIndex {
+  const byIsin = new Map(snapshot.securities.map(security => [security.isin, security]));
+  const bySymbol = new Map<string, Security>();
+  const renames = buildRenameMap(snapshot.symbolChanges);
+
+  // Later sets win: BSE codes, then BSE ids and former symbols, then current NSE symbols
+  snapshot.securities.forEach(security => security.bseCode && bySymbol.set(security.bseCode, security));
+  snapshot.securities.forEach(security => {
+    if (security.bseSymbol) bySymbol.set(security.bseSymbol, security);
+    security.previousSymbols?.forEach(symbol => bySymbol.set(symbol, security));
+  });
+  snapshot.securities.forEach(security => security.nseSymbol && bySymbol.set(security.nseSymbol, security));
+
+  let aliases: SecurityAliases | null = null;
+  let symbols: string[] | null = null;
+
+  const index: SecurityIndex = {
+    snapshot,
+
+    getByIsin: isin => byIsin.get(isin.trim().toUpperCase()),
+
+    resolve(symbol, isin) {
+      const fromIsin = isin ? byIsin.get(isin.trim().toUpperCase()) : undefined;
+      if (fromIsin) return fromIsin;
+      const key = symbol.trim().toUpperCase();
+      return bySymbol.get(key) || bySymbol.get(renames.get(key) || '');
+    },
+
+    getCurrentSymbol(symbol, isin) {
+      const security = index.resolve(symbol, isin);
+      if (security) return getSecuritySymbol(security);
+      return renames.get(symbol.trim().toUpperCase()) || symbol;
+    },
+
+    getAliases() {
+      if (!aliases) {
+        aliases = { byIsin: {}, bySymbol: {} };
+        byIsin.forEach((security, isin) => {
+          aliases!.byIsin[isin] = getSecuritySymbol(security);
+        });
+        renames.forEach((_, oldSymbol) => {
+          aliases!.bySymbol[oldSymbol] = index.getCurrentSymbol(oldSymbol);
+        });
+        bySymbol.forEach((security, symbol) => {
+          const current = getSecuritySymbol(security);
+          if (current !== symbol) aliases!.bySymbol[symbol] = current;
+        });
+      }
+      return aliases;
+    },
+
+    getSymbols() {
+      if (!symbols) {
+        symbols = [...snapshot.securities]
+          .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || getSecuritySymbol(a).localeCompare(getSecuritySymbol(b)))
+          .map(getSecuritySymbol);
+      }
+      return symbols;
+    }
+  };
+
+  return index;
+}
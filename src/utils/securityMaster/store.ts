@@ -0,0 +1,156 @@
+import Dexie, { Table } from 'dexie';
+import Papa from 'papaparse';
+import type { SecurityFileUpdate, SecurityMasterSnapshot } from './types';
+import { readSecurityFile } from './files';
+import { EMPTY_SECURITY_MASTER, SecurityIndex, createSecurityIndex, mergeSecurityUpdate } from './master';
+
+/**
+ * Where the security master lives. It starts from the lists bundled with the app; files the user
+ * uploads are merged on top and the result kept in IndexedDB, one copy per device since listings
+ * are the same for every account.
+ */
+
+const BUNDLED_EQUITY_LIST_URL = new URL('../../EQUITY_L.csv', import.meta.url).href;
+const BUNDLED_SECTOR_LIST_URL = '/name_sector_industry.csv';
+
+interface SnapshotRecord extends SecurityMasterSnapshot {
+  id: string;
+}
+
+class SecurityMasterDatabase extends Dexie {
+  snapshots!: Table<SnapshotRecord, string>;
+
+  constructor() {
+    super('nexus-security-master');
+    this.version(1).stores({ snapshots: 'id' });
+  }
+}
+
+const SNAPSHOT_ID = 'current';
+
+let db: SecurityMasterDatabase | null = null;
+let memorySnapshot: SecurityMasterSnapshot | null = null;
+let loading: Promise<SecurityIndex> | null = null;
+let loaded: SecurityIndex | null = null;
+
+// Kept in memory when IndexedDB isn't available (private windows, tests)
+const getDb = () => {
+  if (!db && typeof indexedDB !== 'undefined') db = new SecurityMasterDatabase();
+  return db;
+};
+
+async function readStoredSnapshot(): Promise<SecurityMasterSnapshot | null> {
+  const database = getDb();
+  if (!database) return memorySnapshot;
+  const record = await database.snapshots.get(SNAPSHOT_ID);
+  if (!record) return null;
+  const { id: _id, ...snapshot } = record;
+  return snapshot;
+}
+
+async function writeStoredSnapshot(snapshot: SecurityMasterSnapshot | null): Promise<void> {
+  const database = getDb();
+  if (!database) {
+    memorySnapshot = snapshot;
+  } else if (snapshot) {
+    await database.snapshots.put({ ...snapshot, id: SNAPSHOT_ID });
+  } else {
+    await database.snapshots.delete(SNAPSHOT_ID);
+  }
+}
+
+const parseCsvRows = (text: string) => Papa.parse<any[]>(text, { skipEmptyLines: true }).data;
+
+async function fetchBundledFile(url: string): Promise<SecurityFileUpdate | null> {
+  try {
+    const response = await fetch(url);
+    return response.ok ? readSecurityFile(parseCsvRows(await response.text())) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * The master built from the bundled NSE equity and sector lists
+ */
+async function buildBundledSnapshot(): Promise<SecurityMasterSnapshot> {
+  const updates = await Promise.all([fetchBundledFile(BUNDLED_EQUITY_LIST_URL), fetchBundledFile(BUNDLED_SECTOR_LIST_URL)]);
+  return updates.reduce<SecurityMasterSnapshot>(
+    (snapshot, update) => (update ? mergeSecurityUpdate(snapshot, update) : snapshot),
+    EMPTY_SECURITY_MASTER
+  );
+}
+
+/**
+ * The security master, loaded once per session
+ */
+export function loadSecurityMaster(): Promise<SecurityIndex> {
+  if (!loading) {
+    loading = (async () => {
+      const snapshot = await readStoredSnapshot().catch(() => null) || await buildBundledSnapshot();
+      loaded = createSecurityIndex(snapshot);
+      return loaded;
+    })();
+    // A failed load is retried on the next call
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+/**
+ * The master if it has finished loading - for lookups that can't wait
+ */
+export function getLoadedSecurityMaster(): SecurityIndex | null {
+  return loaded;
+}
+
+export interface SecurityFileImport {
+  fileName: string;
+  /** Null when the file wasn't an exchange list we recognise */
+  kind: SecurityFileUpdate['kind'] | null;
+  rows: number;
+}
+
+/**
+ * Merge exchange files, read into cell grids, into the master and keep the result. Files are applied
+ * in the order given, so an equity list should come before the symbol changes and sectors that refer to it.
+ */
+export async function importSecurityFiles(files: Array<{ fileName: string; rows: any[][] }>): Promise<SecurityFileImport[]> {
+  let snapshot = (await loadSecurityMaster()).snapshot;
+  const results: SecurityFileImport[] = [];
+  const importedAt = new Date().toISOString();
+
+  files.forEach(file => {
+    const update = readSecurityFile(file.rows);
+    if (!update) {
+      results.push({ fileName: file.fileName, kind: null, rows: 0 });
+      return;
+    }
+    const rows = update.securities.length + update.symbolChanges.length;
+    snapshot = {
+      ...mergeSecurityUpdate(snapshot, update),
+      updatedAt: importedAt,
+      sources: [...snapshot.sources, { fileName: file.fileName, kind: update.kind, importedAt, rows }]
+    };
+    results.push({ fileName: file.fileName, kind: update.kind, rows });
+  });
+
+  if (results.some(result => result.kind)) {
+    await writeStoredSnapshot(snapshot);
+    loaded = createSecurityIndex(snapshot);
+    loading = Promise.resolve(loaded);
+  }
+  return results;
+}
+
+/**
+ * Forget uploaded files and go back to the bundled lists
+ */
+export async function resetSecurityMaster(): Promise<SecurityIndex> {
+  await writeStoredSnapshot(null);
+  loaded = null;
+  loading = null;
+  return loadSecurityMaster();
+}
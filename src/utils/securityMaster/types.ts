@@ -0,0 +1,66 @@
+export type ListingStatus = 'active' | 'suspended' | 'delisted';
+
+export type ListingBoard = 'main' | 'sme';
+
+/**
+ * One company's equity, keyed by ISIN - the one identifier that survives symbol changes and is
+ * the same on both exchanges
+ */
+export interface Security {
+  isin: string;
+  name: string;
+  nseSymbol?: string;
+  /** BSE scrip code, e.g. 500325 */
+  bseCode?: string;
+  /** BSE security id - the BSE ticker, usually the NSE symbol when listed on both */
+  bseSymbol?: string;
+  /** NSE series - EQ, BE, SM, ST... */
+  series?: string;
+  board?: ListingBoard;
+  sector?: string;
+  industry?: string;
+  status: ListingStatus;
+  /** YYYY-MM-DD */
+  listedOn?: string;
+  delistedOn?: string;
+  /** Symbols it traded under before, oldest first */
+  previousSymbols?: string[];
+}
+
+export interface SymbolChange {
+  oldSymbol: string;
+  newSymbol: string;
+  /** YYYY-MM-DD the new symbol took effect */
+  date: string;
+  name?: string;
+}
+
+export type SecurityFileKind = 'nse_equity' | 'bse_scrips' | 'nse_symbol_change' | 'delisted' | 'sector';
+
+/**
+ * What one exchange file contributes. Each kind fills in its own fields of the master.
+ */
+export interface SecurityFileUpdate {
+  kind: SecurityFileKind;
+  securities: Array<Partial<Security> & { isin?: string }>;
+  symbolChanges: SymbolChange[];
+}
+
+export interface SecurityMasterSnapshot {
+  securities: Security[];
+  symbolChanges: SymbolChange[];
+  /** When a file was last merged in - absent for the bundled lists */
+  updatedAt?: string;
+  /** Files merged in since the bundled lists, latest last */
+  sources: Array<{ fileName: string; kind: SecurityFileKind; importedAt: string; rows: number }>;
+}
+
+/**
+ * Symbol lookups an importer needs, as plain data so they can be posted to the import worker
+ */
+export interface SecurityAliases {
+  /** ISIN -> current symbol */
+  byIsin: Record<string, string>;
+  /** Former NSE symbol, BSE code or BSE id -> current symbol */
+  bySymbol: Record<string, string>;
+}
@@ -0,0 +1,66 @@
+/**
+ * Field-level helpers for sync conflicts between this device's copy of a record and the remote one
+ */
+
+export type ConflictChoice = 'local' | 'remote';
+
+// Bookkeeping that differs between devices without being a user edit
+const IGNORED_FIELDS = new Set(['updated_at', 'created_at', 'user_id']);
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Objects compare field by field; anything else (arrays, strings, numbers) is a single 'value' field
+ */
+export function toFieldMap(value: any): Record<string, any> {
+  return isPlainObject(value) ? value : { value };
+}
+
+/**
+ * Timestamps from Postgres and from the browser format differently - compare the instant
+ */
+export function isSameVersion(a?: string | null, b?: string | null): boolean {
+  if (!a || !b) return false;
+  return Date.parse(a) === Date.parse(b);
+}
+
+// A trade row saved before legs existed gets fresh leg ids each time it is read, so legs compare by content
+const comparableValue = (key: string, value: any) =>
+  key === 'legs' && Array.isArray(value) ? value.map(({ id: _id, ...leg }) => leg) : value ?? null;
+
+/**
+ * Fields whose values differ between the two copies. Private `_` fields (cached calculations,
+ * the record version) and row bookkeeping are left out.
+ */
+export function diffRecordFields(local: any, remote: any): string[] {
+  const localFields = toFieldMap(local);
+  const remoteFields = toFieldMap(remote);
+  const keys = new Set([...Object.keys(localFields), ...Object.keys(remoteFields)]);
+
+  return Array.from(keys).filter(key =>
+    !key.startsWith('_') &&
+    !IGNORED_FIELDS.has(key) &&
+    JSON.stringify(comparableValue(key, localFields[key])) !== JSON.stringify(comparableValue(key, remoteFields[key]))
+  );
+}
+
+/**
+ * Build the merged record: every field starts from the remote copy, and fields the user
+ * picked 'local' for take this device's value
+ */
+export function mergeRecordFields(local: any, remote: any, choices: Record<string, ConflictChoice>): any {
+  const merged = { ...toFieldMap(remote) };
+  const localFields = toFieldMap(local);
+
+  Object.entries(choices).forEach(([field, choice]) => {
+    if (choice !== 'local') return;
+    if (field in localFields) {
+      merged[field] = localFields[field];
+    } else {
+      delete merged[field];
+    }
+  });
+
+  return isPlainObject(remote) || isPlainObject(local) ? merged : merged.value;
+}
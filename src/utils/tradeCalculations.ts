@@ -2,11 +2,20 @@
  * GAP DOWN ANALYSIS FUNCTIONS
  * All other calculations moved to src/lib/calculations/
  */
-import { isRiskyPosition } from '../lib/calculations';
+import { isRiskyPosition, isShortPosition } from '../lib/calculations';
+
+// Adverse gap direction: longs lose on a gap down, shorts lose on a gap up
+export type GapDirection = 'down' | 'up';
 
 export interface TradeGapDownAnalysis {
   tradeId: string;
   tradeName: string;
+  buySell: 'Buy' | 'Sell';
+  openQty: number;
+  currentPrice: number;
+  stopLoss: number;
+  gapDirection: GapDirection;
+  gapDownPrice: number;
   normalStopLossRisk: number;
   gapDownRisk: number;
   additionalRisk: number;
@@ -32,6 +41,10 @@ export interface GapDownScenario {
   riskIncreaseFactor: number;
 }
 
+export function getGapDirection(buySell?: string): GapDirection {
+  return isShortPosition(buySell) ? 'up' : 'down';
+}
+
 // Centralized risk calculation function to eliminate duplication
 function calcPositionRisk(
   entryPrice: number,
@@ -39,20 +52,20 @@ function calcPositionRisk(
   quantity: number,
   buySell: 'Buy' | 'Sell' = 'Buy'
 ): number {
-  return buySell === 'Buy'
+  return isShortPosition(buySell)
     ? Math.abs((stopPrice - entryPrice) * quantity)
     : Math.abs((entryPrice - stopPrice) * quantity);
 }
 
-// Centralized gap down price calculation
+// Centralized adverse gap price calculation (gap down for longs, gap up for shorts)
 function calcGapDownPrice(
   entryPrice: number,
   gapPercentage: number,
   buySell: 'Buy' | 'Sell' = 'Buy'
 ): number {
-  return buySell === 'Buy'
-    ? entryPrice * (1 - gapPercentage / 100)
-    : entryPrice * (1 + gapPercentage / 100);
+  return getGapDirection(buySell) === 'up'
+    ? entryPrice * (1 + gapPercentage / 100)
+    : entryPrice * (1 - gapPercentage / 100);
 }
 
 function calcTradeGapDownAnalysis(
@@ -88,6 +101,12 @@ function calcTradeGapDownAnalysis(
   return {
     tradeId: trade.id,
     tradeName: trade.name || 'Unknown',
+    buySell,
+    openQty,
+    currentPrice: trade.cmp || avgEntry,
+    stopLoss: sl,
+    gapDirection: getGapDirection(buySell),
+    gapDownPrice,
     normalStopLossRisk,
     gapDownRisk,
     additionalRisk,
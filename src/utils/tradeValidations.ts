@@ -1,4 +1,6 @@
 import { Trade } from "../types/trade";
+import { getTradeLegs, getEntryAction, LEGACY_ENTRY_SLOTS, LEGACY_EXIT_SLOTS } from "../lib/calculations/core/tradeLegs";
+import { getLotSize, isWholeLots } from "../lib/calculations/core/instruments";
 
 export interface TradeIssue {
   type: 'error' | 'warning';
@@ -8,15 +10,17 @@ export interface TradeIssue {
 export function validateTrade(trade: Trade): TradeIssue[] {
   const issues: TradeIssue[] = [];
 
+  // Split every leg into entries and exits (not just the legacy pyramid/exit slots)
+  const entryAction = getEntryAction(trade.buySell);
+  const legs = getTradeLegs(trade);
+  const entryLegs = legs.filter(leg => leg.action === entryAction);
+  const exitLegs = legs.filter(leg => leg.action !== entryAction);
+
   // Calculate total bought quantity
-  const totalBoughtQty = (trade.initialQty || 0) +
-    (trade.pyramid1Qty || 0) +
-    (trade.pyramid2Qty || 0);
+  const totalBoughtQty = entryLegs.reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
 
   // Calculate total exit quantity
-  const totalExitQty = (trade.exit1Qty || 0) +
-    (trade.exit2Qty || 0) +
-    (trade.exit3Qty || 0);
+  const totalExitQty = exitLegs.reduce((sum, leg) => sum + (Number(leg.qty) || 0), 0);
 
   // 1. Exit qty > Bought qty (ERROR) - but only if there are actual exits
   if (totalExitQty > 0 && totalExitQty > totalBoughtQty) {
@@ -26,46 +30,22 @@ export function validateTrade(trade: Trade): TradeIssue[] {
     });
   }
 
-  // 2. Pyramid quantities without prices (WARNING)
-  if ((trade.pyramid1Qty || 0) > 0 && !((trade.pyramid1Price || 0) > 0)) {
-    issues.push({
-      type: 'warning',
-      message: 'Pyramid 1 has quantity but no price specified'
-    });
-  }
-
-  if ((trade.pyramid2Qty || 0) > 0 && !((trade.pyramid2Price || 0) > 0)) {
-    issues.push({
-      type: 'warning',
-      message: 'Pyramid 2 has quantity but no price specified'
-    });
-  }
-
-  // 3. Exit quantities without prices (WARNING)
-  if ((trade.exit1Qty || 0) > 0 && !((trade.exit1Price || 0) > 0)) {
-    issues.push({
-      type: 'warning',
-      message: 'Exit 1 has quantity but no price specified'
-    });
-  }
-
-  if ((trade.exit2Qty || 0) > 0 && !((trade.exit2Price || 0) > 0)) {
-    issues.push({
-      type: 'warning',
-      message: 'Exit 2 has quantity but no price specified'
-    });
-  }
-
-  if ((trade.exit3Qty || 0) > 0 && !((trade.exit3Price || 0) > 0)) {
-    issues.push({
-      type: 'warning',
-      message: 'Exit 3 has quantity but no price specified'
-    });
-  }
+  // 2. Pyramid/exit quantities without prices (WARNING)
+  // Half-filled rows only ever live in the legacy slot columns - legs drop them
+  [...LEGACY_ENTRY_SLOTS.slice(1), ...LEGACY_EXIT_SLOTS].forEach(slot => {
+    const qty = Number(trade[slot.qty as keyof Trade]) || 0;
+    const price = Number(trade[slot.price as keyof Trade]) || 0;
+    if (qty > 0 && !(price > 0)) {
+      issues.push({
+        type: 'warning',
+        message: `${slot.label} has quantity but no price specified`
+      });
+    }
+  });
 
   // 2. Open qty but no exit details (WARNING)
   const hasOpenQty = trade.openQty > 0;
-  const noExitDetails = !trade.exit1Qty && !trade.exit2Qty && !trade.exit3Qty;
+  const noExitDetails = totalExitQty === 0;
   if (hasOpenQty && noExitDetails) {
     issues.push({
       type: 'warning',
@@ -93,5 +73,15 @@ export function validateTrade(trade: Trade): TradeIssue[] {
     });
   }
 
+  // 5. F&O quantities that aren't whole lots (WARNING)
+  const lotSize = getLotSize(trade);
+  const oddLegs = legs.filter(leg => !isWholeLots(trade, Number(leg.qty) || 0));
+  if (lotSize && oddLegs.length > 0) {
+    issues.push({
+      type: 'warning',
+      message: `Lot size is ${lotSize}, but ${oddLegs.map(leg => leg.qty).join(', ')} ${oddLegs.length === 1 ? 'is' : 'are'} not a whole number of lots`
+    });
+  }
+
   return issues;
 }
\ No newline at end of file
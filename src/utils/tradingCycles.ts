@@ -0,0 +1,104 @@
+/**
+ * TRADING CYCLE DETECTION
+ * Shared by the broker tradebook importers (see ./brokers)
+ */
+
+export type FillSide = 'buy' | 'sell';
+
+// How to read a broker-specific tradebook row
+export interface FillAccessor<T> {
+  side: (fill: T) => FillSide;
+  qty: (fill: T) => number;
+  price: (fill: T) => number;
+  date: (fill: T) => string;
+  withQty: (fill: T, qty: number) => T;
+}
+
+// One round trip from flat back to flat - long if it opened with a buy, short if it opened with a sell
+export interface TradingCycle<T> {
+  buySell: 'Buy' | 'Sell';
+  entryTransactions: T[];
+  exitTransactions: T[];
+  totalEntryQty: number;
+  totalExitQty: number;
+  avgEntryPrice: number;
+  avgExitPrice: number;
+  firstEntryDate: string;
+  lastExitDate: string;
+  isComplete: boolean;
+}
+
+// Detect separate trading cycles by tracking the signed running position.
+// A fill that takes the position through zero (long -> short or vice versa) is split:
+// the closing part ends the current cycle and the remainder opens the next one.
+export function detectTradingCycles<T>(transactions: T[], accessor: FillAccessor<T>): T[][] {
+  const cycles: T[][] = [];
+  let currentCycle: T[] = [];
+  let runningPosition = 0;
+
+  for (const transaction of transactions) {
+    const signedQty = accessor.side(transaction) === 'buy'
+      ? accessor.qty(transaction)
+      : -accessor.qty(transaction);
+    const nextPosition = runningPosition + signedQty;
+
+    if (runningPosition !== 0 && Math.sign(nextPosition) === -Math.sign(runningPosition)) {
+      // Position flipped - close the current cycle with just enough quantity
+      currentCycle.push(accessor.withQty(transaction, Math.abs(runningPosition)));
+      cycles.push(currentCycle);
+      currentCycle = [accessor.withQty(transaction, Math.abs(nextPosition))];
+      runningPosition = nextPosition;
+      continue;
+    }
+
+    currentCycle.push(transaction);
+    runningPosition = nextPosition;
+
+    // If position reaches zero, we've completed a trading cycle
+    if (runningPosition === 0) {
+      cycles.push(currentCycle);
+      currentCycle = [];
+    }
+  }
+
+  // If there's an incomplete cycle (open position), add it as well
+  if (currentCycle.length > 0) {
+    cycles.push(currentCycle);
+  }
+
+  return cycles;
+}
+
+// Split a cycle into entries and exits based on the side of its opening fill
+export function summarizeTradingCycle<T>(cycle: T[], accessor: FillAccessor<T>): TradingCycle<T> {
+  const entrySide = cycle.length > 0 ? accessor.side(cycle[0]) : 'buy';
+  const entryTransactions = cycle.filter(t => accessor.side(t) === entrySide);
+  const exitTransactions = cycle.filter(t => accessor.side(t) !== entrySide);
+
+  const sumQty = (fills: T[]) => fills.reduce((sum, t) => sum + accessor.qty(t), 0);
+  const sumValue = (fills: T[]) => fills.reduce((sum, t) => sum + accessor.qty(t) * accessor.price(t), 0);
+
+  const totalEntryQty = sumQty(entryTransactions);
+  const totalExitQty = sumQty(exitTransactions);
+
+  return {
+    buySell: entrySide === 'buy' ? 'Buy' : 'Sell',
+    entryTransactions,
+    exitTransactions,
+    totalEntryQty,
+    totalExitQty,
+    avgEntryPrice: totalEntryQty > 0 ? sumValue(entryTransactions) / totalEntryQty : 0,
+    avgExitPrice: totalExitQty > 0 ? sumValue(exitTransactions) / totalExitQty : 0,
+    firstEntryDate: entryTransactions.length > 0 ? accessor.date(entryTransactions[0]) : '',
+    lastExitDate: exitTransactions.length > 0 ? accessor.date(exitTransactions[exitTransactions.length - 1]) : '',
+    isComplete: totalExitQty >= totalEntryQty
+  };
+}
+
+// Realised P&L of a cycle - shorts profit when they cover below the entry price
+export function calcCycleRealisedPL(cycle: Pick<TradingCycle<unknown>, 'buySell' | 'totalExitQty' | 'avgEntryPrice' | 'avgExitPrice'>): number {
+  const move = cycle.buySell === 'Buy'
+    ? cycle.avgExitPrice - cycle.avgEntryPrice
+    : cycle.avgEntryPrice - cycle.avgExitPrice;
+  return cycle.totalExitQty * move;
+}
@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_ANON_KEY?: string
+  readonly VITE_OAUTH_REDIRECT_URL?: string
+  /** 'supabase' (default), 'indexeddb' or 'memory' */
+  readonly VITE_STORAGE_BACKEND?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
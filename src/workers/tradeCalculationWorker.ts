@@ -39,18 +39,50 @@ const calcAllocation = (positionSize: number, portfolioSize: number) => {
   return portfolioSize > 0 ? (positionSize / portfolioSize) * 100 : 0;
 };
 
-const calcSLPercent = (sl: number, avgEntry: number) => {
-  if (avgEntry === 0) return 0;
-  return Math.abs((sl - avgEntry) / avgEntry) * 100;
+// Futures and short options tie up their margin, not the notional value
+const calcCapitalAtWork = (trade: any, positionSize: number) => {
+  const type = trade.instrument?.type;
+  const margin = Number(trade.instrument?.margin) || 0;
+  const isMarginPosition = type === 'Future' || (type === 'Option' && trade.buySell === 'Sell');
+  return isMarginPosition && margin > 0 ? margin : positionSize;
 };
 
-const calcExitedQty = (exit1Qty: number, exit2Qty: number, exit3Qty: number) => {
-  return (exit1Qty || 0) + (exit2Qty || 0) + (exit3Qty || 0);
+// Distance to a stop on the losing side - below entry for longs, above entry for shorts
+const calcSLPercent = (sl: number, avgEntry: number, buySell?: string) => {
+  if (avgEntry === 0 || !sl) return 0;
+  const change = ((sl - avgEntry) / avgEntry) * 100;
+  return Math.max(0, buySell === 'Sell' ? change : -change);
 };
 
-const calcOpenQty = (initialQty: number, pyramid1Qty: number, pyramid2Qty: number, exitedQty: number) => {
-  const totalQty = (initialQty || 0) + (pyramid1Qty || 0) + (pyramid2Qty || 0);
-  return Math.max(0, totalQty - exitedQty);
+// Split a trade into entry/exit fills - stored legs win, legacy slots are the fallback
+const getTradeFills = (trade: any) => {
+  const entryAction = trade.buySell === 'Sell' ? 'Sell' : 'Buy';
+  const isValid = (e: { price: number; qty: number }) => e.price > 0 && e.qty > 0;
+
+  if (Array.isArray(trade.legs) && trade.legs.length > 0) {
+    const fills = trade.legs.map((leg: any) => ({
+      action: leg.action,
+      price: Number(leg.price) || 0,
+      qty: Number(leg.qty) || 0
+    }));
+    return {
+      entries: fills.filter((f: any) => f.action === entryAction && isValid(f)),
+      exits: fills.filter((f: any) => f.action !== entryAction && isValid(f))
+    };
+  }
+
+  return {
+    entries: [
+      { price: trade.entry || 0, qty: trade.initialQty || 0 },
+      { price: trade.pyramid1Price || 0, qty: trade.pyramid1Qty || 0 },
+      { price: trade.pyramid2Price || 0, qty: trade.pyramid2Qty || 0 }
+    ].filter(isValid),
+    exits: [
+      { price: trade.exit1Price || 0, qty: trade.exit1Qty || 0 },
+      { price: trade.exit2Price || 0, qty: trade.exit2Qty || 0 },
+      { price: trade.exit3Price || 0, qty: trade.exit3Qty || 0 }
+    ].filter(isValid)
+  };
 };
 
 const calcUnrealizedPL = (avgEntry: number, cmp: number, openQty: number, buySell: string) => {
@@ -67,11 +99,7 @@ const calcUnrealizedPL = (avgEntry: number, cmp: number, openQty: number, buySel
 const calculateTradeMetrics = (trade: any, portfolioSize: number) => {
   try {
     // Entry calculations
-    const entries = [
-      { price: trade.entry || 0, qty: trade.initialQty || 0 },
-      ...(trade.pyramid1Price && trade.pyramid1Qty ? [{ price: trade.pyramid1Price, qty: trade.pyramid1Qty }] : []),
-      ...(trade.pyramid2Price && trade.pyramid2Qty ? [{ price: trade.pyramid2Price, qty: trade.pyramid2Qty }] : [])
-    ].filter(e => e.price > 0 && e.qty > 0);
+    const { entries, exits } = getTradeFills(trade);
 
     if (entries.length === 0) {
       return {
@@ -89,16 +117,10 @@ const calculateTradeMetrics = (trade: any, portfolioSize: number) => {
     const avgEntry = calcAvgEntry(entries);
     const totalQty = entries.reduce((sum, e) => sum + e.qty, 0);
     const positionSize = calcPositionSize(avgEntry, totalQty);
-    const allocation = calcAllocation(positionSize, portfolioSize);
-    const slPercent = calcSLPercent(trade.sl || trade.tsl || 0, avgEntry);
-    const exitedQty = calcExitedQty(trade.exit1Qty || 0, trade.exit2Qty || 0, trade.exit3Qty || 0);
-    const openQty = calcOpenQty(trade.initialQty || 0, trade.pyramid1Qty || 0, trade.pyramid2Qty || 0, exitedQty);
-
-    const exits = [
-      ...(trade.exit1Price && trade.exit1Qty ? [{ price: trade.exit1Price, qty: trade.exit1Qty }] : []),
-      ...(trade.exit2Price && trade.exit2Qty ? [{ price: trade.exit2Price, qty: trade.exit2Qty }] : []),
-      ...(trade.exit3Price && trade.exit3Qty ? [{ price: trade.exit3Price, qty: trade.exit3Qty }] : [])
-    ].filter(e => e.price > 0 && e.qty > 0);
+    const allocation = calcAllocation(calcCapitalAtWork(trade, positionSize), portfolioSize);
+    const slPercent = calcSLPercent(trade.sl || trade.tsl || 0, avgEntry, trade.buySell);
+    const exitedQty = exits.reduce((sum, e) => sum + e.qty, 0);
+    const openQty = Math.max(0, totalQty - exitedQty);
 
     const avgExitPrice = exits.length > 0 ? 
       exits.reduce((sum, e) => sum + (e.price * e.qty), 0) / exits.reduce((sum, e) => sum + e.qty, 0) : 0;
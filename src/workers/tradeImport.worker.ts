@@ -0,0 +1,63 @@
+// Web Worker for trade file imports
+// Reading a large workbook, grouping a year of fills into trades and checking every trade would otherwise freeze the upload modal
+
+import { buildPreviewRows, runImportPipeline } from '../utils/brokers/pipeline';
+import type { ImportPipelineResult, ImportStage } from '../utils/brokers/pipeline';
+import type { Trade } from '../types/trade';
+import type { SecurityAliases } from '../utils/securityMaster/types';
+import type { ImportPortfolioSizes, ImportPreviewRow } from '../utils/importDiff';
+import type { TradeIssue } from '../utils/tradeValidations';
+
+interface ImportRequestBase {
+  id: string;
+  existingTrades: Trade[];
+  /** Portfolio sizes by month - the worker can't reach the portfolio context */
+  portfolio?: ImportPortfolioSizes;
+}
+
+// A file to read, recognise and turn into preview rows
+interface FileImportRequest extends ImportRequestBase {
+  type: 'file';
+  file: File;
+  /** The security master's symbol lookups - the worker can't load the master itself */
+  aliases?: SecurityAliases;
+}
+
+// Trades already mapped from a CSV's columns, to recalculate and check
+interface PreviewImportRequest extends ImportRequestBase {
+  type: 'preview';
+  trades: Trade[];
+  parseIssues: Record<string, TradeIssue[]>;
+}
+
+type TradeImportRequest = FileImportRequest | PreviewImportRequest;
+
+type TradeImportResponse =
+  | { id: string; type: 'progress'; stage: ImportStage; progress: number }
+  | { id: string; type: 'result'; result: ImportPipelineResult }
+  | { id: string; type: 'preview'; rows: ImportPreviewRow[] }
+  | { id: string; type: 'error'; error: string };
+
+// Handle messages from the main thread. Cancelling terminates the worker, so there is no cancel message.
+self.onmessage = async function(e: MessageEvent<TradeImportRequest>) {
+  const request = e.data;
+  const { id, existingTrades, portfolio } = request;
+
+  const post = (response: TradeImportResponse) => self.postMessage(response);
+  const onProgress = (stage: ImportStage, progress: number) => post({ id, type: 'progress', stage, progress });
+
+  try {
+    if (request.type === 'preview') {
+      const rows = buildPreviewRows(request.trades, existingTrades, portfolio, request.parseIssues, onProgress);
+      post({ id, type: 'preview', rows });
+      return;
+    }
+    const result = await runImportPipeline(request.file, existingTrades, onProgress, { aliases: request.aliases, portfolio });
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
+
+// Export types for TypeScript
+export type { TradeImportRequest, TradeImportResponse };